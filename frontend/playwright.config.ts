@@ -63,5 +63,7 @@ export default defineConfig({
     url: 'http://localhost:3000',
     reuseExistingServer: !process.env.CI,
     timeout: 120 * 1000,
+    // Serve the seeded mock backend so specs do not depend on a running V11 node
+    env: { VITE_MOCK_BACKEND: 'true' },
   },
 });
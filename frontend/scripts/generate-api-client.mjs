@@ -0,0 +1,357 @@
+#!/usr/bin/env node
+/**
+ * OpenAPI Client Generator
+ *
+ * Reads an OpenAPI 3 document and writes a TypeScript module with:
+ * - an interface (or type alias) per component schema
+ * - a zod schema per component schema, used to validate responses in dev builds
+ * - one function per operationId, calling the shared APIClient through
+ *   src/services/openapi/runtime.ts
+ *
+ * The output is formatted with the repo's prettier config, so regenerating
+ * from an unchanged spec leaves the committed file untouched.
+ *
+ * Usage:
+ *   node scripts/generate-api-client.mjs <spec.yaml> <output.ts> [--check]
+ *
+ * With --check nothing is written; the script fails if <output.ts> differs
+ * from what the spec generates.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, relative, resolve } from 'node:path';
+import { parse } from 'yaml';
+import prettier from 'prettier';
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+const args = process.argv.slice(2);
+const check = args.includes('--check');
+const [specPath, outputPath] = args.filter((arg) => arg !== '--check');
+if (!specPath || !outputPath) {
+  console.error('Usage: generate-api-client.mjs <spec.yaml> <output.ts> [--check]');
+  process.exit(1);
+}
+
+const spec = parse(readFileSync(specPath, 'utf8'));
+const components = spec.components?.schemas ?? {};
+
+// ===== Helpers =====
+
+const pascalCase = (value) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const refName = (ref) => {
+  const prefix = '#/components/schemas/';
+  if (!ref.startsWith(prefix)) {
+    throw new Error(`Unsupported $ref "${ref}" (only ${prefix}* is supported)`);
+  }
+  const name = ref.slice(prefix.length);
+  if (!components[name]) throw new Error(`Unknown schema "${name}"`);
+  return name;
+};
+
+const propertyKey = (name) => (/^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`);
+
+const literal = (value) => (typeof value === 'string' ? `'${value}'` : String(value));
+
+const docComment = (text, indent = '') =>
+  text
+    ? `${indent}/** ${String(text)
+        .trim()
+        .replace(/\s*\n\s*/g, ' ')} */\n`
+    : '';
+
+const isEmptySchema = (schema) => !schema || Object.keys(schema).length === 0;
+
+/** Component names referenced (directly or nested) by a schema */
+const collectRefs = (schema, refs = new Set()) => {
+  if (!schema || typeof schema !== 'object') return refs;
+  if (schema.$ref) refs.add(refName(schema.$ref));
+  Object.values(schema).forEach((value) => collectRefs(value, refs));
+  return refs;
+};
+
+// ===== Types =====
+
+const tsType = (schema) => {
+  if (isEmptySchema(schema)) return 'unknown';
+  const type = tsBaseType(schema);
+  return schema.nullable ? `${type} | null` : type;
+};
+
+const tsBaseType = (schema) => {
+  if (schema.$ref) return refName(schema.$ref);
+  if (schema.oneOf || schema.anyOf) return (schema.oneOf ?? schema.anyOf).map(tsType).join(' | ');
+  if (schema.enum) return schema.enum.map(literal).join(' | ');
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array': {
+      const item = tsType(schema.items);
+      return /[|&]/.test(item) ? `Array<${item}>` : `${item}[]`;
+    }
+    case 'object':
+    case undefined:
+      return tsObjectType(schema);
+    default:
+      throw new Error(`Unsupported schema type "${schema.type}"`);
+  }
+};
+
+const tsObjectType = (schema) => {
+  const properties = Object.entries(schema.properties ?? {});
+  if (properties.length === 0) {
+    const values = schema.additionalProperties;
+    return `Record<string, ${values && values !== true ? tsType(values) : 'unknown'}>`;
+  }
+  return `{\n${tsProperties(schema)}}`;
+};
+
+const tsProperties = (schema, indent = '  ') => {
+  const required = new Set(schema.required ?? []);
+  return Object.entries(schema.properties ?? {})
+    .map(([name, property]) => {
+      const optional = required.has(name) ? '' : '?';
+      return `${docComment(property.description, indent)}${indent}${propertyKey(name)}${optional}: ${tsType(property)};\n`;
+    })
+    .join('');
+};
+
+const tsDeclaration = (name, schema) => {
+  const header = docComment(schema.description);
+  const isInterface =
+    (schema.type === 'object' || schema.properties) &&
+    Object.keys(schema.properties ?? {}).length > 0 &&
+    !schema.nullable;
+  return isInterface
+    ? `${header}export interface ${name} {\n${tsProperties(schema)}}\n`
+    : `${header}export type ${name} = ${tsType(schema)};\n`;
+};
+
+// ===== Zod Schemas =====
+
+const zodExpr = (schema) => {
+  if (isEmptySchema(schema)) return 'z.unknown()';
+  const expr = zodBaseExpr(schema);
+  return schema.nullable ? `${expr}.nullable()` : expr;
+};
+
+const zodBaseExpr = (schema) => {
+  if (schema.$ref) return `${refName(schema.$ref)}Schema`;
+  if (schema.oneOf || schema.anyOf) {
+    return `z.union([${(schema.oneOf ?? schema.anyOf).map(zodExpr).join(', ')}])`;
+  }
+  if (schema.enum) {
+    return schema.enum.every((value) => typeof value === 'string')
+      ? `z.enum([${schema.enum.map(literal).join(', ')}])`
+      : schema.enum.length === 1
+        ? `z.literal(${literal(schema.enum[0])})`
+        : `z.union([${schema.enum.map((value) => `z.literal(${literal(value)})`).join(', ')}])`;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'z.string()';
+    case 'number':
+    case 'integer':
+      return 'z.number()';
+    case 'boolean':
+      return 'z.boolean()';
+    case 'array':
+      return `z.array(${zodExpr(schema.items)})`;
+    case 'object':
+    case undefined: {
+      const properties = Object.entries(schema.properties ?? {});
+      if (properties.length === 0) {
+        const values = schema.additionalProperties;
+        return `z.record(${values && values !== true ? zodExpr(values) : 'z.unknown()'})`;
+      }
+      const required = new Set(schema.required ?? []);
+      const shape = properties
+        .map(([name, property]) => {
+          const expr = zodExpr(property);
+          return `${propertyKey(name)}: ${required.has(name) ? expr : `${expr}.optional()`},`;
+        })
+        .join('\n');
+      return `z.object({\n${shape}\n})`;
+    }
+    default:
+      throw new Error(`Unsupported schema type "${schema.type}"`);
+  }
+};
+
+const zodDeclaration = (name, schema) =>
+  `export const ${name}Schema: z.ZodType<${name}> = ${zodExpr(schema)};\n`;
+
+/** Component schemas ordered so every zod schema is declared after its dependencies */
+const sortComponents = () => {
+  const ordered = [];
+  const state = new Map();
+
+  const visit = (name, path) => {
+    if (state.get(name) === 'done') return;
+    if (state.get(name) === 'visiting') {
+      throw new Error(`Circular schema reference: ${[...path, name].join(' -> ')}`);
+    }
+    state.set(name, 'visiting');
+    collectRefs(components[name]).forEach((dependency) => visit(dependency, [...path, name]));
+    state.set(name, 'done');
+    ordered.push(name);
+  };
+
+  Object.keys(components).forEach((name) => visit(name, []));
+  return ordered;
+};
+
+// ===== Operations =====
+
+const successSchema = (operation) => {
+  const responses = operation.responses ?? {};
+  const status = Object.keys(responses).find((code) => /^2\d\d$/.test(code));
+  return status ? responses[status].content?.['application/json']?.schema : undefined;
+};
+
+const operationDeclaration = ({ path, method, operation }) => {
+  const name = operation.operationId;
+  if (!name) throw new Error(`${method.toUpperCase()} ${path} has no operationId`);
+  const typeName = pascalCase(name);
+
+  const parameters = (operation.parameters ?? []).filter((param) =>
+    ['path', 'query'].includes(param.in)
+  );
+  const body = operation.requestBody?.content?.['application/json']?.schema;
+  const declarations = [];
+
+  // Params interface: path and query parameters, plus the request body
+  const paramsProperties = parameters.map((param) => ({
+    name: param.name,
+    required: param.in === 'path' || param.required === true,
+    schema: param.schema ?? {},
+    description: param.description,
+  }));
+  if (body) {
+    paramsProperties.push({
+      name: 'body',
+      required: operation.requestBody.required === true,
+      schema: body,
+    });
+  }
+  const paramsType = paramsProperties.length > 0 ? `${typeName}Params` : null;
+  if (paramsType) {
+    declarations.push(
+      tsDeclaration(paramsType, {
+        type: 'object',
+        required: paramsProperties.filter((param) => param.required).map((param) => param.name),
+        properties: Object.fromEntries(
+          paramsProperties.map((param) => [
+            param.name,
+            { ...param.schema, description: param.description },
+          ])
+        ),
+      })
+    );
+  }
+
+  // Response type: named components are used as-is, inline schemas get their own declaration
+  const response = successSchema(operation) ?? {};
+  let responseType;
+  let responseSchema;
+  if (response.$ref) {
+    responseType = refName(response.$ref);
+    responseSchema = `${responseType}Schema`;
+  } else {
+    responseType = `${typeName}Response`;
+    responseSchema = `${responseType}Schema`;
+    declarations.push(tsDeclaration(responseType, response));
+    declarations.push(zodDeclaration(responseType, response));
+  }
+
+  const pathParams = parameters.filter((param) => param.in === 'path');
+  const queryParams = parameters.filter((param) => param.in === 'query');
+  const request = [
+    `method: '${method.toUpperCase()}'`,
+    `path: '${path}'`,
+    pathParams.length > 0 &&
+      `pathParams: { ${pathParams.map((param) => `${propertyKey(param.name)}: params.${param.name}`).join(', ')} }`,
+    queryParams.length > 0 &&
+      `query: { ${queryParams.map((param) => `${propertyKey(param.name)}: params.${param.name}`).join(', ')} }`,
+    body && 'body: params.body',
+  ].filter(Boolean);
+
+  const paramsArgument = paramsType
+    ? paramsProperties.some((param) => param.required)
+      ? `params: ${paramsType}, `
+      : `params: ${paramsType} = {}, `
+    : '';
+
+  declarations.push(
+    `${docComment(`${operation.summary ?? name} (${method.toUpperCase()} ${path})`)}` +
+      `export const ${name} = (client: APIClient, ${paramsArgument}options?: FetchOptions): Promise<${responseType}> =>\n` +
+      `  callOperation(client, { ${request.join(', ')} }, ${responseSchema}, options);\n`
+  );
+
+  return declarations.join('\n');
+};
+
+const collectOperations = () =>
+  Object.entries(spec.paths ?? {}).flatMap(([path, item]) =>
+    HTTP_METHODS.filter((method) => item[method]).map((method) => ({
+      path,
+      method,
+      operation: {
+        ...item[method],
+        parameters: [...(item.parameters ?? []), ...(item[method].parameters ?? [])],
+      },
+    }))
+  );
+
+// ===== Output =====
+
+const output = resolve(outputPath);
+const sections = [
+  `/**
+ * ${spec.info?.title ?? 'API'} client (v${spec.info?.version ?? 'unknown'})
+ *
+ * GENERATED FILE - DO NOT EDIT.
+ * Source: ${relative(process.cwd(), resolve(specPath))}
+ * Regenerate with \`npm run generate:api\`.
+ */
+
+import { z } from 'zod';
+import type APIClient from '../apiClient';
+import type { FetchOptions } from '../apiClient';
+import { callOperation } from './runtime';
+`,
+  '// ===== Models =====\n',
+  ...sortComponents().map(
+    (name) => `${tsDeclaration(name, components[name])}\n${zodDeclaration(name, components[name])}`
+  ),
+  '// ===== Operations =====\n',
+  ...collectOperations().map(operationDeclaration),
+  `export const SERVER_PATH = '${spec.servers?.[0]?.url ?? ''}';\n`,
+];
+
+const prettierConfig = (await prettier.resolveConfig(output)) ?? {};
+const source = await prettier.format(sections.join('\n'), {
+  ...prettierConfig,
+  parser: 'typescript',
+});
+
+if (check) {
+  if (!existsSync(output) || readFileSync(output, 'utf8') !== source) {
+    console.error(
+      `${basename(output)} is out of date with ${basename(specPath)}; run \`npm run generate:api\``
+    );
+    process.exit(1);
+  }
+  console.log(`${basename(output)} is up to date with ${basename(specPath)}`);
+} else {
+  writeFileSync(output, source);
+  console.log(`Generated ${basename(output)} from ${basename(specPath)}`);
+}
@@ -5,21 +5,67 @@
  * No sidebar - clean top navigation bar with organized dropdowns
  */
 
-import { useMemo } from 'react';
+import { useEffect, useMemo } from 'react';
 import { Layout, ConfigProvider, theme } from 'antd';
-import { Routes, Route } from 'react-router-dom';
+import { Routes, Route, matchPath, useLocation } from 'react-router-dom';
 import { useAppSelector } from './hooks/useRedux';
+import { useFeatureFlags } from './hooks/useFeatureFlag';
+import { useReportScheduler } from './hooks/useReportScheduler';
 import { selectThemeMode } from './store/selectors';
+import { featureFlagService } from './services/featureFlagService';
 import TopNavRouter from './components/layout/TopNavRouter';
-import { routes } from './routes/routes';
+import { getEnabledRoutes } from './routes/routes';
+import type { RootState } from './types/state';
 import Breadcrumb from './components/Breadcrumb';
+import PermissionRoute from './components/PermissionRoute';
+import ProtectedRoute from './components/ProtectedRoute';
+import type { RouteDefinition } from './routes/routes';
 
 const { Content, Footer } = Layout;
 
+/**
+ * Route element with its sign-in and permission guards
+ */
+const renderRoute = (route: RouteDefinition) => {
+  const element = (
+    <PermissionRoute permission={route.permission}>
+      <route.component />
+    </PermissionRoute>
+  );
+
+  return (
+    <Route
+      key={route.path}
+      path={route.path}
+      element={route.requiresAuth ? <ProtectedRoute>{element}</ProtectedRoute> : element}
+    />
+  );
+};
+
 function App() {
   // Redux state for theme
   const themeMode = useAppSelector(selectThemeMode);
   const isDarkMode = themeMode === 'dark';
+  const userId = useAppSelector((state: RootState) => state.auth.user?.id ?? null);
+
+  // Reload flag rules per user, so rollouts follow whoever is signed in
+  useEffect(() => {
+    featureFlagService.setUserId(userId);
+    featureFlagService.load();
+  }, [userId]);
+
+  // Saved regulatory reports re-run on their schedule while the portal is open
+  useReportScheduler();
+
+  // Routes whose feature flag is off are left out of the menu and router
+  const featureFlags = useFeatureFlags();
+  const routes = useMemo(() => getEnabledRoutes(featureFlags), [featureFlags]);
+
+  // Standalone routes such as /login render without the portal chrome
+  const { pathname } = useLocation();
+  const standaloneRoute = routes.find(
+    (route) => route.standalone && matchPath(route.path, pathname)
+  );
 
   const user = {
     name: 'Admin User',
@@ -60,6 +106,7 @@ function App() {
       ai: 'AI & Optimization',
       integration: 'Integration',
       admin: 'Administration',
+      account: 'Account',
     };
 
     return Object.entries(categories).map(([category, items]) => ({
@@ -67,18 +114,26 @@ function App() {
       label: categoryLabels[category] || category,
       children: items,
     }));
-  }, []);
+  }, [routes]);
+
+  const themeConfig = {
+    algorithm: isDarkMode ? theme.darkAlgorithm : theme.defaultAlgorithm,
+    token: {
+      colorPrimary: '#1890ff',
+      borderRadius: 8,
+    },
+  };
+
+  if (standaloneRoute) {
+    return (
+      <ConfigProvider theme={themeConfig}>
+        <Routes>{renderRoute(standaloneRoute)}</Routes>
+      </ConfigProvider>
+    );
+  }
 
   return (
-    <ConfigProvider
-      theme={{
-        algorithm: isDarkMode ? theme.darkAlgorithm : theme.defaultAlgorithm,
-        token: {
-          colorPrimary: '#1890ff',
-          borderRadius: 8,
-        },
-      }}
-    >
+    <ConfigProvider theme={themeConfig}>
       <Layout style={{ minHeight: '100vh' }}>
         {/* React Router Enhanced Top Navigation */}
         <TopNavRouter
@@ -109,15 +164,7 @@ function App() {
             <Breadcrumb />
 
             {/* React Router Routes */}
-            <Routes>
-              {routes.map(route => (
-                <Route
-                  key={route.path}
-                  path={route.path}
-                  element={<route.component />}
-                />
-              ))}
-            </Routes>
+            <Routes>{routes.map(renderRoute)}</Routes>
           </div>
         </Content>
 
@@ -1,5 +1,6 @@
 import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
+import { describe, expect, it } from 'vitest';
 import PlansPage from '../pages/PlansPage';
 
 describe('PlansPage', () => {
@@ -44,12 +45,8 @@ describe('PlansPage', () => {
   it('shows plan features in cards', async () => {
     render(<PlansPage />);
     await waitFor(() => {
-      expect(
-        screen.getByText('Up to 100K transactions/month')
-      ).toBeInTheDocument();
-      expect(
-        screen.getByText('Up to 1M transactions/month')
-      ).toBeInTheDocument();
+      expect(screen.getByText('Up to 100K transactions/month')).toBeInTheDocument();
+      expect(screen.getByText('Up to 1M transactions/month')).toBeInTheDocument();
     });
   });
 
@@ -89,8 +86,9 @@ describe('PlansPage', () => {
     await user.click(yearlyButton);
 
     await waitFor(() => {
-      // Prices should be updated (annual)
-      expect(screen.getByText('/year')).toBeInTheDocument();
+      // Every plan's price should be updated (annual)
+      expect(screen.getAllByText('/year').length).toBeGreaterThan(0);
+      expect(screen.queryByText('/month')).not.toBeInTheDocument();
     });
   });
 
@@ -0,0 +1,116 @@
+import { http, HttpResponse } from 'msw';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { server } from '../mocks/node';
+import APIClient from '../services/apiClient';
+
+const API = 'http://localhost:9004/api/v11';
+const REFRESH = '*/api/v11/login/refresh';
+
+const client = new APIClient(API);
+
+const signIn = (token: string, expiresInMs: number) => {
+  localStorage.setItem('auth_token', token);
+  localStorage.setItem('auth_refresh_token', 'refresh-1');
+  localStorage.setItem('auth_expiry', String(Date.now() + expiresInMs));
+};
+
+/** A refresh endpoint that hands out the given session and counts its calls */
+const refreshEndpoint = (session: { token: string; expiresIn?: number }) => {
+  const calls = { count: 0 };
+  server.use(
+    http.post(REFRESH, async () => {
+      calls.count++;
+      // Keep the refresh pending long enough for the other requests to queue behind it
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return HttpResponse.json({ success: true, refreshToken: 'refresh-2', ...session });
+    })
+  );
+  return calls;
+};
+
+/** A protected resource that only accepts the given token and records what it was sent */
+const protectedEndpoint = (acceptedToken: string) => {
+  const sent: (string | null)[] = [];
+  server.use(
+    http.get(`${API}/protected/:id`, ({ request }) => {
+      const authorization = request.headers.get('Authorization');
+      sent.push(authorization);
+      return authorization === `Bearer ${acceptedToken}`
+        ? HttpResponse.json({ ok: true })
+        : HttpResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    })
+  );
+  return sent;
+};
+
+describe('API client token refresh', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  it('refreshes a token that is about to expire once for parallel requests', async () => {
+    signIn('token-1', 10_000);
+    const refresh = refreshEndpoint({ token: 'token-2', expiresIn: 3600 });
+    const sent = protectedEndpoint('token-2');
+
+    await Promise.all(['a', 'b', 'c'].map((id) => client.get(`/protected/${id}`)));
+
+    expect(refresh.count).toBe(1);
+    expect(sent).toEqual(['Bearer token-2', 'Bearer token-2', 'Bearer token-2']);
+    expect(localStorage.getItem('auth_token')).toBe('token-2');
+  });
+
+  it('queues parallel 401s behind a single refresh and retries them', async () => {
+    signIn('token-1', 3_600_000);
+    const refresh = refreshEndpoint({ token: 'token-2', expiresIn: 3600 });
+    const sent = protectedEndpoint('token-2');
+
+    const responses = await Promise.all(
+      ['a', 'b', 'c'].map((id) => client.get(`/protected/${id}`))
+    );
+
+    expect(refresh.count).toBe(1);
+    expect(responses.map(({ data }) => data)).toEqual([{ ok: true }, { ok: true }, { ok: true }]);
+    expect(sent.filter((token) => token === 'Bearer token-1')).toHaveLength(3);
+    expect(sent.filter((token) => token === 'Bearer token-2')).toHaveLength(3);
+  });
+
+  it('expires the session once when the refresh fails', async () => {
+    signIn('token-1', 3_600_000);
+    server.use(
+      http.post(REFRESH, () =>
+        HttpResponse.json({ message: 'Refresh token is invalid' }, { status: 401 })
+      )
+    );
+    protectedEndpoint('token-2');
+    const unauthorized = vi.fn();
+    window.addEventListener('auth:unauthorized', unauthorized);
+
+    const results = await Promise.allSettled(
+      ['a', 'b'].map((id) => client.get(`/protected/${id}`))
+    );
+    window.removeEventListener('auth:unauthorized', unauthorized);
+
+    expect(results.map(({ status }) => status)).toEqual(['rejected', 'rejected']);
+    expect(unauthorized).toHaveBeenCalledTimes(1);
+    expect(localStorage.getItem('auth_token')).toBeNull();
+    expect(localStorage.getItem('auth_refresh_token')).toBeNull();
+  });
+
+  it('does not refresh again when the refreshed token comes without an expiry', async () => {
+    signIn('token-1', 10_000);
+    const refresh = refreshEndpoint({ token: 'token-2' });
+    protectedEndpoint('token-2');
+
+    await client.get('/protected/a');
+    await client.get('/protected/b');
+
+    expect(refresh.count).toBe(1);
+    expect(localStorage.getItem('auth_expiry')).toBeNull();
+  });
+});
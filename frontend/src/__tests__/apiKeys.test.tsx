@@ -0,0 +1,92 @@
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import ApiAccessLogTable from '../components/developer/ApiAccessLogTable';
+import ApiKeyManager from '../components/developer/ApiKeyManager';
+import { mockDb } from '../mocks/db';
+
+// Signs the client in as user 2, who owns the seeded keys below
+const USER_ID = '2';
+
+const ownKeys = () =>
+  mockDb.apiKeys.filter((record) => record.ownerId === USER_ID).map((record) => record.key);
+
+const ownKey = (name: string) => {
+  const key = ownKeys().find((candidate) => candidate.name === name);
+  if (!key) throw new Error(`No seeded key named ${name}`);
+  return key;
+};
+
+const dataRows = () => screen.getAllByRole('row').slice(1);
+
+// antd renders slowly under jsdom
+describe('API key consumers', { timeout: 30_000 }, () => {
+  beforeEach(() => localStorage.setItem('auth_token', `mock-token.${USER_ID}.test`));
+  afterEach(() => localStorage.clear());
+
+  it("lists one key's requests with the reason refused ones were denied", async () => {
+    const expired = ownKey('Legacy CI deploys');
+    render(<ApiAccessLogTable keyId={expired.id} />);
+
+    // Clients still calling after expiry are the newest requests
+    await waitFor(() => expect(screen.getAllByText('Key expired')).toHaveLength(3));
+    expect(screen.queryByRole('columnheader', { name: 'Key' })).not.toBeInTheDocument();
+    dataRows().forEach((row) => expect(row).toHaveTextContent('/api/v11/contracts'));
+  });
+
+  it("narrows every key's requests to the chosen key", async () => {
+    const keys = ownKeys();
+    const production = ownKey('Production backend');
+    render(<ApiAccessLogTable keys={keys} />);
+
+    await waitFor(() => expect(dataRows().length).toBe(10), { timeout: 8000 });
+    expect(dataRows().some((row) => !row.textContent?.includes('Production backend'))).toBe(true);
+    // antd opens its select on mouse down
+    fireEvent.mouseDown(screen.getAllByRole('combobox')[0]!);
+    await userEvent.click(await screen.findByTitle(`Production backend (${production.prefix}…)`));
+
+    await waitFor(() =>
+      dataRows().forEach((row) => expect(row).toHaveTextContent('Production backend'))
+    );
+    expect(screen.getAllByText('IP not allowed').length).toBeGreaterThan(0);
+  });
+
+  it('rotates a key, shows the new secret once and keeps the old key working', async () => {
+    const onChange = vi.fn();
+    const production = ownKey('Production backend');
+    render(<ApiKeyManager keys={ownKeys()} onChange={onChange} />);
+
+    const row = screen.getByText('Production backend').closest('tr') as HTMLElement;
+    await userEvent.click(within(row).getByRole('button', { name: /Rotate/ }));
+    await userEvent.click(await screen.findByRole('button', { name: 'Rotate Key' }));
+
+    const revealed = await screen.findByRole('dialog', { name: 'API Key Rotated' });
+    const replacement = ownKeys().find((key) => key.rotatedFromId === production.id);
+    expect(replacement).toBeDefined();
+    expect(revealed).toHaveTextContent(`${replacement?.prefix}`);
+    expect(production.status).toBe('rotating');
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    await userEvent.click(within(revealed).getByRole('button', { name: 'I have copied the key' }));
+    await waitFor(() =>
+      expect(screen.queryByRole('dialog', { name: 'API Key Rotated' })).not.toBeInTheDocument()
+    );
+  });
+
+  it('revokes a key only once the revocation is confirmed', async () => {
+    const onChange = vi.fn();
+    const analytics = ownKey('Analytics export');
+    render(<ApiKeyManager keys={ownKeys()} onChange={onChange} />);
+
+    const row = screen.getByText('Analytics export').closest('tr') as HTMLElement;
+    await userEvent.click(within(row).getByRole('button', { name: /Revoke/ }));
+    const confirm = await screen.findByRole('dialog');
+    expect(confirm).toHaveTextContent('Revoke "Analytics export"?');
+    expect(analytics.status).toBe('active');
+
+    await userEvent.click(within(confirm).getByRole('button', { name: 'Revoke' }));
+
+    await waitFor(() => expect(onChange).toHaveBeenCalledTimes(1));
+    expect(analytics.status).toBe('revoked');
+  });
+});
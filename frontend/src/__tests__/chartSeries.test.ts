@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { ChartDataPoint } from '../types/state';
+import { appendToSeries, downsampleSeries, seriesStats } from '../utils/chartSeries';
+
+const BASE_TIME = Date.parse('2026-01-01T00:00:00.000Z');
+
+const point = (second: number, value: number): ChartDataPoint => ({
+  timestamp: new Date(BASE_TIME + second * 1000).toISOString(),
+  value,
+});
+
+const series = (values: number[]) => values.map((value, second) => point(second, value));
+
+const values = (points: ChartDataPoint[]) => points.map(({ value }) => value);
+
+describe('chart series', () => {
+  it('keeps the lowest and highest point of each bucket in time order', () => {
+    const points = series([5, 9, 1, 5, 7, 2, 3, 8]);
+
+    expect(downsampleSeries(points)).toEqual([points[1], points[2], points[5], points[7]]);
+  });
+
+  it('keeps the ends of a flat bucket and the trailing points as they are', () => {
+    const points = series([4, 4, 4, 4, 6, 1, 3]);
+
+    expect(downsampleSeries(points)).toEqual([points[0], points[3], ...points.slice(4)]);
+    expect(downsampleSeries(points.slice(0, 3))).toEqual(points.slice(0, 3));
+    expect(downsampleSeries([])).toEqual([]);
+  });
+
+  it('keeps a one-sample spike however often the history is downsampled', () => {
+    let history: ChartDataPoint[] = [];
+    for (let second = 0; second < 500; second++) {
+      const value = second === 137 ? 1000 : second === 311 ? -50 : 10;
+      history = appendToSeries(history, point(second, value), 60);
+    }
+
+    expect(history.length).toBeLessThanOrEqual(60);
+    expect(Math.max(...values(history))).toBe(1000);
+    expect(Math.min(...values(history))).toBe(-50);
+    // The series still ends on the latest sample
+    expect(history[history.length - 1]).toEqual(point(499, 10));
+  });
+
+  it('only downsamples once the series grows past its limit', () => {
+    const points = series([1, 2, 3]);
+
+    expect(appendToSeries(points, point(3, 4), 4)).toEqual([...points, point(3, 4)]);
+    expect(appendToSeries([...points, point(3, 4)], point(4, 5), 4)).toEqual([
+      point(0, 1),
+      point(3, 4),
+      point(4, 5),
+    ]);
+  });
+
+  it('summarises a series', () => {
+    expect(seriesStats([4, 1, 7])).toEqual({ min: 1, avg: 4, max: 7 });
+    expect(seriesStats([])).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ALERT_STATUSES,
+  ALERT_TRANSITIONS,
+  alertSlaState,
+  type ComplianceAlert,
+} from '../services/complianceApi';
+
+const HOUR = 3_600_000;
+const raisedAt = Date.parse('2026-03-01T08:00:00.000Z');
+
+/** A critical alert raised at raisedAt with a four-hour SLA */
+const alert = (overrides: Partial<ComplianceAlert> = {}): ComplianceAlert => ({
+  id: 'alert-1',
+  type: 'critical',
+  title: 'Transfer to restricted country',
+  message: 'Recipient is in restricted country IR',
+  timestamp: new Date(raisedAt).toISOString(),
+  resolved: false,
+  status: 'new',
+  auditEntryIds: [],
+  slaDueAt: new Date(raisedAt + 4 * HOUR).toISOString(),
+  activity: [],
+  ...overrides,
+});
+
+describe('alert transitions', () => {
+  it('never moves an alert to the status it is already in', () => {
+    ALERT_STATUSES.forEach((status) => {
+      expect(ALERT_TRANSITIONS[status]).not.toContain(status);
+    });
+  });
+
+  it('lets every open alert be closed either way', () => {
+    (['new', 'acknowledged', 'investigating'] as const).forEach((status) => {
+      expect(ALERT_TRANSITIONS[status]).toEqual(
+        expect.arrayContaining(['resolved', 'false_positive'])
+      );
+    });
+  });
+
+  it('only moves forward while open and only reopens into investigation once closed', () => {
+    expect(ALERT_TRANSITIONS.acknowledged).not.toContain('new');
+    expect(ALERT_TRANSITIONS.investigating).not.toContain('acknowledged');
+    expect(ALERT_TRANSITIONS.resolved).toEqual(['investigating']);
+    expect(ALERT_TRANSITIONS.false_positive).toEqual(['investigating']);
+  });
+});
+
+describe('alert SLA', () => {
+  it('is on track for the first three quarters of the window, then due soon', () => {
+    expect(alertSlaState(alert(), raisedAt + HOUR)).toBe('on_track');
+    expect(alertSlaState(alert(), raisedAt + 3 * HOUR)).toBe('on_track');
+    expect(alertSlaState(alert(), raisedAt + 3.5 * HOUR)).toBe('due_soon');
+  });
+
+  it('is overdue once an open alert passes its due time', () => {
+    expect(alertSlaState(alert(), raisedAt + 4 * HOUR)).toBe('overdue');
+    expect(alertSlaState(alert({ status: 'investigating' }), raisedAt + 9 * HOUR)).toBe('overdue');
+  });
+
+  it('was met or breached by when a closed alert was closed, not by now', () => {
+    const closed = (hours: number) =>
+      alert({
+        status: 'resolved',
+        resolved: true,
+        resolvedAt: new Date(raisedAt + hours * HOUR).toISOString(),
+      });
+
+    expect(alertSlaState(closed(2), raisedAt + 48 * HOUR)).toBe('met');
+    expect(alertSlaState(closed(4), raisedAt + 48 * HOUR)).toBe('met');
+    expect(alertSlaState(closed(5), raisedAt + 5 * HOUR)).toBe('breached');
+    expect(alertSlaState(alert({ resolved: true }), raisedAt)).toBe('breached');
+  });
+});
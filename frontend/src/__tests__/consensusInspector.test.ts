@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { ConsensusUpdate } from '../services/grpcStreamService';
+import reducer, {
+  checkStalledCommits,
+  recordConsensusUpdate,
+} from '../store/consensusInspectorSlice';
+import { DEFAULT_CONSENSUS_INSPECTOR_STATE, type ConsensusInspectorState } from '../types/state';
+
+const START = Date.parse('2026-01-01T00:00:00.000Z');
+
+const update = (overrides: Partial<ConsensusUpdate>): ConsensusUpdate => ({
+  currentTerm: 1,
+  leaderId: 'validator-1',
+  phase: 'PREPARE',
+  blockHeight: 100,
+  consensusLatency: 120,
+  participationRate: 50,
+  votesReceived: 3,
+  votesRequired: 5,
+  ...overrides,
+});
+
+const checkAt = (state: ConsensusInspectorState, offsetMs: number) =>
+  reducer(state, {
+    type: checkStalledCommits.type,
+    payload: new Date(START + offsetMs).toISOString(),
+  });
+
+const record = (state: ConsensusInspectorState, data: ConsensusUpdate, offsetMs: number) =>
+  reducer(state, {
+    type: recordConsensusUpdate.type,
+    payload: { update: data, receivedAt: new Date(START + offsetMs).toISOString() },
+  });
+
+describe('consensus inspector', () => {
+  it('records the phase timeline and votes of each height', () => {
+    let state = record(DEFAULT_CONSENSUS_INSPECTOR_STATE, update({}), 0);
+    state = record(state, update({ votesReceived: 4 }), 500);
+    state = record(state, update({ phase: 'COMMIT', votesReceived: 5 }), 1000);
+    state = record(state, update({ phase: 'FINALIZE', votesReceived: 5 }), 1500);
+
+    const [round] = state.rounds;
+    expect(round?.phases.map((mark) => mark.phase)).toEqual(['PREPARE', 'COMMIT', 'FINALIZE']);
+    expect(round?.phases[0]?.at).toBe(new Date(START).toISOString());
+    expect(round?.votesReceived).toBe(5);
+    expect(round?.finalizedAt).toBe(new Date(START + 1500).toISOString());
+    expect(state.terms).toHaveLength(1);
+    expect(state.terms[0]?.rounds).toBe(1);
+  });
+
+  it('flags an election storm once per window', () => {
+    let state = record(DEFAULT_CONSENSUS_INSPECTOR_STATE, update({}), 0);
+    [2, 3, 4, 5].forEach((term, index) => {
+      state = record(
+        state,
+        update({ currentTerm: term, leaderId: `validator-${term}` }),
+        (index + 1) * 1000
+      );
+    });
+
+    expect(state.terms[0]?.previousLeaderId).toBe('validator-4');
+    const storms = state.anomalies.filter((anomaly) => anomaly.kind === 'election_storm');
+    expect(storms).toHaveLength(1);
+    expect(storms[0]?.term).toBe(4);
+  });
+
+  it('flags a commit that does not finalize in time', () => {
+    let state = record(DEFAULT_CONSENSUS_INSPECTOR_STATE, update({ phase: 'COMMIT' }), 0);
+    state = checkAt(state, 4000);
+    expect(state.anomalies).toHaveLength(0);
+
+    state = checkAt(state, 6000);
+    expect(state.rounds[0]?.stalled).toBe(true);
+    expect(state.anomalies[0]?.kind).toBe('stalled_commit');
+  });
+
+  it('closes heights that committed between samples instead of flagging them', () => {
+    let state = record(DEFAULT_CONSENSUS_INSPECTOR_STATE, update({ blockHeight: 100 }), 0);
+    state = record(state, update({ blockHeight: 101, commitIndex: 99 }), 1000);
+    state = record(state, update({ phase: 'COMMIT', blockHeight: 101, commitIndex: 101 }), 2000);
+    state = checkAt(state, 10_000);
+
+    expect(state.rounds.map((round) => round.finalizedAt)).toEqual([
+      new Date(START + 2000).toISOString(),
+      new Date(START + 1000).toISOString(),
+    ]);
+    expect(state.anomalies).toHaveLength(0);
+  });
+
+  it('does not count a gap in recording as a leader election', () => {
+    let state = record(DEFAULT_CONSENSUS_INSPECTOR_STATE, update({}), 0);
+    state = record(state, update({ currentTerm: 7, leaderId: 'validator-9' }), 60_000);
+
+    expect(state.rounds[1]?.interrupted).toBe(true);
+    expect(state.terms[0]?.previousLeaderId).toBeNull();
+    expect(state.anomalies).toHaveLength(0);
+  });
+});
@@ -0,0 +1,250 @@
+import type { AnyAction, Dispatch } from '@reduxjs/toolkit';
+import { afterEach, beforeEach, describe, expect, it, vi, type Mock } from 'vitest';
+import CrossTabLiveService from '../services/crossTabLiveService';
+import type { WebSocketChannel, WebSocketEvent } from '../services/websocketService';
+import type { StreamType } from '../services/grpcStreamService';
+
+// The sockets and streams the leader tab opens, shared by every tab in the test
+const upstream = vi.hoisted(() => ({
+  sockets: [] as { channel: string; onEvent: (event: unknown) => void; open: boolean }[],
+  streams: [] as {
+    streamType: string;
+    intervalMs?: number;
+    onData: (data: unknown) => void;
+    open: boolean;
+  }[],
+}));
+
+vi.mock('../services/websocketService', () => ({
+  websocketService: {
+    subscribe: (channel: string, onEvent: (event: unknown) => void) => {
+      const socket = { channel, onEvent, open: true };
+      upstream.sockets.push(socket);
+      return () => {
+        socket.open = false;
+      };
+    },
+    getConnectionState: () => 'disconnected',
+  },
+}));
+
+vi.mock('../services/grpcStreamService', () => ({
+  grpcStreamService: {
+    subscribe: (
+      streamType: string,
+      onData: (data: unknown) => void,
+      config?: { updateIntervalMs?: number }
+    ) => {
+      const stream = { streamType, intervalMs: config?.updateIntervalMs, onData, open: true };
+      upstream.streams.push(stream);
+      return {
+        streamType,
+        get isActive() {
+          return stream.open;
+        },
+        unsubscribe: () => {
+          stream.open = false;
+        },
+      };
+    },
+    getStreamTransport: () => 'grpc-web',
+  },
+}));
+
+/** BroadcastChannel between the tabs of one test, closed when a tab closes */
+class TestBroadcastChannel {
+  static open = new Set<TestBroadcastChannel>();
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  constructor(readonly name: string) {
+    TestBroadcastChannel.open.add(this);
+  }
+
+  postMessage(message: unknown): void {
+    const data = structuredClone(message);
+    TestBroadcastChannel.open.forEach((channel) => {
+      if (channel === this || channel.name !== this.name) return;
+      setTimeout(() => channel.onmessage?.(new MessageEvent('message', { data })));
+    });
+  }
+
+  close(): void {
+    TestBroadcastChannel.open.delete(this);
+  }
+}
+
+/** Web Locks queue: the first request holds the lock until its tab closes */
+const lockQueue: (() => void)[] = [];
+const grantLock = () => lockQueue[0]?.();
+
+const locks = {
+  request: (_name: string, callback: () => Promise<void>) => {
+    lockQueue.push(() => void callback());
+    if (lockQueue.length === 1) grantLock();
+    return new Promise<void>(() => {});
+  },
+};
+
+interface Tab {
+  service: CrossTabLiveService;
+  dispatch: Dispatch<AnyAction> & Mock;
+  close: () => void;
+}
+
+const openTab = (): Tab => {
+  const service = new CrossTabLiveService();
+  const channelsBefore = new Set(TestBroadcastChannel.open);
+  // Joining the election opens the tab's channel and queues for the lock
+  service.onLeadershipChange(() => {});
+  const channel = [...TestBroadcastChannel.open].find((open) => !channelsBefore.has(open));
+  const grant = lockQueue[lockQueue.length - 1];
+
+  return {
+    service,
+    dispatch: vi.fn((action: AnyAction) => action) as Dispatch<AnyAction> & Mock,
+    close: () => {
+      // Closing a tab drops its channel and hands its lock to the next tab
+      channel?.close();
+      const holder = lockQueue.indexOf(grant!);
+      lockQueue.splice(holder, 1);
+      if (holder === 0) grantLock();
+    },
+  };
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const openSockets = (channel: WebSocketChannel) =>
+  upstream.sockets.filter((socket) => socket.open && socket.channel === channel);
+
+const openStreams = (streamType: StreamType) =>
+  upstream.streams.filter((stream) => stream.open && stream.streamType === streamType);
+
+const transaction = (id: string): WebSocketEvent => ({
+  type: 'transaction',
+  channel: 'transactions',
+  data: { id, from: '0xaaa', to: '0xbbb', amount: 1, status: 'pending' },
+  timestamp: '2026-01-01T00:00:00.000Z',
+});
+
+describe('cross-tab live data', () => {
+  beforeEach(() => {
+    vi.stubGlobal('BroadcastChannel', TestBroadcastChannel);
+    Object.defineProperty(navigator, 'locks', {
+      configurable: true,
+      value: locks,
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    TestBroadcastChannel.open.clear();
+    lockQueue.length = 0;
+    upstream.sockets.length = 0;
+    upstream.streams.length = 0;
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('opens one socket in the leader and rebroadcasts its events to every tab', async () => {
+    const leader = openTab();
+    const follower = openTab();
+    expect(leader.service.isLeaderTab()).toBe(true);
+    expect(follower.service.isLeaderTab()).toBe(false);
+
+    follower.service.acquire('transactions', follower.dispatch);
+    await flush();
+    leader.service.acquire('transactions', leader.dispatch);
+
+    expect(openSockets('transactions')).toHaveLength(1);
+    openSockets('transactions')[0]!.onEvent(transaction('tx-1'));
+    await flush();
+
+    [leader, follower].forEach(({ dispatch }) =>
+      expect(dispatch).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'liveData/updateTransaction',
+          payload: expect.objectContaining({ id: 'tx-1' }),
+        })
+      )
+    );
+  });
+
+  it('relays gRPC streams at the shortest interval any tab asked for', async () => {
+    const leader = openTab();
+    const follower = openTab();
+    const leaderUpdates = vi.fn();
+    const followerUpdates = vi.fn();
+    const followerTransports = vi.fn();
+
+    leader.service.subscribeToStream('consensus', leaderUpdates, { updateIntervalMs: 1000 });
+    const unsubscribe = follower.service.subscribeToStream('consensus', followerUpdates, {
+      updateIntervalMs: 250,
+      onTransportChange: followerTransports,
+    });
+    await flush();
+
+    expect(openStreams('consensus').map(({ intervalMs }) => intervalMs)).toEqual([250]);
+    openStreams('consensus')[0]!.onData({ currentTerm: 7 });
+    await flush();
+
+    expect(leaderUpdates).toHaveBeenCalledWith({ currentTerm: 7 });
+    expect(followerUpdates).toHaveBeenCalledWith({ currentTerm: 7 });
+    expect(followerTransports).toHaveBeenCalledWith('grpc-web');
+
+    unsubscribe();
+    await flush();
+    expect(openStreams('consensus').map(({ intervalMs }) => intervalMs)).toEqual([1000]);
+  });
+
+  it('hands the connections to the next tab when the leader closes', async () => {
+    const leader = openTab();
+    const successor = openTab();
+    const follower = openTab();
+    const becameLeader = vi.fn();
+    const transports = vi.fn();
+    successor.service.onLeadershipChange(becameLeader);
+
+    successor.service.acquire('transactions', successor.dispatch);
+    follower.service.acquire('validators', follower.dispatch);
+    follower.service.subscribeToStream('consensus', () => {}, { onTransportChange: transports });
+    await flush();
+    expect(upstream.sockets).toHaveLength(2);
+    openStreams('consensus')[0]!.onData({ currentTerm: 1 });
+    await flush();
+
+    // The old leader's sockets go with its tab
+    upstream.sockets.forEach((socket) => (socket.open = false));
+    upstream.streams.forEach((stream) => (stream.open = false));
+    leader.close();
+    await flush();
+    await flush();
+
+    expect(successor.service.isLeaderTab()).toBe(true);
+    expect(becameLeader).toHaveBeenCalledWith(true);
+    expect(follower.service.isLeaderTab()).toBe(false);
+    // Interest is collected again from the tabs that are still open
+    expect(openSockets('transactions')).toHaveLength(1);
+    expect(openSockets('validators')).toHaveLength(1);
+    expect(openStreams('consensus')).toHaveLength(1);
+    // Until the new leader reports in, the follower's connection is unknown
+    expect(transports.mock.calls).toEqual([['grpc-web'], [null]]);
+    expect(follower.dispatch).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'liveData/setConnectionState',
+        payload: { channel: 'validators', connected: false },
+      })
+    );
+
+    openSockets('validators')[0]!.onEvent({
+      type: 'validator',
+      channel: 'validators',
+      data: [],
+      timestamp: '2026-01-01T00:00:00.000Z',
+    });
+    await flush();
+    expect(follower.dispatch).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: 'liveData/setValidators' })
+    );
+  });
+});
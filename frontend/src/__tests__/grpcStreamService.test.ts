@@ -0,0 +1,143 @@
+import { http, HttpResponse } from 'msw';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { server } from '../mocks/node';
+import { grpcStreamService, type StreamTransportKind } from '../services/grpcStreamService';
+
+// Reconnect straight away so the retries run in real time
+vi.mock('../utils/constants', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/constants')>()),
+  RETRY_CONFIG: { maxRetries: 3, initialDelay: 1, maxDelay: 1, backoffMultiplier: 1 },
+}));
+
+const STREAM_CONSENSUS = '*/grpc/io.aurigraph.v12.LiveStreamService/StreamConsensus';
+const CONSENSUS_STATUS = '*/api/v11/consensus/status';
+const GRPC_FRAME_HEADER_LENGTH = 5;
+
+const frame = (message: unknown): Uint8Array => {
+  const payload = new TextEncoder().encode(JSON.stringify(message));
+  const bytes = new Uint8Array(GRPC_FRAME_HEADER_LENGTH + payload.length);
+  new DataView(bytes.buffer).setUint32(1, payload.length);
+  bytes.set(payload, GRPC_FRAME_HEADER_LENGTH);
+  return bytes;
+};
+
+/** A gRPC-Web response that sends the given messages and then ends */
+const grpcResponse = (...messages: unknown[]) =>
+  new HttpResponse(
+    new ReadableStream<Uint8Array>({
+      start(controller) {
+        messages.forEach((message) => controller.enqueue(frame(message)));
+        controller.close();
+      },
+    }),
+    { headers: { 'Content-Type': 'application/grpc-web+json' } }
+  );
+
+/** A gRPC-Web response that stays open until the client goes away */
+const openGrpcResponse = () =>
+  new HttpResponse(new ReadableStream<Uint8Array>(), {
+    headers: { 'Content-Type': 'application/grpc-web+json' },
+  });
+
+const requestedInterval = async (request: Request) => {
+  const body = new Uint8Array(await request.arrayBuffer());
+  return (
+    JSON.parse(new TextDecoder().decode(body.subarray(GRPC_FRAME_HEADER_LENGTH))) as {
+      updateIntervalMs: number;
+    }
+  ).updateIntervalMs;
+};
+
+describe('gRPC stream transports', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    server.use(http.get(CONSENSUS_STATUS, () => HttpResponse.json({ source: 'polling' })));
+  });
+
+  afterEach(() => {
+    grpcStreamService.unsubscribeAll();
+    vi.restoreAllMocks();
+  });
+
+  it('falls back to polling when gRPC-Web is not available', async () => {
+    server.use(http.post(STREAM_CONSENSUS, () => new HttpResponse(null, { status: 404 })));
+    const updates: unknown[] = [];
+    const transports: (StreamTransportKind | null)[] = [];
+
+    grpcStreamService.subscribeToConsensus((update) => updates.push(update), {
+      onTransportChange: (transport) => transports.push(transport),
+    });
+
+    await vi.waitFor(() => expect(updates).toContainEqual({ source: 'polling' }));
+    expect(transports).toEqual(['polling']);
+    expect(grpcStreamService.getStreamTransport('consensus')).toBe('polling');
+  });
+
+  it('reconnects a dropped stream, then polls once the retries run out', async () => {
+    let attempts = 0;
+    server.use(
+      http.post(STREAM_CONSENSUS, () =>
+        ++attempts === 1
+          ? grpcResponse({ source: 'grpc' })
+          : new HttpResponse(null, { status: 503 })
+      )
+    );
+    const updates: unknown[] = [];
+    const transports: (StreamTransportKind | null)[] = [];
+
+    const subscription = grpcStreamService.subscribeToConsensus((update) => updates.push(update), {
+      onTransportChange: (transport) => transports.push(transport),
+    });
+
+    await vi.waitFor(() => expect(updates).toContainEqual({ source: 'polling' }));
+    // The first connection and one per retry
+    expect(attempts).toBe(4);
+    expect(updates[0]).toEqual({ source: 'grpc' });
+    expect(transports).toEqual(['polling']);
+    expect(subscription.isActive).toBe(true);
+  });
+
+  it('keeps reconnecting a stream that recovers between drops', async () => {
+    let attempts = 0;
+    server.use(
+      http.post(STREAM_CONSENSUS, () =>
+        ++attempts <= 6 ? grpcResponse({ attempt: attempts }) : openGrpcResponse()
+      )
+    );
+    const updates: unknown[] = [];
+    const onTransportChange = vi.fn();
+
+    grpcStreamService.subscribeToConsensus((update) => updates.push(update), {
+      onTransportChange,
+    });
+
+    await vi.waitFor(() => expect(attempts).toBe(7));
+    expect(updates).toHaveLength(6);
+    expect(onTransportChange).not.toHaveBeenCalled();
+    expect(grpcStreamService.getStreamTransport('consensus')).toBe('grpc-web');
+  });
+
+  it('runs the upstream at the shortest interval its subscribers asked for', async () => {
+    const intervals: number[] = [];
+    server.use(
+      http.post(STREAM_CONSENSUS, async ({ request }) => {
+        intervals.push(await requestedInterval(request));
+        return openGrpcResponse();
+      })
+    );
+
+    const slow = grpcStreamService.subscribeToConsensus(() => {}, { updateIntervalMs: 2000 });
+    await vi.waitFor(() => expect(intervals).toEqual([2000]));
+
+    const fast = grpcStreamService.subscribeToConsensus(() => {}, { updateIntervalMs: 250 });
+    await vi.waitFor(() => expect(intervals).toEqual([2000, 250]));
+
+    // A slower subscriber joining leaves the stream alone
+    grpcStreamService.subscribeToConsensus(() => {}, { updateIntervalMs: 1000 });
+    fast.unsubscribe();
+    await vi.waitFor(() => expect(intervals).toEqual([2000, 250, 1000]));
+
+    slow.unsubscribe();
+    expect(intervals).toEqual([2000, 250, 1000]);
+  });
+});
@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Block, Transaction } from '../services/AurigraphAPIService';
+import type { WebSocketGap } from '../services/websocketService';
+import { fetchGapBackfill } from '../services/liveDataBackfill';
+import liveDataReducer, { backfillTransactions } from '../store/liveDataSlice';
+
+// Newest-first listings the backfill pages through
+const ledger = vi.hoisted(() => ({
+  transactions: [] as Transaction[],
+  blocks: [] as Block[],
+  // Runs after each transactions page is served, to move the chain on mid-backfill
+  afterPage: (() => {}) as () => void,
+}));
+
+vi.mock('../services/AurigraphAPIService', () => ({
+  aurigraphAPI: {
+    getTransactions: async (limit: number, offset: number) => {
+      const page = ledger.transactions.slice(offset, offset + limit);
+      ledger.afterPage();
+      return page;
+    },
+    getBlocks: async (limit: number, offset: number) => ledger.blocks.slice(offset, offset + limit),
+  },
+}));
+
+const BASE_TIME = Date.parse('2026-01-01T00:00:00.000Z');
+const TXS_PER_BLOCK = 10;
+
+const timeOf = (height: number) => new Date(BASE_TIME + height * 2000).toISOString();
+
+const transaction = (index: number): Transaction => {
+  const blockHeight = Math.floor(index / TXS_PER_BLOCK);
+  return {
+    hash: `0xtx${index}`,
+    from: '0xaaa',
+    to: '0xbbb',
+    amount: '1.5',
+    fee: '0.01',
+    gasPrice: '1',
+    gasUsed: 21000,
+    nonce: index,
+    timestamp: timeOf(blockHeight),
+    status: 'CONFIRMED',
+    blockHeight,
+  };
+};
+
+const block = (height: number): Block => ({
+  hash: `0xblock${height}`,
+  height,
+  timestamp: timeOf(height),
+  proposer: 'validator-1',
+  transactionCount: TXS_PER_BLOCK,
+  gasUsed: 0,
+  gasLimit: 0,
+  stateRoot: '0xstate',
+  previousHash: `0xblock${height - 1}`,
+  consensusRound: height,
+});
+
+/** A chain of `count` transactions, listed newest first */
+const seedChain = (count: number) => {
+  ledger.transactions = Array.from({ length: count }, (_, index) => transaction(index)).reverse();
+  const heights = Math.ceil(count / TXS_PER_BLOCK);
+  ledger.blocks = Array.from({ length: heights }, (_, height) => block(height)).reverse();
+};
+
+const gap = (overrides: Partial<WebSocketGap>): WebSocketGap => ({
+  channel: 'transactions',
+  reason: 'reconnect',
+  since: timeOf(0),
+  until: timeOf(0),
+  ...overrides,
+});
+
+describe('live data backfill', () => {
+  beforeEach(() => {
+    ledger.afterPage = () => {};
+  });
+
+  it('recovers a gap by block height, however many pages it spans', async () => {
+    seedChain(2000);
+
+    // Transactions 100..1599 were missed: blocks 10..159
+    const result = await fetchGapBackfill(
+      gap({ fromSequence: 100, toSequence: 1599, fromBlockHeight: 10, toBlockHeight: 159 })
+    );
+
+    const heights = result.liveTransactions.map((tx) => tx.blockHeight);
+    expect(result.liveTransactions).toHaveLength(1500);
+    expect(Math.min(...heights)).toBe(10);
+    expect(Math.max(...heights)).toBe(159);
+    expect(result.blocks.map((b) => b.height)).toEqual(
+      Array.from({ length: 150 }, (_, index) => 159 - index)
+    );
+  });
+
+  it('falls back to the time window without block heights', async () => {
+    seedChain(300);
+
+    const result = await fetchGapBackfill(gap({ since: timeOf(5), until: timeOf(8) }));
+
+    expect(new Set(result.liveTransactions.map((tx) => tx.blockHeight))).toEqual(
+      new Set([6, 7, 8])
+    );
+    expect(result.blocks.map((b) => b.height)).toEqual([8, 7, 6]);
+  });
+
+  it('drops entries that shift onto the next page while paging', async () => {
+    seedChain(500);
+    let next = 500;
+    // A new transaction lands at the head after each page, pushing the listing down by one
+    ledger.afterPage = () => {
+      ledger.transactions.unshift(transaction(next++));
+    };
+
+    const result = await fetchGapBackfill(
+      gap({ fromSequence: 0, toSequence: 299, fromBlockHeight: 0, toBlockHeight: 29 })
+    );
+
+    const hashes = result.liveTransactions.map((tx) => tx.hash);
+    expect(new Set(hashes).size).toBe(hashes.length);
+    expect(hashes).toHaveLength(300);
+  });
+
+  it('merges recovered transactions newest first without repeating live ones', () => {
+    const live = {
+      id: '0xtx5',
+      hash: '0xtx5',
+      from: '0xaaa',
+      to: '0xbbb',
+      amount: 1,
+      fee: 0,
+      blockHeight: 0,
+      timestamp: timeOf(5),
+      status: 'confirmed' as const,
+    };
+    const state = liveDataReducer(undefined, backfillTransactions([live]));
+
+    const merged = liveDataReducer(
+      state,
+      backfillTransactions([
+        { ...live, id: '0xtx4', hash: '0xtx4', timestamp: timeOf(4) },
+        { ...live, status: 'pending' },
+        { ...live, id: '0xtx6', hash: '0xtx6', timestamp: timeOf(6) },
+      ])
+    );
+
+    expect(merged.transactions.map((tx) => tx.id)).toEqual(['0xtx6', '0xtx5', '0xtx4']);
+    expect(merged.transactions[1]?.status).toBe('confirmed');
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { keccak256, sha256, toHex, utf8 } from '../utils/hash';
+import {
+  buildMerkleTree,
+  generateProof,
+  parseProof,
+  verifyProof,
+  type MerkleLeaf,
+} from '../utils/merkle';
+
+const leaves: MerkleLeaf[] = ['A', 'B', 'C', 'D', 'E'].map((name, index) => ({
+  id: `leaf-${index + 1}`,
+  value: `Token-${name}`,
+  data: { assetName: name, value: (index + 1) * 1000 },
+}));
+
+describe('hash functions', () => {
+  it('match the published test vectors', () => {
+    expect(toHex(sha256(utf8('abc')))).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+    expect(toHex(keccak256(utf8('')))).toBe(
+      'c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470'
+    );
+    expect(toHex(keccak256(utf8('abc')))).toBe(
+      '4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45'
+    );
+  });
+});
+
+describe('merkle proofs', () => {
+  it.each(['sha256', 'keccak256'] as const)('verify every leaf with %s', (algorithm) => {
+    const tree = buildMerkleTree(leaves, algorithm);
+    leaves.forEach((leaf) => {
+      expect(verifyProof(generateProof(tree, leaf.id), tree.root)).toMatchObject({ valid: true });
+    });
+  });
+
+  it('rejects a proof whose leaf data was altered', () => {
+    const tree = buildMerkleTree(leaves);
+    const proof = generateProof(tree, 'leaf-3');
+    const tampered = { ...proof, leaf: { ...proof.leaf, data: { assetName: 'C', value: 1 } } };
+    expect(verifyProof(tampered).valid).toBe(false);
+  });
+
+  it('rejects a proof against a different trusted root', () => {
+    const proof = generateProof(buildMerkleTree(leaves), 'leaf-5');
+    const otherRoot = buildMerkleTree(leaves.slice(0, 4)).root;
+    expect(verifyProof(proof, otherRoot)).toMatchObject({ valid: false });
+  });
+
+  it('does not vouch for a proof without a trusted root', () => {
+    // Self-consistent, but for a tree the registry never published
+    const forged = generateProof(
+      buildMerkleTree([...leaves, { id: 'leaf-x', value: 'X' }]),
+      'leaf-x'
+    );
+    expect(verifyProof(forged)).toMatchObject({ valid: false, untrusted: true });
+    expect(verifyProof(forged, buildMerkleTree(leaves).root)).toMatchObject({
+      valid: false,
+      reason: 'Proof root differs from the trusted root',
+    });
+  });
+
+  it('round-trips through exported JSON', () => {
+    const tree = buildMerkleTree(leaves, 'keccak256');
+    const proof = generateProof(tree, 'leaf-2');
+    expect(verifyProof(parseProof(JSON.stringify(proof)), tree.root).valid).toBe(true);
+    expect(() => parseProof('{"format":"other"}')).toThrow();
+  });
+});
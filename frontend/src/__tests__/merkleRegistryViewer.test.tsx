@@ -0,0 +1,37 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { server } from '../mocks/node';
+
+// The base URL the dev and production builds use, which already names the V11 API
+const API_BASE_URL = 'http://localhost:9004/api/v11';
+
+// antd renders slowly under jsdom
+describe('Merkle registry viewer', { timeout: 30_000 }, () => {
+  const requested: string[] = [];
+  const record = ({ request }: { request: Request }) => {
+    requested.push(request.url);
+  };
+
+  afterEach(() => {
+    server.events.removeListener('request:start', record);
+    requested.length = 0;
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it('requests the registry relative to the configured API base URL', async () => {
+    vi.stubEnv('VITE_API_BASE_URL', API_BASE_URL);
+    vi.resetModules();
+    const { default: MerkleRegistryViewer } = await import(
+      '../components/demo/MerkleRegistryViewer'
+    );
+    server.events.on('request:start', record);
+
+    render(<MerkleRegistryViewer />);
+
+    await waitFor(() => expect(requested).toContain(`${API_BASE_URL}/demo/registry/stats`));
+    expect(requested).toContain(`${API_BASE_URL}/demo/registry/feeds`);
+    expect(requested.filter((url) => url.includes('/api/v11/api/v11'))).toEqual([]);
+    expect(await screen.findByText('Total Tokens')).toBeInTheDocument();
+  });
+});
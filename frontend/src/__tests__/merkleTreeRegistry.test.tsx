@@ -0,0 +1,60 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it } from 'vitest';
+import MerkleTreeRegistry from '../components/registry/MerkleTreeRegistry';
+import { buildMerkleTree, generateProof, toMerkleNode, type MerkleLeaf } from '../utils/merkle';
+
+const leaves: MerkleLeaf[] = ['A', 'B', 'C', 'D'].map((name, index) => ({
+  id: `leaf-${index + 1}`,
+  value: `Token-${name}`,
+}));
+
+const published = buildMerkleTree(leaves);
+
+const proofFile = (leafId: string, tree = published) => {
+  const json = JSON.stringify(generateProof(tree, leafId));
+  const file = new File([json], `${leafId}.json`, { type: 'application/json' });
+  // jsdom's File has no text()
+  return Object.assign(file, { text: () => Promise.resolve(json) });
+};
+
+/** Open the import dialog, set the trusted root field and import the proof */
+const importProof = async (file: File, trustedRoot = '') => {
+  await userEvent.click(screen.getByRole('button', { name: /Verify Proof File/ }));
+  const dialog = await screen.findByRole('dialog', { name: 'Verify Proof File' });
+  const rootField = dialog.querySelector('input:not([type="file"])') as HTMLInputElement;
+  await userEvent.clear(rootField);
+  if (trustedRoot) await userEvent.type(rootField, trustedRoot);
+  await userEvent.upload(dialog.querySelector('input[type="file"]') as HTMLInputElement, file);
+};
+
+// antd renders slowly under jsdom
+describe('Merkle tree registry proof import', { timeout: 30_000 }, () => {
+  it('checks an imported proof against the published root when no root is entered', async () => {
+    render(<MerkleTreeRegistry data={toMerkleNode(published)} readOnly />);
+
+    await importProof(proofFile('leaf-3'));
+
+    expect(await screen.findByText('Inclusion proof verified')).toBeInTheDocument();
+  });
+
+  it('rejects a self-consistent proof for a different tree', async () => {
+    render(<MerkleTreeRegistry data={toMerkleNode(published)} readOnly />);
+    const forged = buildMerkleTree([...leaves, { id: 'leaf-x', value: 'Token-X' }]);
+
+    await importProof(proofFile('leaf-x', forged));
+
+    expect(await screen.findByText('Inclusion proof rejected')).toBeInTheDocument();
+    expect(screen.getByText('Proof root differs from the trusted root')).toBeInTheDocument();
+    expect(screen.queryByText('Inclusion proof verified')).not.toBeInTheDocument();
+  });
+
+  it('checks against the root that was entered instead', async () => {
+    render(<MerkleTreeRegistry data={toMerkleNode(published)} readOnly />);
+    const other = buildMerkleTree(leaves.slice(0, 3));
+
+    await importProof(proofFile('leaf-1'), other.root);
+
+    expect(await screen.findByText('Inclusion proof rejected')).toBeInTheDocument();
+  });
+});
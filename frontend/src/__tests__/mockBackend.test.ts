@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { mockDb } from '../mocks/db';
+
+const BASE = 'http://localhost:9003/api/v11';
+
+describe('mock backend', () => {
+  it('generates the same chain for the same seed', () => {
+    mockDb.seed(42);
+    const first = mockDb.blocks.map((block) => block.hash);
+    mockDb.seed(7);
+    mockDb.seed(42);
+    expect(mockDb.blocks.map((block) => block.hash)).toEqual(first);
+  });
+
+  it('serves the latest blocks newest first', async () => {
+    const response = await fetch(`${BASE}/blocks?limit=3`);
+    const blocks = (await response.json()) as { height: number }[];
+    expect(blocks).toHaveLength(3);
+    expect(blocks[0]?.height).toBe(mockDb.latestBlock.height);
+  });
+
+  it('rejects transfers to restricted countries', async () => {
+    const identities = [...mockDb.identities.values()];
+    const sender = identities.find((identity) => identity.country === 'US');
+    const recipient = identities.find((identity) => identity.country === 'IR');
+
+    const response = await fetch(`${BASE}/compliance/erc3643/transfers/check`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        tokenId: 'token-1',
+        from: sender?.address,
+        to: recipient?.address,
+        amount: 100,
+      }),
+    });
+    const result = (await response.json()) as { allowed: boolean; violations: string[] };
+
+    expect(result.allowed).toBe(false);
+    expect(result.violations).toContain('Recipient is in restricted country IR');
+  });
+
+  it('simulates transfers rule by rule without recording them', async () => {
+    const identities = [...mockDb.identities.values()];
+    const sender = identities.find((identity) => identity.country === 'US');
+    const recipient = identities.find((identity) => identity.country === 'IR');
+    const recorded = mockDb.complianceTransfers.length;
+
+    const response = await fetch(`${BASE}/compliance/erc3643/transfers/simulate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        transfers: [
+          { tokenId: 'token-1', from: sender?.address, to: recipient?.address, amount: 100 },
+        ],
+      }),
+    });
+    const [result] = (await response.json()) as {
+      allowed: boolean;
+      rules: { rule: string; party?: string; passed: boolean }[];
+    }[];
+
+    expect(result?.allowed).toBe(false);
+    expect(result?.rules).toContainEqual(
+      expect.objectContaining({ rule: 'country_restriction', party: 'recipient', passed: false })
+    );
+    expect(mockDb.complianceTransfers).toHaveLength(recorded);
+  });
+
+  it('links rejected transfers to an alert and walks it through its workflow', async () => {
+    const identities = [...mockDb.identities.values()];
+    const sender = identities.find((identity) => identity.country === 'US');
+    const recipient = identities.find((identity) => identity.country === 'IR');
+    const record = mockDb.recordTransfer(
+      { tokenId: 'token-1', from: sender?.address ?? '', to: recipient?.address ?? '', amount: 10 },
+      false
+    );
+    const alert = mockDb.complianceAlerts.find((candidate) =>
+      candidate.auditEntryIds.includes(record.id)
+    );
+    expect(alert?.status).toBe('new');
+
+    const post = (path: string, body: object) =>
+      fetch(`${BASE}/compliance/alerts/${alert?.id}/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer mock-token.1.test' },
+        body: JSON.stringify(body),
+      });
+
+    expect((await post('status', { status: 'investigating' })).status).toBe(200);
+    expect((await post('status', { status: 'acknowledged' })).status).toBe(409);
+    await post('status', { status: 'resolved', note: 'Transfer was blocked' });
+
+    expect(alert?.resolved).toBe(true);
+    expect(alert?.activity.map((entry) => entry.toStatus).filter(Boolean)).toEqual([
+      'investigating',
+      'resolved',
+    ]);
+    expect(
+      alert?.activity.every((entry) => entry.actor === 'admin' || entry.actor === 'system')
+    ).toBe(true);
+  });
+
+  it('keeps a rotated API key working for the overlap window, then revokes it', async () => {
+    const keys = 'http://localhost:9003/api/v12/developer/keys';
+    const headers = {
+      'Content-Type': 'application/json',
+      Authorization: 'Bearer mock-token.2.test',
+    };
+    const post = (path: string, body: object = {}) =>
+      fetch(`${keys}${path}`, { method: 'POST', headers, body: JSON.stringify(body) });
+
+    const created = (await (
+      await post('', {
+        name: 'Rotation test',
+        scopes: [{ module: 'Blocks', actions: ['view'] }],
+        expiresAt: null,
+        ipAllowlist: ['10.0.0.0/8'],
+      })
+    ).json()) as { key: { id: string; prefix: string }; secret: string };
+    expect(created.secret.startsWith(created.key.prefix)).toBe(true);
+
+    const rotated = (await (
+      await post(`/${created.key.id}/rotate`, { overlapHours: 2 })
+    ).json()) as {
+      key: { id: string; rotatedFromId: string };
+      previous: { status: string; expiresAt: string };
+    };
+    expect(rotated.key.rotatedFromId).toBe(created.key.id);
+    expect(rotated.previous.status).toBe('rotating');
+    expect(Date.parse(rotated.previous.expiresAt) - Date.now()).toBeLessThanOrEqual(2 * 3_600_000);
+    expect((await post(`/${created.key.id}/rotate`, { overlapHours: 2 })).status).toBe(409);
+
+    expect((await post(`/${created.key.id}/revoke`)).status).toBe(200);
+    const listed = (await (await fetch(keys, { headers })).json()) as {
+      id: string;
+      status: string;
+      secret?: string;
+    }[];
+    expect(listed.find((key) => key.id === created.key.id)?.status).toBe('revoked');
+    expect(listed.every((key) => key.secret === undefined)).toBe(true);
+    expect(
+      (await post('', { name: 'Too broad', scopes: [{ module: 'Blocks', actions: ['deploy'] }] }))
+        .status
+    ).toBe(400);
+  });
+
+  it('answers unmocked routes with 501', async () => {
+    const response = await fetch(`${BASE}/not-a-real-endpoint`);
+    expect(response.status).toBe(501);
+  });
+
+  it('does not serve paths that repeat the API prefix', async () => {
+    expect((await fetch(`${BASE}/registries/merkle-tree`)).status).toBe(200);
+    expect((await fetch(`${BASE}/api/v11/registries/merkle-tree`)).status).toBe(404);
+  });
+});
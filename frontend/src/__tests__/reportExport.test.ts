@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { exportReport } from '../utils/reportExport';
+import type { GeneratedReport } from '../types/state';
+
+// jsdom's Blob has no text()
+const readBlob = (blob: Blob) =>
+  new Promise<string>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.readAsText(blob);
+  });
+
+const report: GeneratedReport = {
+  id: 'report-1',
+  definitionId: null,
+  title: 'Q3 Token Compliance',
+  trigger: 'manual',
+  generatedAt: '2025-10-01T12:00:00.000Z',
+  parameters: {
+    type: 'token_compliance',
+    tokenIds: [],
+    jurisdiction: 'EU',
+    startDate: '2025-07-01T00:00:00.000Z',
+    endDate: '2025-09-30T23:59:59.999Z',
+    lookbackDays: null,
+  },
+  entityColumn: 'tokenId',
+  columns: [
+    { key: 'tokenId', title: 'Token' },
+    { key: 'transfers', title: 'Transfers', numeric: true },
+    { key: 'issues', title: 'Open Issues' },
+  ],
+  rows: [
+    { tokenId: 'token-1', transfers: 12, issues: 'Certification renewal pending, "urgent"' },
+    { tokenId: 'token-2', transfers: 0, issues: '' },
+  ],
+  summary: [{ label: 'Tokens', value: 2 }],
+};
+
+describe('report export', () => {
+  it('writes CSV with a header row and quoted fields', async () => {
+    const { blob, fileName } = exportReport(report, 'csv');
+    expect(fileName).toBe('q3-token-compliance-2025-10-01.csv');
+    expect((await readBlob(blob)).split('\n')).toEqual([
+      'Token,Transfers,Open Issues',
+      'token-1,12,"Certification renewal pending, ""urgent"""',
+      'token-2,0,',
+    ]);
+  });
+
+  it('reports one XBRL context per row and skips empty facts', async () => {
+    const xml = await readBlob(exportReport(report, 'xbrl').blob);
+    expect(xml.match(/<xbrli:context /g)).toHaveLength(2);
+    expect(xml).toContain(
+      '<xbrli:startDate>2025-07-01</xbrli:startDate><xbrli:endDate>2025-09-30</xbrli:endDate>'
+    );
+    expect(xml).toContain(
+      '<aur:Transfers contextRef="c1" unitRef="pure" decimals="INF">12</aur:Transfers>'
+    );
+    expect(xml).not.toContain('<aur:Issues contextRef="c2"');
+  });
+
+  it('writes xBRL-JSON facts with their dimensions', async () => {
+    const json = JSON.parse(await readBlob(exportReport(report, 'json').blob));
+    expect(json.documentInfo.documentType).toBe('https://xbrl.org/2021/xbrl-json');
+    expect(Object.values(json.facts)).toContainEqual({
+      value: '12',
+      decimals: 0,
+      dimensions: {
+        concept: 'aur:Transfers',
+        entity: 'aur-entity:token-1',
+        period: '2025-07-01T00:00:00/2025-09-30T23:59:59',
+        unit: 'xbrli:pure',
+      },
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { createHash } from 'node:crypto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  canonicalDocument,
+  enrollParty,
+  hashDocument,
+  LocalKeySigner,
+  signContract,
+  verifyContractSignatures,
+  verifySignature,
+  type ContractSigner,
+} from '../services/ricardianSigning';
+import type { ContractParty, RicardianContract } from '../types/ricardian';
+
+const local = new LocalKeySigner();
+
+const party = (id: string, address: string): ContractParty => ({
+  id,
+  name: id,
+  role: 'BUYER',
+  address,
+  kycVerified: true,
+  signatureRequired: true,
+  signed: false,
+});
+
+const contractWith = async (parties: ContractParty[]): Promise<RicardianContract> => {
+  const document = {
+    legalText: 'The seller delivers the goods.\nThe buyer pays on delivery.',
+    executableCode: 'function settle() {}',
+  };
+  return {
+    ...document,
+    id: 'ricardian-1',
+    name: 'Supply agreement',
+    type: 'SUPPLY_CHAIN',
+    status: 'pending_signatures',
+    jurisdiction: 'Delaware',
+    parties: await Promise.all(parties.map((entry) => enrollParty(entry, local))),
+    terms: [],
+    documentHash: hashDocument(document),
+    signatures: [],
+    version: 1,
+    versions: [],
+    amendments: [],
+    enforceabilityScore: 0,
+    riskAssessment: '',
+    createdAt: '2026-01-01T00:00:00.000Z',
+  };
+};
+
+/** Signs as the party, but with the key of another address */
+const impostor = (address: string): ContractSigner => ({
+  id: 'impostor',
+  label: 'Impostor',
+  publicKey: (signing) => local.publicKey({ ...signing, address }),
+  sign: (signing, payload) => local.sign({ ...signing, address }, payload),
+});
+
+describe('ricardian signing', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('hashes the document regardless of line endings and trailing whitespace', () => {
+    const document = { legalText: 'Pay on delivery.\nNet 30.', executableCode: '' };
+    const hash = hashDocument(document);
+
+    expect(hash).toBe(createHash('sha256').update(canonicalDocument(document)).digest('hex'));
+    expect(
+      hashDocument({ legalText: 'Pay on delivery.  \r\nNet 30.\r\n', executableCode: '' })
+    ).toBe(hash);
+    expect(hashDocument({ legalText: 'Pay on delivery.\nNet 60.', executableCode: '' })).not.toBe(
+      hash
+    );
+  });
+
+  it("verifies a signature made with the party's enrolled key", async () => {
+    const contract = await contractWith([party('buyer', '0xaaa'), party('seller', '0xbbb')]);
+    const buyer = contract.parties[0]!;
+    contract.signatures.push(await signContract(contract, buyer, local));
+
+    expect(await verifySignature(contract, contract.signatures[0]!)).toEqual({
+      partyId: 'buyer',
+      valid: true,
+    });
+    expect(await verifyContractSignatures(contract)).toEqual([
+      { partyId: 'buyer', valid: true },
+      { partyId: 'seller', valid: false, reason: 'Not signed' },
+    ]);
+  });
+
+  it('rejects a signature once the document is tampered with', async () => {
+    const contract = await contractWith([party('buyer', '0xaaa')]);
+    const signature = await signContract(contract, contract.parties[0]!, local);
+    const tampered = { ...contract, legalText: `${contract.legalText}\nThe buyer pays double.` };
+
+    expect(await verifySignature(tampered, signature)).toMatchObject({
+      valid: false,
+      reason: 'Document changed after signing',
+    });
+  });
+
+  it("rejects a signature made with a key other than the party's", async () => {
+    const contract = await contractWith([party('buyer', '0xaaa')]);
+    const buyer = contract.parties[0]!;
+    const forged = await signContract(contract, buyer, impostor('0xeee'));
+
+    expect(await verifySignature(contract, forged)).toMatchObject({
+      valid: false,
+      reason: "Signed with a key other than the party's enrolled key",
+    });
+    // Claiming the enrolled key doesn't help when it didn't make the signature
+    expect(
+      await verifySignature(contract, { ...forged, publicKey: buyer.publicKey ?? '' })
+    ).toMatchObject({ valid: false, reason: 'Signature does not match' });
+  });
+
+  it("rejects a signature from an address other than the party's", async () => {
+    const contract = await contractWith([party('buyer', '0xaaa'), party('seller', '0xbbb')]);
+    const signature = await signContract(contract, contract.parties[1]!, local);
+
+    expect(await verifySignature(contract, { ...signature, partyId: 'buyer' })).toMatchObject({
+      valid: false,
+      reason: "Signed from an address other than the party's",
+    });
+  });
+});
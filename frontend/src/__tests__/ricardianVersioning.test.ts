@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { hashDocument } from '../services/ricardianSigning';
+import {
+  diffTerms,
+  extractTerms,
+  verifyLineage,
+  versionHash,
+} from '../services/ricardianVersioning';
+import type { RicardianContract, RicardianContractVersion } from '../types/ricardian';
+
+const ORIGINAL = 'Supply agreement\n1. The seller delivers monthly.\n2. Payment is due in 30 days.';
+const AMENDED =
+  'Supply agreement\n1. The seller delivers weekly.\n2. Payment is due in 30 days.\n' +
+  'Section 3 Either party may terminate with notice.';
+
+/** Versions chained the way the registry builds them */
+const chain = (texts: string[]): RicardianContractVersion[] =>
+  texts.reduce<RicardianContractVersion[]>((versions, legalText, index) => {
+    const fields = {
+      version: index + 1,
+      documentHash: hashDocument({ legalText, executableCode: '' }),
+      previousHash: versions[index - 1]?.versionHash ?? null,
+    };
+    return [
+      ...versions,
+      {
+        ...fields,
+        legalText,
+        executableCode: '',
+        terms: extractTerms(legalText),
+        versionHash: versionHash(fields),
+        summary: index === 0 ? 'Original document' : `Amendment ${index}`,
+        signatures: [],
+        createdAt: '2026-01-01T00:00:00.000Z',
+      },
+    ];
+  }, []);
+
+const contractWith = (versions: RicardianContractVersion[]) =>
+  ({ id: 'ricardian-1', versions }) as RicardianContract;
+
+describe('ricardian versioning', () => {
+  it('takes numbered lines and section headings as terms', () => {
+    expect(extractTerms(AMENDED)).toEqual([
+      '1. The seller delivers weekly.',
+      '2. Payment is due in 30 days.',
+      'Section 3 Either party may terminate with notice.',
+    ]);
+  });
+
+  it('accepts an intact version chain', () => {
+    expect(verifyLineage(contractWith(chain([ORIGINAL, AMENDED])))).toEqual([
+      { version: 1, valid: true },
+      { version: 2, valid: true },
+    ]);
+  });
+
+  it('flags a version whose text was edited after the fact', () => {
+    const [original, amended] = chain([ORIGINAL, AMENDED]);
+    const edited = { ...original!, legalText: ORIGINAL.replace('30', '90') };
+
+    expect(verifyLineage(contractWith([edited, amended!]))).toEqual([
+      { version: 1, valid: false, reason: 'Text does not match its document hash' },
+      { version: 2, valid: true },
+    ]);
+  });
+
+  it('flags a version that no longer links to the one before it', () => {
+    const [original, amended, third] = chain([ORIGINAL, AMENDED, `${AMENDED}\n4. Audits yearly.`]);
+    // Rewriting history: version 2 replaced, with its own hashes made consistent
+    const rewritten = chain([ORIGINAL, AMENDED.replace('weekly', 'daily')])[1]!;
+
+    expect(verifyLineage(contractWith([original!, rewritten, third!]))).toEqual([
+      { version: 1, valid: true },
+      { version: 2, valid: true },
+      { version: 3, valid: false, reason: 'Not linked to the previous version' },
+    ]);
+    expect(
+      verifyLineage(contractWith([original!, { ...amended!, versionHash: 'f'.repeat(64) }]))
+    ).toContainEqual({ version: 2, valid: false, reason: 'Version hash does not match' });
+  });
+
+  it('reports terms added, removed and reworded, matched by number', () => {
+    expect(
+      diffTerms(extractTerms(ORIGINAL), [
+        '1. The seller delivers weekly.',
+        'Section 3 Either party may terminate with notice.',
+      ])
+    ).toEqual([
+      {
+        key: '1.',
+        type: 'modified',
+        before: '1. The seller delivers monthly.',
+        after: '1. The seller delivers weekly.',
+      },
+      { key: '2.', type: 'removed', before: '2. Payment is due in 30 days.' },
+      {
+        key: 'Section 3',
+        type: 'added',
+        after: 'Section 3 Either party may terminate with notice.',
+      },
+    ]);
+    expect(diffTerms(extractTerms(ORIGINAL), extractTerms(ORIGINAL))).toEqual([]);
+  });
+});
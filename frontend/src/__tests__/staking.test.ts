@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { SlashingEvent } from '../services/openapi/aurigraphV11';
+import { formatCountdown, projectRewards, unbondingCompletesAt } from '../utils/staking';
+
+const NOW = Date.parse('2026-06-01T00:00:00.000Z');
+const DAY_MS = 86_400_000;
+
+const slashing = (daysAgo: number, fraction: number): SlashingEvent => ({
+  validatorId: 'validator-1',
+  height: 1000,
+  reason: 'downtime',
+  fraction,
+  occurredAt: new Date(NOW - daysAgo * DAY_MS).toISOString(),
+});
+
+const project = (days: number, slashingHistory: SlashingEvent[] = []) =>
+  projectRewards({ amount: 10_000, apr: 12, commission: 25, slashingHistory, days, now: NOW });
+
+describe('staking calculations', () => {
+  it('takes the commission out of the APR', () => {
+    const projection = project(365);
+
+    expect(projection.netApr).toBe(9);
+    expect(projection.grossRewards).toBeCloseTo(900);
+    expect(projection.projectedRewards).toBeCloseTo(900);
+  });
+
+  it('accrues rewards without compounding', () => {
+    const oneYear = project(365).projectedRewards;
+
+    expect(project(730).projectedRewards).toBeCloseTo(2 * oneYear);
+    expect(project(73).projectedRewards).toBeCloseTo(oneYear / 5);
+    // Compounding yearly would have earned 10,000 × 1.09² − 10,000 = 1,881 over two years
+    expect(project(730).projectedRewards).toBeLessThan(1881);
+  });
+
+  it('counts only the last year of slashing as the expected loss', () => {
+    const projection = project(365, [slashing(30, 0.01), slashing(200, 0.005), slashing(400, 0.5)]);
+
+    expect(projection.slashingRate).toBeCloseTo(1.5);
+    expect(projection.effectiveApr).toBeCloseTo(7.5);
+    expect(projection.expectedSlashingLoss).toBeCloseTo(150);
+    expect(projection.projectedRewards).toBeCloseTo(750);
+  });
+
+  it('projects nothing for zero or negative durations', () => {
+    [0, -30].forEach((days) => {
+      const projection = project(days, [slashing(30, 0.01)]);
+
+      expect(projection.grossRewards).toBe(0);
+      expect(projection.expectedSlashingLoss).toBe(0);
+      expect(projection.projectedRewards).toBe(0);
+      // The rates still describe the validator
+      expect(projection.effectiveApr).toBeCloseTo(8);
+    });
+  });
+
+  it('formats the time left until unbonding completes', () => {
+    const completesAt = unbondingCompletesAt('2026-06-01T00:00:00.000Z', 21);
+
+    expect(completesAt - NOW).toBe(21 * DAY_MS);
+    expect(formatCountdown(3 * DAY_MS + 4 * 3_600_000 + 12 * 60_000 + 9_500)).toBe('3d 04:12:09');
+    expect(formatCountdown(59_000)).toBe('00:00:59');
+    expect(formatCountdown(999)).toBe('00:00:00');
+  });
+
+  it('has no countdown once the time has elapsed', () => {
+    expect(formatCountdown(0)).toBeNull();
+    expect(formatCountdown(-DAY_MS)).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines, diffSequence, diffWords, type DiffOp } from '../utils/textDiff';
+
+/** The two sequences an edit script was built from */
+const sides = <T>(ops: DiffOp<T>[]) => ({
+  before: ops.filter((op) => op.type !== 'added').map((op) => op.value),
+  after: ops.filter((op) => op.type !== 'removed').map((op) => op.value),
+});
+
+const edits = <T>(ops: DiffOp<T>[]) => ops.filter((op) => op.type !== 'same').length;
+
+describe('text diff', () => {
+  it('finds the shortest edit script', () => {
+    const before = [...'ABCABBA'];
+    const after = [...'CBABAC'];
+    const ops = diffSequence(before, after);
+
+    expect(sides(ops)).toEqual({ before, after });
+    // The longest common subsequence has four elements
+    expect(edits(ops)).toBe(before.length + after.length - 2 * 4);
+  });
+
+  it('handles empty and identical sequences', () => {
+    expect(diffSequence([], [])).toEqual([]);
+    expect(diffSequence([], ['a'])).toEqual([{ type: 'added', value: 'a' }]);
+    expect(diffSequence(['a'], [])).toEqual([{ type: 'removed', value: 'a' }]);
+    expect(edits(diffSequence(['a', 'b'], ['a', 'b']))).toBe(0);
+  });
+
+  it('pairs replaced lines into changed rows for the side-by-side view', () => {
+    expect(diffLines('1. Pay\n2. Deliver\n3. Sign', '1. Pay\n2. Ship\n3. Sign\n4. Audit')).toEqual([
+      { type: 'unchanged', left: '1. Pay', right: '1. Pay' },
+      { type: 'changed', left: '2. Deliver', right: '2. Ship' },
+      { type: 'unchanged', left: '3. Sign', right: '3. Sign' },
+      { type: 'added', left: undefined, right: '4. Audit' },
+    ]);
+  });
+
+  it('marks the words that changed within a line, keeping whitespace', () => {
+    const changes = diffWords('Payment due in 30 days', 'Payment due in 60 days');
+
+    expect(changes.filter((change) => change.type !== 'same')).toEqual([
+      { type: 'removed', text: '30' },
+      { type: 'added', text: '60' },
+    ]);
+    expect(
+      changes
+        .filter((change) => change.type !== 'added')
+        .map((change) => change.text)
+        .join('')
+    ).toBe('Payment due in 30 days');
+  });
+
+  it('diffs long documents with few edits without a quadratic table', () => {
+    const before = Array.from({ length: 50_000 }, (_, index) => `${index + 1}. Term ${index}`);
+    const after = [...before];
+    after.splice(10_000, 1, '10001. Reworded term');
+    after.splice(40_000, 0, 'Inserted clause');
+
+    const ops = diffSequence(before, after);
+
+    expect(sides(ops)).toEqual({ before, after });
+    expect(edits(ops)).toBe(3);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { parseTransferCsv, toCsv } from '../utils/transferCsv';
+
+describe('transfer CSV', () => {
+  it('reads columns in header order, honouring quoted fields', () => {
+    const { transfers, errors } = parseTransferCsv(
+      [
+        'Amount,To,From,TokenId',
+        '100,"0xbbb, escrow",0xaaa,"token ""gold"""',
+        '# comment',
+        '',
+        '2_500,0xccc,0xaaa,token-2',
+      ].join('\r\n')
+    );
+
+    expect(errors).toEqual([]);
+    expect(transfers).toEqual([
+      {
+        line: 2,
+        transfer: { tokenId: 'token "gold"', from: '0xaaa', to: '0xbbb, escrow', amount: 100 },
+      },
+      { line: 5, transfer: { tokenId: 'token-2', from: '0xaaa', to: '0xccc', amount: 2500 } },
+    ]);
+  });
+
+  it('reads headerless files as tokenId, from, to, amount', () => {
+    const { transfers, errors } = parseTransferCsv('token-1,0xaaa,0xbbb,10\ntoken-2,0xbbb,0xaaa,5');
+
+    expect(errors).toEqual([]);
+    expect(transfers.map(({ transfer }) => transfer)).toEqual([
+      { tokenId: 'token-1', from: '0xaaa', to: '0xbbb', amount: 10 },
+      { tokenId: 'token-2', from: '0xbbb', to: '0xaaa', amount: 5 },
+    ]);
+  });
+
+  it('rejects a header without every column', () => {
+    expect(parseTransferCsv('tokenId,from,amount\ntoken-1,0xaaa,10')).toEqual({
+      transfers: [],
+      errors: [{ line: 1, message: 'Missing column: to' }],
+    });
+  });
+
+  it('skips rows with empty fields or amounts that are not positive and finite', () => {
+    const { transfers, errors } = parseTransferCsv(
+      [
+        'tokenId,from,to,amount',
+        'token-1,0xaaa,,10',
+        'token-1,0xaaa,0xbbb,ten',
+        'token-1,0xaaa,0xbbb,0',
+        'token-1,0xaaa,0xbbb,-5',
+        'token-1,0xaaa,0xbbb,1e400',
+        'token-1,0xaaa,0xbbb,7',
+      ].join('\n')
+    );
+
+    expect(transfers.map(({ line }) => line)).toEqual([7]);
+    expect(errors).toEqual([
+      { line: 2, message: 'Missing to' },
+      { line: 3, message: '"ten" is not a number' },
+      { line: 4, message: 'Amount must be greater than zero, got 0' },
+      { line: 5, message: 'Amount must be greater than zero, got -5' },
+      { line: 6, message: '"1e400" is not a number' },
+    ]);
+  });
+
+  it('quotes fields that need it when writing', () => {
+    expect(
+      toCsv([
+        ['tokenId', 'note'],
+        ['token-1', 'Blocked, "restricted"'],
+      ])
+    ).toBe('tokenId,note\ntoken-1,"Blocked, ""restricted"""');
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compositeScore,
+  scoreBreakdown,
+  type ScoredValidatorMetrics,
+} from '../utils/validatorScore';
+
+const perfect: ScoredValidatorMetrics = {
+  uptime: 100,
+  blocksSigned: 1000,
+  missedBlocks: 0,
+  slashingEvents: 0,
+  commission: 0,
+};
+
+describe('validator score', () => {
+  it('gives a flawless validator full marks', () => {
+    expect(scoreBreakdown(perfect)).toEqual({
+      uptime: 100,
+      signing: 100,
+      slashing: 100,
+      commission: 100,
+      total: 100,
+    });
+  });
+
+  it('weights uptime, signing, slashing and commission 40/30/20/10', () => {
+    expect(compositeScore({ ...perfect, uptime: 0 })).toBeCloseTo(60);
+    expect(compositeScore({ ...perfect, blocksSigned: 0, missedBlocks: 10 })).toBeCloseTo(70);
+    expect(compositeScore({ ...perfect, commission: 20 })).toBeCloseTo(90);
+    // One slashing event halves that factor
+    expect(compositeScore({ ...perfect, slashingEvents: 1 })).toBeCloseTo(90);
+  });
+
+  it('combines the factors for a typical validator', () => {
+    const breakdown = scoreBreakdown({
+      uptime: 99,
+      blocksSigned: 950,
+      missedBlocks: 50,
+      slashingEvents: 2,
+      commission: 5,
+    });
+
+    expect(breakdown).toMatchObject({ uptime: 99, signing: 95, slashing: 25, commission: 75 });
+    expect(breakdown.total).toBeCloseTo(39.6 + 28.5 + 5 + 7.5);
+  });
+
+  it('clamps metrics that are out of range', () => {
+    expect(
+      scoreBreakdown({
+        uptime: 140,
+        blocksSigned: 10,
+        missedBlocks: -5,
+        slashingEvents: -1,
+        commission: -10,
+      })
+    ).toEqual({ uptime: 100, signing: 100, slashing: 100, commission: 100, total: 100 });
+
+    expect(scoreBreakdown({ ...perfect, uptime: -3, commission: 45 })).toMatchObject({
+      uptime: 0,
+      commission: 0,
+    });
+  });
+
+  it('gives full signing credit before any blocks are due', () => {
+    expect(scoreBreakdown({ ...perfect, blocksSigned: 0, missedBlocks: 0 }).signing).toBe(100);
+  });
+
+  it('gives no credit for metrics that were not reported', () => {
+    expect(scoreBreakdown({})).toEqual({
+      uptime: 0,
+      signing: 0,
+      slashing: 0,
+      commission: 0,
+      total: 0,
+    });
+
+    const withoutUptime = scoreBreakdown({ ...perfect, uptime: undefined });
+    expect(withoutUptime.uptime).toBe(0);
+    expect(withoutUptime.total).toBeCloseTo(60);
+    expect(scoreBreakdown({ ...perfect, missedBlocks: undefined }).signing).toBe(0);
+    expect(compositeScore({ ...perfect, commission: Number.NaN })).toBeCloseTo(90);
+  });
+});
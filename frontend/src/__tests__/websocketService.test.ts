@@ -0,0 +1,242 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import WebSocketService, {
+  type WebSocketControlFrame,
+  type WebSocketEvent,
+  type WebSocketGap,
+  type WebSocketMessage,
+} from '../services/websocketService';
+
+// Reconnect straight away so the reconnects run in real time
+vi.mock('../utils/constants', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/constants')>()),
+  WS_RECONNECT_INTERVAL: 1,
+}));
+
+/** WebSocket the test opens, feeds and drops by hand */
+class TestWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 3;
+  static sockets: TestWebSocket[] = [];
+
+  readyState = TestWebSocket.CONNECTING;
+  sent: unknown[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(readonly url: string) {
+    TestWebSocket.sockets.push(this);
+  }
+
+  open(): void {
+    this.readyState = TestWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(message: Partial<WebSocketMessage>): void {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(): void {
+    this.readyState = TestWebSocket.CLOSED;
+  }
+
+  /** The server goes away */
+  drop(): void {
+    this.close();
+    this.onclose?.();
+  }
+}
+
+const latestSocket = () => TestWebSocket.sockets[TestWebSocket.sockets.length - 1]!;
+
+const transaction = (sequence: number, blockHeight: number, timestamp: string) => ({
+  type: 'transaction' as const,
+  channel: 'transactions' as const,
+  data: { id: `tx-${sequence}`, blockHeight },
+  timestamp,
+  messageId: `transactions-${sequence}`,
+  sequence,
+});
+
+describe('WebSocket gap detection', () => {
+  let service: WebSocketService;
+  let events: WebSocketEvent[];
+  const gaps = () =>
+    events.filter(({ type }) => type === 'gap').map(({ data }) => data as WebSocketGap);
+
+  beforeEach(() => {
+    vi.stubGlobal('WebSocket', TestWebSocket);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    service = new WebSocketService('ws://localhost', { multiplexed: false });
+    events = [];
+    service.subscribe('transactions', (event) => events.push(event));
+    latestSocket().open();
+  });
+
+  afterEach(() => {
+    service.disconnectAll();
+    TestWebSocket.sockets = [];
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('reports skipped sequence numbers with the block heights around them', () => {
+    latestSocket().receive(transaction(1, 10, '2026-01-01T00:00:00.000Z'));
+    latestSocket().receive(transaction(5, 12, '2026-01-01T00:00:04.000Z'));
+
+    expect(gaps()).toEqual([
+      {
+        channel: 'transactions',
+        reason: 'sequence',
+        fromSequence: 2,
+        toSequence: 4,
+        fromBlockHeight: 10,
+        toBlockHeight: 12,
+        since: '2026-01-01T00:00:00.000Z',
+        until: '2026-01-01T00:00:04.000Z',
+      },
+    ]);
+  });
+
+  it('drops messages it has already delivered', () => {
+    latestSocket().receive(transaction(1, 10, '2026-01-01T00:00:00.000Z'));
+    latestSocket().receive(transaction(1, 10, '2026-01-01T00:00:00.000Z'));
+    latestSocket().receive(transaction(2, 10, '2026-01-01T00:00:01.000Z'));
+
+    const delivered = events.filter(({ type }) => type === 'transaction');
+    expect(delivered.map(({ data }) => data.id)).toEqual(['tx-1', 'tx-2']);
+    expect(gaps()).toEqual([]);
+  });
+
+  it('reports what a reconnect missed', async () => {
+    latestSocket().receive(transaction(1, 10, '2026-01-01T00:00:00.000Z'));
+    latestSocket().drop();
+
+    await vi.waitFor(() => expect(TestWebSocket.sockets).toHaveLength(2));
+    latestSocket().open();
+    latestSocket().receive(transaction(9, 15, '2026-01-01T00:00:10.000Z'));
+
+    expect(gaps()).toEqual([
+      expect.objectContaining({
+        reason: 'reconnect',
+        fromSequence: 2,
+        toSequence: 8,
+        fromBlockHeight: 10,
+        toBlockHeight: 15,
+      }),
+    ]);
+  });
+
+  it('falls back to the outage window when messages are not numbered', async () => {
+    latestSocket().receive({
+      ...transaction(1, 10, '2026-01-01T00:00:00.000Z'),
+      sequence: undefined,
+    });
+    latestSocket().drop();
+
+    await vi.waitFor(() => expect(TestWebSocket.sockets).toHaveLength(2));
+    latestSocket().open();
+    latestSocket().receive({
+      ...transaction(2, 11, '2026-01-01T00:00:10.000Z'),
+      sequence: undefined,
+    });
+
+    expect(gaps()).toEqual([
+      {
+        channel: 'transactions',
+        reason: 'reconnect',
+        fromBlockHeight: 10,
+        toBlockHeight: 11,
+        since: '2026-01-01T00:00:00.000Z',
+        until: '2026-01-01T00:00:10.000Z',
+      },
+    ]);
+  });
+});
+
+describe('multiplexed WebSocket subscriptions', () => {
+  let service: WebSocketService;
+  const controlFrames = (socket: TestWebSocket) =>
+    socket.sent.map((frame) => {
+      const { action, channel } = frame as WebSocketControlFrame;
+      return [action, channel];
+    });
+
+  beforeEach(() => {
+    vi.stubGlobal('WebSocket', TestWebSocket);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    service = new WebSocketService('ws://localhost', { multiplexed: true });
+  });
+
+  afterEach(() => {
+    service.disconnectAll();
+    TestWebSocket.sockets = [];
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('unsubscribes a channel on the shared socket only when its last subscriber leaves', () => {
+    const first = service.subscribe('transactions', () => {});
+    const second = service.subscribe('transactions', () => {});
+    const validators = service.subscribe('validators', () => {});
+    latestSocket().open();
+
+    expect(TestWebSocket.sockets).toHaveLength(1);
+    expect(latestSocket().url).toBe('ws://localhost/api/v11/live/stream');
+    expect(controlFrames(latestSocket())).toEqual([
+      ['subscribe', 'transactions'],
+      ['subscribe', 'validators'],
+    ]);
+
+    first();
+    first();
+    expect(controlFrames(latestSocket())).toHaveLength(2);
+
+    second();
+    expect(controlFrames(latestSocket()).slice(2)).toEqual([['unsubscribe', 'transactions']]);
+    expect(service.getConnectionState('transactions')).toBe('disconnected');
+    expect(latestSocket().readyState).toBe(TestWebSocket.OPEN);
+
+    // The last channel going closes the shared socket
+    validators();
+    expect(controlFrames(latestSocket()).slice(3)).toEqual([['unsubscribe', 'validators']]);
+    expect(latestSocket().readyState).toBe(TestWebSocket.CLOSED);
+  });
+
+  it('subscribes again to every channel after a reconnect', async () => {
+    const events: WebSocketEvent[] = [];
+    service.subscribe('transactions', (event) => events.push(event));
+    service.subscribe('consensus', () => {});
+    const metrics = service.subscribe('metrics', () => {});
+    latestSocket().open();
+    metrics();
+
+    latestSocket().drop();
+    expect(service.getConnectionState('transactions')).toBe('disconnected');
+
+    await vi.waitFor(() => expect(TestWebSocket.sockets).toHaveLength(2));
+    latestSocket().open();
+
+    expect(controlFrames(latestSocket())).toEqual([
+      ['subscribe', 'transactions'],
+      ['subscribe', 'consensus'],
+    ]);
+    expect(service.getConnectionState('transactions')).toBe('connected');
+    expect(events.map(({ type }) => type)).toEqual(['connected', 'disconnected', 'connected']);
+
+    // Messages on the shared socket are routed by their channel
+    latestSocket().receive(transaction(1, 10, '2026-01-01T00:00:00.000Z'));
+    expect(events[events.length - 1]).toMatchObject({
+      type: 'transaction',
+      channel: 'transactions',
+    });
+  });
+});
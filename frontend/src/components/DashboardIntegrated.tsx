@@ -191,10 +191,10 @@ const DashboardIntegrated: React.FC = () => {
     },
     {
       title: 'Stake',
-      dataIndex: 'stake',
-      key: 'stake',
+      dataIndex: 'totalStake',
+      key: 'totalStake',
       width: 100,
-      render: (stake: string) => <Text>{stake} AUR</Text>,
+      render: (totalStake: number) => <Text>{totalStake.toLocaleString()} AUR</Text>,
     },
     {
       title: 'Voting Power',
@@ -210,9 +210,9 @@ const DashboardIntegrated: React.FC = () => {
       dataIndex: 'status',
       key: 'status',
       width: 100,
-      render: (status: string) => {
-        const color = status === 'ACTIVE' ? 'green' : status === 'INACTIVE' ? 'orange' : 'red';
-        return <Tag color={color}>{status}</Tag>;
+      render: (status: Validator['status']) => {
+        const color = status === 'active' ? 'green' : status === 'jailed' ? 'red' : 'orange';
+        return <Tag color={color}>{status.toUpperCase()}</Tag>;
       },
     },
     {
@@ -0,0 +1,164 @@
+/**
+ * Feature Flags Admin
+ *
+ * Lists every feature flag with its default, the rule served for the
+ * current tenant, and a toggle that overrides it in this browser.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Table, Button, Card, Space, Switch, Tag, Typography, Tooltip, message } from 'antd';
+import { ControlOutlined, ReloadOutlined, UndoOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import { featureFlagLabels } from '../config/featureFlags';
+import { featureFlagService, FeatureFlag, FeatureFlagState } from '../services/featureFlagService';
+
+const { Title, Text } = Typography;
+
+const SOURCE_COLORS: Record<FeatureFlagState['source'], string> = {
+  default: 'default',
+  server: 'blue',
+  override: 'orange',
+};
+
+const FeatureFlagsAdmin: React.FC = () => {
+  const [, setVersion] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  // Re-render on every change, since rules and overrides are shown too
+  useEffect(() => featureFlagService.subscribe(() => setVersion((current) => current + 1)), []);
+
+  const flags = (Object.keys(featureFlagLabels) as FeatureFlag[]).map((flag) =>
+    featureFlagService.getState(flag)
+  );
+
+  const overrideCount = flags.filter((flag) => flag.override !== undefined).length;
+
+  const handleReload = async () => {
+    setLoading(true);
+    try {
+      if (await featureFlagService.load()) {
+        message.success('Feature flags reloaded');
+      } else {
+        message.warning('Feature flag service unavailable, keeping current rules');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const columns: ColumnsType<FeatureFlagState> = [
+    {
+      title: 'Feature',
+      dataIndex: 'flag',
+      key: 'flag',
+      render: (flag: FeatureFlag) => (
+        <Space direction="vertical" size={0}>
+          <Text strong>{featureFlagLabels[flag]}</Text>
+          <Text type="secondary" code>
+            {flag}
+          </Text>
+        </Space>
+      ),
+    },
+    {
+      title: 'Default',
+      dataIndex: 'defaultValue',
+      key: 'defaultValue',
+      render: (value: boolean) => (
+        <Tag color={value ? 'green' : 'default'}>{value ? 'On' : 'Off'}</Tag>
+      ),
+    },
+    {
+      title: 'Server Rule',
+      key: 'rule',
+      render: (_, { rule }) => {
+        if (!rule) return <Text type="secondary">-</Text>;
+        if (!rule.enabled) return <Tag>Off</Tag>;
+        return rule.rolloutPercentage !== undefined && rule.rolloutPercentage < 100 ? (
+          <Tag color="purple">{rule.rolloutPercentage}% rollout</Tag>
+        ) : (
+          <Tag color="green">On</Tag>
+        );
+      },
+    },
+    {
+      title: 'Source',
+      dataIndex: 'source',
+      key: 'source',
+      render: (source: FeatureFlagState['source']) => (
+        <Tag color={SOURCE_COLORS[source]}>{source}</Tag>
+      ),
+    },
+    {
+      title: 'Enabled',
+      key: 'enabled',
+      render: (_, { flag, enabled }) => (
+        <Switch
+          checked={enabled}
+          onChange={(checked) => featureFlagService.setOverride(flag, checked)}
+        />
+      ),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_, { flag, override }) => (
+        <Tooltip title="Remove the local override">
+          <Button
+            size="small"
+            icon={<UndoOutlined />}
+            disabled={override === undefined}
+            onClick={() => featureFlagService.setOverride(flag, null)}
+          >
+            Reset
+          </Button>
+        </Tooltip>
+      ),
+    },
+  ];
+
+  return (
+    <div style={{ padding: '24px' }}>
+      <Title level={2}>
+        <ControlOutlined /> Feature Flags
+      </Title>
+
+      <Card
+        title={
+          <Space>
+            <span>Tenant</span>
+            <Tag color="blue">{featureFlagService.getTenantId() ?? 'not loaded'}</Tag>
+          </Space>
+        }
+        extra={
+          <Space>
+            <Button icon={<ReloadOutlined />} loading={loading} onClick={handleReload}>
+              Reload
+            </Button>
+            <Button
+              danger
+              disabled={overrideCount === 0}
+              onClick={() => featureFlagService.clearOverrides()}
+            >
+              Clear Overrides ({overrideCount})
+            </Button>
+          </Space>
+        }
+      >
+        <Text type="secondary">
+          Toggles are stored in this browser only and take precedence over the server rules.
+        </Text>
+        <Table
+          style={{ marginTop: 16 }}
+          columns={columns}
+          dataSource={flags}
+          rowKey="flag"
+          pagination={false}
+          size="middle"
+        />
+      </Card>
+    </div>
+  );
+};
+
+export default FeatureFlagsAdmin;
@@ -24,54 +24,17 @@ import {
 import {
   ThunderboltOutlined,
 } from '@ant-design/icons';
-import { useAppSelector, useAppDispatch } from '../hooks/useRedux';
-import { useWebSocket } from '../hooks/useWebSocket';
-import { updatePerformanceMetrics, setError } from '../store/liveDataSlice';
+import { useAppSelector } from '../hooks/useRedux';
+import { useSharedLiveChannel } from '../hooks/useSharedLiveChannel';
 import type { RootState } from '../types/state';
 
 const LiveMetricsDashboard = () => {
-  const dispatch = useAppDispatch();
   const { performanceMetrics } = useAppSelector(
     (state: RootState) => state.liveData
   );
 
-  const { isConnected, isConnecting, error } = useWebSocket('metrics', {
-    onMessage: (event) => {
-      try {
-        const data = event.data as any;
-        if (data.tps !== undefined) {
-          dispatch(
-            updatePerformanceMetrics({
-              tps: data.tps,
-              avgTps: data.avgTps || data.tps,
-              peakTps: data.peakTps || data.tps,
-              totalTransactions: data.totalTransactions || 0,
-              activeTransactions: data.activeTransactions || 0,
-              pendingTransactions: data.pendingTransactions || 0,
-              avgLatencyMs: data.avgLatencyMs || 0,
-              p95LatencyMs: data.p95LatencyMs || 0,
-              p99LatencyMs: data.p99LatencyMs || 0,
-              memoryUsageMb: data.memoryUsageMb || 0,
-              cpuUsagePercent: data.cpuUsagePercent || 0,
-              timestamp: data.timestamp || new Date().toISOString(),
-            })
-          );
-        }
-      } catch (err: any) {
-        console.error('Error processing metrics message:', err);
-        dispatch(setError({ channel: 'metrics', error: err.message }));
-      }
-    },
-    onConnect: () => {
-      // Connection state is handled by useWebSocket hook
-    },
-    onDisconnect: () => {
-      // Disconnection state is handled by useWebSocket hook
-    },
-    onError: (err) => {
-      dispatch(setError({ channel: 'metrics', error: err.message }));
-    },
-  });
+  // Events arrive through the connection shared by all open tabs
+  const { isConnected, isConnecting, error } = useSharedLiveChannel('metrics');
 
   const metrics = performanceMetrics;
 
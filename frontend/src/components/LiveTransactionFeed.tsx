@@ -8,75 +8,20 @@
  * - Auto-scrolling to newest transactions
  */
 
-import { useMemo, useEffect } from 'react';
+import { useMemo } from 'react';
 import { Table, Tag, Space, Card, Statistic, Row, Col, Empty, Spin, Alert, Badge } from 'antd';
 import { CheckCircleOutlined, ClockCircleOutlined, CloseCircleOutlined } from '@ant-design/icons';
-import { useAppSelector, useAppDispatch } from '../hooks/useRedux';
-import { useWebSocket } from '../hooks/useWebSocket';
-import {
-  addTransaction,
-  updateTransaction,
-  setConnectionState,
-  setError,
-} from '../store/liveDataSlice';
+import { useAppSelector } from '../hooks/useRedux';
+import { useSharedLiveChannel } from '../hooks/useSharedLiveChannel';
 import type { RootState, Transaction as LiveTransaction } from '../types/state';
 
 const LiveTransactionFeed = () => {
-  const dispatch = useAppDispatch();
   const { transactions } = useAppSelector(
     (state: RootState) => state.liveData
   );
 
-  const { isConnected, isConnecting, error } = useWebSocket('transactions', {
-    onMessage: (event) => {
-      try {
-        const data = event.data as any;
-
-        // Handle transaction update
-        if (data.id) {
-          const transaction: LiveTransaction = {
-            id: data.id,
-            from: data.from || 'Unknown',
-            to: data.to || 'Unknown',
-            amount: data.amount || 0,
-            hash: data.hash || '',
-            blockHeight: data.blockHeight || 0,
-            timestamp: data.timestamp || new Date().toISOString(),
-            status: data.status || 'pending',
-            fee: data.fee || 0,
-            gasUsed: data.gasUsed,
-          };
-
-          // Update or add transaction
-          const existing = transactions.find((t) => t.id === transaction.id);
-          if (existing) {
-            dispatch(updateTransaction(transaction));
-          } else {
-            dispatch(addTransaction(transaction));
-          }
-        }
-      } catch (err: any) {
-        console.error('Error processing transaction message:', err);
-        dispatch(setError({ channel: 'transactions', error: err.message }));
-      }
-    },
-    onConnect: () => {
-      // Connection state is handled by useWebSocket hook
-    },
-    onDisconnect: () => {
-      // Disconnection state is handled by useWebSocket hook
-    },
-    onError: (err) => {
-      dispatch(setError({ channel: 'transactions', error: err.message }));
-    },
-  });
-
-  // Update connection state if WebSocket state changes
-  useEffect(() => {
-    if (isConnected) {
-      dispatch(setConnectionState({ channel: 'transactions', connected: true }));
-    }
-  }, [isConnected, dispatch]);
+  // Events arrive through the connection shared by all open tabs
+  const { isConnected, isConnecting, error } = useSharedLiveChannel('transactions');
 
   // Prepare table data
   const tableData = useMemo(() => {
@@ -0,0 +1,40 @@
+/**
+ * Permission Route Component
+ *
+ * Wraps routes that declare a RouteDefinition permission
+ * Shows a 403 page when the user's roles don't grant it
+ */
+
+import { Button, Result } from 'antd';
+import { useNavigate } from 'react-router-dom';
+import { usePermissions } from '../hooks/usePermission';
+import type { RequiredPermission } from '../types/user';
+
+interface PermissionRouteProps {
+  children: React.ReactNode;
+  permission?: RequiredPermission;
+}
+
+const PermissionRoute = ({ children, permission }: PermissionRouteProps) => {
+  const navigate = useNavigate();
+  const can = usePermissions();
+
+  if (permission && !can(permission)) {
+    return (
+      <Result
+        status="403"
+        title="Access denied"
+        subTitle={`Your role does not have ${permission.action} access to ${permission.module}.`}
+        extra={
+          <Button type="primary" onClick={() => navigate('/')}>
+            Back Home
+          </Button>
+        }
+      />
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default PermissionRoute;
@@ -4,7 +4,7 @@
  * Account management, API keys, SDK access, and project tracking
  */
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   Card,
@@ -18,9 +18,6 @@ import {
   Table,
   Space,
   Tag,
-  Modal,
-  Message,
-  Tooltip,
   Badge,
   Divider,
   Avatar,
@@ -35,34 +32,25 @@ import {
   LockOutlined,
   KeyOutlined,
   FileTextOutlined,
-  DeleteOutlined,
-  CopyOutlined,
-  PlusOutlined,
   DownloadOutlined,
   LogoutOutlined,
   MailOutlined,
   TeamOutlined,
   ApiOutlined,
-  SettingOutlined,
   SecurityScanOutlined,
   BankOutlined,
   CheckCircleOutlined,
   ClockCircleOutlined,
   ExperimentOutlined,
 } from '@ant-design/icons';
+import apiKeyApi, { type ApiKey } from '../services/apiKeyApi';
+import { handleApiError } from '../utils/apiErrorHandler';
+import ApiKeyManager from './developer/ApiKeyManager';
+import ApiAccessLogTable from './developer/ApiAccessLogTable';
 import './ProfilePage.css';
 
 const { Title, Paragraph, Text } = Typography;
 
-interface APIKey {
-  id: string;
-  name: string;
-  key: string;
-  created: string;
-  lastUsed?: string;
-  isActive: boolean;
-}
-
 interface Project {
   id: string;
   name: string;
@@ -73,41 +61,33 @@ interface Project {
   apiCalls: number;
 }
 
-interface AccessLog {
-  id: string;
-  timestamp: string;
-  action: string;
-  resource: string;
-  status: string;
-  ipAddress: string;
-}
-
 const ProfilePage: React.FC = () => {
   const navigate = useNavigate();
   const [form] = Form.useForm();
   const [activeTab, setActiveTab] = useState('overview');
-  const [modalVisible, setModalVisible] = useState(false);
-  const [newKeyName, setNewKeyName] = useState('');
 
-  // Sample data
-  const [apiKeys, setApiKeys] = useState<APIKey[]>([
-    {
-      id: 'key_1',
-      name: 'Production - Python App',
-      key: 'sk_live_1234567890abcdefgh...',
-      created: '2024-12-20',
-      lastUsed: '2024-12-29 14:32',
-      isActive: true,
-    },
-    {
-      id: 'key_2',
-      name: 'Development - Local Testing',
-      key: 'sk_dev_0987654321zyxwvut...',
-      created: '2024-12-15',
-      lastUsed: '2024-12-29 09:15',
-      isActive: true,
-    },
-  ]);
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [keysLoading, setKeysLoading] = useState<boolean>(false);
+  const [keysError, setKeysError] = useState<string | null>(null);
+
+  const fetchKeys = useCallback(async () => {
+    setKeysLoading(true);
+    try {
+      setApiKeys(await apiKeyApi.getKeys());
+      setKeysError(null);
+    } catch (err) {
+      setKeysError(handleApiError(err, { silent: true }).message);
+    } finally {
+      setKeysLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchKeys();
+  }, [fetchKeys]);
+
+  const usableKeys = apiKeys.filter((key) => key.status === 'active' || key.status === 'rotating');
+  const totalRequests = apiKeys.reduce((sum, key) => sum + key.totalRequests, 0);
 
   const projects: Project[] = [
     {
@@ -139,128 +119,6 @@ const ProfilePage: React.FC = () => {
     },
   ];
 
-  const accessLogs: AccessLog[] = [
-    {
-      id: '1',
-      timestamp: '2024-12-29 14:32:15',
-      action: 'API Request',
-      resource: '/transactions/create',
-      status: 'Success',
-      ipAddress: '192.168.1.100',
-    },
-    {
-      id: '2',
-      timestamp: '2024-12-29 14:15:42',
-      action: 'API Request',
-      resource: '/assets/list',
-      status: 'Success',
-      ipAddress: '192.168.1.100',
-    },
-    {
-      id: '3',
-      timestamp: '2024-12-29 09:15:30',
-      action: 'Key Created',
-      resource: 'API Key: Development - Local Testing',
-      status: 'Success',
-      ipAddress: '192.168.1.50',
-    },
-    {
-      id: '4',
-      timestamp: '2024-12-28 16:45:12',
-      action: 'Profile Updated',
-      resource: 'Account Settings',
-      status: 'Success',
-      ipAddress: '192.168.1.100',
-    },
-  ];
-
-  const handleCreateKey = () => {
-    if (newKeyName.trim()) {
-      const newKey: APIKey = {
-        id: `key_${Date.now()}`,
-        name: newKeyName,
-        key: `sk_live_${Math.random().toString(36).substring(2, 50)}...`,
-        created: new Date().toISOString().split('T')[0],
-        isActive: true,
-      };
-      setApiKeys([...apiKeys, newKey]);
-      setNewKeyName('');
-      setModalVisible(false);
-      Message.success('API Key created successfully');
-    }
-  };
-
-  const handleRevokeKey = (keyId: string) => {
-    Modal.confirm({
-      title: 'Revoke API Key?',
-      content: 'This action cannot be undone. All applications using this key will stop working.',
-      okText: 'Revoke',
-      okType: 'danger',
-      onOk() {
-        setApiKeys(apiKeys.filter((k) => k.id !== keyId));
-        Message.success('API Key revoked');
-      },
-    });
-  };
-
-  const apiKeysColumns = [
-    {
-      title: 'Key Name',
-      dataIndex: 'name',
-      key: 'name',
-      render: (text: string, record: APIKey) => (
-        <Space>
-          <KeyOutlined />
-          <Text strong>{text}</Text>
-          {record.isActive && <Badge status="success" text="Active" />}
-        </Space>
-      ),
-    },
-    {
-      title: 'Key Value',
-      dataIndex: 'key',
-      key: 'key',
-      render: (text: string) => (
-        <Tooltip title="Click to copy">
-          <div
-            style={{ cursor: 'pointer', fontFamily: 'monospace', fontSize: '12px' }}
-            onClick={() => {
-              navigator.clipboard.writeText(text);
-              Message.success('Copied to clipboard');
-            }}
-          >
-            {text} <CopyOutlined />
-          </div>
-        </Tooltip>
-      ),
-    },
-    {
-      title: 'Created',
-      dataIndex: 'created',
-      key: 'created',
-    },
-    {
-      title: 'Last Used',
-      dataIndex: 'lastUsed',
-      key: 'lastUsed',
-      render: (text: string | undefined) => text || 'Never',
-    },
-    {
-      title: 'Action',
-      key: 'action',
-      render: (_: unknown, record: APIKey) => (
-        <Button
-          danger
-          size="small"
-          icon={<DeleteOutlined />}
-          onClick={() => handleRevokeKey(record.id)}
-        >
-          Revoke
-        </Button>
-      ),
-    },
-  ];
-
   const projectsColumns = [
     {
       title: 'Project Name',
@@ -319,48 +177,6 @@ const ProfilePage: React.FC = () => {
     },
   ];
 
-  const accessLogsColumns = [
-    {
-      title: 'Timestamp',
-      dataIndex: 'timestamp',
-      key: 'timestamp',
-      width: 180,
-    },
-    {
-      title: 'Action',
-      dataIndex: 'action',
-      key: 'action',
-      render: (action: string) => {
-        const iconMap: { [key: string]: any } = {
-          'API Request': <ApiOutlined style={{ color: '#1890ff' }} />,
-          'Key Created': <PlusOutlined style={{ color: '#52c41a' }} />,
-          'Profile Updated': <SettingOutlined style={{ color: '#faad14' }} />,
-        };
-        return (
-          <Space>
-            {iconMap[action]}
-            <Text>{action}</Text>
-          </Space>
-        );
-      },
-    },
-    {
-      title: 'Resource',
-      dataIndex: 'resource',
-      key: 'resource',
-      render: (resource: string) => (
-        <Text type="secondary" style={{ fontSize: '12px' }}>
-          {resource}
-        </Text>
-      ),
-    },
-    {
-      title: 'IP Address',
-      dataIndex: 'ipAddress',
-      key: 'ipAddress',
-    },
-  ];
-
   return (
     <div className="profile-page">
       {/* Header */}
@@ -404,8 +220,8 @@ const ProfilePage: React.FC = () => {
         <Col xs={24} sm={12} md={6}>
           <Card>
             <Statistic
-              title="API Keys"
-              value={apiKeys.length}
+              title="Active API Keys"
+              value={usableKeys.length}
               prefix={<KeyOutlined />}
               valueStyle={{ color: '#52c41a' }}
             />
@@ -415,7 +231,7 @@ const ProfilePage: React.FC = () => {
           <Card>
             <Statistic
               title="Total API Calls"
-              value={26693}
+              value={totalRequests}
               prefix={<ApiOutlined />}
               valueStyle={{ color: '#faad14' }}
             />
@@ -515,43 +331,12 @@ const ProfilePage: React.FC = () => {
             ),
             children: (
               <Card title="API Keys & Tokens">
-                <Alert
-                  message="Keep your API keys secure. Never commit them to version control."
-                  type="warning"
-                  style={{ marginBottom: '16px' }}
-                  showIcon
+                <ApiKeyManager
+                  keys={apiKeys}
+                  loading={keysLoading}
+                  error={keysError}
+                  onChange={fetchKeys}
                 />
-                <Button
-                  type="primary"
-                  icon={<PlusOutlined />}
-                  onClick={() => setModalVisible(true)}
-                  style={{ marginBottom: '16px' }}
-                >
-                  Create New Key
-                </Button>
-                <Table
-                  columns={apiKeysColumns}
-                  dataSource={apiKeys}
-                  pagination={false}
-                  rowKey="id"
-                />
-
-                <Modal
-                  title="Create New API Key"
-                  visible={modalVisible}
-                  onOk={handleCreateKey}
-                  onCancel={() => setModalVisible(false)}
-                >
-                  <Form layout="vertical">
-                    <Form.Item label="Key Name">
-                      <Input
-                        placeholder="e.g., Production - Python App"
-                        value={newKeyName}
-                        onChange={(e) => setNewKeyName(e.target.value)}
-                      />
-                    </Form.Item>
-                  </Form>
-                </Modal>
               </Card>
             ),
           },
@@ -590,12 +375,7 @@ const ProfilePage: React.FC = () => {
             ),
             children: (
               <Card title="Access Activity">
-                <Table
-                  columns={accessLogsColumns}
-                  dataSource={accessLogs}
-                  pagination={{ pageSize: 10 }}
-                  rowKey="id"
-                />
+                <ApiAccessLogTable keys={apiKeys} />
               </Card>
             ),
           },
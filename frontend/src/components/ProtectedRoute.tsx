@@ -3,10 +3,14 @@
  *
  * Wraps routes that require authentication
  * Redirects unauthenticated users to login page
+ * A token left from an earlier visit is verified before deciding
  */
 
-import { Navigate } from 'react-router-dom';
-import { useAppSelector } from '../hooks/useRedux';
+import { useEffect } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAppDispatch, useAppSelector } from '../hooks/useRedux';
+import { verifySessionAsync } from '../store/authSlice';
+import { authService } from '../services/authService';
 import type { RootState } from '../types/state';
 import { Spin } from 'antd';
 
@@ -16,11 +20,23 @@ interface ProtectedRouteProps {
 }
 
 const ProtectedRoute = ({ children, requiredRoles }: ProtectedRouteProps) => {
-  const { isAuthenticated, isLoading, user } = useAppSelector((state: RootState) => state.auth);
-  const location = window.location.pathname;
+  const dispatch = useAppDispatch();
+  const { isAuthenticated, isLoading, user, lastCheckTime } = useAppSelector(
+    (state: RootState) => state.auth
+  );
+  const { pathname, search } = useLocation();
+  const location = `${pathname}${search}`;
+
+  // Stored token from a previous visit that hasn't been checked yet
+  const hasUnverifiedSession =
+    !isAuthenticated && lastCheckTime === null && authService.getToken() !== null;
+
+  useEffect(() => {
+    if (hasUnverifiedSession) dispatch(verifySessionAsync());
+  }, [hasUnverifiedSession, dispatch]);
 
   // Still loading - show spinner
-  if (isLoading) {
+  if (isLoading || hasUnverifiedSession) {
     return (
       <div
         style={{
@@ -35,7 +35,8 @@ import {
   CheckCircleOutlined,
 } from '@ant-design/icons';
 import type { ColumnsType } from 'antd/es/table';
-import { Role, Permission, mockRoles, DEFAULT_PERMISSIONS } from '../types/user';
+import { Role, Permission, DEFAULT_PERMISSIONS } from '../types/user';
+import { roleService } from '../services/roleService';
 
 const { Title, Text } = Typography;
 const { Panel } = Collapse;
@@ -50,20 +51,14 @@ const RoleManagement: React.FC = () => {
   const [permissions, setPermissions] = useState<Permission[]>(DEFAULT_PERMISSIONS);
   const [form] = Form.useForm();
 
-  // Load roles from localStorage or use mock data
+  // Load roles through roleService, which route and action permissions read too
   useEffect(() => {
-    const storedRoles = localStorage.getItem('aurigraph_roles');
-    if (storedRoles) {
-      setRoles(JSON.parse(storedRoles));
-    } else {
-      setRoles(mockRoles);
-      localStorage.setItem('aurigraph_roles', JSON.stringify(mockRoles));
-    }
+    setRoles(roleService.getRoles());
+    return roleService.subscribe(() => setRoles(roleService.getRoles()));
   }, []);
 
   const saveRoles = (newRoles: Role[]) => {
-    setRoles(newRoles);
-    localStorage.setItem('aurigraph_roles', JSON.stringify(newRoles));
+    roleService.saveRoles(newRoles);
   };
 
   const handleAddRole = () => {
@@ -34,7 +34,8 @@ import {
   CloseCircleOutlined,
 } from '@ant-design/icons';
 import type { ColumnsType } from 'antd/es/table';
-import { User, mockUsers, mockRoles } from '../types/user';
+import { User } from '../types/user';
+import { mockUsers, mockRoles } from '../mocks/fixtures/users';
 
 const { Option } = Select;
 const { Title } = Typography;
@@ -24,7 +24,7 @@ import {
   CalculatorOutlined,
   WalletOutlined,
 } from '@ant-design/icons';
-import axios from 'axios';
+import { apiClient } from '../../services/apiClient';
 
 interface UTXO {
   txid: string;
@@ -62,10 +62,9 @@ const BitcoinUTXOManager: React.FC = () => {
   const fetchUTXOs = async (address: string) => {
     setLoading(true);
     try {
-      const response = await axios.get(
-        `/api/v11/blockchain/utxo/address/${address}`,
-        { params: { chain: selectedChain } }
-      );
+      const response = await apiClient.get<UTXO[]>(`/blockchain/utxo/address/${address}`, {
+        params: { chain: selectedChain },
+      });
       setUtxos(response.data || []);
       message.success(`Found ${response.data?.length || 0} UTXOs`);
     } catch (error) {
@@ -80,16 +79,13 @@ const BitcoinUTXOManager: React.FC = () => {
   const estimateFee = async (values: any) => {
     setLoading(true);
     try {
-      const response = await axios.post(
-        `/api/v11/blockchain/utxo/estimate-fee`,
-        {
-          inputCount: values.inputCount,
-          outputCount: values.outputCount,
-          isSegWit: values.isSegWit,
-          feeRates: values.feeRates || ['low', 'medium', 'high'],
-          chain: selectedChain,
-        }
-      );
+      const response = await apiClient.post<FeeEstimate[]>(`/blockchain/utxo/estimate-fee`, {
+        inputCount: values.inputCount,
+        outputCount: values.outputCount,
+        isSegWit: values.isSegWit,
+        feeRates: values.feeRates || ['low', 'medium', 'high'],
+        chain: selectedChain,
+      });
       setFeeEstimates(response.data || []);
       message.success('Fee estimates calculated');
     } catch (error) {
@@ -102,8 +98,8 @@ const BitcoinUTXOManager: React.FC = () => {
   // Validate address format
   const validateAddress = async (address: string) => {
     try {
-      const response = await axios.get(
-        `/api/v11/blockchain/utxo/validate-address/${address}`,
+      const response = await apiClient.get<{ valid: boolean; addressType?: string }>(
+        `/blockchain/utxo/validate-address/${address}`,
         { params: { chain: selectedChain } }
       );
       if (response.data.valid) {
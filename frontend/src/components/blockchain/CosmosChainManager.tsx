@@ -25,7 +25,7 @@ import {
   SendOutlined,
   WalletOutlined,
 } from '@ant-design/icons';
-import axios from 'axios';
+import { apiClient } from '../../services/apiClient';
 
 interface AccountBalance {
   denom: string;
@@ -79,8 +79,8 @@ const CosmosChainManager: React.FC = () => {
   const fetchAccount = async (cosmosAddress: string) => {
     setLoading(true);
     try {
-      const response = await axios.get(
-        `/api/v11/blockchain/cosmos/account/${cosmosAddress}`,
+      const response = await apiClient.get<CosmosAccount>(
+        `/blockchain/cosmos/account/${cosmosAddress}`,
         { params: { chain: selectedChain } }
       );
       setAccount(response.data);
@@ -100,8 +100,8 @@ const CosmosChainManager: React.FC = () => {
     setTxStep(1);
     try {
       // Step 1: Validate transaction
-      const validateResp = await axios.post(
-        `/api/v11/blockchain/cosmos/validate-tx`,
+      const validateResp = await apiClient.post<{ valid: boolean; txJson?: string }>(
+        `/blockchain/cosmos/validate-tx`,
         {
           fromAddress: account?.address,
           toAddress: values.toAddress,
@@ -115,13 +115,10 @@ const CosmosChainManager: React.FC = () => {
         setTxStep(2);
 
         // Step 2: Submit transaction
-        const submitResp = await axios.post(
-          `/api/v11/blockchain/cosmos/submit-tx`,
-          {
-            tx: validateResp.data.txJson,
-            chain: selectedChain,
-          }
-        );
+        const submitResp = await apiClient.post<TransactionStatus>(`/blockchain/cosmos/submit-tx`, {
+          tx: validateResp.data.txJson,
+          chain: selectedChain,
+        });
 
         setTxStep(3);
         message.success(`Transaction submitted: ${submitResp.data.txHash}`);
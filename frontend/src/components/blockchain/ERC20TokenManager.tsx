@@ -26,7 +26,7 @@ import {
   DollarOutlined,
   FileTextOutlined,
 } from '@ant-design/icons';
-import axios from 'axios';
+import { apiClient } from '../../services/apiClient';
 
 interface ERC20Token {
   address: string;
@@ -61,8 +61,8 @@ const ERC20TokenManager: React.FC = () => {
   const fetchTokens = async () => {
     setLoading(true);
     try {
-      const response = await axios.get(
-        `/api/v11/blockchain/erc20/tokens?chain=${selectedChain}`
+      const response = await apiClient.get<ERC20Token[]>(
+        `/blockchain/erc20/tokens?chain=${selectedChain}`
       );
       setTokens(response.data || []);
       message.success('Tokens loaded successfully');
@@ -78,14 +78,11 @@ const ERC20TokenManager: React.FC = () => {
   const fetchTokenBalance = async (token: ERC20Token, wallet: string) => {
     setLoading(true);
     try {
-      const response = await axios.post(
-        `/api/v11/blockchain/erc20/balance`,
-        {
-          contractAddress: token.address,
-          walletAddress: wallet,
-          chainId: selectedChain,
-        }
-      );
+      const response = await apiClient.post<TokenBalance>(`/blockchain/erc20/balance`, {
+        contractAddress: token.address,
+        walletAddress: wallet,
+        chainId: selectedChain,
+      });
       message.success(`Balance: ${response.data.balance} ${token.symbol}`);
       setBalances([...balances, response.data]);
     } catch (error) {
@@ -99,8 +96,8 @@ const ERC20TokenManager: React.FC = () => {
   const queryTokenDetails = async (tokenAddress: string) => {
     setLoading(true);
     try {
-      const response = await axios.get(
-        `/api/v11/blockchain/erc20/${tokenAddress}?chain=${selectedChain}`
+      const response = await apiClient.get<ERC20Token>(
+        `/blockchain/erc20/${tokenAddress}?chain=${selectedChain}`
       );
       const token = response.data;
       setSelectedToken(token);
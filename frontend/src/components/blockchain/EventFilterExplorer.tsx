@@ -23,7 +23,7 @@ import {
   ReloadOutlined,
   EyeOutlined,
 } from '@ant-design/icons';
-import axios from 'axios';
+import { apiClient } from '../../services/apiClient';
 
 interface BlockchainEvent {
   transactionHash: string;
@@ -69,10 +69,7 @@ const EventFilterExplorer: React.FC = () => {
   const queryEvents = async (filters: EventFilter) => {
     setLoading(true);
     try {
-      const response = await axios.post(
-        `/api/v11/blockchain/events/query`,
-        filters
-      );
+      const response = await apiClient.post<BlockchainEvent[]>(`/blockchain/events/query`, filters);
       setEvents(response.data || []);
       updateEventStats(response.data || []);
       message.success(`Found ${response.data?.length || 0} events`);
@@ -22,7 +22,7 @@ import {
   WalletOutlined,
   LinkOutlined,
 } from '@ant-design/icons';
-import axios from 'axios';
+import { apiClient } from '../../services/apiClient';
 
 interface SolanaAccount {
   address: string;
@@ -58,8 +58,8 @@ const SolanaManager: React.FC = () => {
   const fetchAccount = async (publicKey: string) => {
     setLoading(true);
     try {
-      const response = await axios.get(
-        `/api/v11/blockchain/solana/account/${publicKey}`,
+      const response = await apiClient.get<SolanaAccount>(
+        `/blockchain/solana/account/${publicKey}`,
         { params: { cluster: selectedCluster } }
       );
       setAccount(response.data);
@@ -75,8 +75,8 @@ const SolanaManager: React.FC = () => {
   const submitTransaction = async (values: any) => {
     setLoading(true);
     try {
-      const response = await axios.post(
-        `/api/v11/blockchain/solana/send-transaction`,
+      const response = await apiClient.post<SolanaTransaction>(
+        `/blockchain/solana/send-transaction`,
         {
           fromPublicKey: account?.address,
           toPublicKey: values.toPublicKey,
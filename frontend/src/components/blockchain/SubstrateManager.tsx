@@ -26,7 +26,7 @@ import {
   FileTextOutlined,
   BgColorsOutlined,
 } from '@ant-design/icons';
-import axios from 'axios';
+import { apiClient } from '../../services/apiClient';
 
 interface Balance {
   free: string;
@@ -84,8 +84,8 @@ const SubstrateManager: React.FC = () => {
   const fetchAccount = async (substrateAddress: string) => {
     setLoading(true);
     try {
-      const response = await axios.get(
-        `/api/v11/blockchain/substrate/account/${substrateAddress}`,
+      const response = await apiClient.get<SubstrateAccount>(
+        `/blockchain/substrate/account/${substrateAddress}`,
         { params: { chain: selectedChain } }
       );
       setAccount(response.data);
@@ -103,17 +103,14 @@ const SubstrateManager: React.FC = () => {
   const submitExtrinsic = async (values: any) => {
     setLoading(true);
     try {
-      const response = await axios.post(
-        `/api/v11/blockchain/substrate/submit-tx`,
-        {
-          senderAddress: account?.address,
-          recipientAddress: values.recipientAddress,
-          amount: values.amount,
-          palletName: values.palletName,
-          functionName: values.functionName,
-          chain: selectedChain,
-        }
-      );
+      const response = await apiClient.post<ExtrinsicStatus>(`/blockchain/substrate/submit-tx`, {
+        senderAddress: account?.address,
+        recipientAddress: values.recipientAddress,
+        amount: values.amount,
+        palletName: values.palletName,
+        functionName: values.functionName,
+        chain: selectedChain,
+      });
 
       message.success(`Extrinsic submitted: ${response.data.hash}`);
       setExtrinsics([response.data, ...extrinsics]);
@@ -129,8 +126,8 @@ const SubstrateManager: React.FC = () => {
   const queryRuntimeMetadata = async () => {
     setLoading(true);
     try {
-      const response = await axios.get(
-        `/api/v11/blockchain/substrate/runtime-metadata`,
+      const response = await apiClient.get<RuntimeMetadata>(
+        `/blockchain/substrate/runtime-metadata`,
         { params: { chain: selectedChain } }
       );
       setRuntimeMetadata(response.data);
@@ -146,8 +143,8 @@ const SubstrateManager: React.FC = () => {
   // Validate SS58 address format
   const validateSS58Address = async (substrateAddress: string) => {
     try {
-      const response = await axios.get(
-        `/api/v11/blockchain/substrate/validate-address/${substrateAddress}`,
+      const response = await apiClient.get<{ valid: boolean; chainName?: string; prefix?: number }>(
+        `/blockchain/substrate/validate-address/${substrateAddress}`,
         { params: { chain: selectedChain } }
       );
       if (response.data.valid) {
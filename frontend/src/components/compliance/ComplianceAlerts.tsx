@@ -0,0 +1,526 @@
+/**
+ * Compliance Alerts
+ *
+ * Alert queue for compliance officers: filter by status, token and
+ * jurisdiction, track each alert against its severity's SLA, and work it
+ * through acknowledge, investigate and resolve in a drawer that shows the
+ * audit entries behind it and its activity log.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Descriptions,
+  Drawer,
+  Empty,
+  Input,
+  Select,
+  Space,
+  Table,
+  Tag,
+  Timeline,
+  Typography,
+  message,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import {
+  ExclamationOutlined,
+  InfoCircleOutlined,
+  ReloadOutlined,
+  WarningOutlined,
+} from '@ant-design/icons';
+import complianceApi, {
+  ALERT_STATUSES,
+  ALERT_TRANSITIONS,
+  alertSlaState,
+  type AlertActivity,
+  type AlertStatus,
+  type AuditTrailEntry,
+  type ComplianceAlert,
+  type TokenCompliance,
+} from '../../services/complianceApi';
+import { handleApiError } from '../../utils/apiErrorHandler';
+import { formatCountdown } from '../../utils/staking';
+
+const { Text } = Typography;
+
+/** Audit entries fetched per token when looking up an alert's links */
+const AUDIT_TRAIL_LIMIT = 500;
+
+const STATUS_LABELS: Record<AlertStatus, string> = {
+  new: 'New',
+  acknowledged: 'Acknowledged',
+  investigating: 'Investigating',
+  resolved: 'Resolved',
+  false_positive: 'False Positive',
+};
+
+const STATUS_COLORS: Record<AlertStatus, string> = {
+  new: 'red',
+  acknowledged: 'orange',
+  investigating: 'blue',
+  resolved: 'green',
+  false_positive: 'default',
+};
+
+/** Button label for moving an open alert into each status; closed alerts only reopen */
+const TRANSITION_LABELS: Record<AlertStatus, string> = {
+  new: 'Mark New',
+  acknowledged: 'Acknowledge',
+  investigating: 'Investigate',
+  resolved: 'Resolve',
+  false_positive: 'False Positive',
+};
+
+const ACTIVITY_COLORS: Record<AlertActivity['action'], string> = {
+  created: 'red',
+  status_changed: 'blue',
+  assigned: 'purple',
+  commented: 'gray',
+  linked: 'orange',
+};
+
+const severityIcon = (type: ComplianceAlert['type']) =>
+  type === 'critical' ? (
+    <ExclamationOutlined style={{ color: '#ff4d4f', fontSize: 16 }} />
+  ) : type === 'warning' ? (
+    <WarningOutlined style={{ color: '#faad14', fontSize: 16 }} />
+  ) : (
+    <InfoCircleOutlined style={{ color: '#1890ff', fontSize: 16 }} />
+  );
+
+/**
+ * Time left on the alert's SLA, or whether it was met once closed
+ */
+const SlaStatus: React.FC<{ alert: ComplianceAlert; now: number }> = ({ alert, now }) => {
+  const due = Date.parse(alert.slaDueAt);
+  switch (alertSlaState(alert, now)) {
+    case 'met':
+      return <Tag color="green">SLA met</Tag>;
+    case 'breached':
+      return <Tag color="red">SLA breached</Tag>;
+    case 'overdue':
+      return <Text type="danger">Overdue {formatCountdown(now - due) ?? ''}</Text>;
+    case 'due_soon':
+      return <Text type="warning">{formatCountdown(due - now)}</Text>;
+    default:
+      return <Text>{formatCountdown(due - now)}</Text>;
+  }
+};
+
+interface AlertDetailProps {
+  alert: ComplianceAlert;
+  assignees: string[];
+  now: number;
+  onUpdated: (alert: ComplianceAlert) => void;
+}
+
+const AlertDetail: React.FC<AlertDetailProps> = ({ alert, assignees, now, onUpdated }) => {
+  const [note, setNote] = useState<string>('');
+  const [comment, setComment] = useState<string>('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [auditEntries, setAuditEntries] = useState<AuditTrailEntry[]>([]);
+  const [auditLoading, setAuditLoading] = useState<boolean>(false);
+
+  const { tokenId, auditEntryIds } = alert;
+  const linkedIds = auditEntryIds.join(',');
+
+  useEffect(() => {
+    if (!tokenId || !linkedIds) {
+      setAuditEntries([]);
+      return undefined;
+    }
+    let cancelled = false;
+    setAuditLoading(true);
+    complianceApi
+      .getAuditTrailReport(tokenId, AUDIT_TRAIL_LIMIT)
+      .then((entries) => {
+        if (cancelled) return;
+        const linked = new Set(linkedIds.split(','));
+        setAuditEntries(entries.filter((entry) => linked.has(entry.id)));
+      })
+      .catch((err) => {
+        if (!cancelled) handleApiError(err, { customMessage: 'Failed to load the audit trail' });
+      })
+      .finally(() => {
+        if (!cancelled) setAuditLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenId, linkedIds]);
+
+  const run = async (action: string, update: () => Promise<ComplianceAlert>, done: string) => {
+    setBusy(action);
+    try {
+      onUpdated(await update());
+      message.success(done);
+      return true;
+    } catch (err) {
+      handleApiError(err, { customMessage: 'Failed to update the alert' });
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleTransition = async (status: AlertStatus) => {
+    const updated = await run(
+      status,
+      () => complianceApi.updateAlertStatus(alert.id, status, note.trim() || undefined),
+      `Alert marked ${STATUS_LABELS[status].toLowerCase()}`
+    );
+    if (updated) setNote('');
+  };
+
+  const handleComment = async () => {
+    const updated = await run(
+      'comment',
+      () => complianceApi.commentOnAlert(alert.id, comment.trim()),
+      'Comment added'
+    );
+    if (updated) setComment('');
+  };
+
+  const auditColumns: ColumnsType<AuditTrailEntry> = [
+    {
+      title: 'Entry',
+      dataIndex: 'id',
+      key: 'id',
+      render: (id: string) => <Text code>{id}</Text>,
+    },
+    {
+      title: 'Time',
+      dataIndex: 'timestamp',
+      key: 'timestamp',
+      render: (timestamp: string) => new Date(timestamp).toLocaleString(),
+    },
+    {
+      title: 'Amount',
+      dataIndex: 'amount',
+      key: 'amount',
+      align: 'right',
+      render: (amount: number) => amount.toLocaleString(),
+    },
+    {
+      title: 'Outcome',
+      dataIndex: 'allowed',
+      key: 'allowed',
+      render: (allowed: boolean, entry) =>
+        allowed ? (
+          <Tag color="green">Allowed</Tag>
+        ) : (
+          <Space direction="vertical" size={0}>
+            <Tag color="red">Rejected</Tag>
+            {entry.violations.map((violation) => (
+              <Text key={violation} type="danger" style={{ fontSize: 12 }}>
+                {violation}
+              </Text>
+            ))}
+          </Space>
+        ),
+    },
+  ];
+
+  return (
+    <Space direction="vertical" size="large" style={{ width: '100%' }}>
+      <Descriptions bordered size="small" column={2}>
+        <Descriptions.Item label="Severity">
+          <Space>
+            {severityIcon(alert.type)}
+            {alert.type.toUpperCase()}
+          </Space>
+        </Descriptions.Item>
+        <Descriptions.Item label="Status">
+          <Tag color={STATUS_COLORS[alert.status]}>{STATUS_LABELS[alert.status]}</Tag>
+        </Descriptions.Item>
+        <Descriptions.Item label="Token">{alert.tokenId ?? '—'}</Descriptions.Item>
+        <Descriptions.Item label="Jurisdiction">{alert.jurisdiction ?? '—'}</Descriptions.Item>
+        <Descriptions.Item label="Raised">
+          {new Date(alert.timestamp).toLocaleString()}
+        </Descriptions.Item>
+        <Descriptions.Item label="SLA">
+          <SlaStatus alert={alert} now={now} />
+        </Descriptions.Item>
+        <Descriptions.Item label="Assignee" span={2}>
+          <Select
+            allowClear
+            placeholder="Unassigned"
+            style={{ minWidth: 200 }}
+            value={alert.assignee}
+            loading={busy === 'assign'}
+            options={assignees.map((username) => ({ value: username, label: username }))}
+            onChange={(assignee?: string) =>
+              run(
+                'assign',
+                () => complianceApi.assignAlert(alert.id, assignee ?? null),
+                assignee ? `Assigned to ${assignee}` : 'Alert unassigned'
+              )
+            }
+          />
+        </Descriptions.Item>
+        <Descriptions.Item label="Details" span={2}>
+          {alert.message}
+        </Descriptions.Item>
+      </Descriptions>
+
+      <Space direction="vertical" style={{ width: '100%' }}>
+        <Text strong>Workflow</Text>
+        <Input
+          placeholder="Note for the activity log (optional)"
+          value={note}
+          onChange={(event) => setNote(event.target.value)}
+        />
+        <Space wrap>
+          {ALERT_TRANSITIONS[alert.status].map((status) => (
+            <Button
+              key={status}
+              type={status === 'resolved' ? 'primary' : 'default'}
+              loading={busy === status}
+              disabled={busy !== null && busy !== status}
+              onClick={() => handleTransition(status)}
+            >
+              {alert.resolved ? 'Reopen' : TRANSITION_LABELS[status]}
+            </Button>
+          ))}
+        </Space>
+      </Space>
+
+      <Space direction="vertical" style={{ width: '100%' }}>
+        <Text strong>Linked Audit Entries</Text>
+        {alert.auditEntryIds.length === 0 ? (
+          <Text type="secondary">No audit entries are linked to this alert</Text>
+        ) : (
+          <Table
+            columns={auditColumns}
+            dataSource={auditEntries}
+            rowKey="id"
+            loading={auditLoading}
+            pagination={false}
+            size="small"
+          />
+        )}
+      </Space>
+
+      <Space direction="vertical" style={{ width: '100%' }}>
+        <Text strong>Comment</Text>
+        <Input.TextArea
+          rows={2}
+          placeholder="Findings, next steps…"
+          value={comment}
+          onChange={(event) => setComment(event.target.value)}
+        />
+        <Button disabled={!comment.trim()} loading={busy === 'comment'} onClick={handleComment}>
+          Add Comment
+        </Button>
+      </Space>
+
+      <Space direction="vertical" style={{ width: '100%' }}>
+        <Text strong>Activity Log</Text>
+        <Timeline
+          items={alert.activity.map((entry) => ({
+            key: entry.id,
+            color: ACTIVITY_COLORS[entry.action],
+            children: (
+              <Space direction="vertical" size={0}>
+                <Text>
+                  <Text strong>{entry.actor}</Text> · {entry.detail}
+                </Text>
+                {entry.comment && <Text italic>“{entry.comment}”</Text>}
+                <Text type="secondary" style={{ fontSize: 12 }}>
+                  {new Date(entry.timestamp).toLocaleString()}
+                </Text>
+              </Space>
+            ),
+          }))}
+        />
+      </Space>
+    </Space>
+  );
+};
+
+interface ComplianceAlertsProps {
+  tokens: TokenCompliance[];
+  /** Bumped by the dashboard to reload the alerts */
+  refreshKey: number;
+  /** Called after an alert changes so the dashboard can update its counts */
+  onChanged?: () => void;
+}
+
+const ComplianceAlerts: React.FC<ComplianceAlertsProps> = ({ tokens, refreshKey, onChanged }) => {
+  const [alerts, setAlerts] = useState<ComplianceAlert[]>([]);
+  const [assignees, setAssignees] = useState<string[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<AlertStatus | undefined>();
+  const [tokenId, setTokenId] = useState<string | undefined>();
+  const [jurisdiction, setJurisdiction] = useState<string | undefined>();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [now, setNow] = useState<number>(Date.now());
+
+  const fetchAlerts = useCallback(async () => {
+    setLoading(true);
+    try {
+      setAlerts(await complianceApi.getAlerts({ status, tokenId, jurisdiction }));
+      setError(null);
+    } catch (err) {
+      setError(handleApiError(err, { silent: true }).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [status, tokenId, jurisdiction]);
+
+  useEffect(() => {
+    fetchAlerts();
+  }, [fetchAlerts, refreshKey]);
+
+  useEffect(() => {
+    complianceApi
+      .getAlertAssignees()
+      .then(setAssignees)
+      .catch(() => {
+        // Alerts can still be worked without assigning them
+      });
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleUpdated = (updated: ComplianceAlert) => {
+    setAlerts((current) => current.map((alert) => (alert.id === updated.id ? updated : alert)));
+    onChanged?.();
+  };
+
+  const selected = alerts.find((alert) => alert.id === selectedId) ?? null;
+  const jurisdictions = [...new Set(tokens.map((token) => token.jurisdiction))].sort();
+  const overdue = alerts.filter((alert) => alertSlaState(alert, now) === 'overdue').length;
+
+  const columns: ColumnsType<ComplianceAlert> = [
+    {
+      title: 'Alert',
+      key: 'title',
+      render: (_, alert) => (
+        <Space align="start">
+          {severityIcon(alert.type)}
+          <Space direction="vertical" size={0}>
+            <Text strong>{alert.title}</Text>
+            <Text type="secondary" style={{ fontSize: 12 }}>
+              {alert.message}
+            </Text>
+          </Space>
+        </Space>
+      ),
+    },
+    {
+      title: 'Token',
+      dataIndex: 'tokenId',
+      key: 'tokenId',
+      render: (id?: string) => (id ? <Tag color="blue">{id}</Tag> : '—'),
+    },
+    {
+      title: 'Jurisdiction',
+      dataIndex: 'jurisdiction',
+      key: 'jurisdiction',
+      render: (code?: string) => code ?? '—',
+    },
+    {
+      title: 'Status',
+      dataIndex: 'status',
+      key: 'status',
+      render: (alertStatus: AlertStatus) => (
+        <Tag color={STATUS_COLORS[alertStatus]}>{STATUS_LABELS[alertStatus]}</Tag>
+      ),
+    },
+    {
+      title: 'Assignee',
+      dataIndex: 'assignee',
+      key: 'assignee',
+      render: (assignee?: string) => assignee ?? <Text type="secondary">Unassigned</Text>,
+    },
+    {
+      title: 'SLA',
+      key: 'sla',
+      sorter: (a, b) => Date.parse(a.slaDueAt) - Date.parse(b.slaDueAt),
+      render: (_, alert) => <SlaStatus alert={alert} now={now} />,
+    },
+    {
+      title: 'Raised',
+      dataIndex: 'timestamp',
+      key: 'timestamp',
+      defaultSortOrder: 'descend',
+      sorter: (a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp),
+      render: (timestamp: string) => new Date(timestamp).toLocaleString(),
+    },
+  ];
+
+  return (
+    <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+      <Space wrap style={{ width: '100%', justifyContent: 'space-between' }}>
+        <Space wrap>
+          <Select
+            allowClear
+            placeholder="All statuses"
+            style={{ width: 170 }}
+            value={status}
+            onChange={setStatus}
+            options={ALERT_STATUSES.map((value) => ({ value, label: STATUS_LABELS[value] }))}
+          />
+          <Select
+            allowClear
+            showSearch
+            placeholder="All tokens"
+            style={{ width: 170 }}
+            value={tokenId}
+            onChange={setTokenId}
+            options={tokens.map((token) => ({ value: token.tokenId, label: token.tokenId }))}
+          />
+          <Select
+            allowClear
+            placeholder="All jurisdictions"
+            style={{ width: 170 }}
+            value={jurisdiction}
+            onChange={setJurisdiction}
+            options={jurisdictions.map((code) => ({ value: code, label: code }))}
+          />
+          <Button icon={<ReloadOutlined />} loading={loading} onClick={fetchAlerts}>
+            Refresh
+          </Button>
+        </Space>
+        {overdue > 0 && <Tag color="red">{overdue} past SLA</Tag>}
+      </Space>
+
+      {error && <Alert type="warning" showIcon message="Alerts unavailable" description={error} />}
+
+      <Table
+        columns={columns}
+        dataSource={alerts}
+        rowKey="id"
+        loading={loading}
+        size="small"
+        pagination={{ pageSize: 10 }}
+        locale={{ emptyText: <Empty description="No alerts match these filters" /> }}
+        onRow={(alert) => ({
+          onClick: () => setSelectedId(alert.id),
+          style: { cursor: 'pointer' },
+        })}
+      />
+
+      <Drawer
+        title={selected?.title}
+        width={720}
+        open={selected !== null}
+        onClose={() => setSelectedId(null)}
+        destroyOnClose
+      >
+        {selected && (
+          <AlertDetail alert={selected} assignees={assignees} now={now} onUpdated={handleUpdated} />
+        )}
+      </Drawer>
+    </Space>
+  );
+};
+
+export default ComplianceAlerts;
@@ -1,9 +1,11 @@
 /**
  * Compliance Dashboard Component
- * Real-time compliance monitoring and reporting
+ * Real-time ERC-3643 compliance monitoring, identity registry, country
+ * restrictions and per-token reporting
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Card,
   Row,
@@ -16,172 +18,126 @@ import {
   Alert,
   Divider,
   Progress,
-  Timeline,
-  Empty,
   Spin,
   Tabs,
-  List,
 } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
 import {
   CheckCircleOutlined,
   WarningOutlined,
   ExclamationOutlined,
   SafetyOutlined,
   FileTextOutlined,
-  DownloadOutlined,
   ReloadOutlined,
-  ArrowUpOutlined,
+  TeamOutlined,
+  SwapOutlined,
+  FileDoneOutlined,
 } from '@ant-design/icons';
+import complianceApi, {
+  type ComplianceAlert,
+  type ComplianceMetrics,
+  type ComplianceRisk,
+  type ComplianceSystemHealth,
+  type TokenCompliance,
+} from '../../services/complianceApi';
+import { handleApiError } from '../../utils/apiErrorHandler';
+import ComplianceAlerts from './ComplianceAlerts';
+import IdentityRegistry from './IdentityRegistry';
+import CountryRestrictions from './CountryRestrictions';
+import TokenComplianceReports from './TokenComplianceReports';
 
-interface ComplianceMetric {
+interface ComplianceKpi {
   name: string;
   value: number;
   target: number;
-  status: 'success' | 'warning' | 'error';
-}
-
-interface ComplianceAlert {
-  id: string;
-  type: 'critical' | 'warning' | 'info';
-  title: string;
-  description: string;
-  timestamp: string;
-  resolved: boolean;
-}
-
-interface ComplianceRecord {
-  id: string;
-  tokenId: string;
-  jurisdiction: string;
-  status: 'compliant' | 'non_compliant' | 'pending';
-  lastCheckDate: string;
-  nextCheckDate: string;
-  verifiedBy: string;
-  complianceRate: number;
 }
 
 interface ComplianceDashboardProps {
   refreshInterval?: number;
 }
 
-const ComplianceDashboard: React.FC<ComplianceDashboardProps> = ({
-  refreshInterval = 30000,
-}) => {
-  const [loading, setLoading] = useState(false);
-  const [metrics, setMetrics] = useState<ComplianceMetric[]>([]);
-  const [alerts, setAlerts] = useState<ComplianceAlert[]>([]);
-  const [records, setRecords] = useState<ComplianceRecord[]>([]);
-  const [selectedTab, setSelectedTab] = useState('metrics');
+const TOP_RISKS_LIMIT = 5;
 
-  // Mock data loading
-  useEffect(() => {
-    const loadComplianceData = async () => {
-      try {
-        setLoading(true);
+const STATUS_COLORS: Record<TokenCompliance['complianceStatus'], string> = {
+  compliant: 'green',
+  non_compliant: 'red',
+  pending: 'orange',
+};
 
-        // Mock metrics
-        setMetrics([
-          {
-            name: 'Identity Verification Rate',
-            value: 98,
-            target: 100,
-            status: 'success',
-          },
-          {
-            name: 'Transfer Approval Rate',
-            value: 96,
-            target: 95,
-            status: 'success',
-          },
-          {
-            name: 'Compliance Check Pass Rate',
-            value: 94,
-            target: 98,
-            status: 'warning',
-          },
-          {
-            name: 'OFAC Cache Hit Rate',
-            value: 87,
-            target: 90,
-            status: 'warning',
-          },
-        ]);
+const HEALTH_COLORS: Record<ComplianceSystemHealth['status'], string> = {
+  UP: 'green',
+  DEGRADED: 'orange',
+  DOWN: 'red',
+};
 
-        // Mock alerts
-        setAlerts([
-          {
-            id: '1',
-            type: 'warning',
-            title: 'Low Compliance Check Pass Rate',
-            description: 'Compliance check pass rate has dropped to 94%. Investigate potential issues.',
-            timestamp: new Date(Date.now() - 3600000).toISOString(),
-            resolved: false,
-          },
-          {
-            id: '2',
-            type: 'info',
-            title: 'OFAC Sanctions Update',
-            description: 'OFAC sanctions list has been updated with 5 new entries.',
-            timestamp: new Date(Date.now() - 7200000).toISOString(),
-            resolved: true,
-          },
-          {
-            id: '3',
-            type: 'critical',
-            title: 'High Rejection Rate Detected',
-            description: 'Transfer rejection rate has increased to 8% for token RWAT-001.',
-            timestamp: new Date(Date.now() - 10800000).toISOString(),
-            resolved: false,
-          },
-        ]);
+const percentOf = (part: number, total: number) => (total > 0 ? (part / total) * 100 : 100);
 
-        // Mock compliance records
-        setRecords([
-          {
-            id: '1',
-            tokenId: 'RWAT-001',
-            jurisdiction: 'US',
-            status: 'compliant',
-            lastCheckDate: new Date(Date.now() - 86400000).toISOString(),
-            nextCheckDate: new Date(Date.now() + 604800000).toISOString(),
-            verifiedBy: 'Compliance Officer',
-            complianceRate: 98,
-          },
-          {
-            id: '2',
-            tokenId: 'RWAT-002',
-            jurisdiction: 'EU',
-            status: 'compliant',
-            lastCheckDate: new Date(Date.now() - 172800000).toISOString(),
-            nextCheckDate: new Date(Date.now() + 432000000).toISOString(),
-            verifiedBy: 'External Auditor',
-            complianceRate: 100,
-          },
-          {
-            id: '3',
-            tokenId: 'RWAT-003',
-            jurisdiction: 'UK',
-            status: 'pending',
-            lastCheckDate: new Date(Date.now() - 259200000).toISOString(),
-            nextCheckDate: new Date(Date.now() + 86400000).toISOString(),
-            verifiedBy: 'Pending',
-            complianceRate: 85,
-          },
-        ]);
+const kpisFrom = (metrics: ComplianceMetrics): ComplianceKpi[] => [
+  {
+    name: 'Active Identity Rate',
+    value: percentOf(metrics.activeIdentities, metrics.totalIdentities),
+    target: 95,
+  },
+  { name: 'Transfer Approval Rate', value: metrics.approvalRate, target: 95 },
+  { name: 'Token Compliance Rate', value: metrics.complianceRate, target: 100 },
+];
 
-        setLoading(false);
-      } catch (error) {
-        console.error('Failed to load compliance data:', error);
-        setLoading(false);
-      }
-    };
+const ComplianceDashboard: React.FC<ComplianceDashboardProps> = ({ refreshInterval = 30000 }) => {
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [metrics, setMetrics] = useState<ComplianceMetrics | null>(null);
+  const [alerts, setAlerts] = useState<ComplianceAlert[]>([]);
+  const [risks, setRisks] = useState<ComplianceRisk[]>([]);
+  const [health, setHealth] = useState<ComplianceSystemHealth | null>(null);
+  const [tokens, setTokens] = useState<TokenCompliance[]>([]);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [selectedTab, setSelectedTab] = useState('metrics');
+  const [reportTokenId, setReportTokenId] = useState<string | null>(null);
 
+  const loadComplianceData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [dashboardMetrics, dashboardAlerts, topRisks, systemHealth, tokenCompliance] =
+        await Promise.all([
+          complianceApi.getDashboardMetrics(),
+          complianceApi.getAlerts(),
+          complianceApi.getTopRisks(TOP_RISKS_LIMIT),
+          complianceApi.getSystemHealth(),
+          complianceApi.listTokenCompliance(),
+        ]);
+      setMetrics(dashboardMetrics);
+      setAlerts(dashboardAlerts);
+      setRisks(topRisks);
+      setHealth(systemHealth);
+      setTokens(tokenCompliance);
+      setLastUpdated(new Date());
+      setError(null);
+    } catch (err) {
+      setError(handleApiError(err, { silent: true }).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
     loadComplianceData();
     const interval = setInterval(loadComplianceData, refreshInterval);
     return () => clearInterval(interval);
-  }, [refreshInterval]);
+  }, [loadComplianceData, refreshInterval]);
+
+  const handleRefresh = () => {
+    loadComplianceData();
+    setRefreshKey((key) => key + 1);
+  };
+
+  const openReport = (tokenId: string) => {
+    setReportTokenId(tokenId);
+    setSelectedTab('reports');
+  };
 
-  const metricsColumns = [
+  const metricsColumns: ColumnsType<ComplianceKpi> = [
     {
       title: 'Metric',
       dataIndex: 'name',
@@ -192,9 +148,14 @@ const ComplianceDashboard: React.FC<ComplianceDashboardProps> = ({
       title: 'Value',
       dataIndex: 'value',
       key: 'value',
-      render: (value: number) => (
+      render: (value: number, kpi) => (
         <span>
-          {value}% <ArrowUpOutlined style={{ color: 'green', marginLeft: 8 }} />
+          {value.toFixed(1)}%{' '}
+          {value >= kpi.target ? (
+            <CheckCircleOutlined style={{ color: '#52c41a', marginLeft: 8 }} />
+          ) : (
+            <WarningOutlined style={{ color: '#faad14', marginLeft: 8 }} />
+          )}
         </span>
       ),
     },
@@ -206,15 +167,53 @@ const ComplianceDashboard: React.FC<ComplianceDashboardProps> = ({
     },
     {
       title: 'Progress',
-      dataIndex: ['value', 'target'],
       key: 'progress',
-      render: (_: any, record: ComplianceMetric) => (
-        <Progress percent={record.value} size="small" status={record.status as any} />
+      render: (_, kpi) => (
+        <Progress
+          percent={Number(kpi.value.toFixed(1))}
+          size="small"
+          status={kpi.value >= kpi.target ? 'success' : 'normal'}
+          strokeColor={kpi.value >= kpi.target ? undefined : '#faad14'}
+        />
+      ),
+    },
+  ];
+
+  const riskColumns: ColumnsType<ComplianceRisk> = [
+    {
+      title: 'Token ID',
+      dataIndex: 'tokenId',
+      key: 'tokenId',
+      render: (tokenId: string) => <Tag color="blue">{tokenId}</Tag>,
+    },
+    {
+      title: 'Jurisdiction',
+      dataIndex: 'jurisdiction',
+      key: 'jurisdiction',
+    },
+    {
+      title: 'Risk Score',
+      dataIndex: 'riskScore',
+      key: 'riskScore',
+      render: (score: number) => (
+        <Progress
+          percent={score}
+          size="small"
+          format={() => score}
+          strokeColor={score >= 60 ? '#ff4d4f' : score >= 30 ? '#faad14' : '#52c41a'}
+        />
       ),
     },
+    {
+      title: 'Issues',
+      dataIndex: 'issues',
+      key: 'issues',
+      render: (issues: string[]) =>
+        issues.length > 0 ? issues.join('; ') : <span style={{ color: '#8c8c8c' }}>None</span>,
+    },
   ];
 
-  const recordsColumns = [
+  const recordsColumns: ColumnsType<TokenCompliance> = [
     {
       title: 'Token ID',
       dataIndex: 'tokenId',
@@ -228,22 +227,17 @@ const ComplianceDashboard: React.FC<ComplianceDashboardProps> = ({
     },
     {
       title: 'Status',
-      dataIndex: 'status',
-      key: 'status',
-      render: (status: string) => {
-        const colorMap = {
-          compliant: 'green',
-          non_compliant: 'red',
-          pending: 'orange',
-        };
-        return <Tag color={colorMap as any}>{status}</Tag>;
-      },
+      dataIndex: 'complianceStatus',
+      key: 'complianceStatus',
+      render: (status: TokenCompliance['complianceStatus']) => (
+        <Tag color={STATUS_COLORS[status]}>{status}</Tag>
+      ),
     },
     {
       title: 'Compliance Rate',
       dataIndex: 'complianceRate',
       key: 'complianceRate',
-      render: (rate: number) => <Progress percent={rate} size="small" />,
+      render: (rate: number) => <Progress percent={Number(rate.toFixed(1))} size="small" />,
     },
     {
       title: 'Last Check',
@@ -254,12 +248,18 @@ const ComplianceDashboard: React.FC<ComplianceDashboardProps> = ({
     {
       title: 'Action',
       key: 'action',
-      render: () => <Button type="link" size="small">Details</Button>,
+      render: (_, record) => (
+        <Button type="link" size="small" onClick={() => openReport(record.tokenId)}>
+          Report
+        </Button>
+      ),
     },
   ];
 
-  const activeAlerts = alerts.filter(a => !a.resolved);
-  const resolvedAlerts = alerts.filter(a => a.resolved);
+  const activeAlerts = alerts.filter((a) => !a.resolved);
+  const unhealthyComponents = Object.entries(health?.components ?? {}).filter(
+    ([, status]) => status !== 'UP'
+  );
 
   return (
     <div style={{ padding: '24px' }}>
@@ -272,22 +272,57 @@ const ComplianceDashboard: React.FC<ComplianceDashboardProps> = ({
         }
         extra={
           <Space>
-            <Button icon={<ReloadOutlined />} onClick={() => {}}>
+            <Button
+              icon={<SwapOutlined />}
+              onClick={() => navigate('/compliance/transfer-simulator')}
+            >
+              Transfer Simulator
+            </Button>
+            <Button icon={<FileDoneOutlined />} onClick={() => navigate('/compliance/reports')}>
+              Report Builder
+            </Button>
+            <Button icon={<ReloadOutlined />} onClick={handleRefresh} loading={loading}>
               Refresh
             </Button>
-            <Button icon={<DownloadOutlined />}>Export Report</Button>
           </Space>
         }
       >
         {/* System Status */}
-        <Alert
-          message="System Status: Operational"
-          description="All compliance checks are running normally. Last update: 2 minutes ago."
-          type="success"
-          showIcon
-          closable
-          style={{ marginBottom: 24 }}
-        />
+        {error ? (
+          <Alert
+            message="Compliance service unavailable"
+            description={error}
+            type="error"
+            showIcon
+            style={{ marginBottom: 24 }}
+          />
+        ) : (
+          health && (
+            <Alert
+              message={`System Status: ${health.status === 'UP' ? 'Operational' : health.status}`}
+              description={
+                <Space direction="vertical" size={4}>
+                  <span>
+                    {unhealthyComponents.length === 0
+                      ? 'All compliance checks are running normally.'
+                      : `Affected: ${unhealthyComponents.map(([name]) => name).join(', ')}.`}
+                    {lastUpdated && ` Last update: ${lastUpdated.toLocaleTimeString()}.`}
+                  </span>
+                  <Space wrap size={4}>
+                    {Object.entries(health.components).map(([name, status]) => (
+                      <Tag key={name} color={HEALTH_COLORS[status]}>
+                        {name}: {status}
+                      </Tag>
+                    ))}
+                  </Space>
+                </Space>
+              }
+              type={health.status === 'UP' ? 'success' : 'warning'}
+              showIcon
+              style={{ marginBottom: 24 }}
+            />
+          )
+        )}
 
         {/* Key Metrics */}
         <h3>Key Performance Indicators</h3>
@@ -295,9 +330,10 @@ const ComplianceDashboard: React.FC<ComplianceDashboardProps> = ({
           <Col xs={24} sm={12} lg={6}>
             <Card size="small">
               <Statistic
-                title="Active Tokens"
-                value={records.length}
-                prefix={<FileTextOutlined />}
+                title="Active Identities"
+                value={metrics?.activeIdentities ?? 0}
+                suffix={`/ ${metrics?.totalIdentities ?? 0}`}
+                prefix={<TeamOutlined />}
                 valueStyle={{ color: '#1890ff' }}
               />
             </Card>
@@ -306,8 +342,9 @@ const ComplianceDashboard: React.FC<ComplianceDashboardProps> = ({
             <Card size="small">
               <Statistic
                 title="Compliant Tokens"
-                value={records.filter(r => r.status === 'compliant').length}
-                suffix={`/ ${records.length}`}
+                value={tokens.filter((token) => token.complianceStatus === 'compliant').length}
+                suffix={`/ ${tokens.length}`}
+                prefix={<FileTextOutlined />}
                 valueStyle={{ color: '#52c41a' }}
               />
             </Card>
@@ -325,12 +362,9 @@ const ComplianceDashboard: React.FC<ComplianceDashboardProps> = ({
           <Col xs={24} sm={12} lg={6}>
             <Card size="small">
               <Statistic
-                title="Avg Compliance Rate"
-                value={
-                  records.length > 0
-                    ? Math.round(records.reduce((sum, r) => sum + r.complianceRate, 0) / records.length)
-                    : 0
-                }
+                title="Transfer Approval Rate"
+                value={metrics?.approvalRate ?? 0}
+                precision={1}
                 suffix="%"
                 valueStyle={{ color: '#faad14' }}
               />
@@ -349,14 +383,26 @@ const ComplianceDashboard: React.FC<ComplianceDashboardProps> = ({
               key: 'metrics',
               label: 'Compliance Metrics',
               children: (
-                <Spin spinning={loading}>
+                <Spin spinning={loading && !metrics}>
                   <Table
-                    dataSource={metrics}
+                    dataSource={metrics ? kpisFrom(metrics) : []}
                     columns={metricsColumns}
                     pagination={false}
                     rowKey="name"
                     size="small"
                   />
+                  <h4 style={{ marginTop: 24 }}>Top Risks</h4>
+                  <Table
+                    dataSource={risks}
+                    columns={riskColumns}
+                    pagination={false}
+                    rowKey="tokenId"
+                    size="small"
+                    onRow={(risk) => ({
+                      onClick: () => openReport(risk.tokenId),
+                      style: { cursor: 'pointer' },
+                    })}
+                  />
                 </Spin>
               ),
             },
@@ -364,12 +410,12 @@ const ComplianceDashboard: React.FC<ComplianceDashboardProps> = ({
               key: 'tokens',
               label: 'Token Compliance Status',
               children: (
-                <Spin spinning={loading}>
+                <Spin spinning={loading && tokens.length === 0}>
                   <Table
-                    dataSource={records}
+                    dataSource={tokens}
                     columns={recordsColumns}
                     pagination={{ pageSize: 10 }}
-                    rowKey="id"
+                    rowKey="tokenId"
                     size="small"
                   />
                 </Spin>
@@ -383,97 +429,32 @@ const ComplianceDashboard: React.FC<ComplianceDashboardProps> = ({
                 </span>
               ),
               children: (
-                <Spin spinning={loading}>
-                  {activeAlerts.length > 0 ? (
-                    <div>
-                      <h4>Active Alerts</h4>
-                      <List
-                        dataSource={activeAlerts}
-                        renderItem={(alert) => (
-                          <List.Item>
-                            <List.Item.Meta
-                              avatar={
-                                alert.type === 'critical' ? (
-                                  <ExclamationOutlined style={{ color: '#ff4d4f', fontSize: 18 }} />
-                                ) : (
-                                  <WarningOutlined style={{ color: '#faad14', fontSize: 18 }} />
-                                )
-                              }
-                              title={alert.title}
-                              description={
-                                <>
-                                  {alert.description}
-                                  <br />
-                                  <small>{new Date(alert.timestamp).toLocaleString()}</small>
-                                </>
-                              }
-                            />
-                            <Button type="link" size="small">Acknowledge</Button>
-                          </List.Item>
-                        )}
-                      />
-                    </div>
-                  ) : (
-                    <Alert message="No active alerts" type="success" showIcon />
-                  )}
-
-                  <Divider />
-
-                  <h4>Resolved Alerts</h4>
-                  {resolvedAlerts.length > 0 ? (
-                    <Timeline
-                      items={resolvedAlerts.map((alert) => ({
-                        children: (
-                          <p>
-                            <CheckCircleOutlined style={{ color: '#52c41a', marginRight: 8 }} />
-                            {alert.title}
-                            <br />
-                            <small>{new Date(alert.timestamp).toLocaleString()}</small>
-                          </p>
-                        ),
-                      }))}
-                    />
-                  ) : (
-                    <Empty description="No resolved alerts" />
-                  )}
-                </Spin>
+                <ComplianceAlerts
+                  tokens={tokens}
+                  refreshKey={refreshKey}
+                  onChanged={loadComplianceData}
+                />
               ),
             },
+            {
+              key: 'identities',
+              label: 'Identity Registry',
+              children: <IdentityRegistry refreshKey={refreshKey} onChanged={loadComplianceData} />,
+            },
+            {
+              key: 'countries',
+              label: 'Country Restrictions',
+              children: <CountryRestrictions refreshKey={refreshKey} />,
+            },
             {
               key: 'reports',
               label: 'Compliance Reports',
               children: (
-                <div>
-                  <List
-                    dataSource={[
-                      {
-                        title: 'Monthly Compliance Report',
-                        date: 'November 2025',
-                        status: 'Available',
-                      },
-                      {
-                        title: 'Quarterly KYC/AML Report',
-                        date: 'Q3 2025',
-                        status: 'Available',
-                      },
-                      {
-                        title: 'Transfer Compliance Analysis',
-                        date: 'October 2025',
-                        status: 'Available',
-                      },
-                    ]}
-                    renderItem={(report) => (
-                      <List.Item
-                        extra={<Button type="link" icon={<DownloadOutlined />}>Download</Button>}
-                      >
-                        <List.Item.Meta
-                          title={report.title}
-                          description={`Period: ${report.date}`}
-                        />
-                      </List.Item>
-                    )}
-                  />
-                </div>
+                <TokenComplianceReports
+                  tokens={tokens}
+                  tokenId={reportTokenId}
+                  onTokenChange={setReportTokenId}
+                />
               ),
             },
           ]}
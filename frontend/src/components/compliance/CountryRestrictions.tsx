@@ -0,0 +1,195 @@
+/**
+ * Country Restrictions
+ *
+ * Toggle which countries ERC-3643 transfers are blocked for. Each country
+ * shows how many registered identities the restriction affects.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, Input, Space, Switch, Table, Tag, Typography, message } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import complianceApi from '../../services/complianceApi';
+import { handleApiError } from '../../utils/apiErrorHandler';
+
+const { Text } = Typography;
+
+/** Countries always listed, whether or not anything is registered in them */
+const COUNTRY_NAMES: Record<string, string> = {
+  AE: 'United Arab Emirates',
+  CH: 'Switzerland',
+  CN: 'China',
+  CU: 'Cuba',
+  DE: 'Germany',
+  FR: 'France',
+  GB: 'United Kingdom',
+  IR: 'Iran',
+  JP: 'Japan',
+  KP: 'North Korea',
+  RU: 'Russia',
+  SG: 'Singapore',
+  SY: 'Syria',
+  US: 'United States',
+};
+
+interface CountryRow {
+  code: string;
+  restricted: boolean;
+  identities: number;
+}
+
+interface CountryRestrictionsProps {
+  /** Bumped by the dashboard to reload the restrictions */
+  refreshKey: number;
+}
+
+const CountryRestrictions: React.FC<CountryRestrictionsProps> = ({ refreshKey }) => {
+  const [restricted, setRestricted] = useState<string[]>([]);
+  const [identityCounts, setIdentityCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [search, setSearch] = useState<string>('');
+
+  const fetchRestrictions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [stats, identities] = await Promise.all([
+        complianceApi.getComplianceStats(),
+        complianceApi.listIdentities(),
+      ]);
+      setRestricted(stats.restrictedCountries);
+      setIdentityCounts(
+        identities.reduce<Record<string, number>>((counts, identity) => {
+          counts[identity.country] = (counts[identity.country] ?? 0) + 1;
+          return counts;
+        }, {})
+      );
+      setError(null);
+    } catch (err) {
+      setError(handleApiError(err, { silent: true }).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRestrictions();
+  }, [fetchRestrictions, refreshKey]);
+
+  const handleToggle = async (code: string, restrict: boolean) => {
+    setUpdating(code);
+    try {
+      if (restrict) {
+        await complianceApi.restrictCountry(code);
+      } else {
+        await complianceApi.unrestrictCountry(code);
+      }
+      setRestricted((current) =>
+        restrict ? [...current, code] : current.filter((country) => country !== code)
+      );
+      message.success(
+        restrict ? `Transfers involving ${code} are now blocked` : `${code} is no longer restricted`
+      );
+    } catch (err) {
+      handleApiError(err, { customMessage: `Failed to update the restriction for ${code}` });
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const query = search.trim().toUpperCase();
+  const rows: CountryRow[] = [
+    ...new Set([...Object.keys(COUNTRY_NAMES), ...Object.keys(identityCounts), ...restricted]),
+  ]
+    .filter(
+      (code) => !query || code.includes(query) || COUNTRY_NAMES[code]?.toUpperCase().includes(query)
+    )
+    .sort()
+    .map((code) => ({
+      code,
+      restricted: restricted.includes(code),
+      identities: identityCounts[code] ?? 0,
+    }));
+
+  const columns: ColumnsType<CountryRow> = [
+    {
+      title: 'Country',
+      dataIndex: 'code',
+      key: 'code',
+      render: (code: string) => (
+        <Space>
+          <Tag>{code}</Tag>
+          <Text>{COUNTRY_NAMES[code] ?? ''}</Text>
+        </Space>
+      ),
+    },
+    {
+      title: 'Registered Identities',
+      dataIndex: 'identities',
+      key: 'identities',
+      sorter: (a, b) => a.identities - b.identities,
+    },
+    {
+      title: 'Transfers',
+      dataIndex: 'restricted',
+      key: 'restricted',
+      filters: [
+        { text: 'Restricted', value: true },
+        { text: 'Allowed', value: false },
+      ],
+      onFilter: (value, row) => row.restricted === value,
+      render: (isRestricted: boolean, row) => (
+        <Space>
+          <Switch
+            checked={isRestricted}
+            loading={updating === row.code}
+            checkedChildren="Blocked"
+            unCheckedChildren="Allowed"
+            onChange={(checked) => handleToggle(row.code, checked)}
+          />
+          {isRestricted && row.identities > 0 && (
+            <Text type="warning">{row.identities} identities can no longer transfer</Text>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+      <Space style={{ width: '100%', justifyContent: 'space-between' }}>
+        <Text type="secondary">
+          {restricted.length} restricted {restricted.length === 1 ? 'country' : 'countries'}:{' '}
+          {restricted.length > 0 ? [...restricted].sort().join(', ') : 'none'}
+        </Text>
+        <Input.Search
+          allowClear
+          placeholder="Search country or code"
+          style={{ width: 240 }}
+          onChange={(event) => setSearch(event.target.value)}
+        />
+      </Space>
+
+      {error && (
+        <Alert
+          type="warning"
+          showIcon
+          message="Country restrictions unavailable"
+          description={error}
+        />
+      )}
+
+      <Table
+        columns={columns}
+        dataSource={rows}
+        rowKey="code"
+        loading={loading}
+        size="small"
+        pagination={false}
+        scroll={{ y: 480 }}
+      />
+    </Space>
+  );
+};
+
+export default CountryRestrictions;
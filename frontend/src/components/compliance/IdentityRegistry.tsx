@@ -0,0 +1,322 @@
+/**
+ * Identity Registry
+ *
+ * ERC-3643 investor identities: register new ones, check whether an identity
+ * is currently valid for transfers, and revoke it with a recorded reason.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Form,
+  Input,
+  Modal,
+  Select,
+  Space,
+  Table,
+  Tag,
+  Typography,
+  message,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { CheckCircleOutlined, PlusOutlined, StopOutlined } from '@ant-design/icons';
+import complianceApi, { KYC_LEVELS, type IdentityRecord } from '../../services/complianceApi';
+import { handleApiError } from '../../utils/apiErrorHandler';
+
+const { Text } = Typography;
+
+const STATUS_COLORS: Record<IdentityRecord['status'], string> = {
+  active: 'green',
+  revoked: 'red',
+  expired: 'orange',
+};
+
+interface RegisterIdentityValues {
+  address: string;
+  kycLevel: string;
+  country: string;
+  documentHash?: string;
+}
+
+interface IdentityRegistryProps {
+  /** Bumped by the dashboard to reload the registry */
+  refreshKey: number;
+  /** Called after an identity is registered or revoked */
+  onChanged: () => void;
+}
+
+const IdentityRegistry: React.FC<IdentityRegistryProps> = ({ refreshKey, onChanged }) => {
+  const [identities, setIdentities] = useState<IdentityRecord[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [registerOpen, setRegisterOpen] = useState<boolean>(false);
+  const [revoking, setRevoking] = useState<IdentityRecord | null>(null);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [validating, setValidating] = useState<string | null>(null);
+  const [validity, setValidity] = useState<Record<string, boolean>>({});
+  const [registerForm] = Form.useForm<RegisterIdentityValues>();
+  const [revokeForm] = Form.useForm<{ reason: string }>();
+
+  const fetchIdentities = useCallback(async () => {
+    setLoading(true);
+    try {
+      setIdentities(await complianceApi.listIdentities());
+      setError(null);
+    } catch (err) {
+      setError(handleApiError(err, { silent: true }).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchIdentities();
+  }, [fetchIdentities, refreshKey]);
+
+  const handleRegister = async (values: RegisterIdentityValues) => {
+    setSubmitting(true);
+    try {
+      await complianceApi.registerIdentity(
+        values.address.trim(),
+        values.kycLevel,
+        values.country.trim().toUpperCase(),
+        values.documentHash?.trim() ?? ''
+      );
+      message.success(`Identity registered for ${values.address.trim()}`);
+      setRegisterOpen(false);
+      registerForm.resetFields();
+      fetchIdentities();
+      onChanged();
+    } catch (err) {
+      handleApiError(err, { customMessage: 'Failed to register identity' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleValidate = async (identity: IdentityRecord) => {
+    setValidating(identity.address);
+    try {
+      const valid = await complianceApi.validateIdentity(identity.address);
+      setValidity((current) => ({ ...current, [identity.address]: valid }));
+    } catch (err) {
+      handleApiError(err, { customMessage: 'Failed to validate identity' });
+    } finally {
+      setValidating(null);
+    }
+  };
+
+  const handleRevoke = async ({ reason }: { reason: string }) => {
+    if (!revoking) return;
+    setSubmitting(true);
+    try {
+      await complianceApi.revokeIdentity(revoking.address, reason.trim());
+      message.success(`Identity ${revoking.address} revoked`);
+      setValidity((current) => ({ ...current, [revoking.address]: false }));
+      setRevoking(null);
+      fetchIdentities();
+      onChanged();
+    } catch (err) {
+      handleApiError(err, { customMessage: 'Failed to revoke identity' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const columns: ColumnsType<IdentityRecord> = [
+    {
+      title: 'Address',
+      dataIndex: 'address',
+      key: 'address',
+      ellipsis: true,
+      render: (address: string) => (
+        <Text code copyable={{ text: address }}>
+          {address}
+        </Text>
+      ),
+    },
+    {
+      title: 'KYC Level',
+      dataIndex: 'kycLevel',
+      key: 'kycLevel',
+      filters: KYC_LEVELS.map((level) => ({ text: level, value: level })),
+      onFilter: (value, identity) => identity.kycLevel === value,
+      render: (level: string) => <Tag color="blue">{level}</Tag>,
+    },
+    {
+      title: 'Country',
+      dataIndex: 'country',
+      key: 'country',
+      sorter: (a, b) => a.country.localeCompare(b.country),
+    },
+    {
+      title: 'Verified',
+      dataIndex: 'verified',
+      key: 'verified',
+      render: (verified: boolean) =>
+        verified ? <Tag color="green">Verified</Tag> : <Tag color="orange">Unverified</Tag>,
+    },
+    {
+      title: 'Status',
+      dataIndex: 'status',
+      key: 'status',
+      filters: (Object.keys(STATUS_COLORS) as IdentityRecord['status'][]).map((status) => ({
+        text: status,
+        value: status,
+      })),
+      onFilter: (value, identity) => identity.status === value,
+      render: (status: IdentityRecord['status']) => (
+        <Tag color={STATUS_COLORS[status]}>{status.toUpperCase()}</Tag>
+      ),
+    },
+    {
+      title: 'Registered',
+      dataIndex: 'registeredAt',
+      key: 'registeredAt',
+      sorter: (a, b) => Date.parse(a.registeredAt) - Date.parse(b.registeredAt),
+      render: (date: string) => new Date(date).toLocaleDateString(),
+    },
+    {
+      title: 'Expires',
+      dataIndex: 'expiryDate',
+      key: 'expiryDate',
+      render: (date?: string) => (date ? new Date(date).toLocaleDateString() : '—'),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_, identity) => {
+        const valid = validity[identity.address];
+        return (
+          <Space>
+            <Button
+              size="small"
+              icon={<CheckCircleOutlined />}
+              loading={validating === identity.address}
+              onClick={() => handleValidate(identity)}
+            >
+              Validate
+            </Button>
+            {valid !== undefined && (
+              <Tag color={valid ? 'green' : 'red'}>{valid ? 'VALID' : 'NOT VALID'}</Tag>
+            )}
+            <Button
+              size="small"
+              danger
+              icon={<StopOutlined />}
+              disabled={identity.status === 'revoked'}
+              onClick={() => {
+                revokeForm.resetFields();
+                setRevoking(identity);
+              }}
+            >
+              Revoke
+            </Button>
+          </Space>
+        );
+      },
+    },
+  ];
+
+  return (
+    <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+      <Space style={{ width: '100%', justifyContent: 'space-between' }}>
+        <Text type="secondary">
+          {identities.filter((identity) => identity.status === 'active').length} active of{' '}
+          {identities.length} registered identities
+        </Text>
+        <Button type="primary" icon={<PlusOutlined />} onClick={() => setRegisterOpen(true)}>
+          Register Identity
+        </Button>
+      </Space>
+
+      {error && (
+        <Alert
+          type="warning"
+          showIcon
+          message="Identity registry unavailable"
+          description={error}
+        />
+      )}
+
+      <Table
+        columns={columns}
+        dataSource={identities}
+        rowKey="address"
+        loading={loading}
+        size="small"
+        pagination={{ pageSize: 10 }}
+        scroll={{ x: 'max-content' }}
+      />
+
+      <Modal
+        title="Register Identity"
+        open={registerOpen}
+        onCancel={() => setRegisterOpen(false)}
+        onOk={() => registerForm.submit()}
+        confirmLoading={submitting}
+        okText="Register"
+        destroyOnClose
+      >
+        <Form
+          form={registerForm}
+          layout="vertical"
+          onFinish={handleRegister}
+          initialValues={{ kycLevel: 'BASIC' }}
+        >
+          <Form.Item
+            name="address"
+            label="Wallet Address"
+            rules={[{ required: true, whitespace: true, message: 'Enter the investor address' }]}
+          >
+            <Input placeholder="0x…" />
+          </Form.Item>
+          <Form.Item name="kycLevel" label="KYC Level" rules={[{ required: true }]}>
+            <Select options={KYC_LEVELS.map((level) => ({ value: level, label: level }))} />
+          </Form.Item>
+          <Form.Item
+            name="country"
+            label="Country"
+            rules={[
+              { required: true, message: 'Enter the country code' },
+              { pattern: /^[A-Za-z]{2}$/, message: 'Use a two-letter ISO country code' },
+            ]}
+          >
+            <Input placeholder="US" maxLength={2} style={{ textTransform: 'uppercase' }} />
+          </Form.Item>
+          <Form.Item name="documentHash" label="KYC Document Hash">
+            <Input placeholder="Hash of the verified KYC documents" />
+          </Form.Item>
+        </Form>
+      </Modal>
+
+      <Modal
+        title="Revoke Identity"
+        open={revoking !== null}
+        onCancel={() => setRevoking(null)}
+        onOk={() => revokeForm.submit()}
+        confirmLoading={submitting}
+        okText="Revoke"
+        okButtonProps={{ danger: true }}
+        destroyOnClose
+      >
+        <Text>
+          Transfers to and from <Text code>{revoking?.address}</Text> will be rejected once the
+          identity is revoked.
+        </Text>
+        <Form form={revokeForm} layout="vertical" onFinish={handleRevoke} style={{ marginTop: 16 }}>
+          <Form.Item
+            name="reason"
+            label="Reason"
+            rules={[{ required: true, whitespace: true, message: 'Record why it is revoked' }]}
+          >
+            <Input.TextArea rows={3} />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </Space>
+  );
+};
+
+export default IdentityRegistry;
@@ -0,0 +1,677 @@
+/**
+ * Regulatory Report Builder
+ *
+ * Choose a report type, tokens, jurisdiction and period, preview the report
+ * and export it as PDF, CSV, XBRL or xBRL-JSON. Definitions can be saved and
+ * put on a schedule; every generated report is kept in the history.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Alert,
+  Button,
+  Card,
+  Col,
+  DatePicker,
+  Empty,
+  Form,
+  Input,
+  InputNumber,
+  Popconfirm,
+  Radio,
+  Row,
+  Select,
+  Space,
+  Statistic,
+  Switch,
+  Table,
+  Tabs,
+  Tag,
+  Typography,
+  message,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import {
+  ArrowLeftOutlined,
+  DeleteOutlined,
+  DownloadOutlined,
+  EditOutlined,
+  EyeOutlined,
+  PlayCircleOutlined,
+  SaveOutlined,
+} from '@ant-design/icons';
+import dayjs, { type Dayjs } from 'dayjs';
+import { useAppDispatch, useAppSelector } from '../../hooks/useRedux';
+import {
+  selectGeneratedReports,
+  selectReportDefinitions,
+  selectReportHistory,
+} from '../../store/selectors';
+import {
+  cacheGeneratedReport,
+  clearReportHistory,
+  deleteReportDefinition,
+  recordGeneratedReport,
+  removeGeneratedReport,
+  saveReportDefinition,
+} from '../../store/reportBuilderSlice';
+import complianceApi, { type TokenCompliance } from '../../services/complianceApi';
+import {
+  REPORT_TYPES,
+  generateRegulatoryReport,
+  regenerateReport,
+} from '../../services/regulatoryReports';
+import { REPORT_FORMATS, exportReport } from '../../utils/reportExport';
+import { handleApiError } from '../../utils/apiErrorHandler';
+import { downloadBlob } from '../../utils/download';
+import type {
+  GeneratedReport,
+  RegulatoryReportType,
+  ReportDefinition,
+  ReportFormat,
+  ReportHistoryEntry,
+  ReportParameters,
+} from '../../types/state';
+
+const { RangePicker } = DatePicker;
+const { Text, Title } = Typography;
+
+const SCHEDULE_INTERVALS = [
+  { value: 15, label: 'Every 15 minutes' },
+  { value: 60, label: 'Hourly' },
+  { value: 360, label: 'Every 6 hours' },
+  { value: 1440, label: 'Daily' },
+];
+
+const PREVIEW_PAGE_SIZE = 10;
+
+type PeriodMode = 'all' | 'range' | 'rolling';
+
+interface ReportFormValues {
+  name: string;
+  type: RegulatoryReportType;
+  tokenIds: string[];
+  jurisdiction?: string;
+  periodMode: PeriodMode;
+  range?: [Dayjs, Dayjs];
+  lookbackDays?: number;
+  scheduled: boolean;
+  intervalMinutes: number;
+  format?: ReportFormat;
+}
+
+const DEFAULT_VALUES: ReportFormValues = {
+  name: '',
+  type: 'token_compliance',
+  tokenIds: [],
+  periodMode: 'rolling',
+  lookbackDays: 30,
+  scheduled: false,
+  intervalMinutes: 1440,
+};
+
+const toParameters = (values: ReportFormValues): ReportParameters => ({
+  type: values.type,
+  tokenIds: REPORT_TYPES[values.type].perToken ? values.tokenIds : [],
+  jurisdiction: REPORT_TYPES[values.type].perToken ? (values.jurisdiction ?? null) : null,
+  startDate:
+    values.periodMode === 'range' && values.range
+      ? values.range[0].startOf('day').toISOString()
+      : null,
+  endDate:
+    values.periodMode === 'range' && values.range
+      ? values.range[1].endOf('day').toISOString()
+      : null,
+  lookbackDays: values.periodMode === 'rolling' ? (values.lookbackDays ?? null) : null,
+});
+
+const toFormValues = (definition: ReportDefinition): ReportFormValues => ({
+  name: definition.name,
+  type: definition.type,
+  tokenIds: definition.tokenIds,
+  jurisdiction: definition.jurisdiction ?? undefined,
+  periodMode: definition.lookbackDays
+    ? 'rolling'
+    : definition.startDate && definition.endDate
+      ? 'range'
+      : 'all',
+  range:
+    definition.startDate && definition.endDate
+      ? [dayjs(definition.startDate), dayjs(definition.endDate)]
+      : undefined,
+  lookbackDays: definition.lookbackDays ?? undefined,
+  scheduled: definition.schedule !== null,
+  intervalMinutes: definition.schedule?.intervalMinutes ?? DEFAULT_VALUES.intervalMinutes,
+  format: definition.schedule?.format ?? undefined,
+});
+
+const describeScope = (parameters: ReportParameters) => {
+  if (!REPORT_TYPES[parameters.type].perToken) return 'All identities';
+  const tokens = parameters.tokenIds.length > 0 ? parameters.tokenIds.join(', ') : 'All tokens';
+  return parameters.jurisdiction ? `${tokens} · ${parameters.jurisdiction}` : tokens;
+};
+
+const describePeriod = (parameters: ReportParameters) => {
+  if (parameters.lookbackDays) return `Last ${parameters.lookbackDays} days`;
+  if (parameters.startDate && parameters.endDate) {
+    return `${dayjs(parameters.startDate).format('YYYY-MM-DD')} – ${dayjs(parameters.endDate).format('YYYY-MM-DD')}`;
+  }
+  return 'All time';
+};
+
+const RegulatoryReportBuilder: React.FC = () => {
+  const navigate = useNavigate();
+  const dispatch = useAppDispatch();
+  const definitions = useAppSelector(selectReportDefinitions);
+  const history = useAppSelector(selectReportHistory);
+  const reports = useAppSelector(selectGeneratedReports);
+  const [form] = Form.useForm<ReportFormValues>();
+  const [tokens, setTokens] = useState<TokenCompliance[]>([]);
+  const [tokensError, setTokensError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<GeneratedReport | null>(null);
+  const [generating, setGenerating] = useState<boolean>(false);
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const [loadingReportId, setLoadingReportId] = useState<string | null>(null);
+
+  const type = Form.useWatch('type', form) ?? DEFAULT_VALUES.type;
+  const periodMode = Form.useWatch('periodMode', form) ?? DEFAULT_VALUES.periodMode;
+  const scheduled = Form.useWatch('scheduled', form) ?? false;
+  const perToken = REPORT_TYPES[type].perToken;
+
+  useEffect(() => {
+    complianceApi
+      .listTokenCompliance()
+      .then(setTokens)
+      .catch((err) => setTokensError(handleApiError(err, { silent: true }).message));
+  }, []);
+
+  const jurisdictions = [...new Set(tokens.map((token) => token.jurisdiction))].sort();
+
+  const reportTitle = (values: ReportFormValues) =>
+    values.name.trim() || REPORT_TYPES[values.type].label;
+
+  const handleGenerate = async (values: ReportFormValues) => {
+    setGenerating(true);
+    try {
+      const report = await generateRegulatoryReport(toParameters(values), {
+        title: reportTitle(values),
+      });
+      dispatch(recordGeneratedReport(report));
+      setPreview(report);
+    } catch (err) {
+      handleApiError(err, { customMessage: 'Failed to generate the report' });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleSave = async () => {
+    let values: ReportFormValues;
+    try {
+      values = await form.validateFields();
+    } catch {
+      // The form shows which fields need fixing
+      return;
+    }
+    const existing = definitions.find((definition) => definition.id === editingId);
+    const definition: ReportDefinition = {
+      ...toParameters(values),
+      id: existing?.id ?? `report-definition-${Date.now().toString(36)}`,
+      name: reportTitle(values),
+      schedule: values.scheduled
+        ? { intervalMinutes: values.intervalMinutes, format: values.format ?? null }
+        : null,
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+      lastRunAt: existing?.lastRunAt ?? null,
+    };
+    dispatch(saveReportDefinition(definition));
+    setEditingId(definition.id);
+    message.success(existing ? `Updated "${definition.name}"` : `Saved "${definition.name}"`);
+  };
+
+  const handleEdit = (definition: ReportDefinition) => {
+    setEditingId(definition.id);
+    form.setFieldsValue(toFormValues(definition));
+  };
+
+  const handleNew = () => {
+    setEditingId(null);
+    form.resetFields();
+  };
+
+  const handleRunDefinition = async (definition: ReportDefinition) => {
+    setRunningId(definition.id);
+    try {
+      const report = await generateRegulatoryReport(definition, {
+        title: definition.name,
+        definitionId: definition.id,
+      });
+      dispatch(recordGeneratedReport(report));
+      setPreview(report);
+    } catch (err) {
+      handleApiError(err, { customMessage: `Failed to run "${definition.name}"` });
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  // Rows are only kept in memory, so reports from an earlier visit are regenerated first
+  const loadReport = async (entry: ReportHistoryEntry): Promise<GeneratedReport | null> => {
+    const cached = reports[entry.id];
+    if (cached) return cached;
+    setLoadingReportId(entry.id);
+    try {
+      const report = await regenerateReport(entry);
+      dispatch(cacheGeneratedReport(report));
+      return report;
+    } catch (err) {
+      handleApiError(err, { customMessage: `Failed to regenerate "${entry.title}"` });
+      return null;
+    } finally {
+      setLoadingReportId(null);
+    }
+  };
+
+  const handlePreview = async (entry: ReportHistoryEntry) => {
+    const report = await loadReport(entry);
+    if (report) setPreview(report);
+  };
+
+  const handleExport = async (
+    entry: GeneratedReport | ReportHistoryEntry,
+    format: ReportFormat
+  ) => {
+    const report = 'rows' in entry ? entry : await loadReport(entry);
+    if (!report) return;
+    const { blob, fileName } = exportReport(report, format);
+    downloadBlob(blob, fileName);
+  };
+
+  const exportButtons = (report: GeneratedReport | ReportHistoryEntry, size?: 'small') => (
+    <Space wrap size={4}>
+      {(Object.keys(REPORT_FORMATS) as ReportFormat[]).map((format) => (
+        <Button
+          key={format}
+          size={size}
+          icon={<DownloadOutlined />}
+          onClick={() => handleExport(report, format)}
+        >
+          {REPORT_FORMATS[format].label}
+        </Button>
+      ))}
+    </Space>
+  );
+
+  const definitionColumns: ColumnsType<ReportDefinition> = [
+    {
+      title: 'Name',
+      dataIndex: 'name',
+      key: 'name',
+      render: (name: string, definition) => (
+        <Space direction="vertical" size={0}>
+          <Text strong>{name}</Text>
+          <Text type="secondary" style={{ fontSize: 12 }}>
+            {REPORT_TYPES[definition.type].label}
+          </Text>
+        </Space>
+      ),
+    },
+    {
+      title: 'Scope',
+      key: 'scope',
+      render: (_, definition) => describeScope(definition),
+    },
+    {
+      title: 'Period',
+      key: 'period',
+      render: (_, definition) => describePeriod(definition),
+    },
+    {
+      title: 'Schedule',
+      key: 'schedule',
+      render: (_, definition) =>
+        definition.schedule ? (
+          <Space direction="vertical" size={0}>
+            <Tag color="blue">
+              {SCHEDULE_INTERVALS.find(
+                (interval) => interval.value === definition.schedule?.intervalMinutes
+              )?.label ?? `Every ${definition.schedule.intervalMinutes} minutes`}
+            </Tag>
+            {definition.schedule.format && (
+              <Text type="secondary" style={{ fontSize: 12 }}>
+                Downloads {REPORT_FORMATS[definition.schedule.format].label}
+              </Text>
+            )}
+          </Space>
+        ) : (
+          <Text type="secondary">On demand</Text>
+        ),
+    },
+    {
+      title: 'Last Run',
+      dataIndex: 'lastRunAt',
+      key: 'lastRunAt',
+      render: (lastRunAt: string | null) =>
+        lastRunAt ? new Date(lastRunAt).toLocaleString() : <Text type="secondary">Never</Text>,
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_, definition) => (
+        <Space>
+          <Button
+            size="small"
+            icon={<PlayCircleOutlined />}
+            loading={runningId === definition.id}
+            onClick={() => handleRunDefinition(definition)}
+          >
+            Run
+          </Button>
+          <Button size="small" icon={<EditOutlined />} onClick={() => handleEdit(definition)} />
+          <Popconfirm
+            title={`Delete "${definition.name}"?`}
+            description="Reports already generated stay in the history."
+            onConfirm={() => {
+              dispatch(deleteReportDefinition(definition.id));
+              if (editingId === definition.id) setEditingId(null);
+            }}
+          >
+            <Button size="small" danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  const historyColumns: ColumnsType<ReportHistoryEntry> = [
+    {
+      title: 'Report',
+      dataIndex: 'title',
+      key: 'title',
+      render: (title: string, report) => (
+        <Space direction="vertical" size={0}>
+          <Text strong>{title}</Text>
+          <Text type="secondary" style={{ fontSize: 12 }}>
+            {REPORT_TYPES[report.parameters.type].label} · {describeScope(report.parameters)}
+          </Text>
+        </Space>
+      ),
+    },
+    {
+      title: 'Generated',
+      dataIndex: 'generatedAt',
+      key: 'generatedAt',
+      render: (generatedAt: string) => new Date(generatedAt).toLocaleString(),
+    },
+    {
+      title: 'Trigger',
+      dataIndex: 'trigger',
+      key: 'trigger',
+      render: (trigger: ReportHistoryEntry['trigger']) => (
+        <Tag color={trigger === 'scheduled' ? 'purple' : 'default'}>{trigger}</Tag>
+      ),
+    },
+    {
+      title: 'Rows',
+      dataIndex: 'rowCount',
+      key: 'rowCount',
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_, report) => (
+        <Space wrap>
+          <Button
+            size="small"
+            icon={<EyeOutlined />}
+            loading={loadingReportId === report.id}
+            onClick={() => handlePreview(report)}
+          >
+            Preview
+          </Button>
+          {exportButtons(report, 'small')}
+          <Button
+            size="small"
+            danger
+            icon={<DeleteOutlined />}
+            onClick={() => dispatch(removeGeneratedReport(report.id))}
+          />
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <div style={{ padding: '24px' }}>
+      <Space align="center" style={{ marginBottom: 16 }}>
+        <Button icon={<ArrowLeftOutlined />} onClick={() => navigate('/compliance')} />
+        <Title level={2} style={{ margin: 0 }}>
+          Regulatory Report Builder
+        </Title>
+      </Space>
+
+      {tokensError && (
+        <Alert
+          type="warning"
+          showIcon
+          message="Tokens could not be loaded"
+          description={tokensError}
+          style={{ marginBottom: 16 }}
+        />
+      )}
+
+      <Row gutter={[16, 16]}>
+        <Col xs={24} xl={9}>
+          <Card
+            title={editingId ? 'Edit Report Definition' : 'New Report'}
+            extra={
+              editingId && (
+                <Button type="link" onClick={handleNew}>
+                  New Report
+                </Button>
+              )
+            }
+          >
+            <Form
+              form={form}
+              layout="vertical"
+              initialValues={DEFAULT_VALUES}
+              onFinish={handleGenerate}
+            >
+              <Form.Item name="name" label="Name">
+                <Input placeholder={REPORT_TYPES[type].label} />
+              </Form.Item>
+              <Form.Item name="type" label="Report Type" extra={REPORT_TYPES[type].description}>
+                <Select
+                  options={(Object.keys(REPORT_TYPES) as RegulatoryReportType[]).map((value) => ({
+                    value,
+                    label: REPORT_TYPES[value].label,
+                  }))}
+                />
+              </Form.Item>
+              <Form.Item name="tokenIds" label="Tokens">
+                <Select
+                  mode="multiple"
+                  allowClear
+                  disabled={!perToken}
+                  placeholder={perToken ? 'All tokens' : 'Not applicable'}
+                  options={tokens.map((token) => ({
+                    value: token.tokenId,
+                    label: `${token.tokenId} · ${token.jurisdiction}`,
+                  }))}
+                />
+              </Form.Item>
+              <Form.Item name="jurisdiction" label="Jurisdiction">
+                <Select
+                  allowClear
+                  disabled={!perToken}
+                  placeholder={perToken ? 'All jurisdictions' : 'Not applicable'}
+                  options={jurisdictions.map((code) => ({ value: code, label: code }))}
+                />
+              </Form.Item>
+              <Form.Item name="periodMode" label="Period">
+                <Radio.Group
+                  options={[
+                    { value: 'rolling', label: 'Last N days' },
+                    { value: 'range', label: 'Fixed dates' },
+                    { value: 'all', label: 'All time' },
+                  ]}
+                />
+              </Form.Item>
+              {periodMode === 'rolling' && (
+                <Form.Item
+                  name="lookbackDays"
+                  rules={[{ required: true, message: 'Enter the number of days' }]}
+                >
+                  <InputNumber min={1} max={3650} addonAfter="days" style={{ width: '100%' }} />
+                </Form.Item>
+              )}
+              {periodMode === 'range' && (
+                <Form.Item name="range" rules={[{ required: true, message: 'Choose the dates' }]}>
+                  <RangePicker style={{ width: '100%' }} />
+                </Form.Item>
+              )}
+              <Form.Item
+                name="scheduled"
+                label="Run on a schedule"
+                valuePropName="checked"
+                extra="Scheduled reports run while the portal is open in this browser"
+              >
+                <Switch />
+              </Form.Item>
+              {scheduled && (
+                <Row gutter={8}>
+                  <Col span={12}>
+                    <Form.Item name="intervalMinutes" label="Interval">
+                      <Select options={SCHEDULE_INTERVALS} />
+                    </Form.Item>
+                  </Col>
+                  <Col span={12}>
+                    <Form.Item name="format" label="Download as">
+                      <Select
+                        allowClear
+                        placeholder="History only"
+                        options={(Object.keys(REPORT_FORMATS) as ReportFormat[]).map((format) => ({
+                          value: format,
+                          label: REPORT_FORMATS[format].label,
+                        }))}
+                      />
+                    </Form.Item>
+                  </Col>
+                </Row>
+              )}
+              <Space>
+                <Button
+                  type="primary"
+                  icon={<EyeOutlined />}
+                  htmlType="submit"
+                  loading={generating}
+                >
+                  Generate Preview
+                </Button>
+                <Button icon={<SaveOutlined />} onClick={handleSave}>
+                  {editingId ? 'Update Definition' : 'Save Definition'}
+                </Button>
+              </Space>
+            </Form>
+          </Card>
+        </Col>
+
+        <Col xs={24} xl={15}>
+          <Card
+            title={preview ? preview.title : 'Preview'}
+            extra={preview && exportButtons(preview)}
+            style={{ height: '100%' }}
+          >
+            {preview ? (
+              <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+                <Text type="secondary">
+                  {REPORT_TYPES[preview.parameters.type].label} ·{' '}
+                  {describeScope(preview.parameters)} · {describePeriod(preview.parameters)} ·
+                  generated {new Date(preview.generatedAt).toLocaleString()}
+                </Text>
+                <Row gutter={[16, 16]}>
+                  {preview.summary.map((item) => (
+                    <Col key={item.label} xs={12} md={6}>
+                      <Statistic title={item.label} value={item.value} />
+                    </Col>
+                  ))}
+                </Row>
+                <Table
+                  columns={preview.columns.map((column) => ({
+                    title: column.title,
+                    dataIndex: column.key,
+                    key: column.key,
+                    align: column.numeric ? ('right' as const) : undefined,
+                    ellipsis: !column.numeric,
+                    render: (value?: string | number) =>
+                      typeof value === 'number' ? value.toLocaleString() : value,
+                  }))}
+                  dataSource={preview.rows}
+                  rowKey={(row) => String(row[preview.entityColumn])}
+                  size="small"
+                  pagination={{ pageSize: PREVIEW_PAGE_SIZE }}
+                  scroll={{ x: 'max-content' }}
+                />
+              </Space>
+            ) : (
+              <Empty description="Generate a report to preview it here" />
+            )}
+          </Card>
+        </Col>
+
+        <Col span={24}>
+          <Card>
+            <Tabs
+              items={[
+                {
+                  key: 'definitions',
+                  label: `Saved Reports (${definitions.length})`,
+                  children: (
+                    <Table
+                      columns={definitionColumns}
+                      dataSource={definitions}
+                      rowKey="id"
+                      size="small"
+                      pagination={false}
+                      locale={{ emptyText: 'No saved report definitions' }}
+                    />
+                  ),
+                },
+                {
+                  key: 'history',
+                  label: `History (${history.length})`,
+                  children: (
+                    <Space direction="vertical" style={{ width: '100%' }}>
+                      <Popconfirm
+                        title="Clear the report history?"
+                        disabled={history.length === 0}
+                        onConfirm={() => dispatch(clearReportHistory())}
+                      >
+                        <Button danger disabled={history.length === 0}>
+                          Clear History
+                        </Button>
+                      </Popconfirm>
+                      <Table
+                        columns={historyColumns}
+                        dataSource={history}
+                        rowKey="id"
+                        size="small"
+                        pagination={{ pageSize: 10 }}
+                        locale={{ emptyText: 'No reports generated yet' }}
+                      />
+                    </Space>
+                  ),
+                },
+              ]}
+            />
+          </Card>
+        </Col>
+      </Row>
+    </div>
+  );
+};
+
+export default RegulatoryReportBuilder;
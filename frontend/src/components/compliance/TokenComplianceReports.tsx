@@ -0,0 +1,220 @@
+/**
+ * Token Compliance Reports
+ *
+ * Compliance report for one token over an optional date range: transfer and
+ * identity statistics plus the risk assessment, with a download of the
+ * report the backend exports.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Col,
+  DatePicker,
+  Descriptions,
+  Empty,
+  List,
+  Progress,
+  Row,
+  Select,
+  Space,
+  Spin,
+  Tag,
+  Typography,
+} from 'antd';
+import { DownloadOutlined, ReloadOutlined } from '@ant-design/icons';
+import type { Dayjs } from 'dayjs';
+import complianceApi, {
+  type ComplianceReport,
+  type TokenCompliance,
+} from '../../services/complianceApi';
+import { handleApiError } from '../../utils/apiErrorHandler';
+import { downloadBlob } from '../../utils/download';
+
+const { RangePicker } = DatePicker;
+const { Text } = Typography;
+
+const STATUS_COLORS: Record<string, string> = {
+  compliant: 'green',
+  non_compliant: 'red',
+  pending: 'orange',
+};
+
+const riskColor = (score: number) =>
+  score >= 60 ? '#ff4d4f' : score >= 30 ? '#faad14' : '#52c41a';
+
+interface TokenComplianceReportsProps {
+  tokens: TokenCompliance[];
+  tokenId: string | null;
+  onTokenChange: (tokenId: string) => void;
+}
+
+const TokenComplianceReports: React.FC<TokenComplianceReportsProps> = ({
+  tokens,
+  tokenId,
+  onTokenChange,
+}) => {
+  const [range, setRange] = useState<[Dayjs, Dayjs] | null>(null);
+  const [report, setReport] = useState<ComplianceReport | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [exporting, setExporting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState<number>(0);
+
+  const startDate = range?.[0].startOf('day').toISOString();
+  const endDate = range?.[1].endOf('day').toISOString();
+
+  useEffect(() => {
+    if (!tokenId) return undefined;
+    let cancelled = false;
+    setLoading(true);
+    complianceApi
+      .getTokenComplianceReport(tokenId, startDate, endDate)
+      .then((result) => {
+        if (cancelled) return;
+        setReport(result);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setReport(null);
+        setError(handleApiError(err, { silent: true }).message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenId, startDate, endDate, reloadKey]);
+
+  const handleExport = async () => {
+    if (!tokenId) return;
+    setExporting(true);
+    try {
+      const blob = await complianceApi.exportTokenReport(tokenId, startDate, endDate);
+      const period = range ? `-${range[0].format('YYYYMMDD')}-${range[1].format('YYYYMMDD')}` : '';
+      downloadBlob(blob, `compliance-${tokenId}${period}.json`);
+    } catch (err) {
+      handleApiError(err, { customMessage: 'Failed to export the compliance report' });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+      <Space wrap>
+        <Select
+          showSearch
+          placeholder="Select a token"
+          style={{ minWidth: 260 }}
+          value={tokenId ?? undefined}
+          onChange={onTokenChange}
+          options={tokens.map((token) => ({
+            value: token.tokenId,
+            label: `${token.tokenId} · ${token.jurisdiction}`,
+          }))}
+        />
+        <RangePicker
+          value={range}
+          onChange={(dates) => setRange(dates?.[0] && dates[1] ? [dates[0], dates[1]] : null)}
+        />
+        <Button
+          icon={<ReloadOutlined />}
+          disabled={!tokenId}
+          loading={loading}
+          onClick={() => setReloadKey((key) => key + 1)}
+        >
+          Refresh
+        </Button>
+        <Button
+          type="primary"
+          icon={<DownloadOutlined />}
+          disabled={!tokenId}
+          loading={exporting}
+          onClick={handleExport}
+        >
+          Export Report
+        </Button>
+      </Space>
+
+      {error && (
+        <Alert
+          type="warning"
+          showIcon
+          message="Compliance report unavailable"
+          description={error}
+        />
+      )}
+
+      {!tokenId ? (
+        <Empty description="Select a token to see its compliance report" />
+      ) : (
+        <Spin spinning={loading}>
+          {report && (
+            <Row gutter={[16, 16]}>
+              <Col xs={24} lg={14}>
+                <Descriptions bordered size="small" column={2}>
+                  <Descriptions.Item label="Token">{report.tokenId}</Descriptions.Item>
+                  <Descriptions.Item label="Jurisdiction">{report.jurisdiction}</Descriptions.Item>
+                  <Descriptions.Item label="Status">
+                    <Tag color={STATUS_COLORS[report.complianceStatus] ?? 'default'}>
+                      {report.complianceStatus.toUpperCase()}
+                    </Tag>
+                  </Descriptions.Item>
+                  <Descriptions.Item label="Generated">
+                    {new Date(report.reportDate).toLocaleString()}
+                  </Descriptions.Item>
+                  <Descriptions.Item label="Transfers">
+                    {report.transferStats.total.toLocaleString()}
+                  </Descriptions.Item>
+                  <Descriptions.Item label="Approval Rate">
+                    {report.transferStats.approvalRate}
+                  </Descriptions.Item>
+                  <Descriptions.Item label="Approved">
+                    <Text type="success">{report.transferStats.approved.toLocaleString()}</Text>
+                  </Descriptions.Item>
+                  <Descriptions.Item label="Rejected">
+                    <Text type={report.transferStats.rejected > 0 ? 'danger' : undefined}>
+                      {report.transferStats.rejected.toLocaleString()}
+                    </Text>
+                  </Descriptions.Item>
+                  <Descriptions.Item label="Identities">
+                    {report.identityStats.total.toLocaleString()}
+                  </Descriptions.Item>
+                  <Descriptions.Item label="Active / Revoked">
+                    {report.identityStats.active} / {report.identityStats.revoked}
+                  </Descriptions.Item>
+                </Descriptions>
+              </Col>
+              <Col xs={24} lg={10}>
+                <Space direction="vertical" style={{ width: '100%' }}>
+                  <Text strong>Risk Score</Text>
+                  <Progress
+                    percent={report.riskAssessment.riskScore}
+                    strokeColor={riskColor(report.riskAssessment.riskScore)}
+                    format={(score) => `${score}/100`}
+                  />
+                  <Text type="secondary">
+                    {report.riskAssessment.flaggedTransactions} flagged transactions
+                  </Text>
+                  <List
+                    size="small"
+                    header={<Text strong>Open Issues</Text>}
+                    dataSource={report.riskAssessment.issues}
+                    locale={{ emptyText: 'No open compliance issues' }}
+                    renderItem={(issue) => <List.Item>{issue}</List.Item>}
+                  />
+                </Space>
+              </Col>
+            </Row>
+          )}
+        </Spin>
+      )}
+    </Space>
+  );
+};
+
+export default TokenComplianceReports;
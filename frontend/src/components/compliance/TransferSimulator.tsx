@@ -0,0 +1,553 @@
+/**
+ * Transfer Compliance Simulator
+ *
+ * Pre-trade check of ERC-3643 token transfers against every compliance rule,
+ * without recording or executing anything: one transfer at a time with each
+ * rule explained, or a batch read from CSV with a pass/fail report.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Alert,
+  AutoComplete,
+  Button,
+  Card,
+  Col,
+  Descriptions,
+  Empty,
+  Form,
+  Input,
+  InputNumber,
+  Row,
+  Select,
+  Space,
+  Statistic,
+  Table,
+  Tabs,
+  Tag,
+  Typography,
+  Upload,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import {
+  ArrowLeftOutlined,
+  CheckCircleFilled,
+  CloseCircleFilled,
+  DownloadOutlined,
+  ExperimentOutlined,
+  UploadOutlined,
+} from '@ant-design/icons';
+import complianceApi, {
+  type ComplianceRule,
+  type ComplianceRuleResult,
+  type IdentityRecord,
+  type TokenCompliance,
+  type TokenTransferRules,
+  type TransferComplianceRequest,
+  type TransferComplianceResponse,
+} from '../../services/complianceApi';
+import { handleApiError } from '../../utils/apiErrorHandler';
+import { downloadBlob } from '../../utils/download';
+import {
+  TRANSFER_CSV_COLUMNS,
+  parseTransferCsv,
+  toCsv,
+  type ParsedTransfer,
+  type TransferCsvError,
+} from '../../utils/transferCsv';
+
+const { Text, Title } = Typography;
+
+/** Transfers sent to the simulate endpoint per request */
+const BATCH_CHUNK_SIZE = 100;
+
+const RULE_LABELS: Record<ComplianceRule, string> = {
+  identity: 'Identity',
+  identity_expiry: 'Identity expiry',
+  kyc_level: 'KYC level',
+  country_restriction: 'Country restriction',
+  certification: 'Token certification',
+  sender_balance: 'Sender balance',
+  holding_limit: 'Holding limit',
+  transfer_limit: 'Transfer limit',
+};
+
+interface BatchResult extends ParsedTransfer {
+  result: TransferComplianceResponse;
+}
+
+const shortAddress = (address: string) =>
+  address.length > 14 ? `${address.slice(0, 8)}…${address.slice(-4)}` : address;
+
+const ruleColumns: ColumnsType<ComplianceRuleResult> = [
+  {
+    title: 'Result',
+    dataIndex: 'passed',
+    key: 'passed',
+    width: 80,
+    render: (passed: boolean) =>
+      passed ? (
+        <CheckCircleFilled style={{ color: '#52c41a', fontSize: 16 }} />
+      ) : (
+        <CloseCircleFilled style={{ color: '#ff4d4f', fontSize: 16 }} />
+      ),
+  },
+  {
+    title: 'Rule',
+    dataIndex: 'rule',
+    key: 'rule',
+    width: 180,
+    render: (rule: ComplianceRule) => <Text strong>{RULE_LABELS[rule]}</Text>,
+  },
+  {
+    title: 'Party',
+    dataIndex: 'party',
+    key: 'party',
+    width: 110,
+    render: (party?: ComplianceRuleResult['party']) =>
+      party ? <Tag color={party === 'sender' ? 'blue' : 'purple'}>{party}</Tag> : <Tag>token</Tag>,
+  },
+  {
+    title: 'Explanation',
+    dataIndex: 'detail',
+    key: 'detail',
+    render: (detail: string, rule) => (
+      <Text type={rule.passed ? undefined : 'danger'}>{detail}</Text>
+    ),
+  },
+];
+
+const TransferSimulator: React.FC = () => {
+  const navigate = useNavigate();
+  const [form] = Form.useForm<TransferComplianceRequest>();
+  const [tokens, setTokens] = useState<TokenCompliance[]>([]);
+  const [identities, setIdentities] = useState<IdentityRecord[]>([]);
+  const [tokenRules, setTokenRules] = useState<TokenTransferRules | null>(null);
+  const [result, setResult] = useState<TransferComplianceResponse | null>(null);
+  const [evaluating, setEvaluating] = useState<boolean>(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const [csvText, setCsvText] = useState<string>('');
+  const [csvErrors, setCsvErrors] = useState<TransferCsvError[]>([]);
+  const [batchResults, setBatchResults] = useState<BatchResult[]>([]);
+  const [batchRunning, setBatchRunning] = useState<boolean>(false);
+
+  const tokenId = Form.useWatch('tokenId', form);
+
+  useEffect(() => {
+    Promise.all([complianceApi.listTokenCompliance(), complianceApi.listIdentities()])
+      .then(([tokenCompliance, identityRecords]) => {
+        setTokens(tokenCompliance);
+        setIdentities(identityRecords);
+      })
+      .catch((err) => setLoadError(handleApiError(err, { silent: true }).message));
+  }, []);
+
+  useEffect(() => {
+    if (!tokenId) return undefined;
+    let cancelled = false;
+    setTokenRules(null);
+    complianceApi
+      .getTokenTransferRules(tokenId)
+      .then((rules) => {
+        if (!cancelled) setTokenRules(rules);
+      })
+      .catch(() => {
+        // Unregistered tokens have no rules; the simulation explains why it fails
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenId]);
+
+  const identityOptions = identities.map((identity) => ({
+    value: identity.address,
+    label: (
+      <Space>
+        <Text code>{shortAddress(identity.address)}</Text>
+        <Tag>{identity.country}</Tag>
+        <Tag color="blue">{identity.kycLevel}</Tag>
+        {identity.status !== 'active' && <Tag color="red">{identity.status}</Tag>}
+      </Space>
+    ),
+  }));
+
+  const handleEvaluate = async (values: TransferComplianceRequest) => {
+    setEvaluating(true);
+    try {
+      const [evaluation] = await complianceApi.simulateTransfers([
+        { ...values, from: values.from.trim(), to: values.to.trim() },
+      ]);
+      setResult(evaluation ?? null);
+    } catch (err) {
+      handleApiError(err, { customMessage: 'Failed to simulate the transfer' });
+    } finally {
+      setEvaluating(false);
+    }
+  };
+
+  const handleRunBatch = async () => {
+    const { transfers, errors } = parseTransferCsv(csvText);
+    setCsvErrors(errors);
+    setBatchResults([]);
+    if (transfers.length === 0) return;
+
+    setBatchRunning(true);
+    try {
+      const results: BatchResult[] = [];
+      for (let start = 0; start < transfers.length; start += BATCH_CHUNK_SIZE) {
+        const chunk = transfers.slice(start, start + BATCH_CHUNK_SIZE);
+        const evaluations = await complianceApi.simulateTransfers(
+          chunk.map((parsed) => parsed.transfer)
+        );
+        chunk.forEach((parsed, index) => {
+          const evaluation = evaluations[index];
+          if (evaluation) results.push({ ...parsed, result: evaluation });
+        });
+      }
+      setBatchResults(results);
+    } catch (err) {
+      handleApiError(err, { customMessage: 'Failed to simulate the batch' });
+    } finally {
+      setBatchRunning(false);
+    }
+  };
+
+  const handleDownloadReport = () => {
+    const csv = toCsv([
+      ['line', ...TRANSFER_CSV_COLUMNS, 'result', 'violations'],
+      ...batchResults.map(({ line, transfer, result: evaluation }) => [
+        line,
+        transfer.tokenId,
+        transfer.from,
+        transfer.to,
+        transfer.amount,
+        evaluation.allowed ? 'PASS' : 'FAIL',
+        evaluation.violations.join('; '),
+      ]),
+    ]);
+    downloadBlob(
+      new Blob([csv], { type: 'text/csv' }),
+      `transfer-compliance-report-${new Date().toISOString().slice(0, 10)}.csv`
+    );
+  };
+
+  const handleDownloadTemplate = () => {
+    const sample = identities.slice(0, 2).map((identity) => identity.address);
+    const csv = toCsv([
+      [...TRANSFER_CSV_COLUMNS],
+      [tokens[0]?.tokenId ?? 'token-1', sample[0] ?? '0x…', sample[1] ?? '0x…', 1000],
+    ]);
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), 'transfer-batch-template.csv');
+  };
+
+  const passed = batchResults.filter((row) => row.result.allowed).length;
+  const failedRules = result?.rules?.filter((rule) => !rule.passed).length ?? 0;
+
+  const batchColumns: ColumnsType<BatchResult> = [
+    {
+      title: 'Line',
+      dataIndex: 'line',
+      key: 'line',
+      width: 70,
+    },
+    {
+      title: 'Token',
+      key: 'tokenId',
+      render: (_, row) => <Tag color="blue">{row.transfer.tokenId}</Tag>,
+    },
+    {
+      title: 'From',
+      key: 'from',
+      render: (_, row) => <Text code>{shortAddress(row.transfer.from)}</Text>,
+    },
+    {
+      title: 'To',
+      key: 'to',
+      render: (_, row) => <Text code>{shortAddress(row.transfer.to)}</Text>,
+    },
+    {
+      title: 'Amount',
+      key: 'amount',
+      align: 'right',
+      render: (_, row) => row.transfer.amount.toLocaleString(),
+    },
+    {
+      title: 'Result',
+      key: 'result',
+      width: 90,
+      filters: [
+        { text: 'Pass', value: true },
+        { text: 'Fail', value: false },
+      ],
+      onFilter: (value, row) => row.result.allowed === value,
+      render: (_, row) =>
+        row.result.allowed ? <Tag color="green">PASS</Tag> : <Tag color="red">FAIL</Tag>,
+    },
+    {
+      title: 'Failing Rules',
+      key: 'violations',
+      render: (_, row) =>
+        row.result.violations.length === 0 ? (
+          <Text type="secondary">—</Text>
+        ) : (
+          <Space direction="vertical" size={0}>
+            {row.result.violations.map((violation) => (
+              <Text key={violation} type="danger" style={{ fontSize: 12 }}>
+                {violation}
+              </Text>
+            ))}
+          </Space>
+        ),
+    },
+  ];
+
+  const singleTab = (
+    <Row gutter={[16, 16]}>
+      <Col xs={24} lg={14}>
+        <Card title="Proposed Transfer">
+          <Form form={form} layout="vertical" onFinish={handleEvaluate}>
+            <Form.Item name="tokenId" label="Token" rules={[{ required: true }]}>
+              <Select
+                showSearch
+                placeholder="Select a token"
+                options={tokens.map((token) => ({
+                  value: token.tokenId,
+                  label: `${token.tokenId} · ${token.jurisdiction}`,
+                }))}
+              />
+            </Form.Item>
+            <Form.Item
+              name="from"
+              label="Sender"
+              rules={[{ required: true, whitespace: true, message: 'Enter the sender address' }]}
+            >
+              <AutoComplete
+                options={identityOptions}
+                placeholder="0x…"
+                filterOption={(input, option) =>
+                  String(option?.value ?? '')
+                    .toLowerCase()
+                    .includes(input.toLowerCase())
+                }
+              />
+            </Form.Item>
+            <Form.Item
+              name="to"
+              label="Receiver"
+              rules={[{ required: true, whitespace: true, message: 'Enter the receiver address' }]}
+            >
+              <AutoComplete
+                options={identityOptions}
+                placeholder="0x…"
+                filterOption={(input, option) =>
+                  String(option?.value ?? '')
+                    .toLowerCase()
+                    .includes(input.toLowerCase())
+                }
+              />
+            </Form.Item>
+            <Form.Item name="amount" label="Amount" rules={[{ required: true }]}>
+              <InputNumber style={{ width: '100%' }} min={0} />
+            </Form.Item>
+            <Button
+              type="primary"
+              htmlType="submit"
+              icon={<ExperimentOutlined />}
+              loading={evaluating}
+            >
+              Evaluate
+            </Button>
+          </Form>
+        </Card>
+      </Col>
+      <Col xs={24} lg={10}>
+        <Card title="Token Rules" style={{ height: '100%' }}>
+          {tokenRules ? (
+            <Descriptions column={1} size="small">
+              <Descriptions.Item label="Minimum KYC level">
+                <Tag color="blue">{tokenRules.minKycLevel}</Tag>
+              </Descriptions.Item>
+              <Descriptions.Item label="Holding limit per investor">
+                {tokenRules.maxHolding.toLocaleString()}
+              </Descriptions.Item>
+              <Descriptions.Item label="Transfer limit">
+                {tokenRules.transferLimit.toLocaleString()}
+              </Descriptions.Item>
+              <Descriptions.Item label="Certifications">
+                {tokenRules.certifications.length === 0 ? (
+                  <Text type="secondary">None required</Text>
+                ) : (
+                  <Space direction="vertical" size={0}>
+                    {tokenRules.certifications.map((certification) => {
+                      const expired = Date.parse(certification.expiryDate) <= Date.now();
+                      return (
+                        <Text key={certification.id} type={expired ? 'danger' : undefined}>
+                          {certification.name} · {certification.issuer} ·{' '}
+                          {expired ? 'expired' : 'expires'}{' '}
+                          {new Date(certification.expiryDate).toLocaleDateString()}
+                        </Text>
+                      );
+                    })}
+                  </Space>
+                )}
+              </Descriptions.Item>
+            </Descriptions>
+          ) : (
+            <Empty description={tokenId ? 'No rules registered for this token' : 'Pick a token'} />
+          )}
+        </Card>
+      </Col>
+      {result && (
+        <Col span={24}>
+          <Card title="Rule Evaluation">
+            <Alert
+              type={result.allowed ? 'success' : 'error'}
+              showIcon
+              message={
+                result.allowed
+                  ? 'This transfer would be allowed'
+                  : `This transfer would be rejected: ${failedRules} rule${failedRules === 1 ? '' : 's'} failed`
+              }
+              style={{ marginBottom: 16 }}
+            />
+            <Table
+              columns={ruleColumns}
+              dataSource={result.rules ?? []}
+              rowKey={(rule) => `${rule.rule}-${rule.party ?? 'token'}-${rule.detail}`}
+              pagination={false}
+              size="small"
+            />
+          </Card>
+        </Col>
+      )}
+    </Row>
+  );
+
+  const batchTab = (
+    <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+      <Card
+        title="Proposed Transfers"
+        extra={
+          <Button type="link" icon={<DownloadOutlined />} onClick={handleDownloadTemplate}>
+            CSV Template
+          </Button>
+        }
+      >
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Text type="secondary">
+            One transfer per line with the columns {TRANSFER_CSV_COLUMNS.join(', ')}. Nothing is
+            executed or recorded.
+          </Text>
+          <Upload
+            accept=".csv,text/csv"
+            showUploadList={false}
+            beforeUpload={(file) => {
+              file.text().then(setCsvText);
+              return false;
+            }}
+          >
+            <Button icon={<UploadOutlined />}>Load CSV File</Button>
+          </Upload>
+          <Input.TextArea
+            rows={8}
+            value={csvText}
+            onChange={(event) => setCsvText(event.target.value)}
+            placeholder={`${TRANSFER_CSV_COLUMNS.join(',')}\ntoken-1,0xabc…,0xdef…,2500`}
+            style={{ fontFamily: 'monospace' }}
+          />
+          <Button
+            type="primary"
+            icon={<ExperimentOutlined />}
+            loading={batchRunning}
+            disabled={!csvText.trim()}
+            onClick={handleRunBatch}
+          >
+            Evaluate Batch
+          </Button>
+        </Space>
+      </Card>
+
+      {csvErrors.length > 0 && (
+        <Alert
+          type="warning"
+          showIcon
+          message={`${csvErrors.length} line${csvErrors.length === 1 ? '' : 's'} skipped`}
+          description={
+            <Space direction="vertical" size={0}>
+              {csvErrors.map((error) => (
+                <Text key={error.line}>
+                  Line {error.line}: {error.message}
+                </Text>
+              ))}
+            </Space>
+          }
+        />
+      )}
+
+      {batchResults.length > 0 && (
+        <Card
+          title="Pass/Fail Report"
+          extra={
+            <Button icon={<DownloadOutlined />} onClick={handleDownloadReport}>
+              Download Report
+            </Button>
+          }
+        >
+          <Row gutter={16} style={{ marginBottom: 16 }}>
+            <Col xs={8}>
+              <Statistic title="Transfers" value={batchResults.length} />
+            </Col>
+            <Col xs={8}>
+              <Statistic title="Pass" value={passed} valueStyle={{ color: '#52c41a' }} />
+            </Col>
+            <Col xs={8}>
+              <Statistic
+                title="Fail"
+                value={batchResults.length - passed}
+                valueStyle={{ color: batchResults.length > passed ? '#ff4d4f' : undefined }}
+              />
+            </Col>
+          </Row>
+          <Table
+            columns={batchColumns}
+            dataSource={batchResults}
+            rowKey="line"
+            size="small"
+            pagination={{ pageSize: 20 }}
+            scroll={{ x: 'max-content' }}
+          />
+        </Card>
+      )}
+    </Space>
+  );
+
+  return (
+    <div style={{ padding: '24px' }}>
+      <Space align="center" style={{ marginBottom: 16 }}>
+        <Button icon={<ArrowLeftOutlined />} onClick={() => navigate('/compliance')} />
+        <Title level={2} style={{ margin: 0 }}>
+          Transfer Compliance Simulator
+        </Title>
+      </Space>
+      {loadError && (
+        <Alert
+          type="warning"
+          showIcon
+          message="Tokens and identities could not be loaded"
+          description={loadError}
+          style={{ marginBottom: 16 }}
+        />
+      )}
+      <Tabs
+        items={[
+          { key: 'single', label: 'Single Transfer', children: singleTab },
+          { key: 'batch', label: 'Batch (CSV)', children: batchTab },
+        ]}
+      />
+    </div>
+  );
+};
+
+export default TransferSimulator;
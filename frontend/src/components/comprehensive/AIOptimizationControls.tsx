@@ -41,7 +41,7 @@ import type {
 import ErrorBoundary from '../common/ErrorBoundary';
 import { StatsCardSkeleton, CardSkeleton } from '../common/LoadingSkeleton';
 import { UnderDevelopmentEmpty, ApiErrorEmpty } from '../common/EmptyState';
-import { isFeatureEnabled } from '../../config/featureFlags';
+import { useFeatureFlag } from '../../hooks/useFeatureFlag';
 import { handleApiError, isNotFoundError, type ApiError } from '../../utils/apiErrorHandler';
 import { comprehensivePortalService } from '../../services/ComprehensivePortalService';
 
@@ -56,7 +56,7 @@ const AIOptimizationControls: React.FC = () => {
   const [error, setError] = useState<ApiError | null>(null);
 
   // Feature flag check
-  const isFeatureAvailable = isFeatureEnabled('aiOptimization');
+  const isFeatureAvailable = useFeatureFlag('aiOptimization');
 
   // AI model configurations
   const [consensusOptEnabled, setConsensusOptEnabled] = useState<boolean>(true);
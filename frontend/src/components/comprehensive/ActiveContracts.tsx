@@ -27,6 +27,7 @@ import {
   StepLabel,
 } from '@mui/material';
 import { Add, Description, Check, Close } from '@mui/icons-material';
+import { usePermission } from '../../hooks/usePermission';
 
 interface Contract {
   id: string;
@@ -91,6 +92,8 @@ export const ActiveContracts: React.FC = () => {
     code: '',
   });
 
+  const canDeploy = usePermission('Smart Contracts', 'deploy');
+
   const steps = ['Basic Info', 'Legal Terms', 'Smart Code', 'Review & Deploy'];
 
   const deployContract = () => {
@@ -370,7 +373,12 @@ export const ActiveContracts: React.FC = () => {
               Next
             </Button>
           ) : (
-            <Button variant="contained" color="primary" onClick={deployContract}>
+            <Button
+              variant="contained"
+              color="primary"
+              disabled={!canDeploy}
+              onClick={deployContract}
+            >
               Deploy
             </Button>
           )}
@@ -0,0 +1,394 @@
+/**
+ * Consensus Round Inspector
+ *
+ * Live view of HyperRAFT++ consensus: terms and leader changes, the
+ * PREPARE → COMMIT → FINALIZE timeline and vote collection of each block
+ * height, and flagged election storms and stalled commits. The history is
+ * kept for the browser session.
+ */
+
+import React from 'react';
+import {
+  Badge,
+  Button,
+  Card,
+  Col,
+  Empty,
+  List,
+  Popconfirm,
+  Progress,
+  Row,
+  Space,
+  Statistic,
+  Steps,
+  Table,
+  Tag,
+  Typography,
+} from 'antd';
+import type { BadgeProps } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { ClearOutlined, ThunderboltOutlined, WarningOutlined } from '@ant-design/icons';
+import type {
+  ConsensusAnomaly,
+  ConsensusPhase,
+  ConsensusRoundRecord,
+  ConsensusTermRecord,
+} from '../../types/state';
+import type { StreamTransportKind } from '../../services/grpcStreamService';
+import ErrorBoundary from '../common/ErrorBoundary';
+import { useAppDispatch, useAppSelector } from '../../hooks/useRedux';
+import { useConsensusStream } from '../../hooks/useConsensusStream';
+import { clearConsensusHistory } from '../../store/consensusInspectorSlice';
+import {
+  selectConsensusAnomalies,
+  selectConsensusLastUpdate,
+  selectConsensusRounds,
+  selectConsensusTerms,
+} from '../../store/selectors';
+
+const { Text, Title } = Typography;
+
+const PHASES: ConsensusPhase[] = ['PREPARE', 'COMMIT', 'FINALIZE'];
+
+const PHASE_COLORS: Record<ConsensusPhase, string> = {
+  PREPARE: 'blue',
+  COMMIT: 'gold',
+  FINALIZE: 'green',
+};
+
+const TRANSPORT_LABELS: Record<StreamTransportKind, string> = {
+  'grpc-web': 'gRPC-Web',
+  sse: 'Server-Sent Events',
+  polling: 'Polling',
+};
+
+type RoundStatus = 'finalized' | 'stalled' | 'interrupted' | 'in_progress';
+
+const ROUND_STATUS: Record<RoundStatus, { label: string; status: BadgeProps['status'] }> = {
+  finalized: { label: 'Finalized', status: 'success' },
+  stalled: { label: 'Stalled', status: 'error' },
+  interrupted: { label: 'Not watched to the end', status: 'default' },
+  in_progress: { label: 'In progress', status: 'processing' },
+};
+
+const roundStatus = (round: ConsensusRoundRecord): RoundStatus => {
+  if (round.stalled) return 'stalled';
+  if (round.finalizedAt) return 'finalized';
+  if (round.interrupted) return 'interrupted';
+  return 'in_progress';
+};
+
+const formatOffset = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(2)} s`);
+
+const sinceStart = (round: ConsensusRoundRecord, at: string) =>
+  Date.parse(at) - Date.parse(round.startedAt);
+
+const votePercent = (received: number | null, required: number | null) =>
+  received !== null && required ? Math.min(100, (received / required) * 100) : 0;
+
+const ConsensusRoundInspector: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const transport = useConsensusStream();
+  const rounds = useAppSelector(selectConsensusRounds);
+  const terms = useAppSelector(selectConsensusTerms);
+  const anomalies = useAppSelector(selectConsensusAnomalies);
+  const lastUpdateAt = useAppSelector(selectConsensusLastUpdate);
+
+  const currentTerm = terms[0];
+  const currentRound = rounds[0];
+  const elections = terms.filter((term) => term.previousLeaderId !== null).length;
+  const currentPhaseIndex = currentRound
+    ? PHASES.indexOf(currentRound.phases[currentRound.phases.length - 1]?.phase ?? 'PREPARE')
+    : 0;
+
+  const roundColumns: ColumnsType<ConsensusRoundRecord> = [
+    {
+      title: 'Height',
+      dataIndex: 'blockHeight',
+      key: 'blockHeight',
+      width: 110,
+      render: (height: number) => <Text strong>#{height.toLocaleString()}</Text>,
+    },
+    {
+      title: 'Term',
+      dataIndex: 'term',
+      key: 'term',
+      width: 80,
+    },
+    {
+      title: 'Leader',
+      dataIndex: 'leaderId',
+      key: 'leaderId',
+      width: 140,
+      ellipsis: true,
+    },
+    {
+      title: 'Phase Timeline',
+      key: 'phases',
+      render: (_, round) => (
+        <Space size={4} wrap>
+          {round.phases.map((mark) => (
+            <Tag key={mark.phase} color={PHASE_COLORS[mark.phase]}>
+              {mark.phase} +{formatOffset(sinceStart(round, mark.at))}
+            </Tag>
+          ))}
+        </Space>
+      ),
+    },
+    {
+      title: 'Votes',
+      key: 'votes',
+      width: 160,
+      render: (_, round) =>
+        round.votesReceived !== null && round.votesRequired !== null ? (
+          <Progress
+            size="small"
+            percent={votePercent(round.votesReceived, round.votesRequired)}
+            format={() => `${round.votesReceived}/${round.votesRequired}`}
+            status={round.stalled ? 'exception' : undefined}
+          />
+        ) : (
+          <Text type="secondary">{round.participationRate.toFixed(1)}% participation</Text>
+        ),
+    },
+    {
+      title: 'Finality',
+      key: 'finality',
+      width: 100,
+      render: (_, round) =>
+        round.finalizedAt ? (
+          formatOffset(sinceStart(round, round.finalizedAt))
+        ) : (
+          <Text type="secondary">—</Text>
+        ),
+    },
+    {
+      title: 'Status',
+      key: 'status',
+      width: 190,
+      filters: (Object.keys(ROUND_STATUS) as RoundStatus[]).map((status) => ({
+        text: ROUND_STATUS[status].label,
+        value: status,
+      })),
+      onFilter: (value, round) => roundStatus(round) === value,
+      render: (_, round) => {
+        const { label, status } = ROUND_STATUS[roundStatus(round)];
+        return <Badge status={status} text={label} />;
+      },
+    },
+  ];
+
+  const termColumns: ColumnsType<ConsensusTermRecord> = [
+    {
+      title: 'Term',
+      dataIndex: 'term',
+      key: 'term',
+      width: 80,
+      render: (term: number) => <Text strong>{term}</Text>,
+    },
+    {
+      title: 'Leader',
+      dataIndex: 'leaderId',
+      key: 'leaderId',
+      ellipsis: true,
+    },
+    {
+      title: 'Previous Leader',
+      dataIndex: 'previousLeaderId',
+      key: 'previousLeaderId',
+      ellipsis: true,
+      render: (previous: string | null) =>
+        previous ?? <Text type="secondary">Joined mid-term</Text>,
+    },
+    {
+      title: 'Started',
+      dataIndex: 'startedAt',
+      key: 'startedAt',
+      width: 120,
+      render: (startedAt: string) => new Date(startedAt).toLocaleTimeString(),
+    },
+    {
+      title: 'Heights',
+      dataIndex: 'rounds',
+      key: 'rounds',
+      width: 80,
+    },
+  ];
+
+  return (
+    <ErrorBoundary>
+      <div style={{ padding: '24px' }}>
+        <Space style={{ width: '100%', justifyContent: 'space-between' }} wrap>
+          <Space align="center">
+            <Title level={2} style={{ margin: 0 }}>
+              Consensus Inspector
+            </Title>
+            <Tag color={transport ? 'green' : 'default'}>
+              {transport ? TRANSPORT_LABELS[transport] : 'Connecting…'}
+            </Tag>
+          </Space>
+          <Space>
+            {lastUpdateAt && (
+              <Text type="secondary">
+                Last update {new Date(lastUpdateAt).toLocaleTimeString()}
+              </Text>
+            )}
+            <Popconfirm
+              title="Clear the recorded consensus history?"
+              onConfirm={() => dispatch(clearConsensusHistory())}
+            >
+              <Button icon={<ClearOutlined />} disabled={rounds.length === 0}>
+                Clear History
+              </Button>
+            </Popconfirm>
+          </Space>
+        </Space>
+
+        <Row gutter={[16, 16]} style={{ marginTop: '24px' }}>
+          <Col xs={24} sm={12} lg={6}>
+            <Card>
+              <Statistic title="Current Term" value={currentTerm?.term ?? '—'} />
+            </Card>
+          </Col>
+          <Col xs={24} sm={12} lg={6}>
+            <Card>
+              <Statistic
+                title="Leader"
+                value={currentTerm?.leaderId ?? '—'}
+                valueStyle={{ fontSize: 18 }}
+              />
+            </Card>
+          </Col>
+          <Col xs={24} sm={12} lg={6}>
+            <Card>
+              <Statistic
+                title="Leader Elections Seen"
+                value={elections}
+                prefix={<ThunderboltOutlined />}
+              />
+            </Card>
+          </Col>
+          <Col xs={24} sm={12} lg={6}>
+            <Card>
+              <Statistic
+                title="Anomalies"
+                value={anomalies.length}
+                prefix={<WarningOutlined />}
+                valueStyle={{ color: anomalies.length > 0 ? '#ff4d4f' : undefined }}
+              />
+            </Card>
+          </Col>
+        </Row>
+
+        <Card
+          title={
+            currentRound
+              ? `Block #${currentRound.blockHeight.toLocaleString()} · Term ${currentRound.term}`
+              : 'Current Round'
+          }
+          style={{ marginTop: '16px' }}
+        >
+          {currentRound ? (
+            <Row gutter={[24, 16]} align="middle">
+              <Col xs={24} lg={14}>
+                <Steps
+                  size="small"
+                  current={currentPhaseIndex}
+                  status={
+                    currentRound.stalled ? 'error' : currentRound.finalizedAt ? 'finish' : 'process'
+                  }
+                  items={PHASES.map((phase) => {
+                    const mark = currentRound.phases.find((candidate) => candidate.phase === phase);
+                    return {
+                      title: phase,
+                      description: mark
+                        ? `+${formatOffset(sinceStart(currentRound, mark.at))}`
+                        : undefined,
+                    };
+                  })}
+                />
+              </Col>
+              <Col xs={24} lg={10}>
+                <Text type="secondary">Votes collected</Text>
+                <Progress
+                  percent={votePercent(currentRound.votesReceived, currentRound.votesRequired)}
+                  format={() =>
+                    currentRound.votesRequired !== null
+                      ? `${currentRound.votesReceived ?? 0}/${currentRound.votesRequired}`
+                      : `${currentRound.participationRate.toFixed(1)}%`
+                  }
+                  status={currentRound.stalled ? 'exception' : undefined}
+                />
+              </Col>
+            </Row>
+          ) : (
+            <Empty description="Waiting for consensus updates" />
+          )}
+        </Card>
+
+        <Row gutter={[16, 16]} style={{ marginTop: '16px' }}>
+          <Col xs={24} xl={16}>
+            <Card
+              title="Round Timeline"
+              extra={<Text type="secondary">{rounds.length} heights</Text>}
+            >
+              <Table
+                columns={roundColumns}
+                dataSource={rounds}
+                rowKey={(round) => `${round.blockHeight}-${round.startedAt}`}
+                pagination={false}
+                size="small"
+                scroll={{ x: 'max-content', y: 420 }}
+              />
+            </Card>
+          </Col>
+          <Col xs={24} xl={8}>
+            <Card title="Anomalies" style={{ height: '100%' }}>
+              {anomalies.length === 0 ? (
+                <Empty description="No election storms or stalled commits" />
+              ) : (
+                <List<ConsensusAnomaly>
+                  size="small"
+                  dataSource={anomalies}
+                  style={{ maxHeight: 440, overflowY: 'auto' }}
+                  renderItem={(anomaly) => (
+                    <List.Item key={anomaly.id}>
+                      <List.Item.Meta
+                        title={
+                          <Space size={4}>
+                            <Tag color={anomaly.kind === 'election_storm' ? 'volcano' : 'red'}>
+                              {anomaly.kind === 'election_storm'
+                                ? 'Election storm'
+                                : 'Stalled commit'}
+                            </Tag>
+                            <Text type="secondary" style={{ fontSize: 12 }}>
+                              {new Date(anomaly.detectedAt).toLocaleTimeString()}
+                            </Text>
+                          </Space>
+                        }
+                        description={anomaly.message}
+                      />
+                    </List.Item>
+                  )}
+                />
+              )}
+            </Card>
+          </Col>
+        </Row>
+
+        <Card title="Terms & Leader Changes" style={{ marginTop: '16px' }}>
+          <Table
+            columns={termColumns}
+            dataSource={terms}
+            rowKey={(term) => `${term.term}-${term.startedAt}`}
+            pagination={false}
+            size="small"
+            scroll={{ y: 320 }}
+          />
+        </Card>
+      </div>
+    </ErrorBoundary>
+  );
+};
+
+export default ConsensusRoundInspector;
@@ -3,6 +3,9 @@
  *
  * Bridge status, cross-chain transfers, and supported chains management
  * Connects to bridge/CrossChainBridgeService.java backend API
+ *
+ * New transfers go through a quote → review → tracking wizard. Transfers that
+ * fail or overrun their estimated completion time can be retried or refunded.
  */
 
 import React, { useState, useEffect } from 'react';
@@ -26,6 +29,8 @@ import {
   Typography,
   Tooltip,
   Badge,
+  Descriptions,
+  message,
 } from 'antd';
 import {
   SwapOutlined,
@@ -36,6 +41,8 @@ import {
   LinkOutlined,
   WarningOutlined,
   GlobalOutlined,
+  RedoOutlined,
+  RollbackOutlined,
 } from '@ant-design/icons';
 import type { ColumnsType } from 'antd/es/table';
 import type {
@@ -43,10 +50,111 @@ import type {
   CrossChainTransfer,
   SupportedChain,
   BridgeMetrics,
+  BridgeLiquidity,
+  TransferRequest,
 } from '../../types/comprehensive';
+import { comprehensivePortalService } from '../../services/ComprehensivePortalService';
+import { handleApiError } from '../../utils/apiErrorHandler';
 
 const { Text, Title } = Typography;
-const { Step } = Steps;
+
+// Confirmations a transfer waits for when the bridge has no history to go by
+const DEFAULT_CONFIRMATIONS = 12;
+
+interface TransferQuote {
+  bridge?: BridgeStatus;
+  feePercent: number;
+  fee: number;
+  receiveAmount: number;
+  estimatedSeconds: number;
+  liquidity?: BridgeLiquidity;
+}
+
+/**
+ * Fee and time for a transfer: the source chain's bridge fee, and the bridge's
+ * average transfer time or, for a route without history, block times on both chains
+ */
+const quoteTransfer = (
+  source: SupportedChain,
+  target: SupportedChain,
+  amount: number,
+  bridges: BridgeStatus[],
+  liquidity: BridgeLiquidity[] = []
+): TransferQuote => {
+  const bridge = bridges.find(
+    (candidate) =>
+      candidate.sourceChain === source.chainId && candidate.targetChain === target.chainId
+  );
+  const fee = (amount * source.bridgeFee) / 100;
+  return {
+    bridge,
+    feePercent: source.bridgeFee,
+    fee,
+    receiveAmount: amount - fee,
+    estimatedSeconds:
+      bridge?.averageTransferTime ??
+      Math.round((source.avgBlockTime + target.avgBlockTime) * DEFAULT_CONFIRMATIONS),
+    liquidity: liquidity.find((entry) => entry.bridgeId === bridge?.bridgeId),
+  };
+};
+
+/**
+ * Failed, or still unfinished past its estimated completion time
+ */
+const isStuckTransfer = (transfer: CrossChainTransfer, now: number = Date.now()): boolean => {
+  if (transfer.status === 'failed') return true;
+  if (transfer.status === 'completed' || transfer.status === 'refunded') return false;
+  return !!transfer.estimatedCompletionTime && Date.parse(transfer.estimatedCompletionTime) < now;
+};
+
+const isFinished = (transfer: CrossChainTransfer): boolean =>
+  transfer.status === 'completed' || transfer.status === 'refunded';
+
+const formatDuration = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+
+const TRANSFER_STEP: Record<CrossChainTransfer['status'], number> = {
+  initiated: 0,
+  locked: 1,
+  verified: 2,
+  completed: 3,
+  failed: 2,
+  refunded: 3,
+};
+
+/**
+ * Step tracker for a transfer's status, with its confirmations
+ */
+const TransferProgress: React.FC<{ transfer: CrossChainTransfer }> = ({ transfer }) => (
+  <Space direction="vertical" style={{ width: '100%' }}>
+    <Steps
+      current={TRANSFER_STEP[transfer.status]}
+      status={transfer.status === 'failed' ? 'error' : isFinished(transfer) ? 'finish' : 'process'}
+      items={[
+        { title: 'Initiated', description: 'Transfer started' },
+        { title: 'Locked', description: 'Funds locked' },
+        {
+          title: 'Verified',
+          description: transfer.status === 'failed' ? 'Release failed' : 'Transaction verified',
+        },
+        transfer.status === 'refunded'
+          ? { title: 'Refunded', description: 'Funds returned to sender' }
+          : { title: 'Completed', description: 'Transfer complete' },
+      ]}
+    />
+    <Progress
+      percent={Math.round((transfer.confirmations / transfer.requiredConfirmations) * 100)}
+      status={
+        transfer.status === 'failed'
+          ? 'exception'
+          : transfer.status === 'completed'
+            ? 'success'
+            : 'active'
+      }
+      format={() => `${transfer.confirmations}/${transfer.requiredConfirmations}`}
+    />
+  </Space>
+);
 
 const CrossChainBridge: React.FC = () => {
   const [bridges, setBridges] = useState<BridgeStatus[]>([]);
@@ -55,21 +163,34 @@ const CrossChainBridge: React.FC = () => {
   const [metrics, setMetrics] = useState<BridgeMetrics | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [transferModalVisible, setTransferModalVisible] = useState<boolean>(false);
+  const [wizardStep, setWizardStep] = useState<number>(0);
+  const [draft, setDraft] = useState<TransferRequest | null>(null);
+  const [submitting, setSubmitting] = useState<boolean>(false);
   const [selectedTransfer, setSelectedTransfer] = useState<CrossChainTransfer | null>(null);
   const [detailModalVisible, setDetailModalVisible] = useState<boolean>(false);
-  const [transferForm] = Form.useForm();
+  const [actionTransferId, setActionTransferId] = useState<string | null>(null);
+  const [transferForm] = Form.useForm<TransferRequest>();
+
+  const sourceChainId = Form.useWatch('sourceChain', transferForm);
+  const targetChainId = Form.useWatch('targetChain', transferForm);
+  const amount = Form.useWatch('amount', transferForm);
 
   // Fetch bridge data
   const fetchBridgeData = async () => {
     setLoading(true);
     try {
-      // TODO: Replace with actual API calls to CrossChainBridgeService.java
-      setBridges(generateMockBridges());
-      setTransfers(generateMockTransfers(20));
-      setSupportedChains(generateMockChains());
-      setMetrics(generateMockMetrics());
+      const [bridgesData, transfersData, chainsData, metricsData] = await Promise.all([
+        comprehensivePortalService.getBridges(),
+        comprehensivePortalService.getTransfers(1, 50),
+        comprehensivePortalService.getSupportedChains(),
+        comprehensivePortalService.getBridgeMetrics(),
+      ]);
+      setBridges(bridgesData);
+      setTransfers(transfersData);
+      setSupportedChains(chainsData);
+      setMetrics(metricsData);
     } catch (error) {
-      console.error('Error fetching bridge data:', error);
+      handleApiError(error, { customMessage: 'Failed to load bridge data', silent: true });
     } finally {
       setLoading(false);
     }
@@ -85,29 +206,149 @@ const CrossChainBridge: React.FC = () => {
     return () => clearInterval(interval);
   }, []);
 
+  // Follow the open transfer closely until it completes or is refunded
+  const trackedId =
+    selectedTransfer && !isFinished(selectedTransfer) && (detailModalVisible || wizardStep === 2)
+      ? selectedTransfer.id
+      : null;
+
+  useEffect(() => {
+    if (!trackedId) return undefined;
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await comprehensivePortalService.getTransfer(trackedId);
+        if (response.data) setSelectedTransfer(response.data);
+      } catch (error) {
+        handleApiError(error, { silent: true });
+      }
+    }, 2000);
+
+    return () => clearInterval(interval);
+  }, [trackedId]);
+
+  const chainById = (chainId?: string) =>
+    supportedChains.find((chain) => chain.chainId === chainId);
+
+  const quoteFor = (request: Partial<TransferRequest> | null): TransferQuote | null => {
+    const source = chainById(request?.sourceChain);
+    const target = chainById(request?.targetChain);
+    return source && target && request?.amount
+      ? quoteTransfer(source, target, request.amount, bridges, metrics?.liquidity)
+      : null;
+  };
+
+  const sourceChain = chainById(sourceChainId);
+  const targetChain = chainById(targetChainId);
+  const quote = quoteFor({ sourceChain: sourceChainId, targetChain: targetChainId, amount });
+  const draftQuote = quoteFor(draft);
+  const routeTokens =
+    sourceChain && targetChain
+      ? sourceChain.supportedTokens.filter((token) => targetChain.supportedTokens.includes(token))
+      : [];
+
   // Handle new transfer
   const handleNewTransfer = () => {
+    transferForm.resetFields();
+    setDraft(null);
+    setSelectedTransfer(null);
+    setWizardStep(0);
     setTransferModalVisible(true);
   };
 
-  const handleTransferSubmit = async (_values: any) => {
-    // TODO: Implement transfer creation API call
+  const closeTransferModal = () => {
     setTransferModalVisible(false);
-    transferForm.resetFields();
+    setWizardStep(0);
+  };
+
+  // Details are valid: move on to reviewing the quote
+  const handleTransferReview = (values: TransferRequest) => {
+    setDraft(values);
+    setWizardStep(1);
   };
 
+  const handleTransferSubmit = async () => {
+    if (!draft) return;
+
+    setSubmitting(true);
+    try {
+      const response = await comprehensivePortalService.createTransfer(draft);
+      if (!response.data) {
+        throw new Error(response.error?.message ?? 'Transfer was not created');
+      }
+      setSelectedTransfer(response.data);
+      setWizardStep(2);
+      message.success('Transfer initiated');
+      fetchBridgeData();
+    } catch (error) {
+      handleApiError(error, { customMessage: 'Failed to initiate transfer' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Retry or refund a stuck transfer
+  const handleTransferAction = async (transfer: CrossChainTransfer, action: 'retry' | 'refund') => {
+    setActionTransferId(transfer.id);
+    try {
+      const response =
+        action === 'retry'
+          ? await comprehensivePortalService.retryTransfer(transfer.id)
+          : await comprehensivePortalService.refundTransfer(transfer.id);
+      if (response.data && selectedTransfer?.id === transfer.id) {
+        setSelectedTransfer(response.data);
+      }
+      message.success(action === 'retry' ? 'Transfer resubmitted' : 'Transfer refunded');
+      fetchBridgeData();
+    } catch (error) {
+      handleApiError(error, {
+        customMessage:
+          action === 'retry' ? 'Failed to retry transfer' : 'Failed to refund transfer',
+      });
+    } finally {
+      setActionTransferId(null);
+    }
+  };
+
+  const confirmRefund = (transfer: CrossChainTransfer) => {
+    Modal.confirm({
+      title: 'Refund transfer?',
+      content: `${transfer.amount.toFixed(4)} ${transfer.token} will be released back to ${transfer.sender} on ${transfer.sourceChain}. The transfer cannot be retried afterwards.`,
+      okText: 'Refund',
+      okButtonProps: { danger: true },
+      onOk: () => handleTransferAction(transfer, 'refund'),
+    });
+  };
+
+  const renderStuckActions = (transfer: CrossChainTransfer) =>
+    isStuckTransfer(transfer) && (
+      <Space>
+        <Button
+          size="small"
+          icon={<RedoOutlined />}
+          loading={actionTransferId === transfer.id}
+          onClick={() => handleTransferAction(transfer, 'retry')}
+        >
+          Retry
+        </Button>
+        <Button
+          size="small"
+          danger
+          icon={<RollbackOutlined />}
+          disabled={actionTransferId === transfer.id}
+          onClick={() => confirmRefund(transfer)}
+        >
+          Refund
+        </Button>
+      </Space>
+    );
+
   // Show transfer details
   const showTransferDetail = (transfer: CrossChainTransfer) => {
     setSelectedTransfer(transfer);
     setDetailModalVisible(true);
   };
 
-  // Get transfer status step
-  const getTransferStep = (status: CrossChainTransfer['status']): number => {
-    const steps = { initiated: 0, locked: 1, verified: 2, completed: 3, failed: 1, refunded: 1 };
-    return steps[status] || 0;
-  };
-
   // Bridge columns
   const bridgeColumns: ColumnsType<BridgeStatus> = [
     {
@@ -263,11 +504,58 @@ const CrossChainBridge: React.FC = () => {
     {
       title: 'Action',
       key: 'action',
-      width: 100,
+      width: 240,
       render: (_, record) => (
-        <Button size="small" type="link" onClick={() => showTransferDetail(record)}>
-          View
-        </Button>
+        <Space>
+          <Button size="small" type="link" onClick={() => showTransferDetail(record)}>
+            View
+          </Button>
+          {renderStuckActions(record)}
+        </Space>
+      ),
+    },
+  ];
+
+  // Liquidity columns
+  const liquidityColumns: ColumnsType<BridgeLiquidity> = [
+    {
+      title: 'Bridge',
+      key: 'bridge',
+      render: (_, record) =>
+        bridges.find((bridge) => bridge.bridgeId === record.bridgeId)?.name ?? record.bridgeId,
+    },
+    {
+      title: 'Available',
+      dataIndex: 'availableLiquidity',
+      key: 'availableLiquidity',
+      render: (available: number, record) => (
+        <Text strong>
+          {available.toLocaleString()} <Text type="secondary">on {record.targetChain}</Text>
+        </Text>
+      ),
+    },
+    {
+      title: 'Locked in Transit',
+      dataIndex: 'lockedAmount',
+      key: 'lockedAmount',
+      render: (locked: number) => locked.toLocaleString(),
+    },
+    {
+      title: 'Pending',
+      dataIndex: 'pendingTransfers',
+      key: 'pendingTransfers',
+      render: (count: number) => <Badge count={count} showZero color="#faad14" />,
+    },
+    {
+      title: 'Utilization',
+      dataIndex: 'utilization',
+      key: 'utilization',
+      render: (utilization: number) => (
+        <Progress
+          percent={Math.round(utilization * 100)}
+          size="small"
+          status={utilization > 0.8 ? 'exception' : 'normal'}
+        />
       ),
     },
   ];
@@ -399,6 +687,18 @@ const CrossChainBridge: React.FC = () => {
         />
       </Card>
 
+      {/* Bridge Liquidity */}
+      {metrics?.liquidity && (
+        <Card title="Bridge Liquidity" style={{ marginBottom: '24px' }}>
+          <Table
+            columns={liquidityColumns}
+            dataSource={metrics.liquidity}
+            rowKey="bridgeId"
+            pagination={false}
+          />
+        </Card>
+      )}
+
       {/* Recent Transfers */}
       <Card title="Recent Transfers">
         <Table
@@ -422,69 +722,197 @@ const CrossChainBridge: React.FC = () => {
         />
       </Card>
 
-      {/* New Transfer Modal */}
+      {/* New Transfer Wizard */}
       <Modal
         title="Create Cross-Chain Transfer"
         open={transferModalVisible}
-        onCancel={() => setTransferModalVisible(false)}
+        onCancel={closeTransferModal}
         footer={null}
-        width={600}
+        width={640}
+        destroyOnClose
       >
-        <Form form={transferForm} layout="vertical" onFinish={handleTransferSubmit}>
-          <Form.Item label="Source Chain" name="sourceChain" rules={[{ required: true }]}>
-            <Select placeholder="Select source chain">
-              {supportedChains.map((chain) => (
-                <Select.Option key={chain.chainId} value={chain.chainId}>
-                  {chain.name}
-                </Select.Option>
-              ))}
-            </Select>
-          </Form.Item>
-
-          <Form.Item label="Target Chain" name="targetChain" rules={[{ required: true }]}>
-            <Select placeholder="Select target chain">
-              {supportedChains.map((chain) => (
-                <Select.Option key={chain.chainId} value={chain.chainId}>
-                  {chain.name}
-                </Select.Option>
-              ))}
-            </Select>
-          </Form.Item>
-
-          <Form.Item label="Token" name="token" rules={[{ required: true }]}>
-            <Select placeholder="Select token">
-              <Select.Option value="AUR">AUR</Select.Option>
-              <Select.Option value="ETH">ETH</Select.Option>
-              <Select.Option value="BTC">BTC</Select.Option>
-              <Select.Option value="USDC">USDC</Select.Option>
-            </Select>
-          </Form.Item>
-
-          <Form.Item label="Amount" name="amount" rules={[{ required: true }]}>
-            <InputNumber style={{ width: '100%' }} min={0} placeholder="Enter amount" />
-          </Form.Item>
-
-          <Form.Item label="Recipient Address" name="recipient" rules={[{ required: true }]}>
-            <Input placeholder="0x..." />
-          </Form.Item>
-
-          <Alert
-            message="Transfer Fee"
-            description="A bridge fee of 0.1% will be applied to this transfer. Estimated time: 5-10 minutes."
-            type="info"
-            showIcon
-            style={{ marginBottom: '16px' }}
-          />
+        <Steps
+          current={wizardStep}
+          size="small"
+          style={{ marginBottom: '24px' }}
+          items={[{ title: 'Details' }, { title: 'Review' }, { title: 'Track' }]}
+        />
+
+        {wizardStep === 0 && (
+          <Form form={transferForm} layout="vertical" onFinish={handleTransferReview}>
+            <Form.Item label="Source Chain" name="sourceChain" rules={[{ required: true }]}>
+              <Select placeholder="Select source chain">
+                {supportedChains.map((chain) => (
+                  <Select.Option
+                    key={chain.chainId}
+                    value={chain.chainId}
+                    disabled={chain.status !== 'connected'}
+                  >
+                    {chain.name}
+                  </Select.Option>
+                ))}
+              </Select>
+            </Form.Item>
+
+            <Form.Item
+              label="Target Chain"
+              name="targetChain"
+              dependencies={['sourceChain']}
+              rules={[
+                { required: true },
+                ({ getFieldValue }) => ({
+                  validator: (_, value) =>
+                    value && value === getFieldValue('sourceChain')
+                      ? Promise.reject(new Error('Target must differ from the source chain'))
+                      : Promise.resolve(),
+                }),
+              ]}
+            >
+              <Select placeholder="Select target chain">
+                {supportedChains.map((chain) => (
+                  <Select.Option
+                    key={chain.chainId}
+                    value={chain.chainId}
+                    disabled={chain.status !== 'connected'}
+                  >
+                    {chain.name}
+                  </Select.Option>
+                ))}
+              </Select>
+            </Form.Item>
+
+            <Form.Item label="Token" name="token" rules={[{ required: true }]}>
+              <Select
+                placeholder={routeTokens.length ? 'Select token' : 'Select both chains first'}
+                disabled={!routeTokens.length}
+                options={routeTokens.map((token) => ({ value: token, label: token }))}
+              />
+            </Form.Item>
+
+            <Form.Item
+              label="Amount"
+              name="amount"
+              extra={
+                sourceChain &&
+                `Between ${sourceChain.minTransferAmount.toLocaleString()} and ${sourceChain.maxTransferAmount.toLocaleString()} on ${sourceChain.name}`
+              }
+              rules={[
+                { required: true },
+                {
+                  validator: (_, value?: number) =>
+                    value === undefined ||
+                    !sourceChain ||
+                    (value >= sourceChain.minTransferAmount &&
+                      value <= sourceChain.maxTransferAmount)
+                      ? Promise.resolve()
+                      : Promise.reject(new Error('Amount is outside the source chain limits')),
+                },
+              ]}
+            >
+              <InputNumber style={{ width: '100%' }} min={0} placeholder="Enter amount" />
+            </Form.Item>
+
+            <Form.Item label="Recipient Address" name="recipient" rules={[{ required: true }]}>
+              <Input placeholder="0x..." />
+            </Form.Item>
+
+            {quote && (
+              <Alert
+                message={`Bridge fee ${quote.feePercent}%: ${quote.fee.toFixed(4)}`}
+                description={`Recipient receives ${quote.receiveAmount.toFixed(4)}. Estimated time: ${formatDuration(quote.estimatedSeconds)}.`}
+                type="info"
+                showIcon
+                style={{ marginBottom: '16px' }}
+              />
+            )}
+
+            <Form.Item>
+              <Space style={{ width: '100%', justifyContent: 'flex-end' }}>
+                <Button onClick={closeTransferModal}>Cancel</Button>
+                <Button type="primary" htmlType="submit">
+                  Review
+                </Button>
+              </Space>
+            </Form.Item>
+          </Form>
+        )}
+
+        {wizardStep === 1 && draft && draftQuote && (
+          <Space direction="vertical" style={{ width: '100%' }} size="middle">
+            <Descriptions column={1} bordered size="small">
+              <Descriptions.Item label="Route">
+                {chainById(draft.sourceChain)?.name} → {chainById(draft.targetChain)?.name}
+              </Descriptions.Item>
+              <Descriptions.Item label="Bridge">
+                {draftQuote.bridge?.name ?? 'New route'}
+              </Descriptions.Item>
+              <Descriptions.Item label="Amount">
+                {draft.amount.toFixed(4)} {draft.token}
+              </Descriptions.Item>
+              <Descriptions.Item label={`Fee (${draftQuote.feePercent}%)`}>
+                {draftQuote.fee.toFixed(4)} {draft.token}
+              </Descriptions.Item>
+              <Descriptions.Item label="Recipient Receives">
+                <Text strong>
+                  {draftQuote.receiveAmount.toFixed(4)} {draft.token}
+                </Text>
+              </Descriptions.Item>
+              <Descriptions.Item label="Recipient">
+                <Text copyable>{draft.recipient}</Text>
+              </Descriptions.Item>
+              <Descriptions.Item label="Estimated Time">
+                {formatDuration(draftQuote.estimatedSeconds)}
+              </Descriptions.Item>
+            </Descriptions>
+
+            {draftQuote.bridge && draftQuote.bridge.status !== 'active' && (
+              <Alert
+                type="warning"
+                showIcon
+                message={`The ${draftQuote.bridge.name} bridge is ${draftQuote.bridge.status}; the transfer may be delayed`}
+              />
+            )}
+            {draftQuote.liquidity && draftQuote.liquidity.availableLiquidity < draft.amount && (
+              <Alert
+                type="warning"
+                showIcon
+                message="Not enough liquidity on the target chain"
+                description={`Only ${draftQuote.liquidity.availableLiquidity.toLocaleString()} is available, so the transfer will fail at release and need a refund.`}
+              />
+            )}
 
-          <Form.Item>
             <Space style={{ width: '100%', justifyContent: 'flex-end' }}>
-              <Button onClick={() => setTransferModalVisible(false)}>Cancel</Button>
-              <Button type="primary" htmlType="submit" icon={<SendOutlined />}>
+              <Button onClick={() => setWizardStep(0)} disabled={submitting}>
+                Back
+              </Button>
+              <Button
+                type="primary"
+                icon={<SendOutlined />}
+                loading={submitting}
+                onClick={handleTransferSubmit}
+              >
                 Initiate Transfer
               </Button>
             </Space>
-          </Form.Item>
-        </Form>
+          </Space>
+        )}
+
+        {wizardStep === 2 && selectedTransfer && (
+          <Space direction="vertical" style={{ width: '100%' }} size="large">
+            <TransferProgress transfer={selectedTransfer} />
+            <Text type="secondary">
+              {isFinished(selectedTransfer)
+                ? `Transfer ${selectedTransfer.status}.`
+                : `Transfer ${selectedTransfer.id} is ${selectedTransfer.status}. You can close this window; it keeps going in the background.`}
+            </Text>
+            <Space style={{ width: '100%', justifyContent: 'flex-end' }}>
+              {renderStuckActions(selectedTransfer)}
+              <Button type="primary" onClick={closeTransferModal}>
+                Done
+              </Button>
+            </Space>
+          </Space>
+        )}
       </Modal>
 
       {/* Transfer Detail Modal */}
@@ -497,15 +925,21 @@ const CrossChainBridge: React.FC = () => {
       >
         {selectedTransfer && (
           <Space direction="vertical" style={{ width: '100%' }} size="large">
-            <Steps
-              current={getTransferStep(selectedTransfer.status)}
-              status={selectedTransfer.status === 'failed' ? 'error' : 'process'}
-            >
-              <Step title="Initiated" description="Transfer started" />
-              <Step title="Locked" description="Funds locked" />
-              <Step title="Verified" description="Transaction verified" />
-              <Step title="Completed" description="Transfer complete" />
-            </Steps>
+            <TransferProgress transfer={selectedTransfer} />
+
+            {isStuckTransfer(selectedTransfer) && (
+              <Alert
+                type={selectedTransfer.status === 'failed' ? 'error' : 'warning'}
+                showIcon
+                message={
+                  selectedTransfer.status === 'failed'
+                    ? 'Transfer failed with its funds still locked'
+                    : 'Transfer is taking longer than estimated'
+                }
+                description="Retry it from its last completed step, or refund the locked funds to the sender."
+                action={renderStuckActions(selectedTransfer)}
+              />
+            )}
 
             <Card size="small">
               <Space direction="vertical" style={{ width: '100%' }}>
@@ -526,10 +960,6 @@ const CrossChainBridge: React.FC = () => {
                 <Text>
                   <strong>Status:</strong> <Tag>{selectedTransfer.status.toUpperCase()}</Tag>
                 </Text>
-                <Text>
-                  <strong>Progress:</strong> {selectedTransfer.confirmations}/
-                  {selectedTransfer.requiredConfirmations} confirmations
-                </Text>
                 {selectedTransfer.sourceTransaction && (
                   <Text>
                     <strong>Source TX:</strong>{' '}
@@ -552,6 +982,14 @@ const CrossChainBridge: React.FC = () => {
                     {new Date(selectedTransfer.estimatedCompletionTime).toLocaleString()}
                   </Text>
                 )}
+                {selectedTransfer.completedAt && (
+                  <Text>
+                    <strong>
+                      {selectedTransfer.status === 'refunded' ? 'Refunded' : 'Completed'}:
+                    </strong>{' '}
+                    {new Date(selectedTransfer.completedAt).toLocaleString()}
+                  </Text>
+                )}
               </Space>
             </Card>
           </Space>
@@ -561,133 +999,4 @@ const CrossChainBridge: React.FC = () => {
   );
 };
 
-// Mock data generators
-const generateMockBridges = (): BridgeStatus[] => [
-  {
-    bridgeId: 'bridge-1',
-    name: 'Aurigraph ↔ Ethereum',
-    status: 'active',
-    sourceChain: 'Aurigraph',
-    targetChain: 'Ethereum',
-    totalValueLocked: 45000000,
-    totalTransfers: 12543,
-    averageTransferTime: 420,
-    successRate: 0.995,
-    lastTransferAt: new Date().toISOString(),
-  },
-  {
-    bridgeId: 'bridge-2',
-    name: 'Aurigraph ↔ BSC',
-    status: 'active',
-    sourceChain: 'Aurigraph',
-    targetChain: 'BSC',
-    totalValueLocked: 28000000,
-    totalTransfers: 8934,
-    averageTransferTime: 360,
-    successRate: 0.998,
-    lastTransferAt: new Date().toISOString(),
-  },
-  {
-    bridgeId: 'bridge-3',
-    name: 'Aurigraph ↔ Polygon',
-    status: 'maintenance',
-    sourceChain: 'Aurigraph',
-    targetChain: 'Polygon',
-    totalValueLocked: 15000000,
-    totalTransfers: 5421,
-    averageTransferTime: 300,
-    successRate: 0.992,
-  },
-];
-
-const generateMockTransfers = (count: number): CrossChainTransfer[] => {
-  const chains = ['Aurigraph', 'Ethereum', 'BSC', 'Polygon'];
-  const tokens = ['AUR', 'ETH', 'BTC', 'USDC'];
-  const statuses: CrossChainTransfer['status'][] = ['initiated', 'locked', 'verified', 'completed'];
-
-  return Array.from({ length: count }, (_, i) => {
-    const sourceChainIndex = Math.floor(Math.random() * chains.length);
-    let targetChainIndex = Math.floor(Math.random() * chains.length);
-    // Ensure source and target are different
-    while (targetChainIndex === sourceChainIndex) {
-      targetChainIndex = Math.floor(Math.random() * chains.length);
-    }
-
-    return {
-      id: `transfer-${Math.random().toString(36).substring(2, 15)}`,
-      bridgeId: `bridge-${(i % 3) + 1}`,
-      sourceChain: chains[sourceChainIndex] || 'Aurigraph',
-      targetChain: chains[targetChainIndex] || 'Ethereum',
-      sourceTransaction: `0x${Math.random().toString(16).substring(2)}`,
-      targetTransaction:
-        Math.random() > 0.5 ? `0x${Math.random().toString(16).substring(2)}` : undefined,
-      status: (statuses[Math.floor(Math.random() * statuses.length)] ||
-        'initiated') as CrossChainTransfer['status'],
-      token: tokens[Math.floor(Math.random() * tokens.length)] || 'AUR',
-      amount: Math.random() * 100 + 1,
-      sender: `0x${Math.random().toString(16).substring(2, 42)}`,
-      recipient: `0x${Math.random().toString(16).substring(2, 42)}`,
-      fee: Math.random() * 0.5,
-      initiatedAt: new Date(Date.now() - i * 300000).toISOString(),
-      completedAt:
-        Math.random() > 0.5 ? new Date(Date.now() - i * 300000 + 600000).toISOString() : undefined,
-      confirmations: Math.floor(Math.random() * 30),
-      requiredConfirmations: 30,
-    };
-  });
-};
-
-const generateMockChains = (): SupportedChain[] => [
-  {
-    chainId: 'aurigraph',
-    name: 'Aurigraph',
-    network: 'mainnet',
-    status: 'connected',
-    blockHeight: 1500250,
-    avgBlockTime: 2.5,
-    nativeToken: 'AUR',
-    supportedTokens: ['AUR', 'ETH', 'BTC', 'USDC', 'USDT'],
-    bridgeFee: 0.1,
-    minTransferAmount: 0.01,
-    maxTransferAmount: 1000000,
-  },
-  {
-    chainId: 'ethereum',
-    name: 'Ethereum',
-    network: 'mainnet',
-    status: 'connected',
-    blockHeight: 18500000,
-    avgBlockTime: 12,
-    nativeToken: 'ETH',
-    supportedTokens: ['ETH', 'AUR', 'USDC', 'USDT'],
-    bridgeFee: 0.15,
-    minTransferAmount: 0.001,
-    maxTransferAmount: 100000,
-  },
-  {
-    chainId: 'bsc',
-    name: 'Binance Smart Chain',
-    network: 'mainnet',
-    status: 'connected',
-    blockHeight: 32500000,
-    avgBlockTime: 3,
-    nativeToken: 'BNB',
-    supportedTokens: ['BNB', 'AUR', 'ETH', 'USDC'],
-    bridgeFee: 0.1,
-    minTransferAmount: 0.01,
-    maxTransferAmount: 500000,
-  },
-];
-
-const generateMockMetrics = (): BridgeMetrics => ({
-  totalBridges: 3,
-  activeBridges: 2,
-  totalValueLocked: 88000000,
-  totalTransfers24h: 1243,
-  totalVolume24h: 12500000,
-  averageTransferTime: 380,
-  successRate: 0.996,
-  failedTransfers24h: 5,
-});
-
 export default CrossChainBridge;
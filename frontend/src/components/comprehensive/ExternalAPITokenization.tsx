@@ -31,7 +31,12 @@ import {
   Switch,
   InputNumber,
 } from 'antd';
-import { API_BASE_URL } from '../../utils/constants';
+import { apiClient } from '../../services/apiClient';
+import type {
+  APISource,
+  TokenizedTransaction,
+  TokenizationChannelStats as ChannelStats,
+} from '../../types/tokenization';
 import {
   ApiOutlined,
   DatabaseOutlined,
@@ -53,41 +58,6 @@ const { TextArea } = Input;
 const { Option } = Select;
 const { TabPane } = Tabs;
 
-interface APISource {
-  id: string;
-  name: string;
-  url: string;
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
-  headers: Record<string, string>;
-  channel: string;
-  status: 'active' | 'paused' | 'error';
-  pollInterval: number; // seconds
-  lastFetch?: string;
-  totalTokenized: number;
-  errorCount: number;
-}
-
-interface TokenizedTransaction {
-  id: string;
-  sourceId: string;
-  sourceName: string;
-  channel: string;
-  timestamp: string;
-  dataHash: string;
-  size: number;
-  status: 'pending' | 'stored' | 'failed';
-  leveldbPath?: string;
-}
-
-interface ChannelStats {
-  channelId: string;
-  name: string;
-  transactionCount: number;
-  totalSize: number;
-  lastUpdated: string;
-  status: 'active' | 'inactive';
-}
-
 const ExternalAPITokenization: React.FC = () => {
   const [apiSources, setApiSources] = useState<APISource[]>([]);
   const [tokenizedTxs, setTokenizedTxs] = useState<TokenizedTransaction[]>([]);
@@ -113,54 +83,7 @@ const ExternalAPITokenization: React.FC = () => {
   // Fetch API sources
   const fetchAPISources = useCallback(async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/tokenization/sources`);
-      if (!response.ok) {
-        // Use mock data if endpoint not available yet
-        const mockSources: APISource[] = [
-          {
-            id: 'src-1',
-            name: 'Weather API',
-            url: 'https://api.openweathermap.org/data/2.5/weather?q=London',
-            method: 'GET',
-            headers: { 'Content-Type': 'application/json' },
-            channel: 'weather-data',
-            status: 'active',
-            pollInterval: 60,
-            lastFetch: new Date().toISOString(),
-            totalTokenized: 1250,
-            errorCount: 5,
-          },
-          {
-            id: 'src-2',
-            name: 'Stock Market Feed',
-            url: 'https://api.example.com/stocks/AAPL',
-            method: 'GET',
-            headers: { Authorization: 'Bearer xxx' },
-            channel: 'stock-prices',
-            status: 'active',
-            pollInterval: 30,
-            lastFetch: new Date(Date.now() - 25000).toISOString(),
-            totalTokenized: 3420,
-            errorCount: 0,
-          },
-          {
-            id: 'src-3',
-            name: 'IoT Sensor Data',
-            url: 'https://iot.example.com/sensors/temp',
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json', 'API-Key': 'xxx' },
-            channel: 'iot-sensors',
-            status: 'paused',
-            pollInterval: 10,
-            lastFetch: new Date(Date.now() - 300000).toISOString(),
-            totalTokenized: 15240,
-            errorCount: 120,
-          },
-        ];
-        setApiSources(mockSources);
-        return;
-      }
-      const data = await response.json();
+      const { data } = await apiClient.get<{ sources?: APISource[] }>('/tokenization/sources');
       setApiSources(data.sources || []);
     } catch (error) {
       console.error('Failed to fetch API sources:', error);
@@ -170,49 +93,10 @@ const ExternalAPITokenization: React.FC = () => {
   // Fetch tokenized transactions
   const fetchTokenizedTransactions = useCallback(async () => {
     try {
-      const response = await fetch(
-        `${API_BASE_URL}/tokenization/transactions?limit=50`
+      const { data } = await apiClient.get<{ transactions?: TokenizedTransaction[] }>(
+        '/tokenization/transactions',
+        { params: { limit: 50 } }
       );
-      if (!response.ok) {
-        // Use mock data
-        const mockTxs: TokenizedTransaction[] = [
-          {
-            id: 'tx-1',
-            sourceId: 'src-1',
-            sourceName: 'Weather API',
-            channel: 'weather-data',
-            timestamp: new Date().toISOString(),
-            dataHash: '0x3f2a4b8c9d1e5f6a...',
-            size: 1024,
-            status: 'stored',
-            leveldbPath: '/data/slim-node-1/weather-data/block-12345',
-          },
-          {
-            id: 'tx-2',
-            sourceId: 'src-2',
-            sourceName: 'Stock Market Feed',
-            channel: 'stock-prices',
-            timestamp: new Date(Date.now() - 15000).toISOString(),
-            dataHash: '0x7a8b9c1d2e3f4g5h...',
-            size: 512,
-            status: 'stored',
-            leveldbPath: '/data/slim-node-2/stock-prices/block-12346',
-          },
-          {
-            id: 'tx-3',
-            sourceId: 'src-1',
-            sourceName: 'Weather API',
-            channel: 'weather-data',
-            timestamp: new Date(Date.now() - 45000).toISOString(),
-            dataHash: '0x9c1d2e3f4g5h6i7j...',
-            size: 1120,
-            status: 'pending',
-          },
-        ];
-        setTokenizedTxs(mockTxs);
-        return;
-      }
-      const data = await response.json();
       setTokenizedTxs(data.transactions || []);
     } catch (error) {
       console.error('Failed to fetch tokenized transactions:', error);
@@ -222,39 +106,9 @@ const ExternalAPITokenization: React.FC = () => {
   // Fetch channel statistics
   const fetchChannelStats = useCallback(async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/tokenization/channels/stats`);
-      if (!response.ok) {
-        // Use mock data
-        const mockChannelStats: ChannelStats[] = [
-          {
-            channelId: 'weather-data',
-            name: 'Weather Data Channel',
-            transactionCount: 1250,
-            totalSize: 1280000,
-            lastUpdated: new Date().toISOString(),
-            status: 'active',
-          },
-          {
-            channelId: 'stock-prices',
-            name: 'Stock Prices Channel',
-            transactionCount: 3420,
-            totalSize: 1751040,
-            lastUpdated: new Date(Date.now() - 25000).toISOString(),
-            status: 'active',
-          },
-          {
-            channelId: 'iot-sensors',
-            name: 'IoT Sensors Channel',
-            transactionCount: 15240,
-            totalSize: 15605760,
-            lastUpdated: new Date(Date.now() - 300000).toISOString(),
-            status: 'inactive',
-          },
-        ];
-        setChannelStats(mockChannelStats);
-        return;
-      }
-      const data = await response.json();
+      const { data } = await apiClient.get<{ channels?: ChannelStats[] }>(
+        '/tokenization/channels/stats'
+      );
       setChannelStats(data.channels || []);
     } catch (error) {
       console.error('Failed to fetch channel stats:', error);
@@ -308,23 +162,15 @@ const ExternalAPITokenization: React.FC = () => {
   const handleAddSource = async (values: any) => {
     setLoading(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/tokenization/sources`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          name: values.name,
-          url: values.url,
-          method: values.method,
-          headers: JSON.parse(values.headers || '{}'),
-          channel: values.channel,
-          pollInterval: values.pollInterval,
-        }),
+      await apiClient.post('/tokenization/sources', {
+        name: values.name,
+        url: values.url,
+        method: values.method,
+        headers: JSON.parse(values.headers || '{}'),
+        channel: values.channel,
+        pollInterval: values.pollInterval,
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to add API source');
-      }
-
       message.success(`API source "${values.name}" added successfully`);
       setModalVisible(false);
       form.resetFields();
@@ -342,18 +188,7 @@ const ExternalAPITokenization: React.FC = () => {
   const toggleSourceStatus = async (sourceId: string, currentStatus: string) => {
     const newStatus = currentStatus === 'active' ? 'paused' : 'active';
     try {
-      const response = await fetch(
-        `http://localhost:9003/api/v11/tokenization/sources/${sourceId}/status`,
-        {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ status: newStatus }),
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error('Failed to update source status');
-      }
+      await apiClient.put(`/tokenization/sources/${sourceId}/status`, { status: newStatus });
 
       message.success(`Source ${newStatus === 'active' ? 'activated' : 'paused'}`);
       await fetchAPISources();
@@ -374,16 +209,7 @@ const ExternalAPITokenization: React.FC = () => {
       okType: 'danger',
       onOk: async () => {
         try {
-          const response = await fetch(
-            `http://localhost:9003/api/v11/tokenization/sources/${sourceId}`,
-            {
-              method: 'DELETE',
-            }
-          );
-
-          if (!response.ok) {
-            throw new Error('Failed to delete source');
-          }
+          await apiClient.delete(`/tokenization/sources/${sourceId}`);
 
           message.success('API source deleted successfully');
           await fetchAPISources();
@@ -0,0 +1,116 @@
+/**
+ * Performance Heatmap
+ *
+ * One cell per performance bucket, filled column by column so each column
+ * covers the same span of time (an hour, a day...).
+ */
+
+import React from 'react';
+import { Space, Typography } from 'antd';
+import type { ValidatorPerformanceBucket } from '../../types/comprehensive';
+
+const { Text } = Typography;
+
+interface PerformanceHeatmapProps {
+  buckets: ValidatorPerformanceBucket[];
+  metric: 'uptime' | 'missed';
+  /** Cells per column */
+  rows: number;
+  bucketMinutes: number;
+}
+
+const UPTIME_BANDS = [
+  { min: 99.9, color: '#389e0d', label: '≥ 99.9%' },
+  { min: 99, color: '#95de64', label: '≥ 99%' },
+  { min: 95, color: '#fadb14', label: '≥ 95%' },
+  { min: 80, color: '#fa8c16', label: '≥ 80%' },
+  { min: 0, color: '#f5222d', label: '< 80%' },
+];
+
+const uptimeColor = (uptime: number) =>
+  UPTIME_BANDS.find((band) => uptime >= band.min)?.color ?? '#f5222d';
+
+const missedColor = (missed: number, maxMissed: number) =>
+  missed === 0 ? '#f0f0f0' : `rgba(245, 34, 45, ${0.2 + 0.8 * (missed / maxMissed)})`;
+
+const formatBucket = (start: string, bucketMinutes: number) => {
+  const date = new Date(start);
+  return bucketMinutes >= 24 * 60
+    ? date.toLocaleDateString()
+    : date.toLocaleString(undefined, {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+};
+
+const PerformanceHeatmap: React.FC<PerformanceHeatmapProps> = ({
+  buckets,
+  metric,
+  rows,
+  bucketMinutes,
+}) => {
+  const maxMissed = Math.max(0, ...buckets.map((bucket) => bucket.missedBlocks));
+  const bucketLabel = bucketMinutes >= 60 ? `${bucketMinutes / 60}h` : `${bucketMinutes}m`;
+
+  return (
+    <Space direction="vertical" size="small" style={{ width: '100%' }}>
+      <div
+        style={{
+          display: 'grid',
+          gridTemplateRows: `repeat(${rows}, 14px)`,
+          gridAutoFlow: 'column',
+          gridAutoColumns: 'minmax(6px, 1fr)',
+          gap: 2,
+        }}
+      >
+        {buckets.map((bucket) => (
+          <div
+            key={bucket.start}
+            title={`${formatBucket(bucket.start, bucketMinutes)} · ${
+              metric === 'uptime'
+                ? `${bucket.uptimePercentage.toFixed(2)}% uptime`
+                : `${bucket.missedBlocks} missed of ${bucket.blocksSigned + bucket.missedBlocks}`
+            }`}
+            style={{
+              borderRadius: 2,
+              background:
+                metric === 'uptime'
+                  ? uptimeColor(bucket.uptimePercentage)
+                  : missedColor(bucket.missedBlocks, maxMissed),
+            }}
+          />
+        ))}
+      </div>
+      {metric === 'uptime' ? (
+        <Space wrap size="middle">
+          {UPTIME_BANDS.map((band) => (
+            <Space key={band.label} size={4}>
+              <span
+                style={{
+                  display: 'inline-block',
+                  width: 10,
+                  height: 10,
+                  borderRadius: 2,
+                  background: band.color,
+                }}
+              />
+              <Text type="secondary" style={{ fontSize: 12 }}>
+                {band.label}
+              </Text>
+            </Space>
+          ))}
+        </Space>
+      ) : (
+        <Text type="secondary" style={{ fontSize: 12 }}>
+          {maxMissed > 0
+            ? `Darker cells missed more blocks; the darkest missed ${maxMissed} in ${bucketLabel}.`
+            : 'No blocks missed in this period.'}
+        </Text>
+      )}
+    </Space>
+  );
+};
+
+export default PerformanceHeatmap;
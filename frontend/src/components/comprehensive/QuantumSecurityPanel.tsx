@@ -43,7 +43,7 @@ import type {
   SecurityMetrics,
   SecurityAudit,
 } from '../../types/comprehensive';
-import { API_BASE_URL } from '../../utils/constants';
+import { apiClient } from '../../services/apiClient';
 import { comprehensivePortalService } from '../../services/ComprehensivePortalService';
 
 const { Text, Title } = Typography;
@@ -133,16 +133,11 @@ const QuantumSecurityPanel: React.FC = () => {
       message.loading('Running vulnerability scan...', 0);
 
       // Call REAL backend vulnerability scan API
-      const response = await fetch(`${API_BASE_URL}/security/scan`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const result = await response.json();
+      const { data: result } = await apiClient.post<{ findings?: string }>(
+        '/security/scan',
+        undefined,
+        { timeout: 'longOperation' }
+      );
       message.destroy();
       message.success(`Vulnerability scan completed: ${result.findings || 'No issues found'}`);
 
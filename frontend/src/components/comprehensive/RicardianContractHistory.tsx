@@ -0,0 +1,475 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  MenuItem,
+  Paper,
+  Select,
+  SelectChangeEvent,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { CheckCircle, Error as ErrorIcon, History, RateReview } from '@mui/icons-material';
+import { ricardianApi } from '../../services/ricardianApi';
+import { diffTerms, extractTerms, verifyLineage } from '../../services/ricardianVersioning';
+import type { AmendmentProposal, AmendmentStatus, RicardianContract } from '../../types/ricardian';
+import { handleApiError } from '../../utils/apiErrorHandler';
+import { diffLines, diffWords, type DiffRow } from '../../utils/textDiff';
+
+const ROW_COLORS: Record<DiffRow['type'], string | undefined> = {
+  unchanged: undefined,
+  added: 'rgba(76, 175, 80, 0.12)',
+  removed: 'rgba(244, 67, 54, 0.12)',
+  changed: 'rgba(255, 152, 0, 0.12)',
+};
+
+const AMENDMENT_COLORS: Record<AmendmentStatus, 'warning' | 'success' | 'error' | 'default'> = {
+  proposed: 'warning',
+  accepted: 'success',
+  rejected: 'error',
+  superseded: 'default',
+};
+
+const shortHash = (hash: string | null) => (hash ? `${hash.slice(0, 10)}…${hash.slice(-6)}` : '—');
+
+const ChangedLine: React.FC<{ row: DiffRow; side: 'left' | 'right' }> = ({ row, side }) => {
+  if (row.type !== 'changed') return <>{side === 'left' ? row.left : row.right}</>;
+
+  const hidden = side === 'left' ? 'added' : 'removed';
+  return (
+    <>
+      {diffWords(row.left ?? '', row.right ?? '')
+        .filter((word) => word.type !== hidden)
+        .map((word, index) =>
+          word.type === 'same' ? (
+            <span key={index}>{word.text}</span>
+          ) : (
+            <Box
+              key={index}
+              component={word.type === 'removed' ? 'del' : 'ins'}
+              sx={{
+                bgcolor:
+                  word.type === 'removed' ? 'rgba(244, 67, 54, 0.3)' : 'rgba(76, 175, 80, 0.3)',
+                textDecoration: word.type === 'removed' ? 'line-through' : 'none',
+              }}
+            >
+              {word.text}
+            </Box>
+          )
+        )}
+    </>
+  );
+};
+
+/**
+ * Side-by-side redline of two legal texts, with the terms that changed
+ */
+export const ContractDiffView: React.FC<{
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+}> = ({ before, after, beforeLabel, afterLabel }) => {
+  const rows = useMemo(() => diffLines(before, after), [before, after]);
+  const termChanges = useMemo(
+    () => diffTerms(extractTerms(before), extractTerms(after)),
+    [before, after]
+  );
+
+  return (
+    <Box>
+      <Box display="flex" flexWrap="wrap" gap={1} mb={1}>
+        {termChanges.length === 0 ? (
+          <Chip size="small" label="No term changes" />
+        ) : (
+          termChanges.map((change) => (
+            <Chip
+              key={`${change.type}-${change.key}`}
+              size="small"
+              label={`${change.key} ${change.type}`}
+              color={
+                change.type === 'added'
+                  ? 'success'
+                  : change.type === 'removed'
+                    ? 'error'
+                    : 'warning'
+              }
+            />
+          ))
+        )}
+      </Box>
+      <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 320 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ width: '50%' }}>{beforeLabel}</TableCell>
+              <TableCell sx={{ width: '50%' }}>{afterLabel}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map((row, index) => (
+              <TableRow key={index} sx={{ bgcolor: ROW_COLORS[row.type] }}>
+                {(['left', 'right'] as const).map((side) => (
+                  <TableCell
+                    key={side}
+                    sx={{ whiteSpace: 'pre-wrap', fontSize: 12, verticalAlign: 'top' }}
+                  >
+                    <ChangedLine row={row} side={side} />
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+};
+
+interface RicardianContractHistoryProps {
+  contract: RicardianContract;
+  canAmend: boolean;
+  onUpdated: (contract: RicardianContract) => void;
+}
+
+/**
+ * Version lineage, version comparison and the amendment workflow of a contract
+ */
+export const RicardianContractHistory: React.FC<RicardianContractHistoryProps> = ({
+  contract,
+  canAmend,
+  onUpdated,
+}) => {
+  const [compareFrom, setCompareFrom] = useState(Math.max(1, contract.version - 1));
+  const [compareTo, setCompareTo] = useState(contract.version);
+  const [reviewing, setReviewing] = useState<AmendmentProposal | null>(null);
+  const [proposeOpen, setProposeOpen] = useState(false);
+  const [proposal, setProposal] = useState({
+    proposedBy: '',
+    summary: '',
+    legalText: '',
+    executableCode: '',
+  });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const lineage = useMemo(() => verifyLineage(contract), [contract]);
+
+  useEffect(() => {
+    setCompareFrom(Math.max(1, contract.version - 1));
+    setCompareTo(contract.version);
+  }, [contract]);
+
+  const partyName = (partyId: string) =>
+    contract.parties.find((party) => party.id === partyId)?.name ?? partyId;
+  const versionText = (version: number) =>
+    contract.versions.find((entry) => entry.version === version)?.legalText ?? '';
+
+  const run = async (action: () => Promise<RicardianContract>, failure: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      onUpdated(await action());
+      return true;
+    } catch (err) {
+      setError(handleApiError(err, { customMessage: failure, silent: true }).message);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openProposal = () => {
+    setProposal({
+      proposedBy: contract.parties[0]?.id ?? '',
+      summary: '',
+      legalText: contract.legalText,
+      executableCode: contract.executableCode,
+    });
+    setProposeOpen(true);
+  };
+
+  const submitProposal = async () => {
+    const submitted = await run(
+      () => ricardianApi.proposeAmendment(contract.id, proposal),
+      'Failed to propose amendment'
+    );
+    if (submitted) setProposeOpen(false);
+  };
+
+  const resolve = async (amendment: AmendmentProposal, accept: boolean) => {
+    const resolved = await run(
+      () =>
+        accept
+          ? ricardianApi.acceptAmendment(contract.id, amendment.id)
+          : ricardianApi.rejectAmendment(contract.id, amendment.id),
+      accept ? 'Failed to accept amendment' : 'Failed to reject amendment'
+    );
+    if (resolved) setReviewing(null);
+  };
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Typography variant="subtitle2" gutterBottom>
+        Version History
+      </Typography>
+      <List dense>
+        {[...contract.versions].reverse().map((entry) => {
+          const check = lineage.find((item) => item.version === entry.version);
+          return (
+            <ListItem key={entry.version}>
+              <ListItemIcon>
+                {check && !check.valid ? <ErrorIcon color="error" /> : <History />}
+              </ListItemIcon>
+              <ListItemText
+                primary={`v${entry.version} · ${entry.summary}${
+                  entry.version === contract.version ? ' (current)' : ''
+                }`}
+                secondary={
+                  <>
+                    {`Hash ${shortHash(entry.versionHash)} ← ${shortHash(entry.previousHash)} · ${new Date(entry.createdAt).toLocaleString()} · ${entry.signatures.length} signature(s)`}
+                    {check && !check.valid && ` · ${check.reason}`}
+                  </>
+                }
+                secondaryTypographyProps={{ sx: { fontFamily: 'monospace', fontSize: 11 } }}
+              />
+              {check?.valid && <CheckCircle color="success" fontSize="small" />}
+            </ListItem>
+          );
+        })}
+      </List>
+
+      {contract.versions.length > 1 && (
+        <Box mb={3}>
+          <Box display="flex" gap={2} mb={1}>
+            {(
+              [
+                ['From', compareFrom, setCompareFrom],
+                ['To', compareTo, setCompareTo],
+              ] as const
+            ).map(([label, value, setValue]) => (
+              <FormControl key={label} size="small" sx={{ minWidth: 120 }}>
+                <InputLabel>{label}</InputLabel>
+                <Select
+                  value={String(value)}
+                  label={label}
+                  onChange={(e: SelectChangeEvent<string>) => setValue(Number(e.target.value))}
+                >
+                  {contract.versions.map((entry) => (
+                    <MenuItem key={entry.version} value={String(entry.version)}>
+                      v{entry.version}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            ))}
+          </Box>
+          <ContractDiffView
+            before={versionText(compareFrom)}
+            after={versionText(compareTo)}
+            beforeLabel={`v${compareFrom}`}
+            afterLabel={`v${compareTo}`}
+          />
+        </Box>
+      )}
+
+      <Box display="flex" justifyContent="space-between" alignItems="center">
+        <Typography variant="subtitle2">Amendments</Typography>
+        <Button
+          size="small"
+          startIcon={<RateReview />}
+          disabled={!canAmend || contract.parties.length === 0}
+          onClick={openProposal}
+        >
+          Propose Amendment
+        </Button>
+      </Box>
+      <List dense>
+        {contract.amendments.length === 0 && (
+          <ListItem>
+            <ListItemText secondary="No amendments proposed" />
+          </ListItem>
+        )}
+        {[...contract.amendments].reverse().map((amendment) => (
+          <ListItem key={amendment.id} alignItems="flex-start">
+            <ListItemText
+              primary={
+                <Box display="flex" alignItems="center" gap={1}>
+                  {amendment.summary}
+                  <Chip
+                    size="small"
+                    label={amendment.status}
+                    color={AMENDMENT_COLORS[amendment.status]}
+                  />
+                </Box>
+              }
+              secondary={`Proposed by ${partyName(amendment.proposedBy)} against v${amendment.baseVersion}${
+                amendment.affectedParties.length > 0
+                  ? ` · resets signatures of ${amendment.affectedParties.map(partyName).join(', ')}`
+                  : ''
+              }`}
+            />
+            {amendment.status === 'proposed' && (
+              <Button size="small" onClick={() => setReviewing(amendment)}>
+                Review
+              </Button>
+            )}
+          </ListItem>
+        ))}
+      </List>
+
+      {/* Review Amendment Dialog */}
+      <Dialog open={reviewing !== null} onClose={() => setReviewing(null)} maxWidth="lg" fullWidth>
+        {reviewing && (
+          <>
+            <DialogTitle>Amendment: {reviewing.summary}</DialogTitle>
+            <DialogContent>
+              {reviewing.baseVersion !== contract.version ? (
+                <Alert severity="warning" sx={{ mb: 2 }}>
+                  This amendment edits v{reviewing.baseVersion} but the contract is now at v
+                  {contract.version}. It can no longer be accepted.
+                </Alert>
+              ) : (
+                contract.parties.some((party) => party.signed) && (
+                  <Alert severity="info" sx={{ mb: 2 }}>
+                    Accepting resets the signatures of{' '}
+                    {contract.parties
+                      .filter((party) => party.signed)
+                      .map((party) => party.name)
+                      .join(', ')}
+                    . They must sign the amended version.
+                  </Alert>
+                )
+              )}
+              <ContractDiffView
+                before={versionText(reviewing.baseVersion)}
+                after={reviewing.legalText}
+                beforeLabel={`v${reviewing.baseVersion}`}
+                afterLabel="Proposed"
+              />
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={() => setReviewing(null)}>Close</Button>
+              <Button
+                color="error"
+                disabled={!canAmend || busy}
+                onClick={() => resolve(reviewing, false)}
+              >
+                Reject
+              </Button>
+              <Button
+                variant="contained"
+                disabled={!canAmend || busy || reviewing.baseVersion !== contract.version}
+                onClick={() => resolve(reviewing, true)}
+              >
+                Accept as v{contract.version + 1}
+              </Button>
+            </DialogActions>
+          </>
+        )}
+      </Dialog>
+
+      {/* Propose Amendment Dialog */}
+      <Dialog open={proposeOpen} onClose={() => setProposeOpen(false)} maxWidth="lg" fullWidth>
+        <DialogTitle>Propose Amendment to v{contract.version}</DialogTitle>
+        <DialogContent>
+          <Box display="flex" gap={2} mt={1}>
+            <FormControl size="small" sx={{ minWidth: 200 }}>
+              <InputLabel>Proposed By</InputLabel>
+              <Select
+                value={proposal.proposedBy}
+                label="Proposed By"
+                onChange={(e: SelectChangeEvent<string>) =>
+                  setProposal({ ...proposal, proposedBy: e.target.value })
+                }
+              >
+                {contract.parties.map((party) => (
+                  <MenuItem key={party.id} value={party.id}>
+                    {party.name} ({party.role})
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <TextField
+              fullWidth
+              size="small"
+              label="Summary"
+              value={proposal.summary}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setProposal({ ...proposal, summary: e.target.value })
+              }
+            />
+          </Box>
+          <TextField
+            fullWidth
+            multiline
+            rows={8}
+            label="Amended Legal Text"
+            margin="normal"
+            value={proposal.legalText}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setProposal({ ...proposal, legalText: e.target.value })
+            }
+          />
+          <TextField
+            fullWidth
+            multiline
+            rows={4}
+            label="Amended Executable Code"
+            margin="normal"
+            value={proposal.executableCode}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setProposal({ ...proposal, executableCode: e.target.value })
+            }
+            InputProps={{ sx: { fontFamily: 'monospace', fontSize: 12 } }}
+          />
+          <Typography variant="subtitle2" mt={2} mb={1}>
+            Redline
+          </Typography>
+          <ContractDiffView
+            before={contract.legalText}
+            after={proposal.legalText}
+            beforeLabel={`v${contract.version}`}
+            afterLabel="Proposed"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setProposeOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            disabled={busy || !proposal.summary.trim() || !proposal.proposedBy}
+            onClick={submitProposal}
+          >
+            Submit Proposal
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default RicardianContractHistory;
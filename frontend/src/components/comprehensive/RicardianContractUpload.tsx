@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import {
   Box,
   Card,
@@ -49,42 +49,30 @@ import {
   Security,
   Visibility,
   Edit,
+  Error as ErrorIcon,
+  FileDownload,
 } from '@mui/icons-material';
-import { API_BASE_URL } from '../../utils/constants';
-
-interface ContractParty {
-  id: string;
-  name: string;
-  role: string; // BUYER, SELLER, VALIDATOR, WITNESS
-  address: string;
-  email?: string;
-  kycVerified: boolean;
-  signatureRequired: boolean;
-  signed: boolean;
-  signedAt?: Date;
-}
-
-interface RicardianContract {
-  id: string;
-  name: string;
-  type: string;
-  status: 'draft' | 'pending_signatures' | 'active' | 'executed' | 'terminated';
-  legalText: string;
-  executableCode: string;
-  jurisdiction: string;
-  parties: ContractParty[];
-  terms: string[];
-  signatures: any[];
-  uploadedDocument?: {
-    fileName: string;
-    fileSize: number;
-    uploadedAt: Date;
-  };
-  enforceabilityScore: number;
-  riskAssessment: string;
-  createdAt: Date;
-  activatedAt?: Date;
-}
+import { usePermission } from '../../hooks/usePermission';
+import { RicardianContractHistory } from './RicardianContractHistory';
+import { ricardianApi } from '../../services/ricardianApi';
+import {
+  certificateLines,
+  enrollParty,
+  getSigners,
+  hashDocument,
+  signatureCertificate,
+  signContract as signAsParty,
+  verifyContractSignatures,
+} from '../../services/ricardianSigning';
+import type {
+  ContractParty,
+  RicardianContract,
+  RicardianContractDraft,
+  SignatureVerification,
+} from '../../types/ricardian';
+import { handleApiError } from '../../utils/apiErrorHandler';
+import { downloadBlob } from '../../utils/download';
+import { createTextPdf } from '../../utils/pdf';
 
 export const RicardianContractUpload: React.FC = () => {
   const [contracts, setContracts] = useState<RicardianContract[]>([]);
@@ -94,12 +82,43 @@ export const RicardianContractUpload: React.FC = () => {
   const [selectedContract, setSelectedContract] = useState<RicardianContract | null>(null);
   const [activeStep, setActiveStep] = useState(0);
   const [converting, setConverting] = useState(false);
+  const [signing, setSigning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [signerId, setSignerId] = useState(() => getSigners()[0]?.id ?? '');
+  const [verifications, setVerifications] = useState<SignatureVerification[]>([]);
 
   // Upload form state
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [contractType, setContractType] = useState('REAL_ESTATE');
   const [jurisdiction, setJurisdiction] = useState('California');
-  const [convertedContract, setConvertedContract] = useState<RicardianContract | null>(null);
+  const [convertedContract, setConvertedContract] = useState<RicardianContractDraft | null>(null);
+  const canDeploy = usePermission('Smart Contracts', 'deploy');
+
+  useEffect(() => {
+    ricardianApi
+      .getContracts()
+      .then(setContracts)
+      .catch((err) => {
+        handleApiError(err, { customMessage: 'Failed to load contracts', silent: true });
+      });
+  }, []);
+
+  // Verify the selected contract's signatures whenever it changes
+  useEffect(() => {
+    if (!selectedContract) return;
+    let cancelled = false;
+    verifyContractSignatures(selectedContract).then((results) => {
+      if (!cancelled) setVerifications(results);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedContract]);
+
+  const replaceContract = (updated: RicardianContract) => {
+    setContracts((current) => current.map((c) => (c.id === updated.id ? updated : c)));
+    setSelectedContract(updated);
+  };
 
   const steps = ['Upload Document', 'Review & Edit', 'Add Parties', 'Request Signatures'];
 
@@ -116,16 +135,17 @@ export const RicardianContractUpload: React.FC = () => {
       ];
 
       if (!validTypes.includes(file.type)) {
-        alert('Please upload a PDF, DOC, DOCX, or TXT file');
+        setError('Please upload a PDF, DOC, DOCX, or TXT file');
         return;
       }
 
       // Validate file size (max 10MB)
       if (file.size > 10 * 1024 * 1024) {
-        alert('File size must be less than 10MB');
+        setError('File size must be less than 10MB');
         return;
       }
 
+      setError(null);
       setUploadedFile(file);
     }
   }, []);
@@ -136,27 +156,10 @@ export const RicardianContractUpload: React.FC = () => {
 
     setConverting(true);
 
-    try {
-      // Create FormData for file upload
-      const formData = new FormData();
-      formData.append('file', uploadedFile);
-      formData.append('contractType', contractType);
-      formData.append('jurisdiction', jurisdiction);
-
-      // Call backend API
-      const response = await fetch(
-        `${API_BASE_URL}/contracts/ricardian/upload`,
-        {
-          method: 'POST',
-          body: formData,
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error('Failed to convert document');
-      }
+    setError(null);
 
-      const contract = await response.json();
+    try {
+      const contract = await ricardianApi.convertDocument(uploadedFile, contractType, jurisdiction);
 
       // Add default parties if none detected
       if (!contract.parties || contract.parties.length === 0) {
@@ -185,14 +188,15 @@ export const RicardianContractUpload: React.FC = () => {
       contract.uploadedDocument = {
         fileName: uploadedFile.name,
         fileSize: uploadedFile.size,
-        uploadedAt: new Date(),
+        uploadedAt: new Date().toISOString(),
       };
 
       setConvertedContract(contract);
       setActiveStep(1);
-    } catch (error) {
-      console.error('Error converting document:', error);
-      alert('Failed to convert document. Please try again.');
+    } catch (err) {
+      setError(
+        handleApiError(err, { customMessage: 'Failed to convert document', silent: true }).message
+      );
     } finally {
       setConverting(false);
     }
@@ -227,73 +231,80 @@ export const RicardianContractUpload: React.FC = () => {
     });
   };
 
-  // Deploy contract
+  // Register the contract, pinned to the hash of its legal text and code, with
+  // each party's signing key enrolled
   const deployContract = async () => {
     if (!convertedContract) return;
+    const signer = getSigners().find((candidate) => candidate.id === signerId);
+    if (!signer) return;
+    setError(null);
 
     try {
-      // Call backend API to create contract
-      const response = await fetch(`${API_BASE_URL}/contracts/ricardian`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(convertedContract),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to deploy contract');
-      }
-
-      const deployed = await response.json();
-      deployed.status = 'pending_signatures';
+      const parties = await Promise.all(
+        convertedContract.parties.map((party) => enrollParty(party, signer))
+      );
+      const documentHash = hashDocument(convertedContract);
+      const deployed = await ricardianApi.createContract(
+        { ...convertedContract, parties },
+        documentHash
+      );
 
-      setContracts([...contracts, deployed]);
+      setContracts([deployed, ...contracts]);
       setUploadDialogOpen(false);
       setActiveStep(0);
       setUploadedFile(null);
       setConvertedContract(null);
-    } catch (error) {
-      console.error('Error deploying contract:', error);
-      alert('Failed to deploy contract. Please try again.');
+    } catch (err) {
+      setError(
+        handleApiError(err, { customMessage: 'Failed to deploy contract', silent: true }).message
+      );
     }
   };
 
-  // Sign contract
-  const signContract = async (contractId: string, partyId: string) => {
-    // Simulate quantum-safe signature
-    const signature = {
-      partyId,
-      signature: '0x' + Math.random().toString(16).substr(2, 128),
-      algorithm: 'CRYSTALS-Dilithium',
-      signedAt: new Date(),
-    };
+  // Sign as a party, then activate once every required signature verifies
+  const signContract = async (contract: RicardianContract, party: ContractParty) => {
+    const signer = getSigners().find((candidate) => candidate.id === signerId);
+    if (!signer) return;
+    setSigning(true);
+    setError(null);
 
-    // Update contract
-    const updated = contracts.map((c) => {
-      if (c.id === contractId) {
-        // Update party signature status
-        const updatedParties = c.parties.map((p) => {
-          if (p.id === partyId) {
-            return { ...p, signed: true, signedAt: new Date() };
-          }
-          return p;
-        });
-
-        // Check if all required signatures collected
-        const allSigned = updatedParties.filter((p) => p.signatureRequired).every((p) => p.signed);
-
-        return {
-          ...c,
-          parties: updatedParties,
-          signatures: [...c.signatures, signature],
-          status: allSigned ? ('active' as const) : c.status,
-          activatedAt: allSigned ? new Date() : c.activatedAt,
-        };
+    try {
+      const signature = await signAsParty(contract, party, signer);
+      let updated = await ricardianApi.addSignature(contract.id, signature);
+
+      const required = updated.parties.filter((p) => p.signatureRequired);
+      if (required.every((p) => p.signed)) {
+        const results = await verifyContractSignatures(updated);
+        const failed = results.filter((result) => !result.valid);
+        if (failed.length > 0) {
+          const names = failed.map(
+            (result) => updated.parties.find((p) => p.id === result.partyId)?.name ?? result.partyId
+          );
+          throw new Error(`Signature verification failed for ${names.join(', ')}`);
+        }
+        updated = await ricardianApi.activateContract(contract.id);
       }
-      return c;
-    });
 
-    setContracts(updated);
-    setSignDialogOpen(false);
+      replaceContract(updated);
+      setSignDialogOpen(false);
+    } catch (err) {
+      setError(
+        handleApiError(err, { customMessage: 'Failed to sign contract', silent: true }).message
+      );
+    } finally {
+      setSigning(false);
+    }
+  };
+
+  const exportCertificate = (contract: RicardianContract, format: 'json' | 'pdf') => {
+    const certificate = signatureCertificate(contract, verifications);
+    const fileName = `signature-certificate-${contract.id}.${format}`;
+    downloadBlob(
+      format === 'json'
+        ? new Blob([JSON.stringify(certificate, null, 2)], { type: 'application/json' })
+        : createTextPdf(`Signature Certificate: ${contract.name}`, certificateLines(certificate)),
+      fileName
+    );
   };
 
   const getRiskColor = (risk: string) => {
@@ -323,6 +334,12 @@ export const RicardianContractUpload: React.FC = () => {
         </Button>
       </Box>
 
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
       {/* Stats Cards */}
       <Grid container spacing={3} mb={3}>
         <Grid item xs={12} md={3}>
@@ -406,6 +423,9 @@ export const RicardianContractUpload: React.FC = () => {
                         <Box display="flex" alignItems="center" gap={1}>
                           <Description />
                           {contract.name}
+                          {contract.version > 1 && (
+                            <Chip label={`v${contract.version}`} size="small" variant="outlined" />
+                          )}
                         </Box>
                       </TableCell>
                       <TableCell>
@@ -633,7 +653,7 @@ export const RicardianContractUpload: React.FC = () => {
                   label={`Enforceability: ${convertedContract.enforceabilityScore}%`}
                   color="primary"
                 />
-                <Chip icon={<Code />} label="Quantum-Safe Signatures" color="success" />
+                <Chip icon={<Code />} label="ECDSA P-256 Signatures" color="success" />
               </Box>
             </Box>
           )}
@@ -792,7 +812,12 @@ export const RicardianContractUpload: React.FC = () => {
             </Button>
           )}
           {activeStep === steps.length - 1 && (
-            <Button variant="contained" color="primary" onClick={deployContract}>
+            <Button
+              variant="contained"
+              color="primary"
+              disabled={!canDeploy}
+              onClick={deployContract}
+            >
               Deploy Contract
             </Button>
           )}
@@ -816,6 +841,7 @@ export const RicardianContractUpload: React.FC = () => {
                 sx={{ ml: 2 }}
                 color={selectedContract.status === 'active' ? 'success' : 'warning'}
               />
+              <Chip label={`v${selectedContract.version}`} size="small" sx={{ ml: 1 }} />
             </DialogTitle>
             <DialogContent>
               <Typography variant="subtitle2" gutterBottom>
@@ -856,28 +882,70 @@ export const RicardianContractUpload: React.FC = () => {
                 </Typography>
               </Paper>
 
+              <Typography variant="subtitle2" gutterBottom>
+                Document Hash (SHA-256)
+              </Typography>
+              <Typography
+                variant="body2"
+                sx={{ fontFamily: 'monospace', wordBreak: 'break-all', mb: 2 }}
+              >
+                {selectedContract.documentHash}
+              </Typography>
+
               <Typography variant="subtitle2" gutterBottom>
                 Signatures
               </Typography>
               <List>
-                {selectedContract.parties.map((party) => (
-                  <ListItem key={party.id}>
-                    <ListItemIcon>
-                      {party.signed ? <CheckCircle color="success" /> : <Warning color="warning" />}
-                    </ListItemIcon>
-                    <ListItemText
-                      primary={`${party.name} (${party.role})`}
-                      secondary={
-                        party.signed
-                          ? `Signed on ${party.signedAt?.toLocaleDateString()}`
-                          : 'Pending signature'
-                      }
-                    />
-                  </ListItem>
-                ))}
+                {selectedContract.parties.map((party) => {
+                  const verification = verifications.find((v) => v.partyId === party.id);
+                  const invalid = party.signed && verification && !verification.valid;
+                  return (
+                    <ListItem key={party.id}>
+                      <ListItemIcon>
+                        {invalid ? (
+                          <ErrorIcon color="error" />
+                        ) : party.signed ? (
+                          <CheckCircle color="success" />
+                        ) : (
+                          <Warning color="warning" />
+                        )}
+                      </ListItemIcon>
+                      <ListItemText
+                        primary={`${party.name} (${party.role})`}
+                        secondary={
+                          invalid
+                            ? `Invalid signature: ${verification.reason}`
+                            : party.signed
+                              ? `Signed on ${party.signedAt ? new Date(party.signedAt).toLocaleDateString() : '-'}${verification?.valid ? ' (verified)' : ''}`
+                              : 'Pending signature'
+                        }
+                      />
+                    </ListItem>
+                  );
+                })}
               </List>
+
+              <RicardianContractHistory
+                contract={selectedContract}
+                canAmend={canDeploy}
+                onUpdated={replaceContract}
+              />
             </DialogContent>
             <DialogActions>
+              <Button
+                startIcon={<FileDownload />}
+                disabled={selectedContract.signatures.length === 0}
+                onClick={() => exportCertificate(selectedContract, 'json')}
+              >
+                Certificate (JSON)
+              </Button>
+              <Button
+                startIcon={<FileDownload />}
+                disabled={selectedContract.signatures.length === 0}
+                onClick={() => exportCertificate(selectedContract, 'pdf')}
+              >
+                Certificate (PDF)
+              </Button>
               <Button onClick={() => setViewDialogOpen(false)}>Close</Button>
             </DialogActions>
           </>
@@ -896,10 +964,26 @@ export const RicardianContractUpload: React.FC = () => {
             <DialogTitle>Sign Contract: {selectedContract.name}</DialogTitle>
             <DialogContent>
               <Alert severity="info" sx={{ mb: 2 }}>
-                Select your identity to sign this contract with quantum-safe CRYSTALS-Dilithium
-                signature
+                Select your identity to sign the document hash of this contract. Every signature is
+                verified before the contract is activated.
               </Alert>
 
+              <FormControl fullWidth size="small" sx={{ mb: 1 }}>
+                <InputLabel>Signer</InputLabel>
+                <Select
+                  value={signerId}
+                  label="Signer"
+                  onChange={(e: SelectChangeEvent<string>) => setSignerId(e.target.value)}
+                >
+                  {getSigners().map((signer) => (
+                    <MenuItem key={signer.id} value={signer.id}>
+                      {signer.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              {signing && <LinearProgress sx={{ mb: 1 }} />}
+
               <List>
                 {selectedContract.parties
                   .filter((p) => !p.signed)
@@ -907,7 +991,8 @@ export const RicardianContractUpload: React.FC = () => {
                     <ListItem
                       key={party.id}
                       button
-                      onClick={() => signContract(selectedContract.id, party.id)}
+                      disabled={signing}
+                      onClick={() => signContract(selectedContract, party)}
                     >
                       <ListItemIcon>
                         <Person />
@@ -52,6 +52,7 @@ import {
 // Syntax highlighting removed for build compatibility
 import { channelService } from '../../services/ChannelService';
 import { contractsApi, Contract as ApiContract } from '../../services/contractsApi';
+import { usePermission } from '../../hooks/usePermission';
 
 // Smart Contract Types
 interface SmartContract {
@@ -221,6 +222,7 @@ const SmartContractRegistry: React.FC = () => {
   const [filterStatus, setFilterStatus] = useState('all');
   const [isCompiling, setIsCompiling] = useState(false);
   const [_compilationResult, _setCompilationResult] = useState<any>(null);
+  const canDeploy = usePermission('Smart Contracts', 'deploy');
 
   useEffect(() => {
     // Load contracts from backend API
@@ -394,13 +396,18 @@ const SmartContractRegistry: React.FC = () => {
             <MenuItem value="failed">Failed</MenuItem>
           </Select>
         </FormControl>
-        <Button
-          variant="contained"
-          startIcon={<Upload />}
-          onClick={() => setDeployDialogOpen(true)}
-        >
-          Deploy Contract
-        </Button>
+        <Tooltip title={canDeploy ? '' : 'Your role cannot deploy smart contracts'}>
+          <span>
+            <Button
+              variant="contained"
+              startIcon={<Upload />}
+              disabled={!canDeploy}
+              onClick={() => setDeployDialogOpen(true)}
+            >
+              Deploy Contract
+            </Button>
+          </span>
+        </Tooltip>
       </Box>
 
       {/* Statistics Cards */}
@@ -716,7 +723,9 @@ const SmartContractRegistry: React.FC = () => {
           <Button
             variant="contained"
             onClick={handleDeploy}
-            disabled={isCompiling || !deploymentForm.name || !deploymentForm.channelId}
+            disabled={
+              !canDeploy || isCompiling || !deploymentForm.name || !deploymentForm.channelId
+            }
             startIcon={isCompiling ? <CircularProgress size={20} /> : <Upload />}
           >
             {isCompiling ? 'Compiling...' : 'Deploy'}
@@ -0,0 +1,140 @@
+/**
+ * Staking Rewards Calculator
+ *
+ * Projects delegation rewards for a validator from its APR, commission and
+ * the last year of slashing events.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Alert, Col, Row, Segmented, Space, Statistic, Tag, Typography } from 'antd';
+import type { SlashingEvent, Validator } from '../../types/comprehensive';
+import { aurigraphAPI } from '../../services/AurigraphAPIService';
+import { handleApiError } from '../../utils/apiErrorHandler';
+import { projectRewards } from '../../utils/staking';
+
+const { Text } = Typography;
+
+const PERIODS = [30, 90, 180, 365];
+
+interface StakingRewardsCalculatorProps {
+  validator: Validator;
+  amount: number | null | undefined;
+}
+
+const StakingRewardsCalculator: React.FC<StakingRewardsCalculatorProps> = ({
+  validator,
+  amount,
+}) => {
+  const [days, setDays] = useState<number>(365);
+  const [slashingHistory, setSlashingHistory] = useState<SlashingEvent[]>([]);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSlashingHistory([]);
+    setHistoryError(null);
+    aurigraphAPI
+      .getValidatorSlashingHistory(validator.id)
+      .then((events) => {
+        if (!cancelled) setSlashingHistory(events);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        const apiError = handleApiError(err, { silent: true });
+        setHistoryError(apiError.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [validator.id]);
+
+  const projection = projectRewards({
+    amount: amount ?? 0,
+    apr: validator.apr,
+    commission: validator.commission,
+    slashingHistory,
+    days,
+  });
+
+  return (
+    <Space direction="vertical" size="small" style={{ width: '100%' }}>
+      <Space style={{ width: '100%', justifyContent: 'space-between' }}>
+        <Text strong>Projected Rewards</Text>
+        <Segmented
+          size="small"
+          value={days}
+          onChange={(value) => setDays(Number(value))}
+          options={PERIODS.map((period) => ({ value: period, label: `${period}d` }))}
+        />
+      </Space>
+
+      <Row gutter={16}>
+        <Col span={8}>
+          <Statistic
+            title="Net APR"
+            value={projection.netApr}
+            precision={2}
+            suffix="%"
+            valueStyle={{ fontSize: 18 }}
+          />
+          <Text type="secondary" style={{ fontSize: 12 }}>
+            {validator.apr.toFixed(2)}% less {validator.commission}% commission
+          </Text>
+        </Col>
+        <Col span={8}>
+          <Statistic
+            title="Effective APR"
+            value={projection.effectiveApr}
+            precision={2}
+            suffix="%"
+            valueStyle={{
+              fontSize: 18,
+              color: projection.slashingRate > 0 ? '#faad14' : undefined,
+            }}
+          />
+          <Text type="secondary" style={{ fontSize: 12 }}>
+            after {projection.slashingRate.toFixed(3)}% slashing / yr
+          </Text>
+        </Col>
+        <Col span={8}>
+          <Statistic
+            title={`Rewards over ${days} days`}
+            value={projection.projectedRewards}
+            precision={2}
+            suffix="AUR"
+            valueStyle={{ fontSize: 18, color: '#52c41a' }}
+          />
+          {projection.expectedSlashingLoss > 0 && (
+            <Text type="secondary" style={{ fontSize: 12 }}>
+              {projection.expectedSlashingLoss.toFixed(2)} AUR expected slashing
+            </Text>
+          )}
+        </Col>
+      </Row>
+
+      {historyError ? (
+        <Alert
+          type="warning"
+          showIcon
+          message="Slashing history unavailable; the projection assumes no slashing"
+          description={historyError}
+        />
+      ) : slashingHistory.length > 0 ? (
+        <Space wrap size={4}>
+          <Text type="secondary">Slashing history:</Text>
+          {slashingHistory.map((event) => (
+            <Tag key={`${event.height}-${event.reason}`} color="red">
+              {event.reason === 'double_sign' ? 'Double sign' : 'Downtime'} ·{' '}
+              {(event.fraction * 100).toFixed(2)}% ·{' '}
+              {new Date(event.occurredAt).toLocaleDateString()}
+            </Tag>
+          ))}
+        </Space>
+      ) : (
+        <Text type="secondary">No slashing events recorded for this validator.</Text>
+      )}
+    </Space>
+  );
+};
+
+export default StakingRewardsCalculator;
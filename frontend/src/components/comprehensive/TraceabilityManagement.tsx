@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Box,
   Card,
@@ -32,17 +32,11 @@ import {
   Warning,
   Info,
 } from '@mui/icons-material';
+import { apiClient } from '../../services/apiClient';
+import type { TraceabilityRecord } from '../../types/comprehensive';
 
-interface OwnershipRecord {
-  id: string;
-  assetId: string;
-  assetName: string;
-  previousOwner: string;
-  currentOwner: string;
+interface OwnershipRecord extends Omit<TraceabilityRecord, 'transferDate'> {
   transferDate: Date;
-  reason: string;
-  proofHash: string;
-  verified: boolean;
 }
 
 interface TabPanelProps {
@@ -67,34 +61,25 @@ function TabPanel(props: TabPanelProps) {
 }
 
 export const TraceabilityManagement: React.FC = () => {
-  const [records, setRecords] = useState<OwnershipRecord[]>([
-    {
-      id: 'record_001',
-      assetId: 'asset_001',
-      assetName: 'Property at 123 Main St',
-      previousOwner: 'John Smith',
-      currentOwner: 'Jane Doe',
-      transferDate: new Date('2025-01-15'),
-      reason: 'Sale Transaction',
-      proofHash: '0x7a3c9e2f1d4b8a6e5c2f9d1b3a5c7e9f',
-      verified: true,
-    },
-    {
-      id: 'record_002',
-      assetId: 'asset_002',
-      assetName: 'Commodity Shipment',
-      previousOwner: 'Supplier Corp',
-      currentOwner: 'Distribution Inc',
-      transferDate: new Date('2025-01-20'),
-      reason: 'Distribution Transfer',
-      proofHash: '0x1a2b3c4d5e6f7g8h9i0j1k2l3m4n5o6p',
-      verified: true,
-    },
-  ]);
+  const [records, setRecords] = useState<OwnershipRecord[]>([]);
   const [tabValue, setTabValue] = useState(0);
   const [viewDialogOpen, setViewDialogOpen] = useState(false);
   const [selectedRecord, setSelectedRecord] = useState<OwnershipRecord | null>(null);
 
+  useEffect(() => {
+    apiClient
+      .get<TraceabilityRecord[]>('/assets/traceability')
+      .then((response) =>
+        setRecords(
+          response.data.map((record) => ({
+            ...record,
+            transferDate: new Date(record.transferDate),
+          }))
+        )
+      )
+      .catch((error) => console.error('Failed to load ownership records:', error));
+  }, []);
+
   const handleVerifyRecord = (recordId: string) => {
     setRecords(
       records.map((r) => (r.id === recordId ? { ...r, verified: true } : r))
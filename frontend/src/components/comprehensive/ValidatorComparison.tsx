@@ -0,0 +1,234 @@
+/**
+ * Validator Comparison
+ *
+ * Up to five validators side by side over the selected performance period,
+ * with the best value of each metric highlighted.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Alert, Card, Select, Table, Tag, Typography } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import type {
+  Validator,
+  ValidatorPerformance,
+  ValidatorPerformancePeriod,
+} from '../../types/comprehensive';
+import { aurigraphAPI } from '../../services/AurigraphAPIService';
+import { handleApiError } from '../../utils/apiErrorHandler';
+import { compositeScore } from '../../utils/validatorScore';
+
+const { Text } = Typography;
+
+const MAX_COMPARED_VALIDATORS = 5;
+
+interface ComparisonMetric {
+  key: string;
+  label: string;
+  value: (validator: Validator, summary?: ValidatorPerformance) => number | undefined;
+  format: (value: number) => string;
+  better: 'higher' | 'lower';
+}
+
+const METRICS: ComparisonMetric[] = [
+  {
+    key: 'score',
+    label: 'Composite Score',
+    value: (validator) => compositeScore(validator),
+    format: (value) => value.toFixed(1),
+    better: 'higher',
+  },
+  {
+    key: 'uptime',
+    label: 'Uptime (period)',
+    value: (_, summary) => summary?.uptimePercentage,
+    format: (value) => `${value.toFixed(2)}%`,
+    better: 'higher',
+  },
+  {
+    key: 'missed',
+    label: 'Missed Blocks (period)',
+    value: (_, summary) => summary?.missedBlocks,
+    format: (value) => value.toLocaleString(),
+    better: 'lower',
+  },
+  {
+    key: 'proposed',
+    label: 'Blocks Proposed (period)',
+    value: (_, summary) => summary?.blocksProposed,
+    format: (value) => value.toLocaleString(),
+    better: 'higher',
+  },
+  {
+    key: 'latency',
+    label: 'Avg Latency (period)',
+    value: (_, summary) => summary?.averageLatency,
+    format: (value) => `${value.toFixed(0)} ms`,
+    better: 'lower',
+  },
+  {
+    key: 'apr',
+    label: 'APR',
+    value: (validator) => validator.apr,
+    format: (value) => `${value.toFixed(2)}%`,
+    better: 'higher',
+  },
+  {
+    key: 'commission',
+    label: 'Commission',
+    value: (validator) => validator.commission,
+    format: (value) => `${value}%`,
+    better: 'lower',
+  },
+  {
+    key: 'votingPower',
+    label: 'Voting Power',
+    value: (validator) => validator.votingPower,
+    format: (value) => `${value.toFixed(2)}%`,
+    better: 'higher',
+  },
+  {
+    key: 'slashing',
+    label: 'Slashing Events',
+    value: (validator) => validator.slashingEvents,
+    format: (value) => String(value),
+    better: 'lower',
+  },
+];
+
+interface ValidatorComparisonProps {
+  validators: Validator[];
+  /** Validator whose page this is; always the first column */
+  baseValidatorId: string;
+  period: ValidatorPerformancePeriod;
+  initialCompareIds?: string[];
+}
+
+const ValidatorComparison: React.FC<ValidatorComparisonProps> = ({
+  validators,
+  baseValidatorId,
+  period,
+  initialCompareIds = [],
+}) => {
+  const [compareIds, setCompareIds] = useState<string[]>(() =>
+    initialCompareIds.filter((id) => id !== baseValidatorId).slice(0, MAX_COMPARED_VALIDATORS - 1)
+  );
+  const [summaries, setSummaries] = useState<Record<string, ValidatorPerformance>>({});
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const ids = [baseValidatorId, ...compareIds];
+  const idsKey = ids.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    Promise.all(idsKey.split(',').map((id) => aurigraphAPI.getValidatorPerformance(id, period)))
+      .then((histories) => {
+        if (cancelled) return;
+        setSummaries(
+          Object.fromEntries(histories.map((history) => [history.validatorId, history.summary]))
+        );
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(handleApiError(err, { silent: true }).message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [idsKey, period]);
+
+  const compared = ids
+    .map((id) => validators.find((validator) => validator.id === id))
+    .filter((validator): validator is Validator => validator !== undefined);
+
+  const columns: ColumnsType<ComparisonMetric> = [
+    {
+      title: 'Metric',
+      key: 'metric',
+      fixed: 'left',
+      width: 200,
+      render: (_, metric) => <Text strong>{metric.label}</Text>,
+    },
+    ...compared.map((validator) => ({
+      title: (
+        <span>
+          {validator.name}
+          {validator.id === baseValidatorId && (
+            <Tag color="blue" style={{ marginLeft: 8 }}>
+              This validator
+            </Tag>
+          )}
+        </span>
+      ),
+      key: validator.id,
+      render: (_: unknown, metric: ComparisonMetric) => {
+        const value = metric.value(validator, summaries[validator.id]);
+        if (value === undefined) return <Text type="secondary">—</Text>;
+        const values = compared
+          .map((candidate) => metric.value(candidate, summaries[candidate.id]))
+          .filter((candidate): candidate is number => candidate !== undefined);
+        const best = metric.better === 'higher' ? Math.max(...values) : Math.min(...values);
+        return value === best && compared.length > 1 ? (
+          <Text strong style={{ color: '#52c41a' }}>
+            {metric.format(value)}
+          </Text>
+        ) : (
+          <Text>{metric.format(value)}</Text>
+        );
+      },
+    })),
+  ];
+
+  return (
+    <Card
+      title="Compare Validators"
+      extra={
+        <Select
+          mode="multiple"
+          allowClear
+          placeholder={`Add up to ${MAX_COMPARED_VALIDATORS - 1} validators`}
+          style={{ minWidth: 320 }}
+          value={compareIds}
+          onChange={(values: string[]) =>
+            setCompareIds(values.slice(0, MAX_COMPARED_VALIDATORS - 1))
+          }
+          options={validators
+            .filter((validator) => validator.id !== baseValidatorId)
+            .map((validator) => ({
+              value: validator.id,
+              label: validator.name,
+              disabled:
+                compareIds.length >= MAX_COMPARED_VALIDATORS - 1 &&
+                !compareIds.includes(validator.id),
+            }))}
+        />
+      }
+    >
+      {error && (
+        <Alert
+          type="warning"
+          showIcon
+          message="Period metrics unavailable for the comparison"
+          description={error}
+          style={{ marginBottom: 16 }}
+        />
+      )}
+      <Table
+        columns={columns}
+        dataSource={METRICS}
+        rowKey="key"
+        loading={loading}
+        pagination={false}
+        size="small"
+        scroll={{ x: 'max-content' }}
+      />
+    </Card>
+  );
+};
+
+export default ValidatorComparison;
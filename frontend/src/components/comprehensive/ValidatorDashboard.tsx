@@ -6,6 +6,7 @@
  */
 
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Card,
   Table,
@@ -18,12 +19,12 @@ import {
   Modal,
   Form,
   InputNumber,
-  Select,
   Space,
   Tooltip,
   Badge,
   Alert,
   Typography,
+  message,
 } from 'antd';
 import {
   NodeIndexOutlined,
@@ -36,15 +37,23 @@ import {
   PauseCircleOutlined,
   LockOutlined,
   WarningOutlined,
+  BarChartOutlined,
 } from '@ant-design/icons';
 import type { ColumnsType } from 'antd/es/table';
 import type { Validator, StakingInfo } from '../../types/comprehensive';
 import ErrorBoundary from '../common/ErrorBoundary';
 import { StatsCardSkeleton, TableSkeleton } from '../common/LoadingSkeleton';
 import { UnderDevelopmentEmpty, ApiErrorEmpty } from '../common/EmptyState';
-import { isFeatureEnabled } from '../../config/featureFlags';
+import { useFeatureFlag } from '../../hooks/useFeatureFlag';
 import { handleApiError, isNotFoundError, type ApiError } from '../../utils/apiErrorHandler';
 import { comprehensivePortalService } from '../../services/ComprehensivePortalService';
+import { aurigraphAPI } from '../../services/AurigraphAPIService';
+import { compositeScore } from '../../utils/validatorScore';
+import StakingRewardsCalculator from './StakingRewardsCalculator';
+import ValidatorDelegations from './ValidatorDelegations';
+
+/** Most validators the comparison view shows side by side */
+const MAX_COMPARED_VALIDATORS = 5;
 
 const { Text, Title } = Typography;
 
@@ -54,10 +63,16 @@ const ValidatorDashboard: React.FC = () => {
   const [error, setError] = useState<ApiError | null>(null);
   const [stakeModalVisible, setStakeModalVisible] = useState<boolean>(false);
   const [selectedValidator, setSelectedValidator] = useState<Validator | null>(null);
+  const [staking, setStaking] = useState<boolean>(false);
+  const [delegationsKey, setDelegationsKey] = useState<number>(0);
   const [stakeForm] = Form.useForm();
+  const stakeAmount = Form.useWatch('amount', stakeForm);
+  const [compareIds, setCompareIds] = useState<React.Key[]>([]);
+  const navigate = useNavigate();
 
   // Feature flag check
-  const isFeatureAvailable = isFeatureEnabled('validatorDashboard');
+  const isFeatureAvailable = useFeatureFlag('validatorDashboard');
+  const stakingEnabled = useFeatureFlag('stakingOperations');
 
   // Staking information
   const [stakingInfo, setStakingInfo] = useState<StakingInfo>({
@@ -117,10 +132,23 @@ const ValidatorDashboard: React.FC = () => {
     setStakeModalVisible(true);
   };
 
-  const handleStakeSubmit = async (_values: any) => {
-    // TODO: Implement staking API call
-    setStakeModalVisible(false);
-    stakeForm.resetFields();
+  const handleStakeSubmit = async (values: { amount: number }) => {
+    if (!selectedValidator) return;
+    setStaking(true);
+    try {
+      await aurigraphAPI.stakeTokens(String(values.amount), selectedValidator.id);
+      message.success(
+        `Delegated ${values.amount.toLocaleString()} AUR to ${selectedValidator.name}`
+      );
+      setStakeModalVisible(false);
+      stakeForm.resetFields();
+      setDelegationsKey((key) => key + 1);
+      fetchValidators();
+    } catch (err) {
+      handleApiError(err);
+    } finally {
+      setStaking(false);
+    }
   };
 
   // Table columns
@@ -151,7 +179,9 @@ const ValidatorDashboard: React.FC = () => {
       width: 150,
       render: (name: string, record) => (
         <div>
-          <Text strong>{name}</Text>
+          <Typography.Link strong onClick={() => navigate(`/validators/${record.id}`)}>
+            {name}
+          </Typography.Link>
           <br />
           <Text type="secondary" style={{ fontSize: '12px' }}>
             {record.id}
@@ -225,6 +255,23 @@ const ValidatorDashboard: React.FC = () => {
         </Text>
       ),
     },
+    {
+      title: 'Score',
+      key: 'score',
+      width: 100,
+      defaultSortOrder: 'descend',
+      sorter: (a, b) => compositeScore(a) - compositeScore(b),
+      render: (_, record) => {
+        const score = compositeScore(record);
+        return (
+          <Tooltip title="Weighted from uptime, signed blocks, slashing history and commission">
+            <Text strong style={{ color: score >= 90 ? '#52c41a' : score >= 75 ? '#faad14' : '#ff4d4f' }}>
+              {score.toFixed(1)}
+            </Text>
+          </Tooltip>
+        );
+      },
+    },
     {
       title: 'Uptime',
       dataIndex: 'uptime',
@@ -256,15 +303,17 @@ const ValidatorDashboard: React.FC = () => {
       fixed: 'right',
       render: (_, record) => (
         <Space>
-          <Button
-            type="primary"
-            size="small"
-            icon={<DollarOutlined />}
-            onClick={() => handleStake(record)}
-            disabled={record.status !== 'active'}
-          >
-            Stake
-          </Button>
+          <Tooltip title={stakingEnabled ? undefined : 'Staking operations are not enabled'}>
+            <Button
+              type="primary"
+              size="small"
+              icon={<DollarOutlined />}
+              onClick={() => handleStake(record)}
+              disabled={!stakingEnabled || record.status !== 'active'}
+            >
+              Delegate
+            </Button>
+          </Tooltip>
         </Space>
       ),
     },
@@ -429,13 +478,44 @@ const ValidatorDashboard: React.FC = () => {
         style={{ marginBottom: '24px' }}
       />
 
+      {/* Delegator Positions */}
+      {stakingEnabled && (
+        <ValidatorDelegations
+          validators={validators}
+          unbondingPeriod={stakingInfo.unbondingPeriod}
+          refreshKey={delegationsKey}
+          onStakeChanged={fetchValidators}
+        />
+      )}
+
       {/* Validators Table */}
-      <Card title="Validators">
+      <Card
+        title="Validators"
+        extra={
+          <Button
+            icon={<BarChartOutlined />}
+            disabled={compareIds.length < 2}
+            onClick={() => {
+              const [first, ...rest] = compareIds;
+              navigate(`/validators/${first}?compare=${rest.join(',')}`);
+            }}
+          >
+            Compare ({compareIds.length}/{MAX_COMPARED_VALIDATORS})
+          </Button>
+        }
+      >
         <Table
           columns={columns}
           dataSource={validators}
           loading={loading}
           rowKey="id"
+          rowSelection={{
+            selectedRowKeys: compareIds,
+            onChange: (keys) => setCompareIds(keys),
+            getCheckboxProps: (record) => ({
+              disabled: compareIds.length >= MAX_COMPARED_VALIDATORS && !compareIds.includes(record.id),
+            }),
+          }}
           pagination={{ pageSize: 10, showSizeChanger: true }}
           scroll={{ x: 1400 }}
         />
@@ -443,7 +523,7 @@ const ValidatorDashboard: React.FC = () => {
 
       {/* Staking Modal */}
       <Modal
-        title={`Stake to ${selectedValidator?.name || 'Validator'}`}
+        title={`Delegate to ${selectedValidator?.name || 'Validator'}`}
         open={stakeModalVisible}
         onCancel={() => setStakeModalVisible(false)}
         footer={null}
@@ -472,7 +552,7 @@ const ValidatorDashboard: React.FC = () => {
           />
 
           <Form.Item
-            label="Amount to Stake"
+            label="Amount to Delegate"
             name="amount"
             rules={[
               { required: true, message: 'Please enter stake amount' },
@@ -491,18 +571,15 @@ const ValidatorDashboard: React.FC = () => {
             />
           </Form.Item>
 
-          <Form.Item label="Lock Period" name="lockPeriod" initialValue="flexible">
-            <Select>
-              <Select.Option value="flexible">Flexible (Standard APR)</Select.Option>
-              <Select.Option value="30d">30 Days (+2% APR Bonus)</Select.Option>
-              <Select.Option value="90d">90 Days (+5% APR Bonus)</Select.Option>
-              <Select.Option value="180d">180 Days (+10% APR Bonus)</Select.Option>
-            </Select>
-          </Form.Item>
+          {selectedValidator && (
+            <Card size="small" style={{ marginBottom: '16px' }}>
+              <StakingRewardsCalculator validator={selectedValidator} amount={stakeAmount} />
+            </Card>
+          )}
 
           <Alert
             message={`Unbonding Period: ${stakingInfo.unbondingPeriod} days`}
-            description="After unstaking, your tokens will be locked for the unbonding period before you can withdraw them."
+            description="After undelegating, your tokens will be locked for the unbonding period before you can withdraw them."
             type="warning"
             showIcon
             style={{ marginBottom: '16px' }}
@@ -511,8 +588,8 @@ const ValidatorDashboard: React.FC = () => {
           <Form.Item>
             <Space style={{ width: '100%', justifyContent: 'flex-end' }}>
               <Button onClick={() => setStakeModalVisible(false)}>Cancel</Button>
-              <Button type="primary" htmlType="submit" icon={<LockOutlined />}>
-                Confirm Stake
+              <Button type="primary" htmlType="submit" icon={<LockOutlined />} loading={staking}>
+                Confirm Delegation
               </Button>
             </Space>
           </Form.Item>
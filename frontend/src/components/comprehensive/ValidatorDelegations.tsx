@@ -0,0 +1,370 @@
+/**
+ * Validator Delegations
+ *
+ * The signed-in delegator's positions across validators, with undelegate,
+ * redelegate and claim actions, and the unbonding entries counting down to
+ * when their tokens can be withdrawn.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  Empty,
+  Form,
+  InputNumber,
+  Modal,
+  Select,
+  Space,
+  Table,
+  Tag,
+  Typography,
+  message,
+} from 'antd';
+import { GiftOutlined, SwapOutlined, UnlockOutlined, ReloadOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import type {
+  DelegationPosition,
+  DelegatorPositions,
+  UnbondingEntry,
+  Validator,
+} from '../../types/comprehensive';
+import { aurigraphAPI } from '../../services/AurigraphAPIService';
+import { handleApiError } from '../../utils/apiErrorHandler';
+import { formatCountdown, unbondingCompletesAt } from '../../utils/staking';
+
+const { Text } = Typography;
+
+type DelegationAction = { kind: 'undelegate' | 'redelegate'; position: DelegationPosition };
+
+interface ValidatorDelegationsProps {
+  validators: Validator[];
+  /** Days between undelegating and the tokens becoming withdrawable */
+  unbondingPeriod: number;
+  /** Bumped by the dashboard after it delegates, to reload the positions */
+  refreshKey: number;
+  /** Called after any action that changes validator stake */
+  onStakeChanged: () => void;
+}
+
+const formatAur = (amount: string | number) =>
+  `${Number(amount).toLocaleString(undefined, { maximumFractionDigits: 2 })} AUR`;
+
+const ValidatorDelegations: React.FC<ValidatorDelegationsProps> = ({
+  validators,
+  unbondingPeriod,
+  refreshKey,
+  onStakeChanged,
+}) => {
+  const [delegations, setDelegations] = useState<DelegatorPositions | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [action, setAction] = useState<DelegationAction | null>(null);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [claiming, setClaiming] = useState<string | null>(null);
+  const [now, setNow] = useState<number>(Date.now());
+  const [actionForm] = Form.useForm();
+
+  const validatorName = (id: string) =>
+    validators.find((validator) => validator.id === id)?.name ?? id;
+
+  const fetchDelegations = useCallback(async () => {
+    setLoading(true);
+    try {
+      setDelegations(await aurigraphAPI.getDelegations());
+      setError(null);
+    } catch (err) {
+      const apiError = handleApiError(err, { silent: true });
+      setError(apiError.message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDelegations();
+  }, [fetchDelegations, refreshKey]);
+
+  // Tick the unbonding countdowns while any are pending
+  const unbonding = delegations?.unbonding ?? [];
+  const hasPendingUnbonding = unbonding.some(
+    (entry) => unbondingCompletesAt(entry.startedAt, unbondingPeriod) > now
+  );
+  useEffect(() => {
+    if (!hasPendingUnbonding) return undefined;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasPendingUnbonding]);
+
+  const openAction = (kind: DelegationAction['kind'], position: DelegationPosition) => {
+    actionForm.resetFields();
+    actionForm.setFieldsValue({ amount: Number(position.amount) });
+    setAction({ kind, position });
+  };
+
+  const handleActionSubmit = async (values: { amount: number; toValidatorId?: string }) => {
+    if (!action) return;
+    const { kind, position } = action;
+    setSubmitting(true);
+    try {
+      if (kind === 'undelegate') {
+        await aurigraphAPI.unstakeTokens(String(values.amount), position.validatorId);
+        message.success(
+          `Undelegated ${formatAur(values.amount)}; withdrawable in ${unbondingPeriod} days`
+        );
+      } else if (values.toValidatorId) {
+        await aurigraphAPI.redelegateTokens(
+          String(values.amount),
+          position.validatorId,
+          values.toValidatorId
+        );
+        message.success(
+          `Redelegated ${formatAur(values.amount)} to ${validatorName(values.toValidatorId)}`
+        );
+      }
+      setAction(null);
+      onStakeChanged();
+      fetchDelegations();
+    } catch (err) {
+      handleApiError(err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleClaim = async (position: DelegationPosition) => {
+    setClaiming(position.validatorId);
+    try {
+      const receipt = await aurigraphAPI.claimStakingRewards(position.validatorId);
+      message.success(
+        `Claimed ${formatAur(receipt.amount)} from ${validatorName(position.validatorId)}`
+      );
+      fetchDelegations();
+    } catch (err) {
+      handleApiError(err);
+    } finally {
+      setClaiming(null);
+    }
+  };
+
+  const positionColumns: ColumnsType<DelegationPosition> = [
+    {
+      title: 'Validator',
+      dataIndex: 'validatorId',
+      key: 'validator',
+      render: (validatorId: string) => <Text strong>{validatorName(validatorId)}</Text>,
+    },
+    {
+      title: 'Delegated',
+      dataIndex: 'amount',
+      key: 'amount',
+      sorter: (a, b) => Number(a.amount) - Number(b.amount),
+      render: (amount: string) => formatAur(amount),
+    },
+    {
+      title: 'Unclaimed Rewards',
+      dataIndex: 'rewards',
+      key: 'rewards',
+      render: (rewards: string) => <Text style={{ color: '#52c41a' }}>{formatAur(rewards)}</Text>,
+    },
+    {
+      title: 'Claimed',
+      dataIndex: 'claimedRewards',
+      key: 'claimedRewards',
+      render: (claimed: string) => formatAur(claimed),
+    },
+    {
+      title: 'Since',
+      dataIndex: 'delegatedAt',
+      key: 'delegatedAt',
+      render: (delegatedAt: string) => new Date(delegatedAt).toLocaleDateString(),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_, position) => (
+        <Space>
+          <Button
+            size="small"
+            icon={<GiftOutlined />}
+            loading={claiming === position.validatorId}
+            disabled={Number(position.rewards) < 0.01}
+            onClick={() => handleClaim(position)}
+          >
+            Claim
+          </Button>
+          <Button
+            size="small"
+            icon={<SwapOutlined />}
+            onClick={() => openAction('redelegate', position)}
+          >
+            Redelegate
+          </Button>
+          <Button
+            size="small"
+            danger
+            icon={<UnlockOutlined />}
+            onClick={() => openAction('undelegate', position)}
+          >
+            Undelegate
+          </Button>
+        </Space>
+      ),
+    },
+  ];
+
+  const unbondingColumns: ColumnsType<UnbondingEntry> = [
+    {
+      title: 'Validator',
+      dataIndex: 'validatorId',
+      key: 'validator',
+      render: (validatorId: string) => validatorName(validatorId),
+    },
+    {
+      title: 'Amount',
+      dataIndex: 'amount',
+      key: 'amount',
+      render: (amount: string) => formatAur(amount),
+    },
+    {
+      title: 'Started',
+      dataIndex: 'startedAt',
+      key: 'startedAt',
+      render: (startedAt: string) => new Date(startedAt).toLocaleString(),
+    },
+    {
+      title: 'Withdrawable At',
+      key: 'completesAt',
+      render: (_, entry) =>
+        new Date(unbondingCompletesAt(entry.startedAt, unbondingPeriod)).toLocaleString(),
+    },
+    {
+      title: 'Remaining',
+      key: 'remaining',
+      render: (_, entry) => {
+        const remaining = formatCountdown(
+          unbondingCompletesAt(entry.startedAt, unbondingPeriod) - now
+        );
+        return remaining ? (
+          <Tag color="orange">{remaining}</Tag>
+        ) : (
+          <Tag color="success">Withdrawable</Tag>
+        );
+      },
+    },
+  ];
+
+  const positions = delegations?.positions ?? [];
+  const redelegateTargets = validators.filter(
+    (validator) => validator.status === 'active' && validator.id !== action?.position.validatorId
+  );
+
+  return (
+    <Card
+      title="My Delegations"
+      style={{ marginBottom: '24px' }}
+      extra={
+        <Button icon={<ReloadOutlined />} onClick={fetchDelegations} loading={loading}>
+          Refresh
+        </Button>
+      }
+    >
+      {error && (
+        <Alert
+          type="warning"
+          showIcon
+          message="Unable to load your delegations"
+          description={error}
+          style={{ marginBottom: 16 }}
+        />
+      )}
+
+      {positions.length === 0 && unbonding.length === 0 && !loading ? (
+        <Empty description="You have no delegations. Delegate to a validator below to start earning rewards." />
+      ) : (
+        <Space direction="vertical" size="large" style={{ width: '100%' }}>
+          <Table
+            columns={positionColumns}
+            dataSource={positions}
+            rowKey="validatorId"
+            loading={loading}
+            pagination={false}
+            size="small"
+          />
+          {unbonding.length > 0 && (
+            <>
+              <Text strong>Unbonding ({unbondingPeriod}-day period)</Text>
+              <Table
+                columns={unbondingColumns}
+                dataSource={unbonding}
+                rowKey="id"
+                pagination={false}
+                size="small"
+              />
+            </>
+          )}
+        </Space>
+      )}
+
+      <Modal
+        title={
+          action?.kind === 'undelegate'
+            ? `Undelegate from ${validatorName(action.position.validatorId)}`
+            : `Redelegate from ${action ? validatorName(action.position.validatorId) : ''}`
+        }
+        open={!!action}
+        onCancel={() => setAction(null)}
+        onOk={() => actionForm.submit()}
+        okText={action?.kind === 'undelegate' ? 'Undelegate' : 'Redelegate'}
+        okButtonProps={{ danger: action?.kind === 'undelegate' }}
+        confirmLoading={submitting}
+        destroyOnClose
+      >
+        <Form form={actionForm} layout="vertical" onFinish={handleActionSubmit}>
+          {action?.kind === 'redelegate' && (
+            <Form.Item
+              label="Move to Validator"
+              name="toValidatorId"
+              rules={[{ required: true, message: 'Choose a validator' }]}
+            >
+              <Select
+                placeholder="Select validator"
+                options={redelegateTargets.map((validator) => ({
+                  value: validator.id,
+                  label: `${validator.name} · ${validator.apr.toFixed(1)}% APR · ${validator.commission}% commission`,
+                }))}
+              />
+            </Form.Item>
+          )}
+          <Form.Item
+            label="Amount"
+            name="amount"
+            rules={[
+              { required: true, message: 'Please enter an amount' },
+              {
+                type: 'number',
+                min: 0.000001,
+                max: action ? Number(action.position.amount) : undefined,
+                message: `Amount must be between 0 and ${action ? formatAur(action.position.amount) : 'your delegation'}`,
+              },
+            ]}
+          >
+            <InputNumber style={{ width: '100%' }} suffix="AUR" />
+          </Form.Item>
+          <Alert
+            type={action?.kind === 'undelegate' ? 'warning' : 'info'}
+            showIcon
+            message={
+              action?.kind === 'undelegate'
+                ? `Undelegated tokens stop earning rewards and unlock after ${unbondingPeriod} days.`
+                : 'Redelegated tokens move immediately, without an unbonding period.'
+            }
+          />
+        </Form>
+      </Modal>
+    </Card>
+  );
+};
+
+export default ValidatorDelegations;
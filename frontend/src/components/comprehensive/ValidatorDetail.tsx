@@ -0,0 +1,364 @@
+/**
+ * Validator Detail Component
+ *
+ * Performance history for one validator: uptime and missed-block heatmaps,
+ * proposer share over time, its slashing timeline, and a side-by-side
+ * comparison with other validators.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import {
+  Button,
+  Card,
+  Col,
+  Empty,
+  Row,
+  Segmented,
+  Space,
+  Spin,
+  Statistic,
+  Tag,
+  Timeline,
+  Typography,
+} from 'antd';
+import { ArrowLeftOutlined, ReloadOutlined, WarningOutlined } from '@ant-design/icons';
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import type {
+  SlashingEvent,
+  Validator,
+  ValidatorPerformanceHistory,
+  ValidatorPerformancePeriod,
+} from '../../types/comprehensive';
+import ErrorBoundary from '../common/ErrorBoundary';
+import { ApiErrorEmpty } from '../common/EmptyState';
+import { aurigraphAPI } from '../../services/AurigraphAPIService';
+import { handleApiError, type ApiError } from '../../utils/apiErrorHandler';
+import { compositeScore } from '../../utils/validatorScore';
+import PerformanceHeatmap from './PerformanceHeatmap';
+import ValidatorComparison from './ValidatorComparison';
+
+const { Text, Title } = Typography;
+
+const PERIODS: { value: ValidatorPerformancePeriod; label: string }[] = [
+  { value: '1h', label: '1 Hour' },
+  { value: '24h', label: '24 Hours' },
+  { value: '7d', label: '7 Days' },
+  { value: '30d', label: '30 Days' },
+];
+
+/** Heatmap cells per column, so a column spans an hour (24h) or a day (7d, 30d) */
+const HEATMAP_ROWS: Record<ValidatorPerformancePeriod, number> = {
+  '1h': 1,
+  '24h': 4,
+  '7d': 24,
+  '30d': 4,
+};
+
+const STATUS_COLORS: Record<Validator['status'], string> = {
+  active: 'success',
+  inactive: 'default',
+  jailed: 'error',
+  unbonding: 'warning',
+};
+
+const formatTick = (start: string, period: ValidatorPerformancePeriod) => {
+  const date = new Date(start);
+  return period === '1h' || period === '24h'
+    ? date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
+
+const ValidatorDetail: React.FC = () => {
+  const { validatorId = '' } = useParams<{ validatorId: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+
+  const [period, setPeriod] = useState<ValidatorPerformancePeriod>('24h');
+  const [validators, setValidators] = useState<Validator[]>([]);
+  const [history, setHistory] = useState<ValidatorPerformanceHistory | null>(null);
+  const [slashing, setSlashing] = useState<SlashingEvent[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<ApiError | null>(null);
+
+  const fetchValidator = useCallback(async () => {
+    try {
+      const [validatorList, slashingHistory] = await Promise.all([
+        aurigraphAPI.getValidators(),
+        aurigraphAPI.getValidatorSlashingHistory(validatorId),
+      ]);
+      setValidators(validatorList);
+      setSlashing(slashingHistory);
+    } catch (err) {
+      setError(handleApiError(err, { customMessage: 'Failed to load validator' }));
+    }
+  }, [validatorId]);
+
+  const fetchHistory = useCallback(async () => {
+    setLoading(true);
+    try {
+      setHistory(await aurigraphAPI.getValidatorPerformance(validatorId, period));
+      setError(null);
+    } catch (err) {
+      setError(handleApiError(err, { customMessage: 'Failed to load validator performance' }));
+    } finally {
+      setLoading(false);
+    }
+  }, [validatorId, period]);
+
+  useEffect(() => {
+    fetchValidator();
+  }, [fetchValidator]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const validator = validators.find((candidate) => candidate.id === validatorId);
+  const ranked = [...validators].sort((a, b) => compositeScore(b) - compositeScore(a));
+  const scoreRank = ranked.findIndex((candidate) => candidate.id === validatorId) + 1;
+  const summary = history?.summary;
+
+  if (error && !history) {
+    return (
+      <ErrorBoundary>
+        <div style={{ padding: '24px' }}>
+          <Button icon={<ArrowLeftOutlined />} onClick={() => navigate('/validators')}>
+            Validators
+          </Button>
+          <Card style={{ marginTop: '24px' }}>
+            <ApiErrorEmpty
+              title="Failed to Load Validator"
+              description={error.message}
+              onRetry={() => {
+                fetchValidator();
+                fetchHistory();
+              }}
+            />
+          </Card>
+        </div>
+      </ErrorBoundary>
+    );
+  }
+
+  return (
+    <ErrorBoundary>
+      <div style={{ padding: '24px' }}>
+        <Space style={{ width: '100%', justifyContent: 'space-between' }} wrap>
+          <Space align="center">
+            <Button icon={<ArrowLeftOutlined />} onClick={() => navigate('/validators')} />
+            <Title level={2} style={{ margin: 0 }}>
+              {validator?.name ?? validatorId}
+            </Title>
+            {validator && (
+              <Tag color={STATUS_COLORS[validator.status]}>{validator.status.toUpperCase()}</Tag>
+            )}
+          </Space>
+          <Space>
+            <Segmented
+              value={period}
+              onChange={(value) => setPeriod(value as ValidatorPerformancePeriod)}
+              options={PERIODS}
+            />
+            <Button icon={<ReloadOutlined />} onClick={fetchHistory} loading={loading}>
+              Refresh
+            </Button>
+          </Space>
+        </Space>
+        {validator && (
+          <Text type="secondary" copyable={{ text: validator.address }}>
+            {validator.address}
+          </Text>
+        )}
+
+        <Row gutter={[16, 16]} style={{ marginTop: '24px' }}>
+          <Col xs={24} sm={12} lg={4}>
+            <Card>
+              <Statistic
+                title="Composite Score"
+                value={validator ? compositeScore(validator) : 0}
+                precision={1}
+                suffix={scoreRank > 0 ? `#${scoreRank} of ${validators.length}` : undefined}
+              />
+            </Card>
+          </Col>
+          <Col xs={24} sm={12} lg={4}>
+            <Card>
+              <Statistic
+                title="Uptime"
+                value={summary?.uptimePercentage ?? 0}
+                precision={2}
+                suffix="%"
+                valueStyle={{
+                  color: (summary?.uptimePercentage ?? 0) >= 99 ? '#52c41a' : '#faad14',
+                }}
+              />
+            </Card>
+          </Col>
+          <Col xs={24} sm={12} lg={4}>
+            <Card>
+              <Statistic
+                title="Missed Blocks"
+                value={summary?.missedBlocks ?? 0}
+                valueStyle={{ color: summary?.missedBlocks ? '#ff4d4f' : undefined }}
+              />
+            </Card>
+          </Col>
+          <Col xs={24} sm={12} lg={4}>
+            <Card>
+              <Statistic title="Blocks Proposed" value={summary?.blocksProposed ?? 0} />
+            </Card>
+          </Col>
+          <Col xs={24} sm={12} lg={4}>
+            <Card>
+              <Statistic
+                title="Avg Latency"
+                value={summary?.averageLatency ?? 0}
+                precision={0}
+                suffix="ms"
+              />
+            </Card>
+          </Col>
+          <Col xs={24} sm={12} lg={4}>
+            <Card>
+              <Statistic
+                title="Rewards"
+                value={summary?.rewards ?? 0}
+                precision={2}
+                suffix="AUR"
+                valueStyle={{ color: '#722ed1' }}
+              />
+            </Card>
+          </Col>
+        </Row>
+
+        <Spin spinning={loading && !!history}>
+          <Row gutter={[16, 16]} style={{ marginTop: '16px' }}>
+            <Col xs={24} lg={12}>
+              <Card title="Uptime">
+                {history ? (
+                  <PerformanceHeatmap
+                    buckets={history.buckets}
+                    metric="uptime"
+                    rows={HEATMAP_ROWS[history.period]}
+                    bucketMinutes={history.bucketMinutes}
+                  />
+                ) : (
+                  <Spin />
+                )}
+              </Card>
+            </Col>
+            <Col xs={24} lg={12}>
+              <Card title="Missed Blocks">
+                {history ? (
+                  <PerformanceHeatmap
+                    buckets={history.buckets}
+                    metric="missed"
+                    rows={HEATMAP_ROWS[history.period]}
+                    bucketMinutes={history.bucketMinutes}
+                  />
+                ) : (
+                  <Spin />
+                )}
+              </Card>
+            </Col>
+            <Col xs={24} lg={16}>
+              <Card
+                title="Proposer Share"
+                extra={
+                  validator && (
+                    <Text type="secondary">
+                      Expected from voting power: {validator.votingPower}%
+                    </Text>
+                  )
+                }
+              >
+                <ResponsiveContainer width="100%" height={260}>
+                  <AreaChart data={history?.buckets ?? []}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      dataKey="start"
+                      tickFormatter={(start: string) => formatTick(start, period)}
+                      minTickGap={32}
+                    />
+                    <YAxis unit="%" />
+                    <RechartsTooltip
+                      labelFormatter={(start) => new Date(String(start)).toLocaleString()}
+                      formatter={(share) => [`${Number(share).toFixed(2)}%`, 'Proposer share']}
+                    />
+                    {validator && (
+                      <ReferenceLine
+                        y={validator.votingPower}
+                        stroke="#8c8c8c"
+                        strokeDasharray="4 4"
+                      />
+                    )}
+                    <Area
+                      type="monotone"
+                      dataKey="proposerShare"
+                      stroke="#1890ff"
+                      fill="#1890ff"
+                      fillOpacity={0.2}
+                      isAnimationActive={false}
+                    />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </Card>
+            </Col>
+            <Col xs={24} lg={8}>
+              <Card title="Slashing Timeline" style={{ height: '100%' }}>
+                {slashing.length === 0 ? (
+                  <Empty description="No slashing events recorded" />
+                ) : (
+                  <Timeline
+                    items={slashing.map((event) => ({
+                      key: `${event.height}-${event.reason}`,
+                      color: event.reason === 'double_sign' ? 'red' : 'orange',
+                      dot: event.reason === 'double_sign' ? <WarningOutlined /> : undefined,
+                      children: (
+                        <>
+                          <Text strong>
+                            {event.reason === 'double_sign' ? 'Double sign' : 'Downtime'}
+                          </Text>{' '}
+                          <Tag color="red">-{(event.fraction * 100).toFixed(2)}% stake</Tag>
+                          <br />
+                          <Text type="secondary" style={{ fontSize: 12 }}>
+                            Block #{event.height.toLocaleString()} ·{' '}
+                            {new Date(event.occurredAt).toLocaleString()}
+                          </Text>
+                        </>
+                      ),
+                    }))}
+                  />
+                )}
+              </Card>
+            </Col>
+          </Row>
+        </Spin>
+
+        {validators.length > 0 && (
+          <div style={{ marginTop: '16px' }}>
+            <ValidatorComparison
+              key={validatorId}
+              validators={validators}
+              baseValidatorId={validatorId}
+              period={period}
+              initialCompareIds={searchParams.get('compare')?.split(',').filter(Boolean)}
+            />
+          </div>
+        )}
+      </div>
+    </ErrorBoundary>
+  );
+};
+
+export default ValidatorDetail;
@@ -4,14 +4,49 @@
  * 2D/3D node visualization dashboard
  */
 
-import { Card, Empty, Space } from 'antd';
-import { useAppSelector } from '../../hooks/useRedux';
-import { selectNodesArray, selectSpatialViewMode } from '../../store/selectors';
+import { useCallback, useMemo, useState } from 'react';
+import { Button, Card, Descriptions, Empty, Segmented, Select, Space, Tag } from 'antd';
+import { ReloadOutlined } from '@ant-design/icons';
+import { useAppDispatch, useAppSelector } from '../../hooks/useRedux';
+import { selectNodesArray, selectSelectedNode, selectSpatialViewMode } from '../../store/selectors';
+import { setSelectedNode, setSpatialViewMode, updateNode } from '../../store/demoAppSlice';
+import type { NodePosition } from '../../types/nodes';
 import SystemMetricsCards from './SystemMetricsCards';
+import { buildTopology, NODE_TYPE_COLORS, type TopologyColorMode } from './spatial/topology';
+import TopologyView2D from './spatial/TopologyView2D';
+import TopologyView3D from './spatial/TopologyView3D';
+
+const COLOR_MODE_OPTIONS: Array<{ value: TopologyColorMode; label: string }> = [
+  { value: 'type', label: 'Color by type' },
+  { value: 'status', label: 'Color by status' },
+  { value: 'latency', label: 'Color by latency' },
+];
 
 export const SpatialDashboard = () => {
+  const dispatch = useAppDispatch();
   const nodes = useAppSelector(selectNodesArray);
   const viewMode = useAppSelector(selectSpatialViewMode);
+  const selectedNode = useAppSelector(selectSelectedNode);
+  const [colorMode, setColorMode] = useState<TopologyColorMode>('type');
+  const [layoutKey, setLayoutKey] = useState(0);
+
+  const topology = useMemo(() => buildTopology(nodes, colorMode), [nodes, colorMode]);
+
+  const handleSelect = useCallback(
+    (nodeId: string) => dispatch(setSelectedNode(nodeId)),
+    [dispatch]
+  );
+
+  const handleMove = useCallback(
+    (moves: Array<{ nodeId: string; position: NodePosition }>) => {
+      moves.forEach(({ nodeId, position }) =>
+        dispatch(updateNode({ nodeId, updates: { position } }))
+      );
+    },
+    [dispatch]
+  );
+
+  const selectedTopologyNode = topology.nodes.find((node) => node.id === selectedNode?.id);
 
   return (
     <Space direction="vertical" size="large" style={{ width: '100%' }}>
@@ -19,17 +54,97 @@ export const SpatialDashboard = () => {
       <SystemMetricsCards />
 
       {/* Spatial Visualization */}
-      <Card title={`Spatial View (${viewMode.toUpperCase()})`} style={{ minHeight: 500 }}>
-        <Empty
-          description={
-            nodes.length === 0
-              ? 'No nodes created. Add nodes to visualize the network.'
-              : 'Spatial visualization will be implemented with D3.js or Three.js'
-          }
-        />
-        <div style={{ marginTop: 16, fontSize: '12px', color: '#8c8c8c' }}>
-          Total Nodes: {nodes.length}
-        </div>
+      <Card
+        title={`Spatial View (${viewMode.toUpperCase()})`}
+        style={{ minHeight: 500 }}
+        extra={
+          <Space>
+            <Select
+              value={colorMode}
+              onChange={setColorMode}
+              options={COLOR_MODE_OPTIONS}
+              style={{ width: 160 }}
+            />
+            {viewMode === '2d' && (
+              <Button
+                icon={<ReloadOutlined />}
+                onClick={() => setLayoutKey((key) => key + 1)}
+                disabled={nodes.length === 0}
+              >
+                Re-run Layout
+              </Button>
+            )}
+            <Segmented
+              value={viewMode}
+              onChange={(value) => dispatch(setSpatialViewMode(value as '2d' | '3d'))}
+              options={[
+                { value: '2d', label: '2D' },
+                { value: '3d', label: '3D' },
+              ]}
+            />
+          </Space>
+        }
+      >
+        {nodes.length === 0 ? (
+          <Empty description="No nodes created. Add nodes to visualize the network." />
+        ) : viewMode === '2d' ? (
+          <TopologyView2D
+            topology={topology}
+            selectedId={selectedNode?.id ?? null}
+            onSelect={handleSelect}
+            onMove={handleMove}
+            layoutKey={layoutKey}
+          />
+        ) : (
+          <TopologyView3D
+            topology={topology}
+            selectedId={selectedNode?.id ?? null}
+            onSelect={handleSelect}
+            onMove={handleMove}
+          />
+        )}
+
+        <Space wrap style={{ marginTop: 16, fontSize: '12px', color: '#8c8c8c' }}>
+          <span>Total Nodes: {nodes.length}</span>
+          <span>Connections: {topology.edges.length}</span>
+          {Object.entries(NODE_TYPE_COLORS).map(([type, color]) => (
+            <Tag key={type} color={color}>
+              {type}
+            </Tag>
+          ))}
+          <span>
+            Size reflects activity. Drag nodes to reposition
+            {viewMode === '3d' ? ', drag the background to orbit.' : '.'}
+          </span>
+        </Space>
+
+        {selectedNode && selectedTopologyNode && (
+          <Descriptions
+            size="small"
+            bordered
+            column={4}
+            style={{ marginTop: 16 }}
+            title={selectedNode.name}
+            extra={
+              <Button size="small" onClick={() => dispatch(setSelectedNode(null))}>
+                Clear
+              </Button>
+            }
+          >
+            <Descriptions.Item label="Type">{selectedNode.type}</Descriptions.Item>
+            <Descriptions.Item label="Status">{selectedNode.status}</Descriptions.Item>
+            <Descriptions.Item label="Activity">
+              {selectedTopologyNode.activityLabel}
+            </Descriptions.Item>
+            <Descriptions.Item label="Latency">
+              {selectedTopologyNode.latency.toFixed(1)} ms
+            </Descriptions.Item>
+            <Descriptions.Item label="Position">
+              ({selectedTopologyNode.position.x}, {selectedTopologyNode.position.y},{' '}
+              {selectedTopologyNode.position.z})
+            </Descriptions.Item>
+          </Descriptions>
+        )}
       </Card>
     </Space>
   );
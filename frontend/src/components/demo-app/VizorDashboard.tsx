@@ -4,20 +4,160 @@
  * Real-time charts dashboard with TPS, latency, consensus, and transactions
  */
 
-import { Row, Col, Space } from 'antd';
+import { useState } from 'react';
+import { Row, Col, Space, Card, Button, Switch, Alert, Tag } from 'antd';
+import {
+  PauseCircleOutlined,
+  PlayCircleOutlined,
+  ZoomOutOutlined,
+  ClearOutlined,
+} from '@ant-design/icons';
+import { AreaChart, Area, Brush, ResponsiveContainer, XAxis } from 'recharts';
+import { useAppDispatch, useAppSelector } from '../../hooks/useRedux';
+import { useVizorStream } from '../../hooks/useVizorStream';
+import { formatChartTime } from '../../utils/chartSeries';
+import { clearChartData, setChartsPaused } from '../../store/demoAppSlice';
+import { selectChartsPaused, selectMetricsError, selectTpsChartData } from '../../store/selectors';
 import TPSChart from './charts/TPSChart';
+import LatencyChart from './charts/LatencyChart';
+import ConsensusChart from './charts/ConsensusChart';
+import TransactionsChart from './charts/TransactionsChart';
+import type { TimeDomain } from './charts/VizorChart';
 import SystemMetricsCards from './SystemMetricsCards';
 
 export const VizorDashboard = () => {
+  const dispatch = useAppDispatch();
+  const paused = useAppSelector(selectChartsPaused);
+  const metricsError = useAppSelector(selectMetricsError);
+  const tpsData = useAppSelector(selectTpsChartData);
+  const [zoom, setZoom] = useState<TimeDomain | null>(null);
+  const [showStats, setShowStats] = useState(true);
+
+  useVizorStream();
+
+  // The TPS series drives the shared time axis; every series is sampled together
+  const timeline = tpsData.map((point) => ({
+    time: Date.parse(point.timestamp),
+    value: point.value,
+  }));
+  const lastIndex = Math.max(timeline.length - 1, 0);
+  const first = timeline[0];
+  const last = timeline[lastIndex];
+
+  // Zoom is kept as a time window so it survives downsampling
+  const startIndex = zoom
+    ? Math.max(
+        timeline.findIndex((point) => point.time >= zoom[0]),
+        0
+      )
+    : 0;
+  const endIndex = zoom
+    ? timeline.reduce((found, point, index) => (point.time <= zoom[1] ? index : found), lastIndex)
+    : lastIndex;
+  const domain: TimeDomain | undefined =
+    zoom ?? (first && last && last.time > first.time ? [first.time, last.time] : undefined);
+
+  const handleBrushChange = (range: { startIndex?: number; endIndex?: number }) => {
+    const start = timeline[range.startIndex ?? 0];
+    const end = timeline[range.endIndex ?? lastIndex];
+    if (!start || !end || (range.startIndex === 0 && range.endIndex === lastIndex)) {
+      setZoom(null);
+    } else {
+      setZoom([start.time, end.time]);
+    }
+  };
+
+  const chartProps = { domain, showStats };
+
   return (
     <Space direction="vertical" size="large" style={{ width: '100%' }}>
       {/* System Metrics Cards */}
       <SystemMetricsCards />
 
+      {metricsError && (
+        <Alert
+          type="error"
+          showIcon
+          message="Live metrics unavailable"
+          description={metricsError}
+        />
+      )}
+
+      {/* Shared Timeline */}
+      <Card
+        title={
+          <Space>
+            Timeline
+            {paused ? <Tag>Paused</Tag> : <Tag color="processing">Live</Tag>}
+            {zoom && <Tag color="purple">Zoomed</Tag>}
+          </Space>
+        }
+        extra={
+          <Space>
+            <Space size={4}>
+              <Switch size="small" checked={showStats} onChange={setShowStats} />
+              <span>Min/Avg/Max</span>
+            </Space>
+            <Button icon={<ZoomOutOutlined />} onClick={() => setZoom(null)} disabled={!zoom}>
+              Reset Zoom
+            </Button>
+            <Button
+              icon={<ClearOutlined />}
+              onClick={() => {
+                setZoom(null);
+                dispatch(clearChartData());
+              }}
+            >
+              Clear
+            </Button>
+            <Button
+              type="primary"
+              icon={paused ? <PlayCircleOutlined /> : <PauseCircleOutlined />}
+              onClick={() => dispatch(setChartsPaused(!paused))}
+            >
+              {paused ? 'Resume' : 'Pause'}
+            </Button>
+          </Space>
+        }
+      >
+        <ResponsiveContainer width="100%" height={90}>
+          <AreaChart data={timeline}>
+            <XAxis dataKey="time" hide />
+            <Area
+              type="monotone"
+              dataKey="value"
+              stroke="#1890ff"
+              fill="#e6f7ff"
+              isAnimationActive={false}
+            />
+            {timeline.length > 1 && (
+              <Brush
+                dataKey="time"
+                height={24}
+                stroke="#1890ff"
+                startIndex={startIndex}
+                endIndex={endIndex}
+                tickFormatter={formatChartTime}
+                onChange={handleBrushChange}
+              />
+            )}
+          </AreaChart>
+        </ResponsiveContainer>
+      </Card>
+
       {/* Charts Grid */}
       <Row gutter={[16, 16]}>
-        <Col span={24}>
-          <TPSChart />
+        <Col xs={24} xl={12}>
+          <TPSChart {...chartProps} />
+        </Col>
+        <Col xs={24} xl={12}>
+          <LatencyChart {...chartProps} />
+        </Col>
+        <Col xs={24} xl={12}>
+          <ConsensusChart {...chartProps} />
+        </Col>
+        <Col xs={24} xl={12}>
+          <TransactionsChart {...chartProps} />
         </Col>
       </Row>
     </Space>
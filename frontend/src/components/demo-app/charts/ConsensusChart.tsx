@@ -0,0 +1,27 @@
+/**
+ * Consensus Chart Component
+ *
+ * Real-time line chart showing block finality latency over time
+ */
+
+import { useAppSelector } from '../../../hooks/useRedux';
+import { selectConsensusChartData } from '../../../store/selectors';
+import VizorChart, { type SeriesChartProps } from './VizorChart';
+
+export const ConsensusChart = (props: SeriesChartProps) => {
+  const chartData = useAppSelector(selectConsensusChartData);
+
+  return (
+    <VizorChart
+      {...props}
+      title="Consensus Finality"
+      data={chartData}
+      seriesName="Finality"
+      unit="ms"
+      color="#722ed1"
+      precision={1}
+    />
+  );
+};
+
+export default ConsensusChart;
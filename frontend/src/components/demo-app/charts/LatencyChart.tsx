@@ -0,0 +1,27 @@
+/**
+ * Latency Chart Component
+ *
+ * Real-time line chart showing average transaction latency over time
+ */
+
+import { useAppSelector } from '../../../hooks/useRedux';
+import { selectLatencyChartData } from '../../../store/selectors';
+import VizorChart, { type SeriesChartProps } from './VizorChart';
+
+export const LatencyChart = (props: SeriesChartProps) => {
+  const chartData = useAppSelector(selectLatencyChartData);
+
+  return (
+    <VizorChart
+      {...props}
+      title="Average Latency"
+      data={chartData}
+      seriesName="Latency"
+      unit="ms"
+      color="#fa8c16"
+      precision={2}
+    />
+  );
+};
+
+export default LatencyChart;
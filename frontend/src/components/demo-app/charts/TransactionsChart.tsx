@@ -0,0 +1,26 @@
+/**
+ * Transactions Chart Component
+ *
+ * Real-time line chart showing the pending transaction backlog over time
+ */
+
+import { useAppSelector } from '../../../hooks/useRedux';
+import { selectTransactionsChartData } from '../../../store/selectors';
+import VizorChart, { type SeriesChartProps } from './VizorChart';
+
+export const TransactionsChart = (props: SeriesChartProps) => {
+  const chartData = useAppSelector(selectTransactionsChartData);
+
+  return (
+    <VizorChart
+      {...props}
+      title="Pending Transactions"
+      data={chartData}
+      seriesName="Pending"
+      unit="tx"
+      color="#52c41a"
+    />
+  );
+};
+
+export default TransactionsChart;
@@ -0,0 +1,117 @@
+/**
+ * Vizor Chart Component
+ *
+ * Time-series line chart shared by the Vizor dashboard charts. All charts
+ * are drawn against the same time domain so zooming one zooms them all, and
+ * min/avg/max reference lines summarise the visible window.
+ */
+
+import { Card, Space, Tag } from 'antd';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import type { ChartDataPoint } from '../../../types/state';
+import { formatChartTime, seriesStats } from '../../../utils/chartSeries';
+
+/** Visible time window in epoch milliseconds */
+export type TimeDomain = [number, number];
+
+/** Props shared by the individual Vizor charts */
+export interface SeriesChartProps {
+  domain?: TimeDomain;
+  showStats?: boolean;
+  height?: number;
+}
+
+interface VizorChartProps extends SeriesChartProps {
+  title: string;
+  data: ChartDataPoint[];
+  seriesName: string;
+  unit: string;
+  color: string;
+  precision?: number;
+}
+
+export const VizorChart = ({
+  title,
+  data,
+  seriesName,
+  unit,
+  color,
+  precision = 0,
+  domain,
+  showStats = true,
+  height = 300,
+}: VizorChartProps) => {
+  const points = data
+    .map((point) => ({ time: Date.parse(point.timestamp), value: point.value }))
+    .filter((point) => !domain || (point.time >= domain[0] && point.time <= domain[1]));
+  const stats = seriesStats(points.map((point) => point.value));
+  const format = (value: number) => `${value.toFixed(precision)} ${unit}`;
+
+  return (
+    <Card
+      title={title}
+      style={{ height: '100%' }}
+      extra={
+        showStats &&
+        stats && (
+          <Space size={4}>
+            <Tag color="green">min {format(stats.min)}</Tag>
+            <Tag color="blue">avg {format(stats.avg)}</Tag>
+            <Tag color="red">max {format(stats.max)}</Tag>
+          </Space>
+        )
+      }
+    >
+      <ResponsiveContainer width="100%" height={height}>
+        <LineChart data={points}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="time"
+            type="number"
+            scale="time"
+            domain={domain ?? ['dataMin', 'dataMax']}
+            allowDataOverflow
+            tick={{ fontSize: 12 }}
+            tickFormatter={formatChartTime}
+          />
+          <YAxis
+            tick={{ fontSize: 12 }}
+            label={{ value: unit, angle: -90, position: 'insideLeft' }}
+          />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#fff', border: '1px solid #d9d9d9' }}
+            labelFormatter={(time: number) => formatChartTime(time)}
+            formatter={(value: number) => [format(value), seriesName]}
+          />
+          {showStats && stats && (
+            <>
+              <ReferenceLine y={stats.min} stroke="#52c41a" strokeDasharray="4 4" />
+              <ReferenceLine y={stats.avg} stroke="#1890ff" strokeDasharray="4 4" />
+              <ReferenceLine y={stats.max} stroke="#ff4d4f" strokeDasharray="4 4" />
+            </>
+          )}
+          <Line
+            type="monotone"
+            dataKey="value"
+            name={seriesName}
+            stroke={color}
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </Card>
+  );
+};
+
+export default VizorChart;
@@ -0,0 +1,253 @@
+/**
+ * 2D Topology View
+ *
+ * Force-directed SVG drawing of the network. The layout starts from the
+ * stored node positions, nodes can be dragged, and positions are handed back
+ * through onMove when a drag ends or the layout settles.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import type { NodePosition } from '../../../types/nodes';
+import {
+  packetFlow,
+  stepLayout,
+  type LayoutPoint,
+  type Topology,
+  type TopologyNode,
+} from './topology';
+
+interface TopologyView2DProps {
+  topology: Topology;
+  selectedId: string | null;
+  onSelect: (nodeId: string) => void;
+  onMove: (moves: Array<{ nodeId: string; position: NodePosition }>) => void;
+  /** Bumped by the parent to restart the layout */
+  layoutKey: number;
+  height?: number;
+}
+
+const PADDING = 60;
+const SETTLED_ALPHA = 0.01;
+const COOLING = 0.97;
+
+/** Stored position for a laid-out node; depth is left as it was */
+const settledPosition = (node: TopologyNode, point: LayoutPoint): NodePosition => ({
+  ...node.position,
+  x: Math.round(point.x),
+  y: Math.round(point.y),
+});
+
+export const TopologyView2D = ({
+  topology,
+  selectedId,
+  onSelect,
+  onMove,
+  layoutKey,
+  height = 520,
+}: TopologyView2DProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const pointsRef = useRef(new Map<string, LayoutPoint>());
+  const alphaRef = useRef(0);
+  const dragRef = useRef<{ id: string; moved: boolean } | null>(null);
+  const viewBoxRef = useRef('0 0 100 100');
+  const [, setFrame] = useState(0);
+  const [running, setRunning] = useState(false);
+
+  // Keep a layout point per node, starting from its stored position
+  const nodeIds = topology.nodes.map((node) => node.id).join(',');
+  useEffect(() => {
+    const points = pointsRef.current;
+    const ids = new Set(topology.nodes.map((node) => node.id));
+    [...points.keys()].forEach((id) => {
+      if (!ids.has(id)) points.delete(id);
+    });
+    topology.nodes.forEach((node) => {
+      if (!points.has(node.id)) {
+        points.set(node.id, { x: node.position.x, y: node.position.y, vx: 0, vy: 0 });
+      }
+    });
+    alphaRef.current = 1;
+    setRunning(true);
+    // Only a change in which nodes exist restarts the layout
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [nodeIds, layoutKey]);
+
+  // Run the layout until it settles, then persist where nodes ended up
+  useEffect(() => {
+    if (!running) return;
+    let frameId = 0;
+    const tick = () => {
+      stepLayout(pointsRef.current, topology.edges, alphaRef.current, dragRef.current?.id);
+      alphaRef.current *= COOLING;
+      setFrame((frame) => frame + 1);
+
+      if (alphaRef.current > SETTLED_ALPHA || dragRef.current) {
+        frameId = requestAnimationFrame(tick);
+        return;
+      }
+      setRunning(false);
+      const moves = topology.nodes.flatMap((node) => {
+        const point = pointsRef.current.get(node.id);
+        return point && Math.hypot(point.x - node.position.x, point.y - node.position.y) > 1
+          ? [{ nodeId: node.id, position: settledPosition(node, point) }]
+          : [];
+      });
+      if (moves.length > 0) onMove(moves);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [running, topology, onMove]);
+
+  const positionOf = (node: TopologyNode) => pointsRef.current.get(node.id) ?? node.position;
+
+  // Fit the view to the nodes, but hold it still while something is dragged
+  if (!dragRef.current && topology.nodes.length > 0) {
+    const xs = topology.nodes.map((node) => positionOf(node).x);
+    const ys = topology.nodes.map((node) => positionOf(node).y);
+    const minX = Math.min(...xs) - PADDING;
+    const minY = Math.min(...ys) - PADDING;
+    viewBoxRef.current = `${minX} ${minY} ${Math.max(...xs) + PADDING - minX} ${
+      Math.max(...ys) + PADDING - minY
+    }`;
+  }
+
+  const maxBandwidth = useMemo(
+    () => Math.max(0, ...topology.edges.map((edge) => edge.bandwidth)),
+    [topology.edges]
+  );
+  const nodesById = new Map(topology.nodes.map((node) => [node.id, node]));
+
+  const toSvgPoint = (event: ReactPointerEvent) => {
+    const matrix = svgRef.current?.getScreenCTM()?.inverse();
+    if (!matrix) return null;
+    return new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix);
+  };
+
+  const handlePointerDown = (event: ReactPointerEvent<SVGGElement>, nodeId: string) => {
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { id: nodeId, moved: false };
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent<SVGGElement>) => {
+    const drag = dragRef.current;
+    const point = drag && pointsRef.current.get(drag.id);
+    const target = point && toSvgPoint(event);
+    if (!drag || !point || !target) return;
+    drag.moved = true;
+    point.x = target.x;
+    point.y = target.y;
+    // Let the neighbours react to the move
+    alphaRef.current = Math.max(alphaRef.current, 0.3);
+    if (!running) setRunning(true);
+    setFrame((frame) => frame + 1);
+  };
+
+  const handlePointerUp = (event: ReactPointerEvent<SVGGElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    if (!drag) return;
+    if (!drag.moved) {
+      onSelect(drag.id);
+      return;
+    }
+    const node = nodesById.get(drag.id);
+    const point = pointsRef.current.get(drag.id);
+    if (node && point) {
+      onMove([{ nodeId: drag.id, position: settledPosition(node, point) }]);
+    }
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      width="100%"
+      height={height}
+      viewBox={viewBoxRef.current}
+      preserveAspectRatio="xMidYMid meet"
+      style={{ background: '#fafafa', borderRadius: 4, touchAction: 'none' }}
+    >
+      <defs>
+        <marker
+          id="topology-arrow"
+          viewBox="0 0 10 10"
+          refX="10"
+          refY="5"
+          markerWidth="6"
+          markerHeight="6"
+          orient="auto-start-reverse"
+        >
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="#bfbfbf" />
+        </marker>
+      </defs>
+
+      {topology.edges.map((edge) => {
+        const source = nodesById.get(edge.source);
+        const target = nodesById.get(edge.target);
+        if (!source || !target) return null;
+        const from = positionOf(source);
+        const to = positionOf(target);
+        // Stop the line at the target's rim so the arrow stays visible
+        const length = Math.max(Math.hypot(to.x - from.x, to.y - from.y), 1);
+        const endX = to.x - ((to.x - from.x) / length) * target.radius;
+        const endY = to.y - ((to.y - from.y) / length) * target.radius;
+        const path = `M ${from.x} ${from.y} L ${endX} ${endY}`;
+        const flow = packetFlow(edge, maxBandwidth);
+
+        return (
+          <g key={edge.id}>
+            <path d={path} stroke="#d9d9d9" strokeWidth={2} markerEnd="url(#topology-arrow)" />
+            {source.status === 'active' &&
+              Array.from({ length: flow.count }, (_, index) => (
+                <circle key={index} r={3} fill="#1890ff">
+                  <animateMotion
+                    path={path}
+                    dur={`${flow.durationSeconds}s`}
+                    begin={`${(flow.durationSeconds * index) / flow.count}s`}
+                    repeatCount="indefinite"
+                  />
+                </circle>
+              ))}
+          </g>
+        );
+      })}
+
+      {topology.nodes.map((node) => {
+        const { x, y } = positionOf(node);
+        const selected = node.id === selectedId;
+        return (
+          <g
+            key={node.id}
+            transform={`translate(${x} ${y})`}
+            style={{ cursor: 'grab' }}
+            onPointerDown={(event) => handlePointerDown(event, node.id)}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            <title>{`${node.name} (${node.type}, ${node.status}) · ${node.activityLabel} · ${node.latency.toFixed(1)} ms`}</title>
+            <circle
+              r={node.radius}
+              fill={node.color}
+              fillOpacity={node.status === 'inactive' ? 0.4 : 0.9}
+              stroke={selected ? '#000' : '#fff'}
+              strokeWidth={selected ? 3 : 2}
+            />
+            <text
+              y={node.radius + 14}
+              textAnchor="middle"
+              fontSize={11}
+              fill="#595959"
+              style={{ pointerEvents: 'none', userSelect: 'none' }}
+            >
+              {node.name}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default TopologyView2D;
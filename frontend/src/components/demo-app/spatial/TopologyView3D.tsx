@@ -0,0 +1,262 @@
+/**
+ * 3D Topology View
+ *
+ * Perspective SVG drawing of the network using each node's x/y/z position.
+ * Dragging the background orbits the camera; dragging a node moves it in the
+ * screen plane and hands the new position back through onMove.
+ */
+
+import { useMemo, useRef, useState } from 'react';
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import type { NodePosition } from '../../../types/nodes';
+import {
+  packetFlow,
+  project,
+  unprojectDelta,
+  type Camera,
+  type Topology,
+  type TopologyNode,
+} from './topology';
+
+interface TopologyView3DProps {
+  topology: Topology;
+  selectedId: string | null;
+  onSelect: (nodeId: string) => void;
+  onMove: (moves: Array<{ nodeId: string; position: NodePosition }>) => void;
+  height?: number;
+}
+
+const VIEW_WIDTH = 800;
+const ORBIT_SPEED = 0.01;
+const MAX_PITCH = 1.4;
+
+type Drag =
+  | { kind: 'orbit'; lastX: number; lastY: number }
+  | { kind: 'node'; id: string; startX: number; startY: number; moved: boolean };
+
+export const TopologyView3D = ({
+  topology,
+  selectedId,
+  onSelect,
+  onMove,
+  height = 520,
+}: TopologyView3DProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [camera, setCamera] = useState<Camera>({ yaw: 0.6, pitch: 0.35 });
+  const [dragged, setDragged] = useState<{ id: string; position: Required<NodePosition> } | null>(
+    null
+  );
+
+  const positionOf = (node: TopologyNode) =>
+    dragged?.id === node.id ? dragged.position : node.position;
+
+  // Centre on the nodes and scale so the whole network fits in view
+  const { origin, focal, fitScale } = useMemo(() => {
+    const count = Math.max(topology.nodes.length, 1);
+    const center = topology.nodes.reduce(
+      (sum, node) => ({
+        x: sum.x + node.position.x / count,
+        y: sum.y + node.position.y / count,
+        z: sum.z + node.position.z / count,
+      }),
+      { x: 0, y: 0, z: 0 }
+    );
+    const extent = Math.max(
+      100,
+      ...topology.nodes.map((node) =>
+        Math.hypot(
+          node.position.x - center.x,
+          node.position.y - center.y,
+          node.position.z - center.z
+        )
+      )
+    );
+    return {
+      origin: center,
+      focal: extent * 3,
+      fitScale: (Math.min(VIEW_WIDTH, height) * 0.4) / extent,
+    };
+  }, [topology.nodes, height]);
+
+  const projected = new Map(
+    topology.nodes.map((node) => {
+      const point = project(positionOf(node), origin, camera, focal);
+      return [
+        node.id,
+        {
+          ...point,
+          x: point.x * fitScale,
+          y: point.y * fitScale,
+          radius: node.radius * point.scale,
+        },
+      ];
+    })
+  );
+  // Far nodes first so near ones are painted over them
+  const paintOrder = [...topology.nodes].sort(
+    (a, b) => (projected.get(b.id)?.depth ?? 0) - (projected.get(a.id)?.depth ?? 0)
+  );
+  const nodesById = new Map(topology.nodes.map((node) => [node.id, node]));
+  const maxBandwidth = Math.max(0, ...topology.edges.map((edge) => edge.bandwidth));
+
+  const toSvgPoint = (event: ReactPointerEvent) => {
+    const matrix = svgRef.current?.getScreenCTM()?.inverse();
+    if (!matrix) return null;
+    return new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix);
+  };
+
+  const handleBackgroundDown = (event: ReactPointerEvent<SVGSVGElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { kind: 'orbit', lastX: event.clientX, lastY: event.clientY };
+  };
+
+  const handleNodeDown = (event: ReactPointerEvent<SVGGElement>, nodeId: string) => {
+    event.stopPropagation();
+    const start = toSvgPoint(event);
+    svgRef.current?.setPointerCapture(event.pointerId);
+    dragRef.current = {
+      kind: 'node',
+      id: nodeId,
+      startX: start?.x ?? 0,
+      startY: start?.y ?? 0,
+      moved: false,
+    };
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    if (drag.kind === 'orbit') {
+      const dx = event.clientX - drag.lastX;
+      const dy = event.clientY - drag.lastY;
+      drag.lastX = event.clientX;
+      drag.lastY = event.clientY;
+      setCamera((current) => ({
+        yaw: current.yaw + dx * ORBIT_SPEED,
+        pitch: Math.min(Math.max(current.pitch + dy * ORBIT_SPEED, -MAX_PITCH), MAX_PITCH),
+      }));
+      return;
+    }
+
+    const node = nodesById.get(drag.id);
+    const point = toSvgPoint(event);
+    const scale = (projected.get(drag.id)?.scale ?? 1) * fitScale;
+    if (!node || !point) return;
+    drag.moved = true;
+    const delta = unprojectDelta(
+      (point.x - drag.startX) / scale,
+      (point.y - drag.startY) / scale,
+      camera
+    );
+    setDragged({
+      id: drag.id,
+      position: {
+        x: node.position.x + delta.x,
+        y: node.position.y + delta.y,
+        z: node.position.z + delta.z,
+      },
+    });
+  };
+
+  const handlePointerUp = (event: ReactPointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    if (drag?.kind !== 'node') return;
+    if (!drag.moved) {
+      onSelect(drag.id);
+    } else if (dragged?.id === drag.id) {
+      onMove([
+        {
+          nodeId: drag.id,
+          position: {
+            x: Math.round(dragged.position.x),
+            y: Math.round(dragged.position.y),
+            z: Math.round(dragged.position.z),
+          },
+        },
+      ]);
+    }
+    setDragged(null);
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      width="100%"
+      height={height}
+      viewBox={`${-VIEW_WIDTH / 2} ${-height / 2} ${VIEW_WIDTH} ${height}`}
+      preserveAspectRatio="xMidYMid meet"
+      style={{ background: '#141414', borderRadius: 4, cursor: 'move', touchAction: 'none' }}
+      onPointerDown={handleBackgroundDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      {topology.edges.map((edge) => {
+        const source = projected.get(edge.source);
+        const target = projected.get(edge.target);
+        if (!source || !target) return null;
+        const path = `M ${source.x} ${source.y} L ${target.x} ${target.y}`;
+        const flow = packetFlow(edge, maxBandwidth);
+        const active = nodesById.get(edge.source)?.status === 'active';
+
+        return (
+          <g key={edge.id}>
+            <path
+              d={path}
+              stroke="#434343"
+              strokeWidth={Math.max(1, 1.5 * Math.min(source.scale, target.scale))}
+            />
+            {active &&
+              Array.from({ length: flow.count }, (_, index) => (
+                <circle key={index} r={2.5} fill="#69c0ff">
+                  <animateMotion
+                    path={path}
+                    dur={`${flow.durationSeconds}s`}
+                    begin={`${(flow.durationSeconds * index) / flow.count}s`}
+                    repeatCount="indefinite"
+                  />
+                </circle>
+              ))}
+          </g>
+        );
+      })}
+
+      {paintOrder.map((node) => {
+        const point = projected.get(node.id);
+        if (!point) return null;
+        const selected = node.id === selectedId;
+        return (
+          <g
+            key={node.id}
+            transform={`translate(${point.x} ${point.y})`}
+            style={{ cursor: 'grab' }}
+            onPointerDown={(event) => handleNodeDown(event, node.id)}
+          >
+            <title>{`${node.name} (${node.type}, ${node.status}) · ${node.activityLabel} · ${node.latency.toFixed(1)} ms`}</title>
+            <circle
+              r={point.radius}
+              fill={node.color}
+              fillOpacity={node.status === 'inactive' ? 0.4 : 0.9}
+              stroke={selected ? '#fff' : '#262626'}
+              strokeWidth={selected ? 3 : 1}
+            />
+            <text
+              y={point.radius + 12}
+              textAnchor="middle"
+              fontSize={Math.max(8, 11 * point.scale)}
+              fill="#d9d9d9"
+              style={{ pointerEvents: 'none', userSelect: 'none' }}
+            >
+              {node.name}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default TopologyView3D;
@@ -0,0 +1,296 @@
+/**
+ * Network Topology Model
+ *
+ * Turns demo app nodes and channel connections into a drawable graph, and
+ * holds the force layout and 3D projection math shared by the spatial views.
+ */
+
+import type { NodeConfig, NodePosition, NodeStatus, NodeType } from '../../../types/nodes';
+
+export type TopologyColorMode = 'type' | 'status' | 'latency';
+
+export interface TopologyNode {
+  id: string;
+  name: string;
+  type: NodeType;
+  status: NodeStatus;
+  position: Required<NodePosition>;
+  /** Radius in view units, from the node's activity */
+  radius: number;
+  color: string;
+  activityLabel: string;
+  latency: number;
+}
+
+export interface TopologyEdge {
+  id: string;
+  source: string;
+  target: string;
+  latency: number;
+  bandwidth: number;
+  packetsTransferred: number;
+}
+
+export interface Topology {
+  nodes: TopologyNode[];
+  edges: TopologyEdge[];
+}
+
+export const NODE_TYPE_COLORS: Record<NodeType, string> = {
+  channel: '#1890ff',
+  validator: '#722ed1',
+  business: '#52c41a',
+  slim: '#fa8c16',
+};
+
+export const NODE_STATUS_COLORS: Record<NodeStatus, string> = {
+  active: '#52c41a',
+  inactive: '#bfbfbf',
+  error: '#ff4d4f',
+};
+
+const MIN_RADIUS = 10;
+const MAX_RADIUS = 28;
+
+/** The metric each node type is busiest by */
+const activityOf = (node: NodeConfig): { value: number; label: string } => {
+  switch (node.type) {
+    case 'channel':
+      return { value: node.metrics.totalPackets, label: 'packets' };
+    case 'validator':
+      return { value: node.metrics.blocksCommitted, label: 'blocks committed' };
+    case 'business':
+      return { value: node.metrics.totalTransactions, label: 'transactions' };
+    case 'slim':
+      return { value: node.metrics.totalRequests, label: 'requests' };
+  }
+};
+
+const latencyOf = (node: NodeConfig): number => {
+  switch (node.type) {
+    case 'channel':
+      return node.metrics.avgLatency;
+    case 'validator':
+      return node.metrics.avgFinalityLatency;
+    case 'business':
+      return node.metrics.avgTxTime;
+    case 'slim':
+      return node.metrics.avgResponseTime;
+  }
+};
+
+/** Green through amber to red as `ratio` goes from 0 to 1 */
+const heatColor = (ratio: number): string =>
+  `hsl(${Math.round(120 * (1 - Math.min(Math.max(ratio, 0), 1)))}, 70%, 45%)`;
+
+/**
+ * Graph of the nodes and the channel connections between them
+ */
+export const buildTopology = (nodes: NodeConfig[], colorMode: TopologyColorMode): Topology => {
+  const activities = nodes.map((node) => activityOf(node));
+  const maxActivity = Math.max(1, ...activities.map((activity) => Math.log1p(activity.value)));
+  const maxLatency = Math.max(1, ...nodes.map(latencyOf));
+
+  const topologyNodes = nodes.map((node, index): TopologyNode => {
+    const activity = activities[index] ?? { value: 0, label: '' };
+    const latency = latencyOf(node);
+    return {
+      id: node.id,
+      name: node.name,
+      type: node.type,
+      status: node.status,
+      position: { x: node.position.x, y: node.position.y, z: node.position.z ?? 0 },
+      radius: MIN_RADIUS + ((MAX_RADIUS - MIN_RADIUS) * Math.log1p(activity.value)) / maxActivity,
+      color:
+        colorMode === 'status'
+          ? NODE_STATUS_COLORS[node.status]
+          : colorMode === 'latency'
+            ? heatColor(latency / maxLatency)
+            : NODE_TYPE_COLORS[node.type],
+      activityLabel: `${activity.value.toLocaleString()} ${activity.label}`,
+      latency,
+    };
+  });
+
+  const ids = new Set(nodes.map((node) => node.id));
+  const edges = nodes.flatMap((node) =>
+    node.type === 'channel'
+      ? node.connections
+          .filter((connection) => ids.has(connection.targetNodeId))
+          .map((connection) => ({
+            id: `${node.id}->${connection.targetNodeId}`,
+            source: node.id,
+            target: connection.targetNodeId,
+            latency: connection.latency,
+            bandwidth: connection.bandwidth,
+            packetsTransferred: connection.packetsTransferred,
+          }))
+      : []
+  );
+
+  return { nodes: topologyNodes, edges };
+};
+
+// ============================================================================
+// Packet Flow
+// ============================================================================
+
+/**
+ * Packets drawn on an edge and how long each takes to cross it: faster on
+ * low-latency links, more of them on high-bandwidth ones
+ */
+export const packetFlow = (edge: TopologyEdge, maxBandwidth: number) => ({
+  count: 1 + Math.round((2 * edge.bandwidth) / Math.max(maxBandwidth, 1)),
+  durationSeconds: Math.min(Math.max(edge.latency / 25, 0.6), 4),
+});
+
+// ============================================================================
+// Force Layout
+// ============================================================================
+
+export interface LayoutPoint {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+const REPULSION = 9000;
+const SPRING_LENGTH = 140;
+const SPRING_STRENGTH = 0.03;
+const GRAVITY = 0.01;
+const DAMPING = 0.8;
+
+/**
+ * Advance the force layout one tick; `pinned` nodes (being dragged) stay put
+ */
+export const stepLayout = (
+  points: Map<string, LayoutPoint>,
+  edges: TopologyEdge[],
+  alpha: number,
+  pinned?: string | null
+): void => {
+  const entries = [...points.entries()];
+  const center = entries.reduce(
+    (sum, [, point]) => ({
+      x: sum.x + point.x / entries.length,
+      y: sum.y + point.y / entries.length,
+    }),
+    { x: 0, y: 0 }
+  );
+
+  entries.forEach(([id, point], index) => {
+    // Every pair of nodes pushes apart
+    for (let other = index + 1; other < entries.length; other++) {
+      const [otherId, target] = entries[other] as [string, LayoutPoint];
+      const dx = point.x - target.x || 0.1;
+      const dy = point.y - target.y || 0.1;
+      const distanceSq = Math.max(dx * dx + dy * dy, 100);
+      const force = (REPULSION / distanceSq) * alpha;
+      const distance = Math.sqrt(distanceSq);
+      if (id !== pinned) {
+        point.vx += (dx / distance) * force;
+        point.vy += (dy / distance) * force;
+      }
+      if (otherId !== pinned) {
+        target.vx -= (dx / distance) * force;
+        target.vy -= (dy / distance) * force;
+      }
+    }
+    point.vx += (center.x - point.x) * GRAVITY * alpha;
+    point.vy += (center.y - point.y) * GRAVITY * alpha;
+  });
+
+  // Connected nodes pull towards the spring length
+  edges.forEach((edge) => {
+    const source = points.get(edge.source);
+    const target = points.get(edge.target);
+    if (!source || !target) return;
+    const dx = target.x - source.x;
+    const dy = target.y - source.y;
+    const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 1);
+    const force = (distance - SPRING_LENGTH) * SPRING_STRENGTH * alpha;
+    if (edge.source !== pinned) {
+      source.vx += (dx / distance) * force;
+      source.vy += (dy / distance) * force;
+    }
+    if (edge.target !== pinned) {
+      target.vx -= (dx / distance) * force;
+      target.vy -= (dy / distance) * force;
+    }
+  });
+
+  points.forEach((point, id) => {
+    if (id === pinned) {
+      point.vx = 0;
+      point.vy = 0;
+      return;
+    }
+    point.vx *= DAMPING;
+    point.vy *= DAMPING;
+    point.x += point.vx;
+    point.y += point.vy;
+  });
+};
+
+// ============================================================================
+// 3D Projection
+// ============================================================================
+
+export interface Camera {
+  /** Rotation around the vertical axis, radians */
+  yaw: number;
+  /** Rotation around the horizontal axis, radians */
+  pitch: number;
+}
+
+export interface Projected {
+  x: number;
+  y: number;
+  /** Perspective scale, larger when nearer */
+  scale: number;
+  depth: number;
+}
+
+const rotate = (point: Required<NodePosition>, { yaw, pitch }: Camera) => {
+  const x1 = point.x * Math.cos(yaw) + point.z * Math.sin(yaw);
+  const z1 = -point.x * Math.sin(yaw) + point.z * Math.cos(yaw);
+  return {
+    x: x1,
+    y: point.y * Math.cos(pitch) - z1 * Math.sin(pitch),
+    z: point.y * Math.sin(pitch) + z1 * Math.cos(pitch),
+  };
+};
+
+/**
+ * Project a point relative to `origin` onto the screen plane; `focal` is the
+ * camera distance in the same units
+ */
+export const project = (
+  point: Required<NodePosition>,
+  origin: Required<NodePosition>,
+  camera: Camera,
+  focal: number
+): Projected => {
+  const rotated = rotate(
+    { x: point.x - origin.x, y: point.y - origin.y, z: point.z - origin.z },
+    camera
+  );
+  const scale = focal / Math.max(focal + rotated.z, focal * 0.1);
+  return { x: rotated.x * scale, y: rotated.y * scale, scale, depth: rotated.z };
+};
+
+/**
+ * World-space movement for a drag of (dx, dy) on the screen plane
+ */
+export const unprojectDelta = (dx: number, dy: number, camera: Camera): Required<NodePosition> => {
+  // Inverse of rotate() applied to (dx, dy, 0)
+  const { yaw, pitch } = camera;
+  const y = dy * Math.cos(pitch);
+  const z1 = -dy * Math.sin(pitch);
+  return {
+    x: dx * Math.cos(yaw) - z1 * Math.sin(yaw),
+    y,
+    z: dx * Math.sin(yaw) + z1 * Math.cos(yaw),
+  };
+};
@@ -20,7 +20,7 @@ import {
   CheckCircleOutlined,
   ClockCircleOutlined,
 } from '@ant-design/icons';
-import axios from 'axios';
+import { apiClient } from '../../services/apiClient';
 import './MerkleRegistryViewer.css';
 
 interface RegistryStats {
@@ -83,6 +83,12 @@ interface DataToken {
   updatedAt: string;
 }
 
+/** Envelope the registry endpoints wrap their payload in */
+interface RegistryResponse<T> {
+  success: boolean;
+  data: T;
+}
+
 const MerkleRegistryViewer: React.FC<{ channelId?: string }> = ({ channelId }) => {
   const [registryStats, setRegistryStats] = useState<RegistryStats | null>(null);
   const [simulationStatus, setSimulationStatus] = useState<SimulationStatus | null>(null);
@@ -91,13 +97,15 @@ const MerkleRegistryViewer: React.FC<{ channelId?: string }> = ({ channelId }) =
   const [feedTokens, setFeedTokens] = useState<DataToken[]>([]);
   const [loading, setLoading] = useState(false);
 
-  const API_BASE = 'https://dlt.aurigraph.io/api/v11/demo/registry';
+  const API_BASE = '/demo/registry';
 
   // Fetch simulation status
   const fetchSimulationStatus = async () => {
     if (!channelId) return;
     try {
-      const response = await axios.get(`${API_BASE}/simulation/${channelId}`);
+      const response = await apiClient.get<RegistryResponse<SimulationStatus>>(
+        `${API_BASE}/simulation/${channelId}`
+      );
       if (response.data.success) {
         setSimulationStatus(response.data.data);
       }
@@ -109,7 +117,7 @@ const MerkleRegistryViewer: React.FC<{ channelId?: string }> = ({ channelId }) =
   // Fetch registry statistics
   const fetchRegistryStats = async () => {
     try {
-      const response = await axios.get(`${API_BASE}/stats`);
+      const response = await apiClient.get<RegistryResponse<RegistryStats>>(`${API_BASE}/stats`);
       if (response.data.success) {
         setRegistryStats(response.data.data);
       }
@@ -121,7 +129,9 @@ const MerkleRegistryViewer: React.FC<{ channelId?: string }> = ({ channelId }) =
   // Fetch data feeds
   const fetchDataFeeds = async () => {
     try {
-      const response = await axios.get(`${API_BASE}/feeds`);
+      const response = await apiClient.get<RegistryResponse<{ feeds?: DataFeed[] }>>(
+        `${API_BASE}/feeds`
+      );
       if (response.data.success) {
         setDataFeeds(response.data.data.feeds || []);
       }
@@ -133,7 +143,9 @@ const MerkleRegistryViewer: React.FC<{ channelId?: string }> = ({ channelId }) =
   // Fetch feed tokens
   const fetchFeedTokens = async (feedId: string) => {
     try {
-      const response = await axios.get(`${API_BASE}/feeds/${feedId}/tokens`);
+      const response = await apiClient.get<RegistryResponse<{ tokens?: DataToken[] }>>(
+        `${API_BASE}/feeds/${feedId}/tokens`
+      );
       if (response.data.success) {
         setFeedTokens(response.data.data.tokens || []);
       }
@@ -0,0 +1,150 @@
+/**
+ * API Access Log
+ *
+ * Recent requests made with the developer's API keys, newest first, with the
+ * reason for any the platform refused. Shows one key's requests, or all keys'
+ * with a filter when the keys are passed in.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, Button, Select, Space, Table, Tag, Typography } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { ReloadOutlined } from '@ant-design/icons';
+import apiKeyApi, {
+  apiKeyLabel,
+  type ApiKey,
+  type ApiKeyAccessLog,
+} from '../../services/apiKeyApi';
+import { handleApiError } from '../../utils/apiErrorHandler';
+
+const { Text } = Typography;
+
+const LOG_LIMIT = 200;
+
+const DENIAL_LABELS: Record<NonNullable<ApiKeyAccessLog['denialReason']>, string> = {
+  expired: 'Key expired',
+  revoked: 'Key revoked',
+  ip_not_allowed: 'IP not allowed',
+  scope: 'Outside key scopes',
+};
+
+const statusColor = (status: number) =>
+  status >= 500 ? 'red' : status >= 400 ? 'orange' : 'green';
+
+interface ApiAccessLogTableProps {
+  /** Only this key's requests; otherwise every key's */
+  keyId?: string;
+  /** Keys to offer as a filter when showing every key's requests */
+  keys?: ApiKey[];
+  refreshKey?: number;
+}
+
+const ApiAccessLogTable: React.FC<ApiAccessLogTableProps> = ({ keyId, keys, refreshKey }) => {
+  const [logs, setLogs] = useState<ApiKeyAccessLog[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filterKeyId, setFilterKeyId] = useState<string | undefined>();
+
+  const shownKeyId = keyId ?? filterKeyId;
+
+  const fetchLogs = useCallback(async () => {
+    setLoading(true);
+    try {
+      setLogs(await apiKeyApi.getAccessLogs(shownKeyId, LOG_LIMIT));
+      setError(null);
+    } catch (err) {
+      setError(handleApiError(err, { silent: true }).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [shownKeyId]);
+
+  useEffect(() => {
+    fetchLogs();
+  }, [fetchLogs, refreshKey]);
+
+  const columns: ColumnsType<ApiKeyAccessLog> = [
+    {
+      title: 'Time',
+      dataIndex: 'timestamp',
+      key: 'timestamp',
+      width: 190,
+      render: (timestamp: string) => new Date(timestamp).toLocaleString(),
+    },
+    ...(keyId
+      ? []
+      : [
+          {
+            title: 'Key',
+            dataIndex: 'keyName',
+            key: 'keyName',
+          },
+        ]),
+    {
+      title: 'Request',
+      key: 'request',
+      render: (_: unknown, log: ApiKeyAccessLog) => (
+        <Space>
+          <Tag>{log.method}</Tag>
+          <Text code>{log.path}</Text>
+        </Space>
+      ),
+    },
+    {
+      title: 'Status',
+      dataIndex: 'status',
+      key: 'status',
+      render: (status: number, log: ApiKeyAccessLog) => (
+        <Space>
+          <Tag color={statusColor(status)}>{status}</Tag>
+          {log.denialReason && <Text type="secondary">{DENIAL_LABELS[log.denialReason]}</Text>}
+        </Space>
+      ),
+    },
+    {
+      title: 'IP Address',
+      dataIndex: 'ipAddress',
+      key: 'ipAddress',
+    },
+    {
+      title: 'Latency',
+      dataIndex: 'latencyMs',
+      key: 'latencyMs',
+      align: 'right',
+      render: (latency: number) => `${latency} ms`,
+    },
+  ];
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Space>
+        {!keyId && keys && (
+          <Select
+            allowClear
+            placeholder="All keys"
+            style={{ width: 240 }}
+            value={filterKeyId}
+            onChange={setFilterKeyId}
+            options={keys.map((key) => ({ value: key.id, label: apiKeyLabel(key) }))}
+          />
+        )}
+        <Button icon={<ReloadOutlined />} onClick={fetchLogs} loading={loading}>
+          Refresh
+        </Button>
+      </Space>
+      {error && (
+        <Alert type="warning" showIcon message="Access log unavailable" description={error} />
+      )}
+      <Table
+        columns={columns}
+        dataSource={logs}
+        loading={loading}
+        pagination={{ pageSize: 10 }}
+        rowKey="id"
+        size="small"
+      />
+    </Space>
+  );
+};
+
+export default ApiAccessLogTable;
@@ -0,0 +1,513 @@
+/**
+ * API Key Manager
+ *
+ * The developer's API keys: create them with scopes from the permission
+ * matrix, an expiry and an IP allowlist, rotate them with an overlap window,
+ * and revoke them. A new key's secret is shown once, straight after it is
+ * issued. Each key's usage and access log open in a drawer.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Checkbox,
+  DatePicker,
+  Descriptions,
+  Divider,
+  Drawer,
+  Form,
+  Input,
+  InputNumber,
+  Modal,
+  Select,
+  Space,
+  Table,
+  Tag,
+  Tooltip,
+  Typography,
+  message,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import {
+  BarChartOutlined,
+  DeleteOutlined,
+  KeyOutlined,
+  PlusOutlined,
+  SyncOutlined,
+} from '@ant-design/icons';
+import dayjs, { type Dayjs } from 'dayjs';
+import apiKeyApi, {
+  API_KEY_MAX_OVERLAP_HOURS,
+  apiKeyLabel,
+  type ApiKey,
+  type ApiKeyScope,
+  type ApiKeyStatus,
+} from '../../services/apiKeyApi';
+import { usePermissions } from '../../hooks/usePermission';
+import { DEFAULT_PERMISSIONS, type PermissionAction } from '../../types/user';
+import { handleApiError } from '../../utils/apiErrorHandler';
+import ApiAccessLogTable from './ApiAccessLogTable';
+import ApiKeyUsageChart from './ApiKeyUsageChart';
+
+const { Text, Paragraph } = Typography;
+
+const STATUS_COLORS: Record<ApiKeyStatus, string> = {
+  active: 'green',
+  rotating: 'orange',
+  expired: 'default',
+  revoked: 'red',
+};
+
+const IP_RANGE = /^\d{1,3}(\.\d{1,3}){3}(\/\d{1,2})?$/;
+
+const EXPIRY_PRESET_DAYS = [30, 90, 180, 365];
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+const describeScope = (scope: ApiKeyScope) => `${scope.module}: ${scope.actions.join(', ')}`;
+
+interface ScopePickerProps {
+  value?: ApiKeyScope[];
+  onChange?: (scopes: ApiKeyScope[]) => void;
+}
+
+/**
+ * Module and action checkboxes, limited to what the signed-in user may do
+ * themselves, so a key never grants more than its owner holds
+ */
+const ScopePicker: React.FC<ScopePickerProps> = ({ value = [], onChange }) => {
+  const can = usePermissions();
+  const grantable = DEFAULT_PERMISSIONS.map((permission) => ({
+    module: permission.module as ApiKeyScope['module'],
+    actions: (Object.keys(permission.actions) as PermissionAction[]).filter((action) =>
+      can({ module: permission.module as ApiKeyScope['module'], action })
+    ),
+  })).filter((permission) => permission.actions.length > 0);
+
+  const setActions = (module: ApiKeyScope['module'], actions: PermissionAction[]) => {
+    const others = value.filter((scope) => scope.module !== module);
+    onChange?.(actions.length > 0 ? [...others, { module, actions }] : others);
+  };
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      {grantable.map(({ module, actions }) => (
+        <Space key={module} align="start">
+          <Text style={{ display: 'inline-block', width: 130 }}>{module}</Text>
+          <Checkbox.Group
+            options={actions}
+            value={value.find((scope) => scope.module === module)?.actions ?? []}
+            onChange={(checked) => setActions(module, checked as PermissionAction[])}
+          />
+        </Space>
+      ))}
+    </Space>
+  );
+};
+
+interface CreateKeyValues {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt: Dayjs | null;
+  ipAllowlist: string[];
+}
+
+/** A just-issued secret; it cannot be fetched again once this is dismissed */
+interface RevealedSecret {
+  keyName: string;
+  secret: string;
+  rotated: boolean;
+}
+
+interface ApiKeyManagerProps {
+  keys: ApiKey[];
+  loading?: boolean;
+  error?: string | null;
+  /** Called after a key is created, rotated or revoked */
+  onChange: () => void;
+}
+
+const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ keys, loading, error, onChange }) => {
+  const [form] = Form.useForm<CreateKeyValues>();
+  const [creating, setCreating] = useState<boolean>(false);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [revealed, setRevealed] = useState<RevealedSecret | null>(null);
+  const [rotating, setRotating] = useState<ApiKey | null>(null);
+  const [overlapHours, setOverlapHours] = useState<number>(24);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const keyLabels = useMemo(() => new Map(keys.map((key) => [key.id, apiKeyLabel(key)])), [keys]);
+  const selected = keys.find((key) => key.id === selectedId) ?? null;
+
+  const handleCreate = async (values: CreateKeyValues) => {
+    setSubmitting(true);
+    try {
+      const { key, secret } = await apiKeyApi.createKey({
+        name: values.name,
+        scopes: values.scopes,
+        expiresAt: values.expiresAt ? values.expiresAt.endOf('day').toISOString() : null,
+        ipAllowlist: values.ipAllowlist ?? [],
+      });
+      setCreating(false);
+      form.resetFields();
+      setRevealed({ keyName: key.name, secret, rotated: false });
+      onChange();
+    } catch (err) {
+      handleApiError(err, { customMessage: 'Failed to create the API key' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRotate = async () => {
+    if (!rotating) return;
+    setSubmitting(true);
+    try {
+      const { key, secret } = await apiKeyApi.rotateKey(rotating.id, overlapHours);
+      setRotating(null);
+      setRevealed({ keyName: key.name, secret, rotated: true });
+      onChange();
+    } catch (err) {
+      handleApiError(err, { customMessage: 'Failed to rotate the API key' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRevoke = (key: ApiKey) => {
+    Modal.confirm({
+      title: `Revoke "${key.name}"?`,
+      content:
+        'This action cannot be undone. All applications using this key will stop working immediately.',
+      okText: 'Revoke',
+      okType: 'danger',
+      async onOk() {
+        try {
+          await apiKeyApi.revokeKey(key.id);
+          message.success('API key revoked');
+          onChange();
+        } catch (err) {
+          handleApiError(err, { customMessage: 'Failed to revoke the API key' });
+        }
+      },
+    });
+  };
+
+  const columns: ColumnsType<ApiKey> = [
+    {
+      title: 'Key',
+      dataIndex: 'name',
+      key: 'name',
+      render: (name: string, key: ApiKey) => (
+        <Space direction="vertical" size={0}>
+          <Space>
+            <KeyOutlined />
+            <Text strong>{name}</Text>
+          </Space>
+          <Text code>{key.prefix}…</Text>
+        </Space>
+      ),
+    },
+    {
+      title: 'Scopes',
+      dataIndex: 'scopes',
+      key: 'scopes',
+      render: (scopes: ApiKeyScope[]) => (
+        <Space size={[0, 4]} wrap>
+          {scopes.map((scope) => (
+            <Tag key={scope.module}>{describeScope(scope)}</Tag>
+          ))}
+        </Space>
+      ),
+    },
+    {
+      title: 'Status',
+      dataIndex: 'status',
+      key: 'status',
+      render: (status: ApiKeyStatus) => <Tag color={STATUS_COLORS[status]}>{status}</Tag>,
+    },
+    {
+      title: 'Expires',
+      dataIndex: 'expiresAt',
+      key: 'expiresAt',
+      render: (expiresAt: string | null) => (expiresAt ? formatDate(expiresAt) : 'Never'),
+    },
+    {
+      title: 'IP Allowlist',
+      dataIndex: 'ipAllowlist',
+      key: 'ipAllowlist',
+      render: (ranges: string[]) =>
+        ranges.length === 0 ? (
+          <Text type="secondary">Any IP</Text>
+        ) : (
+          ranges.map((range) => <Tag key={range}>{range}</Tag>)
+        ),
+    },
+    {
+      title: 'Last Used',
+      dataIndex: 'lastUsedAt',
+      key: 'lastUsedAt',
+      render: (lastUsedAt: string | undefined, key: ApiKey) =>
+        lastUsedAt ? <Tooltip title={key.lastUsedIp}>{formatDate(lastUsedAt)}</Tooltip> : 'Never',
+    },
+    {
+      title: 'Requests',
+      dataIndex: 'totalRequests',
+      key: 'totalRequests',
+      align: 'right',
+      render: (count: number) => count.toLocaleString(),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_: unknown, key: ApiKey) => (
+        <Space>
+          <Button size="small" icon={<BarChartOutlined />} onClick={() => setSelectedId(key.id)}>
+            Usage
+          </Button>
+          <Button
+            size="small"
+            icon={<SyncOutlined />}
+            disabled={key.status !== 'active'}
+            onClick={() => setRotating(key)}
+          >
+            Rotate
+          </Button>
+          <Button
+            danger
+            size="small"
+            icon={<DeleteOutlined />}
+            disabled={key.status === 'revoked'}
+            onClick={() => handleRevoke(key)}
+          >
+            Revoke
+          </Button>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <>
+      <Alert
+        message="Keep your API keys secure. Never commit them to version control."
+        type="warning"
+        style={{ marginBottom: '16px' }}
+        showIcon
+      />
+      {error && (
+        <Alert
+          type="error"
+          showIcon
+          message="API keys unavailable"
+          description={error}
+          style={{ marginBottom: '16px' }}
+        />
+      )}
+      <Button
+        type="primary"
+        icon={<PlusOutlined />}
+        onClick={() => setCreating(true)}
+        style={{ marginBottom: '16px' }}
+      >
+        Create New Key
+      </Button>
+      <Table
+        columns={columns}
+        dataSource={keys}
+        loading={loading}
+        pagination={false}
+        rowKey="id"
+        scroll={{ x: true }}
+      />
+
+      <Modal
+        title="Create New API Key"
+        open={creating}
+        onOk={() => form.submit()}
+        onCancel={() => setCreating(false)}
+        okText="Create Key"
+        confirmLoading={submitting}
+        width={640}
+        destroyOnClose
+      >
+        <Form
+          form={form}
+          layout="vertical"
+          onFinish={handleCreate}
+          initialValues={{ scopes: [], expiresAt: dayjs().add(90, 'day'), ipAllowlist: [] }}
+          preserve={false}
+        >
+          <Form.Item
+            name="name"
+            label="Key Name"
+            rules={[{ required: true, whitespace: true, message: 'Name the key' }]}
+          >
+            <Input placeholder="e.g., Production - Python App" />
+          </Form.Item>
+          <Form.Item
+            name="scopes"
+            label="Scopes"
+            rules={[
+              {
+                validator: (_, scopes?: ApiKeyScope[]) =>
+                  scopes && scopes.length > 0
+                    ? Promise.resolve()
+                    : Promise.reject(new Error('Choose at least one scope')),
+              },
+            ]}
+          >
+            <ScopePicker />
+          </Form.Item>
+          <Form.Item
+            name="expiresAt"
+            label="Expires"
+            extra="Clear the date for a key that never expires"
+          >
+            <DatePicker
+              presets={EXPIRY_PRESET_DAYS.map((days) => ({
+                label: `${days} days`,
+                value: dayjs().add(days, 'day'),
+              }))}
+              disabledDate={(date) => date.isBefore(dayjs().endOf('day'))}
+              style={{ width: '100%' }}
+            />
+          </Form.Item>
+          <Form.Item
+            name="ipAllowlist"
+            label="IP Allowlist"
+            extra="IPv4 addresses or CIDR ranges; leave empty to allow any IP"
+            rules={[
+              {
+                validator: (_, ranges?: string[]) => {
+                  const invalid = ranges?.find((range) => !IP_RANGE.test(range.trim()));
+                  return invalid
+                    ? Promise.reject(new Error(`Not an IPv4 address or CIDR range: ${invalid}`))
+                    : Promise.resolve();
+                },
+              },
+            ]}
+          >
+            <Select
+              mode="tags"
+              tokenSeparators={[',', ' ']}
+              placeholder="e.g., 203.0.113.0/24"
+              open={false}
+            />
+          </Form.Item>
+        </Form>
+      </Modal>
+
+      <Modal
+        title={`Rotate "${rotating?.name ?? ''}"`}
+        open={rotating !== null}
+        onOk={handleRotate}
+        onCancel={() => setRotating(null)}
+        okText="Rotate Key"
+        confirmLoading={submitting}
+        destroyOnClose
+      >
+        <Paragraph>
+          A new key with the same scopes, allowlist and lifetime is issued. The current key keeps
+          working for the overlap window so your applications can switch over, then expires.
+        </Paragraph>
+        <Space>
+          <Text>Overlap window</Text>
+          <InputNumber
+            min={0}
+            max={API_KEY_MAX_OVERLAP_HOURS}
+            precision={0}
+            value={overlapHours}
+            onChange={(value) => setOverlapHours(value ?? 0)}
+            addonAfter="hours"
+          />
+        </Space>
+      </Modal>
+
+      <Modal
+        title={revealed?.rotated ? 'API Key Rotated' : 'API Key Created'}
+        open={revealed !== null}
+        closable={false}
+        maskClosable={false}
+        footer={
+          <Button type="primary" onClick={() => setRevealed(null)}>
+            I have copied the key
+          </Button>
+        }
+      >
+        <Alert
+          type="warning"
+          showIcon
+          message="Copy this secret now"
+          description="It will not be shown again. If you lose it, rotate the key to get a new one."
+          style={{ marginBottom: 16 }}
+        />
+        <Paragraph strong>{revealed?.keyName}</Paragraph>
+        <Paragraph code copyable style={{ wordBreak: 'break-all' }}>
+          {revealed?.secret}
+        </Paragraph>
+      </Modal>
+
+      <Drawer
+        title={selected?.name}
+        width={760}
+        open={selected !== null}
+        onClose={() => setSelectedId(null)}
+        destroyOnClose
+      >
+        {selected && (
+          <>
+            <Descriptions column={2} size="small" bordered>
+              <Descriptions.Item label="Prefix">
+                <Text code>{selected.prefix}…</Text>
+              </Descriptions.Item>
+              <Descriptions.Item label="Status">
+                <Tag color={STATUS_COLORS[selected.status]}>{selected.status}</Tag>
+              </Descriptions.Item>
+              <Descriptions.Item label="Created">
+                {formatDate(selected.createdAt)}
+              </Descriptions.Item>
+              <Descriptions.Item label="Expires">
+                {selected.expiresAt ? formatDate(selected.expiresAt) : 'Never'}
+              </Descriptions.Item>
+              {selected.revokedAt && (
+                <Descriptions.Item label="Revoked">
+                  {formatDate(selected.revokedAt)}
+                </Descriptions.Item>
+              )}
+              {selected.rotatedFromId && (
+                <Descriptions.Item label="Rotated From">
+                  {keyLabels.get(selected.rotatedFromId) ?? selected.rotatedFromId}
+                </Descriptions.Item>
+              )}
+              {selected.replacedById && (
+                <Descriptions.Item label="Replaced By">
+                  <Button
+                    type="link"
+                    size="small"
+                    onClick={() => setSelectedId(selected.replacedById ?? null)}
+                  >
+                    {keyLabels.get(selected.replacedById) ?? selected.replacedById}
+                  </Button>
+                </Descriptions.Item>
+              )}
+              <Descriptions.Item label="Scopes" span={2}>
+                {selected.scopes.map(describeScope).join('; ')}
+              </Descriptions.Item>
+              <Descriptions.Item label="IP Allowlist" span={2}>
+                {selected.ipAllowlist.length > 0 ? selected.ipAllowlist.join(', ') : 'Any IP'}
+              </Descriptions.Item>
+            </Descriptions>
+            <Divider orientation="left">Usage</Divider>
+            <ApiKeyUsageChart keyId={selected.id} />
+            <Divider orientation="left">Access Log</Divider>
+            <ApiAccessLogTable keyId={selected.id} />
+          </>
+        )}
+      </Drawer>
+    </>
+  );
+};
+
+export default ApiKeyManager;
@@ -0,0 +1,128 @@
+/**
+ * API Key Usage
+ *
+ * Requests and errors for one API key over the last day, week or month.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Alert, Col, Row, Segmented, Space, Spin, Statistic } from 'antd';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import apiKeyApi, { type ApiKeyUsage, type ApiKeyUsagePeriod } from '../../services/apiKeyApi';
+import { handleApiError } from '../../utils/apiErrorHandler';
+
+const PERIODS: { value: ApiKeyUsagePeriod; label: string }[] = [
+  { value: '24h', label: '24 Hours' },
+  { value: '7d', label: '7 Days' },
+  { value: '30d', label: '30 Days' },
+];
+
+const formatTick = (start: string, period: ApiKeyUsagePeriod) => {
+  const date = new Date(start);
+  return period === '24h'
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+interface ApiKeyUsageChartProps {
+  keyId: string;
+  refreshKey?: number;
+}
+
+const ApiKeyUsageChart: React.FC<ApiKeyUsageChartProps> = ({ keyId, refreshKey }) => {
+  const [period, setPeriod] = useState<ApiKeyUsagePeriod>('7d');
+  const [usage, setUsage] = useState<ApiKeyUsage | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    apiKeyApi
+      .getUsage(keyId, period)
+      .then((result) => {
+        if (cancelled) return;
+        setUsage(result);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(handleApiError(err, { silent: true }).message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [keyId, period, refreshKey]);
+
+  // Errors are a subset of requests, so stack them on top of the successful ones
+  const chartData = (usage?.buckets ?? []).map((bucket) => ({
+    start: bucket.start,
+    succeeded: bucket.requests - bucket.errors,
+    errors: bucket.errors,
+  }));
+  const errorRate =
+    usage && usage.totalRequests > 0 ? (usage.totalErrors / usage.totalRequests) * 100 : 0;
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Segmented
+        options={PERIODS}
+        value={period}
+        onChange={(value) => setPeriod(value as ApiKeyUsagePeriod)}
+      />
+      {error && <Alert type="warning" showIcon message="Usage unavailable" description={error} />}
+      <Spin spinning={loading}>
+        <Row gutter={16} style={{ marginBottom: 16 }}>
+          <Col span={8}>
+            <Statistic title="Requests" value={usage?.totalRequests ?? 0} />
+          </Col>
+          <Col span={8}>
+            <Statistic title="Errors" value={usage?.totalErrors ?? 0} />
+          </Col>
+          <Col span={8}>
+            <Statistic title="Error Rate" value={errorRate} precision={2} suffix="%" />
+          </Col>
+        </Row>
+        <ResponsiveContainer width="100%" height={240}>
+          <BarChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="start"
+              tickFormatter={(start: string) => formatTick(start, period)}
+              minTickGap={24}
+            />
+            <YAxis allowDecimals={false} />
+            <RechartsTooltip labelFormatter={(start) => new Date(String(start)).toLocaleString()} />
+            <Legend />
+            <Bar
+              dataKey="succeeded"
+              name="Succeeded"
+              stackId="usage"
+              fill="#1890ff"
+              isAnimationActive={false}
+            />
+            <Bar
+              dataKey="errors"
+              name="Errors"
+              stackId="usage"
+              fill="#ff4d4f"
+              isAnimationActive={false}
+            />
+          </BarChart>
+        </ResponsiveContainer>
+      </Spin>
+    </Space>
+  );
+};
+
+export default ApiKeyUsageChart;
@@ -37,13 +37,17 @@ import {
   MenuOutlined,
   CloseOutlined,
   QuestionOutlined,
+  ExperimentOutlined,
 } from '@ant-design/icons';
 import type { MenuProps, AutoCompleteProps } from 'antd';
 import { useAppSelector, useAppDispatch } from '../../hooks/useRedux';
-import { toggleThemeMode } from '../../store/settingsSlice';
-import { selectThemeMode } from '../../store/selectors';
+import { setDemoMode, toggleThemeMode } from '../../store/settingsSlice';
+import { setDemoMode as setDemoAppDemoMode } from '../../store/demoAppSlice';
+import { selectIsDemoMode, selectThemeMode } from '../../store/selectors';
 import { useNavigation } from '../../context/NavigationContext';
-import { routes } from '../../routes/routes';
+import { findRoute, getEnabledRoutes, RouteDefinition } from '../../routes/routes';
+import { useFeatureFlags } from '../../hooks/useFeatureFlag';
+import { usePermissions } from '../../hooks/usePermission';
 import '../styles/TopNav.css';
 
 interface TopNavRouterProps {
@@ -63,7 +67,7 @@ const { Header: AntHeader } = Layout;
 /**
  * Helper function to convert route definitions to menu items
  */
-const buildMenuItemsFromRoutes = (): MenuProps['items'] => {
+const buildMenuItemsFromRoutes = (routes: RouteDefinition[]): MenuProps['items'] => {
   const categories: Record<string, MenuProps['items']> = {};
 
   routes.forEach(route => {
@@ -95,6 +99,7 @@ const buildMenuItemsFromRoutes = (): MenuProps['items'] => {
     ai: 'AI & Optimization',
     integration: 'Integration',
     admin: 'Administration',
+    account: 'Account',
   };
 
   return Object.entries(categories).map(([category, items]) => ({
@@ -104,6 +109,22 @@ const buildMenuItemsFromRoutes = (): MenuProps['items'] => {
   }));
 };
 
+/**
+ * Helper function to drop menu entries for routes the user may not open,
+ * along with any submenu left empty
+ */
+const filterMenuItems = (
+  items: MenuProps['items'],
+  canOpen: (path: string) => boolean
+): MenuProps['items'] =>
+  items?.flatMap((item) => {
+    if (item && 'children' in item && item.children) {
+      const children = filterMenuItems(item.children, canOpen);
+      return children?.length ? [{ ...item, children }] : [];
+    }
+    return item && typeof item.key === 'string' && !canOpen(item.key) ? [] : [item];
+  });
+
 export const TopNavRouter = ({
   navMenuItems,
   notificationCount = 0,
@@ -118,6 +139,7 @@ export const TopNavRouter = ({
   const navigationContext = useNavigation();
 
   const isDarkMode = themeMode === 'dark';
+  const isDemoMode = useAppSelector(selectIsDemoMode);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [searchValue, setSearchValue] = useState('');
   const [selectedKey, setSelectedKey] = useState<string>(location.pathname);
@@ -127,10 +149,25 @@ export const TopNavRouter = ({
     setSelectedKey(location.pathname);
   }, [location.pathname]);
 
-  // Use provided menu items or generate from routes
+  // Routes the user's roles don't grant are left out of every menu
+  const can = usePermissions();
+  const canOpen = useCallback(
+    (path: string) => {
+      const permission = findRoute(path)?.permission;
+      return !permission || can(permission);
+    },
+    [can]
+  );
+
+  // Use provided menu items or generate from the routes whose flags are on
+  const featureFlags = useFeatureFlags();
   const menuItems = useMemo(
-    () => navMenuItems || buildMenuItemsFromRoutes(),
-    [navMenuItems]
+    () =>
+      filterMenuItems(
+        navMenuItems || buildMenuItemsFromRoutes(getEnabledRoutes(featureFlags)),
+        canOpen
+      ),
+    [navMenuItems, featureFlags, canOpen]
   );
 
   // User menu items
@@ -155,6 +192,16 @@ export const TopNavRouter = ({
         label: isDarkMode ? 'Light Theme' : 'Dark Theme',
         onClick: () => dispatch(toggleThemeMode()),
       },
+      {
+        key: 'demo-data',
+        icon: <ExperimentOutlined />,
+        label: isDemoMode ? 'Use Live Data' : 'Use Demo Data',
+        // Demo mode is on while either slice has it set, so both are switched together
+        onClick: () => {
+          dispatch(setDemoMode(!isDemoMode));
+          dispatch(setDemoAppDemoMode(!isDemoMode));
+        },
+      },
       {
         type: 'divider',
       },
@@ -165,7 +212,7 @@ export const TopNavRouter = ({
         danger: true,
       },
     ],
-    [isDarkMode, dispatch]
+    [isDarkMode, isDemoMode, dispatch]
   );
 
   // Generate search options from menu items
@@ -229,25 +276,29 @@ export const TopNavRouter = ({
 
   // Quick actions for common tasks
   const quickActions: MenuProps['items'] = useMemo(
-    () => [
-      {
-        key: '/dashboard',
-        label: 'Dashboard',
-      },
-      {
-        key: '/transactions',
-        label: 'Transactions',
-      },
-      {
-        key: '/validators',
-        label: 'Validators',
-      },
-      {
-        key: '/admin/users',
-        label: 'Users',
-      },
-    ],
-    []
+    () =>
+      filterMenuItems(
+        [
+          {
+            key: '/dashboard',
+            label: 'Dashboard',
+          },
+          {
+            key: '/transactions',
+            label: 'Transactions',
+          },
+          {
+            key: '/validators',
+            label: 'Validators',
+          },
+          {
+            key: '/admin/users',
+            label: 'Users',
+          },
+        ],
+        canOpen
+      ),
+    [canOpen]
   );
 
   // Responsive header style
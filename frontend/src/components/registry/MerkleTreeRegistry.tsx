@@ -1,10 +1,13 @@
 /**
  * Merkle Tree Registry Visualization Component
- * Displays hierarchical merkle tree structure for tokens and assets
+ * Displays hierarchical merkle tree structure for tokens and assets, and
+ * checks registry membership in the browser: the tree is rebuilt from its
+ * leaves and every inclusion proof is verified against the published root.
  */
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
+  Alert,
   Card,
   Tree,
   Button,
@@ -19,6 +22,7 @@ import {
   Select,
   Table,
   Empty,
+  Upload,
 } from 'antd';
 import {
   ReloadOutlined,
@@ -28,19 +32,31 @@ import {
   LockOutlined,
   CheckCircleOutlined,
   WarningOutlined,
+  UploadOutlined,
 } from '@ant-design/icons';
 import type { DataNode } from 'antd/es/tree';
+import { apiClient } from '../../services/apiClient';
+import type { MerkleNode } from '../../types/registry';
+import {
+  MERKLE_ALGORITHMS,
+  buildMerkleTree,
+  collectLeaves,
+  generateProof,
+  parseProof,
+  verifyProof,
+  type MerkleHashAlgorithm,
+  type MerkleProof,
+  type ProofVerification,
+} from '../../utils/merkle';
+import { downloadBlob } from '../../utils/download';
 
-interface MerkleNode {
-  id: string;
-  hash: string;
-  value?: string;
-  type: 'root' | 'branch' | 'leaf';
-  children?: MerkleNode[];
-  verified: boolean;
-  timestamp?: string;
-  metadata?: Record<string, any>;
-}
+const EMPTY_TREE: MerkleNode = {
+  id: 'root',
+  hash: '',
+  type: 'root',
+  verified: false,
+  children: [],
+};
 
 interface MerkleTreeStats {
   totalNodes: number;
@@ -54,11 +70,59 @@ interface MerkleTreeStats {
 interface MerkleTreeRegistryProps {
   title?: string;
   data?: MerkleNode;
+  /** Called after a leaf's inclusion proof verified in the browser */
   onVerify?: (nodeId: string) => Promise<void>;
   onExport?: () => Promise<void>;
   readOnly?: boolean;
 }
 
+const downloadJson = (value: unknown, fileName: string) => {
+  downloadBlob(new Blob([JSON.stringify(value, null, 2)], { type: 'application/json' }), fileName);
+};
+
+const ProofResult: React.FC<{ proof: MerkleProof; result: ProofVerification }> = ({
+  proof,
+  result,
+}) => (
+  <div>
+    <Alert
+      type={result.valid ? 'success' : result.untrusted ? 'warning' : 'error'}
+      showIcon
+      message={
+        result.valid
+          ? 'Inclusion proof verified'
+          : result.untrusted
+            ? 'Unverified – no trusted root'
+            : 'Inclusion proof rejected'
+      }
+      description={result.reason}
+      style={{ marginBottom: 16 }}
+    />
+    <p>
+      <strong>Leaf:</strong> {proof.leaf.id} ({proof.leaf.value}), index {proof.leafIndex} of{' '}
+      {proof.leafCount}
+    </p>
+    <p>
+      <strong>Algorithm:</strong> {MERKLE_ALGORITHMS[proof.algorithm]}
+    </p>
+    <p>
+      <strong>Proof root:</strong> <code>{proof.root}</code>
+    </p>
+    <p>
+      <strong>Computed root:</strong> <code>{result.computedRoot || 'N/A'}</code>
+    </p>
+    <strong>Sibling path</strong>
+    <ol style={{ fontSize: 12 }}>
+      {proof.siblings.map((step, index) => (
+        <li key={index}>
+          <Tag>{step.position}</Tag>
+          <code>{step.hash}</code>
+        </li>
+      ))}
+    </ol>
+  </div>
+);
+
 const MerkleTreeRegistry: React.FC<MerkleTreeRegistryProps> = ({
   title = 'Merkle Tree Registry',
   data,
@@ -72,77 +136,74 @@ const MerkleTreeRegistry: React.FC<MerkleTreeRegistryProps> = ({
   const [verificationModalVisible, setVerificationModalVisible] = useState(false);
   const [verificationLoading, setVerificationLoading] = useState(false);
   const [filterType, setFilterType] = useState<'all' | 'verified' | 'unverified'>('all');
+  const [algorithm, setAlgorithm] = useState<MerkleHashAlgorithm>('sha256');
+  const [importModalVisible, setImportModalVisible] = useState(false);
+  const [trustedRoot, setTrustedRoot] = useState('');
+  const [importedProof, setImportedProof] = useState<MerkleProof | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
 
-  // Mock merkle tree data
-  const mockData: MerkleNode = data || {
-    id: 'root',
-    hash: '0xa1b2c3d4e5f6g7h8i9j0k1l2m3n4o5p6',
-    type: 'root',
-    verified: true,
-    timestamp: new Date().toISOString(),
-    children: [
-      {
-        id: 'branch1',
-        hash: '0x1234567890abcdef1234567890abcdef',
-        type: 'branch',
-        verified: true,
-        children: [
-          {
-            id: 'leaf1-1',
-            hash: '0xaabbccddeeff00112233445566778899',
-            value: 'Token-001',
-            type: 'leaf',
-            verified: true,
-            metadata: { assetName: 'Property-NYC', value: 1000000 },
-          },
-          {
-            id: 'leaf1-2',
-            hash: '0xffeeddccbbaa99887766554433221100',
-            value: 'Token-002',
-            type: 'leaf',
-            verified: true,
-            metadata: { assetName: 'Property-LA', value: 800000 },
-          },
-        ],
-      },
-      {
-        id: 'branch2',
-        hash: '0xfedcba9876543210fedcba9876543210',
-        type: 'branch',
-        verified: false,
-        children: [
-          {
-            id: 'leaf2-1',
-            hash: '0x1111222233334444555566667777888',
-            value: 'Token-003',
-            type: 'leaf',
-            verified: false,
-            metadata: { assetName: 'Art-Piece', value: 500000 },
-          },
-          {
-            id: 'leaf2-2',
-            hash: '0x9999888877776666555544443333222',
-            value: 'Token-004',
-            type: 'leaf',
-            verified: true,
-            metadata: { assetName: 'Bond-Portfolio', value: 2000000 },
-          },
-        ],
-      },
-    ],
-  };
+  const [fetchedTree, setFetchedTree] = useState<MerkleNode | null>(null);
+
+  // Load the registry tree from the backend unless the caller supplies one
+  useEffect(() => {
+    if (data) return;
+    apiClient
+      .get<MerkleNode>('/registries/merkle-tree')
+      .then((response) => setFetchedTree(response.data))
+      .catch((error) => console.error('Failed to load merkle tree:', error));
+  }, [data]);
+
+  const tree: MerkleNode = data ?? fetchedTree ?? EMPTY_TREE;
+  const publishedRoot = tree.hash;
+
+  // Hash with whatever the registry says it used, until the user picks another
+  useEffect(() => {
+    const published = tree.metadata?.algorithm;
+    if (published === 'sha256' || published === 'keccak256') setAlgorithm(published);
+  }, [tree]);
+
+  // Rebuild the tree from its leaves rather than trusting the served hashes
+  const clientTree = useMemo(() => {
+    const leaves = collectLeaves(tree);
+    return leaves.length > 0 ? buildMerkleTree(leaves, algorithm) : null;
+  }, [tree, algorithm]);
+
+  // A leaf is verified when its proof reaches the published root; an inner
+  // node when the rebuilt tree contains its hash
+  const verified = useMemo(() => {
+    const results = new Map<string, boolean>();
+    if (!clientTree) return results;
+    const rebuiltHashes = new Set(clientTree.levels.flat());
+
+    const visit = (node: MerkleNode) => {
+      results.set(
+        node.id,
+        node.type === 'leaf'
+          ? verifyProof(generateProof(clientTree, node.id), publishedRoot).valid
+          : node.type === 'root'
+            ? clientTree.root === publishedRoot.toLowerCase()
+            : rebuiltHashes.has(node.hash.toLowerCase())
+      );
+      node.children?.forEach(visit);
+    };
+    visit(tree);
+    return results;
+  }, [tree, clientTree, publishedRoot]);
+
+  const isVerified = (node: MerkleNode) => verified.get(node.id) ?? false;
 
   // Calculate merkle tree statistics
   const stats = useMemo(() => {
     const calculateStats = (node: MerkleNode): MerkleTreeStats => {
+      const nodeVerified = verified.get(node.id) ?? false;
       let totalNodes = 1;
       let totalLeaves = node.type === 'leaf' ? 1 : 0;
-      let verifiedNodes = node.verified ? 1 : 0;
-      let unverifiedNodes = !node.verified ? 1 : 0;
+      let verifiedNodes = nodeVerified ? 1 : 0;
+      let unverifiedNodes = !nodeVerified ? 1 : 0;
       let maxDepth = node.type === 'leaf' ? 1 : 0;
 
       if (node.children && node.children.length > 0) {
-        node.children.forEach(child => {
+        node.children.forEach((child) => {
           const childStats = calculateStats(child);
           totalNodes += childStats.totalNodes;
           totalLeaves += childStats.totalLeaves;
@@ -162,24 +223,21 @@ const MerkleTreeRegistry: React.FC<MerkleTreeRegistryProps> = ({
       };
     };
 
-    return calculateStats(mockData);
-  }, [mockData]);
+    return calculateStats(tree);
+  }, [tree, verified]);
 
   // Convert merkle tree to Ant Tree format
   const treeData = useMemo(() => {
     const convertToTreeData = (node: MerkleNode): DataNode => {
+      const nodeVerified = verified.get(node.id) ?? false;
       const title = (
         <span>
           {node.type === 'root' && '📦 '}
           {node.type === 'branch' && '📁 '}
           {node.type === 'leaf' && '📄 '}
           {node.id}
-          {node.verified && (
-            <CheckCircleOutlined style={{ color: 'green', marginLeft: 8 }} />
-          )}
-          {!node.verified && (
-            <WarningOutlined style={{ color: 'orange', marginLeft: 8 }} />
-          )}
+          {nodeVerified && <CheckCircleOutlined style={{ color: 'green', marginLeft: 8 }} />}
+          {!nodeVerified && <WarningOutlined style={{ color: 'orange', marginLeft: 8 }} />}
         </span>
       );
 
@@ -191,8 +249,8 @@ const MerkleTreeRegistry: React.FC<MerkleTreeRegistryProps> = ({
       };
     };
 
-    return [convertToTreeData(mockData)];
-  }, [mockData]);
+    return [convertToTreeData(tree)];
+  }, [tree, verified]);
 
   // Find node in tree
   const findNode = (nodeId: string, node: MerkleNode): MerkleNode | null => {
@@ -209,25 +267,29 @@ const MerkleTreeRegistry: React.FC<MerkleTreeRegistryProps> = ({
   const handleNodeSelect = (selectedKeys: React.Key[]) => {
     if (selectedKeys.length > 0) {
       const nodeId = selectedKeys[0] as string;
-      const foundNode = findNode(nodeId, mockData);
+      const foundNode = findNode(nodeId, tree);
       if (foundNode) {
         setSelectedNode(foundNode);
       }
     }
   };
 
+  const selectedProof = useMemo(() => {
+    if (!clientTree || selectedNode?.type !== 'leaf') return null;
+    const proof = generateProof(clientTree, selectedNode.id);
+    return { proof, result: verifyProof(proof, publishedRoot) };
+  }, [clientTree, selectedNode, publishedRoot]);
+
   const handleVerify = async () => {
-    if (!selectedNode || readOnly) return;
+    if (!selectedNode || !selectedProof) return;
 
+    if (!selectedProof.result.valid || readOnly || !onVerify) {
+      setVerificationModalVisible(false);
+      return;
+    }
     try {
       setVerificationLoading(true);
-      if (onVerify) {
-        await onVerify(selectedNode.id);
-      }
-      Modal.success({
-        title: 'Verification Success',
-        content: `Node ${selectedNode.id} has been verified successfully.`,
-      });
+      await onVerify(selectedNode.id);
       setVerificationModalVisible(false);
     } catch (error) {
       Modal.error({
@@ -243,6 +305,11 @@ const MerkleTreeRegistry: React.FC<MerkleTreeRegistryProps> = ({
     try {
       if (onExport) {
         await onExport();
+      } else if (clientTree) {
+        downloadJson(
+          { algorithm: clientTree.algorithm, root: clientTree.root, leaves: clientTree.leaves },
+          `merkle-tree-${clientTree.root.slice(2, 10)}.json`
+        );
       }
       Modal.success({
         title: 'Export Success',
@@ -256,6 +323,23 @@ const MerkleTreeRegistry: React.FC<MerkleTreeRegistryProps> = ({
     }
   };
 
+  const openImport = () => {
+    setTrustedRoot(publishedRoot);
+    setImportedProof(null);
+    setImportError(null);
+    setImportModalVisible(true);
+  };
+
+  const importProofFile = async (file: File) => {
+    try {
+      setImportedProof(parseProof(await file.text()));
+      setImportError(null);
+    } catch (error) {
+      setImportedProof(null);
+      setImportError(error instanceof Error ? error.message : 'Could not read proof');
+    }
+  };
+
   const nodeDetailsColumns = [
     {
       title: 'Property',
@@ -267,29 +351,31 @@ const MerkleTreeRegistry: React.FC<MerkleTreeRegistryProps> = ({
       title: 'Value',
       dataIndex: 'value',
       key: 'value',
-      render: (value: any) => <code>{JSON.stringify(value)}</code>,
+      render: (value: unknown) => <code>{JSON.stringify(value)}</code>,
     },
   ];
 
   const nodeDetails = selectedNode
     ? [
-      { property: 'ID', value: selectedNode.id, key: 'id' },
-      { property: 'Hash', value: selectedNode.hash, key: 'hash' },
-      { property: 'Type', value: selectedNode.type, key: 'type' },
-      { property: 'Verified', value: selectedNode.verified ? 'Yes' : 'No', key: 'verified' },
-      {
-        property: 'Children',
-        value: selectedNode.children?.length || 0,
-        key: 'children',
-      },
-      {
-        property: 'Timestamp',
-        value: selectedNode.timestamp
-          ? new Date(selectedNode.timestamp).toLocaleString()
-          : 'N/A',
-        key: 'timestamp',
-      },
-    ]
+        { property: 'ID', value: selectedNode.id, key: 'id' },
+        { property: 'Hash', value: selectedNode.hash, key: 'hash' },
+        { property: 'Type', value: selectedNode.type, key: 'type' },
+        {
+          property: 'Verified',
+          value: isVerified(selectedNode) ? 'Yes' : 'No',
+          key: 'verified',
+        },
+        {
+          property: 'Children',
+          value: selectedNode.children?.length || 0,
+          key: 'children',
+        },
+        {
+          property: 'Timestamp',
+          value: selectedNode.timestamp ? new Date(selectedNode.timestamp).toLocaleString() : 'N/A',
+          key: 'timestamp',
+        },
+      ]
     : [];
 
   return (
@@ -298,11 +384,7 @@ const MerkleTreeRegistry: React.FC<MerkleTreeRegistryProps> = ({
         {/* Statistics */}
         <Row gutter={16} style={{ marginBottom: 24 }}>
           <Col xs={12} sm={6}>
-            <Statistic
-              title="Total Nodes"
-              value={stats.totalNodes}
-              prefix={<CodeOutlined />}
-            />
+            <Statistic title="Total Nodes" value={stats.totalNodes} prefix={<CodeOutlined />} />
           </Col>
           <Col xs={12} sm={6}>
             <Statistic
@@ -323,15 +405,31 @@ const MerkleTreeRegistry: React.FC<MerkleTreeRegistryProps> = ({
               title="Verified"
               value={stats.verifiedNodes}
               suffix={`/ ${stats.totalNodes}`}
-              valueStyle={{ color: stats.verifiedNodes === stats.totalNodes ? '#52c41a' : '#ff4d4f' }}
+              valueStyle={{
+                color: stats.verifiedNodes === stats.totalNodes ? '#52c41a' : '#ff4d4f',
+              }}
             />
           </Col>
         </Row>
 
+        {clientTree && clientTree.root !== publishedRoot.toLowerCase() && (
+          <Alert
+            type="warning"
+            showIcon
+            message="Rebuilt root differs from the published root"
+            description={
+              <span>
+                Published <code>{publishedRoot}</code>, rebuilt with {MERKLE_ALGORITHMS[algorithm]}{' '}
+                <code>{clientTree.root}</code>
+              </span>
+            }
+          />
+        )}
+
         <Divider />
 
         {/* Controls */}
-        <Space style={{ marginBottom: 16 }}>
+        <Space style={{ marginBottom: 16 }} wrap>
           <Input
             placeholder="Search node..."
             prefix={<SearchOutlined />}
@@ -349,19 +447,29 @@ const MerkleTreeRegistry: React.FC<MerkleTreeRegistryProps> = ({
               { label: 'Unverified', value: 'unverified' },
             ]}
           />
+          <Select
+            value={algorithm}
+            onChange={setAlgorithm}
+            style={{ width: 140 }}
+            options={Object.entries(MERKLE_ALGORITHMS).map(([value, label]) => ({
+              value,
+              label,
+            }))}
+          />
           <Button icon={<ReloadOutlined />} onClick={() => setExpandedKeys(['root'])}>
             Refresh
           </Button>
-          {!readOnly && (
-            <Button
-              type="primary"
-              onClick={() => setVerificationModalVisible(true)}
-              disabled={!selectedNode}
-              icon={<LockOutlined />}
-            >
-              Verify Selected
-            </Button>
-          )}
+          <Button
+            type="primary"
+            onClick={() => setVerificationModalVisible(true)}
+            disabled={selectedNode?.type !== 'leaf'}
+            icon={<LockOutlined />}
+          >
+            Verify Selected
+          </Button>
+          <Button icon={<UploadOutlined />} onClick={openImport}>
+            Verify Proof File
+          </Button>
           <Button icon={<DownloadOutlined />} onClick={handleExport}>
             Export Tree
           </Button>
@@ -389,8 +497,8 @@ const MerkleTreeRegistry: React.FC<MerkleTreeRegistryProps> = ({
               {selectedNode ? (
                 <div>
                   <div style={{ marginBottom: 16 }}>
-                    <Tag color={selectedNode.verified ? 'green' : 'orange'}>
-                      {selectedNode.verified ? 'Verified' : 'Unverified'}
+                    <Tag color={isVerified(selectedNode) ? 'green' : 'orange'}>
+                      {isVerified(selectedNode) ? 'Verified' : 'Unverified'}
                     </Tag>
                     <Tag color="blue">{selectedNode.type}</Tag>
                   </div>
@@ -422,14 +530,14 @@ const MerkleTreeRegistry: React.FC<MerkleTreeRegistryProps> = ({
                     </>
                   )}
 
-                  {!readOnly && !selectedNode.verified && (
+                  {selectedNode.type === 'leaf' && (
                     <Button
                       type="primary"
                       onClick={() => setVerificationModalVisible(true)}
                       block
                       style={{ marginTop: 16 }}
                     >
-                      Verify This Node
+                      Show Inclusion Proof
                     </Button>
                   )}
                 </div>
@@ -441,30 +549,76 @@ const MerkleTreeRegistry: React.FC<MerkleTreeRegistryProps> = ({
         </Row>
       </Card>
 
-      {/* Verification Modal */}
+      {/* Inclusion Proof Modal */}
       <Modal
-        title="Verify Merkle Node"
+        title="Inclusion Proof"
         open={verificationModalVisible}
         onCancel={() => setVerificationModalVisible(false)}
         onOk={handleVerify}
+        okText={onVerify && !readOnly ? 'Record Verification' : 'Done'}
         confirmLoading={verificationLoading}
-        width={600}
+        width={720}
+        footer={(_, { OkBtn, CancelBtn }) => (
+          <>
+            <Button
+              icon={<DownloadOutlined />}
+              disabled={!selectedProof}
+              onClick={() =>
+                selectedProof &&
+                downloadJson(
+                  selectedProof.proof,
+                  `merkle-proof-${selectedProof.proof.leaf.id}.json`
+                )
+              }
+            >
+              Export Proof
+            </Button>
+            <CancelBtn />
+            <OkBtn />
+          </>
+        )}
       >
-        {selectedNode && (
-          <div>
-            <p>
-              <strong>Node ID:</strong> {selectedNode.id}
-            </p>
-            <p>
-              <strong>Hash:</strong> <code>{selectedNode.hash}</code>
-            </p>
-            <p>
-              <strong>Type:</strong> {selectedNode.type}
-            </p>
-            <p>
-              Are you sure you want to verify this node? This action will cryptographically
-              verify the node's integrity.
-            </p>
+        {selectedProof && <ProofResult proof={selectedProof.proof} result={selectedProof.result} />}
+      </Modal>
+
+      {/* Proof Import Modal */}
+      <Modal
+        title="Verify Proof File"
+        open={importModalVisible}
+        onCancel={() => setImportModalVisible(false)}
+        footer={<Button onClick={() => setImportModalVisible(false)}>Close</Button>}
+        width={720}
+      >
+        <p>
+          Check an exported inclusion proof against a root you trust, such as one anchored on chain.
+          Left empty, the published registry root is used. Nothing is sent to the server.
+        </p>
+        <Input
+          addonBefore="Trusted root"
+          placeholder={publishedRoot || 'No published root'}
+          value={trustedRoot}
+          onChange={(e) => setTrustedRoot(e.target.value.trim())}
+          style={{ marginBottom: 16 }}
+        />
+        <Upload
+          accept=".json,application/json"
+          showUploadList={false}
+          beforeUpload={(file) => {
+            importProofFile(file);
+            return false;
+          }}
+        >
+          <Button icon={<UploadOutlined />}>Choose Proof File</Button>
+        </Upload>
+        {importError && (
+          <Alert type="error" showIcon message={importError} style={{ marginTop: 16 }} />
+        )}
+        {importedProof && (
+          <div style={{ marginTop: 16 }}>
+            <ProofResult
+              proof={importedProof}
+              result={verifyProof(importedProof, trustedRoot || publishedRoot || undefined)}
+            />
           </div>
         )}
       </Modal>
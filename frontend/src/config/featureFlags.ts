@@ -3,6 +3,9 @@
  *
  * Centralized feature flag management for toggling incomplete features
  * Use this to hide/show features based on backend API availability
+ *
+ * These are the build-time defaults; runtime values (server rules,
+ * percentage rollouts and local overrides) come from featureFlagService.
  */
 
 export interface FeatureFlags {
@@ -86,29 +89,6 @@ export const defaultFeatureFlags: FeatureFlags = {
   websocketConnection: false,
 };
 
-/**
- * Get feature flag value
- */
-export const isFeatureEnabled = (feature: keyof FeatureFlags): boolean => {
-  // Check environment variable override first
-  const envKey = `REACT_APP_FEATURE_${feature.toUpperCase()}`;
-  const envValue = import.meta.env[envKey] as string | undefined;
-
-  if (envValue !== undefined) {
-    return envValue === 'true';
-  }
-
-  // Fall back to default configuration
-  return defaultFeatureFlags[feature];
-};
-
-/**
- * Get all feature flags
- */
-export const getAllFeatureFlags = (): FeatureFlags => {
-  return { ...defaultFeatureFlags };
-};
-
 /**
  * Feature flag labels for UI display
  */
@@ -137,8 +117,6 @@ export const featureFlagLabels: Record<keyof FeatureFlags, string> = {
 };
 
 export default {
-  isFeatureEnabled,
-  getAllFeatureFlags,
   defaultFeatureFlags,
   featureFlagLabels,
 };
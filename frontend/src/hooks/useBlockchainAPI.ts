@@ -7,8 +7,9 @@
  */
 
 import { useState, useCallback } from 'react';
-import axios, { AxiosError } from 'axios';
 import { message } from 'antd';
+import { apiClient } from '../services/apiClient';
+import { ApiRequestError } from '../utils/apiErrorHandler';
 
 interface APIError {
   message: string;
@@ -35,8 +36,6 @@ interface APICallOptions {
   errorMessage?: string;
 }
 
-const API_BASE_URL = process.env.REACT_APP_API_BASE_URL || 'https://dlt.aurigraph.io/api/v11';
-
 /**
  * Hook for blockchain API operations
  *
@@ -74,17 +73,17 @@ export const useBlockchainAPI = (): UseBlockchainAPIReturn => {
       setError(null);
 
       try {
-        const url = `${API_BASE_URL}${endpoint}`;
+        // Endpoints are relative to the shared client's base URL (the V11 API)
         let response;
 
         if (method === 'get') {
-          response = await axios.get(url, { params });
+          response = await apiClient.get(endpoint, { params });
         } else if (method === 'post') {
-          response = await axios.post(url, params);
+          response = await apiClient.post(endpoint, params);
         } else if (method === 'put') {
-          response = await axios.put(url, params);
+          response = await apiClient.put(endpoint, params);
         } else if (method === 'delete') {
-          response = await axios.delete(url, { params });
+          response = await apiClient.delete(endpoint, { params });
         }
 
         setData(response?.data);
@@ -95,17 +94,17 @@ export const useBlockchainAPI = (): UseBlockchainAPIReturn => {
 
         return response?.data;
       } catch (err) {
-        const axiosError = err as AxiosError;
+        const requestError = ApiRequestError.from(err);
         const errorMessage_ =
           errorMessage ||
-          (axiosError?.response?.data as any)?.message ||
-          axiosError?.message ||
+          (requestError.body as any)?.message ||
+          requestError.message ||
           'API call failed';
 
         const apiError: APIError = {
           message: errorMessage_,
-          code: (axiosError?.response?.status || 500).toString(),
-          details: axiosError?.response?.data,
+          code: (requestError.status || 500).toString(),
+          details: requestError.body,
         };
 
         setError(apiError);
@@ -0,0 +1,43 @@
+/**
+ * useConsensusStream Hook
+ *
+ * Subscribes to the consensus stream, relayed by the leader tab, while
+ * mounted and records every update in the consensus inspector history. Rounds are also checked for stalled
+ * commits every second, since a stuck round may stop sending updates.
+ *
+ * Usage:
+ * const transport = useConsensusStream();
+ * const rounds = useAppSelector(selectConsensusRounds);
+ */
+
+import { useEffect, useState } from 'react';
+import { useAppDispatch } from './useRedux';
+import { crossTabLiveService } from '../services/crossTabLiveService';
+import type { ConsensusUpdate, StreamTransportKind } from '../services/grpcStreamService';
+import { checkStalledCommits, recordConsensusUpdate } from '../store/consensusInspectorSlice';
+
+const UPDATE_INTERVAL_MS = 500;
+const STALL_CHECK_INTERVAL_MS = 1000;
+
+export const useConsensusStream = (): StreamTransportKind | null => {
+  const dispatch = useAppDispatch();
+  const [transport, setTransport] = useState<StreamTransportKind | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = crossTabLiveService.subscribeToStream<ConsensusUpdate>(
+      'consensus',
+      (update) => dispatch(recordConsensusUpdate(update)),
+      { updateIntervalMs: UPDATE_INTERVAL_MS, onTransportChange: setTransport }
+    );
+    const timer = setInterval(() => dispatch(checkStalledCommits()), STALL_CHECK_INTERVAL_MS);
+
+    return () => {
+      clearInterval(timer);
+      unsubscribe();
+    };
+  }, [dispatch]);
+
+  return transport;
+};
+
+export default useConsensusStream;
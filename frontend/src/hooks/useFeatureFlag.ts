@@ -0,0 +1,24 @@
+/**
+ * useFeatureFlag Hook
+ *
+ * Reads a runtime feature flag and re-renders when it changes, whether from
+ * the server rules loading, a local override, or a different user signing in.
+ *
+ * Usage:
+ * const stakingEnabled = useFeatureFlag('stakingOperations');
+ * const flags = useFeatureFlags();
+ */
+
+import { useSyncExternalStore } from 'react';
+import { featureFlagService, FeatureFlag } from '../services/featureFlagService';
+import type { FeatureFlags } from '../config/featureFlags';
+
+const subscribe = (listener: () => void) => featureFlagService.subscribe(listener);
+
+export const useFeatureFlags = (): FeatureFlags =>
+  useSyncExternalStore(subscribe, () => featureFlagService.getAll());
+
+export const useFeatureFlag = (flag: FeatureFlag): boolean =>
+  useSyncExternalStore(subscribe, () => featureFlagService.isEnabled(flag));
+
+export default useFeatureFlag;
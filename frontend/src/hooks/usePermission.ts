@@ -0,0 +1,37 @@
+/**
+ * usePermission Hook
+ *
+ * Checks the signed-in user's roles against the permission matrix from
+ * RoleManagement, re-rendering when either changes.
+ *
+ * Usage:
+ * const canDeploy = usePermission('Smart Contracts', 'deploy');
+ * const can = usePermissions();
+ * const visible = routes.filter((route) => !route.permission || can(route.permission));
+ */
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { useAppSelector } from './useRedux';
+import { roleService, hasPermission } from '../services/roleService';
+import type { PermissionAction, PermissionModule, RequiredPermission } from '../types/user';
+import type { RootState } from '../types/state';
+
+const subscribe = (listener: () => void) => roleService.subscribe(listener);
+
+/**
+ * Checker for any module/action pair, for filtering lists of routes or actions
+ */
+export const usePermissions = (): ((permission: RequiredPermission) => boolean) => {
+  const userRoles = useAppSelector((state: RootState) => state.auth.user?.roles);
+  const roles = useSyncExternalStore(subscribe, () => roleService.getRoles());
+
+  return useCallback(
+    ({ module, action }: RequiredPermission) => hasPermission(roles, userRoles, module, action),
+    [roles, userRoles]
+  );
+};
+
+export const usePermission = (module: PermissionModule, action: PermissionAction): boolean =>
+  usePermissions()({ module, action });
+
+export default usePermission;
@@ -0,0 +1,85 @@
+/**
+ * useReportScheduler Hook
+ *
+ * Re-runs saved report definitions on their schedule while the portal is
+ * open. Each due report is generated, added to the report history and, if
+ * its schedule names a format, downloaded. A failed run waits for the next
+ * interval rather than retrying on every check. Only the leader tab elected
+ * by crossTabLiveService runs reports, so several open tabs don't each
+ * generate and download the same one.
+ *
+ * Usage (once, at the app root):
+ * useReportScheduler();
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { message } from 'antd';
+import { useAppDispatch, useAppSelector } from './useRedux';
+import { selectReportDefinitions } from '../store/selectors';
+import { recordGeneratedReport } from '../store/reportBuilderSlice';
+import { generateRegulatoryReport } from '../services/regulatoryReports';
+import { crossTabLiveService } from '../services/crossTabLiveService';
+import { exportReport } from '../utils/reportExport';
+import { handleApiError } from '../utils/apiErrorHandler';
+import { downloadBlob } from '../utils/download';
+import type { ReportDefinition } from '../types/state';
+
+const CHECK_INTERVAL_MS = 30_000;
+
+export const useReportScheduler = (): void => {
+  const dispatch = useAppDispatch();
+  const definitions = useAppSelector(selectReportDefinitions);
+  const definitionsRef = useRef<ReportDefinition[]>(definitions);
+  /** Definition id to when its last run was attempted, successful or not */
+  const attemptedAt = useRef(new Map<string, number>());
+
+  const [isLeader, setIsLeader] = useState(crossTabLiveService.isLeaderTab());
+
+  definitionsRef.current = definitions;
+
+  useEffect(() => crossTabLiveService.onLeadershipChange(setIsLeader), []);
+
+  useEffect(() => {
+    if (!isLeader) return;
+
+    const runDue = () => {
+      const now = Date.now();
+      definitionsRef.current.forEach((definition) => {
+        if (!definition.schedule) return;
+        const lastRun = Math.max(
+          definition.lastRunAt ? Date.parse(definition.lastRunAt) : 0,
+          attemptedAt.current.get(definition.id) ?? 0
+        );
+        if (now - lastRun < definition.schedule.intervalMinutes * 60_000) return;
+
+        attemptedAt.current.set(definition.id, now);
+        const { format } = definition.schedule;
+        generateRegulatoryReport(definition, {
+          title: definition.name,
+          definitionId: definition.id,
+          trigger: 'scheduled',
+          now,
+        })
+          .then((report) => {
+            dispatch(recordGeneratedReport(report));
+            if (format) {
+              const { blob, fileName } = exportReport(report, format);
+              downloadBlob(blob, fileName);
+            }
+            message.info(`Scheduled report "${definition.name}" generated`);
+          })
+          .catch((err) => {
+            handleApiError(err, {
+              customMessage: `Scheduled report "${definition.name}" failed`,
+            });
+          });
+      });
+    };
+
+    runDue();
+    const timer = setInterval(runDue, CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [dispatch, isLeader]);
+};
+
+export default useReportScheduler;
@@ -0,0 +1,55 @@
+/**
+ * useSharedLiveChannel Hook
+ *
+ * Subscribes the current tab to a live data channel through the cross-tab
+ * connection shared by all portal tabs. Incoming events land in
+ * liveDataSlice; read the data itself with useAppSelector.
+ *
+ * Usage:
+ * const { isConnected, error } = useSharedLiveChannel('transactions');
+ * const transactions = useAppSelector((state) => state.liveData.transactions);
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useAppDispatch, useAppSelector } from './useRedux';
+import { crossTabLiveService, toConnectionKey } from '../services/crossTabLiveService';
+import type { WebSocketChannel } from '../services/websocketService';
+import type { RootState } from '../types/state';
+
+export interface UseSharedLiveChannelResult {
+  isConnected: boolean;
+  isConnecting: boolean;
+  error: Error | null;
+  isLeader: boolean;
+}
+
+export const useSharedLiveChannel = (channel: WebSocketChannel): UseSharedLiveChannelResult => {
+  const dispatch = useAppDispatch();
+  const connectionKey = toConnectionKey(channel);
+
+  const isConnected = useAppSelector(
+    (state: RootState) => state.liveData.connectionStates[connectionKey]
+  );
+  const errorMessage = useAppSelector((state: RootState) =>
+    connectionKey === 'liveStream' ? null : state.liveData.errors[connectionKey]
+  );
+  const [isLeader, setIsLeader] = useState(crossTabLiveService.isLeaderTab());
+
+  useEffect(() => crossTabLiveService.acquire(channel, dispatch), [channel, dispatch]);
+
+  useEffect(() => {
+    setIsLeader(crossTabLiveService.isLeaderTab());
+    return crossTabLiveService.onLeadershipChange(setIsLeader);
+  }, []);
+
+  const error = useMemo(() => (errorMessage ? new Error(errorMessage) : null), [errorMessage]);
+
+  return {
+    isConnected,
+    isConnecting: !isConnected && !error,
+    error,
+    isLeader,
+  };
+};
+
+export default useSharedLiveChannel;
@@ -0,0 +1,65 @@
+/**
+ * useVizorStream Hook
+ *
+ * Polls the V11 stats endpoint on the configured chart interval while the
+ * Vizor charts are not paused, storing the latest system metrics and
+ * appending one point to each chart series.
+ *
+ * Usage:
+ * useVizorStream();
+ * const tps = useAppSelector(selectTpsChartData);
+ */
+
+import { useEffect } from 'react';
+import { useAppDispatch, useAppSelector } from './useRedux';
+import { v11BackendService } from '../services/V11BackendService';
+import { appendChartData, setMetricsError, updateSystemMetrics } from '../store/demoAppSlice';
+import { selectChartsPaused, selectUpdateIntervals } from '../store/selectors';
+
+export const useVizorStream = (): void => {
+  const dispatch = useAppDispatch();
+  const paused = useAppSelector(selectChartsPaused);
+  const { chart: interval, maxDataPoints } = useAppSelector(selectUpdateIntervals);
+
+  useEffect(() => {
+    if (paused) return;
+    let cancelled = false;
+
+    const poll = async () => {
+      try {
+        const { timestamp, ...metrics } = await v11BackendService.getStats();
+        if (cancelled) return;
+        dispatch(updateSystemMetrics(metrics));
+        const samples = {
+          tps: metrics.performance.tps,
+          latency: metrics.performance.avgLatencyMs,
+          consensus: metrics.consensus.avgFinalityLatencyMs,
+          transactions: metrics.transactions.pendingTransactions,
+        };
+        (Object.keys(samples) as Array<keyof typeof samples>).forEach((type) =>
+          dispatch(
+            appendChartData({
+              type,
+              dataPoint: { timestamp, value: samples[type] },
+              maxDataPoints,
+            })
+          )
+        );
+        dispatch(setMetricsError(null));
+      } catch (err) {
+        if (!cancelled) {
+          dispatch(setMetricsError(err instanceof Error ? err.message : 'Failed to fetch stats'));
+        }
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, interval);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [dispatch, paused, interval, maxDataPoints]);
+};
+
+export default useVizorStream;
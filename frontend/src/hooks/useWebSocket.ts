@@ -4,6 +4,9 @@
  * Custom React hook for managing WebSocket connections
  * Handles subscription lifecycle and component cleanup
  *
+ * @deprecated Opens a socket per tab. Use useSharedLiveChannel, which shares
+ * the leader tab's connection, for live data.
+ *
  * Usage:
  * const { data, isConnected, error } = useWebSocket('metrics', {
  *   onMessage: (event) => console.log(event.data),
@@ -12,13 +15,19 @@
  */
 
 import { useState, useCallback, useEffect, useRef } from 'react';
-import { websocketService, WebSocketChannel, WebSocketEvent } from '../services/websocketService';
+import {
+  websocketService,
+  WebSocketChannel,
+  WebSocketEvent,
+  WebSocketGap,
+} from '../services/websocketService';
 
 export interface UseWebSocketOptions {
   onMessage?: (event: WebSocketEvent) => void;
   onConnect?: () => void;
   onDisconnect?: () => void;
   onError?: (error: Error) => void;
+  onGap?: (gap: WebSocketGap) => void;
   autoConnect?: boolean;
 }
 
@@ -36,7 +45,7 @@ export const useWebSocket = (
   channel: WebSocketChannel,
   options: UseWebSocketOptions = {}
 ): UseWebSocketResult => {
-  const { onMessage, onConnect, onDisconnect, onError, autoConnect = true } = options;
+  const { onMessage, onConnect, onDisconnect, onError, onGap, autoConnect = true } = options;
 
   const [data, setData] = useState<any>(null);
   const [isConnected, setIsConnected] = useState(false);
@@ -77,6 +86,8 @@ export const useWebSocket = (
         } else if (event.type === 'disconnected') {
           setIsConnected(false);
           onDisconnect?.();
+        } else if (event.type === 'gap') {
+          onGap?.(event.data as WebSocketGap);
         } else {
           handleMessage(event);
         }
@@ -90,7 +101,7 @@ export const useWebSocket = (
       setIsConnecting(false);
       onError?.(error);
     }
-  }, [channel, handleMessage, onConnect, onDisconnect, onError]);
+  }, [channel, handleMessage, onConnect, onDisconnect, onError, onGap]);
 
   // Disconnect from WebSocket
   const disconnect = useCallback(() => {
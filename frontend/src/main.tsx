@@ -6,6 +6,7 @@
  * - Redux Persist for state persistence
  * - React StrictMode for development
  * - Console Logger for error suppression
+ * - Mock backend (dev, or VITE_MOCK_BACKEND=true) that follows demo mode
  */
 
 import React, { Suspense } from 'react';
@@ -27,26 +28,49 @@ if (!document.getElementById('root')) {
   throw new Error('Root element not found');
 }
 
-const root = ReactDOM.createRoot(document.getElementById('root')!);
+/**
+ * Load the mock backend when it is enabled for this build. It is imported
+ * dynamically so production bundles without it never pull in msw.
+ */
+async function enableMockBackend(): Promise<void> {
+  if (!import.meta.env.DEV && import.meta.env.VITE_MOCK_BACKEND !== 'true') return;
+  const { syncMockBackend } = await import('./mocks/browser');
+  await syncMockBackend(store, persistor);
+}
+
+const renderApp = () => {
+  const root = ReactDOM.createRoot(document.getElementById('root')!);
+
+  root.render(
+    <React.StrictMode>
+      <Provider store={store}>
+        <PersistGate loading={null} persistor={persistor}>
+          <BrowserRouter>
+            <NavigationProvider>
+              <Suspense
+                fallback={
+                  <div
+                    style={{
+                      display: 'flex',
+                      justifyContent: 'center',
+                      alignItems: 'center',
+                      height: '100vh',
+                    }}
+                  >
+                    <Spin size="large" tip="Loading..." />
+                  </div>
+                }
+              >
+                <App />
+              </Suspense>
+            </NavigationProvider>
+          </BrowserRouter>
+        </PersistGate>
+      </Provider>
+    </React.StrictMode>
+  );
+};
 
-root.render(
-  <React.StrictMode>
-    <Provider store={store}>
-      <PersistGate loading={null} persistor={persistor}>
-        <BrowserRouter>
-          <NavigationProvider>
-            <Suspense
-              fallback={
-                <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100vh' }}>
-                  <Spin size="large" tip="Loading..." />
-                </div>
-              }
-            >
-              <App />
-            </Suspense>
-          </NavigationProvider>
-        </BrowserRouter>
-      </PersistGate>
-    </Provider>
-  </React.StrictMode>
-);
+enableMockBackend()
+  .catch((error) => console.error('Failed to start mock backend:', error))
+  .finally(renderApp);
@@ -0,0 +1,87 @@
+/**
+ * Mock Backend (browser)
+ *
+ * Service-worker backed mock of the V11 REST API and live streams, so the
+ * portal runs fully offline. It follows the demo mode setting: while demo
+ * mode is on every request is answered from the seeded mock database, and
+ * switching it off hands requests back to the real backend.
+ *
+ * The seed comes from ?mockSeed= or VITE_MOCK_SEED, falling back to a fixed
+ * default so screenshots and e2e runs always see the same data.
+ */
+
+import { setupWorker } from 'msw/browser';
+import type { Persistor } from 'redux-persist';
+import type { AppStore } from '../store';
+import { mockDb } from './db';
+import { DEFAULT_SEED } from './random';
+import { handlers, stopLiveTicker } from './handlers';
+
+export const worker = setupWorker(...handlers);
+
+let running = false;
+
+const resolveSeed = (): number => {
+  const raw =
+    new URLSearchParams(window.location.search).get('mockSeed') ?? import.meta.env.VITE_MOCK_SEED;
+  const seed = Number(raw);
+  return raw && Number.isFinite(seed) ? seed : DEFAULT_SEED;
+};
+
+export const startMockBackend = async (): Promise<void> => {
+  if (running) return;
+  running = true;
+  await worker.start({ onUnhandledRequest: 'bypass', quiet: true });
+  console.info(`[mock backend] started (seed ${mockDb.seedValue})`);
+};
+
+export const stopMockBackend = (): void => {
+  if (!running) return;
+  running = false;
+  worker.stop();
+  stopLiveTicker();
+  console.info('[mock backend] stopped');
+};
+
+const waitForRehydration = (persistor: Persistor): Promise<void> =>
+  new Promise((resolve) => {
+    if (persistor.getState().bootstrapped) {
+      resolve();
+      return;
+    }
+    const unsubscribe = persistor.subscribe(() => {
+      if (!persistor.getState().bootstrapped) return;
+      unsubscribe();
+      resolve();
+    });
+  });
+
+/**
+ * Start or stop the mock backend whenever demo mode changes. Resolves once
+ * the persisted setting has been applied, so the first requests the app
+ * makes already go to the right backend.
+ */
+export const syncMockBackend = async (store: AppStore, persistor: Persistor): Promise<void> => {
+  mockDb.seed(resolveSeed());
+  await waitForRehydration(persistor);
+
+  // Same rule as selectIsDemoMode: on while either slice has it set
+  const isDemoMode = () => {
+    const { settings, demoApp } = store.getState();
+    return settings.demoMode || demoApp.demoMode;
+  };
+
+  let demoMode = isDemoMode();
+  if (demoMode) await startMockBackend();
+
+  store.subscribe(() => {
+    const next = isDemoMode();
+    if (next === demoMode) return;
+    demoMode = next;
+    if (next) {
+      startMockBackend().catch((error) => console.error('Failed to start mock backend:', error));
+    } else {
+      stopMockBackend();
+    }
+  });
+};
@@ -0,0 +1,1686 @@
+/**
+ * Mock Backend Database
+ *
+ * In-memory state behind the mock backend handlers. Everything is generated
+ * from a seed, so the same seed always yields the same chain, validators,
+ * compliance records and demo channels. Writes (transfers, registrations,
+ * new sources...) are kept until the next reset(), and advance() moves the
+ * chain forward one block for the live channels.
+ */
+
+import type {
+  ExplorerTransactionStatus,
+  ExplorerTransactionType,
+  Validator,
+  Token,
+  RealWorldAsset,
+  CrossChainTransfer,
+  CrossChainTransferStatus,
+  SlashingEvent,
+  ValidatorPerformanceBucket,
+  ValidatorPerformanceHistory,
+  ValidatorPerformancePeriod,
+} from '../services/openapi/aurigraphV11';
+import type { Channel } from '../services/ChannelService';
+import type { Contract } from '../services/contractsApi';
+import type {
+  AlertActivity,
+  AlertStatus,
+  ComplianceAlert,
+  ComplianceTransferRecord,
+  ComplianceRuleResult,
+  IdentityRecord,
+  KycLevel,
+  TokenCompliance,
+  TokenTransferRules,
+  TransferComplianceRequest,
+  TransferComplianceResponse,
+} from '../services/complianceApi';
+import type {
+  ChannelConfig,
+  DemoChannelState,
+  NodeConfig,
+  TransactionMetric,
+} from '../services/HighThroughputDemoService';
+import type { APISource, TokenizedTransaction } from '../types/tokenization';
+import type { TraceabilityRecord } from '../types/comprehensive';
+import type { MerkleNode } from '../types/registry';
+import type { PermissionModule, User } from '../types/user';
+import type {
+  ApiKey,
+  ApiKeyAccessLog,
+  ApiKeyUsage,
+  ApiKeyUsageBucket,
+  ApiKeyUsagePeriod,
+  CreateApiKeyRequest,
+} from '../services/apiKeyApi';
+import type { Plan, Subscription } from '../services/subscriptionApi';
+import type { RicardianContract } from '../types/ricardian';
+import { createRandom, DEFAULT_SEED, type Random } from './random';
+import { mockUsers } from './fixtures/users';
+import { mockApiSources, mockTokenizedTransactions } from './fixtures/tokenization';
+import { mockTraceabilityRecords } from './fixtures/traceability';
+import { mockMerkleTree } from './fixtures/registry';
+import { mockInvoices, mockPlans, mockSubscription, type MockInvoice } from './fixtures/billing';
+
+// ===== Records =====
+
+export interface ChainBlock {
+  height: number;
+  hash: string;
+  previousHash: string;
+  timestamp: string;
+  proposer: string;
+  transactionCount: number;
+  gasUsed: number;
+  gasLimit: number;
+  stateRoot: string;
+  merkleRoot: string;
+  size: number;
+  consensusTerm: number;
+  consensusRound: number;
+  finalityMs: number;
+}
+
+export interface ChainTransaction {
+  hash: string;
+  type: ExplorerTransactionType;
+  status: ExplorerTransactionStatus;
+  from: string;
+  to: string;
+  amount: number;
+  fee: number;
+  gasPrice: number;
+  gasUsed: number;
+  nonce: number;
+  blockHeight: number;
+  timestamp: string;
+  signature: string;
+  size: number;
+}
+
+export interface DemoChannel {
+  config: ChannelConfig;
+  state: DemoChannelState;
+  metrics: TransactionMetric[];
+  targetTPS: number;
+  aiOptimization: boolean;
+}
+
+export interface DemoRegistration {
+  registrationId: string;
+  fullName: string;
+  email: string;
+  company: string;
+  jobTitle: string;
+  phone: string;
+  country: string;
+  demoMetrics: Record<string, number | string> | null;
+  registeredAt: number;
+  shares: string[];
+}
+
+/** A user's stake with one validator; rewards accrue continuously */
+export interface DelegationRecord {
+  /** User id of the delegator */
+  delegator: string;
+  validatorId: string;
+  amount: number;
+  /** Accrued and unclaimed, up to accruedAt */
+  rewards: number;
+  claimedRewards: number;
+  delegatedAt: string;
+  accruedAt: number;
+}
+
+export interface UnbondingRecord {
+  id: string;
+  delegator: string;
+  validatorId: string;
+  amount: number;
+  startedAt: string;
+}
+
+export interface NetworkCounters {
+  tps: number;
+  peakTps: number;
+  totalTransactions: number;
+  consensusTerm: number;
+  consensusRound: number;
+}
+
+/** A developer API key, its owner and its hourly request counts */
+export interface ApiKeyRecord {
+  key: ApiKey;
+  /** User id of the key's owner */
+  ownerId: string;
+  /** Requests per hour, oldest first; keys created after seeding have no traffic */
+  hourly: ApiKeyUsageBucket[];
+}
+
+/** Result of advance(): what changed, for the live channels to publish */
+export interface ChainTick {
+  block: ChainBlock;
+  transactions: ChainTransaction[];
+}
+
+// ===== Constants =====
+
+const BLOCK_TIME_MS = 2000;
+const INITIAL_BLOCKS = 60;
+const MAX_BLOCKS = 500;
+const MAX_TRANSACTIONS = 2000;
+const TRANSACTION_TYPES: ExplorerTransactionType[] = [
+  'transfer',
+  'transfer',
+  'transfer',
+  'mint',
+  'burn',
+  'stake',
+  'unstake',
+  'contract',
+];
+
+/** Countries whose investors fail ERC-3643 transfer checks out of the box */
+const DEFAULT_RESTRICTED_COUNTRIES = ['KP', 'IR', 'SY'];
+
+/** Largest single transfer the compliance rules allow without manual review */
+export const TRANSFER_LIMIT = 1_000_000;
+
+/** KYC levels from least to most thorough */
+const KYC_ORDER: KycLevel[] = ['BASIC', 'ENHANCED', 'INSTITUTIONAL'];
+
+/** Hours each alert severity has to be closed in */
+const ALERT_SLA_HOURS: Record<ComplianceAlert['type'], number> = {
+  critical: 4,
+  warning: 24,
+  info: 72,
+};
+
+/** Failing transfer rules that raise an alert, and the alert they raise */
+const ALERTING_RULES: Partial<
+  Record<ComplianceRuleResult['rule'], { type: ComplianceAlert['type']; title: string }>
+> = {
+  country_restriction: { type: 'critical', title: 'Sanctioned jurisdiction' },
+  transfer_limit: { type: 'warning', title: 'Transfer limit' },
+};
+
+const YEAR_MS = 365 * 86_400_000;
+/** Stake burned by each kind of slashing event */
+const SLASH_FRACTIONS = { downtime: 0.0001, double_sign: 0.05 } as const;
+/** Validators missing more blocks than this have been slashed for downtime */
+const DOWNTIME_SLASH_MISSED_BLOCKS = 300;
+
+/** Bucket size and count of each validator performance period */
+const PERFORMANCE_BUCKETS: Record<ValidatorPerformancePeriod, { minutes: number; count: number }> =
+  {
+    '1h': { minutes: 1, count: 60 },
+    '24h': { minutes: 15, count: 96 },
+    '7d': { minutes: 60, count: 168 },
+    '30d': { minutes: 360, count: 120 },
+  };
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 86_400_000;
+/** Bucket size and count of each API key usage period */
+const API_KEY_USAGE_BUCKETS: Record<ApiKeyUsagePeriod, { hours: number; count: number }> = {
+  '24h': { hours: 1, count: 24 },
+  '7d': { hours: 6, count: 28 },
+  '30d': { hours: 24, count: 30 },
+};
+/** Days of hourly usage kept per key */
+const API_KEY_USAGE_RETENTION_DAYS = 30;
+/** Endpoint the seeded traffic calls for each permission module */
+const MODULE_ENDPOINTS: Record<PermissionModule, string> = {
+  Dashboard: '/api/v11/stats',
+  Transactions: '/api/v11/transactions',
+  Blocks: '/api/v11/blocks',
+  Validators: '/api/v11/validators',
+  'Smart Contracts': '/api/v11/contracts',
+  Tokenization: '/api/v11/tokens',
+  Bridge: '/api/v11/bridge/transfers',
+  Security: '/api/v11/security/status',
+  Monitoring: '/api/v11/health',
+  DevOps: '/api/v11/nodes',
+};
+/** Keys every active user starts with: a busy production key, a read-only one and an expired one */
+const SEED_API_KEYS: (Omit<CreateApiKeyRequest, 'expiresAt'> & {
+  ageDays: number;
+  lifetimeDays: number | null;
+  requestsPerHour: number;
+  clientIps: string[];
+})[] = [
+  {
+    name: 'Production backend',
+    scopes: [
+      { module: 'Transactions', actions: ['view', 'create'] },
+      { module: 'Tokenization', actions: ['view'] },
+      { module: 'Blocks', actions: ['view'] },
+    ],
+    ipAllowlist: ['203.0.113.0/24'],
+    ageDays: 60,
+    lifetimeDays: 180,
+    requestsPerHour: 120,
+    // One client outside the allowlist keeps getting refused
+    clientIps: ['203.0.113.24', '203.0.113.24', '203.0.113.57', '203.0.113.57', '198.51.100.7'],
+  },
+  {
+    name: 'Analytics export',
+    scopes: [
+      { module: 'Dashboard', actions: ['view'] },
+      { module: 'Monitoring', actions: ['view'] },
+    ],
+    ipAllowlist: [],
+    ageDays: 20,
+    lifetimeDays: null,
+    requestsPerHour: 15,
+    clientIps: ['192.0.2.10'],
+  },
+  {
+    name: 'Legacy CI deploys',
+    scopes: [{ module: 'Smart Contracts', actions: ['view', 'deploy'] }],
+    ipAllowlist: ['192.0.2.0/28'],
+    ageDays: 95,
+    lifetimeDays: 90,
+    requestsPerHour: 4,
+    clientIps: ['192.0.2.3'],
+  },
+];
+
+/** Time a tracked bridge transfer spends on each step before moving to the next */
+const BRIDGE_STEP_MS = 15_000;
+const BRIDGE_STEPS: CrossChainTransferStatus[] = ['initiated', 'locked', 'verified', 'completed'];
+/** Target-chain liquidity of routes the seed didn't create */
+const DEFAULT_BRIDGE_LIQUIDITY = 250_000;
+
+/**
+ * Whether an IPv4 address is the given address or inside the given CIDR range
+ */
+const ipInRange = (ip: string, range: string): boolean => {
+  const [base = '', bits = '32'] = range.split('/');
+  const toNumber = (address: string) =>
+    address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+  const size = 2 ** (32 - Number(bits));
+  return Math.floor(toNumber(ip) / size) === Math.floor(toNumber(base) / size);
+};
+
+class MockDatabase {
+  random: Random = createRandom(DEFAULT_SEED);
+  seedValue = DEFAULT_SEED;
+
+  blocks: ChainBlock[] = [];
+  transactions: ChainTransaction[] = [];
+  validators: Validator[] = [];
+  slashingEvents: SlashingEvent[] = [];
+  delegations: DelegationRecord[] = [];
+  unbondings: UnbondingRecord[] = [];
+  counters: NetworkCounters = {
+    tps: 0,
+    peakTps: 0,
+    totalTransactions: 0,
+    consensusTerm: 0,
+    consensusRound: 0,
+  };
+
+  tokens: Token[] = [];
+  realWorldAssets: RealWorldAsset[] = [];
+  contracts: Contract[] = [];
+  ricardianContracts: RicardianContract[] = [];
+  bridgeTransfers: CrossChainTransfer[] = [];
+  bridgeLiquidity = new Map<string, number>();
+  channels: Channel[] = [];
+
+  identities = new Map<string, IdentityRecord>();
+  tokenCompliance = new Map<string, TokenCompliance>();
+  complianceAlerts: ComplianceAlert[] = [];
+  complianceTransfers: ComplianceTransferRecord[] = [];
+  restrictedCountries = new Set<string>();
+  tokenRules = new Map<string, TokenTransferRules>();
+  /** Token id to each investor's balance of it */
+  holdings = new Map<string, Map<string, number>>();
+  bridgeContracts = new Map<string, string>();
+
+  demoChannels = new Map<string, DemoChannel>();
+  registrations = new Map<string, DemoRegistration>();
+
+  apiSources: APISource[] = [];
+  tokenizedTransactions: TokenizedTransaction[] = [];
+
+  traceability: TraceabilityRecord[] = [];
+  merkleTree: MerkleNode = mockMerkleTree();
+  users: User[] = [];
+
+  plans: Plan[] = [];
+  subscription: Subscription = mockSubscription(Date.now());
+  invoices: MockInvoice[] = [];
+
+  /** Newest first */
+  apiKeys: ApiKeyRecord[] = [];
+  /** Newest first */
+  apiKeyAccessLogs: ApiKeyAccessLog[] = [];
+
+  private nextId = 1;
+  /** Bridge transfers moving on their own: step they resumed from, and when */
+  private bridgeClocks = new Map<string, { step: number; startedAt: number }>();
+
+  constructor() {
+    this.seed(DEFAULT_SEED);
+  }
+
+  /**
+   * Regenerate every collection from the given seed
+   */
+  seed(seed: number): void {
+    this.seedValue = seed;
+    this.random = createRandom(seed);
+    this.nextId = 1;
+
+    const now = Date.now();
+    this.seedValidators(now);
+    this.seedChain(now);
+    this.seedStaking(now);
+    this.seedAssets(now);
+    this.ricardianContracts = [];
+    this.seedCompliance(now);
+
+    this.channels = this.createChannels();
+    this.demoChannels.clear();
+    this.registrations.clear();
+    this.createDemoChannel('Demo Channel', 4, 6, 10, now);
+
+    this.apiSources = mockApiSources(now);
+    this.tokenizedTransactions = mockTokenizedTransactions(now);
+    this.traceability = mockTraceabilityRecords.map((record) => ({ ...record }));
+    this.merkleTree = mockMerkleTree();
+    this.users = mockUsers.map((user) => ({ ...user }));
+
+    this.plans = mockPlans.map((plan) => ({ ...plan }));
+    this.subscription = mockSubscription(now);
+    this.invoices = mockInvoices(now);
+    this.seedApiKeys(now);
+  }
+
+  /**
+   * Drop all writes and regenerate from the current seed
+   */
+  reset(): void {
+    this.seed(this.seedValue);
+  }
+
+  /**
+   * Sequential id with a prefix, e.g. "transfer-12"
+   */
+  id(prefix: string): string {
+    return `${prefix}-${this.nextId++}`;
+  }
+
+  address(): string {
+    return `0x${this.random.hex(40)}`;
+  }
+
+  hash(): string {
+    return `0x${this.random.hex(64)}`;
+  }
+
+  get latestBlock(): ChainBlock {
+    const block = this.blocks[0];
+    if (!block) throw new Error('Mock chain has no blocks');
+    return block;
+  }
+
+  // ===== Chain =====
+
+  /**
+   * Produce the next block, with its transactions, and update the network counters
+   */
+  advance(now: number = Date.now()): ChainTick {
+    const height = this.latestBlock.height + 1;
+    const transactions = Array.from({ length: this.random.int(2, 6) }, () =>
+      this.createTransaction(height, now)
+    );
+    const block = this.createBlock(height, now, transactions.length);
+
+    this.blocks.unshift(block);
+    this.transactions.unshift(...transactions);
+    this.blocks.length = Math.min(this.blocks.length, MAX_BLOCKS);
+    this.transactions.length = Math.min(this.transactions.length, MAX_TRANSACTIONS);
+
+    // Transactions from earlier blocks settle once the next block lands
+    this.transactions
+      .filter((tx) => tx.blockHeight < height && tx.status === 'pending')
+      .forEach((tx) => {
+        tx.status = this.random.chance(0.97) ? 'confirmed' : 'failed';
+      });
+
+    const tps = this.random.float(780_000, 1_150_000);
+    this.counters = {
+      tps,
+      peakTps: Math.max(this.counters.peakTps, tps),
+      totalTransactions: this.counters.totalTransactions + Math.round(tps * (BLOCK_TIME_MS / 1000)),
+      consensusTerm: this.counters.consensusTerm + (this.random.chance(0.02) ? 1 : 0),
+      consensusRound: this.counters.consensusRound + 1,
+    };
+
+    this.validators.forEach((validator) => {
+      if (validator.status !== 'active') return;
+      validator.lastActiveAt = new Date(now).toISOString();
+      if (validator.address === block.proposer) validator.blocksProposed += 1;
+      validator.blocksSigned += 1;
+    });
+
+    this.demoChannels.forEach((channel) => this.advanceDemoChannel(channel, now));
+
+    return { block, transactions };
+  }
+
+  findBlock(hashOrHeight: string | number): ChainBlock | undefined {
+    const height = Number(hashOrHeight);
+    return this.blocks.find((block) =>
+      Number.isNaN(height) ? block.hash === hashOrHeight : block.height === height
+    );
+  }
+
+  findTransaction(hash: string): ChainTransaction | undefined {
+    return this.transactions.find((tx) => tx.hash === hash);
+  }
+
+  // ===== Bridge =====
+
+  /**
+   * Start moving a bridge transfer through its steps, from its current status.
+   * Failed transfers resume from 'locked', since their funds are still locked.
+   */
+  trackBridgeTransfer(transfer: CrossChainTransfer, now: number = Date.now()): void {
+    const step = transfer.status === 'failed' ? 1 : BRIDGE_STEPS.indexOf(transfer.status);
+    this.bridgeClocks.set(transfer.id, { step, startedAt: now });
+    transfer.status = BRIDGE_STEPS[step] ?? 'initiated';
+    transfer.estimatedCompletionTime = new Date(
+      now + (BRIDGE_STEPS.length - step) * BRIDGE_STEP_MS
+    ).toISOString();
+  }
+
+  /**
+   * Move tracked transfers to the step their clock has reached. A transfer
+   * completes only if the bridge holds enough liquidity on the target chain;
+   * otherwise it fails with its funds still locked.
+   */
+  settleBridgeTransfers(now: number = Date.now()): void {
+    this.bridgeClocks.forEach(({ step, startedAt }, id) => {
+      const transfer = this.bridgeTransfers.find((candidate) => candidate.id === id);
+      if (!transfer || !BRIDGE_STEPS.includes(transfer.status)) {
+        this.bridgeClocks.delete(id);
+        return;
+      }
+
+      const elapsed = now - startedAt;
+      const reached = Math.min(
+        step + Math.floor(elapsed / BRIDGE_STEP_MS),
+        BRIDGE_STEPS.length - 1
+      );
+      if (reached < BRIDGE_STEPS.length - 1) {
+        const progress = (step * BRIDGE_STEP_MS + elapsed) / (3 * BRIDGE_STEP_MS);
+        transfer.status = BRIDGE_STEPS[reached] ?? transfer.status;
+        transfer.confirmations = Math.min(
+          transfer.requiredConfirmations - 1,
+          Math.floor(transfer.requiredConfirmations * progress)
+        );
+        return;
+      }
+
+      this.bridgeClocks.delete(id);
+      const available = this.liquidityOf(transfer.bridgeId);
+      if (transfer.amount > available) {
+        transfer.status = 'failed';
+        return;
+      }
+      this.bridgeLiquidity.set(transfer.bridgeId, available - transfer.amount);
+      transfer.status = 'completed';
+      transfer.confirmations = transfer.requiredConfirmations;
+      transfer.targetTransaction = this.hash();
+      transfer.completedAt = new Date(now).toISOString();
+    });
+  }
+
+  /**
+   * Failed, or still unfinished past its estimated completion time
+   */
+  isBridgeTransferStuck(transfer: CrossChainTransfer, now: number = Date.now()): boolean {
+    if (transfer.status === 'failed') return true;
+    if (transfer.status === 'completed' || transfer.status === 'refunded') return false;
+    if (!this.bridgeClocks.has(transfer.id)) return true;
+    return Date.parse(transfer.estimatedCompletionTime ?? '') < now;
+  }
+
+  liquidityOf(bridgeId: string): number {
+    return this.bridgeLiquidity.get(bridgeId) ?? DEFAULT_BRIDGE_LIQUIDITY;
+  }
+
+  /**
+   * Add a submitted transaction to the mempool; it is mined by the next advance()
+   */
+  submitTransaction(from: string, to: string, amount: number, fee: number): ChainTransaction {
+    const tx: ChainTransaction = {
+      ...this.createTransaction(this.latestBlock.height + 1, Date.now()),
+      from,
+      to,
+      amount,
+      fee,
+      type: 'transfer',
+      status: 'pending',
+    };
+    this.transactions.unshift(tx);
+    return tx;
+  }
+
+  private seedValidators(now: number): void {
+    this.validators = Array.from({ length: 12 }, (_, index) => {
+      const totalStake = this.random.int(500_000, 5_000_000);
+      const selfStake = Math.round(totalStake * this.random.float(0.1, 0.4));
+      const status = index < 10 ? 'active' : index === 10 ? 'inactive' : 'jailed';
+      return {
+        id: `validator-${index + 1}`,
+        address: this.address(),
+        name: `Aurigraph Validator ${index + 1}`,
+        status,
+        votingPower: 0,
+        commission: this.random.pick([3, 5, 7.5, 10]),
+        totalStake,
+        selfStake,
+        delegatorCount: this.random.int(20, 1200),
+        uptime: status === 'active' ? this.random.float(98.5, 99.99) : this.random.float(80, 95),
+        blocksProposed: this.random.int(8_000, 40_000),
+        blocksSigned: this.random.int(200_000, 400_000),
+        missedBlocks: this.random.int(0, 400),
+        slashingEvents: status === 'jailed' ? 1 : 0,
+        joinedAt: new Date(now - this.random.int(60, 400) * 86_400_000).toISOString(),
+        lastActiveAt: new Date(now).toISOString(),
+        apr: this.random.float(8, 14),
+        rank: 0,
+      } satisfies Validator;
+    });
+
+    const totalStake = this.validators.reduce((sum, validator) => sum + validator.totalStake, 0);
+    [...this.validators]
+      .sort((a, b) => b.totalStake - a.totalStake)
+      .forEach((validator, index) => {
+        validator.rank = index + 1;
+        validator.votingPower = Number(((validator.totalStake / totalStake) * 100).toFixed(2));
+      });
+  }
+
+  private seedChain(now: number): void {
+    const startHeight = this.random.int(1_200_000, 1_300_000);
+    this.blocks = [];
+    this.transactions = [];
+    this.counters = {
+      tps: this.random.float(780_000, 1_150_000),
+      peakTps: 1_250_000,
+      totalTransactions: this.random.int(1_000_000_000, 1_500_000_000),
+      consensusTerm: this.random.int(300, 900),
+      consensusRound: startHeight,
+    };
+
+    for (let offset = INITIAL_BLOCKS - 1; offset >= 0; offset--) {
+      const height = startHeight - offset;
+      const timestamp = now - offset * BLOCK_TIME_MS;
+      const transactions = Array.from({ length: this.random.int(2, 6) }, () => ({
+        ...this.createTransaction(height, timestamp),
+        status: this.random.chance(0.97) ? ('confirmed' as const) : ('failed' as const),
+      }));
+      this.blocks.unshift(this.createBlock(height, timestamp, transactions.length));
+      this.transactions.unshift(...transactions);
+    }
+  }
+
+  private createBlock(height: number, timestamp: number, transactionCount: number): ChainBlock {
+    const previous = this.blocks[0];
+    const active = this.validators.filter((validator) => validator.status === 'active');
+    const gasLimit = 30_000_000;
+    return {
+      height,
+      hash: this.hash(),
+      previousHash: previous?.hash ?? `0x${'0'.repeat(64)}`,
+      timestamp: new Date(timestamp).toISOString(),
+      proposer: this.random.pick(active).address,
+      transactionCount,
+      gasUsed: this.random.int(gasLimit * 0.3, gasLimit * 0.9),
+      gasLimit,
+      stateRoot: this.hash(),
+      merkleRoot: this.hash(),
+      size: this.random.int(2_000, 64_000),
+      consensusTerm: this.counters.consensusTerm,
+      consensusRound: this.counters.consensusRound,
+      finalityMs: this.random.int(80, 450),
+    };
+  }
+
+  private createTransaction(blockHeight: number, timestamp: number): ChainTransaction {
+    return {
+      hash: this.hash(),
+      type: this.random.pick(TRANSACTION_TYPES),
+      status: 'pending',
+      from: this.address(),
+      to: this.address(),
+      amount: Number(this.random.float(0.01, 25_000).toFixed(4)),
+      fee: Number(this.random.float(0.0001, 0.05).toFixed(6)),
+      gasPrice: this.random.int(1, 50),
+      gasUsed: this.random.int(21_000, 250_000),
+      nonce: this.random.int(0, 5_000),
+      blockHeight,
+      timestamp: new Date(timestamp - this.random.int(0, BLOCK_TIME_MS - 1)).toISOString(),
+      signature: `0x${this.random.hex(130)}`,
+      size: this.random.int(180, 1_200),
+    };
+  }
+
+  // ===== Validator Performance =====
+
+  /**
+   * Bucketed performance history for a validator. Each bucket is generated
+   * from its own seed, so a bucket reads the same on every request while the
+   * window slides forward.
+   */
+  validatorPerformance(
+    validatorId: string,
+    period: ValidatorPerformancePeriod,
+    now: number = Date.now()
+  ): ValidatorPerformanceHistory | undefined {
+    const index = this.validators.findIndex((candidate) => candidate.id === validatorId);
+    const validator = this.validators[index];
+    if (!validator) return undefined;
+
+    const { minutes, count } = PERFORMANCE_BUCKETS[period];
+    const bucketMs = minutes * 60_000;
+    const expected = bucketMs / BLOCK_TIME_MS;
+    const baseMissRate = 1 - validator.uptime / 100;
+    const firstBucket = Math.floor(now / bucketMs) - count + 1;
+
+    const buckets = Array.from({ length: count }, (_, offset): ValidatorPerformanceBucket => {
+      const bucket = firstBucket + offset;
+      const random = createRandom(this.seedValue ^ Math.imul(index + 1, 0x9e3779b1) ^ bucket);
+      // Occasional outages, more likely the less reliable the validator
+      const missRate = random.chance(baseMissRate * 3)
+        ? random.float(0.2, 1)
+        : baseMissRate * random.float(0, 2);
+      const missedBlocks = Math.round(expected * missRate);
+      const proposerShare = validator.votingPower * random.float(0.6, 1.4) * (1 - missRate);
+      return {
+        start: new Date(bucket * bucketMs).toISOString(),
+        blocksProposed: Math.round((expected * proposerShare) / 100),
+        blocksSigned: expected - missedBlocks,
+        missedBlocks,
+        uptimePercentage: (1 - missedBlocks / expected) * 100,
+        averageLatency: random.float(60, 140) + missRate * 400,
+        proposerShare,
+      };
+    });
+
+    const total = (key: 'blocksProposed' | 'blocksSigned' | 'missedBlocks') =>
+      buckets.reduce((sum, bucket) => sum + bucket[key], 0);
+    const blocksSigned = total('blocksSigned');
+    const missedBlocks = total('missedBlocks');
+    const periodStart = firstBucket * bucketMs;
+
+    return {
+      validatorId,
+      period,
+      bucketMinutes: minutes,
+      summary: {
+        validatorId,
+        period,
+        blocksProposed: total('blocksProposed'),
+        blocksSigned,
+        missedBlocks,
+        averageLatency:
+          buckets.reduce((sum, bucket) => sum + bucket.averageLatency, 0) / buckets.length,
+        uptimePercentage: (blocksSigned / (blocksSigned + missedBlocks)) * 100,
+        slashingEvents: this.slashingEvents.filter(
+          (event) =>
+            event.validatorId === validatorId && Date.parse(event.occurredAt) >= periodStart
+        ).length,
+        rewards: (validator.totalStake * (validator.apr / 100) * (count * bucketMs)) / YEAR_MS,
+      },
+      buckets,
+    };
+  }
+
+  // ===== Staking =====
+
+  /**
+   * Add the rewards earned since the last accrual: the validator's APR on the
+   * delegated amount, less its commission
+   */
+  accrueRewards(delegation: DelegationRecord, now: number = Date.now()): DelegationRecord {
+    const validator = this.validators.find((candidate) => candidate.id === delegation.validatorId);
+    if (validator?.status === 'active') {
+      const rate = (validator.apr / 100) * (1 - validator.commission / 100);
+      delegation.rewards += (delegation.amount * rate * (now - delegation.accruedAt)) / YEAR_MS;
+    }
+    delegation.accruedAt = now;
+    return delegation;
+  }
+
+  /**
+   * Slashing history derived from the validator set, and a few delegations
+   * for the admin account so the staking pages have something to show
+   */
+  private seedStaking(now: number): void {
+    const day = 86_400_000;
+    const height = this.latestBlock.height;
+
+    this.slashingEvents = this.validators.flatMap((validator) => {
+      const events: SlashingEvent[] = [];
+      if (validator.status === 'jailed') {
+        events.push({
+          validatorId: validator.id,
+          height: height - day / BLOCK_TIME_MS,
+          reason: 'double_sign',
+          fraction: SLASH_FRACTIONS.double_sign,
+          occurredAt: new Date(now - day).toISOString(),
+        });
+      }
+      if (validator.missedBlocks > DOWNTIME_SLASH_MISSED_BLOCKS) {
+        const daysAgo = 20 + (validator.missedBlocks % 200);
+        events.push({
+          validatorId: validator.id,
+          height: height - daysAgo * (day / BLOCK_TIME_MS),
+          reason: 'downtime',
+          fraction: SLASH_FRACTIONS.downtime,
+          occurredAt: new Date(now - daysAgo * day).toISOString(),
+        });
+      }
+      validator.slashingEvents = events.length;
+      return events;
+    });
+
+    const delegate = (validatorId: string, amount: number, daysAgo: number): DelegationRecord =>
+      this.accrueRewards(
+        {
+          delegator: '1',
+          validatorId,
+          amount,
+          rewards: 0,
+          claimedRewards: 0,
+          delegatedAt: new Date(now - daysAgo * day).toISOString(),
+          accruedAt: now - daysAgo * day,
+        },
+        now
+      );
+    this.delegations = [delegate('validator-1', 50_000, 45), delegate('validator-3', 20_000, 12)];
+    this.unbondings = [
+      {
+        id: 'unbonding-seed-1',
+        delegator: '1',
+        validatorId: 'validator-2',
+        amount: 15_000,
+        startedAt: new Date(now - 5 * day).toISOString(),
+      },
+    ];
+  }
+
+  // ===== Assets =====
+
+  private seedAssets(now: number): void {
+    const day = 86_400_000;
+    this.tokens = [
+      ['AUR', 'Aurigraph'],
+      ['USDA', 'Aurigraph USD'],
+      ['GOLD', 'Tokenized Gold'],
+      ['CARB', 'Carbon Credit'],
+      ['RE01', 'Manhattan Real Estate Fund'],
+    ].map(([symbol, name], index) => ({
+      id: `token-${index + 1}`,
+      symbol: symbol as string,
+      name: name as string,
+      totalSupply: String(this.random.int(1, 1000) * 1_000_000),
+      decimals: 18,
+      contractAddress: this.address(),
+      createdAt: new Date(now - this.random.int(30, 300) * day).toISOString(),
+      creator: this.address(),
+      holders: this.random.int(50, 25_000),
+      transfers: this.random.int(1_000, 2_000_000),
+    }));
+
+    this.realWorldAssets = [
+      ['Manhattan Office Tower', 'real_estate', '125000000'],
+      ['London Gold Vault Allocation', 'precious_metals', '48000000'],
+      ['Amazon Reforestation Credits', 'carbon_credits', '3200000'],
+      ['US Treasury Bond Ladder', 'bonds', '75000000'],
+    ].map(([name, type, value], index) => ({
+      id: `rwa-${index + 1}`,
+      name: name as string,
+      type: type as string,
+      value: value as string,
+      currency: 'USD',
+      tokenAddress: this.address(),
+      status: index === 3 ? 'UNDER_REVIEW' : 'ACTIVE',
+      createdAt: new Date(now - this.random.int(10, 200) * day).toISOString(),
+      issuer: this.random.pick(['Aurigraph Capital', 'Meridian Trust', 'Northwind Assets']),
+      custodian: this.random.pick(['BNY Mellon', 'State Street', 'Brinks']),
+      kycRequired: true,
+      holders: this.random.int(20, 4_000),
+    }));
+
+    this.contracts = [
+      ['AUR Token', 'main', 'deployed'],
+      ['Real Estate Escrow', 'finance', 'deployed'],
+      ['Carbon Credit Registry', 'main', 'auditing'],
+      ['Supply Chain Tracker', 'supply-chain', 'deployed'],
+      ['Bond Coupon Distributor', 'finance', 'pending'],
+    ].map(([name, channelId, status], index) => ({
+      id: `contract-${index + 1}`,
+      name: name as string,
+      channelId: channelId as string,
+      address: this.address(),
+      deployedBy: this.address(),
+      deployedAt: new Date(now - this.random.int(5, 120) * day).toISOString(),
+      status: status as Contract['status'],
+      verified: status === 'deployed',
+      audited: status === 'deployed',
+      metrics: {
+        transactions: this.random.int(100, 500_000),
+        gasUsed: this.random.int(1_000_000, 900_000_000),
+        holders: this.random.int(10, 20_000),
+        totalValue: this.random.int(10_000, 50_000_000),
+      },
+    }));
+
+    const routes: [string, string][] = [
+      ['aurigraph', 'ethereum'],
+      ['ethereum', 'aurigraph'],
+      ['aurigraph', 'polygon'],
+      ['bsc', 'aurigraph'],
+    ];
+    this.bridgeLiquidity = new Map(
+      routes.map(([source, target]) => [`${source}-${target}`, this.random.int(60_000, 2_000_000)])
+    );
+    this.bridgeClocks.clear();
+
+    // The last three never finished, so they show up as stuck transfers
+    const stuck = ['locked', 'verified', 'failed'] as const;
+    this.bridgeTransfers = Array.from({ length: 8 }, (_, index) => {
+      const [sourceChain, targetChain] = this.random.pick(routes);
+      const status = index < 5 ? 'completed' : (stuck[index - 5] ?? 'failed');
+      const initiatedAt = now - this.random.int(5, 600) * 60_000;
+      return {
+        id: `transfer-${index + 1}`,
+        bridgeId: `${sourceChain}-${targetChain}`,
+        sourceChain,
+        targetChain,
+        sourceTransaction: this.hash(),
+        targetTransaction: status === 'completed' ? this.hash() : undefined,
+        status,
+        token: this.random.pick(['USDC', 'AUR', 'WETH']),
+        amount: Number(this.random.float(10, 50_000).toFixed(2)),
+        sender: this.address(),
+        recipient: this.address(),
+        fee: Number(this.random.float(0.5, 25).toFixed(2)),
+        initiatedAt: new Date(initiatedAt).toISOString(),
+        completedAt:
+          status === 'completed' ? new Date(initiatedAt + 4 * 60_000).toISOString() : undefined,
+        estimatedCompletionTime: new Date(initiatedAt + 4 * 60_000).toISOString(),
+        confirmations: status === 'completed' ? 12 : this.random.int(1, 11),
+        requiredConfirmations: 12,
+      } satisfies CrossChainTransfer;
+    });
+  }
+
+  private createChannels(): Channel[] {
+    return [
+      ['main', 'Main Channel', 'public', 25, 3],
+      ['finance', 'Finance Channel', 'private', 10, 2],
+      ['supply-chain', 'Supply Chain Channel', 'consortium', 15, 3],
+    ].map(([id, name, type, nodeCount, blockTime]) => ({
+      id: id as string,
+      name: name as string,
+      type: type as Channel['type'],
+      status: 'active',
+      createdAt: '2025-01-01T00:00:00Z',
+      nodeCount: nodeCount as number,
+      transactionCount: this.random.int(500_000, 5_000_000),
+      config: {
+        consensusAlgorithm: 'HyperRAFT++',
+        blockTime: blockTime as number,
+        maxBlockSize: 4096,
+      },
+    }));
+  }
+
+  // ===== Compliance =====
+
+  private seedCompliance(now: number): void {
+    const day = 86_400_000;
+    this.identities.clear();
+    this.tokenCompliance.clear();
+    this.tokenRules.clear();
+    this.holdings.clear();
+    this.bridgeContracts.clear();
+    this.complianceTransfers = [];
+    this.restrictedCountries = new Set(DEFAULT_RESTRICTED_COUNTRIES);
+
+    const countries = ['US', 'GB', 'DE', 'SG', 'CH', 'AE', 'JP', 'IR'];
+    countries.forEach((country, index) => {
+      const address = this.address();
+      this.identities.set(address, {
+        address,
+        kycLevel: this.random.pick(KYC_ORDER),
+        country,
+        verified: index !== 5,
+        registeredAt: new Date(now - this.random.int(10, 300) * day).toISOString(),
+        expiryDate: new Date(now + this.random.int(30, 700) * day).toISOString(),
+        status: index === 6 ? 'revoked' : 'active',
+      });
+    });
+
+    this.tokens.forEach((token, index) => {
+      this.tokenCompliance.set(token.id, {
+        tokenId: token.id,
+        jurisdiction: this.random.pick(['US', 'EU', 'SG', 'UK']),
+        complianceStatus: index === 3 ? 'pending' : 'compliant',
+        lastCheckDate: new Date(now - this.random.int(0, 20) * day).toISOString(),
+        complianceRate: this.random.float(92, 100),
+        issues: index === 3 ? ['Certification renewal pending'] : [],
+      });
+    });
+
+    this.tokens.forEach((token, index) => {
+      const maxHolding = this.random.int(5, 50) * 10_000;
+      this.tokenRules.set(token.id, {
+        tokenId: token.id,
+        minKycLevel: this.random.pick(KYC_ORDER.slice(0, 2)),
+        maxHolding,
+        transferLimit: TRANSFER_LIMIT,
+        certifications: [
+          {
+            id: this.id('cert'),
+            name: this.random.pick(['SEC Reg D 506(c)', 'MiFID II', 'MAS CMS Licence']),
+            issuer: this.random.pick(['Deloitte', 'KPMG', 'EY']),
+            // The pending token's certification has lapsed
+            expiryDate: new Date(
+              now + (index === 3 ? -this.random.int(1, 30) : this.random.int(60, 700)) * day
+            ).toISOString(),
+          },
+        ],
+      });
+      this.holdings.set(
+        token.id,
+        new Map(
+          [...this.identities.keys()].map((address) => [
+            address,
+            this.random.int(0, Math.floor(maxHolding * 0.8)),
+          ])
+        )
+      );
+    });
+
+    // Rejected attempts raise the sanctioned jurisdiction and transfer limit alerts
+    this.complianceAlerts = [];
+    const [investor, counterparty, , , , , , sanctioned] = [...this.identities.keys()];
+    const [firstToken, secondToken, thirdToken] = this.tokens;
+    if (investor && counterparty && sanctioned && firstToken && secondToken) {
+      this.recordTransfer(
+        { tokenId: firstToken.id, from: investor, to: sanctioned, amount: 5_000 },
+        false,
+        now - 2 * 3_600_000
+      );
+      this.recordTransfer(
+        { tokenId: secondToken.id, from: investor, to: counterparty, amount: 1_250_000 },
+        false,
+        now - 3 * 3_600_000
+      );
+    }
+    const kycAlert = this.createAlert(
+      {
+        type: 'warning',
+        title: 'KYC expiring',
+        message: '3 investor identities expire within 30 days',
+      },
+      now - 1 * 3_600_000
+    );
+    this.transitionAlert(kycAlert, 'acknowledged', 'jane.smith', undefined, now - 1_800_000);
+    this.assignAlert(kycAlert, 'jane.smith', 'jane.smith', now - 1_800_000);
+    this.createAlert(
+      {
+        type: 'info',
+        title: 'Report ready',
+        message: 'Quarterly ERC-3643 compliance report generated',
+        tokenId: thirdToken?.id,
+      },
+      now - 4 * 3_600_000
+    );
+  }
+
+  holdingOf(tokenId: string, address: string): number {
+    return this.holdings.get(tokenId)?.get(address) ?? 0;
+  }
+
+  /**
+   * ERC-3643 style transfer check. Both parties need an active, verified,
+   * unexpired identity at the token's KYC level outside the restricted
+   * countries; the token's certifications must be current; the sender must
+   * hold the amount and the recipient stay within the holding limit; and the
+   * amount has to be within the transfer limit.
+   */
+  checkTransfer(request: TransferComplianceRequest): TransferComplianceResponse {
+    const rules: ComplianceRuleResult[] = [];
+    const check = (
+      rule: ComplianceRuleResult['rule'],
+      party: ComplianceRuleResult['party'],
+      passed: boolean,
+      detail: string
+    ) => rules.push({ rule, ...(party && { party }), passed, detail });
+    const tokenRules = this.tokenRules.get(request.tokenId);
+    const now = Date.now();
+
+    const checkParty = (party: 'sender' | 'recipient', address: string) => {
+      const label = party === 'sender' ? 'Sender' : 'Recipient';
+      const identity = this.identities.get(address);
+      if (!identity) {
+        check('identity', party, false, `${label} has no registered identity`);
+        return;
+      }
+      if (identity.status !== 'active') {
+        check('identity', party, false, `${label} identity is ${identity.status}`);
+      } else if (!identity.verified) {
+        check('identity', party, false, `${label} identity is not verified`);
+      } else {
+        check('identity', party, true, `${label} identity is active and verified`);
+      }
+
+      if (!identity.expiryDate) {
+        check('identity_expiry', party, true, `${label} identity does not expire`);
+      } else {
+        const current = Date.parse(identity.expiryDate) > now;
+        check(
+          'identity_expiry',
+          party,
+          current,
+          `${label} identity ${current ? 'is valid until' : 'expired on'} ${identity.expiryDate.slice(0, 10)}`
+        );
+      }
+
+      if (tokenRules) {
+        const level = KYC_ORDER.indexOf(identity.kycLevel as KycLevel);
+        const required = KYC_ORDER.indexOf(tokenRules.minKycLevel);
+        check(
+          'kyc_level',
+          party,
+          level >= required,
+          level >= required
+            ? `${label} KYC level ${identity.kycLevel} meets the required ${tokenRules.minKycLevel}`
+            : `${label} KYC level ${identity.kycLevel} is below the ${tokenRules.minKycLevel} this token requires`
+        );
+      }
+
+      const restricted = this.restrictedCountries.has(identity.country);
+      check(
+        'country_restriction',
+        party,
+        !restricted,
+        restricted
+          ? `${label} is in restricted country ${identity.country}`
+          : `${label} country ${identity.country} is not restricted`
+      );
+    };
+
+    checkParty('sender', request.from);
+    checkParty('recipient', request.to);
+
+    if (!tokenRules) {
+      check(
+        'certification',
+        undefined,
+        false,
+        `Token ${request.tokenId} is not registered for compliance`
+      );
+    } else {
+      tokenRules.certifications.forEach((certification) => {
+        const current = Date.parse(certification.expiryDate) > now;
+        check(
+          'certification',
+          undefined,
+          current,
+          current
+            ? `${certification.name} (${certification.issuer}) is valid until ${certification.expiryDate.slice(0, 10)}`
+            : `${certification.name} (${certification.issuer}) expired on ${certification.expiryDate.slice(0, 10)}`
+        );
+      });
+
+      const balance = this.holdingOf(request.tokenId, request.from);
+      check(
+        'sender_balance',
+        'sender',
+        balance >= request.amount,
+        balance >= request.amount
+          ? `Sender holds ${balance.toLocaleString()}, enough for the transfer`
+          : `Sender holds ${balance.toLocaleString()}, less than the ${request.amount.toLocaleString()} being transferred`
+      );
+
+      const resulting = this.holdingOf(request.tokenId, request.to) + request.amount;
+      check(
+        'holding_limit',
+        'recipient',
+        resulting <= tokenRules.maxHolding,
+        resulting <= tokenRules.maxHolding
+          ? `Recipient would hold ${resulting.toLocaleString()}, within the ${tokenRules.maxHolding.toLocaleString()} limit`
+          : `Recipient would hold ${resulting.toLocaleString()}, above the per-investor limit of ${tokenRules.maxHolding.toLocaleString()}`
+      );
+    }
+
+    const limit = tokenRules?.transferLimit ?? TRANSFER_LIMIT;
+    if (request.amount <= 0) {
+      check('transfer_limit', undefined, false, 'Amount must be positive');
+    } else if (request.amount > limit) {
+      check(
+        'transfer_limit',
+        undefined,
+        false,
+        `Amount exceeds the transfer limit of ${limit.toLocaleString()}`
+      );
+    } else {
+      check(
+        'transfer_limit',
+        undefined,
+        true,
+        `Amount is within the transfer limit of ${limit.toLocaleString()}`
+      );
+    }
+
+    const violations = rules.filter((rule) => !rule.passed).map((rule) => rule.detail);
+    return {
+      allowed: violations.length === 0,
+      violations,
+      reason: violations[0],
+      rules,
+    };
+  }
+
+  recordTransfer(
+    request: TransferComplianceRequest,
+    executed: boolean,
+    now: number = Date.now()
+  ): ComplianceTransferRecord {
+    const record: ComplianceTransferRecord = {
+      ...request,
+      id: this.id('compliance-transfer'),
+      timestamp: new Date(now).toISOString(),
+      executed,
+      result: this.checkTransfer(request),
+    };
+    this.complianceTransfers.unshift(record);
+    if (executed && record.result.allowed) {
+      const balances = this.holdings.get(request.tokenId);
+      balances?.set(request.from, this.holdingOf(request.tokenId, request.from) - request.amount);
+      balances?.set(request.to, this.holdingOf(request.tokenId, request.to) + request.amount);
+    }
+    this.flagTransfer(record, now);
+    return record;
+  }
+
+  /**
+   * Raise alerts for a rejected transfer's alerting rules. A rule that already
+   * has an open alert for the token links the transfer to it instead.
+   */
+  private flagTransfer(record: ComplianceTransferRecord, now: number): void {
+    record.result.rules
+      ?.filter((rule) => !rule.passed)
+      .forEach((rule) => {
+        const raises = ALERTING_RULES[rule.rule];
+        if (!raises) return;
+        const open = this.complianceAlerts.find(
+          (alert) =>
+            !alert.resolved && alert.tokenId === record.tokenId && alert.title === raises.title
+        );
+        if (open) {
+          if (open.auditEntryIds.includes(record.id)) return;
+          open.auditEntryIds.push(record.id);
+          open.activity.push(
+            this.alertActivity('system', 'linked', `Linked audit entry ${record.id}`, now)
+          );
+          return;
+        }
+        this.createAlert(
+          {
+            ...raises,
+            message: `${rule.detail} (${record.amount.toLocaleString()} ${record.tokenId})`,
+            tokenId: record.tokenId,
+            auditEntryIds: [record.id],
+          },
+          now
+        );
+      });
+  }
+
+  // ===== Compliance Alerts =====
+
+  private alertActivity(
+    actor: string,
+    action: AlertActivity['action'],
+    detail: string,
+    now: number,
+    extra: Pick<AlertActivity, 'fromStatus' | 'toStatus' | 'comment'> = {}
+  ): AlertActivity {
+    return {
+      id: this.id('alert-activity'),
+      timestamp: new Date(now).toISOString(),
+      actor,
+      action,
+      detail,
+      ...extra,
+    };
+  }
+
+  createAlert(
+    input: Pick<ComplianceAlert, 'type' | 'title' | 'message'> &
+      Partial<Pick<ComplianceAlert, 'tokenId' | 'auditEntryIds'>>,
+    now: number = Date.now()
+  ): ComplianceAlert {
+    const alert: ComplianceAlert = {
+      id: this.id('alert'),
+      type: input.type,
+      title: input.title,
+      message: input.message,
+      timestamp: new Date(now).toISOString(),
+      resolved: false,
+      status: 'new',
+      tokenId: input.tokenId,
+      jurisdiction: input.tokenId
+        ? this.tokenCompliance.get(input.tokenId)?.jurisdiction
+        : undefined,
+      auditEntryIds: input.auditEntryIds ?? [],
+      slaDueAt: new Date(now + ALERT_SLA_HOURS[input.type] * 3_600_000).toISOString(),
+      activity: [this.alertActivity('system', 'created', `Raised: ${input.title}`, now)],
+    };
+    this.complianceAlerts.unshift(alert);
+    return alert;
+  }
+
+  /** Move an alert to a new status; the caller checks the transition is allowed */
+  transitionAlert(
+    alert: ComplianceAlert,
+    status: AlertStatus,
+    actor: string,
+    note?: string,
+    now: number = Date.now()
+  ): ComplianceAlert {
+    const fromStatus = alert.status;
+    const closed = status === 'resolved' || status === 'false_positive';
+    alert.status = status;
+    alert.resolved = closed;
+    alert.acknowledgedAt ??= new Date(now).toISOString();
+    alert.resolvedAt = closed ? new Date(now).toISOString() : undefined;
+    alert.activity.push(
+      this.alertActivity(
+        actor,
+        'status_changed',
+        `${fromStatus} → ${status}${note ? `: ${note}` : ''}`,
+        now,
+        { fromStatus, toStatus: status }
+      )
+    );
+    return alert;
+  }
+
+  assignAlert(
+    alert: ComplianceAlert,
+    assignee: string | null,
+    actor: string,
+    now: number = Date.now()
+  ): ComplianceAlert {
+    alert.assignee = assignee ?? undefined;
+    alert.activity.push(
+      this.alertActivity(
+        actor,
+        'assigned',
+        assignee ? `Assigned to ${assignee}` : 'Unassigned',
+        now
+      )
+    );
+    return alert;
+  }
+
+  commentOnAlert(
+    alert: ComplianceAlert,
+    comment: string,
+    actor: string,
+    now: number = Date.now()
+  ): ComplianceAlert {
+    alert.activity.push(this.alertActivity(actor, 'commented', 'Commented', now, { comment }));
+    return alert;
+  }
+
+  // ===== Demo Channels =====
+
+  createDemoChannel(
+    name: string,
+    validatorCount: number,
+    businessCount: number,
+    slimCount: number,
+    now: number = Date.now()
+  ): DemoChannel {
+    const channelId = this.id('demo-channel');
+    let port = 9100;
+    const nodes = (nodeType: NodeConfig['nodeType'], count: number): NodeConfig[] =>
+      Array.from({ length: count }, (_, index) => ({
+        nodeId: `${channelId}-${nodeType}-${index + 1}`,
+        nodeType,
+        name: `${nodeType.charAt(0).toUpperCase()}${nodeType.slice(1)} Node ${index + 1}`,
+        enabled: true,
+        port: port++,
+        cpuAllocation: nodeType === 'validator' ? 4 : nodeType === 'business' ? 2 : 1,
+        memoryAllocation: nodeType === 'validator' ? 8192 : nodeType === 'business' ? 4096 : 1024,
+        maxConnections: nodeType === 'slim' ? 100 : 1000,
+        consensusParticipation: nodeType === 'validator',
+      }));
+
+    const channel: DemoChannel = {
+      config: {
+        channelId,
+        name,
+        createdAt: now,
+        validatorNodes: nodes('validator', validatorCount),
+        businessNodes: nodes('business', businessCount),
+        slimNodes: nodes('slim', slimCount),
+        enabled: true,
+      },
+      state: {
+        channelId,
+        isRunning: false,
+        createdAt: now,
+        transactionCount: 0,
+        peakTPS: 0,
+        averageLatency: 0,
+        nodeMetrics: [],
+      },
+      metrics: [],
+      targetTPS: 0,
+      aiOptimization: false,
+    };
+    this.demoChannels.set(channelId, channel);
+    return channel;
+  }
+
+  demoChannelNodes(channel: DemoChannel): NodeConfig[] {
+    return [
+      ...channel.config.validatorNodes,
+      ...channel.config.businessNodes,
+      ...channel.config.slimNodes,
+    ];
+  }
+
+  private advanceDemoChannel(channel: DemoChannel, now: number): void {
+    if (!channel.state.isRunning) return;
+
+    const boost = channel.aiOptimization ? 1.15 : 1;
+    const tps = channel.targetTPS * boost * this.random.float(0.85, 1.02);
+    const latency = this.random.float(12, 45) / boost;
+    const metric: TransactionMetric = {
+      timestamp: now,
+      tps,
+      avgLatency: latency,
+      successRate: this.random.float(99.2, 99.99),
+      cpuUsage: this.random.float(35, 85),
+      memoryUsage: this.random.float(40, 75),
+    };
+    channel.metrics.push(metric);
+    channel.metrics.splice(0, Math.max(0, channel.metrics.length - 300));
+
+    const samples = channel.metrics.length;
+    channel.state.transactionCount += Math.round(tps * (BLOCK_TIME_MS / 1000));
+    channel.state.peakTPS = Math.max(channel.state.peakTPS, tps);
+    channel.state.averageLatency =
+      (channel.state.averageLatency * (samples - 1) + latency) / samples;
+
+    const enabledNodes = this.demoChannelNodes(channel).filter((node) => node.enabled);
+    channel.state.nodeMetrics = enabledNodes.map((node) => ({
+      nodeId: node.nodeId,
+      nodeType: node.nodeType,
+      status: this.random.chance(0.97) ? 'healthy' : 'degraded',
+      tps: tps / Math.max(enabledNodes.length, 1),
+      latency: latency * this.random.float(0.8, 1.3),
+      cpuUsage: this.random.float(20, 90),
+      memoryUsage: this.random.float(30, 80),
+      transactionsProcessed: Math.round(
+        channel.state.transactionCount / Math.max(enabledNodes.length, 1)
+      ),
+      errorsCount: this.random.int(0, 3),
+    }));
+  }
+
+  // ===== Developer API Keys =====
+
+  private seedApiKeys(now: number): void {
+    this.apiKeys = [];
+    this.apiKeyAccessLogs = [];
+    this.users
+      .filter((user) => user.status === 'active')
+      .forEach((user) => {
+        SEED_API_KEYS.forEach(({ ageDays, lifetimeDays, requestsPerHour, clientIps, ...input }) => {
+          const createdAt = now - ageDays * DAY_MS;
+          const { record } = this.createApiKey(
+            user.id,
+            {
+              ...input,
+              expiresAt:
+                lifetimeDays === null
+                  ? null
+                  : new Date(createdAt + lifetimeDays * DAY_MS).toISOString(),
+            },
+            createdAt
+          );
+          this.seedApiKeyTraffic(record, requestsPerHour, clientIps, now);
+        });
+      });
+    this.apiKeyAccessLogs.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  /**
+   * Hourly usage up to now (or the key's expiry) and a sample of its latest
+   * requests. Requests from outside the allowlist, or after expiry, are denied.
+   */
+  private seedApiKeyTraffic(
+    record: ApiKeyRecord,
+    requestsPerHour: number,
+    clientIps: string[],
+    now: number
+  ): void {
+    const { key } = record;
+    const createdAt = Date.parse(key.createdAt);
+    const retainedFrom = Math.max(createdAt, now - API_KEY_USAGE_RETENTION_DAYS * DAY_MS);
+    const activeUntil = key.expiresAt ? Math.min(now, Date.parse(key.expiresAt)) : now;
+
+    for (let hour = Math.floor(retainedFrom / HOUR_MS); hour * HOUR_MS < activeUntil; hour++) {
+      const utcHour = new Date(hour * HOUR_MS).getUTCHours();
+      const load = utcHour >= 8 && utcHour < 18 ? 1.6 : 0.5;
+      const requests = Math.round(requestsPerHour * load * this.random.float(0.6, 1.4));
+      record.hourly.push({
+        start: new Date(hour * HOUR_MS).toISOString(),
+        requests,
+        errors: Math.round(requests * this.random.float(0, 0.03)),
+      });
+    }
+    key.totalRequests =
+      record.hourly.reduce((sum, hour) => sum + hour.requests, 0) +
+      Math.round(((retainedFrom - createdAt) / HOUR_MS) * requestsPerHour);
+
+    const allowed = (ip: string) =>
+      key.ipAllowlist.length === 0 || key.ipAllowlist.some((range) => ipInRange(ip, range));
+    const logs = Array.from({ length: 25 }, () => {
+      const ip = this.random.pick(clientIps);
+      return this.apiKeyRequest(
+        key,
+        Math.max(createdAt, activeUntil - this.random.float(0, 2 * DAY_MS)),
+        ip,
+        allowed(ip) ? undefined : 'ip_not_allowed'
+      );
+    });
+    // Clients still calling with the key after it expired
+    if (activeUntil < now) {
+      logs.push(
+        ...Array.from({ length: 3 }, () =>
+          this.apiKeyRequest(
+            key,
+            this.random.float(activeUntil, now),
+            this.random.pick(clientIps),
+            'expired'
+          )
+        )
+      );
+    }
+    logs.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    this.apiKeyAccessLogs.push(...logs);
+
+    const lastUsed = logs.find((log) => !log.denialReason);
+    key.lastUsedAt = lastUsed?.timestamp;
+    key.lastUsedIp = lastUsed?.ipAddress;
+    this.refreshApiKey(key, now);
+  }
+
+  private apiKeyRequest(
+    key: ApiKey,
+    timestamp: number,
+    ipAddress: string,
+    denialReason?: ApiKeyAccessLog['denialReason']
+  ): ApiKeyAccessLog {
+    const scope = this.random.pick(key.scopes);
+    const action = this.random.pick(scope.actions);
+    const failed = !denialReason && this.random.chance(0.02);
+    return {
+      id: this.id('access-log'),
+      keyId: key.id,
+      keyName: key.name,
+      timestamp: new Date(timestamp).toISOString(),
+      method: action === 'view' ? 'GET' : action === 'delete' ? 'DELETE' : 'POST',
+      path: MODULE_ENDPOINTS[scope.module],
+      status: denialReason
+        ? denialReason === 'expired' || denialReason === 'revoked'
+          ? 401
+          : 403
+        : failed
+          ? this.random.pick([429, 500])
+          : action === 'view'
+            ? 200
+            : 201,
+      ipAddress,
+      latencyMs: denialReason ? this.random.int(2, 8) : this.random.int(18, 240),
+      denialReason,
+    };
+  }
+
+  /**
+   * Issue a key and its secret. Only a prefix of the secret is stored.
+   */
+  createApiKey(
+    ownerId: string,
+    input: CreateApiKeyRequest,
+    now: number = Date.now()
+  ): { record: ApiKeyRecord; secret: string } {
+    const secret = `sk_live_${this.random.hex(40)}`;
+    const record: ApiKeyRecord = {
+      ownerId,
+      key: {
+        id: this.id('api-key'),
+        name: input.name,
+        prefix: secret.slice(0, 14),
+        scopes: input.scopes.map((scope) => ({ ...scope, actions: [...scope.actions] })),
+        ipAllowlist: [...input.ipAllowlist],
+        status: 'active',
+        createdAt: new Date(now).toISOString(),
+        expiresAt: input.expiresAt,
+        totalRequests: 0,
+      },
+      hourly: [],
+    };
+    this.refreshApiKey(record.key, now);
+    this.apiKeys.unshift(record);
+    return { record, secret };
+  }
+
+  /** Bring a key's status up to date with its expiry, revocation and rotation */
+  refreshApiKey(key: ApiKey, now: number = Date.now()): ApiKey {
+    key.status = key.revokedAt
+      ? 'revoked'
+      : key.expiresAt && Date.parse(key.expiresAt) <= now
+        ? 'expired'
+        : key.replacedById
+          ? 'rotating'
+          : 'active';
+    return key;
+  }
+
+  /**
+   * Replace a key with a new one of the same scopes, allowlist and lifetime.
+   * The old key keeps working for the overlap window, so clients can move
+   * over, then expires.
+   */
+  rotateApiKey(
+    record: ApiKeyRecord,
+    overlapHours: number,
+    now: number = Date.now()
+  ): { record: ApiKeyRecord; secret: string } {
+    const { key } = record;
+    const lifetime = key.expiresAt ? Date.parse(key.expiresAt) - Date.parse(key.createdAt) : null;
+    const next = this.createApiKey(
+      record.ownerId,
+      {
+        name: key.name,
+        scopes: key.scopes,
+        ipAllowlist: key.ipAllowlist,
+        expiresAt: lifetime === null ? null : new Date(now + lifetime).toISOString(),
+      },
+      now
+    );
+    next.record.key.rotatedFromId = key.id;
+
+    const overlapEnds = now + overlapHours * HOUR_MS;
+    key.replacedById = next.record.key.id;
+    if (!key.expiresAt || Date.parse(key.expiresAt) > overlapEnds) {
+      key.expiresAt = new Date(overlapEnds).toISOString();
+    }
+    this.refreshApiKey(key, now);
+    return next;
+  }
+
+  revokeApiKey(record: ApiKeyRecord, now: number = Date.now()): ApiKey {
+    record.key.revokedAt = new Date(now).toISOString();
+    return this.refreshApiKey(record.key, now);
+  }
+
+  /**
+   * A key's requests over the period, in buckets ending with the current one
+   */
+  apiKeyUsage(
+    record: ApiKeyRecord,
+    period: ApiKeyUsagePeriod,
+    now: number = Date.now()
+  ): ApiKeyUsage {
+    const { hours, count } = API_KEY_USAGE_BUCKETS[period];
+    const bucketMs = hours * HOUR_MS;
+    const firstBucket = Math.floor(now / bucketMs) - count + 1;
+    const buckets = Array.from(
+      { length: count },
+      (_, offset): ApiKeyUsageBucket => ({
+        start: new Date((firstBucket + offset) * bucketMs).toISOString(),
+        requests: 0,
+        errors: 0,
+      })
+    );
+    record.hourly.forEach((hour) => {
+      const bucket = buckets[Math.floor(Date.parse(hour.start) / bucketMs) - firstBucket];
+      if (!bucket) return;
+      bucket.requests += hour.requests;
+      bucket.errors += hour.errors;
+    });
+
+    return {
+      keyId: record.key.id,
+      period,
+      buckets,
+      totalRequests: buckets.reduce((sum, bucket) => sum + bucket.requests, 0),
+      totalErrors: buckets.reduce((sum, bucket) => sum + bucket.errors, 0),
+    };
+  }
+}
+
+export const mockDb = new MockDatabase();
+export default MockDatabase;
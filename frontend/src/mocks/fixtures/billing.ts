@@ -0,0 +1,102 @@
+/**
+ * Billing Fixtures
+ *
+ * Plans, the demo account's subscription and its invoice history, served by
+ * the account platform (V12) subscription and billing endpoints. Plans match
+ * the tiers shown on the Plans page.
+ */
+
+import type { Plan, Subscription } from '../../services/subscriptionApi';
+
+const DAY_MS = 24 * 3600 * 1000;
+
+export interface MockInvoice {
+  id: string;
+  date: string;
+  amount: number;
+  status: 'paid' | 'pending' | 'failed';
+  description: string;
+  downloadUrl: string;
+}
+
+export const mockPlans: Plan[] = [
+  {
+    id: 'starter',
+    name: 'Starter',
+    price: 29,
+    billingCycle: 'monthly',
+    features: [
+      'Up to 100K transactions/month',
+      'Basic API access',
+      'Email support',
+      '5GB storage',
+      'Single user',
+    ],
+  },
+  {
+    id: 'professional',
+    name: 'Professional',
+    price: 99,
+    billingCycle: 'monthly',
+    features: [
+      'Up to 1M transactions/month',
+      'Advanced API access',
+      'Priority support',
+      '100GB storage',
+      'Up to 10 users',
+      'Custom integrations',
+      'Advanced analytics',
+    ],
+  },
+  {
+    id: 'enterprise',
+    name: 'Enterprise',
+    price: 499,
+    billingCycle: 'monthly',
+    features: [
+      'Unlimited transactions',
+      'Dedicated API access',
+      '24/7 phone support',
+      'Unlimited storage',
+      'Unlimited users',
+      'Custom integrations',
+      'Advanced analytics',
+      'SLA guarantee',
+      'Dedicated account manager',
+    ],
+  },
+];
+
+/**
+ * Professional plan, twelve days into its current monthly period
+ */
+export const mockSubscription = (now: number): Subscription => {
+  const plan = mockPlans[1] as Plan;
+  return {
+    id: 'sub-123456',
+    planId: plan.id,
+    planName: plan.name,
+    status: 'active',
+    price: plan.price,
+    billingCycle: plan.billingCycle,
+    startDate: new Date(now - 300 * DAY_MS).toISOString().slice(0, 10),
+    renewalDate: new Date(now + 18 * DAY_MS).toISOString().slice(0, 10),
+    features: [...plan.features],
+  };
+};
+
+export const mockInvoices = (now: number): MockInvoice[] =>
+  Array.from({ length: 10 }, (_, index) => {
+    const date = new Date(now - (index * 30 + 12) * DAY_MS);
+    return {
+      id: `INV-${String(10 - index).padStart(5, '0')}`,
+      date: date.toISOString().slice(0, 10),
+      amount: 99,
+      status: 'paid',
+      description: `Professional plan - ${date.toLocaleDateString('en-US', {
+        month: 'long',
+        year: 'numeric',
+      })}`,
+      downloadUrl: '#',
+    };
+  });
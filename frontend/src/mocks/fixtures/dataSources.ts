@@ -0,0 +1,127 @@
+/**
+ * External Data Source Fixtures
+ *
+ * Demo payloads for the Weather, Alpaca, NewsAPI, X/Twitter and crypto feeds.
+ */
+
+import type {
+  AnyDataPayload,
+  WeatherData,
+  AlpacaData,
+  NewsData,
+  TwitterData,
+  CryptoData,
+  DataSourceType,
+} from '../../types/dataSources';
+import { createRandom, type Random } from '../random';
+
+type Sentiment = 'positive' | 'negative' | 'neutral';
+
+const SENTIMENTS: Sentiment[] = ['positive', 'negative', 'neutral'];
+
+const CRYPTO_BASE_PRICES: Record<string, number> = {
+  BTC: 45000,
+  ETH: 3000,
+  BNB: 350,
+  ADA: 1.2,
+  DOT: 25,
+};
+
+export const mockWeather = (random: Random): WeatherData => ({
+  location: random.pick(['New York', 'London', 'Tokyo', 'Paris', 'Sydney']),
+  temperature: random.float(10, 40), // °C
+  humidity: random.float(30, 90), // %
+  pressure: random.float(980, 1030), // hPa
+  windSpeed: random.float(0, 20), // m/s
+  condition: random.pick(['Clear', 'Cloudy', 'Rainy', 'Sunny', 'Partly Cloudy']),
+  timestamp: new Date().toISOString(),
+});
+
+export const mockAlpaca = (random: Random): AlpacaData => {
+  const basePrice = random.float(50, 550);
+  const change = random.float(-10, 10);
+
+  return {
+    symbol: random.pick(['AAPL', 'GOOGL', 'MSFT', 'AMZN', 'TSLA']),
+    price: basePrice,
+    volume: random.int(0, 10000000),
+    timestamp: new Date().toISOString(),
+    change,
+    changePercent: (change / basePrice) * 100,
+  };
+};
+
+export const mockNews = (random: Random): NewsData => ({
+  title: random.pick([
+    'Markets surge on positive economic data',
+    'Tech sector shows strong growth',
+    'Global economy rebounds amid recovery',
+    'Innovation drives market momentum',
+    'Investors optimistic about future prospects',
+  ]),
+  description: 'Latest market news and financial updates from around the world.',
+  source: random.pick(['Reuters', 'Bloomberg', 'CNBC', 'WSJ', 'Financial Times']),
+  url: 'https://example.com/news',
+  publishedAt: new Date().toISOString(),
+  sentiment: random.pick(SENTIMENTS),
+});
+
+export const mockTweet = (random: Random): TwitterData => ({
+  id: random.hex(8),
+  text: random.pick([
+    'Exciting developments in blockchain technology!',
+    'Markets showing strong bullish trends today',
+    'Innovation driving the future of finance',
+    'Crypto adoption continues to grow worldwide',
+    'Tech stocks leading market gains',
+  ]),
+  author: random.pick([
+    '@TechNews',
+    '@MarketWatch',
+    '@CryptoInsider',
+    '@FinanceDaily',
+    '@BlockchainPro',
+  ]),
+  timestamp: new Date().toISOString(),
+  likes: random.int(0, 10000),
+  retweets: random.int(0, 1000),
+  sentiment: random.pick(SENTIMENTS),
+});
+
+export const mockCrypto = (random: Random): CryptoData => {
+  const symbol = random.pick(Object.keys(CRYPTO_BASE_PRICES));
+  const basePrice = CRYPTO_BASE_PRICES[symbol] ?? 45000;
+  const variation = random.float(-0.05, 0.05);
+
+  return {
+    symbol,
+    price: basePrice * (1 + variation),
+    marketCap: basePrice * 1000000000 * (1 + variation),
+    volume24h: basePrice * 50000000,
+    change24h: variation * 100,
+    timestamp: new Date().toISOString(),
+  };
+};
+
+/**
+ * Demo payload for a data source type (unknown types fall back to weather)
+ */
+export const mockDataSourcePayload = (
+  type: DataSourceType,
+  random: Random = createRandom(Date.now())
+): AnyDataPayload => {
+  switch (type) {
+    case 'alpaca':
+    case 'stock':
+      return mockAlpaca(random);
+    case 'newsapi':
+      return mockNews(random);
+    case 'twitter':
+      return mockTweet(random);
+    case 'crypto':
+      return mockCrypto(random);
+    case 'weather':
+    default:
+      return mockWeather(random);
+  }
+};
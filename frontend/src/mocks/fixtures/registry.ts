@@ -0,0 +1,20 @@
+/**
+ * Registry Fixtures
+ *
+ * Merkle tree served by GET /api/v11/registries/merkle-tree, built over the
+ * registered tokens with the same library the portal verifies proofs with.
+ */
+
+import type { MerkleNode } from '../../types/registry';
+import { buildMerkleTree, toMerkleNode, type MerkleLeaf } from '../../utils/merkle';
+
+const REGISTRY_LEAVES: MerkleLeaf[] = [
+  { id: 'leaf-1', value: 'Token-001', data: { assetName: 'Property-NYC', value: 1000000 } },
+  { id: 'leaf-2', value: 'Token-002', data: { assetName: 'Property-LA', value: 800000 } },
+  { id: 'leaf-3', value: 'Token-003', data: { assetName: 'Art-Piece', value: 500000 } },
+  { id: 'leaf-4', value: 'Token-004', data: { assetName: 'Bond-Portfolio', value: 2000000 } },
+  { id: 'leaf-5', value: 'Token-005', data: { assetName: 'Carbon-Credits', value: 250000 } },
+];
+
+export const mockMerkleTree = (): MerkleNode =>
+  toMerkleNode(buildMerkleTree(REGISTRY_LEAVES, 'sha256'), new Date().toISOString());
@@ -0,0 +1,120 @@
+/**
+ * External API Tokenization Fixtures
+ *
+ * Seed sources, tokenized transactions and channel statistics for the
+ * /tokenization/* endpoints.
+ */
+
+import type {
+  APISource,
+  TokenizedTransaction,
+  TokenizationChannelStats,
+} from '../../types/tokenization';
+
+const ago = (now: number, ms: number): string => new Date(now - ms).toISOString();
+
+export const mockApiSources = (now: number = Date.now()): APISource[] => [
+  {
+    id: 'src-1',
+    name: 'Weather API',
+    url: 'https://api.openweathermap.org/data/2.5/weather?q=London',
+    method: 'GET',
+    headers: { 'Content-Type': 'application/json' },
+    channel: 'weather-data',
+    status: 'active',
+    pollInterval: 60,
+    lastFetch: ago(now, 0),
+    totalTokenized: 1250,
+    errorCount: 5,
+  },
+  {
+    id: 'src-2',
+    name: 'Stock Market Feed',
+    url: 'https://api.example.com/stocks/AAPL',
+    method: 'GET',
+    headers: { Authorization: 'Bearer xxx' },
+    channel: 'stock-prices',
+    status: 'active',
+    pollInterval: 30,
+    lastFetch: ago(now, 25000),
+    totalTokenized: 3420,
+    errorCount: 0,
+  },
+  {
+    id: 'src-3',
+    name: 'IoT Sensor Data',
+    url: 'https://iot.example.com/sensors/temp',
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'API-Key': 'xxx' },
+    channel: 'iot-sensors',
+    status: 'paused',
+    pollInterval: 10,
+    lastFetch: ago(now, 300000),
+    totalTokenized: 15240,
+    errorCount: 120,
+  },
+];
+
+export const mockTokenizedTransactions = (now: number = Date.now()): TokenizedTransaction[] => [
+  {
+    id: 'tx-1',
+    sourceId: 'src-1',
+    sourceName: 'Weather API',
+    channel: 'weather-data',
+    timestamp: ago(now, 0),
+    dataHash: '0x3f2a4b8c9d1e5f6a7b8c9d0e1f2a3b4c',
+    size: 1024,
+    status: 'stored',
+    leveldbPath: '/data/slim-node-1/weather-data/block-12345',
+  },
+  {
+    id: 'tx-2',
+    sourceId: 'src-2',
+    sourceName: 'Stock Market Feed',
+    channel: 'stock-prices',
+    timestamp: ago(now, 15000),
+    dataHash: '0x7a8b9c1d2e3f4a5b6c7d8e9f0a1b2c3d',
+    size: 512,
+    status: 'stored',
+    leveldbPath: '/data/slim-node-2/stock-prices/block-12346',
+  },
+  {
+    id: 'tx-3',
+    sourceId: 'src-1',
+    sourceName: 'Weather API',
+    channel: 'weather-data',
+    timestamp: ago(now, 45000),
+    dataHash: '0x9c1d2e3f4a5b6c7d8e9f0a1b2c3d4e5f',
+    size: 1120,
+    status: 'pending',
+  },
+];
+
+export const mockTokenizationChannelStats = (
+  now: number = Date.now()
+): TokenizationChannelStats[] => [
+  {
+    channelId: 'weather-data',
+    name: 'Weather Data Channel',
+    transactionCount: 1250,
+    totalSize: 1280000,
+    lastUpdated: ago(now, 0),
+    status: 'active',
+  },
+  {
+    channelId: 'stock-prices',
+    name: 'Stock Prices Channel',
+    transactionCount: 3420,
+    totalSize: 1751040,
+    lastUpdated: ago(now, 25000),
+    status: 'active',
+  },
+  {
+    channelId: 'iot-sensors',
+    name: 'IoT Sensors Channel',
+    transactionCount: 15240,
+    totalSize: 15605760,
+    lastUpdated: ago(now, 300000),
+    status: 'inactive',
+  },
+];
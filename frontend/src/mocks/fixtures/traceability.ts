@@ -0,0 +1,32 @@
+/**
+ * Traceability Fixtures
+ *
+ * Ownership transfer records served by GET /api/v11/assets/traceability.
+ */
+
+import type { TraceabilityRecord } from '../../types/comprehensive';
+
+export const mockTraceabilityRecords: TraceabilityRecord[] = [
+  {
+    id: 'record_001',
+    assetId: 'asset_001',
+    assetName: 'Property at 123 Main St',
+    previousOwner: 'John Smith',
+    currentOwner: 'Jane Doe',
+    transferDate: '2025-01-15T00:00:00.000Z',
+    reason: 'Sale Transaction',
+    proofHash: '0x7a3c9e2f1d4b8a6e5c2f9d1b3a5c7e9f',
+    verified: true,
+  },
+  {
+    id: 'record_002',
+    assetId: 'asset_002',
+    assetName: 'Commodity Shipment',
+    previousOwner: 'Supplier Corp',
+    currentOwner: 'Distribution Inc',
+    transferDate: '2025-01-20T00:00:00.000Z',
+    reason: 'Distribution Transfer',
+    proofHash: '0x1a2b3c4d5e6f7a8b9c0d1e2f3a4b5c6d',
+    verified: true,
+  },
+];
@@ -0,0 +1,63 @@
+/**
+ * User & Role Fixtures
+ *
+ * Seed accounts for User Management and Role Management. The admin account
+ * matches the demo login accepted by the mock backend.
+ */
+
+import { DEFAULT_ROLES, type Role, type User } from '../../types/user';
+
+export const mockUsers: User[] = [
+  {
+    id: '1',
+    username: 'admin',
+    email: 'admin@aurigraph.io',
+    role: 'Admin',
+    status: 'active',
+    createdAt: '2025-10-01',
+    lastLogin: '2025-10-16 09:30:00',
+    department: 'Engineering',
+  },
+  {
+    id: '2',
+    username: 'john.doe',
+    email: 'john.doe@aurigraph.io',
+    role: 'User',
+    status: 'active',
+    createdAt: '2025-10-05',
+    lastLogin: '2025-10-15 14:22:00',
+    department: 'Operations',
+  },
+  {
+    id: '3',
+    username: 'jane.smith',
+    email: 'jane.smith@aurigraph.io',
+    role: 'DevOps',
+    status: 'active',
+    createdAt: '2025-10-08',
+    lastLogin: '2025-10-16 08:15:00',
+    department: 'DevOps',
+  },
+  {
+    id: '4',
+    username: 'bob.wilson',
+    email: 'bob.wilson@aurigraph.io',
+    role: 'User',
+    status: 'active',
+    createdAt: '2025-10-10',
+    lastLogin: '2025-10-14 16:45:00',
+    department: 'Finance',
+  },
+  {
+    id: '5',
+    username: 'alice.johnson',
+    email: 'alice.johnson@aurigraph.io',
+    role: 'User',
+    status: 'inactive',
+    createdAt: '2025-10-03',
+    lastLogin: '2025-10-10 11:20:00',
+    department: 'Legal',
+  },
+];
+
+export const mockRoles: Role[] = DEFAULT_ROLES;
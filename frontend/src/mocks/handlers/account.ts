@@ -0,0 +1,150 @@
+/**
+ * Account Platform Handlers
+ *
+ * Subscription, plan and billing endpoints of the account platform (V12),
+ * used by the Account pages through subscriptionApi. Plan changes are
+ * prorated by the days left in the current billing period: the unused part
+ * of the current plan is credited against the new plan's price for the same
+ * days, and any credit left after a downgrade goes to the next invoice.
+ */
+
+import { http, HttpResponse } from 'msw';
+import type {
+  Plan,
+  PlanChangeDirection,
+  ProrationPreview,
+  Subscription,
+} from '../../services/subscriptionApi';
+import { mockDb as db } from '../db';
+import { V12, errorResponse, numberParam, readJson, searchParams } from './utils';
+
+const DAY_MS = 24 * 3600 * 1000;
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+const planChange = (plan: Plan, now: number = Date.now()): ProrationPreview => {
+  const { subscription } = db;
+  const periodDays = subscription.billingCycle === 'yearly' ? 365 : 30;
+  const daysRemaining = Math.min(
+    periodDays,
+    Math.max(0, Math.ceil((Date.parse(subscription.renewalDate) - now) / DAY_MS))
+  );
+  const unusedCredit = roundCents((subscription.price * daysRemaining) / periodDays);
+  const proratedCharge = roundCents((plan.price * daysRemaining) / periodDays);
+  const creditBalance = roundCents(Math.max(0, unusedCredit - proratedCharge));
+
+  return {
+    planId: plan.id,
+    planName: plan.name,
+    direction: plan.price > subscription.price ? 'upgrade' : 'downgrade',
+    currentPrice: subscription.price,
+    newPrice: plan.price,
+    daysRemaining,
+    periodDays,
+    unusedCredit,
+    proratedCharge,
+    amountDueToday: roundCents(Math.max(0, proratedCharge - unusedCredit)),
+    creditBalance,
+    nextInvoiceAmount: roundCents(Math.max(0, plan.price - creditBalance)),
+    renewalDate: subscription.renewalDate,
+  };
+};
+
+/**
+ * Switch plans in the given direction, billing any amount due today
+ */
+const changePlan = async (request: Request, direction: PlanChangeDirection) => {
+  const { planId } = await readJson<{ planId: string }>(request);
+  const plan = db.plans.find((candidate) => candidate.id === planId);
+  if (!plan) return errorResponse(404, 'PLAN_NOT_FOUND', `Plan ${planId} not found`);
+  if (db.subscription.status !== 'active') {
+    return errorResponse(
+      409,
+      'SUBSCRIPTION_NOT_ACTIVE',
+      'Only active subscriptions can change plan'
+    );
+  }
+  if (plan.id === db.subscription.planId) {
+    return errorResponse(400, 'INVALID_PLAN_CHANGE', `Already on the ${plan.name} plan`);
+  }
+
+  const preview = planChange(plan);
+  if (preview.direction !== direction) {
+    return errorResponse(
+      400,
+      'INVALID_PLAN_CHANGE',
+      `${plan.name} is a ${preview.direction}, not a ${direction}`
+    );
+  }
+
+  if (preview.amountDueToday > 0) {
+    db.invoices.unshift({
+      id: `INV-${String(db.invoices.length + 1).padStart(5, '0')}`,
+      date: new Date().toISOString().slice(0, 10),
+      amount: preview.amountDueToday,
+      status: 'paid',
+      description: `Prorated upgrade to ${plan.name} (${preview.daysRemaining} days)`,
+      downloadUrl: '#',
+    });
+  }
+
+  db.subscription = {
+    ...db.subscription,
+    planId: plan.id,
+    planName: plan.name,
+    price: plan.price,
+    features: [...plan.features],
+  };
+  return HttpResponse.json<Subscription>(db.subscription);
+};
+
+export const accountHandlers = [
+  // ===== Plans =====
+
+  http.get(`${V12}/plans`, () => HttpResponse.json<Plan[]>(db.plans)),
+
+  // ===== Subscription =====
+
+  http.get(`${V12}/subscription`, () => HttpResponse.json<Subscription>(db.subscription)),
+
+  http.get(`${V12}/subscription/preview`, ({ request }) => {
+    const planId = searchParams(request).get('planId');
+    const plan = db.plans.find((candidate) => candidate.id === planId);
+    if (!plan) return errorResponse(404, 'PLAN_NOT_FOUND', `Plan ${planId} not found`);
+    return HttpResponse.json<ProrationPreview>(planChange(plan));
+  }),
+
+  http.post(`${V12}/subscription/upgrade`, ({ request }) => changePlan(request, 'upgrade')),
+
+  http.post(`${V12}/subscription/downgrade`, ({ request }) => changePlan(request, 'downgrade')),
+
+  http.post(`${V12}/subscription/pause`, () => {
+    if (db.subscription.status !== 'active') {
+      return errorResponse(409, 'SUBSCRIPTION_NOT_ACTIVE', 'Only active subscriptions can pause');
+    }
+    db.subscription = { ...db.subscription, status: 'paused' };
+    return HttpResponse.json<Subscription>(db.subscription);
+  }),
+
+  http.post(`${V12}/subscription/resume`, () => {
+    if (db.subscription.status !== 'paused') {
+      return errorResponse(409, 'SUBSCRIPTION_NOT_PAUSED', 'Subscription is not paused');
+    }
+    db.subscription = { ...db.subscription, status: 'active' };
+    return HttpResponse.json<Subscription>(db.subscription);
+  }),
+
+  http.post(`${V12}/subscription/cancel`, () => {
+    if (db.subscription.status === 'canceled') {
+      return errorResponse(409, 'SUBSCRIPTION_CANCELED', 'Subscription is already canceled');
+    }
+    db.subscription = { ...db.subscription, status: 'canceled' };
+    return HttpResponse.json<Subscription>(db.subscription);
+  }),
+
+  // ===== Billing =====
+
+  http.get(`${V12}/billing/history`, ({ request }) =>
+    HttpResponse.json(db.invoices.slice(0, numberParam(request, 'limit', 50)))
+  ),
+];
@@ -0,0 +1,353 @@
+/**
+ * Multi-Chain Adapter Handlers
+ *
+ * /blockchain/{erc20,utxo,cosmos,solana,substrate,events} endpoints used by
+ * the components in components/blockchain. Responses are generated from the
+ * seeded random source, so the same address always yields the same account.
+ */
+
+import { http, HttpResponse } from 'msw';
+import { mockDb as db } from '../db';
+import { createRandom } from '../random';
+import { V11, readJson, searchParams } from './utils';
+
+const CHAINS = `${V11}/blockchain`;
+
+const SS58_PREFIXES: Record<string, { chainName: string; prefix: number }> = {
+  polkadot: { chainName: 'Polkadot', prefix: 0 },
+  kusama: { chainName: 'Kusama', prefix: 2 },
+  acala: { chainName: 'Acala', prefix: 10 },
+  moonbeam: { chainName: 'Moonbeam', prefix: 1284 },
+};
+
+const COSMOS_DENOMS: Record<string, string> = {
+  cosmoshub: 'uatom',
+  osmosis: 'uosmo',
+  akash: 'uakt',
+  juno: 'ujuno',
+  stargaze: 'ustars',
+};
+
+const ERC20_TOKENS = [
+  ['USDC', 'USD Coin', 6, '32000000000000000'],
+  ['USDT', 'Tether USD', 6, '83000000000000000'],
+  ['WETH', 'Wrapped Ether', 18, '3100000000000000000000000'],
+  ['LINK', 'ChainLink Token', 18, '1000000000000000000000000000'],
+  ['AUR', 'Aurigraph', 18, '1000000000000000000000000000'],
+] as const;
+
+/** Deterministic per-input random source, so repeated lookups agree */
+const randomFor = (key: string) => {
+  let seed = db.seedValue;
+  for (const char of key) {
+    seed = (Math.imul(seed, 31) + char.charCodeAt(0)) | 0;
+  }
+  return createRandom(seed);
+};
+
+const erc20Tokens = (chainId: string) =>
+  ERC20_TOKENS.map(([symbol, name, decimals, totalSupply]) => ({
+    address: `0x${randomFor(`${chainId}:${symbol}`).hex(40)}`,
+    symbol,
+    name,
+    decimals,
+    totalSupply,
+    chainId,
+  }));
+
+const isUtxoAddress = (address: string): string | undefined => {
+  if (/^(bc1|tb1|ltc1)[a-z0-9]{20,}$/.test(address)) return 'P2WPKH';
+  if (/^[13LM][a-km-zA-HJ-NP-Z1-9]{25,34}$/.test(address)) {
+    return address.startsWith('3') || address.startsWith('M') ? 'P2SH' : 'P2PKH';
+  }
+  if (/^D[a-km-zA-HJ-NP-Z1-9]{25,34}$/.test(address)) return 'P2PKH';
+  return undefined;
+};
+
+export const chainHandlers = [
+  // ===== ERC-20 =====
+
+  http.get(`${CHAINS}/erc20/tokens`, ({ request }) =>
+    HttpResponse.json(erc20Tokens(searchParams(request).get('chain') ?? 'ethereum'))
+  ),
+
+  http.post(`${CHAINS}/erc20/balance`, async ({ request }) => {
+    const {
+      contractAddress = '',
+      walletAddress = '',
+      chainId = 'ethereum',
+    } = await readJson<{
+      contractAddress: string;
+      walletAddress: string;
+      chainId: string;
+    }>(request);
+    const token = erc20Tokens(chainId).find(
+      (candidate) => candidate.address.toLowerCase() === contractAddress.toLowerCase()
+    );
+    const random = randomFor(`${contractAddress}:${walletAddress}`);
+    return HttpResponse.json({
+      tokenAddress: contractAddress,
+      walletAddress,
+      balance: String(random.int(0, 500_000)),
+      decimals: token?.decimals ?? 18,
+      symbol: token?.symbol ?? 'TOKEN',
+    });
+  }),
+
+  http.get(`${CHAINS}/erc20/:address`, ({ params, request }) => {
+    const chainId = searchParams(request).get('chain') ?? 'ethereum';
+    const address = String(params.address);
+    const token = erc20Tokens(chainId).find(
+      (candidate) => candidate.address.toLowerCase() === address.toLowerCase()
+    );
+    return HttpResponse.json(
+      token ?? {
+        address,
+        symbol: 'TOKEN',
+        name: 'Unknown Token',
+        decimals: 18,
+        totalSupply: '0',
+        chainId,
+      }
+    );
+  }),
+
+  // ===== Bitcoin-style UTXO =====
+
+  http.get(`${CHAINS}/utxo/address/:address`, ({ params }) => {
+    const address = String(params.address);
+    const random = randomFor(address);
+    return HttpResponse.json(
+      Array.from({ length: random.int(1, 6) }, () => {
+        const confirmations = random.int(0, 400);
+        return {
+          txid: random.hex(64),
+          vout: random.int(0, 3),
+          amount: Number(random.float(0.0001, 1.5).toFixed(8)),
+          address,
+          confirmations,
+          blockTime: Math.floor(Date.now() / 1000) - confirmations * 600,
+          spendable: confirmations >= 1,
+        };
+      })
+    );
+  }),
+
+  http.post(`${CHAINS}/utxo/estimate-fee`, async ({ request }) => {
+    const {
+      inputCount = 1,
+      outputCount = 2,
+      isSegWit = true,
+    } = await readJson<{ inputCount: number; outputCount: number; isSegWit: boolean }>(request);
+    const txSize = Math.ceil(10.5 + inputCount * (isSegWit ? 68 : 148) + outputCount * 31);
+    return HttpResponse.json(
+      (
+        [
+          [2, '~60 minutes'],
+          [8, '~30 minutes'],
+          [20, '~10 minutes'],
+        ] as const
+      ).map(([feeRate, estimatedTime]) => ({
+        txSize,
+        feeRate,
+        totalFee: txSize * feeRate,
+        estimatedTime,
+      }))
+    );
+  }),
+
+  http.get(`${CHAINS}/utxo/validate-address/:address`, ({ params }) => {
+    const addressType = isUtxoAddress(String(params.address));
+    return HttpResponse.json({ valid: addressType !== undefined, addressType });
+  }),
+
+  http.post(`${CHAINS}/utxo/calculate-change`, async ({ request }) => {
+    const {
+      inputTotal = 0,
+      outputs = [],
+      fee = 0,
+    } = await readJson<{ inputTotal: number; outputs: number[]; fee: number }>(request);
+    const change = inputTotal - outputs.reduce((sum, output) => sum + output, 0) - fee;
+    return HttpResponse.json({ change: Math.max(0, change), sufficient: change >= 0 });
+  }),
+
+  // ===== Cosmos =====
+
+  http.get(`${CHAINS}/cosmos/account/:address`, ({ params, request }) => {
+    const address = String(params.address);
+    const chain = searchParams(request).get('chain') ?? 'cosmoshub';
+    const random = randomFor(`${chain}:${address}`);
+    return HttpResponse.json({
+      address,
+      sequence: random.int(0, 400),
+      accountNumber: String(random.int(10_000, 999_999)),
+      balances: [
+        { denom: COSMOS_DENOMS[chain] ?? 'uatom', amount: String(random.int(1, 50_000) * 1e6) },
+      ],
+    });
+  }),
+
+  http.post(`${CHAINS}/cosmos/validate-tx`, async ({ request }) => {
+    const body = await readJson<{
+      fromAddress: string;
+      toAddress: string;
+      amount: string;
+      denom: string;
+      chain: string;
+    }>(request);
+    const valid = Boolean(body.fromAddress && body.toAddress && Number(body.amount) > 0);
+    return HttpResponse.json({
+      valid,
+      txJson: valid
+        ? {
+            body: {
+              messages: [
+                {
+                  '@type': '/cosmos.bank.v1beta1.MsgSend',
+                  from_address: body.fromAddress,
+                  to_address: body.toAddress,
+                  amount: [{ denom: body.denom, amount: body.amount }],
+                },
+              ],
+            },
+            chain: body.chain,
+          }
+        : undefined,
+    });
+  }),
+
+  http.post(`${CHAINS}/cosmos/submit-tx`, () =>
+    HttpResponse.json({
+      txHash: db.random.hex(64).toUpperCase(),
+      height: db.random.int(18_000_000, 19_000_000),
+      confirmed: true,
+      code: 0,
+      logs: '[]',
+      gasUsed: String(db.random.int(60_000, 90_000)),
+      gasWanted: '200000',
+    })
+  ),
+
+  http.get(`${CHAINS}/cosmos/tx/:txHash`, ({ params }) =>
+    HttpResponse.json({
+      txHash: params.txHash,
+      height: db.random.int(18_000_000, 19_000_000),
+      confirmed: true,
+      code: 0,
+      logs: '[]',
+      gasUsed: '74210',
+      gasWanted: '200000',
+    })
+  ),
+
+  // ===== Solana =====
+
+  http.get(`${CHAINS}/solana/account/:publicKey`, ({ params }) => {
+    const address = String(params.publicKey);
+    const random = randomFor(address);
+    return HttpResponse.json({
+      address,
+      lamports: random.int(1, 500) * 1_000_000_000,
+      executable: false,
+      owner: '11111111111111111111111111111111',
+      rentEpoch: random.int(300, 600),
+    });
+  }),
+
+  http.post(`${CHAINS}/solana/send-transaction`, () =>
+    HttpResponse.json({
+      signature: db.random.hex(88),
+      slot: db.random.int(250_000_000, 260_000_000),
+      confirmed: true,
+    })
+  ),
+
+  // ===== Substrate =====
+
+  http.get(`${CHAINS}/substrate/account/:address`, ({ params, request }) => {
+    const address = String(params.address);
+    const chainId = searchParams(request).get('chain') ?? 'polkadot';
+    const random = randomFor(`${chainId}:${address}`);
+    return HttpResponse.json({
+      address,
+      nonce: random.int(0, 200),
+      balance: {
+        free: String(random.int(1, 10_000) * 1e10),
+        reserved: String(random.int(0, 100) * 1e10),
+        frozen: '0',
+      },
+      chainId,
+    });
+  }),
+
+  http.post(`${CHAINS}/substrate/submit-tx`, async ({ request }) => {
+    const { palletName = 'balances', functionName = 'transfer' } = await readJson<{
+      palletName: string;
+      functionName: string;
+    }>(request);
+    return HttpResponse.json({
+      hash: `0x${db.random.hex(64)}`,
+      blockNumber: db.random.int(20_000_000, 21_000_000),
+      timestamp: Date.now(),
+      status: 'InBlock',
+      palletName,
+      functionName,
+      dispatchClass: 'Normal',
+      events: [`${palletName}.Transfer`, 'system.ExtrinsicSuccess'],
+    });
+  }),
+
+  http.get(`${CHAINS}/substrate/runtime-metadata`, () => {
+    const pallets = ['System', 'Balances', 'Staking', 'Session', 'Democracy', 'XcmPallet'].map(
+      (name, index) => ({ name, index, functionCount: 4 + ((index * 7) % 11) })
+    );
+    return HttpResponse.json({ version: 14, palletCount: pallets.length, pallets });
+  }),
+
+  http.get(`${CHAINS}/substrate/validate-address/:address`, ({ params, request }) => {
+    const chain = searchParams(request).get('chain') ?? 'polkadot';
+    const network = SS58_PREFIXES[chain] ?? SS58_PREFIXES.polkadot;
+    const valid = /^[1-9A-HJ-NP-Za-km-z]{46,48}$/.test(String(params.address));
+    return HttpResponse.json({ valid, ...network });
+  }),
+
+  // ===== Events =====
+
+  http.post(`${CHAINS}/events/query`, async ({ request }) => {
+    const {
+      contractAddress,
+      eventSignatures = [],
+      fromBlock = db.latestBlock.height - 100,
+      toBlock = db.latestBlock.height,
+    } = await readJson<{
+      contractAddress: string;
+      eventSignatures: string[];
+      fromBlock: number;
+      toBlock: number;
+    }>(request);
+    const signatures = eventSignatures.length
+      ? eventSignatures
+      : ['Transfer(address,address,uint256)'];
+    const random = randomFor(`${contractAddress}:${fromBlock}:${toBlock}`);
+
+    return HttpResponse.json(
+      Array.from({ length: random.int(3, 12) }, (_, logIndex) => {
+        const eventSignature = random.pick(signatures);
+        const from = `0x${random.hex(40)}`;
+        const to = `0x${random.hex(40)}`;
+        return {
+          transactionHash: `0x${random.hex(64)}`,
+          blockNumber: random.int(fromBlock, Math.max(fromBlock, toBlock)),
+          blockHash: `0x${random.hex(64)}`,
+          logIndex,
+          contractAddress: contractAddress || `0x${random.hex(40)}`,
+          eventSignature,
+          eventData: [String(random.int(1, 1_000_000))],
+          indexedData: { from, to },
+          timestamp: Date.now() - random.int(0, 3_600_000),
+          eventType: eventSignature.split('(')[0] ?? eventSignature,
+        };
+      })
+    );
+  }),
+];
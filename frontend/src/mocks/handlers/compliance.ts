@@ -0,0 +1,547 @@
+/**
+ * Compliance Handlers
+ *
+ * ERC-3643 identity, transfer and token compliance, reporting, dashboard,
+ * alert workflow and contract bridge endpoints behind ComplianceApiService. Transfer checks run
+ * against the identities and restricted countries held in the mock database.
+ */
+
+import { http, HttpResponse } from 'msw';
+import {
+  ALERT_STATUSES,
+  ALERT_TRANSITIONS,
+  type AlertStatus,
+  type ComplianceMetrics,
+  type ComplianceTransferRecord,
+  type ComplianceReport,
+  type ComplianceStats,
+  type ComplianceSystemHealth,
+  type IdentityRecord,
+  type KycAmlReport,
+  type TokenCompliance,
+  type TransferComplianceRequest,
+  type TransferReport,
+} from '../../services/complianceApi';
+import { mockDb as db, TRANSFER_LIMIT } from '../db';
+import { V11, errorResponse, notFound, numberParam, readJson, searchParams } from './utils';
+import { sessionUser } from './v11';
+
+const COMPLIANCE = `${V11}/compliance`;
+
+const identityList = () => [...db.identities.values()];
+
+const unauthorized = () => errorResponse(401, 'UNAUTHORIZED', 'Sign in to work compliance alerts');
+
+const findAlert = (alertId: string) => db.complianceAlerts.find((alert) => alert.id === alertId);
+
+const transfersFor = (tokenId: string) =>
+  db.complianceTransfers.filter((transfer) => transfer.tokenId === tokenId);
+
+/** Transfers of the token within the report's optional date range */
+const reportTransfers = (tokenId: string, request?: Request) => {
+  const params = request ? searchParams(request) : undefined;
+  const startDate = params?.get('startDate');
+  const endDate = params?.get('endDate');
+  return transfersFor(tokenId).filter(
+    (transfer) =>
+      (!startDate || transfer.timestamp >= startDate) && (!endDate || transfer.timestamp <= endDate)
+  );
+};
+
+const summarizeTransfers = (transfers: ComplianceTransferRecord[]) => {
+  const approved = transfers.filter((transfer) => transfer.result.allowed).length;
+  return {
+    total: transfers.length,
+    approved,
+    rejected: transfers.length - approved,
+    approvalRate: transfers.length ? (approved / transfers.length) * 100 : 100,
+  };
+};
+
+const transferStats = (tokenId?: string) =>
+  summarizeTransfers(tokenId ? transfersFor(tokenId) : db.complianceTransfers);
+
+const identityStats = () => {
+  const identities = identityList();
+  return {
+    total: identities.length,
+    active: identities.filter((identity) => identity.status === 'active').length,
+    revoked: identities.filter((identity) => identity.status === 'revoked').length,
+    verified: identities.filter((identity) => identity.verified).length,
+  };
+};
+
+const dashboardMetrics = (): ComplianceMetrics => {
+  const identities = identityStats();
+  const transfers = transferStats();
+  const tokens = [...db.tokenCompliance.values()];
+  return {
+    totalIdentities: identities.total,
+    activeIdentities: identities.active,
+    revokedIdentities: identities.revoked,
+    totalTransfers: transfers.total,
+    approvedTransfers: transfers.approved,
+    rejectedTransfers: transfers.rejected,
+    approvalRate: transfers.approvalRate,
+    complianceRate: tokens.length
+      ? (tokens.filter((token) => token.complianceStatus === 'compliant').length / tokens.length) *
+        100
+      : 100,
+  };
+};
+
+const tokenReport = (tokenId: string, request?: Request): ComplianceReport => {
+  const compliance = db.tokenCompliance.get(tokenId);
+  const inRange = reportTransfers(tokenId, request);
+  const transfers = summarizeTransfers(inRange);
+  const identities = identityStats();
+  const flagged = inRange.filter((transfer) => !transfer.result.allowed);
+  return {
+    tokenId,
+    reportType: 'TOKEN_COMPLIANCE',
+    reportDate: new Date().toISOString(),
+    jurisdiction: compliance?.jurisdiction ?? 'US',
+    complianceStatus: compliance?.complianceStatus ?? 'pending',
+    transferStats: { ...transfers, approvalRate: `${transfers.approvalRate.toFixed(1)}%` },
+    identityStats: {
+      total: identities.total,
+      active: identities.active,
+      revoked: identities.revoked,
+    },
+    riskAssessment: {
+      riskScore: Math.min(100, flagged.length * 15 + (compliance?.issues.length ?? 0) * 10),
+      flaggedTransactions: flagged.length,
+      issues: compliance?.issues ?? [],
+    },
+  };
+};
+
+export const complianceHandlers = [
+  // ===== ERC-3643 Identities =====
+
+  http.post(`${COMPLIANCE}/erc3643/identities/register`, async ({ request }) => {
+    const body = await readJson<{ address: string; kycLevel: string; country: string }>(request);
+    if (!body.address) return errorResponse(400, 'INVALID_IDENTITY', 'address is required');
+    const identity: IdentityRecord = {
+      address: body.address,
+      kycLevel: body.kycLevel ?? 'BASIC',
+      country: (body.country ?? 'US').toUpperCase(),
+      verified: true,
+      registeredAt: new Date().toISOString(),
+      expiryDate: new Date(Date.now() + 365 * 86_400_000).toISOString(),
+      status: 'active',
+    };
+    db.identities.set(identity.address, identity);
+    return HttpResponse.json({ success: true, identity });
+  }),
+
+  http.get(`${COMPLIANCE}/erc3643/identities`, () => HttpResponse.json(identityList())),
+
+  http.get(`${COMPLIANCE}/erc3643/identities/stats`, () => HttpResponse.json(identityStats())),
+
+  http.get(`${COMPLIANCE}/erc3643/identities/:address/valid`, ({ params }) => {
+    const identity = db.identities.get(String(params.address));
+    return HttpResponse.json({
+      valid: Boolean(identity?.verified && identity.status === 'active'),
+    });
+  }),
+
+  http.post(`${COMPLIANCE}/erc3643/identities/:address/revoke`, async ({ params, request }) => {
+    const identity = db.identities.get(String(params.address));
+    if (!identity) return notFound('Identity');
+    const { reason = 'Revoked by compliance officer' } = await readJson<{ reason: string }>(
+      request
+    );
+    identity.status = 'revoked';
+    return HttpResponse.json({ success: true, address: identity.address, reason });
+  }),
+
+  http.get(`${COMPLIANCE}/erc3643/identities/:address`, ({ params }) => {
+    const identity = db.identities.get(String(params.address));
+    return identity ? HttpResponse.json(identity) : notFound('Identity');
+  }),
+
+  // ===== ERC-3643 Transfers =====
+
+  http.post(`${COMPLIANCE}/erc3643/transfers/check`, async ({ request }) => {
+    const body = await readJson<TransferComplianceRequest>(request);
+    const transfer = {
+      tokenId: body.tokenId ?? '',
+      from: body.from ?? '',
+      to: body.to ?? '',
+      amount: Number(body.amount ?? 0),
+    };
+    return HttpResponse.json(db.recordTransfer(transfer, false).result);
+  }),
+
+  http.post(`${COMPLIANCE}/erc3643/transfers/execute`, async ({ request }) => {
+    const body = await readJson<TransferComplianceRequest>(request);
+    const transfer = {
+      tokenId: body.tokenId ?? '',
+      from: body.from ?? '',
+      to: body.to ?? '',
+      amount: Number(body.amount ?? 0),
+    };
+    if (!db.checkTransfer(transfer).allowed) {
+      const record = db.recordTransfer(transfer, false);
+      return HttpResponse.json(
+        { success: false, transferId: record.id, ...record.result },
+        { status: 422 }
+      );
+    }
+    const record = db.recordTransfer(transfer, true);
+    return HttpResponse.json({
+      success: true,
+      transferId: record.id,
+      transactionHash: db.submitTransaction(transfer.from, transfer.to, transfer.amount, 0).hash,
+    });
+  }),
+
+  http.post(`${COMPLIANCE}/erc3643/transfers/simulate`, async ({ request }) => {
+    const { transfers } = await readJson<{ transfers: Partial<TransferComplianceRequest>[] }>(
+      request
+    );
+    if (!Array.isArray(transfers)) {
+      return errorResponse(400, 'INVALID_TRANSFERS', 'transfers must be an array');
+    }
+    return HttpResponse.json(
+      transfers.map((transfer) =>
+        db.checkTransfer({
+          tokenId: transfer.tokenId ?? '',
+          from: transfer.from ?? '',
+          to: transfer.to ?? '',
+          amount: Number(transfer.amount ?? 0),
+        })
+      )
+    );
+  }),
+
+  http.get(`${COMPLIANCE}/erc3643/transfers/stats`, () => HttpResponse.json(transferStats())),
+
+  http.get(`${COMPLIANCE}/erc3643/transfers/history/:tokenId`, ({ params }) =>
+    HttpResponse.json(transfersFor(String(params.tokenId)))
+  ),
+
+  // ===== ERC-3643 Token Compliance =====
+
+  http.get(`${COMPLIANCE}/erc3643/tokens`, () =>
+    HttpResponse.json([...db.tokenCompliance.values()])
+  ),
+
+  http.post(
+    `${COMPLIANCE}/erc3643/tokens/:tokenId/compliance/register`,
+    async ({ params, request }) => {
+      const tokenId = String(params.tokenId);
+      const { jurisdiction = 'US', rules = '' } = await readJson<{
+        jurisdiction: string;
+        rules: string;
+      }>(request);
+      const compliance: TokenCompliance = {
+        tokenId,
+        jurisdiction,
+        complianceStatus: 'compliant',
+        lastCheckDate: new Date().toISOString(),
+        complianceRate: 100,
+        issues: [],
+      };
+      db.tokenCompliance.set(tokenId, compliance);
+      if (!db.tokenRules.has(tokenId)) {
+        db.tokenRules.set(tokenId, {
+          tokenId,
+          minKycLevel: 'BASIC',
+          maxHolding: TRANSFER_LIMIT,
+          transferLimit: TRANSFER_LIMIT,
+          certifications: [],
+        });
+      }
+      return HttpResponse.json({
+        success: true,
+        tokenId,
+        jurisdiction,
+        rules: rules.split(',').filter(Boolean),
+      });
+    }
+  ),
+
+  http.get(`${COMPLIANCE}/erc3643/tokens/:tokenId/rules`, ({ params }) => {
+    const rules = db.tokenRules.get(String(params.tokenId));
+    return rules ? HttpResponse.json(rules) : notFound('Token compliance');
+  }),
+
+  http.post(`${COMPLIANCE}/erc3643/tokens/:tokenId/compliance/check`, ({ params }) => {
+    const compliance = db.tokenCompliance.get(String(params.tokenId));
+    if (!compliance) return notFound('Token compliance');
+    compliance.lastCheckDate = new Date().toISOString();
+    return HttpResponse.json(compliance);
+  }),
+
+  http.post(
+    `${COMPLIANCE}/erc3643/tokens/:tokenId/certifications/add`,
+    async ({ params, request }) => {
+      const {
+        name = '',
+        issuer = '',
+        expiryDate = '',
+      } = await readJson<{
+        name: string;
+        issuer: string;
+        expiryDate: string;
+      }>(request);
+      const certification = { id: db.id('cert'), name, issuer, expiryDate };
+      db.tokenRules.get(String(params.tokenId))?.certifications.push(certification);
+      return HttpResponse.json({ success: true, tokenId: params.tokenId, certification });
+    }
+  ),
+
+  http.get(`${COMPLIANCE}/erc3643/compliance/stats`, () => {
+    const tokens = [...db.tokenCompliance.values()];
+    return HttpResponse.json<ComplianceStats>({
+      totalTokens: tokens.length,
+      compliantTokens: tokens.filter((token) => token.complianceStatus === 'compliant').length,
+      pendingTokens: tokens.filter((token) => token.complianceStatus === 'pending').length,
+      restrictedCountries: [...db.restrictedCountries],
+    });
+  }),
+
+  http.post(`${COMPLIANCE}/erc3643/countries/restrict/:countryCode`, ({ params }) => {
+    const countryCode = String(params.countryCode).toUpperCase();
+    db.restrictedCountries.add(countryCode);
+    return HttpResponse.json({ success: true, countryCode, restricted: true });
+  }),
+
+  http.post(`${COMPLIANCE}/erc3643/countries/unrestrict/:countryCode`, ({ params }) => {
+    const countryCode = String(params.countryCode).toUpperCase();
+    db.restrictedCountries.delete(countryCode);
+    return HttpResponse.json({ success: true, countryCode, restricted: false });
+  }),
+
+  http.get(`${COMPLIANCE}/erc3643/health`, () =>
+    HttpResponse.json({ status: 'UP', service: 'erc3643-compliance' })
+  ),
+
+  // ===== Reports =====
+
+  http.get(`${COMPLIANCE}/reports/token/:tokenId`, ({ params, request }) =>
+    HttpResponse.json(tokenReport(String(params.tokenId), request))
+  ),
+
+  http.get(`${COMPLIANCE}/reports/transfers/:tokenId`, ({ params, request }) => {
+    const tokenId = String(params.tokenId);
+    const transfers = reportTransfers(tokenId, request);
+    return HttpResponse.json<TransferReport>({
+      tokenId,
+      ...summarizeTransfers(transfers),
+      transfers,
+    });
+  }),
+
+  http.get(`${COMPLIANCE}/reports/kyc-aml`, () => {
+    const identities = identityList();
+    const byLevel = identities.reduce<Record<string, number>>((counts, identity) => {
+      counts[identity.kycLevel] = (counts[identity.kycLevel] ?? 0) + 1;
+      return counts;
+    }, {});
+    return HttpResponse.json<KycAmlReport>({
+      reportDate: new Date().toISOString(),
+      ...identityStats(),
+      byKycLevel: byLevel,
+      restrictedCountryIdentities: identities.filter((identity) =>
+        db.restrictedCountries.has(identity.country)
+      ).length,
+    });
+  }),
+
+  http.get(`${COMPLIANCE}/reports/audit-trail/:tokenId`, ({ params, request }) => {
+    const limit = numberParam(request, 'limit', 100);
+    return HttpResponse.json(
+      transfersFor(String(params.tokenId))
+        .slice(0, limit)
+        .map((transfer) => ({
+          id: transfer.id,
+          timestamp: transfer.timestamp,
+          action: transfer.executed ? 'TRANSFER_EXECUTED' : 'TRANSFER_CHECKED',
+          from: transfer.from,
+          to: transfer.to,
+          amount: transfer.amount,
+          allowed: transfer.result.allowed,
+          violations: transfer.result.violations,
+        }))
+    );
+  }),
+
+  http.get(`${COMPLIANCE}/reports/export/token/:tokenId`, ({ params, request }) =>
+    HttpResponse.json(tokenReport(String(params.tokenId), request), {
+      headers: {
+        'Content-Disposition': `attachment; filename="compliance-${params.tokenId}.json"`,
+      },
+    })
+  ),
+
+  // ===== Dashboard =====
+
+  http.get(`${COMPLIANCE}/dashboard/metrics`, () => HttpResponse.json(dashboardMetrics())),
+
+  http.get(`${COMPLIANCE}/dashboard/alerts`, ({ request }) => {
+    const params = searchParams(request);
+    const status = params.get('status');
+    const tokenId = params.get('tokenId');
+    const jurisdiction = params.get('jurisdiction');
+    return HttpResponse.json(
+      db.complianceAlerts.filter(
+        (alert) =>
+          (!status || alert.status === status) &&
+          (!tokenId || alert.tokenId === tokenId) &&
+          (!jurisdiction || alert.jurisdiction === jurisdiction)
+      )
+    );
+  }),
+
+  http.get(`${COMPLIANCE}/dashboard/status`, () => {
+    const metrics = dashboardMetrics();
+    return HttpResponse.json({
+      status: metrics.complianceRate >= 95 ? 'COMPLIANT' : 'AT_RISK',
+      complianceRate: metrics.complianceRate,
+      openAlerts: db.complianceAlerts.filter((alert) => !alert.resolved).length,
+      lastUpdated: new Date().toISOString(),
+    });
+  }),
+
+  http.get(`${COMPLIANCE}/dashboard/risks`, ({ request }) => {
+    const limit = numberParam(request, 'limit', 10);
+    return HttpResponse.json(
+      [...db.tokenCompliance.values()]
+        .map((token) => ({
+          tokenId: token.tokenId,
+          jurisdiction: token.jurisdiction,
+          riskScore: tokenReport(token.tokenId).riskAssessment.riskScore,
+          issues: token.issues,
+        }))
+        .sort((a, b) => b.riskScore - a.riskScore)
+        .slice(0, limit)
+    );
+  }),
+
+  http.get(`${COMPLIANCE}/dashboard/health`, () =>
+    HttpResponse.json<ComplianceSystemHealth>({
+      status: 'UP',
+      components: { identityRegistry: 'UP', transferRules: 'UP', reporting: 'UP', bridge: 'UP' },
+    })
+  ),
+
+  // ===== Alert Workflow =====
+
+  http.get(`${COMPLIANCE}/alerts/assignees`, () =>
+    HttpResponse.json(
+      db.users.filter((user) => user.status === 'active').map((user) => user.username)
+    )
+  ),
+
+  http.get(`${COMPLIANCE}/alerts/:alertId`, ({ params }) => {
+    const alert = findAlert(String(params.alertId));
+    return alert ? HttpResponse.json(alert) : notFound('Alert');
+  }),
+
+  http.post(`${COMPLIANCE}/alerts/:alertId/status`, async ({ params, request }) => {
+    const user = sessionUser(request);
+    if (!user) return unauthorized();
+    const alert = findAlert(String(params.alertId));
+    if (!alert) return notFound('Alert');
+    const { status, note } = await readJson<{ status: AlertStatus; note?: string }>(request);
+    if (!status || !ALERT_STATUSES.includes(status)) {
+      return errorResponse(400, 'INVALID_STATUS', `Unknown alert status: ${status}`);
+    }
+    if (!ALERT_TRANSITIONS[alert.status].includes(status)) {
+      return errorResponse(
+        409,
+        'INVALID_TRANSITION',
+        `An alert cannot move from ${alert.status} to ${status}`
+      );
+    }
+    return HttpResponse.json(db.transitionAlert(alert, status, user.username, note?.trim()));
+  }),
+
+  http.post(`${COMPLIANCE}/alerts/:alertId/assign`, async ({ params, request }) => {
+    const user = sessionUser(request);
+    if (!user) return unauthorized();
+    const alert = findAlert(String(params.alertId));
+    if (!alert) return notFound('Alert');
+    const { assignee } = await readJson<{ assignee: string | null }>(request);
+    if (assignee && !db.users.some((candidate) => candidate.username === assignee)) {
+      return errorResponse(400, 'INVALID_ASSIGNEE', `Unknown user: ${assignee}`);
+    }
+    return HttpResponse.json(db.assignAlert(alert, assignee ?? null, user.username));
+  }),
+
+  http.post(`${COMPLIANCE}/alerts/:alertId/comments`, async ({ params, request }) => {
+    const user = sessionUser(request);
+    if (!user) return unauthorized();
+    const alert = findAlert(String(params.alertId));
+    if (!alert) return notFound('Alert');
+    const { comment } = await readJson<{ comment: string }>(request);
+    if (!comment?.trim()) {
+      return errorResponse(400, 'EMPTY_COMMENT', 'Comment cannot be empty');
+    }
+    return HttpResponse.json(db.commentOnAlert(alert, comment.trim(), user.username));
+  }),
+
+  // ===== Smart Contract Bridge =====
+
+  http.post(`${COMPLIANCE}/bridge/contracts/register`, async ({ request }) => {
+    const { contractAddress, tokenId = '' } = await readJson<{
+      contractAddress: string;
+      tokenId: string;
+    }>(request);
+    if (!contractAddress) {
+      return errorResponse(400, 'INVALID_CONTRACT', 'contractAddress is required');
+    }
+    db.bridgeContracts.set(contractAddress, tokenId);
+    return HttpResponse.json({ success: true, contractAddress, tokenId });
+  }),
+
+  http.post(`${COMPLIANCE}/bridge/transfers/approve`, async ({ request }) => {
+    const {
+      contractAddress = '',
+      from = '',
+      to = '',
+      amount = 0,
+    } = await readJson<{ contractAddress: string; from: string; to: string; amount: number }>(
+      request
+    );
+    const tokenId = db.bridgeContracts.get(contractAddress);
+    if (tokenId === undefined) return notFound('Bridge contract');
+    const record = db.recordTransfer({ tokenId, from, to, amount: Number(amount) }, false);
+    return HttpResponse.json({ approved: record.result.allowed, ...record.result });
+  }),
+
+  http.post(`${COMPLIANCE}/bridge/identities/sync`, async ({ request }) => {
+    const { address, identityData = {} } = await readJson<{
+      contractAddress: string;
+      address: string;
+      identityData: Record<string, string>;
+    }>(request);
+    const identity = address ? db.identities.get(address) : undefined;
+    if (!identity) return notFound('Identity');
+    if (identityData.country) identity.country = identityData.country.toUpperCase();
+    if (identityData.kycLevel) identity.kycLevel = identityData.kycLevel;
+    return HttpResponse.json({ success: true, identity });
+  }),
+
+  http.get(`${COMPLIANCE}/bridge/contracts/:contractAddress/state`, ({ params }) => {
+    const contractAddress = String(params.contractAddress);
+    const tokenId = db.bridgeContracts.get(contractAddress);
+    if (tokenId === undefined) return notFound('Bridge contract');
+    return HttpResponse.json({
+      contractAddress,
+      tokenId,
+      paused: false,
+      transfers: transfersFor(tokenId).length,
+    });
+  }),
+
+  http.get(`${COMPLIANCE}/bridge/stats`, () =>
+    HttpResponse.json({
+      registeredContracts: db.bridgeContracts.size,
+      ...transferStats(),
+    })
+  ),
+];
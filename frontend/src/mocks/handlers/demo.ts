@@ -0,0 +1,371 @@
+/**
+ * High-Throughput Demo Handlers
+ *
+ * /demo/* endpoints behind HighThroughputDemoService and MerkleRegistryViewer.
+ * Running channels produce a metric sample on every mock chain tick, so
+ * dashboards polling state and metrics see the simulation progress.
+ */
+
+import { http, HttpResponse } from 'msw';
+import type {
+  ChannelConfig,
+  DemoResponse,
+  NodeConfig,
+} from '../../services/HighThroughputDemoService';
+import { mockDb as db, type DemoChannel, type DemoRegistration } from '../db';
+import { V11, notFound, readJson, searchParams } from './utils';
+
+const DEMO = `${V11}/demo`;
+
+const demoResponse = <T>(data: T, message?: string) =>
+  HttpResponse.json<DemoResponse<T>>({ success: true, data, message, timestamp: Date.now() });
+
+const withChannel = <T>(
+  channelId: unknown,
+  respond: (channel: DemoChannel) => T
+): T | ReturnType<typeof notFound> => {
+  const channel = db.demoChannels.get(String(channelId));
+  return channel ? respond(channel) : notFound('Demo channel');
+};
+
+const performanceReport = (channel: DemoChannel) => {
+  const samples = channel.metrics;
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  return {
+    peakTPS: channel.state.peakTPS,
+    averageLatency: channel.state.averageLatency,
+    successRate: samples.length
+      ? samples.reduce((sum, sample) => sum + sample.successRate, 0) / samples.length
+      : 100,
+    totalTransactions: channel.state.transactionCount,
+    duration: first && last ? last.timestamp - first.timestamp : 0,
+  };
+};
+
+const metricsCsv = (channel: DemoChannel): string =>
+  [
+    'timestamp,tps,avgLatency,successRate,cpuUsage,memoryUsage',
+    ...channel.metrics.map((sample) =>
+      [
+        sample.timestamp,
+        sample.tps.toFixed(0),
+        sample.avgLatency.toFixed(2),
+        sample.successRate.toFixed(2),
+        sample.cpuUsage.toFixed(1),
+        sample.memoryUsage.toFixed(1),
+      ].join(',')
+    ),
+  ].join('\n');
+
+export const demoHandlers = [
+  // ===== Channels =====
+
+  http.get(`${DEMO}/channels`, () =>
+    demoResponse([...db.demoChannels.values()].map((channel) => channel.config))
+  ),
+
+  http.post(`${DEMO}/channels/create`, async ({ request }) => {
+    const body = await readJson<{
+      channelName: string;
+      validatorNodeCount: number;
+      businessNodeCount: number;
+      slimNodeCount: number;
+    }>(request);
+    const channel = db.createDemoChannel(
+      body.channelName ?? 'Demo Channel',
+      body.validatorNodeCount ?? 4,
+      body.businessNodeCount ?? 6,
+      body.slimNodeCount ?? 10
+    );
+    return demoResponse(channel.config, 'Demo channel created');
+  }),
+
+  http.get(`${DEMO}/channels/:channelId`, ({ params }) =>
+    withChannel(params.channelId, (channel) => demoResponse(channel.config))
+  ),
+
+  http.put(`${DEMO}/channels/:channelId`, async ({ params, request }) => {
+    const changes = await readJson<ChannelConfig>(request);
+    return withChannel(params.channelId, (channel) => {
+      Object.assign(channel.config, changes, { channelId: channel.config.channelId });
+      return demoResponse(channel.config, 'Demo channel updated');
+    });
+  }),
+
+  http.delete(`${DEMO}/channels/:channelId`, ({ params }) =>
+    withChannel(params.channelId, (channel) => {
+      db.demoChannels.delete(channel.config.channelId);
+      return demoResponse(true, 'Demo channel deleted');
+    })
+  ),
+
+  // ===== Simulation =====
+
+  http.post(`${DEMO}/channels/:channelId/start`, async ({ params, request }) => {
+    const { targetTPS = 1_000_000, enableAIOptimization = false } = await readJson<{
+      targetTPS: number;
+      enableAIOptimization: boolean;
+    }>(request);
+    return withChannel(params.channelId, (channel) => {
+      channel.targetTPS = targetTPS;
+      channel.aiOptimization = enableAIOptimization;
+      channel.state.isRunning = true;
+      return demoResponse(channel.state, 'Simulation started');
+    });
+  }),
+
+  http.post(`${DEMO}/channels/:channelId/stop`, ({ params }) =>
+    withChannel(params.channelId, (channel) => {
+      channel.state.isRunning = false;
+      return demoResponse(channel.state, 'Simulation stopped');
+    })
+  ),
+
+  http.get(`${DEMO}/channels/:channelId/state`, ({ params }) =>
+    withChannel(params.channelId, (channel) => demoResponse(channel.state))
+  ),
+
+  http.get(`${DEMO}/channels/:channelId/metrics`, ({ params }) =>
+    withChannel(params.channelId, (channel) => demoResponse(channel.metrics))
+  ),
+
+  http.get(`${DEMO}/channels/:channelId/report`, ({ params }) =>
+    withChannel(params.channelId, (channel) => demoResponse(performanceReport(channel)))
+  ),
+
+  // ===== Nodes =====
+
+  http.get(`${DEMO}/channels/:channelId/nodes/metrics`, ({ params }) =>
+    withChannel(params.channelId, (channel) => demoResponse(channel.state.nodeMetrics))
+  ),
+
+  http.get(`${DEMO}/channels/:channelId/nodes`, ({ params, request }) => {
+    const type = searchParams(request).get('type') as NodeConfig['nodeType'] | null;
+    return withChannel(params.channelId, (channel) =>
+      demoResponse(db.demoChannelNodes(channel).filter((node) => !type || node.nodeType === type))
+    );
+  }),
+
+  http.put(`${DEMO}/channels/:channelId/nodes/:nodeId`, async ({ params, request }) => {
+    const { enabled } = await readJson<{ enabled: boolean }>(request);
+    return withChannel(params.channelId, (channel) => {
+      const node = db
+        .demoChannelNodes(channel)
+        .find((candidate) => candidate.nodeId === params.nodeId);
+      if (!node) return notFound('Node');
+      if (enabled !== undefined) node.enabled = enabled;
+      return demoResponse(node);
+    });
+  }),
+
+  // ===== AI Optimization =====
+
+  http.post(`${DEMO}/channels/:channelId/ai/optimization`, async ({ params, request }) => {
+    const { enabled = false } = await readJson<{ enabled: boolean }>(request);
+    return withChannel(params.channelId, (channel) => {
+      channel.aiOptimization = enabled;
+      return demoResponse({ enabled });
+    });
+  }),
+
+  http.get(`${DEMO}/channels/:channelId/ai/metrics`, ({ params }) =>
+    withChannel(params.channelId, (channel) =>
+      demoResponse({
+        enabled: channel.aiOptimization,
+        tpsImprovement: channel.aiOptimization ? 15 : 0,
+        latencyReduction: channel.aiOptimization ? 13 : 0,
+        consensusOptimization: channel.aiOptimization ? 21 : 0,
+      })
+    )
+  ),
+
+  // ===== Export =====
+
+  http.get(`${DEMO}/channels/:channelId/export`, ({ params, request }) => {
+    const format = searchParams(request).get('format') ?? 'json';
+    return withChannel(params.channelId, (channel) =>
+      format === 'csv'
+        ? new HttpResponse(metricsCsv(channel), { headers: { 'Content-Type': 'text/csv' } })
+        : HttpResponse.json({
+            channel: channel.config,
+            state: channel.state,
+            metrics: channel.metrics,
+          })
+    );
+  }),
+
+  // ===== Health & Stats =====
+
+  http.get(`${DEMO}/health`, () => {
+    const channels = [...db.demoChannels.values()];
+    return demoResponse({
+      status: 'healthy',
+      activeChannels: channels.filter((channel) => channel.state.isRunning).length,
+      totalNodes: channels.reduce((sum, channel) => sum + db.demoChannelNodes(channel).length, 0),
+      systemLoad: db.random.float(20, 65),
+    });
+  }),
+
+  http.get(`${DEMO}/stats`, () => {
+    const channels = [...db.demoChannels.values()];
+    return demoResponse({
+      totalChannels: channels.length,
+      activeChannels: channels.filter((channel) => channel.state.isRunning).length,
+      totalNodes: channels.reduce((sum, channel) => sum + db.demoChannelNodes(channel).length, 0),
+      totalTransactions: channels.reduce((sum, channel) => sum + channel.state.transactionCount, 0),
+      peakSystemTPS: Math.max(0, ...channels.map((channel) => channel.state.peakTPS)),
+    });
+  }),
+
+  // ===== CRM Registration =====
+
+  http.post(`${DEMO}/users/register`, async ({ request }) => {
+    const body = await readJson<DemoRegistration>(request);
+    const registration: DemoRegistration = {
+      registrationId: db.id('registration'),
+      fullName: body.fullName ?? '',
+      email: body.email ?? '',
+      company: body.company ?? '',
+      jobTitle: body.jobTitle ?? '',
+      phone: body.phone ?? '',
+      country: body.country ?? '',
+      demoMetrics: body.demoMetrics ?? null,
+      registeredAt: Date.now(),
+      shares: [],
+    };
+    db.registrations.set(registration.registrationId, registration);
+    return demoResponse({
+      registrationId: registration.registrationId,
+      message: 'Registration received',
+    });
+  }),
+
+  http.post(`${DEMO}/users/track-share`, async ({ request }) => {
+    const { registrationId = '', platform } = await readJson<{
+      registrationId: string;
+      platform: string;
+    }>(request);
+    const registration = db.registrations.get(registrationId);
+    if (registration && platform) registration.shares.push(platform);
+    return demoResponse({ tracked: Boolean(registration) });
+  }),
+
+  http.get(`${DEMO}/users/by-email`, ({ request }) => {
+    const email = searchParams(request).get('email');
+    const matches = [...db.registrations.values()].filter(
+      (registration) => registration.email === email
+    );
+    const latest = matches[matches.length - 1];
+    if (!latest) return notFound('Registration');
+    return demoResponse({
+      registrationId: latest.registrationId,
+      fullName: latest.fullName,
+      company: latest.company,
+      jobTitle: latest.jobTitle,
+      totalDemos: matches.length,
+      lastDemoDate: latest.registeredAt,
+    });
+  }),
+
+  http.get(`${DEMO}/users/:registrationId/export`, ({ params }) => {
+    const registration = db.registrations.get(String(params.registrationId));
+    return registration ? HttpResponse.json(registration) : notFound('Registration');
+  }),
+
+  http.get(`${DEMO}/users/:registrationId`, ({ params }) => {
+    const registration = db.registrations.get(String(params.registrationId));
+    return registration ? demoResponse(registration) : notFound('Registration');
+  }),
+
+  // ===== Merkle Registry =====
+
+  http.get(`${DEMO}/registry/simulation/:channelId`, ({ params }) =>
+    withChannel(params.channelId, (channel) => {
+      const report = performanceReport(channel);
+      return HttpResponse.json({
+        success: true,
+        data: {
+          channelId: channel.config.channelId,
+          channelName: channel.config.name,
+          status: channel.state.isRunning ? 'RUNNING' : 'STOPPED',
+          duration: report.duration,
+          config: {
+            validatorNodes: channel.config.validatorNodes.length,
+            businessNodes: channel.config.businessNodes.length,
+            slimNodes: channel.config.slimNodes.length,
+          },
+          metrics: {
+            totalTransactions: report.totalTransactions,
+            successfulTransactions: Math.round(
+              (report.totalTransactions * report.successRate) / 100
+            ),
+            failedTransactions: Math.round(
+              (report.totalTransactions * (100 - report.successRate)) / 100
+            ),
+            successRate: report.successRate.toFixed(2),
+            peakTPS: report.peakTPS.toFixed(0),
+            averageLatency: report.averageLatency.toFixed(2),
+            blockHeight: db.latestBlock.height,
+          },
+          merkleRegistry: {
+            rootHash: db.merkleTree.hash,
+            registeredDataFeeds: db.apiSources.length,
+            totalTokens: db.tokenizedTransactions.length,
+            lastUpdate: Date.now(),
+          },
+        },
+      });
+    })
+  ),
+
+  http.get(`${DEMO}/registry/stats`, () =>
+    HttpResponse.json({
+      success: true,
+      data: {
+        rootHash: db.merkleTree.hash,
+        entryCount: db.tokenizedTransactions.length,
+        treeHeight: Math.ceil(Math.log2(Math.max(db.tokenizedTransactions.length, 2))) + 1,
+        lastUpdate: new Date().toISOString(),
+        rebuildCount: db.counters.consensusTerm,
+        totalUpdates: db.tokenizedTransactions.length,
+        totalTokens: db.tokenizedTransactions.length,
+        apiCount: db.apiSources.length,
+        lastFeedUpdate: Date.now(),
+      },
+    })
+  ),
+
+  http.get(`${DEMO}/registry/feeds`, () =>
+    HttpResponse.json({
+      success: true,
+      data: {
+        feeds: db.apiSources.map((source) => ({
+          id: source.id,
+          name: source.name,
+          endpoint: source.url,
+          dataType: source.channel,
+          lastUpdate: source.lastFetch ? Date.parse(source.lastFetch) : 0,
+        })),
+      },
+    })
+  ),
+
+  http.get(`${DEMO}/registry/feeds/:feedId/tokens`, ({ params }) =>
+    HttpResponse.json({
+      success: true,
+      data: {
+        tokens: db.tokenizedTransactions
+          .filter((tx) => tx.sourceId === params.feedId)
+          .map((tx) => ({
+            tokenId: tx.id,
+            feedId: tx.sourceId,
+            feedName: tx.sourceName,
+            dataType: tx.channel,
+            createdAt: tx.timestamp,
+            updatedAt: tx.timestamp,
+          })),
+      },
+    })
+  ),
+];
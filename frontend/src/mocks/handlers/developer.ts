@@ -0,0 +1,179 @@
+/**
+ * Developer Credential Handlers
+ *
+ * API keys of the signed-in developer on the account platform (V12), used by
+ * the Developer Profile through apiKeyApi. Secrets are returned once, when a
+ * key is created or rotated; afterwards only their prefix is known. Rotation
+ * leaves the old key working for an overlap window so clients can switch.
+ */
+
+import { http, HttpResponse } from 'msw';
+import {
+  API_KEY_MAX_OVERLAP_HOURS,
+  type ApiKey,
+  type ApiKeyAccessLog,
+  type ApiKeyScope,
+  type ApiKeySecret,
+  type ApiKeyUsage,
+  type ApiKeyUsagePeriod,
+  type CreateApiKeyRequest,
+  type RotateApiKeyResponse,
+} from '../../services/apiKeyApi';
+import { DEFAULT_PERMISSIONS } from '../../types/user';
+import { mockDb as db } from '../db';
+import { V12, errorResponse, notFound, numberParam, readJson, searchParams } from './utils';
+import { sessionUser } from './v11';
+
+const KEYS = `${V12}/developer/keys`;
+
+const USAGE_PERIODS: ApiKeyUsagePeriod[] = ['24h', '7d', '30d'];
+
+const IPV4_RANGE = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})(?:\/(\d{1,2}))?$/;
+
+const unauthorized = () => errorResponse(401, 'UNAUTHORIZED', 'Sign in to manage API keys');
+
+/** The user's own key; other users' keys are reported as missing */
+const findKey = (ownerId: string, keyId: string) =>
+  db.apiKeys.find((record) => record.ownerId === ownerId && record.key.id === keyId);
+
+const isIpRange = (value: string) => {
+  const match = IPV4_RANGE.exec(value);
+  if (!match) return false;
+  const [, ...parts] = match;
+  const octets = parts.slice(0, 4).map(Number);
+  const bits = parts[4] === undefined ? 32 : Number(parts[4]);
+  return octets.every((octet) => octet <= 255) && bits <= 32;
+};
+
+/**
+ * Scopes must name modules and actions of the permission matrix. Returns an
+ * error message, or null if every scope is valid.
+ */
+const scopeError = (scopes: ApiKeyScope[]): string | null => {
+  if (scopes.length === 0) return 'A key needs at least one scope';
+  for (const scope of scopes) {
+    const permission = DEFAULT_PERMISSIONS.find((candidate) => candidate.module === scope.module);
+    if (!permission) return `Unknown module: ${scope.module}`;
+    if (!Array.isArray(scope.actions) || scope.actions.length === 0) {
+      return `No actions chosen for ${scope.module}`;
+    }
+    const unknown = scope.actions.find((action) => !(action in permission.actions));
+    if (unknown) return `${scope.module} has no ${unknown} action`;
+  }
+  return null;
+};
+
+export const developerHandlers = [
+  http.get(KEYS, ({ request }) => {
+    const user = sessionUser(request);
+    if (!user) return unauthorized();
+    return HttpResponse.json<ApiKey[]>(
+      db.apiKeys
+        .filter((record) => record.ownerId === user.id)
+        .map((record) => db.refreshApiKey(record.key))
+    );
+  }),
+
+  http.post(KEYS, async ({ request }) => {
+    const user = sessionUser(request);
+    if (!user) return unauthorized();
+    const body = await readJson<CreateApiKeyRequest>(request);
+    const name = body.name?.trim();
+    if (!name) return errorResponse(400, 'INVALID_NAME', 'Name the key');
+
+    const scopes = body.scopes ?? [];
+    const invalidScope = scopeError(scopes);
+    if (invalidScope) return errorResponse(400, 'INVALID_SCOPE', invalidScope);
+
+    const expiresAt = body.expiresAt ?? null;
+    if (expiresAt !== null && !(Date.parse(expiresAt) > Date.now())) {
+      return errorResponse(400, 'INVALID_EXPIRY', 'Expiry must be a date in the future');
+    }
+
+    const ipAllowlist = (body.ipAllowlist ?? []).map((entry) => entry.trim()).filter(Boolean);
+    const invalidIp = ipAllowlist.find((entry) => !isIpRange(entry));
+    if (invalidIp) {
+      return errorResponse(400, 'INVALID_IP', `Not an IPv4 address or CIDR range: ${invalidIp}`);
+    }
+
+    const { record, secret } = db.createApiKey(user.id, {
+      name,
+      scopes,
+      expiresAt,
+      ipAllowlist: [...new Set(ipAllowlist)],
+    });
+    return HttpResponse.json<ApiKeySecret>({ key: record.key, secret }, { status: 201 });
+  }),
+
+  http.post(`${KEYS}/:keyId/rotate`, async ({ params, request }) => {
+    const user = sessionUser(request);
+    if (!user) return unauthorized();
+    const record = findKey(user.id, String(params.keyId));
+    if (!record) return notFound('API key');
+
+    const { overlapHours = 24 } = await readJson<{ overlapHours: number }>(request);
+    if (
+      !Number.isInteger(overlapHours) ||
+      overlapHours < 0 ||
+      overlapHours > API_KEY_MAX_OVERLAP_HOURS
+    ) {
+      return errorResponse(
+        400,
+        'INVALID_OVERLAP',
+        `Overlap must be 0 to ${API_KEY_MAX_OVERLAP_HOURS} hours`
+      );
+    }
+    const { status } = db.refreshApiKey(record.key);
+    if (status !== 'active') {
+      return errorResponse(
+        409,
+        'KEY_NOT_ACTIVE',
+        `Only active keys can be rotated; this one is ${status}`
+      );
+    }
+
+    const next = db.rotateApiKey(record, overlapHours);
+    return HttpResponse.json<RotateApiKeyResponse>(
+      { key: next.record.key, secret: next.secret, previous: record.key },
+      { status: 201 }
+    );
+  }),
+
+  http.post(`${KEYS}/:keyId/revoke`, ({ params, request }) => {
+    const user = sessionUser(request);
+    if (!user) return unauthorized();
+    const record = findKey(user.id, String(params.keyId));
+    if (!record) return notFound('API key');
+    if (record.key.revokedAt) {
+      return errorResponse(409, 'KEY_REVOKED', 'API key is already revoked');
+    }
+    return HttpResponse.json<ApiKey>(db.revokeApiKey(record));
+  }),
+
+  http.get(`${KEYS}/:keyId/usage`, ({ params, request }) => {
+    const user = sessionUser(request);
+    if (!user) return unauthorized();
+    const record = findKey(user.id, String(params.keyId));
+    if (!record) return notFound('API key');
+    const period = (searchParams(request).get('period') ?? '7d') as ApiKeyUsagePeriod;
+    if (!USAGE_PERIODS.includes(period)) {
+      return errorResponse(400, 'INVALID_PERIOD', `Unknown usage period: ${period}`);
+    }
+    return HttpResponse.json<ApiKeyUsage>(db.apiKeyUsage(record, period));
+  }),
+
+  http.get(`${V12}/developer/access-logs`, ({ request }) => {
+    const user = sessionUser(request);
+    if (!user) return unauthorized();
+    const keyId = searchParams(request).get('keyId');
+    if (keyId && !findKey(user.id, keyId)) return notFound('API key');
+    const ownKeys = new Set(
+      db.apiKeys.filter((record) => record.ownerId === user.id).map((record) => record.key.id)
+    );
+    return HttpResponse.json<ApiKeyAccessLog[]>(
+      db.apiKeyAccessLogs
+        .filter((log) => (keyId ? log.keyId === keyId : ownKeys.has(log.keyId)))
+        .slice(0, numberParam(request, 'limit', 100))
+    );
+  }),
+];
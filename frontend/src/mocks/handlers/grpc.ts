@@ -0,0 +1,166 @@
+/**
+ * gRPC-Web Stream Handlers
+ *
+ * Mock of the V12 LiveStreamService consensus stream, which grpcStreamService
+ * tries before SSE and polling. Messages are JSON in gRPC-Web framing.
+ *
+ * Consensus is a HyperRAFT++ simulation starting from the mock chain head:
+ * every height moves through PREPARE, COMMIT and FINALIZE as votes come in,
+ * with the odd leader election (sometimes several back to back) and the odd
+ * commit that stalls for a while. The simulation is shared, so reopening the
+ * stream carries on where it left off.
+ */
+
+import { http, HttpResponse } from 'msw';
+import type { ConsensusUpdate } from '../../services/grpcStreamService';
+import { mockDb as db } from '../db';
+
+const LIVE_STREAM_SERVICE = '*/grpc/io.aurigraph.v12.LiveStreamService';
+const GRPC_FRAME_HEADER_LENGTH = 5;
+const DEFAULT_INTERVAL_MS = 500;
+
+/** Per-tick chance of a leader election, and of one turning into a storm */
+const ELECTION_CHANCE = 0.01;
+const STORM_CHANCE = 0.3;
+/** Per-round chance that the commit phase stalls */
+const STALL_CHANCE = 0.02;
+
+interface RoundSimulation {
+  term: number;
+  leaderId: string;
+  blockHeight: number;
+  commitIndex: number;
+  phase: ConsensusUpdate['phase'];
+  votesReceived: number;
+  /** Ticks the current commit stays stuck for */
+  stallTicks: number;
+  /** Elections still to run back to back */
+  pendingElections: number;
+}
+
+let sharedSimulation: RoundSimulation | undefined;
+
+const frame = (message: unknown): Uint8Array => {
+  const payload = new TextEncoder().encode(JSON.stringify(message));
+  const bytes = new Uint8Array(GRPC_FRAME_HEADER_LENGTH + payload.length);
+  new DataView(bytes.buffer).setUint32(1, payload.length);
+  bytes.set(payload, GRPC_FRAME_HEADER_LENGTH);
+  return bytes;
+};
+
+/** Push interval from the framed request message */
+const requestedInterval = async (request: Request): Promise<number> => {
+  try {
+    const body = new Uint8Array(await request.arrayBuffer());
+    const { updateIntervalMs } = JSON.parse(
+      new TextDecoder().decode(body.subarray(GRPC_FRAME_HEADER_LENGTH))
+    ) as { updateIntervalMs?: unknown };
+    const interval = Number(updateIntervalMs);
+    return interval > 0 ? interval : DEFAULT_INTERVAL_MS;
+  } catch {
+    return DEFAULT_INTERVAL_MS;
+  }
+};
+
+const activeValidators = () => db.validators.filter((validator) => validator.status === 'active');
+
+const startSimulation = (): RoundSimulation => {
+  const head = db.latestBlock;
+  const leader = activeValidators().find((validator) => validator.address === head.proposer);
+  return {
+    term: db.counters.consensusTerm,
+    leaderId: leader?.id ?? db.random.pick(activeValidators()).id,
+    blockHeight: head.height + 1,
+    commitIndex: head.height,
+    phase: 'PREPARE',
+    votesReceived: 1,
+    stallTicks: 0,
+    pendingElections: 0,
+  };
+};
+
+/**
+ * Move the simulation on one tick and describe where it is now
+ */
+const advance = (simulation: RoundSimulation): ConsensusUpdate => {
+  const voters = activeValidators();
+  const votesRequired = Math.floor((voters.length * 2) / 3) + 1;
+
+  if (simulation.pendingElections > 0 || db.random.chance(ELECTION_CHANCE)) {
+    simulation.pendingElections =
+      simulation.pendingElections > 0
+        ? simulation.pendingElections - 1
+        : db.random.chance(STORM_CHANCE)
+          ? db.random.int(2, 4)
+          : 0;
+    const candidates = voters.filter((validator) => validator.id !== simulation.leaderId);
+    simulation.term += 1;
+    simulation.leaderId = db.random.pick(candidates.length > 0 ? candidates : voters).id;
+    simulation.phase = 'PREPARE';
+    simulation.votesReceived = 1;
+    simulation.stallTicks = 0;
+  } else if (simulation.phase === 'PREPARE') {
+    simulation.votesReceived = Math.min(
+      voters.length,
+      simulation.votesReceived + db.random.int(2, 5)
+    );
+    if (simulation.votesReceived >= votesRequired) simulation.phase = 'COMMIT';
+  } else if (simulation.phase === 'COMMIT') {
+    if (simulation.stallTicks > 0) {
+      simulation.stallTicks -= 1;
+    } else if (db.random.chance(STALL_CHANCE)) {
+      simulation.stallTicks = db.random.int(12, 24);
+    } else {
+      simulation.phase = 'FINALIZE';
+      simulation.commitIndex = simulation.blockHeight;
+    }
+  } else {
+    simulation.blockHeight += 1;
+    simulation.phase = 'PREPARE';
+    simulation.votesReceived = 1;
+  }
+
+  return {
+    currentTerm: simulation.term,
+    leaderId: simulation.leaderId,
+    phase: simulation.phase,
+    blockHeight: simulation.blockHeight,
+    consensusLatency: db.random.float(80, 450),
+    participationRate: (simulation.votesReceived / voters.length) * 100,
+    votesReceived: simulation.votesReceived,
+    votesRequired,
+    commitIndex: simulation.commitIndex,
+    timestamp: new Date().toISOString(),
+  };
+};
+
+export const grpcHandlers = [
+  http.post(`${LIVE_STREAM_SERVICE}/StreamConsensus`, async ({ request }) => {
+    const intervalMs = await requestedInterval(request);
+    sharedSimulation ??= startSimulation();
+    const simulation = sharedSimulation;
+    let timer: ReturnType<typeof setInterval> | undefined;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const push = () => {
+          try {
+            controller.enqueue(frame(advance(simulation)));
+          } catch {
+            clearInterval(timer);
+          }
+        };
+        push();
+        timer = setInterval(push, intervalMs);
+        request.signal.addEventListener('abort', () => clearInterval(timer));
+      },
+      cancel() {
+        clearInterval(timer);
+      },
+    });
+
+    return new HttpResponse(stream, {
+      headers: { 'Content-Type': 'application/grpc-web+json' },
+    });
+  }),
+];
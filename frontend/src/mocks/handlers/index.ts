@@ -0,0 +1,55 @@
+/**
+ * Mock Backend Handlers
+ *
+ * Order matters: msw uses the first matching handler, so the specific
+ * handler groups come before the V11 catch-all, which answers any route
+ * nobody mocked with 501 instead of letting it through to a real backend.
+ *
+ * The V11 and V12 patterns match any origin, so on their own they would also
+ * match a path that repeats the version prefix already in the base URL
+ * (/api/v11/api/v11/...). Those come first and get the 404 the real backend
+ * gives them.
+ */
+
+import { http } from 'msw';
+import { accountHandlers } from './account';
+import { chainHandlers } from './chains';
+import { complianceHandlers } from './compliance';
+import { demoHandlers } from './demo';
+import { developerHandlers } from './developer';
+import { grpcHandlers } from './grpc';
+import { liveHandlers } from './live';
+import { ricardianHandlers } from './ricardian';
+import { stakingHandlers } from './staking';
+import { tokenizationHandlers } from './tokenization';
+import { V11, V12, errorResponse } from './utils';
+import { v11Handlers } from './v11';
+
+export { stopLiveTicker } from './live';
+export { DEMO_PASSWORD } from './v11';
+
+const notFound = ({ request }: { request: Request }) =>
+  errorResponse(404, 'NOT_FOUND', `${new URL(request.url).pathname} not found`);
+
+export const handlers = [
+  http.all(`${V11}/api/v11/*`, notFound),
+  http.all(`${V12}/api/v12/*`, notFound),
+  ...complianceHandlers,
+  ...demoHandlers,
+  ...chainHandlers,
+  ...ricardianHandlers,
+  ...stakingHandlers,
+  ...v11Handlers,
+  ...tokenizationHandlers,
+  ...liveHandlers,
+  ...grpcHandlers,
+  ...accountHandlers,
+  ...developerHandlers,
+  http.all(`${V11}/*`, ({ request }) =>
+    errorResponse(
+      501,
+      'NOT_MOCKED',
+      `${request.method} ${new URL(request.url).pathname} has no mock handler`
+    )
+  ),
+];
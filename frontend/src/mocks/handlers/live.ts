@@ -0,0 +1,169 @@
+/**
+ * Live Stream Handlers
+ *
+ * Mock WebSocket endpoints for websocketService: one link per /ws/<channel>
+ * and the multiplexed /api/v11/live/stream, which honours subscribe and
+ * unsubscribe control frames. While any client is connected the mock chain
+ * advances every block interval and each tick is published to every channel,
+ * numbered per channel so the client's gap detection has something to check.
+ */
+
+import { ws, type WebSocketHandler } from 'msw';
+import type {
+  WebSocketChannel,
+  WebSocketControlFrame,
+  WebSocketMessage,
+  WebSocketMessageType,
+} from '../../services/websocketService';
+import { mockDb as db } from '../db';
+import {
+  toChannelMetrics,
+  toConsensusState,
+  toLiveTransaction,
+  toLiveValidator,
+  toNetworkMetrics,
+  toPerformanceMetrics,
+} from '../serializers';
+
+type LiveChannel = Exclude<WebSocketChannel, 'live-stream'>;
+type Client = ReturnType<typeof ws.link>['clients'] extends Set<infer C> ? C : never;
+
+const TICK_INTERVAL_MS = 2000;
+
+const MESSAGE_TYPES: Record<LiveChannel, WebSocketMessageType> = {
+  transactions: 'transaction',
+  validators: 'validator',
+  consensus: 'consensus',
+  network: 'network',
+  metrics: 'metric',
+  channels: 'channel',
+};
+
+const LIVE_CHANNELS = Object.keys(MESSAGE_TYPES) as LiveChannel[];
+
+const channelLinks = new Map(
+  LIVE_CHANNELS.map((channel) => [channel, ws.link(`*/ws/${channel}`)] as const)
+);
+const streamLink = ws.link('*/api/v11/live/stream');
+
+/** Channels each multiplexed client has subscribed to, by client id */
+const streamSubscriptions = new Map<string, Set<LiveChannel>>();
+const sequences = new Map<LiveChannel, number>();
+let ticker: ReturnType<typeof setInterval> | undefined;
+
+const isLiveChannel = (channel: unknown): channel is LiveChannel =>
+  LIVE_CHANNELS.includes(channel as LiveChannel);
+
+const nextMessage = (channel: LiveChannel, data: unknown): string => {
+  const sequence = (sequences.get(channel) ?? 0) + 1;
+  sequences.set(channel, sequence);
+  const message: WebSocketMessage = {
+    type: MESSAGE_TYPES[channel],
+    channel,
+    data,
+    timestamp: new Date().toISOString(),
+    messageId: `${channel}-${sequence}`,
+    sequence,
+  };
+  return JSON.stringify(message);
+};
+
+/** Current state of a channel, sent to new subscribers */
+const snapshot = (channel: LiveChannel): unknown[] => {
+  switch (channel) {
+    case 'transactions':
+      return db.transactions.slice(0, 10).reverse().map(toLiveTransaction);
+    case 'validators':
+      return [db.validators.map(toLiveValidator)];
+    case 'consensus':
+      return [toConsensusState(db)];
+    case 'network':
+      return [toNetworkMetrics(db)];
+    case 'metrics':
+      return [toPerformanceMetrics(db)];
+    case 'channels':
+      return [toChannelMetrics(db)];
+  }
+};
+
+const publish = (channel: LiveChannel, payloads: unknown[]): void => {
+  const link = channelLinks.get(channel);
+  const streamClients = [...streamLink.clients].filter((client) =>
+    streamSubscriptions.get(client.id)?.has(channel)
+  );
+
+  payloads.forEach((payload) => {
+    const frame = nextMessage(channel, payload);
+    link?.clients.forEach((client) => client.send(frame));
+    streamClients.forEach((client) => client.send(frame));
+  });
+};
+
+const hasClients = (): boolean =>
+  streamLink.clients.size > 0 || [...channelLinks.values()].some((link) => link.clients.size > 0);
+
+const tick = (): void => {
+  if (!hasClients()) {
+    stopLiveTicker();
+    return;
+  }
+
+  const { transactions } = db.advance();
+  publish('transactions', transactions.map(toLiveTransaction));
+  publish('validators', [db.validators.map(toLiveValidator)]);
+  LIVE_CHANNELS.filter((channel) => channel !== 'transactions' && channel !== 'validators').forEach(
+    (channel) => publish(channel, snapshot(channel))
+  );
+};
+
+const startLiveTicker = (): void => {
+  if (!ticker) ticker = setInterval(tick, TICK_INTERVAL_MS);
+};
+
+/**
+ * Stop advancing the chain; it restarts when the next client connects
+ */
+export const stopLiveTicker = (): void => {
+  if (ticker) clearInterval(ticker);
+  ticker = undefined;
+};
+
+const sendSnapshot = (client: Client, channel: LiveChannel): void => {
+  snapshot(channel).forEach((payload) => client.send(nextMessage(channel, payload)));
+};
+
+const channelHandlers = [...channelLinks].map(([channel, link]) =>
+  link.addEventListener('connection', ({ client }) => {
+    sendSnapshot(client, channel);
+    startLiveTicker();
+  })
+);
+
+const streamHandler = streamLink.addEventListener('connection', ({ client }) => {
+  streamSubscriptions.set(client.id, new Set());
+  startLiveTicker();
+
+  client.addEventListener('message', (event) => {
+    let frame: Partial<WebSocketControlFrame>;
+    try {
+      frame = JSON.parse(String(event.data)) as Partial<WebSocketControlFrame>;
+    } catch {
+      return;
+    }
+    const subscriptions = streamSubscriptions.get(client.id);
+    if (!subscriptions || !isLiveChannel(frame.channel)) return;
+
+    if (frame.action === 'subscribe' && !subscriptions.has(frame.channel)) {
+      subscriptions.add(frame.channel);
+      sendSnapshot(client, frame.channel);
+    } else if (frame.action === 'unsubscribe') {
+      subscriptions.delete(frame.channel);
+    }
+  });
+
+  client.addEventListener('close', () => {
+    streamSubscriptions.delete(client.id);
+  });
+});
+
+export const liveHandlers: WebSocketHandler[] = [...channelHandlers, streamHandler];
@@ -0,0 +1,335 @@
+/**
+ * Ricardian Contract Handlers
+ *
+ * The /contracts/ricardian registry behind ricardianApi. Uploaded text files
+ * are converted as-is (other formats get a template for their contract type),
+ * registered contracts are pinned to the hash of their legal text and code,
+ * and a signature is only accepted over that hash. Accepting an amendment
+ * appends a version chained to the previous one and resets the signatures
+ * made over the old text.
+ *
+ * Registered ahead of the V11 handlers, whose /contracts/:id would otherwise
+ * answer /contracts/ricardian.
+ */
+
+import { http, HttpResponse } from 'msw';
+import { hashDocument } from '../../services/ricardianSigning';
+import { extractTerms, versionHash } from '../../services/ricardianVersioning';
+import type {
+  AmendmentProposal,
+  AmendmentRequest,
+  ContractSignature,
+  RicardianContract,
+  RicardianContractDraft,
+  RicardianContractVersion,
+} from '../../types/ricardian';
+import { mockDb as db } from '../db';
+import { V11, errorResponse, notFound, readJson } from './utils';
+
+const RICARDIAN = `${V11}/contracts/ricardian`;
+
+const templateText = (contractType: string, fileName: string): string =>
+  [
+    `${contractType.replace(/_/g, ' ')} AGREEMENT`,
+    `Converted from ${fileName}.`,
+    '1. The Seller agrees to transfer the asset described in Schedule A to the Buyer.',
+    '2. The Buyer agrees to pay the purchase price within 30 days of signing.',
+    '3. Either party may terminate this agreement on material breach, with 14 days notice.',
+    '4. Disputes are resolved by arbitration in the governing jurisdiction.',
+  ].join('\n');
+
+const executableCode = (name: string, terms: string[]): string =>
+  [
+    `contract ${name.replace(/[^A-Za-z0-9]/g, '') || 'Agreement'} {`,
+    '  address public buyer;',
+    '  address public seller;',
+    `  uint8 public constant TERMS = ${terms.length};`,
+    '',
+    '  function execute() external onlySigned {',
+    '    // obligations derived from the legal text',
+    '  }',
+    '}',
+  ].join('\n');
+
+const findContract = (id: unknown) =>
+  db.ricardianContracts.find((candidate) => candidate.id === id);
+
+const currentVersion = (contract: RicardianContract) =>
+  contract.versions[contract.versions.length - 1];
+
+const buildVersion = (
+  fields: Omit<RicardianContractVersion, 'versionHash' | 'signatures' | 'createdAt'>
+): RicardianContractVersion => ({
+  ...fields,
+  versionHash: versionHash(fields),
+  signatures: [],
+  createdAt: new Date().toISOString(),
+});
+
+export const ricardianHandlers = [
+  http.get(RICARDIAN, () => HttpResponse.json<RicardianContract[]>(db.ricardianContracts)),
+
+  http.post(`${RICARDIAN}/upload`, async ({ request }) => {
+    const form = await request.formData();
+    const file = form.get('file');
+    if (!(file instanceof File)) {
+      return errorResponse(400, 'INVALID_DOCUMENT', 'A document file is required');
+    }
+
+    const contractType = String(form.get('contractType') ?? 'SERVICE');
+    const jurisdiction = String(form.get('jurisdiction') ?? 'Delaware');
+    const legalText =
+      file.type === 'text/plain' ? await file.text() : templateText(contractType, file.name);
+    const terms = extractTerms(legalText);
+    const name = file.name.replace(/\.[^.]+$/, '');
+    const enforceabilityScore = Math.min(95, 55 + terms.length * 6);
+
+    return HttpResponse.json<RicardianContractDraft>({
+      name,
+      type: contractType,
+      legalText,
+      executableCode: executableCode(name, terms),
+      jurisdiction,
+      parties: [],
+      terms,
+      enforceabilityScore,
+      riskAssessment:
+        terms.length >= 4
+          ? 'LOW: Obligations, payment and dispute terms were identified'
+          : terms.length >= 2
+            ? 'MEDIUM: Some standard terms could not be identified'
+            : 'HIGH: No enforceable terms were identified',
+    });
+  }),
+
+  http.post(RICARDIAN, async ({ request }) => {
+    const body = await readJson<RicardianContractDraft & { documentHash: string }>(request);
+    if (!body.name || body.legalText === undefined || body.executableCode === undefined) {
+      return errorResponse(
+        400,
+        'INVALID_CONTRACT',
+        'name, legalText and executableCode are required'
+      );
+    }
+
+    const documentHash = hashDocument({
+      legalText: body.legalText,
+      executableCode: body.executableCode,
+    });
+    if (body.documentHash !== documentHash) {
+      return errorResponse(
+        400,
+        'DOCUMENT_HASH_MISMATCH',
+        'documentHash does not match the legal text and executable code'
+      );
+    }
+
+    const unenrolled = (body.parties ?? []).filter(
+      (party) => party.signatureRequired && !party.publicKey
+    );
+    if (unenrolled.length > 0) {
+      return errorResponse(
+        400,
+        'PARTY_KEY_MISSING',
+        `No public key enrolled for ${unenrolled.map((party) => party.name).join(', ')}`
+      );
+    }
+
+    const terms = body.terms ?? extractTerms(body.legalText);
+    const original = buildVersion({
+      version: 1,
+      legalText: body.legalText,
+      executableCode: body.executableCode,
+      terms,
+      documentHash,
+      previousHash: null,
+      summary: 'Original document',
+    });
+
+    const contract: RicardianContract = {
+      id: db.id('ricardian'),
+      name: body.name,
+      type: body.type ?? 'SERVICE',
+      status: 'pending_signatures',
+      legalText: body.legalText,
+      executableCode: body.executableCode,
+      jurisdiction: body.jurisdiction ?? 'Delaware',
+      parties: (body.parties ?? []).map((party) => ({ ...party, signed: false })),
+      terms,
+      documentHash,
+      signatures: [],
+      version: 1,
+      versions: [original],
+      amendments: [],
+      uploadedDocument: body.uploadedDocument,
+      enforceabilityScore: body.enforceabilityScore ?? 0,
+      riskAssessment: body.riskAssessment ?? '',
+      createdAt: new Date().toISOString(),
+    };
+    db.ricardianContracts.unshift(contract);
+    return HttpResponse.json(contract);
+  }),
+
+  http.post(`${RICARDIAN}/:id/signatures`, async ({ params, request }) => {
+    const contract = findContract(params.id);
+    if (!contract) return notFound('Contract');
+    const signature = await readJson<ContractSignature>(request);
+    const party = contract.parties.find((candidate) => candidate.id === signature.partyId);
+    if (!party) return notFound('Party');
+
+    if (contract.status !== 'pending_signatures') {
+      return errorResponse(409, 'CONTRACT_NOT_PENDING', `Contract is ${contract.status}`);
+    }
+    if (
+      signature.signerAddress?.toLowerCase() !== party.address.toLowerCase() ||
+      signature.publicKey !== party.publicKey
+    ) {
+      return errorResponse(
+        403,
+        'SIGNER_MISMATCH',
+        "Signature was not made with the party's address and enrolled key"
+      );
+    }
+    if (signature.documentHash !== contract.documentHash) {
+      return errorResponse(
+        409,
+        'STALE_DOCUMENT_HASH',
+        'Signature was made over a different version of the document'
+      );
+    }
+
+    contract.signatures.push(signature as ContractSignature);
+    currentVersion(contract)?.signatures.push(signature as ContractSignature);
+    party.signed = true;
+    party.signedAt = signature.signedAt;
+    return HttpResponse.json(contract);
+  }),
+
+  http.post(`${RICARDIAN}/:id/activate`, ({ params }) => {
+    const contract = findContract(params.id);
+    if (!contract) return notFound('Contract');
+
+    const unsigned = contract.parties.filter((party) => party.signatureRequired && !party.signed);
+    if (unsigned.length > 0) {
+      return errorResponse(
+        409,
+        'SIGNATURES_MISSING',
+        `Waiting for ${unsigned.map((party) => party.name).join(', ')}`
+      );
+    }
+
+    contract.status = 'active';
+    contract.activatedAt = new Date().toISOString();
+    return HttpResponse.json(contract);
+  }),
+
+  http.post(`${RICARDIAN}/:id/amendments`, async ({ params, request }) => {
+    const contract = findContract(params.id);
+    if (!contract) return notFound('Contract');
+    if (contract.status === 'executed' || contract.status === 'terminated') {
+      return errorResponse(409, 'CONTRACT_CLOSED', `Contract is ${contract.status}`);
+    }
+
+    const body = await readJson<AmendmentRequest>(request);
+    if (!body.summary || body.legalText === undefined || body.executableCode === undefined) {
+      return errorResponse(
+        400,
+        'INVALID_AMENDMENT',
+        'summary, legalText and executableCode are required'
+      );
+    }
+    if (!contract.parties.some((party) => party.id === body.proposedBy)) {
+      return errorResponse(400, 'UNKNOWN_PARTY', 'Amendments are proposed by a contract party');
+    }
+    const documentHash = hashDocument({
+      legalText: body.legalText,
+      executableCode: body.executableCode,
+    });
+    if (documentHash === contract.documentHash) {
+      return errorResponse(400, 'NO_CHANGES', 'The amendment does not change the document');
+    }
+
+    const amendment: AmendmentProposal = {
+      id: db.id('amendment'),
+      baseVersion: contract.version,
+      proposedBy: body.proposedBy as string,
+      summary: body.summary,
+      legalText: body.legalText,
+      executableCode: body.executableCode,
+      status: 'proposed',
+      affectedParties: contract.parties.filter((party) => party.signed).map((party) => party.id),
+      createdAt: new Date().toISOString(),
+    };
+    contract.amendments.push(amendment);
+    return HttpResponse.json(contract);
+  }),
+
+  http.post(`${RICARDIAN}/:id/amendments/:amendmentId/accept`, async ({ params }) => {
+    const contract = findContract(params.id);
+    if (!contract) return notFound('Contract');
+    const amendment = contract.amendments.find((entry) => entry.id === params.amendmentId);
+    if (!amendment) return notFound('Amendment');
+    if (amendment.status !== 'proposed') {
+      return errorResponse(409, 'AMENDMENT_RESOLVED', `Amendment is ${amendment.status}`);
+    }
+    if (amendment.baseVersion !== contract.version) {
+      return errorResponse(
+        409,
+        'STALE_AMENDMENT',
+        `Amendment edits version ${amendment.baseVersion}, current is ${contract.version}`
+      );
+    }
+
+    const resolvedAt = new Date().toISOString();
+    const next = buildVersion({
+      version: contract.version + 1,
+      legalText: amendment.legalText,
+      executableCode: amendment.executableCode,
+      terms: extractTerms(amendment.legalText),
+      documentHash: hashDocument(amendment),
+      previousHash: currentVersion(contract)?.versionHash ?? null,
+      amendmentId: amendment.id,
+      summary: amendment.summary,
+    });
+
+    // Every signature so far covers the old document hash
+    amendment.affectedParties = contract.parties
+      .filter((party) => party.signed)
+      .map((party) => party.id);
+    contract.parties = contract.parties.map((party) =>
+      party.signed ? { ...party, signed: false, signedAt: undefined } : party
+    );
+    contract.signatures = [];
+    contract.amendments.forEach((entry) => {
+      if (entry.status !== 'proposed') return;
+      entry.status = entry.id === amendment.id ? 'accepted' : 'superseded';
+      entry.resolvedAt = resolvedAt;
+    });
+
+    Object.assign(contract, {
+      legalText: next.legalText,
+      executableCode: next.executableCode,
+      terms: next.terms,
+      documentHash: next.documentHash,
+      version: next.version,
+      status: 'pending_signatures',
+      activatedAt: undefined,
+    });
+    contract.versions.push(next);
+    return HttpResponse.json(contract);
+  }),
+
+  http.post(`${RICARDIAN}/:id/amendments/:amendmentId/reject`, ({ params }) => {
+    const contract = findContract(params.id);
+    if (!contract) return notFound('Contract');
+    const amendment = contract.amendments.find((entry) => entry.id === params.amendmentId);
+    if (!amendment) return notFound('Amendment');
+    if (amendment.status !== 'proposed') {
+      return errorResponse(409, 'AMENDMENT_RESOLVED', `Amendment is ${amendment.status}`);
+    }
+
+    amendment.status = 'rejected';
+    amendment.resolvedAt = new Date().toISOString();
+    return HttpResponse.json(contract);
+  }),
+];
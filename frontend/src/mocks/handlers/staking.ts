@@ -0,0 +1,204 @@
+/**
+ * Staking Handlers
+ *
+ * Delegation flows for the signed-in user: delegating (/staking/stake),
+ * undelegating into an unbonding entry (/staking/unstake), instant
+ * redelegation between validators, and claiming accrued rewards. Rewards
+ * accrue from the validator's APR less its commission; see
+ * MockDatabase.accrueRewards.
+ *
+ * Registered ahead of the V11 handlers so these replace its stateless
+ * /staking routes.
+ */
+
+import { http, HttpResponse } from 'msw';
+import type {
+  DelegatorPositions,
+  RedelegateRequest,
+  RewardClaimReceipt,
+  StakeRequest,
+  StakingReceipt,
+} from '../../services/openapi/aurigraphV11';
+import { mockDb as db, type DelegationRecord } from '../db';
+import { V11, errorResponse, notFound, readJson } from './utils';
+import { sessionUser } from './v11';
+
+const unauthorized = () => errorResponse(401, 'UNAUTHORIZED', 'Sign in to manage delegations');
+
+const findValidator = (id: unknown) => db.validators.find((candidate) => candidate.id === id);
+
+const findDelegation = (delegator: string, validatorId: unknown) =>
+  db.delegations.find(
+    (candidate) => candidate.delegator === delegator && candidate.validatorId === validatorId
+  );
+
+/** Existing position with the validator, or a new empty one */
+const openDelegation = (delegator: string, validatorId: string, now: number): DelegationRecord => {
+  const existing = findDelegation(delegator, validatorId);
+  if (existing) return db.accrueRewards(existing, now);
+  const created: DelegationRecord = {
+    delegator,
+    validatorId,
+    amount: 0,
+    rewards: 0,
+    claimedRewards: 0,
+    delegatedAt: new Date(now).toISOString(),
+    accruedAt: now,
+  };
+  db.delegations.push(created);
+  return created;
+};
+
+const positiveAmount = (amount: unknown): number | null => {
+  const value = Number(amount);
+  return Number.isFinite(value) && value > 0 ? value : null;
+};
+
+const invalidAmount = () =>
+  errorResponse(400, 'INVALID_AMOUNT', 'Amount must be a positive number of AUR');
+
+const insufficient = (available: number) =>
+  errorResponse(
+    400,
+    'INSUFFICIENT_DELEGATION',
+    `Only ${available.toLocaleString()} AUR is delegated to this validator`
+  );
+
+const receipt = (status: string) =>
+  HttpResponse.json<StakingReceipt>({ transactionHash: db.hash(), status });
+
+export const stakingHandlers = [
+  http.get(`${V11}/staking/delegations`, ({ request }) => {
+    const user = sessionUser(request);
+    if (!user) return unauthorized();
+    const now = Date.now();
+
+    return HttpResponse.json<DelegatorPositions>({
+      delegator: user.id,
+      positions: db.delegations
+        .filter((delegation) => delegation.delegator === user.id && delegation.amount > 0)
+        .map((delegation) => db.accrueRewards(delegation, now))
+        .map((delegation) => ({
+          validatorId: delegation.validatorId,
+          amount: String(delegation.amount),
+          rewards: delegation.rewards.toFixed(2),
+          claimedRewards: delegation.claimedRewards.toFixed(2),
+          delegatedAt: delegation.delegatedAt,
+        })),
+      unbonding: db.unbondings
+        .filter((entry) => entry.delegator === user.id)
+        .map(({ id, validatorId, amount, startedAt }) => ({
+          id,
+          validatorId,
+          amount: String(amount),
+          startedAt,
+        })),
+    });
+  }),
+
+  http.post(`${V11}/staking/stake`, async ({ request }) => {
+    const user = sessionUser(request);
+    if (!user) return unauthorized();
+    const { amount, validatorId } = await readJson<StakeRequest>(request);
+    const validator = findValidator(validatorId);
+    if (!validator) return notFound('Validator');
+    if (validator.status !== 'active') {
+      return errorResponse(409, 'VALIDATOR_NOT_ACTIVE', `${validator.name} is ${validator.status}`);
+    }
+    const value = positiveAmount(amount);
+    if (value === null) return invalidAmount();
+
+    const delegation = openDelegation(user.id, validator.id, Date.now());
+    if (delegation.amount === 0) validator.delegatorCount += 1;
+    delegation.amount += value;
+    validator.totalStake += value;
+    return receipt('CONFIRMED');
+  }),
+
+  http.post(`${V11}/staking/unstake`, async ({ request }) => {
+    const user = sessionUser(request);
+    if (!user) return unauthorized();
+    const { amount, validatorId } = await readJson<StakeRequest>(request);
+    const validator = findValidator(validatorId);
+    if (!validator) return notFound('Validator');
+    const value = positiveAmount(amount);
+    if (value === null) return invalidAmount();
+    const delegation = findDelegation(user.id, validator.id);
+    if (!delegation || delegation.amount < value) return insufficient(delegation?.amount ?? 0);
+
+    db.accrueRewards(delegation);
+    delegation.amount -= value;
+    if (delegation.amount === 0) {
+      validator.delegatorCount = Math.max(0, validator.delegatorCount - 1);
+    }
+    validator.totalStake = Math.max(validator.selfStake, validator.totalStake - value);
+    db.unbondings.push({
+      id: db.id('unbonding'),
+      delegator: user.id,
+      validatorId: validator.id,
+      amount: value,
+      startedAt: new Date().toISOString(),
+    });
+    return receipt('UNBONDING');
+  }),
+
+  http.post(`${V11}/staking/redelegate`, async ({ request }) => {
+    const user = sessionUser(request);
+    if (!user) return unauthorized();
+    const { amount, validatorId, toValidatorId } = await readJson<RedelegateRequest>(request);
+    const source = findValidator(validatorId);
+    const target = findValidator(toValidatorId);
+    if (!source || !target) return notFound('Validator');
+    if (source.id === target.id) {
+      return errorResponse(400, 'SAME_VALIDATOR', 'Choose a different validator to redelegate to');
+    }
+    if (target.status !== 'active') {
+      return errorResponse(409, 'VALIDATOR_NOT_ACTIVE', `${target.name} is ${target.status}`);
+    }
+    const value = positiveAmount(amount);
+    if (value === null) return invalidAmount();
+    const from = findDelegation(user.id, source.id);
+    if (!from || from.amount < value) return insufficient(from?.amount ?? 0);
+
+    const now = Date.now();
+    db.accrueRewards(from, now);
+    const to = openDelegation(user.id, target.id, now);
+    if (to.amount === 0) target.delegatorCount += 1;
+    from.amount -= value;
+    to.amount += value;
+    if (from.amount === 0) source.delegatorCount = Math.max(0, source.delegatorCount - 1);
+    source.totalStake = Math.max(source.selfStake, source.totalStake - value);
+    target.totalStake += value;
+    return receipt('CONFIRMED');
+  }),
+
+  http.post(`${V11}/staking/rewards/claim`, async ({ request }) => {
+    const user = sessionUser(request);
+    if (!user) return unauthorized();
+    const { validatorId } = await readJson<{ validatorId: string }>(request);
+    const delegation = findDelegation(user.id, validatorId);
+    if (!delegation) return notFound('Delegation');
+
+    db.accrueRewards(delegation);
+    const claimed = Math.floor(delegation.rewards * 100) / 100;
+    if (claimed <= 0) {
+      return errorResponse(409, 'NOTHING_TO_CLAIM', 'No rewards have accrued on this delegation');
+    }
+    delegation.rewards -= claimed;
+    delegation.claimedRewards += claimed;
+    return HttpResponse.json<RewardClaimReceipt>({
+      transactionHash: db.hash(),
+      status: 'CONFIRMED',
+      amount: claimed.toFixed(2),
+    });
+  }),
+
+  http.get(`${V11}/validators/:validatorId/slashing`, ({ params }) => {
+    if (!findValidator(params.validatorId)) return notFound('Validator');
+    return HttpResponse.json(
+      db.slashingEvents
+        .filter((event) => event.validatorId === params.validatorId)
+        .sort((a, b) => b.height - a.height)
+    );
+  }),
+];
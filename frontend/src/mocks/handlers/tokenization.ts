@@ -0,0 +1,85 @@
+/**
+ * External API Tokenization Handlers
+ *
+ * /tokenization/* endpoints behind ExternalAPITokenization. The component
+ * calls them relative to API_BASE_URL, so they are matched on any prefix.
+ */
+
+import { http, HttpResponse } from 'msw';
+import type { APISource, TokenizationChannelStats } from '../../types/tokenization';
+import { mockDb as db } from '../db';
+import { mockTokenizationChannelStats } from '../fixtures/tokenization';
+import { errorResponse, notFound, numberParam, readJson } from './utils';
+
+const TOKENIZATION = '*/tokenization';
+
+/** Per-channel totals, aggregated from the current sources */
+const channelStats = (): TokenizationChannelStats[] => {
+  const names = new Map(
+    mockTokenizationChannelStats().map((channel) => [channel.channelId, channel.name])
+  );
+  const channels = new Map<string, TokenizationChannelStats>();
+  db.apiSources.forEach((source) => {
+    const existing = channels.get(source.channel);
+    const lastFetch = source.lastFetch ?? '';
+    const transactionCount = (existing?.transactionCount ?? 0) + source.totalTokenized;
+    channels.set(source.channel, {
+      channelId: source.channel,
+      name: names.get(source.channel) ?? source.channel,
+      transactionCount,
+      totalSize: transactionCount * 1024,
+      lastUpdated: existing && existing.lastUpdated > lastFetch ? existing.lastUpdated : lastFetch,
+      status: existing?.status === 'active' || source.status === 'active' ? 'active' : 'inactive',
+    });
+  });
+  return [...channels.values()];
+};
+
+export const tokenizationHandlers = [
+  http.get(`${TOKENIZATION}/sources`, () => HttpResponse.json({ sources: db.apiSources })),
+
+  http.post(`${TOKENIZATION}/sources`, async ({ request }) => {
+    const body = await readJson<APISource>(request);
+    if (!body.name || !body.url || !body.channel) {
+      return errorResponse(400, 'INVALID_SOURCE', 'name, url and channel are required');
+    }
+    const source: APISource = {
+      id: db.id('src'),
+      name: body.name,
+      url: body.url,
+      method: body.method ?? 'GET',
+      headers: body.headers ?? {},
+      channel: body.channel,
+      status: 'active',
+      pollInterval: body.pollInterval ?? 60,
+      lastFetch: new Date().toISOString(),
+      totalTokenized: 0,
+      errorCount: 0,
+    };
+    db.apiSources.push(source);
+    return HttpResponse.json(source, { status: 201 });
+  }),
+
+  http.put(`${TOKENIZATION}/sources/:id/status`, async ({ params, request }) => {
+    const source = db.apiSources.find((candidate) => candidate.id === params.id);
+    if (!source) return notFound('API source');
+    const { status } = await readJson<Pick<APISource, 'status'>>(request);
+    if (status) source.status = status;
+    return HttpResponse.json(source);
+  }),
+
+  http.delete(`${TOKENIZATION}/sources/:id`, ({ params }) => {
+    const index = db.apiSources.findIndex((candidate) => candidate.id === params.id);
+    if (index === -1) return notFound('API source');
+    db.apiSources.splice(index, 1);
+    return new HttpResponse(null, { status: 204 });
+  }),
+
+  http.get(`${TOKENIZATION}/transactions`, ({ request }) =>
+    HttpResponse.json({
+      transactions: db.tokenizedTransactions.slice(0, numberParam(request, 'limit', 50)),
+    })
+  ),
+
+  http.get(`${TOKENIZATION}/channels/stats`, () => HttpResponse.json({ channels: channelStats() })),
+];
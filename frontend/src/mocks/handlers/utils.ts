@@ -0,0 +1,53 @@
+/**
+ * Shared helpers for the mock backend handlers
+ */
+
+import { HttpResponse, type DefaultBodyType } from 'msw';
+import type { ApiErrorBody } from '../../services/openapi/aurigraphV11';
+
+/** Matches the V11 REST API on any origin (relative, localhost:9003 or dlt.aurigraph.io) */
+export const V11 = '*/api/v11';
+
+/** Matches the account platform (V12) API, for apps, subscriptions and billing */
+export const V12 = '*/api/v12';
+
+export const searchParams = (request: Request): URLSearchParams =>
+  new URL(request.url).searchParams;
+
+/**
+ * Numeric query parameter, falling back when it is missing or not a number
+ */
+export const numberParam = (request: Request, name: string, fallback: number): number => {
+  const value = Number(searchParams(request).get(name));
+  return searchParams(request).has(name) && !Number.isNaN(value) ? value : fallback;
+};
+
+/**
+ * Parse a JSON request body; an empty or invalid body becomes an empty object
+ */
+export const readJson = async <T extends object>(request: Request): Promise<Partial<T>> => {
+  try {
+    return ((await request.json()) ?? {}) as Partial<T>;
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Error body in the backend's format. Typed loosely so handlers can return
+ * it alongside their success responses.
+ */
+export const errorResponse = (
+  status: number,
+  code: string,
+  message: string
+): HttpResponse<DefaultBodyType> => HttpResponse.json<ApiErrorBody>({ code, message }, { status });
+
+export const notFound = (what: string) => errorResponse(404, 'NOT_FOUND', `${what} not found`);
+
+/** Success envelope used by the explorer and validator detail endpoints */
+export const envelope = <T>(data: T) => ({
+  success: true,
+  data,
+  timestamp: new Date().toISOString(),
+});
@@ -0,0 +1,1138 @@
+/**
+ * V11 REST API Handlers
+ *
+ * Covers openapi/aurigraph-v11.yaml plus the V11 endpoints used outside the
+ * generated client (login, channels, portal token and contract routes,
+ * traceability and the registry tree).
+ *
+ * Where the portal services and the spec disagree on a route's shape
+ * (/contracts, /contracts/{id}), the handler answers in the shape of the
+ * service that actually renders it (ContractsApiService).
+ */
+
+import { http, HttpResponse } from 'msw';
+import type {
+  AIModel,
+  AnalyticsDashboard,
+  BridgeLiquidity,
+  BridgeMetrics,
+  BridgeStatus,
+  ChainInfo,
+  ConsensusStatus,
+  CrossChainTransfer,
+  CryptoKey,
+  HealthStatus,
+  RealWorldAsset,
+  RealWorldAssetDraft,
+  SecurityAudit,
+  StakingOverview,
+  SupportedChain,
+  SystemInfo,
+  Token,
+  TokenDraft,
+  TransactionSubmission,
+  TransferRequest,
+  ValidatorPerformancePeriod,
+  ValidatorStakingInfo,
+} from '../../services/openapi/aurigraphV11';
+import type { Channel } from '../../services/ChannelService';
+import type { Contract, DeployContractRequest } from '../../services/contractsApi';
+import type { LoginRequest, LoginResponse, SessionResponse } from '../../services/authService';
+import type { FeatureFlagsResponse } from '../../services/featureFlagService';
+import type {
+  Token as PortalToken,
+  TokenCreateRequest,
+  TokenStats,
+  TokenTransaction,
+} from '../../types/tokens';
+import type { StatsResponse } from '../../types/api';
+import { mockDb as db } from '../db';
+import {
+  toChannelMetrics,
+  toConsensusState,
+  toExplorerBlock,
+  toExplorerTransaction,
+  toLedgerBlock,
+  toLedgerTransaction,
+  toNetworkMetrics,
+  toPerformanceMetrics,
+} from '../serializers';
+import {
+  V11,
+  envelope,
+  errorResponse,
+  notFound,
+  numberParam,
+  readJson,
+  searchParams,
+} from './utils';
+
+/** Password accepted for every seeded user */
+export const DEMO_PASSWORD = 'password123';
+
+const SESSION_TTL_SECONDS = 3600;
+const startedAt = Date.now();
+
+const pageOf = <T>(items: T[], request: Request, defaultLimit = 20): T[] => {
+  const limit = numberParam(request, 'limit', defaultLimit);
+  const offset = numberParam(request, 'offset', 0);
+  return items.slice(offset, offset + limit);
+};
+
+const toPortalToken = (token: Token): PortalToken => {
+  const supply = Number(token.totalSupply);
+  return {
+    id: token.id,
+    name: token.name,
+    symbol: token.symbol,
+    decimals: token.decimals,
+    totalSupply: supply,
+    currentSupply: supply,
+    owner: token.creator,
+    contractAddress: token.contractAddress,
+    createdAt: token.createdAt,
+    updatedAt: token.createdAt,
+    burned: 0,
+    minted: supply,
+    transfers: token.transfers,
+    holders: token.holders,
+    status: 'active',
+  };
+};
+
+const tokenTransaction = (
+  type: TokenTransaction['type'],
+  body: { tokenId?: string; from?: string; to?: string; amount?: number; memo?: string }
+): TokenTransaction => ({
+  id: db.id('token-tx'),
+  tokenId: body.tokenId ?? '',
+  type,
+  from: body.from ?? '0x0000000000000000000000000000000000000000',
+  to: body.to ?? '0x0000000000000000000000000000000000000000',
+  amount: body.amount ?? 0,
+  timestamp: new Date().toISOString(),
+  blockHeight: db.latestBlock.height,
+  transactionHash: db.hash(),
+  status: 'confirmed',
+  memo: body.memo,
+});
+
+const PERFORMANCE_PERIODS: readonly string[] = ['1h', '24h', '7d', '30d'];
+
+const isPerformancePeriod = (period: string): period is ValidatorPerformancePeriod =>
+  PERFORMANCE_PERIODS.includes(period);
+
+const stakingOverview = (): StakingOverview => {
+  const totalStaked = db.validators.reduce((sum, validator) => sum + validator.totalStake, 0);
+  return {
+    totalStaked: String(totalStaked),
+    totalValidators: db.validators.length,
+    minimumStake: '10000',
+    maximumStake: '10000000',
+    averageCommission:
+      db.validators.reduce((sum, validator) => sum + validator.commission, 0) /
+      db.validators.length,
+    annualRewardRate: 11.2,
+    circulatingSupply: '1000000000',
+  };
+};
+
+const supportedChains = (): SupportedChain[] =>
+  [
+    ['aurigraph', 'Aurigraph DLT', 'mainnet', 'AUR', 0.5, 0.1],
+    ['ethereum', 'Ethereum', 'mainnet', 'ETH', 12, 0.15],
+    ['polygon', 'Polygon', 'mainnet', 'MATIC', 2, 0.1],
+    ['bsc', 'BNB Smart Chain', 'mainnet', 'BNB', 3, 0.1],
+    ['avalanche', 'Avalanche', 'mainnet', 'AVAX', 2, 0.12],
+  ].map(([chainId, name, network, nativeToken, avgBlockTime, bridgeFee]) => ({
+    chainId: chainId as string,
+    name: name as string,
+    network: network as string,
+    status: 'connected',
+    blockHeight: chainId === 'aurigraph' ? db.latestBlock.height : 19_000_000,
+    avgBlockTime: avgBlockTime as number,
+    nativeToken: nativeToken as string,
+    supportedTokens: ['USDC', 'AUR', 'WETH'],
+    bridgeFee: bridgeFee as number,
+    minTransferAmount: 1,
+    maxTransferAmount: 1_000_000,
+  }));
+
+/** Share of finished transfers that completed, as a fraction */
+const successRate = (transfers: CrossChainTransfer[]): number => {
+  const finished = transfers.filter((transfer) =>
+    ['completed', 'failed', 'refunded'].includes(transfer.status)
+  );
+  const completed = finished.filter((transfer) => transfer.status === 'completed');
+  return finished.length ? completed.length / finished.length : 1;
+};
+
+const bridges = (): BridgeStatus[] => {
+  const ids = [
+    ...new Set([...db.bridgeLiquidity.keys(), ...db.bridgeTransfers.map((t) => t.bridgeId)]),
+  ];
+  return ids.map((bridgeId) => {
+    const transfers = db.bridgeTransfers.filter((transfer) => transfer.bridgeId === bridgeId);
+    const [sourceChain = '', targetChain = ''] = bridgeId.split('-');
+    return {
+      bridgeId,
+      name: `${sourceChain} → ${targetChain}`,
+      status: 'active',
+      sourceChain,
+      targetChain,
+      totalValueLocked: transfers.reduce((sum, transfer) => sum + transfer.amount, 0) * 40,
+      totalTransfers: transfers.length,
+      averageTransferTime: 240,
+      successRate: successRate(transfers),
+      lastTransferAt: transfers[0]?.initiatedAt,
+    };
+  });
+};
+
+/** Funds waiting on a bridge: every transfer not yet completed or refunded */
+const bridgeLiquidity = (bridge: BridgeStatus): BridgeLiquidity => {
+  const pending = db.bridgeTransfers.filter(
+    (transfer) =>
+      transfer.bridgeId === bridge.bridgeId &&
+      transfer.status !== 'completed' &&
+      transfer.status !== 'refunded'
+  );
+  const lockedAmount = pending.reduce((sum, transfer) => sum + transfer.amount, 0);
+  const availableLiquidity = db.liquidityOf(bridge.bridgeId);
+  return {
+    bridgeId: bridge.bridgeId,
+    targetChain: bridge.targetChain,
+    availableLiquidity,
+    lockedAmount,
+    pendingTransfers: pending.length,
+    utilization: lockedAmount / Math.max(lockedAmount + availableLiquidity, 1),
+  };
+};
+
+/**
+ * Transfer that is failed or stuck, or the error response for the retry and refund actions
+ */
+const stuckTransfer = (id: unknown): CrossChainTransfer | Response => {
+  db.settleBridgeTransfers();
+  const transfer = db.bridgeTransfers.find((candidate) => candidate.id === id);
+  if (!transfer) return notFound('Transfer');
+  if (!db.isBridgeTransferStuck(transfer)) {
+    return errorResponse(
+      409,
+      'TRANSFER_NOT_STUCK',
+      `Transfer ${transfer.id} is ${transfer.status} and still on schedule`
+    );
+  }
+  return transfer;
+};
+
+const issueSession = (user: { id: string; username: string; email: string; role: string }) => ({
+  token: `mock-token.${user.id}.${Date.now().toString(36)}`,
+  refreshToken: `mock-refresh.${user.id}.${Date.now().toString(36)}`,
+  user: {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    roles: [user.role.toUpperCase()],
+  },
+  expiresIn: SESSION_TTL_SECONDS,
+});
+
+export const sessionUser = (request: Request) => {
+  const [, userId] = (request.headers.get('Authorization') ?? '').split('.');
+  return db.users.find((user) => user.id === userId && user.status === 'active');
+};
+
+export const v11Handlers = [
+  // ===== Authentication =====
+
+  http.post(`${V11}/login/authenticate`, async ({ request }) => {
+    const { username, password } = await readJson<LoginRequest>(request);
+    const user = db.users.find((candidate) => candidate.username === username);
+    if (!user || user.status !== 'active' || password !== DEMO_PASSWORD) {
+      return HttpResponse.json<LoginResponse>(
+        { success: false, message: 'Invalid username or password' },
+        { status: 401 }
+      );
+    }
+    return HttpResponse.json<LoginResponse>({ success: true, ...issueSession(user) });
+  }),
+
+  http.get(`${V11}/login/verify`, ({ request }) => {
+    const user = sessionUser(request);
+    if (!user) {
+      return HttpResponse.json<SessionResponse>({ authenticated: false }, { status: 401 });
+    }
+    return HttpResponse.json<SessionResponse>({ authenticated: true, ...issueSession(user) });
+  }),
+
+  http.post(`${V11}/login/refresh`, ({ request }) => {
+    const user = sessionUser(request);
+    if (!user) return errorResponse(401, 'UNAUTHORIZED', 'Refresh token is invalid');
+    return HttpResponse.json({ success: true, ...issueSession(user) });
+  }),
+
+  http.post(`${V11}/login/logout`, () =>
+    HttpResponse.json({ success: true, message: 'Logged out' })
+  ),
+
+  // ===== Platform =====
+
+  http.get(`${V11}/health`, () =>
+    HttpResponse.json<HealthStatus>({
+      status: 'UP',
+      checks: { consensus: 'UP', database: 'UP', network: 'UP' },
+      version: '11.0.0-mock',
+      timestamp: new Date().toISOString(),
+      uptime: Math.round((Date.now() - startedAt) / 1000),
+    })
+  ),
+
+  http.get(`${V11}/info`, () =>
+    HttpResponse.json<SystemInfo & Record<string, unknown>>({
+      platform: 'Aurigraph V11 (mock backend)',
+      version: '11.0.0-mock',
+      javaVersion: '21',
+      quarkusVersion: '3.26.2',
+      buildTime: new Date(startedAt).toISOString(),
+      commitHash: 'mock',
+      features: ['hyperraft++', 'quantum-crypto', 'ai-optimization', 'cross-chain-bridge'],
+      nativeImage: true,
+      architecture: 'x86_64',
+      availableProcessors: 16,
+      totalMemory: 8_589_934_592,
+      freeMemory: 4_294_967_296,
+      maxMemory: 8_589_934_592,
+    })
+  ),
+
+  // The demo tenant turns on every feature this mock backend implements
+  http.get(`${V11}/feature-flags`, () =>
+    HttpResponse.json<FeatureFlagsResponse>({
+      tenantId: 'demo',
+      flags: {
+        validatorDashboard: { enabled: true },
+        stakingOperations: { enabled: true },
+        aiOptimization: { enabled: true },
+        mlModels: { enabled: true },
+        predictiveAnalytics: { enabled: true, rolloutPercentage: 50 },
+        quantumSecurity: { enabled: true },
+        keyRotation: { enabled: true },
+        securityAudits: { enabled: true },
+        crossChainBridge: { enabled: true },
+        bridgeTransfers: { enabled: true },
+        realtimeUpdates: { enabled: true },
+        websocketConnection: { enabled: true },
+      },
+    })
+  ),
+
+  http.get(`${V11}/performance`, () => HttpResponse.json(toPerformanceMetrics(db))),
+
+  http.get(`${V11}/stats`, () => {
+    const performance = toPerformanceMetrics(db);
+    const consensus = toConsensusState(db);
+    const network = toNetworkMetrics(db);
+    const channels = toChannelMetrics(db);
+    return HttpResponse.json<StatsResponse>({
+      timestamp: performance.timestamp,
+      performance,
+      consensus: {
+        currentTerm: consensus.term,
+        blockHeight: consensus.blockHeight,
+        commitIndex: consensus.blockHeight,
+        lastApplied: consensus.blockHeight,
+        leaderNodeId: consensus.leader,
+        validatorCount: consensus.totalValidators,
+        activeValidators: consensus.activeValidators,
+        totalLeaderChanges: db.counters.consensusTerm,
+        avgFinalityLatencyMs: db.latestBlock.finalityMs,
+        consensusState: 'COMMITTING',
+      },
+      transactions: {
+        totalTransactions: performance.totalTransactions,
+        confirmedTransactions: performance.confirmedTransactions,
+        pendingTransactions: performance.pendingTransactions,
+        failedTransactions: performance.failedTransactions,
+        avgTxPerSecond: performance.avgTps,
+        avgTxSizeBytes: 420,
+        totalVolumeProcessed: performance.totalTransactions * 12,
+        transactionsByType: { transfer: 62, contract: 18, stake: 9, mint: 6, burn: 5 },
+      },
+      channels: { ...channels, channelsByAlgorithm: { 'HyperRAFT++': db.channels.length } },
+      network,
+    });
+  }),
+
+  // ===== Ledger =====
+
+  http.get(`${V11}/blockchain/metrics`, () =>
+    HttpResponse.json({
+      tps: Math.round(db.counters.tps),
+      totalTransactions: db.counters.totalTransactions,
+      totalBlocks: db.latestBlock.height,
+      activationValidators: db.validators.filter((validator) => validator.status === 'active')
+        .length,
+      networkHealth: 99,
+      averageBlockTime: 2000,
+      averageLatency: db.random.float(18, 42),
+      finality: db.latestBlock.finalityMs,
+      uptime: 99.98,
+    })
+  ),
+
+  http.get(`${V11}/blockchain/stats`, () =>
+    HttpResponse.json({
+      blockHeight: db.latestBlock.height,
+      totalTransactions: db.counters.totalTransactions,
+      tps: Math.round(db.counters.tps),
+      peakTps: Math.round(db.counters.peakTps),
+    })
+  ),
+
+  http.get(`${V11}/blocks`, ({ request }) =>
+    HttpResponse.json(pageOf(db.blocks, request).map(toLedgerBlock))
+  ),
+
+  http.get(`${V11}/blocks/:hashOrHeight`, ({ params }) => {
+    const block = db.findBlock(String(params.hashOrHeight));
+    return block ? HttpResponse.json(toLedgerBlock(block)) : notFound('Block');
+  }),
+
+  http.get(`${V11}/transactions`, ({ request }) =>
+    HttpResponse.json(pageOf(db.transactions, request).map(toLedgerTransaction))
+  ),
+
+  http.post(`${V11}/transactions/submit`, async ({ request }) => {
+    const body = await readJson<TransactionSubmission>(request);
+    if (!body.from || !body.to) {
+      return errorResponse(400, 'INVALID_TRANSACTION', 'from and to are required');
+    }
+    const tx = db.submitTransaction(body.from, body.to, Number(body.amount), Number(body.fee));
+    return HttpResponse.json({ txHash: tx.hash, status: 'PENDING' });
+  }),
+
+  http.post(`${V11}/transactions/batch`, async ({ request }) => {
+    const { transactions = [] } = await readJson<{ transactions: unknown[] }>(request);
+    return HttpResponse.json({
+      acceptedCount: transactions.length,
+      rejectedCount: 0,
+      batchId: db.id('batch'),
+    });
+  }),
+
+  http.get(`${V11}/transactions/:hash`, ({ params }) => {
+    const tx = db.findTransaction(String(params.hash));
+    return tx ? HttpResponse.json(toLedgerTransaction(tx)) : notFound('Transaction');
+  }),
+
+  // ===== Explorer =====
+
+  http.get(`${V11}/blockchain/transactions/stats`, () => {
+    const byStatus = (status: string) =>
+      db.transactions.filter((tx) => tx.status === status).length;
+    return HttpResponse.json({
+      total: db.counters.totalTransactions,
+      confirmed: byStatus('confirmed'),
+      pending: byStatus('pending'),
+      failed: byStatus('failed'),
+      tps: Math.round(db.counters.tps),
+    });
+  }),
+
+  http.get(`${V11}/blockchain/transactions/:hash`, ({ params }) => {
+    const tx = db.findTransaction(String(params.hash));
+    return tx
+      ? HttpResponse.json(envelope(toExplorerTransaction(tx, db.latestBlock.height)))
+      : notFound('Transaction');
+  }),
+
+  http.get(`${V11}/blockchain/transactions`, ({ request }) => {
+    const query = searchParams(request);
+    const page = numberParam(request, 'page', 1);
+    const pageSize = numberParam(request, 'pageSize', 20);
+    const minAmount = numberParam(request, 'minAmount', -Infinity);
+    const maxAmount = numberParam(request, 'maxAmount', Infinity);
+    const startDate = query.get('startDate');
+    const endDate = query.get('endDate');
+
+    const matches = db.transactions.filter(
+      (tx) =>
+        (!query.get('type') || tx.type === query.get('type')) &&
+        (!query.get('status') || tx.status === query.get('status')) &&
+        (!query.get('fromAddress') || tx.from === query.get('fromAddress')) &&
+        (!query.get('toAddress') || tx.to === query.get('toAddress')) &&
+        (!query.get('blockHeight') || tx.blockHeight === Number(query.get('blockHeight'))) &&
+        tx.amount >= minAmount &&
+        tx.amount <= maxAmount &&
+        (!startDate || tx.timestamp >= startDate) &&
+        (!endDate || tx.timestamp <= endDate)
+    );
+    const start = (page - 1) * pageSize;
+
+    return HttpResponse.json({
+      data: matches
+        .slice(start, start + pageSize)
+        .map((tx) => toExplorerTransaction(tx, db.latestBlock.height)),
+      total: matches.length,
+      page,
+      pageSize,
+      hasMore: start + pageSize < matches.length,
+    });
+  }),
+
+  http.get(`${V11}/blockchain/blocks`, ({ request }) =>
+    HttpResponse.json(pageOf(db.blocks, request).map(toExplorerBlock))
+  ),
+
+  http.get(`${V11}/blockchain/blocks/:height`, ({ params }) => {
+    const block = db.findBlock(Number(params.height));
+    return block ? HttpResponse.json(envelope(toExplorerBlock(block))) : notFound('Block');
+  }),
+
+  http.get(`${V11}/blockchain/chain/info`, () => {
+    const oldest = db.blocks[db.blocks.length - 1] ?? db.latestBlock;
+    return HttpResponse.json<ChainInfo>({
+      currentHeight: db.latestBlock.height,
+      totalBlocks: db.latestBlock.height,
+      totalTransactions: db.counters.totalTransactions,
+      avgBlockTime: 2,
+      avgBlockSize:
+        db.blocks.reduce((sum, block) => sum + block.size, 0) / Math.max(db.blocks.length, 1),
+      avgTransactionsPerBlock: db.transactions.length / Math.max(db.blocks.length, 1),
+      chainStartTime: oldest.timestamp,
+      lastBlockTime: db.latestBlock.timestamp,
+      syncStatus: 'synced',
+    });
+  }),
+
+  // ===== Validators & Consensus =====
+
+  http.get(`${V11}/validators`, () => HttpResponse.json(db.validators)),
+
+  http.get(`${V11}/validators/staking/info`, () => {
+    const active = db.validators.filter((validator) => validator.status === 'active');
+    const totalStaked = db.validators.reduce((sum, validator) => sum + validator.totalStake, 0);
+    return HttpResponse.json<ValidatorStakingInfo>({
+      totalStaked,
+      totalValidators: db.validators.length,
+      activeValidators: active.length,
+      minStakeRequired: 10_000,
+      unbondingPeriod: 21,
+      averageApr: active.reduce((sum, validator) => sum + validator.apr, 0) / active.length,
+      stakingRatio: totalStaked / 1_000_000_000,
+    });
+  }),
+
+  http.get(`${V11}/validators/:id`, ({ params }) => {
+    const validator = db.validators.find((candidate) => candidate.id === params.id);
+    return validator ? HttpResponse.json(envelope(validator)) : notFound('Validator');
+  }),
+
+  http.get(`${V11}/validators/:validatorId/performance`, ({ params, request }) => {
+    const period = new URL(request.url).searchParams.get('period') ?? '24h';
+    if (!isPerformancePeriod(period)) {
+      return errorResponse(400, 'INVALID_PERIOD', `Unknown performance period: ${period}`);
+    }
+    const history = db.validatorPerformance(String(params.validatorId), period);
+    return history ? HttpResponse.json(history) : notFound('Validator');
+  }),
+
+  http.post(`${V11}/validators/:validatorId/stake`, async ({ params, request }) => {
+    const { amount = 0 } = await readJson<{ amount: number }>(request);
+    const validator = db.validators.find((candidate) => candidate.id === params.validatorId);
+    if (!validator) return notFound('Validator');
+    validator.totalStake += amount;
+    validator.delegatorCount += 1;
+    return HttpResponse.json({ success: true, transactionHash: db.hash(), validator });
+  }),
+
+  http.get(`${V11}/consensus/status`, () => {
+    const consensus = toConsensusState(db);
+    return HttpResponse.json<ConsensusStatus>({
+      algorithm: 'HyperRAFT++',
+      currentTerm: consensus.term,
+      leader: consensus.leader,
+      totalValidators: consensus.totalValidators,
+      activeValidators: consensus.activeValidators,
+      blockHeight: consensus.blockHeight,
+      finality: `${db.latestBlock.finalityMs}ms`,
+      consensusRound: db.counters.consensusRound,
+      timeUntilNextRound: 2000 - (Date.now() % 2000),
+      faultToleranceLevel: Math.floor((consensus.totalValidators - 1) / 3),
+    });
+  }),
+
+  http.get(`${V11}/consensus/metrics`, () =>
+    HttpResponse.json({
+      ...toConsensusState(db),
+      averageFinalityMs: db.latestBlock.finalityMs,
+      roundsPerMinute: 30,
+    })
+  ),
+
+  http.get(`${V11}/consensus/nodes`, () =>
+    HttpResponse.json(
+      db.validators.map((validator) => ({
+        nodeId: validator.id,
+        address: validator.address,
+        role: validator.address === db.latestBlock.proposer ? 'leader' : 'follower',
+        status: validator.status,
+      }))
+    )
+  ),
+
+  // ===== Tokens =====
+
+  http.get(`${V11}/tokens`, () => HttpResponse.json(db.tokens)),
+
+  http.post(`${V11}/tokens`, async ({ request }) => {
+    const draft = await readJson<TokenDraft>(request);
+    const token: Token = {
+      id: db.id('token'),
+      symbol: draft.symbol ?? 'TKN',
+      name: draft.name ?? 'New Token',
+      totalSupply: draft.totalSupply ?? '0',
+      decimals: draft.decimals ?? 18,
+      contractAddress: db.address(),
+      createdAt: new Date().toISOString(),
+      creator: draft.creator ?? db.address(),
+      holders: 1,
+      transfers: 0,
+    };
+    db.tokens.push(token);
+    return HttpResponse.json(token);
+  }),
+
+  http.get(`${V11}/tokens/list`, () => HttpResponse.json(db.tokens.map(toPortalToken))),
+
+  http.get(`${V11}/tokens/stats`, () => {
+    const tokens = db.tokens.map(toPortalToken);
+    return HttpResponse.json<TokenStats>({
+      totalTokens: tokens.length,
+      activeTokens: tokens.filter((token) => token.status === 'active').length,
+      totalSupply: tokens.reduce((sum, token) => sum + token.totalSupply, 0),
+      totalHolders: tokens.reduce((sum, token) => sum + token.holders, 0),
+      totalTransfers: tokens.reduce((sum, token) => sum + token.transfers, 0),
+      totalMinted: tokens.reduce((sum, token) => sum + token.minted, 0),
+      totalBurned: 0,
+    });
+  }),
+
+  http.post(`${V11}/tokens/create`, async ({ request }) => {
+    const body = await readJson<TokenCreateRequest>(request);
+    const token: Token = {
+      id: db.id('token'),
+      symbol: body.symbol ?? 'TKN',
+      name: body.name ?? 'New Token',
+      totalSupply: String(body.initialSupply ?? 0),
+      decimals: body.decimals ?? 18,
+      contractAddress: db.address(),
+      createdAt: new Date().toISOString(),
+      creator: db.address(),
+      holders: 1,
+      transfers: 0,
+    };
+    db.tokens.push(token);
+    return HttpResponse.json({ ...toPortalToken(token), metadata: body.metadata });
+  }),
+
+  http.post(`${V11}/tokens/mint`, async ({ request }) =>
+    HttpResponse.json(tokenTransaction('mint', await readJson(request)))
+  ),
+
+  http.post(`${V11}/tokens/burn`, async ({ request }) =>
+    HttpResponse.json(tokenTransaction('burn', await readJson(request)))
+  ),
+
+  http.post(`${V11}/tokens/transfer`, async ({ request }) =>
+    HttpResponse.json(tokenTransaction('transfer', await readJson(request)))
+  ),
+
+  http.get(`${V11}/tokens/:tokenId/balance/:address`, ({ params }) => {
+    const token = db.tokens.find((candidate) => candidate.id === params.tokenId);
+    if (!token) return notFound('Token');
+    return HttpResponse.json({
+      balance: String(db.random.int(0, 250_000)),
+      decimals: token.decimals,
+    });
+  }),
+
+  http.get(`${V11}/tokens/:id`, ({ params }) => {
+    const token = db.tokens.find((candidate) => candidate.id === params.id);
+    return token ? HttpResponse.json(token) : notFound('Token');
+  }),
+
+  // ===== Real-World Assets =====
+
+  http.get(`${V11}/rwa/status`, () =>
+    HttpResponse.json({
+      enabled: true,
+      totalAssets: db.realWorldAssets.length,
+      totalValue: db.realWorldAssets.reduce((sum, asset) => sum + Number(asset.value), 0),
+    })
+  ),
+
+  http.get(`${V11}/rwa/assets`, () => HttpResponse.json(db.realWorldAssets)),
+
+  http.post(`${V11}/rwa/tokenize`, async ({ request }) => {
+    const draft = await readJson<RealWorldAssetDraft>(request);
+    const asset: RealWorldAsset = {
+      id: db.id('rwa'),
+      name: draft.name ?? 'Untitled Asset',
+      type: draft.type ?? 'other',
+      value: draft.value ?? '0',
+      currency: draft.currency ?? 'USD',
+      tokenAddress: db.address(),
+      status: 'UNDER_REVIEW',
+      createdAt: new Date().toISOString(),
+      issuer: draft.issuer ?? 'Unknown',
+      custodian: draft.custodian ?? 'Unknown',
+      kycRequired: draft.kycRequired ?? true,
+      holders: 0,
+    };
+    db.realWorldAssets.push(asset);
+    return HttpResponse.json(asset);
+  }),
+
+  http.get(`${V11}/rwa/portfolio`, () =>
+    HttpResponse.json({
+      totalValue: String(db.realWorldAssets.reduce((sum, asset) => sum + Number(asset.value), 0)),
+      assets: db.realWorldAssets,
+    })
+  ),
+
+  // ===== Smart Contracts =====
+
+  http.get(`${V11}/contracts`, ({ request }) => {
+    const channelId = searchParams(request).get('channelId');
+    const contracts = db.contracts.filter(
+      (contract) => !channelId || contract.channelId === channelId
+    );
+    return HttpResponse.json({ contracts, total: contracts.length });
+  }),
+
+  http.post(`${V11}/contracts/deploy`, async ({ request }) => {
+    const body = await readJson<DeployContractRequest>(request);
+    const contract: Contract = {
+      id: db.id('contract'),
+      name: body.name ?? 'Untitled Contract',
+      channelId: body.channelId ?? 'main',
+      address: db.address(),
+      deployedBy: body.deployedBy ?? db.address(),
+      deployedAt: new Date().toISOString(),
+      status: 'deployed',
+      code: body.sourceCode,
+      verified: false,
+      audited: false,
+      metrics: { transactions: 0, gasUsed: 0, holders: 0, totalValue: 0 },
+    };
+    db.contracts.unshift(contract);
+    return HttpResponse.json({ success: true, contract });
+  }),
+
+  http.get(`${V11}/contracts/:id`, ({ params }) => {
+    const contract = db.contracts.find((candidate) => candidate.id === params.id);
+    return contract ? HttpResponse.json(contract) : notFound('Contract');
+  }),
+
+  http.post(`${V11}/contracts/:id/verify`, ({ params }) => {
+    const contract = db.contracts.find((candidate) => candidate.id === params.id);
+    if (!contract) return notFound('Contract');
+    contract.verified = true;
+    return HttpResponse.json({ success: true, verified: true });
+  }),
+
+  http.post(`${V11}/contracts/:id/audit`, ({ params }) => {
+    const contract = db.contracts.find((candidate) => candidate.id === params.id);
+    if (!contract) return notFound('Contract');
+    contract.audited = true;
+    contract.auditReport = { status: 'passed', issues: 1, severity: 'low' };
+    return HttpResponse.json({ success: true, auditReport: contract.auditReport });
+  }),
+
+  http.get(`${V11}/contracts/:id/metrics`, ({ params }) => {
+    const contract = db.contracts.find((candidate) => candidate.id === params.id);
+    return contract ? HttpResponse.json(contract.metrics ?? {}) : notFound('Contract');
+  }),
+
+  http.post(`${V11}/contracts/:id/execute`, async ({ params, request }) => {
+    const { functionName } = await readJson<{ functionName: string }>(request);
+    return HttpResponse.json({
+      contractId: params.id,
+      functionName,
+      transactionHash: db.hash(),
+      gasUsed: db.random.int(21_000, 180_000),
+      status: 'SUCCESS',
+    });
+  }),
+
+  // ===== Network & Analytics =====
+
+  http.get(`${V11}/network/health`, () => {
+    const network = toNetworkMetrics(db);
+    return HttpResponse.json({
+      status: 'HEALTHY',
+      activeNodes: network.activeNodes,
+      totalNodes: network.totalNodes,
+      averageLatency: network.networkLatencyMs,
+      packetLoss: 0.01,
+      bandwidth: '10 Gbps',
+      peersConnected: network.totalConnections,
+    });
+  }),
+
+  http.get(`${V11}/network/nodes`, () =>
+    HttpResponse.json(
+      Object.entries(toNetworkMetrics(db).nodesByType).flatMap(([type, count]) =>
+        Array.from({ length: count }, (_, index) => ({
+          nodeId: `${type}-${index + 1}`,
+          type,
+          status: 'online',
+        }))
+      )
+    )
+  ),
+
+  http.get(`${V11}/network/latency`, () => {
+    const averageLatency = db.random.float(8, 24);
+    return HttpResponse.json({
+      averageLatency,
+      maxLatency: averageLatency * 3,
+      minLatency: averageLatency / 3,
+    });
+  }),
+
+  http.get(`${V11}/analytics/dashboard`, () =>
+    HttpResponse.json<AnalyticsDashboard>({
+      timestamp: new Date().toISOString(),
+      tps: Math.round(db.counters.tps),
+      totalTransactions: db.counters.totalTransactions,
+      totalBlocks: db.latestBlock.height,
+      activeUsers: db.random.int(8_000, 15_000),
+      networkHealth: 99,
+      topAccounts: db.validators.slice(0, 5).map((validator) => ({
+        address: validator.address,
+        balance: String(validator.totalStake),
+      })),
+      recentBlocks: db.blocks.slice(0, 5).map(toLedgerBlock),
+      recentTransactions: db.transactions.slice(0, 10).map(toLedgerTransaction),
+    })
+  ),
+
+  http.get(`${V11}/analytics/metrics`, () => HttpResponse.json(toPerformanceMetrics(db))),
+
+  http.get(`${V11}/analytics/trends`, ({ request }) => {
+    const period = searchParams(request).get('period') ?? 'day';
+    return HttpResponse.json({
+      period,
+      points: Array.from({ length: 24 }, (_, index) => ({
+        timestamp: new Date(Date.now() - (23 - index) * 3_600_000).toISOString(),
+        tps: Math.round(db.counters.tps * db.random.float(0.8, 1.05)),
+      })),
+    });
+  }),
+
+  // ===== Staking =====
+
+  http.get(`${V11}/staking/info`, () => HttpResponse.json(stakingOverview())),
+
+  http.get(`${V11}/staking/rewards`, ({ request }) => {
+    const validatorId = searchParams(request).get('validatorId');
+    const validator = db.validators.find((candidate) => candidate.id === validatorId);
+    if (!validator) return notFound('Validator');
+    const rewards = validator.totalStake * (validator.apr / 100) * (30 / 365);
+    return HttpResponse.json({
+      rewards: rewards.toFixed(2),
+      claimableRewards: (rewards * 0.4).toFixed(2),
+    });
+  }),
+
+  // ===== AI Optimization =====
+
+  http.get(`${V11}/ai/optimization`, () =>
+    HttpResponse.json({
+      enabled: true,
+      tpsImprovement: 18.4,
+      orderingOptimization: 23.1,
+      predictiveAccuracy: 94.7,
+      anomalyDetectionScore: 97,
+      lastOptimizationTime: new Date(Date.now() - 300_000).toISOString(),
+      optimizationsApplied: 1_284,
+    })
+  ),
+
+  http.post(`${V11}/ai/optimization/enable`, () => HttpResponse.json({ status: 'enabled' })),
+
+  http.post(`${V11}/ai/optimization/disable`, () => HttpResponse.json({ status: 'disabled' })),
+
+  http.get(`${V11}/ai/models`, () =>
+    HttpResponse.json<AIModel[]>(
+      (
+        [
+          ['consensus', 'Consensus Optimizer'],
+          ['transaction-ordering', 'Transaction Orderer'],
+          ['anomaly-detection', 'Anomaly Detector'],
+          ['load-balancing', 'Load Balancer'],
+        ] as const
+      ).map(([type, name], index) => ({
+        id: `model-${index + 1}`,
+        name,
+        type,
+        status: 'active',
+        accuracy: 92 + index * 1.5,
+        lastTrainedAt: new Date(Date.now() - (index + 1) * 86_400_000).toISOString(),
+        version: `2.${index}.0`,
+        parameters: { learningRate: 0.001, epochs: 50 },
+      }))
+    )
+  ),
+
+  http.get(`${V11}/ai/metrics`, () =>
+    HttpResponse.json({
+      consensusOptimization: {
+        predictedTps: Math.round(db.counters.tps * 1.08),
+        optimizationGain: 18.4,
+        leaderSelectionAccuracy: 96.2,
+        consensusLatencyReduction: 21.5,
+      },
+      transactionOrdering: {
+        throughputIncrease: 23.1,
+        latencyReduction: 17.8,
+        orderingAccuracy: 98.1,
+      },
+      anomalyDetection: {
+        anomaliesDetected: 37,
+        falsePositiveRate: 0.8,
+        detectionLatency: 42,
+        threatsBlocked: 12,
+      },
+      loadBalancing: { nodeUtilization: 71.4, distributionEfficiency: 93.2, rebalanceEvents: 8 },
+    })
+  ),
+
+  http.get(`${V11}/ai/predictions`, () =>
+    HttpResponse.json({
+      timestamp: new Date().toISOString(),
+      predictions: {
+        nextHourTps: Math.round(db.counters.tps * 1.04),
+        nextHourLatency: 24,
+        networkLoad: 'medium',
+        consensusStability: 98.6,
+        suggestedActions: ['Increase batch size on business nodes', 'Rebalance slim node shards'],
+      },
+    })
+  ),
+
+  http.post(`${V11}/ai/models/:modelId/retrain`, ({ params }) =>
+    HttpResponse.json({ modelId: params.modelId, status: 'training', jobId: db.id('retrain') })
+  ),
+
+  // ===== Quantum Security =====
+
+  http.get(`${V11}/security/status`, () =>
+    HttpResponse.json({
+      algorithm: 'CRYSTALS-Dilithium',
+      securityLevel: 5,
+      keyStrength: 256,
+      quantumResistant: true,
+      lastAudit: new Date(Date.now() - 7 * 86_400_000).toISOString(),
+      vulnerabilities: 0,
+      status: 'secure',
+    })
+  ),
+
+  http.get(`${V11}/security/keys`, () =>
+    HttpResponse.json<CryptoKey[]>(
+      (['signing', 'encryption', 'hybrid'] as const).map((type, index) => ({
+        id: `key-${index + 1}`,
+        type,
+        algorithm: type === 'encryption' ? 'CRYSTALS-Kyber' : 'CRYSTALS-Dilithium',
+        publicKey: `0x${db.random.hex(64)}`,
+        createdAt: new Date(Date.now() - (index + 1) * 30 * 86_400_000).toISOString(),
+        status: 'active',
+        usageCount: db.random.int(10_000, 900_000),
+      }))
+    )
+  ),
+
+  http.post(`${V11}/security/keys/rotate`, () =>
+    HttpResponse.json({ status: 'rotated', rotatedAt: new Date().toISOString() })
+  ),
+
+  http.get(`${V11}/security/metrics`, () =>
+    HttpResponse.json({
+      totalSignatures: db.counters.totalTransactions,
+      totalEncryptions: Math.round(db.counters.totalTransactions * 0.3),
+      avgSignatureTime: 0.42,
+      avgEncryptionTime: 0.18,
+      avgVerificationTime: 0.21,
+      avgDecryptionTime: 0.17,
+      failedVerifications: 3,
+      quantumAttemptsBlocked: 0,
+    })
+  ),
+
+  http.get(`${V11}/security/audits`, () =>
+    HttpResponse.json<SecurityAudit[]>(
+      (['key-rotation', 'vulnerability-scan', 'compliance'] as const).map((type, index) => ({
+        id: `audit-${index + 1}`,
+        timestamp: new Date(Date.now() - (index + 1) * 7 * 86_400_000).toISOString(),
+        type,
+        status: 'passed',
+        findings: { critical: 0, high: 0, medium: index, low: index + 1 },
+        recommendations: index === 0 ? [] : ['Rotate hybrid keys within 30 days'],
+      }))
+    )
+  ),
+
+  http.post(`${V11}/security/scan`, () =>
+    HttpResponse.json({
+      scanId: db.id('scan'),
+      status: 'completed',
+      vulnerabilities: 0,
+      completedAt: new Date().toISOString(),
+    })
+  ),
+
+  // ===== Cross-Chain Bridge =====
+
+  http.get(`${V11}/bridge/bridges`, () => {
+    db.settleBridgeTransfers();
+    return HttpResponse.json(bridges());
+  }),
+
+  http.get(`${V11}/bridge/transfers`, ({ request }) => {
+    db.settleBridgeTransfers();
+    const page = numberParam(request, 'page', 1);
+    const pageSize = numberParam(request, 'pageSize', 20);
+    return HttpResponse.json(db.bridgeTransfers.slice((page - 1) * pageSize, page * pageSize));
+  }),
+
+  http.post(`${V11}/bridge/transfers`, async ({ request }) => {
+    const body = await readJson<TransferRequest>(request);
+    if (!body.sourceChain || !body.targetChain || !body.recipient || !body.amount) {
+      return errorResponse(
+        400,
+        'INVALID_TRANSFER',
+        'sourceChain, targetChain, recipient and amount are required'
+      );
+    }
+    const source = supportedChains().find((chain) => chain.chainId === body.sourceChain);
+    if (!source || body.sourceChain === body.targetChain) {
+      return errorResponse(400, 'INVALID_TRANSFER', 'Source and target must be different chains');
+    }
+    if (body.amount < source.minTransferAmount || body.amount > source.maxTransferAmount) {
+      return errorResponse(
+        400,
+        'INVALID_TRANSFER',
+        `Amount must be between ${source.minTransferAmount} and ${source.maxTransferAmount}`
+      );
+    }
+    const transfer: CrossChainTransfer = {
+      id: db.id('transfer'),
+      bridgeId: `${body.sourceChain}-${body.targetChain}`,
+      sourceChain: body.sourceChain,
+      targetChain: body.targetChain,
+      sourceTransaction: db.hash(),
+      status: 'initiated',
+      token: body.token ?? 'AUR',
+      amount: body.amount,
+      sender: db.address(),
+      recipient: body.recipient,
+      fee: Number(((body.amount * source.bridgeFee) / 100).toFixed(4)),
+      initiatedAt: new Date().toISOString(),
+      confirmations: 0,
+      requiredConfirmations: 12,
+    };
+    db.trackBridgeTransfer(transfer);
+    db.bridgeTransfers.unshift(transfer);
+    return HttpResponse.json(envelope(transfer));
+  }),
+
+  http.get(`${V11}/bridge/transfers/:id`, ({ params }) => {
+    db.settleBridgeTransfers();
+    const transfer = db.bridgeTransfers.find((candidate) => candidate.id === params.id);
+    return transfer ? HttpResponse.json(envelope(transfer)) : notFound('Transfer');
+  }),
+
+  http.post(`${V11}/bridge/transfers/:id/retry`, ({ params }) => {
+    const transfer = stuckTransfer(params.id);
+    if (transfer instanceof Response) return transfer;
+    db.trackBridgeTransfer(transfer);
+    return HttpResponse.json(envelope(transfer));
+  }),
+
+  http.post(`${V11}/bridge/transfers/:id/refund`, ({ params }) => {
+    const transfer = stuckTransfer(params.id);
+    if (transfer instanceof Response) return transfer;
+    transfer.status = 'refunded';
+    transfer.completedAt = new Date().toISOString();
+    return HttpResponse.json(envelope(transfer));
+  }),
+
+  http.get(`${V11}/bridge/chains`, () => HttpResponse.json(supportedChains())),
+
+  http.get(`${V11}/bridge/metrics`, () => {
+    db.settleBridgeTransfers();
+    const all = bridges();
+    const failed = db.bridgeTransfers.filter((transfer) => transfer.status === 'failed').length;
+    return HttpResponse.json<BridgeMetrics>({
+      totalBridges: all.length,
+      activeBridges: all.filter((bridge) => bridge.status === 'active').length,
+      totalValueLocked: all.reduce((sum, bridge) => sum + bridge.totalValueLocked, 0),
+      totalTransfers24h: db.bridgeTransfers.length,
+      totalVolume24h: db.bridgeTransfers.reduce((sum, transfer) => sum + transfer.amount, 0),
+      averageTransferTime: 240,
+      successRate: successRate(db.bridgeTransfers),
+      failedTransfers24h: failed,
+      liquidity: all.map(bridgeLiquidity),
+    });
+  }),
+
+  // ===== Channels =====
+
+  http.get(`${V11}/channels`, () => HttpResponse.json({ channels: db.channels })),
+
+  http.get(`${V11}/channels/stats`, () =>
+    HttpResponse.json({
+      totalChannels: db.channels.length,
+      activeChannels: db.channels.filter((channel) => channel.status === 'active').length,
+      totalTransactions: db.channels.reduce((sum, channel) => sum + channel.transactionCount, 0),
+      avgLatency: db.random.float(4, 12),
+    })
+  ),
+
+  http.post(`${V11}/channels/create`, async ({ request }) => {
+    const body = await readJson<Pick<Channel, 'name' | 'description' | 'type' | 'config'>>(request);
+    const channel: Channel = {
+      id: db.id('channel'),
+      name: body.name ?? 'New Channel',
+      description: body.description,
+      type: body.type ?? 'private',
+      status: 'active',
+      createdAt: new Date().toISOString(),
+      nodeCount: 5,
+      transactionCount: 0,
+      config: {
+        consensusAlgorithm: 'HyperRAFT++',
+        blockTime: 2,
+        maxBlockSize: 2048,
+        ...body.config,
+      },
+    };
+    db.channels.push(channel);
+    return HttpResponse.json(channel);
+  }),
+
+  http.get(`${V11}/channels/:id`, ({ params }) => {
+    const channel = db.channels.find((candidate) => candidate.id === params.id);
+    return channel ? HttpResponse.json(channel) : notFound('Channel');
+  }),
+
+  // ===== Traceability & Registry =====
+
+  http.get(`${V11}/assets/traceability`, () => HttpResponse.json(db.traceability)),
+
+  http.get(`${V11}/registries/merkle-tree`, () => HttpResponse.json(db.merkleTree)),
+];
@@ -0,0 +1,11 @@
+/**
+ * Mock Backend (Node)
+ *
+ * The same handlers as the browser worker, for vitest. Tests call
+ * server.use() to override a route and mockDb.reset() to drop writes.
+ */
+
+import { setupServer } from 'msw/node';
+import { handlers } from './handlers';
+
+export const server = setupServer(...handlers);
@@ -0,0 +1,45 @@
+/**
+ * Seedable Random Source
+ *
+ * Small deterministic PRNG (mulberry32) for the mock backend and fixtures, so
+ * a given seed always produces the same demo data and e2e runs are repeatable.
+ */
+
+export interface Random {
+  /** Float in [0, 1) */
+  next(): number;
+  /** Integer in [min, max] */
+  int(min: number, max: number): number;
+  /** Float in [min, max) */
+  float(min: number, max: number): number;
+  pick<T>(items: readonly T[]): T;
+  /** Lowercase hex string with the given number of characters */
+  hex(length: number): string;
+  chance(probability: number): boolean;
+}
+
+export const DEFAULT_SEED = 20251016;
+
+export const createRandom = (seed: number = DEFAULT_SEED): Random => {
+  let state = seed >>> 0;
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min, max) => Math.floor(next() * (max - min + 1)) + min,
+    float: (min, max) => next() * (max - min) + min,
+    pick: <T>(items: readonly T[]): T => {
+      if (items.length === 0) throw new Error('Cannot pick from an empty list');
+      return items[Math.floor(next() * items.length)] as T;
+    },
+    hex: (length) => Array.from({ length }, () => Math.floor(next() * 16).toString(16)).join(''),
+    chance: (probability) => next() < probability,
+  };
+};
@@ -0,0 +1,173 @@
+/**
+ * Mock Backend Serializers
+ *
+ * The backend exposes the same chain data in several shapes (the ledger API,
+ * the explorer API and the live stream). These map the mock database records
+ * onto each of them, and build the network snapshots shared by the REST
+ * stats endpoints and the live channels.
+ */
+
+import type {
+  ExplorerBlock,
+  ExplorerTransaction,
+  LedgerBlock,
+  LedgerTransaction,
+  Validator,
+} from '../services/openapi/aurigraphV11';
+import type {
+  ChannelMetrics,
+  ConsensusState,
+  NetworkMetrics,
+  Transaction as LiveTransaction,
+  Validator as LiveValidator,
+} from '../store/liveDataSlice';
+import type { PerformanceMetrics } from '../types/api';
+import type MockDatabase from './db';
+import type { ChainBlock, ChainTransaction } from './db';
+
+export const toLedgerBlock = (block: ChainBlock): LedgerBlock => ({
+  hash: block.hash,
+  height: block.height,
+  timestamp: block.timestamp,
+  proposer: block.proposer,
+  transactionCount: block.transactionCount,
+  gasUsed: block.gasUsed,
+  gasLimit: block.gasLimit,
+  stateRoot: block.stateRoot,
+  previousHash: block.previousHash,
+  consensusRound: block.consensusRound,
+});
+
+export const toExplorerBlock = (block: ChainBlock): ExplorerBlock => ({
+  height: block.height,
+  hash: block.hash,
+  previousHash: block.previousHash,
+  timestamp: block.timestamp,
+  transactionCount: block.transactionCount,
+  validatorId: block.proposer,
+  merkleRoot: block.merkleRoot,
+  stateRoot: block.stateRoot,
+  size: block.size,
+  gasUsed: block.gasUsed,
+  gasLimit: block.gasLimit,
+  consensusTerm: block.consensusTerm,
+  finalityMs: block.finalityMs,
+});
+
+export const toLedgerTransaction = (tx: ChainTransaction): LedgerTransaction => ({
+  hash: tx.hash,
+  from: tx.from,
+  to: tx.to,
+  amount: String(tx.amount),
+  fee: String(tx.fee),
+  gasPrice: String(tx.gasPrice),
+  gasUsed: tx.gasUsed,
+  nonce: tx.nonce,
+  timestamp: tx.timestamp,
+  status: tx.status.toUpperCase() as LedgerTransaction['status'],
+  blockHeight: tx.blockHeight,
+});
+
+export const toExplorerTransaction = (
+  tx: ChainTransaction,
+  currentHeight: number
+): ExplorerTransaction => ({
+  id: tx.hash,
+  hash: tx.hash,
+  blockHeight: tx.blockHeight,
+  timestamp: tx.timestamp,
+  type: tx.type,
+  status: tx.status,
+  from: tx.from,
+  to: tx.to,
+  amount: tx.amount,
+  fee: tx.fee,
+  gasUsed: tx.gasUsed,
+  signature: tx.signature,
+  size: tx.size,
+  confirmations: Math.max(0, currentHeight - tx.blockHeight),
+});
+
+export const toLiveTransaction = (tx: ChainTransaction): LiveTransaction => ({
+  id: tx.hash,
+  from: tx.from,
+  to: tx.to,
+  amount: tx.amount,
+  hash: tx.hash,
+  blockHeight: tx.blockHeight,
+  timestamp: tx.timestamp,
+  status: tx.status,
+  fee: tx.fee,
+  gasUsed: tx.gasUsed,
+});
+
+export const toLiveValidator = (validator: Validator): LiveValidator => ({
+  nodeId: validator.id,
+  address: validator.address,
+  status: validator.status === 'active' ? 'active' : 'inactive',
+  stake: validator.totalStake,
+  rewards: Math.round(validator.totalStake * (validator.apr / 100) * (30 / 365)),
+  uptime: validator.uptime,
+  lastHeartbeat: validator.lastActiveAt,
+});
+
+// ===== Network Snapshots =====
+
+export const toPerformanceMetrics = (db: MockDatabase): PerformanceMetrics => {
+  const pending = db.transactions.filter((tx) => tx.status === 'pending').length;
+  const failed = db.transactions.filter((tx) => tx.status === 'failed').length;
+  const avgLatencyMs = db.random.float(18, 42);
+  return {
+    timestamp: new Date().toISOString(),
+    tps: Math.round(db.counters.tps),
+    avgTps: Math.round(db.counters.tps * db.random.float(0.92, 0.98)),
+    peakTps: Math.round(db.counters.peakTps),
+    totalTransactions: db.counters.totalTransactions,
+    activeTransactions: db.random.int(5_000, 40_000),
+    pendingTransactions: pending,
+    confirmedTransactions: db.counters.totalTransactions - pending - failed,
+    failedTransactions: failed,
+    avgLatencyMs,
+    p50LatencyMs: avgLatencyMs * 0.8,
+    p95LatencyMs: avgLatencyMs * 2.1,
+    p99LatencyMs: avgLatencyMs * 3.4,
+    memoryUsageMb: db.random.int(1_800, 3_200),
+    cpuUsagePercent: db.random.float(35, 78),
+  };
+};
+
+export const toConsensusState = (db: MockDatabase): ConsensusState => {
+  const active = db.validators.filter((validator) => validator.status === 'active');
+  return {
+    term: db.counters.consensusTerm,
+    blockHeight: db.latestBlock.height,
+    leader: db.latestBlock.proposer,
+    state: 'leader',
+    isHealthy: active.length * 3 > db.validators.length * 2,
+    activeValidators: active.length,
+    totalValidators: db.validators.length,
+  };
+};
+
+export const toNetworkMetrics = (db: MockDatabase): NetworkMetrics => {
+  const nodesByType = { validator: db.validators.length, business: 24, slim: 48 };
+  const totalNodes = Object.values(nodesByType).reduce((sum, count) => sum + count, 0);
+  return {
+    totalNodes,
+    activeNodes: totalNodes - db.random.int(0, 3),
+    networkLatencyMs: db.random.float(8, 24),
+    bandwidthUtilization: db.random.float(35, 70),
+    totalConnections: totalNodes * 6,
+    nodesByType,
+  };
+};
+
+export const toChannelMetrics = (db: MockDatabase): ChannelMetrics => ({
+  totalChannels: db.channels.length,
+  activeChannels: db.channels.filter((channel) => channel.status === 'active').length,
+  totalConnections: db.channels.reduce((sum, channel) => sum + channel.nodeCount * 4, 0),
+  activeConnections: db.channels.reduce((sum, channel) => sum + channel.nodeCount * 3, 0),
+  totalPacketsTransferred: db.counters.totalTransactions * 3,
+  totalBytesTransferred: db.counters.totalTransactions * 512,
+  avgLatencyMs: db.random.float(4, 12),
+});
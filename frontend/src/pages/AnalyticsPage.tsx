@@ -49,10 +49,10 @@ export const AnalyticsPage: React.FC = () => {
         // Generate mock analytics data based on time range
         const hours = timeRange === '24h' ? 24 : timeRange === '7d' ? 168 : 720;
         const mockData: AnalyticsData[] = Array.from({ length: hours }, (_, i) => ({
-          timestamp: new Date(Date.now() - (hours - i) * 3600000).toLocaleTimeString(
-            'en-US',
-            { hour: '2-digit', minute: '2-digit' }
-          ),
+          timestamp: new Date(Date.now() - (hours - i) * 3600000).toLocaleTimeString('en-US', {
+            hour: '2-digit',
+            minute: '2-digit',
+          }),
           transactions: Math.floor(Math.random() * 50000) + 10000,
           tps: Math.floor(Math.random() * 200000) + 50000,
           latency: Math.floor(Math.random() * 500) + 50,
@@ -62,9 +62,7 @@ export const AnalyticsPage: React.FC = () => {
 
         setData(mockData);
       } catch (err) {
-        setError(
-          err instanceof Error ? err.message : 'Failed to load analytics'
-        );
+        setError(err instanceof Error ? err.message : 'Failed to load analytics');
       } finally {
         setLoading(false);
       }
@@ -98,12 +96,7 @@ export const AnalyticsPage: React.FC = () => {
 
   if (loading) {
     return (
-      <Box
-        display="flex"
-        justifyContent="center"
-        alignItems="center"
-        minHeight="100vh"
-      >
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="100vh">
         <CircularProgress />
       </Box>
     );
@@ -113,11 +106,7 @@ export const AnalyticsPage: React.FC = () => {
     <Container maxWidth="lg" sx={{ py: 4 }}>
       <Box sx={{ mb: 4, display: 'flex', justifyContent: 'space-between' }}>
         <Typography variant="h4">Analytics</Typography>
-        <Button
-          variant="contained"
-          startIcon={<DownloadIcon />}
-          onClick={handleExport}
-        >
+        <Button variant="contained" startIcon={<DownloadIcon />} onClick={handleExport}>
           Export CSV
         </Button>
       </Box>
@@ -157,9 +146,7 @@ export const AnalyticsPage: React.FC = () => {
               Avg TPS
             </Typography>
             <Typography variant="h5">
-              {Math.round(
-                data.reduce((sum, d) => sum + d.tps, 0) / data.length
-              ).toLocaleString()}
+              {Math.round(data.reduce((sum, d) => sum + d.tps, 0) / data.length).toLocaleString()}
             </Typography>
           </Paper>
         </Grid>
@@ -169,9 +156,7 @@ export const AnalyticsPage: React.FC = () => {
               Avg Latency
             </Typography>
             <Typography variant="h5">
-              {Math.round(
-                data.reduce((sum, d) => sum + d.latency, 0) / data.length
-              )}
+              {Math.round(data.reduce((sum, d) => sum + d.latency, 0) / data.length)}
               ms
             </Typography>
           </Paper>
@@ -181,9 +166,7 @@ export const AnalyticsPage: React.FC = () => {
             <Typography color="textSecondary" gutterBottom>
               Total Errors
             </Typography>
-            <Typography variant="h5">
-              {data.reduce((sum, d) => sum + d.errors, 0)}
-            </Typography>
+            <Typography variant="h5">{data.reduce((sum, d) => sum + d.errors, 0)}</Typography>
           </Paper>
         </Grid>
       </Grid>
@@ -226,12 +209,7 @@ export const AnalyticsPage: React.FC = () => {
                 <YAxis />
                 <Tooltip />
                 <Legend />
-                <Line
-                  type="monotone"
-                  dataKey="tps"
-                  stroke="#82ca9d"
-                  isAnimationActive={false}
-                />
+                <Line type="monotone" dataKey="tps" stroke="#82ca9d" isAnimationActive={false} />
               </LineChart>
             </ResponsiveContainer>
           </Paper>
@@ -249,11 +227,7 @@ export const AnalyticsPage: React.FC = () => {
                 <YAxis />
                 <Tooltip />
                 <Legend />
-                <Bar
-                  dataKey="latency"
-                  fill="#ffc658"
-                  isAnimationActive={false}
-                />
+                <Bar dataKey="latency" fill="#ffc658" isAnimationActive={false} />
               </BarChart>
             </ResponsiveContainer>
           </Paper>
@@ -271,11 +245,7 @@ export const AnalyticsPage: React.FC = () => {
                 <YAxis />
                 <Tooltip />
                 <Legend />
-                <Bar
-                  dataKey="errors"
-                  fill="#ff7c7c"
-                  isAnimationActive={false}
-                />
+                <Bar dataKey="errors" fill="#ff7c7c" isAnimationActive={false} />
               </BarChart>
             </ResponsiveContainer>
           </Paper>
@@ -1,15 +1,9 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import {
   Box,
   Container,
   TextField,
   Button,
-  Table,
-  TableBody,
-  TableCell,
-  TableContainer,
-  TableHead,
-  TableRow,
   Paper,
   Typography,
   Dialog,
@@ -20,9 +14,7 @@ import {
   Alert,
   Stack,
   Chip,
-  IconButton,
 } from '@mui/material';
-import { Delete as DeleteIcon, Edit as EditIcon } from '@mui/icons-material';
 import { useAppManagement } from '../hooks/useAppManagement';
 import { AppCard } from '../components/AppCard';
 
@@ -35,16 +27,19 @@ interface App {
   tps: number;
 }
 
+type StatusFilter = 'all' | App['status'];
+type SortKey = 'name' | 'created' | 'tps';
+
+const STATUS_FILTERS: StatusFilter[] = ['all', 'active', 'inactive', 'pending'];
+const SORT_KEYS: SortKey[] = ['name', 'created', 'tps'];
+
 export const AppListPage: React.FC = () => {
   const [apps, setApps] = useState<App[]>([]);
-  const [filteredApps, setFilteredApps] = useState<App[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
-  const [filterStatus, setFilterStatus] = useState<
-    'all' | 'active' | 'inactive' | 'pending'
-  >('all');
-  const [sortBy, setSortBy] = useState<'name' | 'created' | 'tps'>('name');
+  const [filterStatus, setFilterStatus] = useState<StatusFilter>('all');
+  const [sortBy, setSortBy] = useState<SortKey>('name');
   const [openDialog, setOpenDialog] = useState(false);
   const [newAppName, setNewAppName] = useState('');
 
@@ -56,11 +51,8 @@ export const AppListPage: React.FC = () => {
         setLoading(true);
         const data = await fetchApps();
         setApps(data);
-        applyFilters(data, searchTerm, filterStatus, sortBy);
       } catch (err) {
-        setError(
-          err instanceof Error ? err.message : 'Failed to load apps'
-        );
+        setError(err instanceof Error ? err.message : 'Failed to load apps');
       } finally {
         setLoading(false);
       }
@@ -69,60 +61,25 @@ export const AppListPage: React.FC = () => {
     loadApps();
   }, [fetchApps]);
 
-  const applyFilters = (
-    data: App[],
-    search: string,
-    status: string,
-    sort: string
-  ) => {
-    let filtered = data;
-
-    // Apply search filter
-    if (search) {
-      filtered = filtered.filter((app) =>
-        app.name.toLowerCase().includes(search.toLowerCase())
-      );
-    }
-
-    // Apply status filter
-    if (status !== 'all') {
-      filtered = filtered.filter((app) => app.status === status);
-    }
+  const filteredApps = useMemo(() => {
+    const search = searchTerm.toLowerCase();
+    const filtered = apps.filter(
+      (app) =>
+        app.name.toLowerCase().includes(search) &&
+        (filterStatus === 'all' || app.status === filterStatus)
+    );
 
-    // Apply sorting
-    switch (sort) {
+    switch (sortBy) {
       case 'name':
-        filtered.sort((a, b) => a.name.localeCompare(b.name));
-        break;
+        return filtered.sort((a, b) => a.name.localeCompare(b.name));
       case 'created':
-        filtered.sort(
-          (a, b) =>
-            new Date(b.createdAt).getTime() -
-            new Date(a.createdAt).getTime()
+        return filtered.sort(
+          (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
         );
-        break;
       case 'tps':
-        filtered.sort((a, b) => b.tps - a.tps);
-        break;
+        return filtered.sort((a, b) => b.tps - a.tps);
     }
-
-    setFilteredApps(filtered);
-  };
-
-  const handleSearch = (value: string) => {
-    setSearchTerm(value);
-    applyFilters(apps, value, filterStatus, sortBy);
-  };
-
-  const handleFilterChange = (status: string) => {
-    setFilterStatus(status as any);
-    applyFilters(apps, searchTerm, status, sortBy);
-  };
-
-  const handleSortChange = (sort: string) => {
-    setSortBy(sort as any);
-    applyFilters(apps, searchTerm, filterStatus, sort);
-  };
+  }, [apps, searchTerm, filterStatus, sortBy]);
 
   const handleCreateApp = async () => {
     if (!newAppName.trim()) {
@@ -132,13 +89,10 @@ export const AppListPage: React.FC = () => {
     try {
       const newApp = await createApp({ name: newAppName });
       setApps([...apps, newApp]);
-      applyFilters([...apps, newApp], searchTerm, filterStatus, sortBy);
       setNewAppName('');
       setOpenDialog(false);
     } catch (err) {
-      setError(
-        err instanceof Error ? err.message : 'Failed to create app'
-      );
+      setError(err instanceof Error ? err.message : 'Failed to create app');
     }
   };
 
@@ -149,24 +103,15 @@ export const AppListPage: React.FC = () => {
 
     try {
       await deleteApp(appId);
-      const updated = apps.filter((app) => app.id !== appId);
-      setApps(updated);
-      applyFilters(updated, searchTerm, filterStatus, sortBy);
+      setApps(apps.filter((app) => app.id !== appId));
     } catch (err) {
-      setError(
-        err instanceof Error ? err.message : 'Failed to delete app'
-      );
+      setError(err instanceof Error ? err.message : 'Failed to delete app');
     }
   };
 
   if (loading) {
     return (
-      <Box
-        display="flex"
-        justifyContent="center"
-        alignItems="center"
-        minHeight="100vh"
-      >
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="100vh">
         <CircularProgress />
       </Box>
     );
@@ -189,7 +134,7 @@ export const AppListPage: React.FC = () => {
             <TextField
               placeholder="Search apps..."
               value={searchTerm}
-              onChange={(e) => handleSearch(e.target.value)}
+              onChange={(e) => setSearchTerm(e.target.value)}
               size="small"
               sx={{ flex: 1, minWidth: 200 }}
             />
@@ -200,25 +145,23 @@ export const AppListPage: React.FC = () => {
 
           <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
             <Typography sx={{ alignSelf: 'center' }}>Filter:</Typography>
-            {['all', 'active', 'inactive', 'pending'].map((status) => (
+            {STATUS_FILTERS.map((status) => (
               <Chip
                 key={status}
                 label={status}
-                onClick={() => handleFilterChange(status)}
-                variant={
-                  filterStatus === status ? 'filled' : 'outlined'
-                }
+                onClick={() => setFilterStatus(status)}
+                variant={filterStatus === status ? 'filled' : 'outlined'}
               />
             ))}
           </Box>
 
           <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
             <Typography sx={{ alignSelf: 'center' }}>Sort:</Typography>
-            {['name', 'created', 'tps'].map((sort) => (
+            {SORT_KEYS.map((sort) => (
               <Chip
                 key={sort}
                 label={sort}
-                onClick={() => handleSortChange(sort)}
+                onClick={() => setSortBy(sort)}
                 variant={sortBy === sort ? 'filled' : 'outlined'}
               />
             ))}
@@ -245,9 +188,7 @@ export const AppListPage: React.FC = () => {
         </Box>
       ) : (
         <Paper sx={{ p: 4, textAlign: 'center' }}>
-          <Typography color="textSecondary">
-            No apps found. Create one to get started.
-          </Typography>
+          <Typography color="textSecondary">No apps found. Create one to get started.</Typography>
         </Paper>
       )}
 
@@ -20,10 +20,7 @@ import {
   Card,
   CardContent,
 } from '@mui/material';
-import {
-  Download as DownloadIcon,
-  Visibility as VisibilityIcon,
-} from '@mui/icons-material';
+import { Download as DownloadIcon } from '@mui/icons-material';
 
 interface Invoice {
   id: string;
@@ -50,7 +47,6 @@ export const BillingPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [page, setPage] = useState(0);
   const [rowsPerPage, setRowsPerPage] = useState(10);
-  const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
 
   useEffect(() => {
     const loadBillingData = async () => {
@@ -60,13 +56,9 @@ export const BillingPage: React.FC = () => {
         // Mock invoices
         const mockInvoices: Invoice[] = Array.from({ length: 25 }, (_, i) => ({
           id: `INV-${String(i + 1).padStart(5, '0')}`,
-          date: new Date(
-            Date.now() - i * 30 * 24 * 3600000
-          ).toLocaleDateString(),
+          date: new Date(Date.now() - i * 30 * 24 * 3600000).toLocaleDateString(),
           amount: Math.floor(Math.random() * 500) + 100,
-          status: ['paid', 'pending', 'failed'][
-            Math.floor(Math.random() * 3)
-          ] as any,
+          status: ['paid', 'pending', 'failed'][Math.floor(Math.random() * 3)] as Invoice['status'],
           description: `Monthly subscription for ${new Date(
             Date.now() - i * 30 * 24 * 3600000
           ).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}`,
@@ -104,9 +96,7 @@ export const BillingPage: React.FC = () => {
         setInvoices(mockInvoices);
         setPaymentMethods(mockPaymentMethods);
       } catch (err) {
-        setError(
-          err instanceof Error ? err.message : 'Failed to load billing data'
-        );
+        setError(err instanceof Error ? err.message : 'Failed to load billing data');
       } finally {
         setLoading(false);
       }
@@ -115,13 +105,11 @@ export const BillingPage: React.FC = () => {
     loadBillingData();
   }, []);
 
-  const handleChangePage = (event: unknown, newPage: number) => {
+  const handleChangePage = (_event: unknown, newPage: number) => {
     setPage(newPage);
   };
 
-  const handleChangeRowsPerPage = (
-    event: React.ChangeEvent<HTMLInputElement>
-  ) => {
+  const handleChangeRowsPerPage = (event: React.ChangeEvent<HTMLInputElement>) => {
     setRowsPerPage(parseInt(event.target.value, 10));
     setPage(0);
   };
@@ -141,21 +129,13 @@ export const BillingPage: React.FC = () => {
 
   if (loading) {
     return (
-      <Box
-        display="flex"
-        justifyContent="center"
-        alignItems="center"
-        minHeight="100vh"
-      >
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="100vh">
         <CircularProgress />
       </Box>
     );
   }
 
-  const displayedInvoices = invoices.slice(
-    page * rowsPerPage,
-    page * rowsPerPage + rowsPerPage
-  );
+  const displayedInvoices = invoices.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage);
 
   return (
     <Container maxWidth="lg" sx={{ py: 4 }}>
@@ -223,9 +203,7 @@ export const BillingPage: React.FC = () => {
                   </Typography>
                 </Box>
                 <Box>
-                  {method.isDefault && (
-                    <Chip label="Default" size="small" color="primary" />
-                  )}
+                  {method.isDefault && <Chip label="Default" size="small" color="primary" />}
                 </Box>
               </CardContent>
             </Card>
@@ -257,9 +235,7 @@ export const BillingPage: React.FC = () => {
                   <TableCell>{invoice.id}</TableCell>
                   <TableCell>{invoice.date}</TableCell>
                   <TableCell>{invoice.description}</TableCell>
-                  <TableCell align="right">
-                    ${invoice.amount.toFixed(2)}
-                  </TableCell>
+                  <TableCell align="right">${invoice.amount.toFixed(2)}</TableCell>
                   <TableCell>
                     <Chip
                       label={invoice.status}
@@ -29,8 +29,11 @@ const Login = () => {
   // Redirect if already authenticated
   useEffect(() => {
     if (isAuthenticated) {
-      const returnUrl = searchParams.get('returnUrl') || '/home';
-      navigate(returnUrl);
+      // Only follow same-origin paths, so returnUrl can't bounce users off-site
+      const requested = searchParams.get('returnUrl');
+      const returnUrl =
+        requested && requested.startsWith('/') && !requested.startsWith('//') ? requested : '/';
+      navigate(returnUrl, { replace: true });
     }
   }, [isAuthenticated, navigate, searchParams]);
 
@@ -46,8 +49,8 @@ const Login = () => {
         setLocalError(result.payload as string);
         message.error(result.payload as string);
       }
-    } catch (err: any) {
-      const errorMsg = err.message || 'Login failed';
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Login failed';
       setLocalError(errorMsg);
       message.error(errorMsg);
     }
@@ -70,8 +73,8 @@ const Login = () => {
         setLocalError(result.payload as string);
         message.error(result.payload as string);
       }
-    } catch (err: any) {
-      const errorMsg = err.message || 'Demo login failed';
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Demo login failed';
       setLocalError(errorMsg);
       message.error(errorMsg);
     }
@@ -13,7 +13,6 @@ import {
 import {
   LineChart,
   Line,
-  BarChart,
   Bar,
   XAxis,
   YAxis,
@@ -46,8 +45,7 @@ interface LatencyPercentiles {
 
 export const PerformanceMetricsPage: React.FC = () => {
   const [metricsData, setMetricsData] = useState<PerformanceMetrics[]>([]);
-  const [latencyPercentiles, setLatencyPercentiles] =
-    useState<LatencyPercentiles | null>(null);
+  const [latencyPercentiles, setLatencyPercentiles] = useState<LatencyPercentiles | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [timeRange, setTimeRange] = useState<'1h' | '24h' | '7d'>('24h');
@@ -60,9 +58,10 @@ export const PerformanceMetricsPage: React.FC = () => {
         // Generate mock performance data
         const hours = timeRange === '1h' ? 12 : timeRange === '24h' ? 24 : 168;
         const mockData: PerformanceMetrics[] = Array.from({ length: hours }, (_, i) => ({
-          timestamp: new Date(
-            Date.now() - (hours - i) * 3600000
-          ).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }),
+          timestamp: new Date(Date.now() - (hours - i) * 3600000).toLocaleTimeString('en-US', {
+            hour: '2-digit',
+            minute: '2-digit',
+          }),
           tps: Math.floor(Math.random() * 200000) + 100000,
           latency: Math.floor(Math.random() * 300) + 50,
           finality: Math.floor(Math.random() * 200) + 100,
@@ -75,15 +74,13 @@ export const PerformanceMetricsPage: React.FC = () => {
         // Calculate percentiles
         const latencies = mockData.map((m) => m.latency).sort((a, b) => a - b);
         setLatencyPercentiles({
-          p50: latencies[Math.floor(latencies.length * 0.5)],
-          p95: latencies[Math.floor(latencies.length * 0.95)],
-          p99: latencies[Math.floor(latencies.length * 0.99)],
-          max: latencies[latencies.length - 1],
+          p50: latencies[Math.floor(latencies.length * 0.5)] ?? 0,
+          p95: latencies[Math.floor(latencies.length * 0.95)] ?? 0,
+          p99: latencies[Math.floor(latencies.length * 0.99)] ?? 0,
+          max: latencies[latencies.length - 1] ?? 0,
         });
       } catch (err) {
-        setError(
-          err instanceof Error ? err.message : 'Failed to load metrics'
-        );
+        setError(err instanceof Error ? err.message : 'Failed to load metrics');
       } finally {
         setLoading(false);
       }
@@ -117,20 +114,13 @@ export const PerformanceMetricsPage: React.FC = () => {
 
   if (loading) {
     return (
-      <Box
-        display="flex"
-        justifyContent="center"
-        alignItems="center"
-        minHeight="100vh"
-      >
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="100vh">
         <CircularProgress />
       </Box>
     );
   }
 
-  const avgTPS = Math.round(
-    metricsData.reduce((sum, m) => sum + m.tps, 0) / metricsData.length
-  );
+  const avgTPS = Math.round(metricsData.reduce((sum, m) => sum + m.tps, 0) / metricsData.length);
   const avgLatency = Math.round(
     metricsData.reduce((sum, m) => sum + m.latency, 0) / metricsData.length
   );
@@ -176,11 +166,7 @@ export const PerformanceMetricsPage: React.FC = () => {
     <Container maxWidth="lg" sx={{ py: 4 }}>
       <Box sx={{ mb: 4, display: 'flex', justifyContent: 'space-between' }}>
         <Typography variant="h4">Performance Metrics</Typography>
-        <Button
-          variant="contained"
-          startIcon={<DownloadIcon />}
-          onClick={handleExport}
-        >
+        <Button variant="contained" startIcon={<DownloadIcon />} onClick={handleExport}>
           Export CSV
         </Button>
       </Box>
@@ -292,9 +278,7 @@ export const PerformanceMetricsPage: React.FC = () => {
       {/* Latency Analysis */}
       <Grid container spacing={3} sx={{ mt: 2 }}>
         <Grid item xs={12} md={6}>
-          {latencyPercentiles && (
-            <LatencyHistogram percentiles={latencyPercentiles} />
-          )}
+          {latencyPercentiles && <LatencyHistogram percentiles={latencyPercentiles} />}
         </Grid>
 
         <Grid item xs={12} md={6}>
@@ -23,10 +23,7 @@ import {
   TableRow,
   Paper,
 } from '@mui/material';
-import {
-  Check as CheckIcon,
-  Close as CloseIcon,
-} from '@mui/icons-material';
+import { Check as CheckIcon } from '@mui/icons-material';
 
 interface Plan {
   id: string;
@@ -137,9 +134,7 @@ export const PlansPage: React.FC = () => {
 
         setPlans(mockPlans);
       } catch (err) {
-        setError(
-          err instanceof Error ? err.message : 'Failed to load plans'
-        );
+        setError(err instanceof Error ? err.message : 'Failed to load plans');
       } finally {
         setLoading(false);
       }
@@ -150,12 +145,7 @@ export const PlansPage: React.FC = () => {
 
   if (loading) {
     return (
-      <Box
-        display="flex"
-        justifyContent="center"
-        alignItems="center"
-        minHeight="100vh"
-      >
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="100vh">
         <CircularProgress />
       </Box>
     );
@@ -262,10 +252,7 @@ export const PlansPage: React.FC = () => {
                 </CardContent>
 
                 <CardActions>
-                  <Button
-                    fullWidth
-                    variant={plan.popular ? 'contained' : 'outlined'}
-                  >
+                  <Button fullWidth variant={plan.popular ? 'contained' : 'outlined'}>
                     Choose Plan
                   </Button>
                 </CardActions>
@@ -310,9 +297,7 @@ export const PlansPage: React.FC = () => {
                 <TableCell>Storage</TableCell>
                 {plans.map((plan) => (
                   <TableCell key={plan.id} align="center">
-                    {plan.limits.storage === Infinity
-                      ? 'Unlimited'
-                      : `${plan.limits.storage}GB`}
+                    {plan.limits.storage === Infinity ? 'Unlimited' : `${plan.limits.storage}GB`}
                   </TableCell>
                 ))}
               </TableRow>
@@ -320,9 +305,7 @@ export const PlansPage: React.FC = () => {
                 <TableCell>Users</TableCell>
                 {plans.map((plan) => (
                   <TableCell key={plan.id} align="center">
-                    {plan.limits.users === Infinity
-                      ? 'Unlimited'
-                      : plan.limits.users}
+                    {plan.limits.users === Infinity ? 'Unlimited' : plan.limits.users}
                   </TableCell>
                 ))}
               </TableRow>
@@ -333,8 +316,8 @@ export const PlansPage: React.FC = () => {
                     {plan.id === 'starter'
                       ? 'Email'
                       : plan.id === 'professional'
-                      ? 'Priority'
-                      : '24/7 Phone'}
+                        ? 'Priority'
+                        : '24/7 Phone'}
                   </TableCell>
                 ))}
               </TableRow>
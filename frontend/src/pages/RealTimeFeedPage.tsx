@@ -1,4 +1,4 @@
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import {
   Box,
   Container,
@@ -14,39 +14,40 @@ import {
   ListItemText,
   Divider,
 } from '@mui/material';
-import { Pause as PauseIcon, PlayArrow as PlayIcon } from '@mui/icons-icons';
-import { useWebSocket } from '../hooks/useWebSocket';
+import { Pause as PauseIcon, PlayArrow as PlayIcon } from '@mui/icons-material';
+import { useAppSelector } from '../hooks/useRedux';
+import { useSharedLiveChannel } from '../hooks/useSharedLiveChannel';
+import type { RootState, Transaction } from '../types/state';
 
-interface RealtimeTransaction {
-  id: string;
-  timestamp: string;
-  sender: string;
-  receiver: string;
-  amount: number;
-  status: 'confirmed' | 'pending';
-}
+type RealtimeTransaction = Pick<
+  Transaction,
+  'id' | 'timestamp' | 'from' | 'to' | 'amount' | 'status'
+>;
+
+const MAX_FEED_LENGTH = 100;
 
 export const RealTimeFeedPage: React.FC = () => {
+  // Events arrive through the connection shared by all open tabs
+  const { isConnected, error } = useSharedLiveChannel('transactions');
+  const liveTransactions = useAppSelector((state: RootState) => state.liveData.transactions);
+
   const [transactions, setTransactions] = useState<RealtimeTransaction[]>([]);
   const [isLive, setIsLive] = useState(true);
   const [tpsCount, setTpsCount] = useState(0);
-  const [error, setError] = useState<string | null>(null);
   const txCountRef = useRef(0);
-
-  const { connect, disconnect, isConnected, on } = useWebSocket();
+  const newestIdRef = useRef(liveTransactions[0]?.id);
 
   useEffect(() => {
-    // Connect to WebSocket
-    const ws = connect('wss://dlt.aurigraph.io/api/v12/realtime');
-
-    // Listen for new transactions
-    on('transaction', (data: RealtimeTransaction) => {
-      if (isLive) {
-        setTransactions((prev) => [data, ...prev.slice(0, 99)]);
-        txCountRef.current++;
-      }
-    });
+    // Transactions ahead of the newest one already seen arrived since;
+    // those that arrive while paused are neither shown nor counted
+    const seen = liveTransactions.findIndex((tx) => tx.id === newestIdRef.current);
+    newestIdRef.current = liveTransactions[0]?.id;
+    if (!isLive) return;
+    txCountRef.current += seen === -1 ? liveTransactions.length : seen;
+    setTransactions(liveTransactions.slice(0, MAX_FEED_LENGTH));
+  }, [isLive, liveTransactions]);
 
+  useEffect(() => {
     // Calculate TPS every second
     const tpsInterval = setInterval(() => {
       setTpsCount(txCountRef.current);
@@ -55,15 +56,15 @@ export const RealTimeFeedPage: React.FC = () => {
 
     return () => {
       clearInterval(tpsInterval);
-      disconnect();
     };
-  }, [connect, disconnect, on, isLive]);
+  }, []);
 
   const toggleLive = () => {
     setIsLive(!isLive);
   };
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: RealtimeTransaction['status']) => {
+    if (status === 'failed') return 'error';
     return status === 'confirmed' ? 'success' : 'warning';
   };
 
@@ -73,12 +74,10 @@ export const RealTimeFeedPage: React.FC = () => {
         <Typography variant="h4" gutterBottom>
           Real-Time Transaction Feed
         </Typography>
-        <Typography color="textSecondary">
-          Live blockchain transaction stream
-        </Typography>
+        <Typography color="textSecondary">Live blockchain transaction stream</Typography>
       </Box>
 
-      {error && <Alert severity="error">{error}</Alert>}
+      {error && <Alert severity="error">{error.message}</Alert>}
 
       {/* Live Stats */}
       <Paper sx={{ p: 3, mb: 4 }}>
@@ -150,13 +149,15 @@ export const RealTimeFeedPage: React.FC = () => {
                     secondary={
                       <Stack spacing={0.5} sx={{ mt: 1 }}>
                         <Typography variant="caption" color="textSecondary">
-                          From: <span style={{ fontFamily: 'monospace' }}>
-                            {tx.sender.substring(0, 12)}...
+                          From:{' '}
+                          <span style={{ fontFamily: 'monospace' }}>
+                            {tx.from.substring(0, 12)}...
                           </span>
                         </Typography>
                         <Typography variant="caption" color="textSecondary">
-                          To: <span style={{ fontFamily: 'monospace' }}>
-                            {tx.receiver.substring(0, 12)}...
+                          To:{' '}
+                          <span style={{ fontFamily: 'monospace' }}>
+                            {tx.to.substring(0, 12)}...
                           </span>
                         </Typography>
                         <Typography variant="caption">
@@ -174,9 +175,7 @@ export const RealTimeFeedPage: React.FC = () => {
             {isConnected ? (
               <Box>
                 <CircularProgress size={40} sx={{ mb: 2 }} />
-                <Typography color="textSecondary">
-                  Waiting for transactions...
-                </Typography>
+                <Typography color="textSecondary">Waiting for transactions...</Typography>
               </Box>
             ) : (
               <Alert severity="warning">
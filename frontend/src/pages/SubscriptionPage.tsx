@@ -4,7 +4,6 @@ import {
   Container,
   Typography,
   Button,
-  Paper,
   Dialog,
   DialogTitle,
   DialogContent,
@@ -20,84 +19,53 @@ import {
   ListItem,
   ListItemIcon,
   ListItemText,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow,
+  TextField,
+  Chip,
 } from '@mui/material';
-import {
-  Check as CheckIcon,
-  Cancel as CancelIcon,
-} from '@mui/icons-material';
-
-interface Subscription {
-  id: string;
-  planName: string;
-  planId: string;
-  status: 'active' | 'canceled' | 'paused';
-  price: number;
-  billingCycle: 'monthly' | 'yearly';
-  startDate: string;
-  renewalDate: string;
-  features: string[];
-}
-
-interface UpgradePath {
-  planId: string;
-  planName: string;
-  price: number;
-  priceIncrease: number;
-  prorationCredit: number;
-}
+import { Check as CheckIcon } from '@mui/icons-material';
+import { subscriptionApi, Plan, ProrationPreview, Subscription } from '../services/subscriptionApi';
+
+type ConfirmAction = 'change' | 'pause' | 'resume' | 'cancel';
+
+const STATUS_COLORS: Record<Subscription['status'], { background: string; color: string }> = {
+  active: { background: '#c8e6c9', color: '#2e7d32' },
+  paused: { background: '#fff3e0', color: '#ef6c00' },
+  canceled: { background: '#ffccbc', color: '#d84315' },
+};
+
+const formatAmount = (amount: number): string => `$${amount.toFixed(2)}`;
 
 export const SubscriptionPage: React.FC = () => {
   const [subscription, setSubscription] = useState<Subscription | null>(null);
-  const [upgradePaths, setUpgradePaths] = useState<UpgradePath[]>([]);
+  const [plans, setPlans] = useState<Plan[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [openUpgradeDialog, setOpenUpgradeDialog] = useState(false);
-  const [openCancelDialog, setOpenCancelDialog] = useState(false);
-  const [selectedUpgrade, setSelectedUpgrade] = useState<UpgradePath | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const [dialog, setDialog] = useState<ConfirmAction | null>(null);
+  const [dialogError, setDialogError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [selectedPlan, setSelectedPlan] = useState<Plan | null>(null);
+  const [preview, setPreview] = useState<ProrationPreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [cancelReason, setCancelReason] = useState('');
 
   useEffect(() => {
     const loadSubscriptionData = async () => {
       try {
         setLoading(true);
-
-        // Mock current subscription
-        const mockSubscription: Subscription = {
-          id: 'sub-123456',
-          planName: 'Professional',
-          planId: 'professional',
-          status: 'active',
-          price: 99,
-          billingCycle: 'monthly',
-          startDate: '2024-01-15',
-          renewalDate: '2025-01-15',
-          features: [
-            'Up to 1M transactions/month',
-            'Advanced API access',
-            'Priority support',
-            '100GB storage',
-            'Up to 10 users',
-            'Custom integrations',
-            'Advanced analytics',
-          ],
-        };
-
-        // Mock upgrade paths
-        const mockUpgradePaths: UpgradePath[] = [
-          {
-            planId: 'enterprise',
-            planName: 'Enterprise',
-            price: 499,
-            priceIncrease: 400,
-            prorationCredit: 33, // ~1 month of difference
-          },
-        ];
-
-        setSubscription(mockSubscription);
-        setUpgradePaths(mockUpgradePaths);
+        const [currentSubscription, availablePlans] = await Promise.all([
+          subscriptionApi.getCurrentSubscription(),
+          subscriptionApi.getPlans(),
+        ]);
+        setSubscription(currentSubscription);
+        setPlans(availablePlans);
       } catch (err) {
-        setError(
-          err instanceof Error ? err.message : 'Failed to load subscription'
-        );
+        setError(err instanceof Error ? err.message : 'Failed to load subscription');
       } finally {
         setLoading(false);
       }
@@ -106,48 +74,76 @@ export const SubscriptionPage: React.FC = () => {
     loadSubscriptionData();
   }, []);
 
-  const handleUpgrade = () => {
-    setOpenUpgradeDialog(true);
+  const openDialog = (action: ConfirmAction) => {
+    setDialog(action);
+    setDialogError(null);
+    setSelectedPlan(null);
+    setPreview(null);
+    setCancelReason('');
   };
 
-  const handleConfirmUpgrade = async () => {
-    if (!selectedUpgrade) return;
+  const closeDialog = () => {
+    if (!submitting) setDialog(null);
+  };
+
+  const handleSelectPlan = async (plan: Plan) => {
+    setSelectedPlan(plan);
+    setPreview(null);
+    setDialogError(null);
+    setPreviewLoading(true);
     try {
-      // API call to upgrade subscription
-      setOpenUpgradeDialog(false);
+      setPreview(await subscriptionApi.previewPlanChange(plan.id));
     } catch (err) {
-      setError(
-        err instanceof Error ? err.message : 'Failed to upgrade subscription'
-      );
+      setDialogError(err instanceof Error ? err.message : 'Failed to preview plan change');
+    } finally {
+      setPreviewLoading(false);
     }
   };
 
-  const handleCancel = () => {
-    setOpenCancelDialog(true);
-  };
-
-  const handleConfirmCancel = async () => {
+  /**
+   * Run a confirmed subscription action and show the updated subscription
+   */
+  const runAction = async (action: () => Promise<Subscription>, successMessage: string) => {
+    setSubmitting(true);
+    setDialogError(null);
     try {
-      // API call to cancel subscription
-      if (subscription) {
-        setSubscription({ ...subscription, status: 'canceled' });
-      }
-      setOpenCancelDialog(false);
+      setSubscription(await action());
+      setNotice(successMessage);
+      setDialog(null);
     } catch (err) {
-      setError(
-        err instanceof Error ? err.message : 'Failed to cancel subscription'
-      );
+      setDialogError(err instanceof Error ? err.message : 'Subscription update failed');
+    } finally {
+      setSubmitting(false);
     }
   };
 
+  const handleConfirmChange = () => {
+    if (!preview) return;
+    const { planId, planName, direction } = preview;
+    runAction(
+      () =>
+        direction === 'upgrade'
+          ? subscriptionApi.upgradeSubscription(planId)
+          : subscriptionApi.downgradeSubscription(planId),
+      `Your plan was ${direction}d to ${planName}.`
+    );
+  };
+
+  const handleConfirmPause = () =>
+    runAction(() => subscriptionApi.pauseSubscription(), 'Your subscription is paused.');
+
+  const handleConfirmResume = () =>
+    runAction(() => subscriptionApi.resumeSubscription(), 'Your subscription is active again.');
+
+  const handleConfirmCancel = () =>
+    runAction(
+      () => subscriptionApi.cancelSubscription(cancelReason.trim() || undefined),
+      'Your subscription was canceled.'
+    );
+
   if (loading) {
     return (
-      <Box
-        display="flex"
-        justifyContent="center"
-        alignItems="center"
-        minHeight="100vh"
-      >
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="100vh">
         <CircularProgress />
       </Box>
     );
@@ -156,18 +152,37 @@ export const SubscriptionPage: React.FC = () => {
   if (!subscription) {
     return (
       <Container maxWidth="lg" sx={{ py: 4 }}>
-        <Alert severity="info">No active subscription</Alert>
+        {error ? (
+          <Alert severity="error">{error}</Alert>
+        ) : (
+          <Alert severity="info">No active subscription</Alert>
+        )}
       </Container>
     );
   }
 
+  const otherPlans = plans.filter(
+    (plan) => plan.id !== subscription.planId && plan.billingCycle === subscription.billingCycle
+  );
+  const cycleLabel = subscription.billingCycle === 'monthly' ? 'month' : 'year';
+  const statusColors = STATUS_COLORS[subscription.status];
+
   return (
     <Container maxWidth="lg" sx={{ py: 4 }}>
       <Typography variant="h4" gutterBottom sx={{ mb: 4 }}>
         Subscription Management
       </Typography>
 
-      {error && <Alert severity="error">{error}</Alert>}
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+      {notice && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setNotice(null)}>
+          {notice}
+        </Alert>
+      )}
 
       {/* Current Subscription Card */}
       <Card sx={{ mb: 4 }}>
@@ -178,7 +193,7 @@ export const SubscriptionPage: React.FC = () => {
                 {subscription.planName}
               </Typography>
               <Typography color="textSecondary">
-                ${subscription.price}/{subscription.billingCycle === 'monthly' ? 'month' : 'year'}
+                ${subscription.price}/{cycleLabel}
               </Typography>
             </Box>
             <Box>
@@ -186,21 +201,13 @@ export const SubscriptionPage: React.FC = () => {
                 sx={{
                   px: 2,
                   py: 1,
-                  backgroundColor:
-                    subscription.status === 'active'
-                      ? '#c8e6c9'
-                      : '#ffccbc',
-                  color:
-                    subscription.status === 'active'
-                      ? '#2e7d32'
-                      : '#d84315',
+                  backgroundColor: statusColors.background,
+                  color: statusColors.color,
                   borderRadius: 1,
                   textAlign: 'center',
                 }}
               >
-                <Typography variant="subtitle2">
-                  {subscription.status.toUpperCase()}
-                </Typography>
+                <Typography variant="subtitle2">{subscription.status.toUpperCase()}</Typography>
               </Box>
             </Box>
           </Box>
@@ -216,7 +223,7 @@ export const SubscriptionPage: React.FC = () => {
             </Grid>
             <Grid item xs={12} sm={6}>
               <Typography color="textSecondary" variant="caption">
-                Next Renewal
+                {subscription.status === 'canceled' ? 'Access Ends' : 'Next Renewal'}
               </Typography>
               <Typography>{subscription.renewalDate}</Typography>
             </Grid>
@@ -241,16 +248,29 @@ export const SubscriptionPage: React.FC = () => {
           <Stack direction="row" spacing={2}>
             <Button
               variant="contained"
-              onClick={handleUpgrade}
-              disabled={upgradePaths.length === 0}
+              onClick={() => openDialog('change')}
+              disabled={subscription.status !== 'active' || otherPlans.length === 0}
             >
-              Upgrade Plan
+              Change Plan
             </Button>
+            {subscription.status === 'paused' ? (
+              <Button variant="outlined" onClick={() => openDialog('resume')}>
+                Resume Subscription
+              </Button>
+            ) : (
+              <Button
+                variant="outlined"
+                onClick={() => openDialog('pause')}
+                disabled={subscription.status !== 'active'}
+              >
+                Pause Subscription
+              </Button>
+            )}
             <Button
               variant="outlined"
               color="error"
-              onClick={handleCancel}
-              disabled={subscription.status !== 'active'}
+              onClick={() => openDialog('cancel')}
+              disabled={subscription.status === 'canceled'}
             >
               Cancel Subscription
             </Button>
@@ -258,92 +278,186 @@ export const SubscriptionPage: React.FC = () => {
         </CardContent>
       </Card>
 
-      {/* Upgrade Dialog */}
-      <Dialog
-        open={openUpgradeDialog}
-        onClose={() => setOpenUpgradeDialog(false)}
-        fullWidth
-      >
-        <DialogTitle>Upgrade Your Plan</DialogTitle>
+      {/* Change Plan Dialog */}
+      <Dialog open={dialog === 'change'} onClose={closeDialog} fullWidth>
+        <DialogTitle>Change Your Plan</DialogTitle>
         <DialogContent>
-          <Typography sx={{ mb: 2 }}>
-            Choose the plan you want to upgrade to:
-          </Typography>
+          {dialogError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {dialogError}
+            </Alert>
+          )}
+          <Typography sx={{ mb: 2 }}>Choose the plan you want to switch to:</Typography>
           <Stack spacing={2}>
-            {upgradePaths.map((path) => (
+            {otherPlans.map((plan) => (
               <Card
-                key={path.planId}
-                variant={
-                  selectedUpgrade?.planId === path.planId
-                    ? 'elevation'
-                    : 'outlined'
-                }
+                key={plan.id}
+                variant={selectedPlan?.id === plan.id ? 'elevation' : 'outlined'}
                 sx={{
                   cursor: 'pointer',
-                  border:
-                    selectedUpgrade?.planId === path.planId
-                      ? '2px solid #1976d2'
-                      : '1px solid #e0e0e0',
+                  border: selectedPlan?.id === plan.id ? '2px solid #1976d2' : '1px solid #e0e0e0',
                   p: 2,
                 }}
-                onClick={() => setSelectedUpgrade(path)}
+                onClick={() => handleSelectPlan(plan)}
               >
                 <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
                   <Box>
-                    <Typography variant="h6">{path.planName}</Typography>
+                    <Typography variant="h6">{plan.name}</Typography>
                     <Typography color="textSecondary" variant="body2">
-                      ${path.price}/month
-                    </Typography>
-                  </Box>
-                  <Box sx={{ textAlign: 'right' }}>
-                    <Typography variant="subtitle2">
-                      +${path.priceIncrease}/month
-                    </Typography>
-                    <Typography color="textSecondary" variant="caption">
-                      Credit: -${path.prorationCredit}
+                      ${plan.price}/{cycleLabel}
                     </Typography>
                   </Box>
+                  <Chip
+                    size="small"
+                    label={plan.price > subscription.price ? 'Upgrade' : 'Downgrade'}
+                    color={plan.price > subscription.price ? 'primary' : 'default'}
+                  />
                 </Box>
               </Card>
             ))}
           </Stack>
+
+          {previewLoading && (
+            <Box display="flex" justifyContent="center" sx={{ mt: 3 }}>
+              <CircularProgress size={24} />
+            </Box>
+          )}
+
+          {preview && (
+            <Box sx={{ mt: 3 }}>
+              <Typography variant="subtitle2" gutterBottom>
+                Proration for the {preview.daysRemaining} of {preview.periodDays} days left in this
+                period
+              </Typography>
+              <Table size="small">
+                <TableBody>
+                  <TableRow>
+                    <TableCell>Credit for unused {subscription.planName} time</TableCell>
+                    <TableCell align="right">-{formatAmount(preview.unusedCredit)}</TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>{preview.planName} for the rest of the period</TableCell>
+                    <TableCell align="right">{formatAmount(preview.proratedCharge)}</TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>
+                      <strong>Due today</strong>
+                    </TableCell>
+                    <TableCell align="right">
+                      <strong>{formatAmount(preview.amountDueToday)}</strong>
+                    </TableCell>
+                  </TableRow>
+                  {preview.creditBalance > 0 && (
+                    <TableRow>
+                      <TableCell>Credit applied to your next invoice</TableCell>
+                      <TableCell align="right">{formatAmount(preview.creditBalance)}</TableCell>
+                    </TableRow>
+                  )}
+                  <TableRow>
+                    <TableCell>Next invoice on {preview.renewalDate}</TableCell>
+                    <TableCell align="right">{formatAmount(preview.nextInvoiceAmount)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </Box>
+          )}
         </DialogContent>
         <DialogActions>
-          <Button onClick={() => setOpenUpgradeDialog(false)}>Cancel</Button>
+          <Button onClick={closeDialog} disabled={submitting}>
+            Cancel
+          </Button>
           <Button
-            onClick={handleConfirmUpgrade}
+            onClick={handleConfirmChange}
             variant="contained"
-            disabled={!selectedUpgrade}
+            disabled={!preview || previewLoading || submitting}
           >
-            Upgrade
+            {preview?.direction === 'downgrade' ? 'Confirm Downgrade' : 'Confirm Upgrade'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Pause Dialog */}
+      <Dialog open={dialog === 'pause'} onClose={closeDialog}>
+        <DialogTitle>Pause Subscription?</DialogTitle>
+        <DialogContent>
+          {dialogError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {dialogError}
+            </Alert>
+          )}
+          <Typography>
+            Billing stops while your subscription is paused, and {subscription.planName} features
+            are unavailable until you resume it.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeDialog} disabled={submitting}>
+            Keep Active
+          </Button>
+          <Button onClick={handleConfirmPause} variant="contained" disabled={submitting}>
+            Pause Subscription
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Resume Dialog */}
+      <Dialog open={dialog === 'resume'} onClose={closeDialog}>
+        <DialogTitle>Resume Subscription?</DialogTitle>
+        <DialogContent>
+          {dialogError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {dialogError}
+            </Alert>
+          )}
+          <Typography>
+            Your {subscription.planName} plan becomes active again at ${subscription.price}/
+            {cycleLabel}.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeDialog} disabled={submitting}>
+            Not Now
+          </Button>
+          <Button onClick={handleConfirmResume} variant="contained" disabled={submitting}>
+            Resume Subscription
           </Button>
         </DialogActions>
       </Dialog>
 
       {/* Cancel Dialog */}
-      <Dialog
-        open={openCancelDialog}
-        onClose={() => setOpenCancelDialog(false)}
-      >
+      <Dialog open={dialog === 'cancel'} onClose={closeDialog}>
         <DialogTitle>Cancel Subscription?</DialogTitle>
         <DialogContent>
+          {dialogError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {dialogError}
+            </Alert>
+          )}
           <Alert severity="warning" sx={{ mb: 2 }}>
-            Canceling your subscription will end your access to all features
-            at the end of your current billing period.
+            Canceling your subscription will end your access to all features at the end of your
+            current billing period.
           </Alert>
-          <Typography>
-            Your subscription will remain active until{' '}
-            <strong>{subscription.renewalDate}</strong>.
+          <Typography sx={{ mb: 2 }}>
+            Your subscription will remain active until <strong>{subscription.renewalDate}</strong>.
           </Typography>
+          <TextField
+            label="Reason (optional)"
+            value={cancelReason}
+            onChange={(e) => setCancelReason(e.target.value)}
+            fullWidth
+            multiline
+            minRows={2}
+          />
         </DialogContent>
         <DialogActions>
-          <Button onClick={() => setOpenCancelDialog(false)}>
+          <Button onClick={closeDialog} disabled={submitting}>
             Keep Subscription
           </Button>
           <Button
             onClick={handleConfirmCancel}
             color="error"
             variant="contained"
+            disabled={submitting}
           >
             Cancel Subscription
           </Button>
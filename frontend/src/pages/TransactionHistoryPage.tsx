@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import {
   Box,
   Container,
@@ -22,32 +22,21 @@ import {
   DialogContent,
   DialogActions,
 } from '@mui/material';
-import {
-  Download as DownloadIcon,
-  Visibility as VisibilityIcon,
-} from '@mui/icons-material';
+import { Download as DownloadIcon, Visibility as VisibilityIcon } from '@mui/icons-material';
+import type { Transaction } from '../services/transactionApi';
+
+type StatusFilter = 'all' | Transaction['status'];
 
-interface Transaction {
-  id: string;
-  timestamp: string;
-  sender: string;
-  receiver: string;
-  amount: number;
-  fee: number;
-  status: 'confirmed' | 'pending' | 'failed';
-  blockNumber: number;
-  gasUsed: number;
-}
+const STATUS_FILTERS: StatusFilter[] = ['all', 'confirmed', 'pending', 'failed'];
 
 export const TransactionHistoryPage: React.FC = () => {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [filteredTransactions, setFilteredTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [page, setPage] = useState(0);
   const [rowsPerPage, setRowsPerPage] = useState(10);
   const [searchTerm, setSearchTerm] = useState('');
-  const [filterStatus, setFilterStatus] = useState<string>('all');
+  const [filterStatus, setFilterStatus] = useState<StatusFilter>('all');
   const [selectedTx, setSelectedTx] = useState<Transaction | null>(null);
   const [openDetailDialog, setOpenDetailDialog] = useState(false);
 
@@ -57,28 +46,23 @@ export const TransactionHistoryPage: React.FC = () => {
         setLoading(true);
 
         // Generate mock transactions
-        const mockTxs: Transaction[] = Array.from({ length: 100 }, (_, i) => ({
+        const mockTxs: Transaction[] = Array.from({ length: 100 }, () => ({
           id: `0x${Math.random().toString(16).substr(2, 40)}`,
-          timestamp: new Date(
-            Date.now() - Math.random() * 24 * 3600000
-          ).toLocaleString(),
+          timestamp: new Date(Date.now() - Math.random() * 24 * 3600000).toLocaleString(),
           sender: `0x${Math.random().toString(16).substr(2, 40)}`,
           receiver: `0x${Math.random().toString(16).substr(2, 40)}`,
           amount: Math.random() * 1000,
           fee: Math.random() * 10,
           status: ['confirmed', 'pending', 'failed'][
             Math.floor(Math.random() * 3)
-          ] as any,
+          ] as Transaction['status'],
           blockNumber: Math.floor(Math.random() * 1000000),
           gasUsed: Math.floor(Math.random() * 100000),
         }));
 
         setTransactions(mockTxs);
-        applyFilters(mockTxs, searchTerm, filterStatus);
       } catch (err) {
-        setError(
-          err instanceof Error ? err.message : 'Failed to load transactions'
-        );
+        setError(err instanceof Error ? err.message : 'Failed to load transactions');
       } finally {
         setLoading(false);
       }
@@ -87,38 +71,17 @@ export const TransactionHistoryPage: React.FC = () => {
     loadTransactions();
   }, []);
 
-  const applyFilters = (
-    txs: Transaction[],
-    search: string,
-    status: string
-  ) => {
-    let filtered = txs;
-
-    if (search) {
-      filtered = filtered.filter(
+  const filteredTransactions = useMemo(
+    () =>
+      transactions.filter(
         (tx) =>
-          tx.id.includes(search) ||
-          tx.sender.includes(search) ||
-          tx.receiver.includes(search)
-      );
-    }
-
-    if (status !== 'all') {
-      filtered = filtered.filter((tx) => tx.status === status);
-    }
-
-    setFilteredTransactions(filtered);
-  };
-
-  const handleSearch = (value: string) => {
-    setSearchTerm(value);
-    applyFilters(transactions, value, filterStatus);
-  };
-
-  const handleFilterChange = (status: string) => {
-    setFilterStatus(status);
-    applyFilters(transactions, searchTerm, status);
-  };
+          (tx.id.includes(searchTerm) ||
+            tx.sender.includes(searchTerm) ||
+            tx.receiver.includes(searchTerm)) &&
+          (filterStatus === 'all' || tx.status === filterStatus)
+      ),
+    [transactions, searchTerm, filterStatus]
+  );
 
   const handleViewDetails = (tx: Transaction) => {
     setSelectedTx(tx);
@@ -159,13 +122,11 @@ export const TransactionHistoryPage: React.FC = () => {
     a.click();
   };
 
-  const handleChangePage = (event: unknown, newPage: number) => {
+  const handleChangePage = (_event: unknown, newPage: number) => {
     setPage(newPage);
   };
 
-  const handleChangeRowsPerPage = (
-    event: React.ChangeEvent<HTMLInputElement>
-  ) => {
+  const handleChangeRowsPerPage = (event: React.ChangeEvent<HTMLInputElement>) => {
     setRowsPerPage(parseInt(event.target.value, 10));
     setPage(0);
   };
@@ -185,12 +146,7 @@ export const TransactionHistoryPage: React.FC = () => {
 
   if (loading) {
     return (
-      <Box
-        display="flex"
-        justifyContent="center"
-        alignItems="center"
-        minHeight="100vh"
-      >
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="100vh">
         <CircularProgress />
       </Box>
     );
@@ -205,11 +161,7 @@ export const TransactionHistoryPage: React.FC = () => {
     <Container maxWidth="lg" sx={{ py: 4 }}>
       <Box sx={{ mb: 4, display: 'flex', justifyContent: 'space-between' }}>
         <Typography variant="h4">Transaction History</Typography>
-        <Button
-          variant="contained"
-          startIcon={<DownloadIcon />}
-          onClick={handleExport}
-        >
+        <Button variant="contained" startIcon={<DownloadIcon />} onClick={handleExport}>
           Export CSV
         </Button>
       </Box>
@@ -222,17 +174,17 @@ export const TransactionHistoryPage: React.FC = () => {
           <TextField
             placeholder="Search by TX ID, sender, or receiver..."
             value={searchTerm}
-            onChange={(e) => handleSearch(e.target.value)}
+            onChange={(e) => setSearchTerm(e.target.value)}
             fullWidth
           />
 
           <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
             <Typography sx={{ alignSelf: 'center' }}>Filter:</Typography>
-            {['all', 'confirmed', 'pending', 'failed'].map((status) => (
+            {STATUS_FILTERS.map((status) => (
               <Chip
                 key={status}
                 label={status}
-                onClick={() => handleFilterChange(status)}
+                onClick={() => setFilterStatus(status)}
                 variant={filterStatus === status ? 'filled' : 'outlined'}
               />
             ))}
@@ -317,9 +269,7 @@ export const TransactionHistoryPage: React.FC = () => {
                 <Typography color="textSecondary" variant="caption">
                   Transaction ID
                 </Typography>
-                <Typography sx={{ fontFamily: 'monospace' }}>
-                  {selectedTx.id}
-                </Typography>
+                <Typography sx={{ fontFamily: 'monospace' }}>{selectedTx.id}</Typography>
               </Box>
               <Box>
                 <Typography color="textSecondary" variant="caption">
@@ -331,17 +281,13 @@ export const TransactionHistoryPage: React.FC = () => {
                 <Typography color="textSecondary" variant="caption">
                   From
                 </Typography>
-                <Typography sx={{ fontFamily: 'monospace' }}>
-                  {selectedTx.sender}
-                </Typography>
+                <Typography sx={{ fontFamily: 'monospace' }}>{selectedTx.sender}</Typography>
               </Box>
               <Box>
                 <Typography color="textSecondary" variant="caption">
                   To
                 </Typography>
-                <Typography sx={{ fontFamily: 'monospace' }}>
-                  {selectedTx.receiver}
-                </Typography>
+                <Typography sx={{ fontFamily: 'monospace' }}>{selectedTx.receiver}</Typography>
               </Box>
               <Box>
                 <Typography color="textSecondary" variant="caption">
@@ -6,6 +6,9 @@
  */
 
 import { lazy } from 'react';
+import { matchPath } from 'react-router-dom';
+import type { FeatureFlags } from '../config/featureFlags';
+import type { RequiredPermission } from '../types/user';
 
 // Lazy-loaded components
 const LandingPage = lazy(() => import('../components/LandingPage'));
@@ -23,6 +26,10 @@ const ProfilePage = lazy(() => import('../components/ProfilePage'));
 const TransactionExplorer = lazy(() => import('../components/comprehensive/TransactionExplorerIntegrated'));
 const BlockExplorer = lazy(() => import('../components/comprehensive/BlockExplorer'));
 const ValidatorDashboard = lazy(() => import('../components/comprehensive/ValidatorDashboard'));
+const ValidatorDetail = lazy(() => import('../components/comprehensive/ValidatorDetail'));
+const ConsensusRoundInspector = lazy(
+  () => import('../components/comprehensive/ConsensusRoundInspector')
+);
 
 // AI & Security components
 const AIOptimizationControls = lazy(() => import('../components/comprehensive/AIOptimizationControls'));
@@ -48,9 +55,27 @@ const ContractAssetLinks = lazy(() => import('../components/comprehensive/Contra
 const TraceabilityManagement = lazy(() => import('../components/comprehensive/TraceabilityManagement'));
 const RegistryManagement = lazy(() => import('../components/comprehensive/RegistryManagement'));
 
+// Account & billing
+const Login = lazy(() => import('../pages/Login'));
+const AccountDashboard = lazy(() => import('../pages/Dashboard'));
+const AppListPage = lazy(() => import('../pages/AppListPage'));
+const TransactionHistoryPage = lazy(() => import('../pages/TransactionHistoryPage'));
+const AnalyticsPage = lazy(() => import('../pages/AnalyticsPage'));
+const PerformanceMetricsPage = lazy(() => import('../pages/PerformanceMetricsPage'));
+const RealTimeFeedPage = lazy(() => import('../pages/RealTimeFeedPage'));
+const SubscriptionPage = lazy(() => import('../pages/SubscriptionPage'));
+const PlansPage = lazy(() => import('../pages/PlansPage'));
+const BillingPage = lazy(() => import('../pages/BillingPage'));
+
 // Additional components
 const UserManagement = lazy(() => import('../components/UserManagement'));
+const RoleManagement = lazy(() => import('../components/RoleManagement'));
+const FeatureFlagsAdmin = lazy(() => import('../components/FeatureFlagsAdmin'));
 const ComplianceDashboard = lazy(() => import('../components/compliance/ComplianceDashboard'));
+const TransferSimulator = lazy(() => import('../components/compliance/TransferSimulator'));
+const RegulatoryReportBuilder = lazy(
+  () => import('../components/compliance/RegulatoryReportBuilder')
+);
 const MerkleTreeRegistry = lazy(() => import('../components/registry/MerkleTreeRegistry'));
 const Whitepaper = lazy(() => import('../components/comprehensive/Whitepaper'));
 const RWATTokenizationForm = lazy(() => import('../components/rwat/RWATTokenizationForm'));
@@ -66,8 +91,16 @@ export interface RouteDefinition {
   parent?: string;
   icon?: string;
   description?: string;
-  category?: 'demo' | 'blockchain' | 'contracts' | 'tokenization' | 'compliance' | 'registries' | 'ai' | 'integration' | 'admin';
+  category?: 'demo' | 'blockchain' | 'contracts' | 'tokenization' | 'compliance' | 'registries' | 'ai' | 'integration' | 'admin' | 'account';
   order?: number;
+  /** Hidden from navigation and routing while this flag is off */
+  featureFlag?: keyof FeatureFlags;
+  /** Module/action from the role permission matrix needed to open the page */
+  permission?: RequiredPermission;
+  /** Signed-out visitors are sent to /login and brought back afterwards */
+  requiresAuth?: boolean;
+  /** Rendered on its own, without the portal header and footer */
+  standalone?: boolean;
 }
 
 /**
@@ -132,6 +165,7 @@ export const routes: RouteDefinition[] = [
     description: 'Main analytics dashboard',
     category: 'blockchain',
     order: 10,
+    permission: { module: 'Dashboard', action: 'view' },
   },
   {
     path: '/transactions',
@@ -143,6 +177,8 @@ export const routes: RouteDefinition[] = [
     description: 'Explore and analyze transactions',
     category: 'blockchain',
     order: 11,
+    featureFlag: 'transactionExplorer',
+    permission: { module: 'Transactions', action: 'view' },
   },
   {
     path: '/blocks',
@@ -154,6 +190,8 @@ export const routes: RouteDefinition[] = [
     description: 'Browse blockchain blocks',
     category: 'blockchain',
     order: 12,
+    featureFlag: 'blockExplorer',
+    permission: { module: 'Blocks', action: 'view' },
   },
   {
     path: '/validators',
@@ -165,6 +203,32 @@ export const routes: RouteDefinition[] = [
     description: 'Monitor validator nodes',
     category: 'blockchain',
     order: 13,
+    featureFlag: 'validatorDashboard',
+    permission: { module: 'Validators', action: 'view' },
+  },
+  {
+    path: '/validators/:validatorId',
+    component: ValidatorDetail,
+    label: 'Validator',
+    breadcrumbLabel: 'Validator Performance',
+    parent: '/validators',
+    description: 'Validator performance history and slashing timeline',
+    category: 'blockchain',
+    featureFlag: 'validatorDashboard',
+    permission: { module: 'Validators', action: 'view' },
+  },
+  {
+    path: '/consensus',
+    component: ConsensusRoundInspector,
+    label: 'Consensus',
+    breadcrumbLabel: 'Consensus Inspector',
+    parent: '/dashboard',
+    icon: 'HistoryOutlined',
+    description: 'Inspect HyperRAFT++ rounds, terms and leader elections',
+    category: 'blockchain',
+    order: 15,
+    featureFlag: 'consensusMetrics',
+    permission: { module: 'Validators', action: 'view' },
   },
   {
     path: '/monitoring',
@@ -176,6 +240,7 @@ export const routes: RouteDefinition[] = [
     description: 'Monitor network performance',
     category: 'blockchain',
     order: 14,
+    permission: { module: 'Monitoring', action: 'view' },
   },
 
   // =========================================================================
@@ -215,6 +280,8 @@ export const routes: RouteDefinition[] = [
     description: 'Manage smart contracts',
     category: 'contracts',
     order: 20,
+    featureFlag: 'smartContracts',
+    permission: { module: 'Smart Contracts', action: 'view' },
   },
   {
     path: '/contracts/active',
@@ -226,6 +293,8 @@ export const routes: RouteDefinition[] = [
     description: 'View active contract deployments',
     category: 'contracts',
     order: 21,
+    featureFlag: 'smartContracts',
+    permission: { module: 'Smart Contracts', action: 'view' },
   },
   {
     path: '/contracts/registry',
@@ -237,6 +306,8 @@ export const routes: RouteDefinition[] = [
     description: 'Browse all contracts',
     category: 'contracts',
     order: 22,
+    featureFlag: 'smartContracts',
+    permission: { module: 'Smart Contracts', action: 'view' },
   },
   {
     path: '/contracts/ricardian',
@@ -248,6 +319,8 @@ export const routes: RouteDefinition[] = [
     description: 'Upload and manage Ricardian contracts',
     category: 'contracts',
     order: 23,
+    featureFlag: 'ricardianContracts',
+    permission: { module: 'Smart Contracts', action: 'view' },
   },
 
   // =========================================================================
@@ -263,6 +336,8 @@ export const routes: RouteDefinition[] = [
     description: 'Tokenize real-world assets',
     category: 'tokenization',
     order: 30,
+    featureFlag: 'tokenization',
+    permission: { module: 'Tokenization', action: 'view' },
   },
   {
     path: '/tokenization/create',
@@ -274,6 +349,8 @@ export const routes: RouteDefinition[] = [
     description: 'Create new tokenized asset',
     category: 'tokenization',
     order: 31,
+    featureFlag: 'tokenization',
+    permission: { module: 'Tokenization', action: 'create' },
   },
   {
     path: '/tokenization/registry',
@@ -285,6 +362,8 @@ export const routes: RouteDefinition[] = [
     description: 'View all tokens',
     category: 'tokenization',
     order: 32,
+    featureFlag: 'tokenization',
+    permission: { module: 'Tokenization', action: 'view' },
   },
   {
     path: '/tokenization/external-api',
@@ -296,6 +375,8 @@ export const routes: RouteDefinition[] = [
     description: 'Tokenize via external API',
     category: 'tokenization',
     order: 33,
+    featureFlag: 'externalApiTokenization',
+    permission: { module: 'Tokenization', action: 'manage' },
   },
   {
     path: '/tokenization/rwa',
@@ -307,6 +388,8 @@ export const routes: RouteDefinition[] = [
     description: 'Real-world asset registry',
     category: 'tokenization',
     order: 34,
+    featureFlag: 'rwaRegistry',
+    permission: { module: 'Tokenization', action: 'view' },
   },
 
   // =========================================================================
@@ -392,6 +475,31 @@ export const routes: RouteDefinition[] = [
     description: 'View compliance status',
     category: 'compliance',
     order: 50,
+    permission: { module: 'Security', action: 'view' },
+  },
+  {
+    path: '/compliance/transfer-simulator',
+    component: TransferSimulator,
+    label: 'Transfer Simulator',
+    breadcrumbLabel: 'Transfer Simulator',
+    parent: '/compliance',
+    icon: 'SwapOutlined',
+    description: 'Check transfers against compliance rules before execution',
+    category: 'compliance',
+    order: 51,
+    permission: { module: 'Security', action: 'view' },
+  },
+  {
+    path: '/compliance/reports',
+    component: RegulatoryReportBuilder,
+    label: 'Report Builder',
+    breadcrumbLabel: 'Report Builder',
+    parent: '/compliance',
+    icon: 'FileDoneOutlined',
+    description: 'Build, schedule and export regulatory reports',
+    category: 'compliance',
+    order: 52,
+    permission: { module: 'Security', action: 'view' },
   },
 
   // =========================================================================
@@ -407,6 +515,8 @@ export const routes: RouteDefinition[] = [
     description: 'Configure AI optimization',
     category: 'ai',
     order: 60,
+    featureFlag: 'aiOptimization',
+    permission: { module: 'Monitoring', action: 'view' },
   },
   {
     path: '/ai/optimization',
@@ -418,6 +528,8 @@ export const routes: RouteDefinition[] = [
     description: 'AI-driven optimization settings',
     category: 'ai',
     order: 61,
+    featureFlag: 'aiOptimization',
+    permission: { module: 'Monitoring', action: 'configure' },
   },
   {
     path: '/ai/quantum-security',
@@ -429,6 +541,8 @@ export const routes: RouteDefinition[] = [
     description: 'Quantum-resistant security',
     category: 'ai',
     order: 62,
+    featureFlag: 'quantumSecurity',
+    permission: { module: 'Security', action: 'view' },
   },
   // =========================================================================
   // INTEGRATION (Category)
@@ -443,6 +557,8 @@ export const routes: RouteDefinition[] = [
     description: 'Cross-chain integration',
     category: 'integration',
     order: 70,
+    featureFlag: 'crossChainBridge',
+    permission: { module: 'Bridge', action: 'view' },
   },
   {
     path: '/integration/cross-chain',
@@ -454,6 +570,8 @@ export const routes: RouteDefinition[] = [
     description: 'Bridge assets across chains',
     category: 'integration',
     order: 71,
+    featureFlag: 'crossChainBridge',
+    permission: { module: 'Bridge', action: 'view' },
   },
 
   // =========================================================================
@@ -469,6 +587,19 @@ export const routes: RouteDefinition[] = [
     description: 'Manage portal users',
     category: 'admin',
     order: 80,
+    permission: { module: 'DevOps', action: 'manage' },
+  },
+  {
+    path: '/admin/roles',
+    component: RoleManagement,
+    label: 'Role Management',
+    breadcrumbLabel: 'Role Management',
+    parent: '/',
+    icon: 'SafetyCertificateOutlined',
+    description: 'Edit roles and their permission matrix',
+    category: 'admin',
+    order: 80,
+    permission: { module: 'DevOps', action: 'manage' },
   },
   {
     path: '/admin/rwat-form',
@@ -480,6 +611,131 @@ export const routes: RouteDefinition[] = [
     description: 'RWAT tokenization form',
     category: 'admin',
     order: 81,
+    permission: { module: 'Tokenization', action: 'create' },
+  },
+  {
+    path: '/admin/feature-flags',
+    component: FeatureFlagsAdmin,
+    label: 'Feature Flags',
+    breadcrumbLabel: 'Feature Flags',
+    parent: '/',
+    icon: 'ControlOutlined',
+    description: 'Toggle portal features for this browser',
+    category: 'admin',
+    order: 82,
+    permission: { module: 'DevOps', action: 'configure' },
+  },
+
+  // =========================================================================
+  // ACCOUNT & BILLING (Category)
+  // =========================================================================
+  {
+    path: '/login',
+    component: Login,
+    label: 'Login',
+    breadcrumbLabel: 'Login',
+    icon: 'LoginOutlined',
+    description: 'Sign in to the portal',
+    standalone: true,
+  },
+  {
+    path: '/account',
+    component: AccountDashboard,
+    label: 'Account Overview',
+    breadcrumbLabel: 'Account',
+    icon: 'UserOutlined',
+    description: 'Your apps, usage and system health',
+    category: 'account',
+    order: 90,
+    requiresAuth: true,
+  },
+  {
+    path: '/account/apps',
+    component: AppListPage,
+    label: 'My Apps',
+    breadcrumbLabel: 'My Apps',
+    icon: 'AppstoreOutlined',
+    description: 'Register and manage your applications',
+    category: 'account',
+    order: 91,
+    requiresAuth: true,
+  },
+  {
+    path: '/account/transactions',
+    component: TransactionHistoryPage,
+    label: 'Transaction History',
+    breadcrumbLabel: 'Transaction History',
+    icon: 'HistoryOutlined',
+    description: 'Transactions submitted by your apps',
+    category: 'account',
+    order: 92,
+    requiresAuth: true,
+  },
+  {
+    path: '/account/analytics',
+    component: AnalyticsPage,
+    label: 'Usage Analytics',
+    breadcrumbLabel: 'Usage Analytics',
+    icon: 'BarChartOutlined',
+    description: 'Usage trends for your account',
+    category: 'account',
+    order: 93,
+    requiresAuth: true,
+  },
+  {
+    path: '/account/performance',
+    component: PerformanceMetricsPage,
+    label: 'Performance',
+    breadcrumbLabel: 'Performance Metrics',
+    icon: 'ThunderboltOutlined',
+    description: 'Throughput and latency of your apps',
+    category: 'account',
+    order: 94,
+    requiresAuth: true,
+  },
+  {
+    path: '/account/realtime',
+    component: RealTimeFeedPage,
+    label: 'Real-Time Feed',
+    breadcrumbLabel: 'Real-Time Feed',
+    icon: 'WifiOutlined',
+    description: 'Live events for your account',
+    category: 'account',
+    order: 95,
+    requiresAuth: true,
+  },
+  {
+    path: '/account/subscription',
+    component: SubscriptionPage,
+    label: 'Subscription',
+    breadcrumbLabel: 'Subscription',
+    icon: 'CreditCardOutlined',
+    description: 'Change, pause or cancel your plan',
+    category: 'account',
+    order: 96,
+    requiresAuth: true,
+  },
+  {
+    path: '/account/plans',
+    component: PlansPage,
+    label: 'Plans & Pricing',
+    breadcrumbLabel: 'Plans & Pricing',
+    icon: 'TagsOutlined',
+    description: 'Compare available plans',
+    category: 'account',
+    order: 97,
+    requiresAuth: true,
+  },
+  {
+    path: '/account/billing',
+    component: BillingPage,
+    label: 'Billing',
+    breadcrumbLabel: 'Billing',
+    icon: 'FileDoneOutlined',
+    description: 'Invoices and payment methods',
+    category: 'account',
+    order: 98,
+    requiresAuth: true,
   },
 
   // =========================================================================
@@ -501,7 +757,17 @@ export const routes: RouteDefinition[] = [
  * Helper function to find a route by path
  */
 export const findRoute = (path: string): RouteDefinition | undefined => {
-  return routes.find(route => route.path === path);
+  return (
+    routes.find(route => route.path === path) ??
+    routes.find(route => route.path.includes(':') && matchPath(route.path, path))
+  );
+};
+
+/**
+ * Routes whose feature flag (if any) is on
+ */
+export const getEnabledRoutes = (flags: FeatureFlags): RouteDefinition[] => {
+  return routes.filter((route) => !route.featureFlag || flags[route.featureFlag]);
 };
 
 /**
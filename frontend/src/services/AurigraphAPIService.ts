@@ -8,260 +8,55 @@
  *           http://localhost:9003/api/v11 (Development)
  */
 
-import axios, { AxiosError, AxiosInstance } from 'axios';
+import APIClient from './apiClient';
+import * as v11 from './openapi/aurigraphV11';
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
-/**
- * Health Status Response
- */
-export interface HealthStatus {
-  status: 'UP' | 'DOWN';
-  checks: {
-    consensus: 'UP' | 'DOWN';
-    database: 'UP' | 'DOWN';
-    network: 'UP' | 'DOWN';
-  };
-  version: string;
-  timestamp: string;
-  uptime: number;
-}
-
-/**
- * System Information
- */
-export interface SystemInfo {
-  platform: string;
-  version: string;
-  javaVersion: string;
-  quarkusVersion: string;
-  buildTime: string;
-  commitHash: string;
-  features: string[];
-}
-
-/**
- * Blockchain Metrics
- */
-export interface BlockchainMetrics {
-  tps: number; // Transactions per second
-  totalTransactions: number;
-  totalBlocks: number;
-  activationValidators: number;
-  networkHealth: number; // 0-100
-  averageBlockTime: number; // milliseconds
-  averageLatency: number; // milliseconds
-  finality: number; // milliseconds
-  uptime: number; // percentage
-}
-
-/**
- * Block Data
- */
-export interface Block {
-  hash: string;
-  height: number;
-  timestamp: string;
-  proposer: string;
-  transactionCount: number;
-  gasUsed: number;
-  gasLimit: number;
-  stateRoot: string;
-  previousHash: string;
-  consensusRound: number;
-}
-
-/**
- * Transaction Data
- */
-export interface Transaction {
-  hash: string;
-  from: string;
-  to: string;
-  amount: string;
-  fee: string;
-  gasPrice: string;
-  gasUsed: number;
-  nonce: number;
-  timestamp: string;
-  status: 'PENDING' | 'CONFIRMED' | 'FAILED';
-  blockHeight: number;
-  contractAddress?: string;
-  data?: string;
-}
-
-/**
- * Validator Data
- */
-export interface Validator {
-  id: string;
-  address: string;
-  name: string;
-  status: 'ACTIVE' | 'INACTIVE' | 'JAILED';
-  stake: string;
-  votingPower: number; // percentage
-  consensusRounds: number;
-  proposedBlocks: number;
-  operatorAddress: string;
-  commissionRate: number;
-  uptime: number; // percentage
-}
-
-/**
- * Consensus Status
- */
-export interface ConsensusStatus {
-  algorithm: 'HyperRAFT++';
-  currentTerm: number;
-  leader: string;
-  totalValidators: number;
-  activeValidators: number;
-  blockHeight: number;
-  finality: string;
-  consensusRound: number;
-  timeUntilNextRound: number; // milliseconds
-  faultToleranceLevel: number;
-}
-
-/**
- * Token Data
- */
-export interface Token {
-  id: string;
-  symbol: string;
-  name: string;
-  totalSupply: string;
-  decimals: number;
-  contractAddress: string;
-  createdAt: string;
-  creator: string;
-  holders: number;
-  transfers: number;
-}
-
-/**
- * RWA (Real-World Asset) Data
- */
-export interface RealWorldAsset {
-  id: string;
-  name: string;
-  type: string;
-  value: string;
-  currency: string;
-  tokenAddress: string;
-  status: 'ACTIVE' | 'RETIRED' | 'UNDER_REVIEW';
-  createdAt: string;
-  issuer: string;
-  custodian: string;
-  kycRequired: boolean;
-  holders: number;
-}
-
-/**
- * Smart Contract Data
- */
-export interface SmartContract {
-  id: string;
-  name: string;
-  address: string;
-  creator: string;
-  status: 'ACTIVE' | 'PAUSED' | 'TERMINATED';
-  bytecode: string;
-  abi: any[];
-  createdAt: string;
-  lastUpdated: string;
-  executions: number;
-  balance: string;
-}
-
-/**
- * Network Health Status
- */
-export interface NetworkHealth {
-  status: 'HEALTHY' | 'DEGRADED' | 'CRITICAL';
-  activeNodes: number;
-  totalNodes: number;
-  averageLatency: number;
-  packetLoss: number; // percentage
-  bandwidth: string;
-  peersConnected: number;
-}
-
-/**
- * Analytics Dashboard Data
- */
-export interface AnalyticsDashboard {
-  timestamp: string;
-  tps: number;
-  totalTransactions: number;
-  totalBlocks: number;
-  activeUsers: number;
-  networkHealth: number;
-  topAccounts: Array<{ address: string; balance: string }>;
-  recentBlocks: Block[];
-  recentTransactions: Transaction[];
-}
-
-/**
- * Staking Information
- */
-export interface StakingInfo {
-  totalStaked: string;
-  totalValidators: number;
-  minimumStake: string;
-  maximumStake: string;
-  averageCommission: number;
-  annualRewardRate: number;
-  circulatingSupply: string;
-}
-
-/**
- * AI Optimization Metrics
- */
-export interface AIOptimization {
-  enabled: boolean;
-  tpsImprovement: number; // percentage
-  orderingOptimization: number; // percentage
-  predictiveAccuracy: number; // percentage
-  anomalyDetectionScore: number; // 0-100
-  lastOptimizationTime: string;
-  optimizationsApplied: number;
-}
+// Generated from openapi/aurigraph-v11.yaml; re-exported under the names
+// components already import from this module
+export type {
+  HealthStatus,
+  SystemInfo,
+  BlockchainMetrics,
+  LedgerBlock as Block,
+  LedgerTransaction as Transaction,
+  TransactionSubmission,
+  Validator,
+  ConsensusStatus,
+  Token,
+  TokenDraft,
+  RealWorldAsset,
+  RealWorldAssetDraft,
+  SmartContract,
+  SmartContractDraft,
+  NetworkHealth,
+  AnalyticsDashboard,
+  StakingOverview as StakingInfo,
+  DelegatorPositions,
+  DelegationPosition,
+  UnbondingEntry,
+  SlashingEvent,
+  ValidatorPerformanceHistory,
+  ValidatorPerformancePeriod,
+  AIOptimization,
+} from './openapi/aurigraphV11';
 
 // ============================================================================
 // API SERVICE CLASS
 // ============================================================================
 
 export class AurigraphAPIService {
-  private client: AxiosInstance;
+  private client: APIClient;
   private baseURL: string;
-  private jwtToken: string | null = null;
+  private headers = new Headers({ 'Content-Type': 'application/json' });
 
   constructor(baseURL?: string) {
     this.baseURL = baseURL || this.getBaseURL();
-    this.client = axios.create({
-      baseURL: this.baseURL,
-      timeout: 10000,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    // Add JWT token to request headers if available
-    this.client.interceptors.request.use((config) => {
-      if (this.jwtToken) {
-        config.headers.Authorization = `Bearer ${this.jwtToken}`;
-      }
-      return config;
-    });
-
-    // Handle errors
-    this.client.interceptors.response.use(
-      (response) => response,
-      (error) => this.handleError(error)
-    );
+    // Headers are copied per request, so the JWT set below applies to later calls
+    this.client = new APIClient(this.baseURL, { headers: this.headers });
   }
 
   /**
@@ -275,35 +70,21 @@ export class AurigraphAPIService {
       return import.meta.env.VITE_API_BASE_URL;
     }
 
-    return isProduction
-      ? 'https://dlt.aurigraph.io/api/v11'
-      : 'http://localhost:9004/api/v11'; // Fixed: was 9003, now 9004
+    return isProduction ? 'https://dlt.aurigraph.io/api/v11' : 'http://localhost:9004/api/v11'; // Fixed: was 9003, now 9004
   }
 
   /**
    * Set JWT token for authenticated requests
    */
   setJWTToken(token: string): void {
-    this.jwtToken = token;
+    this.headers.set('Authorization', `Bearer ${token}`);
   }
 
   /**
    * Clear JWT token
    */
   clearJWTToken(): void {
-    this.jwtToken = null;
-  }
-
-  /**
-   * Handle API errors
-   */
-  private handleError(error: AxiosError): Promise<never> {
-    console.error('API Error:', {
-      status: error.response?.status,
-      data: error.response?.data,
-      message: error.message,
-    });
-    return Promise.reject(error);
+    this.headers.delete('Authorization');
   }
 
   // ========================================================================
@@ -313,17 +94,15 @@ export class AurigraphAPIService {
   /**
    * Get system health status
    */
-  async getHealth(): Promise<HealthStatus> {
-    const response = await this.client.get<HealthStatus>('/health');
-    return response.data;
+  async getHealth(): Promise<v11.HealthStatus> {
+    return v11.getHealth(this.client);
   }
 
   /**
    * Get system information
    */
-  async getSystemInfo(): Promise<SystemInfo> {
-    const response = await this.client.get<SystemInfo>('/info');
-    return response.data;
+  async getSystemInfo(): Promise<v11.SystemInfo> {
+    return v11.getSystemInfo(this.client);
   }
 
   // ========================================================================
@@ -333,69 +112,57 @@ export class AurigraphAPIService {
   /**
    * Get real-time blockchain metrics
    */
-  async getBlockchainMetrics(): Promise<BlockchainMetrics> {
-    const response = await this.client.get<BlockchainMetrics>('/blockchain/metrics');
-    return response.data;
+  async getBlockchainMetrics(): Promise<v11.BlockchainMetrics> {
+    return v11.getBlockchainMetrics(this.client);
   }
 
   /**
    * Get detailed blockchain statistics
    */
   async getBlockchainStats(): Promise<any> {
-    const response = await this.client.get('/blockchain/stats');
-    return response.data;
+    return v11.getBlockchainStats(this.client);
   }
 
   /**
    * Get list of recent blocks
    */
-  async getBlocks(limit: number = 20, offset: number = 0): Promise<Block[]> {
-    const response = await this.client.get<Block[]>('/blocks', {
-      params: { limit, offset },
-    });
-    return response.data;
+  async getBlocks(limit: number = 20, offset: number = 0): Promise<v11.LedgerBlock[]> {
+    return v11.getBlocks(this.client, { limit, offset });
   }
 
   /**
    * Get specific block by hash or height
    */
-  async getBlock(hashOrHeight: string | number): Promise<Block> {
-    const response = await this.client.get<Block>(`/blocks/${hashOrHeight}`);
-    return response.data;
+  async getBlock(hashOrHeight: string | number): Promise<v11.LedgerBlock> {
+    return v11.getBlock(this.client, { hashOrHeight });
   }
 
   /**
    * Get list of recent transactions
    */
-  async getTransactions(limit: number = 20, offset: number = 0): Promise<Transaction[]> {
-    const response = await this.client.get<Transaction[]>('/transactions', {
-      params: { limit, offset },
-    });
-    return response.data;
+  async getTransactions(limit: number = 20, offset: number = 0): Promise<v11.LedgerTransaction[]> {
+    return v11.getTransactions(this.client, { limit, offset });
   }
 
   /**
    * Get specific transaction by hash
    */
-  async getTransaction(hash: string): Promise<Transaction> {
-    const response = await this.client.get<Transaction>(`/transactions/${hash}`);
-    return response.data;
+  async getTransaction(hash: string): Promise<v11.LedgerTransaction> {
+    return v11.getTransaction(this.client, { hash });
   }
 
   /**
    * Submit a new transaction
    */
-  async submitTransaction(tx: Omit<Transaction, 'hash' | 'timestamp' | 'status' | 'blockHeight'>): Promise<{ txHash: string; status: string }> {
-    const response = await this.client.post('/transactions/submit', tx);
-    return response.data;
+  async submitTransaction(tx: v11.TransactionSubmission): Promise<v11.SubmitTransactionResponse> {
+    return v11.submitTransaction(this.client, { body: tx });
   }
 
   /**
    * Submit batch transactions
    */
-  async submitBatchTransactions(transactions: any[]): Promise<{ acceptedCount: number; rejectedCount: number; batchId: string }> {
-    const response = await this.client.post('/transactions/batch', { transactions });
-    return response.data;
+  async submitBatchTransactions(transactions: any[]): Promise<v11.SubmitBatchTransactionsResponse> {
+    return v11.submitBatchTransactions(this.client, { body: { transactions } });
   }
 
   // ========================================================================
@@ -405,19 +172,31 @@ export class AurigraphAPIService {
   /**
    * Get list of all validators
    */
-  async getValidators(): Promise<Validator[]> {
-    const response = await this.client.get<Validator[]>('/validators');
-    return response.data;
+  async getValidators(): Promise<v11.Validator[]> {
+    return v11.getValidators(this.client);
   }
 
   /**
    * Get specific validator details
    */
-  async getValidator(id: string): Promise<Validator> {
-    const response = await this.client.get<Validator>(`/validators/${id}`);
+  async getValidator(id: string): Promise<v11.Validator> {
+    const response = await v11.getValidator(this.client, { id });
+    if (!response.data) {
+      throw new Error(response.error?.message ?? `Validator ${id} not found`);
+    }
     return response.data;
   }
 
+  /**
+   * Get a validator's performance over a period, bucketed for charting
+   */
+  async getValidatorPerformance(
+    validatorId: string,
+    period: v11.ValidatorPerformancePeriod = '24h'
+  ): Promise<v11.ValidatorPerformanceHistory> {
+    return v11.getValidatorPerformance(this.client, { validatorId, period });
+  }
+
   // ========================================================================
   // CONSENSUS ENDPOINTS
   // ========================================================================
@@ -425,25 +204,22 @@ export class AurigraphAPIService {
   /**
    * Get HyperRAFT++ consensus status
    */
-  async getConsensusStatus(): Promise<ConsensusStatus> {
-    const response = await this.client.get<ConsensusStatus>('/consensus/status');
-    return response.data;
+  async getConsensusStatus(): Promise<v11.ConsensusStatus> {
+    return v11.getConsensusStatus(this.client);
   }
 
   /**
    * Get consensus performance metrics
    */
   async getConsensusMetrics(): Promise<any> {
-    const response = await this.client.get('/consensus/metrics');
-    return response.data;
+    return v11.getConsensusMetrics(this.client);
   }
 
   /**
    * Get cluster node information
    */
   async getConsensusNodes(): Promise<any[]> {
-    const response = await this.client.get('/consensus/nodes');
-    return response.data;
+    return v11.getConsensusNodes(this.client);
   }
 
   // ========================================================================
@@ -453,33 +229,29 @@ export class AurigraphAPIService {
   /**
    * Get list of all tokens
    */
-  async getTokens(): Promise<Token[]> {
-    const response = await this.client.get<Token[]>('/tokens');
-    return response.data;
+  async getTokens(): Promise<v11.Token[]> {
+    return v11.getTokens(this.client);
   }
 
   /**
    * Get specific token details
    */
-  async getToken(id: string): Promise<Token> {
-    const response = await this.client.get<Token>(`/tokens/${id}`);
-    return response.data;
+  async getToken(id: string): Promise<v11.Token> {
+    return v11.getToken(this.client, { id });
   }
 
   /**
    * Create a new token
    */
-  async createToken(token: Omit<Token, 'id' | 'createdAt'>): Promise<Token> {
-    const response = await this.client.post<Token>('/tokens', token);
-    return response.data;
+  async createToken(token: v11.TokenDraft): Promise<v11.Token> {
+    return v11.createToken(this.client, { body: token });
   }
 
   /**
    * Get token balance for an address
    */
-  async getTokenBalance(tokenId: string, address: string): Promise<{ balance: string; decimals: number }> {
-    const response = await this.client.get(`/tokens/${tokenId}/balance/${address}`);
-    return response.data;
+  async getTokenBalance(tokenId: string, address: string): Promise<v11.GetTokenBalanceResponse> {
+    return v11.getTokenBalance(this.client, { tokenId, address });
   }
 
   // ========================================================================
@@ -490,32 +262,28 @@ export class AurigraphAPIService {
    * Get RWA system status
    */
   async getRWAStatus(): Promise<any> {
-    const response = await this.client.get('/rwa/status');
-    return response.data;
+    return v11.getRWAStatus(this.client);
   }
 
   /**
    * Get list of tokenized assets
    */
-  async getRWAAssets(): Promise<RealWorldAsset[]> {
-    const response = await this.client.get<RealWorldAsset[]>('/rwa/assets');
-    return response.data;
+  async getRWAAssets(): Promise<v11.RealWorldAsset[]> {
+    return v11.getRWAAssets(this.client);
   }
 
   /**
    * Tokenize a real-world asset
    */
-  async tokenizeRWA(asset: Omit<RealWorldAsset, 'id' | 'tokenAddress' | 'createdAt'>): Promise<RealWorldAsset> {
-    const response = await this.client.post<RealWorldAsset>('/rwa/tokenize', asset);
-    return response.data;
+  async tokenizeRWA(asset: v11.RealWorldAssetDraft): Promise<v11.RealWorldAsset> {
+    return v11.tokenizeRWA(this.client, { body: asset });
   }
 
   /**
    * Get RWA portfolio
    */
-  async getRWAPortfolio(): Promise<{ totalValue: string; assets: RealWorldAsset[] }> {
-    const response = await this.client.get('/rwa/portfolio');
-    return response.data;
+  async getRWAPortfolio(): Promise<v11.GetRWAPortfolioResponse> {
+    return v11.getRWAPortfolio(this.client);
   }
 
   // ========================================================================
@@ -525,36 +293,29 @@ export class AurigraphAPIService {
   /**
    * Get list of smart contracts
    */
-  async getContracts(): Promise<SmartContract[]> {
-    const response = await this.client.get<SmartContract[]>('/contracts');
-    return response.data;
+  async getContracts(): Promise<v11.SmartContract[]> {
+    return v11.getContracts(this.client);
   }
 
   /**
    * Get specific smart contract details
    */
-  async getContract(id: string): Promise<SmartContract> {
-    const response = await this.client.get<SmartContract>(`/contracts/${id}`);
-    return response.data;
+  async getContract(id: string): Promise<v11.SmartContract> {
+    return v11.getContract(this.client, { id });
   }
 
   /**
    * Deploy a new smart contract
    */
-  async deployContract(contract: Omit<SmartContract, 'id' | 'address' | 'createdAt' | 'lastUpdated' | 'executions' | 'balance'>): Promise<SmartContract> {
-    const response = await this.client.post<SmartContract>('/contracts/deploy', contract);
-    return response.data;
+  async deployContract(contract: v11.SmartContractDraft): Promise<v11.SmartContract> {
+    return v11.deployContract(this.client, { body: contract });
   }
 
   /**
    * Execute a smart contract function
    */
   async executeContract(id: string, functionName: string, parameters: any[]): Promise<any> {
-    const response = await this.client.post(`/contracts/${id}/execute`, {
-      functionName,
-      parameters,
-    });
-    return response.data;
+    return v11.executeContract(this.client, { id, body: { functionName, parameters } });
   }
 
   // ========================================================================
@@ -564,25 +325,22 @@ export class AurigraphAPIService {
   /**
    * Get network health status
    */
-  async getNetworkHealth(): Promise<NetworkHealth> {
-    const response = await this.client.get<NetworkHealth>('/network/health');
-    return response.data;
+  async getNetworkHealth(): Promise<v11.NetworkHealth> {
+    return v11.getNetworkHealth(this.client);
   }
 
   /**
    * Get network topology
    */
   async getNetworkNodes(): Promise<any[]> {
-    const response = await this.client.get('/network/nodes');
-    return response.data;
+    return v11.getNetworkNodes(this.client);
   }
 
   /**
    * Get network latency metrics
    */
-  async getNetworkLatency(): Promise<{ averageLatency: number; maxLatency: number; minLatency: number }> {
-    const response = await this.client.get('/network/latency');
-    return response.data;
+  async getNetworkLatency(): Promise<v11.GetNetworkLatencyResponse> {
+    return v11.getNetworkLatency(this.client);
   }
 
   // ========================================================================
@@ -592,27 +350,22 @@ export class AurigraphAPIService {
   /**
    * Get dashboard analytics data
    */
-  async getAnalyticsDashboard(): Promise<AnalyticsDashboard> {
-    const response = await this.client.get<AnalyticsDashboard>('/analytics/dashboard');
-    return response.data;
+  async getAnalyticsDashboard(): Promise<v11.AnalyticsDashboard> {
+    return v11.getAnalyticsDashboard(this.client);
   }
 
   /**
    * Get performance metrics
    */
   async getAnalyticsMetrics(): Promise<any> {
-    const response = await this.client.get('/analytics/metrics');
-    return response.data;
+    return v11.getAnalyticsMetrics(this.client);
   }
 
   /**
    * Get historical trends
    */
   async getAnalyticsTrends(period: 'hour' | 'day' | 'week' | 'month' = 'day'): Promise<any> {
-    const response = await this.client.get('/analytics/trends', {
-      params: { period },
-    });
-    return response.data;
+    return v11.getAnalyticsTrends(this.client, { period });
   }
 
   // ========================================================================
@@ -622,35 +375,61 @@ export class AurigraphAPIService {
   /**
    * Get staking information
    */
-  async getStakingInfo(): Promise<StakingInfo> {
-    const response = await this.client.get<StakingInfo>('/staking/info');
-    return response.data;
+  async getStakingInfo(): Promise<v11.StakingOverview> {
+    return v11.getStakingInfo(this.client);
   }
 
   /**
    * Stake tokens
    */
-  async stakeTokens(amount: string, validatorId: string): Promise<{ transactionHash: string; status: string }> {
-    const response = await this.client.post('/staking/stake', { amount, validatorId });
-    return response.data;
+  async stakeTokens(amount: string, validatorId: string): Promise<v11.StakingReceipt> {
+    return v11.stakeTokens(this.client, { body: { amount, validatorId } });
   }
 
   /**
    * Unstake tokens
    */
-  async unstakeTokens(amount: string, validatorId: string): Promise<{ transactionHash: string; status: string }> {
-    const response = await this.client.post('/staking/unstake', { amount, validatorId });
-    return response.data;
+  async unstakeTokens(amount: string, validatorId: string): Promise<v11.StakingReceipt> {
+    return v11.unstakeTokens(this.client, { body: { amount, validatorId } });
   }
 
   /**
    * Get staking rewards
    */
-  async getStakingRewards(validatorId: string): Promise<{ rewards: string; claimableRewards: string }> {
-    const response = await this.client.get(`/staking/rewards`, {
-      params: { validatorId },
-    });
-    return response.data;
+  async getStakingRewards(validatorId: string): Promise<v11.GetStakingRewardsResponse> {
+    return v11.getStakingRewards(this.client, { validatorId });
+  }
+
+  /**
+   * Move delegated tokens from one validator to another
+   */
+  async redelegateTokens(
+    amount: string,
+    validatorId: string,
+    toValidatorId: string
+  ): Promise<v11.StakingReceipt> {
+    return v11.redelegateTokens(this.client, { body: { amount, validatorId, toValidatorId } });
+  }
+
+  /**
+   * Withdraw the rewards accrued on a delegation
+   */
+  async claimStakingRewards(validatorId: string): Promise<v11.RewardClaimReceipt> {
+    return v11.claimStakingRewards(this.client, { body: { validatorId } });
+  }
+
+  /**
+   * Get the signed-in delegator's positions and unbonding entries
+   */
+  async getDelegations(): Promise<v11.DelegatorPositions> {
+    return v11.getDelegations(this.client);
+  }
+
+  /**
+   * Get the slashing events recorded against a validator
+   */
+  async getValidatorSlashingHistory(validatorId: string): Promise<v11.SlashingEvent[]> {
+    return v11.getValidatorSlashingHistory(this.client, { validatorId });
   }
 
   // ========================================================================
@@ -660,25 +439,22 @@ export class AurigraphAPIService {
   /**
    * Get AI optimization metrics
    */
-  async getAIOptimization(): Promise<AIOptimization> {
-    const response = await this.client.get<AIOptimization>('/ai/optimization');
-    return response.data;
+  async getAIOptimization(): Promise<v11.AIOptimization> {
+    return v11.getAIOptimization(this.client);
   }
 
   /**
    * Enable AI optimization
    */
-  async enableAIOptimization(): Promise<{ status: string }> {
-    const response = await this.client.post('/ai/optimization/enable', {});
-    return response.data;
+  async enableAIOptimization(): Promise<v11.StatusResult> {
+    return v11.enableAIOptimization(this.client);
   }
 
   /**
    * Disable AI optimization
    */
-  async disableAIOptimization(): Promise<{ status: string }> {
-    const response = await this.client.post('/ai/optimization/disable', {});
-    return response.data;
+  async disableAIOptimization(): Promise<v11.StatusResult> {
+    return v11.disableAIOptimization(this.client);
   }
 }
 
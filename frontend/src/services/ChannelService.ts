@@ -5,6 +5,7 @@
  */
 
 import { API_BASE_URL } from '../utils/constants';
+import APIClient from './apiClient';
 
 export interface Channel {
   id: string;
@@ -30,12 +31,12 @@ export interface ChannelStats {
 }
 
 class ChannelService {
-  private baseUrl: string;
+  private client: APIClient;
   private demoMode: boolean;
   private channels: Channel[] | null = null;
 
   constructor(baseUrl: string = API_BASE_URL, demoMode: boolean = false) {
-    this.baseUrl = baseUrl;
+    this.client = new APIClient(baseUrl);
     this.demoMode = demoMode;
   }
 
@@ -48,41 +49,6 @@ class ChannelService {
     this.channels = null;
   }
 
-  /**
-   * Fetch with retry logic
-   */
-  private async fetchWithRetry<T>(
-    endpoint: string,
-    options: RequestInit = {},
-    maxRetries: number = 3
-  ): Promise<T> {
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        const response = await fetch(`${this.baseUrl}${endpoint}`, {
-          ...options,
-          headers: {
-            'Content-Type': 'application/json',
-            ...options.headers,
-          },
-        });
-
-        if (response.ok) {
-          return await response.json();
-        }
-
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      } catch (error) {
-        if (attempt < maxRetries - 1) {
-          // Exponential backoff
-          await new Promise((resolve) => setTimeout(resolve, Math.pow(2, attempt) * 1000));
-        } else {
-          throw error;
-        }
-      }
-    }
-    throw new Error('Max retries exceeded');
-  }
-
   /**
    * Get all channels
    */
@@ -107,7 +73,7 @@ class ChannelService {
     }
 
     try {
-      const data = await this.fetchWithRetry<{ channels: Channel[] }>('/api/v11/channels');
+      const data = await this.client.requestData<{ channels: Channel[] }>('/api/v11/channels');
       this.channels = data.channels;
       return this.channels;
     } catch (error) {
@@ -127,7 +93,7 @@ class ChannelService {
     }
 
     try {
-      return await this.fetchWithRetry<Channel>(`/api/v11/channels/${channelId}`);
+      return await this.client.requestData<Channel>(`/api/v11/channels/${channelId}`);
     } catch (error) {
       console.error(`Failed to fetch channel ${channelId}:`, error);
       return null;
@@ -143,7 +109,7 @@ class ChannelService {
     }
 
     try {
-      return await this.fetchWithRetry<ChannelStats>('/api/v11/channels/stats');
+      return await this.client.requestData<ChannelStats>('/api/v11/channels/stats');
     } catch (error) {
       console.error('Failed to fetch channel stats:', error);
       return this.generateMockStats();
@@ -164,7 +130,7 @@ class ChannelService {
     }
 
     try {
-      const channel = await this.fetchWithRetry<Channel>('/api/v11/channels/create', {
+      const channel = await this.client.requestData<Channel>('/api/v11/channels/create', {
         method: 'POST',
         body: JSON.stringify(request),
       });
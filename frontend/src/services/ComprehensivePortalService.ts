@@ -6,28 +6,37 @@
  */
 
 import { API_BASE_URL } from '../utils/constants';
+import APIClient from './apiClient';
+import * as v11 from './openapi/aurigraphV11';
 import type {
   Transaction,
   Block,
+  ChainInfo,
   Validator,
+  StakingInfo,
   AIModel,
   AIOptimizationMetrics,
+  PredictiveAnalytics,
   QuantumSecurityStatus,
   CryptoKey,
   SecurityMetrics,
+  SecurityAudit,
   BridgeStatus,
   CrossChainTransfer,
+  TransferRequest,
   SupportedChain,
+  BridgeMetrics,
+  TransactionFilter,
   PaginatedResponse,
   ApiResponse,
 } from '../types/comprehensive';
 
 class ComprehensivePortalService {
-  private baseUrl: string;
+  private client: APIClient;
   private demoMode: boolean;
 
   constructor(baseUrl: string = API_BASE_URL, demoMode: boolean = false) {
-    this.baseUrl = baseUrl;
+    this.client = new APIClient(`${baseUrl}${v11.SERVER_PATH}`);
     this.demoMode = demoMode;
   }
 
@@ -38,40 +47,6 @@ class ComprehensivePortalService {
     this.demoMode = enabled;
   }
 
-  /**
-   * Fetch with retry logic
-   */
-  private async fetchWithRetry<T>(
-    endpoint: string,
-    options: RequestInit = {},
-    maxRetries: number = 3
-  ): Promise<T> {
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        const response = await fetch(`${this.baseUrl}${endpoint}`, {
-          ...options,
-          headers: {
-            'Content-Type': 'application/json',
-            ...options.headers,
-          },
-        });
-
-        if (response.ok) {
-          return await response.json();
-        }
-
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      } catch (error) {
-        if (attempt < maxRetries - 1) {
-          await new Promise((resolve) => setTimeout(resolve, Math.pow(2, attempt) * 1000));
-        } else {
-          throw error;
-        }
-      }
-    }
-    throw new Error('Max retries exceeded');
-  }
-
   // ==========================================================================
   // Transaction Explorer API
   // ==========================================================================
@@ -83,7 +58,7 @@ class ComprehensivePortalService {
   async getTransactions(
     page: number = 1,
     pageSize: number = 20,
-    filters?: any
+    filters?: TransactionFilter
   ): Promise<PaginatedResponse<Transaction>> {
     if (this.demoMode) {
       // Return mock data in demo mode
@@ -96,15 +71,7 @@ class ComprehensivePortalService {
       };
     }
 
-    const queryParams = new URLSearchParams({
-      page: page.toString(),
-      pageSize: pageSize.toString(),
-      ...filters,
-    });
-
-    return this.fetchWithRetry<PaginatedResponse<Transaction>>(
-      `/api/v11/blockchain/transactions?${queryParams}`
-    );
+    return v11.listExplorerTransactions(this.client, { ...filters, page, pageSize });
   }
 
   /**
@@ -115,9 +82,7 @@ class ComprehensivePortalService {
       return { success: true, timestamp: new Date().toISOString() };
     }
 
-    return this.fetchWithRetry<ApiResponse<Transaction>>(
-      `/api/v11/blockchain/transactions/${hash}`
-    );
+    return v11.getExplorerTransaction(this.client, { hash });
   }
 
   /**
@@ -128,7 +93,7 @@ class ComprehensivePortalService {
       return {};
     }
 
-    return this.fetchWithRetry(`/api/v11/blockchain/transactions/stats`);
+    return v11.getExplorerTransactionStats(this.client);
   }
 
   // ==========================================================================
@@ -143,7 +108,7 @@ class ComprehensivePortalService {
       return [];
     }
 
-    return this.fetchWithRetry<Block[]>(`/api/v11/blockchain/blocks?limit=${limit}`);
+    return v11.listExplorerBlocks(this.client, { limit });
   }
 
   /**
@@ -154,18 +119,18 @@ class ComprehensivePortalService {
       return { success: true, timestamp: new Date().toISOString() };
     }
 
-    return this.fetchWithRetry<ApiResponse<Block>>(`/api/v11/blockchain/blocks/${height}`);
+    return v11.getExplorerBlock(this.client, { height });
   }
 
   /**
    * Get chain information
    */
-  async getChainInfo(): Promise<any> {
+  async getChainInfo(): Promise<ChainInfo> {
     if (this.demoMode) {
-      return {};
+      return {} as ChainInfo;
     }
 
-    return this.fetchWithRetry(`/api/v11/blockchain/chain/info`);
+    return v11.getChainInfo(this.client);
   }
 
   /**
@@ -176,7 +141,7 @@ class ComprehensivePortalService {
       return {};
     }
 
-    return this.fetchWithRetry(`/api/v11/consensus/metrics`);
+    return v11.getConsensusMetrics(this.client);
   }
 
   // ==========================================================================
@@ -192,7 +157,7 @@ class ComprehensivePortalService {
       return [];
     }
 
-    return this.fetchWithRetry<Validator[]>(`/api/v11/validators`);
+    return v11.getValidators(this.client);
   }
 
   /**
@@ -203,18 +168,18 @@ class ComprehensivePortalService {
       return { success: true, timestamp: new Date().toISOString() };
     }
 
-    return this.fetchWithRetry<ApiResponse<Validator>>(`/api/v11/validators/${id}`);
+    return v11.getValidator(this.client, { id });
   }
 
   /**
    * Get staking information
    */
-  async getStakingInfo(): Promise<any> {
+  async getStakingInfo(): Promise<StakingInfo> {
     if (this.demoMode) {
-      return {};
+      return {} as StakingInfo;
     }
 
-    return this.fetchWithRetry(`/api/v11/validators/staking/info`);
+    return v11.getValidatorStakingInfo(this.client);
   }
 
   /**
@@ -225,10 +190,7 @@ class ComprehensivePortalService {
       return { success: true };
     }
 
-    return this.fetchWithRetry(`/api/v11/validators/${validatorId}/stake`, {
-      method: 'POST',
-      body: JSON.stringify({ amount, lockPeriod }),
-    });
+    return v11.stakeToValidator(this.client, { validatorId, body: { amount, lockPeriod } });
   }
 
   // ==========================================================================
@@ -244,7 +206,7 @@ class ComprehensivePortalService {
       return [];
     }
 
-    return this.fetchWithRetry<AIModel[]>(`/api/v11/ai/models`);
+    return v11.getAIModels(this.client);
   }
 
   /**
@@ -255,18 +217,18 @@ class ComprehensivePortalService {
       return {} as AIOptimizationMetrics;
     }
 
-    return this.fetchWithRetry<AIOptimizationMetrics>(`/api/v11/ai/metrics`);
+    return v11.getAIMetrics(this.client);
   }
 
   /**
    * Get predictive analytics
    */
-  async getPredictiveAnalytics(): Promise<any> {
+  async getPredictiveAnalytics(): Promise<PredictiveAnalytics> {
     if (this.demoMode) {
-      return {};
+      return {} as PredictiveAnalytics;
     }
 
-    return this.fetchWithRetry(`/api/v11/ai/predictions`);
+    return v11.getPredictiveAnalytics(this.client);
   }
 
   /**
@@ -277,9 +239,7 @@ class ComprehensivePortalService {
       return { success: true };
     }
 
-    return this.fetchWithRetry(`/api/v11/ai/models/${modelId}/retrain`, {
-      method: 'POST',
-    });
+    return v11.retrainModel(this.client, { modelId }, { timeout: 'longOperation' });
   }
 
   // ==========================================================================
@@ -295,7 +255,7 @@ class ComprehensivePortalService {
       return {} as QuantumSecurityStatus;
     }
 
-    return this.fetchWithRetry<QuantumSecurityStatus>(`/api/v11/security/status`);
+    return v11.getSecurityStatus(this.client);
   }
 
   /**
@@ -306,7 +266,7 @@ class ComprehensivePortalService {
       return [];
     }
 
-    return this.fetchWithRetry<CryptoKey[]>(`/api/v11/security/keys`);
+    return v11.getCryptoKeys(this.client);
   }
 
   /**
@@ -317,18 +277,18 @@ class ComprehensivePortalService {
       return {} as SecurityMetrics;
     }
 
-    return this.fetchWithRetry<SecurityMetrics>(`/api/v11/security/metrics`);
+    return v11.getSecurityMetrics(this.client);
   }
 
   /**
    * Get security audits
    */
-  async getSecurityAudits(): Promise<any[]> {
+  async getSecurityAudits(): Promise<SecurityAudit[]> {
     if (this.demoMode) {
       return [];
     }
 
-    return this.fetchWithRetry<any[]>(`/api/v11/security/audits`);
+    return v11.getSecurityAudits(this.client);
   }
 
   /**
@@ -339,9 +299,7 @@ class ComprehensivePortalService {
       return { success: true };
     }
 
-    return this.fetchWithRetry(`/api/v11/security/keys/rotate`, {
-      method: 'POST',
-    });
+    return v11.rotateKeys(this.client, { timeout: 'longOperation' });
   }
 
   // ==========================================================================
@@ -357,7 +315,7 @@ class ComprehensivePortalService {
       return [];
     }
 
-    return this.fetchWithRetry<BridgeStatus[]>(`/api/v11/bridge/bridges`);
+    return v11.getBridges(this.client);
   }
 
   /**
@@ -368,9 +326,7 @@ class ComprehensivePortalService {
       return [];
     }
 
-    return this.fetchWithRetry<CrossChainTransfer[]>(
-      `/api/v11/bridge/transfers?page=${page}&pageSize=${pageSize}`
-    );
+    return v11.getTransfers(this.client, { page, pageSize });
   }
 
   /**
@@ -381,38 +337,29 @@ class ComprehensivePortalService {
       return [];
     }
 
-    return this.fetchWithRetry<SupportedChain[]>(`/api/v11/bridge/chains`);
+    return v11.getSupportedChains(this.client);
   }
 
   /**
    * Get bridge metrics
    */
-  async getBridgeMetrics(): Promise<any> {
+  async getBridgeMetrics(): Promise<BridgeMetrics> {
     if (this.demoMode) {
-      return {};
+      return {} as BridgeMetrics;
     }
 
-    return this.fetchWithRetry(`/api/v11/bridge/metrics`);
+    return v11.getBridgeMetrics(this.client);
   }
 
   /**
    * Create cross-chain transfer
    */
-  async createTransfer(transfer: {
-    sourceChain: string;
-    targetChain: string;
-    token: string;
-    amount: number;
-    recipient: string;
-  }): Promise<any> {
+  async createTransfer(transfer: TransferRequest): Promise<ApiResponse<CrossChainTransfer>> {
     if (this.demoMode) {
-      return { success: true, transferId: `mock-${Date.now()}` };
+      return { success: true, timestamp: new Date().toISOString() };
     }
 
-    return this.fetchWithRetry(`/api/v11/bridge/transfers`, {
-      method: 'POST',
-      body: JSON.stringify(transfer),
-    });
+    return v11.createTransfer(this.client, { body: transfer });
   }
 
   /**
@@ -423,7 +370,29 @@ class ComprehensivePortalService {
       return { success: true, timestamp: new Date().toISOString() };
     }
 
-    return this.fetchWithRetry<ApiResponse<CrossChainTransfer>>(`/api/v11/bridge/transfers/${id}`);
+    return v11.getTransfer(this.client, { id });
+  }
+
+  /**
+   * Retry a failed or stuck transfer
+   */
+  async retryTransfer(id: string): Promise<ApiResponse<CrossChainTransfer>> {
+    if (this.demoMode) {
+      return { success: true, timestamp: new Date().toISOString() };
+    }
+
+    return v11.retryTransfer(this.client, { id });
+  }
+
+  /**
+   * Refund a failed or stuck transfer to the sender
+   */
+  async refundTransfer(id: string): Promise<ApiResponse<CrossChainTransfer>> {
+    if (this.demoMode) {
+      return { success: true, timestamp: new Date().toISOString() };
+    }
+
+    return v11.refundTransfer(this.client, { id });
   }
 }
 
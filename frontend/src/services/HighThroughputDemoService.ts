@@ -7,7 +7,7 @@
  * @version 1.0.0
  */
 
-import axios, { AxiosInstance } from 'axios';
+import APIClient from './apiClient';
 
 // ==================== TYPES ====================
 
@@ -74,7 +74,7 @@ export interface DemoResponse<T> {
 // ==================== SERVICE ====================
 
 class HighThroughputDemoService {
-  private apiClient: AxiosInstance;
+  private apiClient: APIClient;
   private baseURL: string;
   private apiKey: string = 'sk_test_dev_key_12345'; // From Credentials.md
 
@@ -84,31 +84,18 @@ class HighThroughputDemoService {
         ? 'https://dlt.aurigraph.io/api/v11'
         : 'http://localhost:9003/api/v11';
 
-    this.apiClient = axios.create({
-      baseURL: this.baseURL,
-      timeout: 30000,
+    this.apiClient = new APIClient(this.baseURL, {
+      timeout: 'longOperation',
+      // Note: Authorization header skipped due to backend auth issues
+      // Backend requires valid JWT but current token format is not recognized
+      // TODO: Send the JWT once authentication is properly configured
+      skipAuth: true,
       headers: {
         'Content-Type': 'application/json',
         'X-API-Key': this.apiKey,
         'X-Internal-Request': 'true',
-        // Note: Authorization header removed due to backend auth issues
-        // Backend requires valid JWT but current token format is not recognized
-        // TODO: Update with valid JWT token once authentication is properly configured
       },
     });
-
-    // Add response interceptor for error handling
-    this.apiClient.interceptors.response.use(
-      (response) => response,
-      (error) => {
-        console.error('[HighThroughputDemoService] API Error:', error.response?.data || error.message);
-        // Log authentication errors specifically for debugging
-        if (error.response?.status === 401) {
-          console.error('[HighThroughputDemoService] Authentication Error (401):', error.response?.data?.error);
-        }
-        throw error;
-      }
-    );
   }
 
   // ==================== CHANNEL MANAGEMENT ====================
@@ -417,7 +404,7 @@ class HighThroughputDemoService {
    */
   async exportMetricsJSON(channelId: string): Promise<Blob> {
     try {
-      const response = await this.apiClient.get(`/demo/channels/${channelId}/export`, {
+      const response = await this.apiClient.get<Blob>(`/demo/channels/${channelId}/export`, {
         params: { format: 'json' },
         responseType: 'blob',
       });
@@ -433,7 +420,7 @@ class HighThroughputDemoService {
    */
   async exportMetricsCSV(channelId: string): Promise<Blob> {
     try {
-      const response = await this.apiClient.get(`/demo/channels/${channelId}/export`, {
+      const response = await this.apiClient.get<Blob>(`/demo/channels/${channelId}/export`, {
         params: { format: 'csv' },
         responseType: 'blob',
       });
@@ -657,12 +644,9 @@ class HighThroughputDemoService {
    */
   async exportDemoResultsForCRM(registrationId: string): Promise<Blob> {
     try {
-      const response = await this.apiClient.get(
-        `/demo/users/${registrationId}/export`,
-        {
-          responseType: 'blob',
-        }
-      );
+      const response = await this.apiClient.get<Blob>(`/demo/users/${registrationId}/export`, {
+        responseType: 'blob',
+      });
       return response.data;
     } catch (error) {
       console.error(`Failed to export results for ${registrationId}:`, error);
@@ -15,13 +15,14 @@ import type {
   TokenStats,
 } from '../types/tokens';
 import { API_BASE_URL } from '../utils/constants';
+import APIClient from './apiClient';
 
 class TokenService {
-  private baseUrl: string;
+  private client: APIClient;
   private demoMode: boolean;
 
   constructor(baseUrl: string = API_BASE_URL, demoMode: boolean = false) {
-    this.baseUrl = baseUrl;
+    this.client = new APIClient(baseUrl);
     this.demoMode = demoMode;
   }
 
@@ -29,37 +30,6 @@ class TokenService {
     this.demoMode = enabled;
   }
 
-  private async fetchWithRetry<T>(
-    endpoint: string,
-    options: RequestInit = {},
-    maxRetries: number = 3
-  ): Promise<T> {
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        const response = await fetch(`${this.baseUrl}${endpoint}`, {
-          ...options,
-          headers: {
-            'Content-Type': 'application/json',
-            ...options.headers,
-          },
-        });
-
-        if (response.ok) {
-          return await response.json();
-        }
-
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      } catch (error) {
-        if (attempt < maxRetries - 1) {
-          await new Promise((resolve) => setTimeout(resolve, Math.pow(2, attempt) * 1000));
-        } else {
-          throw error;
-        }
-      }
-    }
-    throw new Error('Max retries exceeded');
-  }
-
   /**
    * Create a new token
    */
@@ -67,7 +37,7 @@ class TokenService {
     if (this.demoMode) {
       return this.generateMockToken(request);
     }
-    return this.fetchWithRetry<Token>('/api/v11/tokens/create', {
+    return this.client.requestData<Token>('/api/v11/tokens/create', {
       method: 'POST',
       body: JSON.stringify(request),
     });
@@ -80,7 +50,7 @@ class TokenService {
     if (this.demoMode) {
       return this.generateMockTokenList();
     }
-    return this.fetchWithRetry<Token[]>('/api/v11/tokens/list');
+    return this.client.requestData<Token[]>('/api/v11/tokens/list');
   }
 
   /**
@@ -98,7 +68,7 @@ class TokenService {
         pausable: false,
       });
     }
-    return this.fetchWithRetry<Token>(`/api/v11/tokens/${tokenId}`);
+    return this.client.requestData<Token>(`/api/v11/tokens/${tokenId}`);
   }
 
   /**
@@ -108,7 +78,7 @@ class TokenService {
     if (this.demoMode) {
       return this.generateMockTransaction('burn', request);
     }
-    return this.fetchWithRetry<TokenTransaction>('/api/v11/tokens/burn', {
+    return this.client.requestData<TokenTransaction>('/api/v11/tokens/burn', {
       method: 'POST',
       body: JSON.stringify(request),
     });
@@ -121,7 +91,7 @@ class TokenService {
     if (this.demoMode) {
       return this.generateMockTransaction('mint', request);
     }
-    return this.fetchWithRetry<TokenTransaction>('/api/v11/tokens/mint', {
+    return this.client.requestData<TokenTransaction>('/api/v11/tokens/mint', {
       method: 'POST',
       body: JSON.stringify(request),
     });
@@ -134,7 +104,7 @@ class TokenService {
     if (this.demoMode) {
       return this.generateMockTransaction('transfer', request);
     }
-    return this.fetchWithRetry<TokenTransaction>('/api/v11/tokens/transfer', {
+    return this.client.requestData<TokenTransaction>('/api/v11/tokens/transfer', {
       method: 'POST',
       body: JSON.stringify(request),
     });
@@ -147,7 +117,7 @@ class TokenService {
     if (this.demoMode) {
       return this.generateMockBalance(tokenId, address);
     }
-    return this.fetchWithRetry<TokenBalance>(`/api/v11/tokens/${tokenId}/balance/${address}`);
+    return this.client.requestData<TokenBalance>(`/api/v11/tokens/${tokenId}/balance/${address}`);
   }
 
   /**
@@ -157,7 +127,7 @@ class TokenService {
     if (this.demoMode) {
       return this.generateMockStats();
     }
-    return this.fetchWithRetry<TokenStats>('/api/v11/tokens/stats');
+    return this.client.requestData<TokenStats>('/api/v11/tokens/stats');
   }
 
   // Mock data generators
@@ -13,13 +13,14 @@ import type {
   StatsResponse,
 } from '../types/api';
 import { API_BASE_URL } from '../utils/constants';
+import APIClient from './apiClient';
 
 class V11BackendService {
-  private baseUrl: string;
+  private client: APIClient;
   private demoMode: boolean;
 
   constructor(baseUrl: string = API_BASE_URL) {
-    this.baseUrl = baseUrl;
+    this.client = new APIClient(baseUrl);
     // CRITICAL: Demo mode is ALWAYS disabled - only use real backend API
     this.demoMode = false;
   }
@@ -34,41 +35,6 @@ class V11BackendService {
     console.warn('Demo mode is permanently disabled. Only real backend API data is used.');
   }
 
-  /**
-   * Fetch with retry logic
-   */
-  private async fetchWithRetry<T>(
-    endpoint: string,
-    options: RequestInit = {},
-    maxRetries: number = 3
-  ): Promise<T> {
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        const response = await fetch(`${this.baseUrl}${endpoint}`, {
-          ...options,
-          headers: {
-            'Content-Type': 'application/json',
-            ...options.headers,
-          },
-        });
-
-        if (response.ok) {
-          return await response.json();
-        }
-
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      } catch (error) {
-        if (attempt < maxRetries - 1) {
-          // Exponential backoff
-          await new Promise((resolve) => setTimeout(resolve, Math.pow(2, attempt) * 1000));
-        } else {
-          throw error;
-        }
-      }
-    }
-    throw new Error('Max retries exceeded');
-  }
-
   /**
    * Get health check status
    */
@@ -76,7 +42,7 @@ class V11BackendService {
     if (this.demoMode) {
       return this.generateMockHealth();
     }
-    return this.fetchWithRetry<HealthCheckResponse>('/api/v11/health');
+    return this.client.requestData<HealthCheckResponse>('/api/v11/health');
   }
 
   /**
@@ -86,7 +52,7 @@ class V11BackendService {
     if (this.demoMode) {
       return this.generateMockSystemInfo();
     }
-    return this.fetchWithRetry<SystemInfoResponse>('/api/v11/info');
+    return this.client.requestData<SystemInfoResponse>('/api/v11/info');
   }
 
   /**
@@ -96,7 +62,7 @@ class V11BackendService {
     if (this.demoMode) {
       return this.generateMockPerformanceMetrics();
     }
-    return this.fetchWithRetry<PerformanceMetrics>('/api/v11/performance');
+    return this.client.requestData<PerformanceMetrics>('/api/v11/performance');
   }
 
   /**
@@ -139,7 +105,7 @@ class V11BackendService {
         },
       };
     }
-    return this.fetchWithRetry<StatsResponse>('/api/v11/stats');
+    return this.client.requestData<StatsResponse>('/api/v11/stats');
   }
 
   // ==========================================================================
@@ -1,137 +1,140 @@
 /**
  * API Client with JWT Token Interceptor
  *
- * Automatically includes JWT token in all API requests
- * Handles token refresh and 401 unauthorized responses
+ * Shared HTTP client used by every backend service:
+ * - Includes the JWT token, refreshing it ahead of auth_expiry and once on a 401
+ *   (through authService, so parallel requests share a single refresh)
+ * - Retries retryable failures with jittered exponential backoff (RETRY_CONFIG)
+ * - Aborts requests that run past their API_TIMEOUTS budget
+ * - Shares identical in-flight GET requests
+ * - Rejects with ApiRequestError, carrying the parsed ApiError
+ *
+ * Responses resolve to { data, status }, the same shape as an axios response,
+ * so services built on axios instances move over without reshaping call sites.
  */
 
 import { authService } from './authService';
-import { API_BASE_URL } from '../utils/constants';
+import { API_BASE_URL, API_TIMEOUTS, RETRY_CONFIG } from '../utils/constants';
+import { ApiRequestError } from '../utils/apiErrorHandler';
+
+export type ApiTimeout = keyof typeof API_TIMEOUTS;
 
 export interface FetchOptions extends RequestInit {
   skipAuth?: boolean;
   baseURL?: string;
+  /** Query string parameters; null and undefined values are dropped */
+  params?: object;
+  /** Timeout in ms, or a named API_TIMEOUTS budget (defaults to API_TIMEOUTS.default) */
+  timeout?: number | ApiTimeout;
+  /** Retries after the first attempt; only idempotent methods retry unless this is set */
+  retries?: number;
+  /** Share an identical GET that is already in flight (defaults to true) */
+  dedupe?: boolean;
+  responseType?: 'json' | 'text' | 'blob';
+}
+
+export interface APIResponse<T> {
+  data: T;
+  status: number;
+}
+
+interface RequestConfig {
+  url: string;
+  skipAuth: boolean;
+  timeoutMs: number;
+  retries: number;
+  dedupe: boolean;
+  responseType: 'json' | 'text' | 'blob';
+  init: RequestInit;
 }
 
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+/**
+ * Backoff for the given retry, with "equal jitter" so clients that failed
+ * together don't retry in lockstep
+ */
+const retryDelay = (attempt: number): number => {
+  const ceiling = Math.min(
+    RETRY_CONFIG.initialDelay * Math.pow(RETRY_CONFIG.backoffMultiplier, attempt),
+    RETRY_CONFIG.maxDelay
+  );
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+};
+
+const buildQueryString = (params?: object): string => {
+  if (!params) return '';
+
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === undefined || value === null) return;
+    const values: unknown[] = Array.isArray(value) ? value : [value];
+    values.forEach((item) => query.append(key, String(item)));
+  });
+
+  const queryString = query.toString();
+  return queryString ? `?${queryString}` : '';
+};
+
 class APIClient {
   private baseUrl: string;
+  private defaults: FetchOptions;
+  private inFlight = new Map<string, Promise<APIResponse<unknown>>>();
+  private controllers = new Set<AbortController>();
 
-  constructor(baseUrl: string = API_BASE_URL) {
+  constructor(baseUrl: string = API_BASE_URL, defaults: FetchOptions = {}) {
     this.baseUrl = baseUrl;
+    this.defaults = defaults;
   }
 
   /**
    * Make authenticated API request
    */
-  async request<T = any>(
-    path: string,
-    options: FetchOptions = {}
-  ): Promise<{ data: T; status: number }> {
-    const { skipAuth = false, baseURL = this.baseUrl, ...fetchOptions } = options;
-
-    const url = `${baseURL}${path}`;
-    const headers = new Headers(fetchOptions.headers || {});
-
-    // Add JWT token if available and not skipped
-    if (!skipAuth) {
-      const token = authService.getToken();
-      if (token) {
-        headers.set('Authorization', `Bearer ${token}`);
-      }
-    }
+  async request<T = unknown>(path: string, options: FetchOptions = {}): Promise<APIResponse<T>> {
+    const config = this.resolveConfig(path, options);
 
-    // Ensure content-type
-    if (!headers.has('Content-Type') && fetchOptions.body) {
-      headers.set('Content-Type', 'application/json');
-    }
+    // Only requests the caller can't cancel individually are shared
+    const dedupeKey =
+      config.init.method === 'GET' && config.dedupe && !config.init.signal
+        ? `${config.responseType} ${config.url}`
+        : null;
 
-    try {
-      const response = await fetch(url, {
-        ...fetchOptions,
-        headers,
-        credentials: 'include', // Include cookies for session-based auth fallback
-      });
-
-      // Handle 401 - token might be expired
-      if (response.status === 401 && !skipAuth) {
-        console.warn('Received 401 - attempting token refresh');
-
-        // Try to refresh token
-        const refreshToken = authService.getRefreshToken();
-        if (refreshToken) {
-          try {
-            const refreshResponse = await fetch(`${baseURL}/api/v11/login/refresh`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                Authorization: `Bearer ${refreshToken}`,
-              },
-              credentials: 'include',
-            });
-
-            if (refreshResponse.ok) {
-              const { token: newToken, refreshToken: newRefreshToken, user, expiresIn } = await refreshResponse.json();
-
-              // Store new token
-              if (newToken && user) {
-                localStorage.setItem('auth_token', newToken);
-                if (newRefreshToken) {
-                  localStorage.setItem('auth_refresh_token', newRefreshToken);
-                }
-                localStorage.setItem('auth_user', JSON.stringify(user));
-                if (expiresIn) {
-                  const expiry = Date.now() + expiresIn * 1000;
-                  localStorage.setItem('auth_expiry', expiry.toString());
-                }
-
-                // Retry original request with new token
-                headers.set('Authorization', `Bearer ${newToken}`);
-                const retryResponse = await fetch(url, {
-                  ...fetchOptions,
-                  headers,
-                  credentials: 'include',
-                });
-
-                const data = await this.parseResponse<T>(retryResponse);
-                return { data, status: retryResponse.status };
-              }
-            }
-          } catch (refreshError) {
-            console.error('Token refresh failed:', refreshError);
-          }
-        }
+    if (dedupeKey) {
+      const pending = this.inFlight.get(dedupeKey);
+      // Callers of the same URL expect the same body type
+      if (pending) return pending as Promise<APIResponse<T>>;
+    }
 
-        // Refresh failed or no refresh token - dispatch logout
-        window.dispatchEvent(new CustomEvent('auth:unauthorized'));
+    const promise = this.requestWithRetry<T>(config);
 
-        // Clear auth state
-        localStorage.removeItem('auth_token');
-        localStorage.removeItem('auth_refresh_token');
-        localStorage.removeItem('auth_user');
-        localStorage.removeItem('auth_expiry');
+    if (dedupeKey) {
+      const clear = () => this.inFlight.delete(dedupeKey);
+      this.inFlight.set(dedupeKey, promise);
+      promise.then(clear, clear);
+    }
 
-        throw new Error('Unauthorized - session expired');
-      }
+    return promise;
+  }
 
-      const data = await this.parseResponse<T>(response);
-      return { data, status: response.status };
-    } catch (error) {
-      console.error('API request failed:', error);
-      throw error;
-    }
+  /**
+   * Make a request and resolve with the response body only
+   */
+  async requestData<T = unknown>(path: string, options?: FetchOptions): Promise<T> {
+    const { data } = await this.request<T>(path, options);
+    return data;
   }
 
   /**
    * GET request
    */
-  async get<T = any>(path: string, options?: FetchOptions) {
+  async get<T = unknown>(path: string, options?: FetchOptions) {
     return this.request<T>(path, { ...options, method: 'GET' });
   }
 
   /**
    * POST request
    */
-  async post<T = any>(path: string, body?: any, options?: FetchOptions) {
+  async post<T = unknown>(path: string, body?: unknown, options?: FetchOptions) {
     return this.request<T>(path, {
       ...options,
       method: 'POST',
@@ -142,7 +145,7 @@ class APIClient {
   /**
    * PUT request
    */
-  async put<T = any>(path: string, body?: any, options?: FetchOptions) {
+  async put<T = unknown>(path: string, body?: unknown, options?: FetchOptions) {
     return this.request<T>(path, {
       ...options,
       method: 'PUT',
@@ -150,28 +153,169 @@ class APIClient {
     });
   }
 
+  /**
+   * PATCH request
+   */
+  async patch<T = unknown>(path: string, body?: unknown, options?: FetchOptions) {
+    return this.request<T>(path, {
+      ...options,
+      method: 'PATCH',
+      body: body ? JSON.stringify(body) : undefined,
+    });
+  }
+
   /**
    * DELETE request
    */
-  async delete<T = any>(path: string, options?: FetchOptions) {
+  async delete<T = unknown>(path: string, options?: FetchOptions) {
     return this.request<T>(path, { ...options, method: 'DELETE' });
   }
 
   /**
-   * Parse response based on content type
+   * Abort every request this client still has in flight
+   */
+  cancelAll(): void {
+    this.controllers.forEach((controller) => controller.abort());
+    this.controllers.clear();
+  }
+
+  /**
+   * Merge client defaults with per-request options
    */
-  private async parseResponse<T>(response: Response): Promise<T> {
-    const contentType = response.headers.get('content-type');
+  private resolveConfig(path: string, options: FetchOptions): RequestConfig {
+    const {
+      skipAuth = false,
+      baseURL = this.baseUrl,
+      params,
+      timeout = API_TIMEOUTS.default,
+      retries,
+      dedupe = true,
+      responseType = 'json',
+      ...init
+    } = { ...this.defaults, ...options };
+
+    const method = (init.method ?? 'GET').toUpperCase();
+    const headers = new Headers(this.defaults.headers);
+    new Headers(options.headers).forEach((value, key) => headers.set(key, value));
+
+    return {
+      url: `${baseURL}${path}${buildQueryString(params)}`,
+      skipAuth,
+      timeoutMs: typeof timeout === 'number' ? timeout : API_TIMEOUTS[timeout],
+      retries: retries ?? (IDEMPOTENT_METHODS.has(method) ? RETRY_CONFIG.maxRetries : 0),
+      dedupe,
+      responseType,
+      init: { ...init, method, headers },
+    };
+  }
 
-    if (contentType?.includes('application/json')) {
-      return response.json();
+  private async requestWithRetry<T>(config: RequestConfig): Promise<APIResponse<T>> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(config);
+      } catch (error) {
+        const retryable = error instanceof ApiRequestError && error.info.retryable;
+        if (!retryable || attempt >= config.retries) {
+          throw error;
+        }
+        await new Promise((resolve) => setTimeout(resolve, retryDelay(attempt)));
+      }
+    }
+  }
+
+  /**
+   * Single attempt, including one token refresh on 401
+   */
+  private async send<T>(config: RequestConfig, allowRefresh = true): Promise<APIResponse<T>> {
+    const headers = new Headers(config.init.headers);
+
+    // Add JWT token if available, not skipped, and not supplied by the caller
+    // (waits for a refresh that is already in flight instead of sending a stale token)
+    const token =
+      config.skipAuth || headers.has('Authorization') ? null : await authService.getValidToken();
+    if (token) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+
+    // Ensure content-type
+    if (!headers.has('Content-Type') && typeof config.init.body === 'string') {
+      headers.set('Content-Type', 'application/json');
+    }
+
+    const controller = new AbortController();
+    const callerSignal = config.init.signal;
+    const abortFromCaller = () => controller.abort();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, config.timeoutMs);
+
+    if (callerSignal?.aborted) controller.abort();
+    callerSignal?.addEventListener('abort', abortFromCaller);
+    this.controllers.add(controller);
+
+    let response: Response;
+    let data: T;
+    try {
+      response = await fetch(config.url, {
+        ...config.init,
+        headers,
+        signal: controller.signal,
+        credentials: 'include', // Include cookies for session-based auth fallback
+      });
+      data = await this.parseResponse<T>(response, config.responseType);
+    } catch (error) {
+      if (timedOut) {
+        throw ApiRequestError.from(new Error(`Request timeout after ${config.timeoutMs}ms`));
+      }
+      // Cancelled by the caller or cancelAll(): surface the AbortError untouched
+      if (controller.signal.aborted) throw error;
+      throw ApiRequestError.from(error);
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener('abort', abortFromCaller);
+      this.controllers.delete(controller);
+    }
+
+    // Handle 401 - token might be expired
+    if (response.status === 401 && token) {
+      console.warn('Received 401 - attempting token refresh');
+      if (allowRefresh && (await authService.refreshSession(token))) {
+        return this.send<T>(config, false);
+      }
+      authService.expireSession(token);
+      throw ApiRequestError.from(new Error('HTTP 401: Unauthorized - session expired'), data);
     }
 
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      throw ApiRequestError.from(
+        new Error(`HTTP ${response.status}: ${response.statusText}`),
+        data
+      );
     }
 
-    return (await response.text()) as any;
+    return { data, status: response.status };
+  }
+
+  /**
+   * Parse response based on the requested type; JSON bodies fall back to text
+   */
+  private async parseResponse<T>(response: Response, responseType: string): Promise<T> {
+    if (responseType === 'blob' && response.ok) {
+      return (await response.blob()) as T;
+    }
+
+    const text = await response.text();
+    if (responseType === 'text' || !text) {
+      return text as T;
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text as T;
+    }
   }
 }
 
@@ -0,0 +1,164 @@
+import APIClient from './apiClient';
+import { ACCOUNT_API_BASE_URL } from '../utils/constants';
+import type { PermissionAction, PermissionModule } from '../types/user';
+
+/**
+ * What a key may do, in the same modules and actions as the role permission matrix
+ */
+export interface ApiKeyScope {
+  module: PermissionModule;
+  actions: PermissionAction[];
+}
+
+/** 'rotating' keys have been replaced but keep working until they expire */
+export type ApiKeyStatus = 'active' | 'rotating' | 'expired' | 'revoked';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  /** Start of the secret, enough to recognise it; the secret itself is never returned again */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  /** IPv4 addresses or CIDR ranges the key may be used from; empty allows any */
+  ipAllowlist: string[];
+  status: ApiKeyStatus;
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt?: string;
+  lastUsedIp?: string;
+  revokedAt?: string;
+  totalRequests: number;
+  /** Key this one was rotated from */
+  rotatedFromId?: string;
+  /** Key that replaced this one */
+  replacedById?: string;
+}
+
+/** Rotated keys share their name, so the prefix tells them apart */
+export const apiKeyLabel = (key: ApiKey): string => `${key.name} (${key.prefix}…)`;
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt: string | null;
+  ipAllowlist: string[];
+}
+
+/** A key together with its secret, returned only when the key is created or rotated */
+export interface ApiKeySecret {
+  key: ApiKey;
+  secret: string;
+}
+
+export interface RotateApiKeyResponse extends ApiKeySecret {
+  /** The old key, now rotating until its overlap window ends */
+  previous: ApiKey;
+}
+
+/** Longest a rotated key may keep working alongside its replacement */
+export const API_KEY_MAX_OVERLAP_HOURS = 168;
+
+export type ApiKeyUsagePeriod = '24h' | '7d' | '30d';
+
+export interface ApiKeyUsageBucket {
+  start: string;
+  requests: number;
+  errors: number;
+}
+
+export interface ApiKeyUsage {
+  keyId: string;
+  period: ApiKeyUsagePeriod;
+  buckets: ApiKeyUsageBucket[];
+  totalRequests: number;
+  totalErrors: number;
+}
+
+export interface ApiKeyAccessLog {
+  id: string;
+  keyId: string;
+  keyName: string;
+  timestamp: string;
+  method: string;
+  path: string;
+  status: number;
+  ipAddress: string;
+  latencyMs: number;
+  /** Why the request was refused, for 401/403 responses */
+  denialReason?: 'expired' | 'revoked' | 'ip_not_allowed' | 'scope';
+}
+
+const apiClient = new APIClient(ACCOUNT_API_BASE_URL);
+
+export const apiKeyApi = {
+  // List the signed-in developer's keys
+  async getKeys(): Promise<ApiKey[]> {
+    try {
+      const response = await apiClient.get<ApiKey[]>('/developer/keys');
+      return response.data;
+    } catch (error) {
+      throw new Error(error instanceof Error ? error.message : 'Failed to fetch API keys');
+    }
+  },
+
+  // Create a key; the secret is in the response and nowhere else
+  async createKey(request: CreateApiKeyRequest): Promise<ApiKeySecret> {
+    try {
+      const response = await apiClient.post<ApiKeySecret>('/developer/keys', request);
+      return response.data;
+    } catch (error) {
+      throw new Error(error instanceof Error ? error.message : 'Failed to create API key');
+    }
+  },
+
+  // Issue a replacement key, keeping the old one working for overlapHours
+  async rotateKey(keyId: string, overlapHours: number): Promise<RotateApiKeyResponse> {
+    try {
+      const response = await apiClient.post<RotateApiKeyResponse>(
+        `/developer/keys/${keyId}/rotate`,
+        {
+          overlapHours,
+        }
+      );
+      return response.data;
+    } catch (error) {
+      throw new Error(error instanceof Error ? error.message : 'Failed to rotate API key');
+    }
+  },
+
+  // Revoke a key immediately
+  async revokeKey(keyId: string): Promise<ApiKey> {
+    try {
+      const response = await apiClient.post<ApiKey>(`/developer/keys/${keyId}/revoke`);
+      return response.data;
+    } catch (error) {
+      throw new Error(error instanceof Error ? error.message : 'Failed to revoke API key');
+    }
+  },
+
+  // Request counts for one key over a period
+  async getUsage(keyId: string, period: ApiKeyUsagePeriod = '7d'): Promise<ApiKeyUsage> {
+    try {
+      const response = await apiClient.get<ApiKeyUsage>(`/developer/keys/${keyId}/usage`, {
+        params: { period },
+      });
+      return response.data;
+    } catch (error) {
+      throw new Error(error instanceof Error ? error.message : 'Failed to fetch API key usage');
+    }
+  },
+
+  // Recent requests made with the developer's keys, newest first
+  async getAccessLogs(keyId?: string, limit: number = 100): Promise<ApiKeyAccessLog[]> {
+    try {
+      const response = await apiClient.get<ApiKeyAccessLog[]>('/developer/access-logs', {
+        params: { keyId, limit },
+      });
+      return response.data;
+    } catch (error) {
+      throw new Error(error instanceof Error ? error.message : 'Failed to fetch access logs');
+    }
+  },
+};
+
+export default apiKeyApi;
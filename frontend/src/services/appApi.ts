@@ -1,6 +1,5 @@
-import axios from 'axios';
-
-const API_BASE_URL = process.env.REACT_APP_API_URL || 'https://dlt.aurigraph.io/api/v12';
+import APIClient from './apiClient';
+import { ACCOUNT_API_BASE_URL } from '../utils/constants';
 
 interface AppData {
   name: string;
@@ -28,39 +27,13 @@ interface AppFeature {
   rolloutPercentage: number;
 }
 
-const apiClient = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-});
-
-// Add authorization token if available
-apiClient.interceptors.request.use((config) => {
-  const token = localStorage.getItem('authToken');
-  if (token) {
-    config.headers.Authorization = `Bearer ${token}`;
-  }
-  return config;
-});
-
-// Handle errors globally
-apiClient.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('authToken');
-      window.location.href = '/login';
-    }
-    return Promise.reject(error);
-  }
-);
+const apiClient = new APIClient(ACCOUNT_API_BASE_URL);
 
 export const appApi = {
   // Get all apps
   async getApps(params?: SearchParams): Promise<App[]> {
     try {
-      const response = await apiClient.get('/apps', { params });
+      const response = await apiClient.get<App[]>('/apps', { params });
       return response.data;
     } catch (error) {
       throw new Error(
@@ -72,7 +45,7 @@ export const appApi = {
   // Get single app
   async getApp(appId: string): Promise<App> {
     try {
-      const response = await apiClient.get(`/apps/${appId}`);
+      const response = await apiClient.get<App>(`/apps/${appId}`);
       return response.data;
     } catch (error) {
       throw new Error(
@@ -84,7 +57,7 @@ export const appApi = {
   // Create new app
   async createApp(data: AppData): Promise<App> {
     try {
-      const response = await apiClient.post('/apps', data);
+      const response = await apiClient.post<App>('/apps', data);
       return response.data;
     } catch (error) {
       throw new Error(
@@ -96,7 +69,7 @@ export const appApi = {
   // Update app
   async updateApp(appId: string, data: Partial<AppData>): Promise<App> {
     try {
-      const response = await apiClient.put(`/apps/${appId}`, data);
+      const response = await apiClient.put<App>(`/apps/${appId}`, data);
       return response.data;
     } catch (error) {
       throw new Error(
@@ -119,7 +92,7 @@ export const appApi = {
   // Search apps
   async searchApps(query: string, filters?: any): Promise<App[]> {
     try {
-      const response = await apiClient.get('/apps/search', {
+      const response = await apiClient.get<App[]>('/apps/search', {
         params: { q: query, ...filters },
       });
       return response.data;
@@ -133,7 +106,7 @@ export const appApi = {
   // Get app features
   async getAppFeatures(appId: string): Promise<AppFeature[]> {
     try {
-      const response = await apiClient.get(`/apps/${appId}/features`);
+      const response = await apiClient.get<AppFeature[]>(`/apps/${appId}/features`);
       return response.data;
     } catch (error) {
       throw new Error(
@@ -149,10 +122,9 @@ export const appApi = {
     enabled: boolean
   ): Promise<AppFeature> {
     try {
-      const response = await apiClient.patch(
-        `/apps/${appId}/features/${featureId}`,
-        { enabled }
-      );
+      const response = await apiClient.patch<AppFeature>(`/apps/${appId}/features/${featureId}`, {
+        enabled,
+      });
       return response.data;
     } catch (error) {
       throw new Error(
@@ -168,7 +140,7 @@ export const appApi = {
     rolloutPercentage: number
   ): Promise<AppFeature> {
     try {
-      const response = await apiClient.patch(
+      const response = await apiClient.patch<AppFeature>(
         `/apps/${appId}/features/${featureId}/rollout`,
         { rolloutPercentage }
       );
@@ -54,8 +54,12 @@ const REFRESH_TOKEN_KEY = 'auth_refresh_token';
 const USER_KEY = 'auth_user';
 const EXPIRY_KEY = 'auth_expiry';
 
+// Refresh this long before auth_expiry so a token never lapses mid-request
+const REFRESH_AHEAD_MS = 60 * 1000;
+
 class AuthService {
   private baseUrl: string;
+  private refreshInFlight: Promise<string | null> | null = null;
 
   constructor(baseUrl: string = API_BASE_URL) {
     this.baseUrl = baseUrl;
@@ -109,6 +113,83 @@ class AuthService {
     }
   }
 
+  /**
+   * Get a token that stays valid for at least REFRESH_AHEAD_MS
+   * Refreshes first when the stored token is about to expire, and waits
+   * for a refresh that is already running instead of starting another
+   */
+  async getValidToken(): Promise<string | null> {
+    if (this.refreshInFlight) {
+      return (await this.refreshInFlight) ?? this.getToken();
+    }
+
+    const token = this.getToken();
+    const expiryStr = localStorage.getItem(EXPIRY_KEY);
+    if (!token || !expiryStr || !this.getRefreshToken()) {
+      return token;
+    }
+
+    if (Date.now() >= parseInt(expiryStr, 10) - REFRESH_AHEAD_MS) {
+      return (await this.refreshSession()) ?? token;
+    }
+    return token;
+  }
+
+  /**
+   * Refresh the JWT token; concurrent callers share a single request
+   * Pass the token the server rejected: if it has already been replaced
+   * (by another request or another tab), the current token is returned as is
+   */
+  refreshSession(rejectedToken?: string): Promise<string | null> {
+    if (this.refreshInFlight) {
+      return this.refreshInFlight;
+    }
+
+    const currentToken = this.getToken();
+    if (rejectedToken && currentToken && currentToken !== rejectedToken) {
+      return Promise.resolve(currentToken);
+    }
+
+    const refreshToken = this.getRefreshToken();
+    if (!refreshToken) {
+      return Promise.resolve(null);
+    }
+
+    this.refreshInFlight = this.refreshTokenAsync(refreshToken)
+      .then((refreshed) => {
+        if (!refreshed.token) return null;
+        this.storeToken(
+          refreshed.token,
+          refreshed.refreshToken,
+          refreshed.expiresIn,
+          refreshed.user
+        );
+        return refreshed.token as string;
+      })
+      .catch((error) => {
+        console.warn('Token refresh failed:', error);
+        return null;
+      })
+      .finally(() => {
+        this.refreshInFlight = null;
+      });
+
+    return this.refreshInFlight;
+  }
+
+  /**
+   * End a session the server no longer accepts
+   * Only the first caller for a given token clears storage and notifies listeners
+   */
+  expireSession(rejectedToken?: string): void {
+    if (rejectedToken && this.getToken() !== rejectedToken) {
+      return;
+    }
+
+    this.clearStorage();
+    window.dispatchEvent(new CustomEvent('auth:unauthorized'));
+  }
+
   /**
    * Store JWT token and user data
    */
@@ -124,6 +205,10 @@ class AuthService {
       if (expiresIn) {
         const expiry = Date.now() + expiresIn * 1000;
         localStorage.setItem(EXPIRY_KEY, expiry.toString());
+      } else {
+        // The previous token's expiry says nothing about this one; keeping it
+        // would have getValidToken() refresh again on every request
+        localStorage.removeItem(EXPIRY_KEY);
       }
     } catch (error) {
       console.error('Failed to store token:', error);
@@ -200,20 +285,14 @@ class AuthService {
       }
 
       // Try to refresh token if we have refresh token
-      const refreshToken = this.getRefreshToken();
-      if (refreshToken && !this.isTokenExpired()) {
-        try {
-          const refreshed = await this.refreshTokenAsync(refreshToken);
-          if (refreshed.token) {
-            this.storeToken(refreshed.token, refreshed.refreshToken, refreshed.expiresIn, refreshed.user);
-            return {
-              authenticated: true,
-              token: refreshed.token,
-              user: refreshed.user,
-            };
-          }
-        } catch (err) {
-          console.warn('Token refresh failed:', err);
+      if (this.getRefreshToken()) {
+        const refreshedToken = await this.refreshSession();
+        if (refreshedToken) {
+          return {
+            authenticated: true,
+            token: refreshedToken,
+            user: this.getStoredUser(),
+          };
         }
       }
 
@@ -252,6 +331,7 @@ class AuthService {
 
   /**
    * Refresh JWT token
+   * Call refreshSession() instead, so concurrent refreshes are coalesced
    */
   private async refreshTokenAsync(refreshToken: string): Promise<any> {
     const response = await fetch(`${this.baseUrl}/api/v11/login/refresh`, {
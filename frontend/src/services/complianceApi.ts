@@ -3,7 +3,12 @@
  * Integrates with V11 compliance endpoints
  */
 
-import axios, { AxiosInstance } from 'axios';
+import APIClient from './apiClient';
+
+/** KYC levels from least to most thorough */
+export const KYC_LEVELS = ['BASIC', 'ENHANCED', 'INSTITUTIONAL'] as const;
+
+export type KycLevel = (typeof KYC_LEVELS)[number];
 
 export interface ComplianceMetrics {
   totalIdentities: number;
@@ -16,13 +21,94 @@ export interface ComplianceMetrics {
   complianceRate: number;
 }
 
+export const ALERT_STATUSES = [
+  'new',
+  'acknowledged',
+  'investigating',
+  'resolved',
+  'false_positive',
+] as const;
+
+export type AlertStatus = (typeof ALERT_STATUSES)[number];
+
+/** Statuses an alert may move to from each status; closed alerts can only be reopened */
+export const ALERT_TRANSITIONS: Record<AlertStatus, AlertStatus[]> = {
+  new: ['acknowledged', 'investigating', 'resolved', 'false_positive'],
+  acknowledged: ['investigating', 'resolved', 'false_positive'],
+  investigating: ['resolved', 'false_positive'],
+  resolved: ['investigating'],
+  false_positive: ['investigating'],
+};
+
+/** One entry in an alert's activity log. Entries are only ever appended. */
+export interface AlertActivity {
+  id: string;
+  timestamp: string;
+  actor: string;
+  action: 'created' | 'status_changed' | 'assigned' | 'commented' | 'linked';
+  /** Human-readable summary of what happened */
+  detail: string;
+  fromStatus?: AlertStatus;
+  toStatus?: AlertStatus;
+  /** Comment text, for `commented` entries */
+  comment?: string;
+}
+
 export interface ComplianceAlert {
   id: string;
+  /** Severity, which also sets the SLA */
   type: 'critical' | 'warning' | 'info';
   title: string;
   message: string;
   timestamp: string;
+  /** True once the alert is resolved or dismissed as a false positive */
   resolved: boolean;
+  status: AlertStatus;
+  assignee?: string;
+  tokenId?: string;
+  jurisdiction?: string;
+  /** Audit trail entries (see getAuditTrailReport) that raised the alert */
+  auditEntryIds: string[];
+  /** When the alert must be closed to meet its severity's SLA */
+  slaDueAt: string;
+  acknowledgedAt?: string;
+  resolvedAt?: string;
+  activity: AlertActivity[];
+}
+
+/**
+ * Where an alert stands against its SLA at `now`. Open alerts are due soon in
+ * the last quarter of their window; closed alerts met it if closed by the due time.
+ */
+export type AlertSlaState = 'on_track' | 'due_soon' | 'overdue' | 'met' | 'breached';
+
+export const alertSlaState = (alert: ComplianceAlert, now: number): AlertSlaState => {
+  const due = Date.parse(alert.slaDueAt);
+  if (alert.resolved) {
+    return alert.resolvedAt !== undefined && Date.parse(alert.resolvedAt) <= due
+      ? 'met'
+      : 'breached';
+  }
+  if (now >= due) return 'overdue';
+  const window = due - Date.parse(alert.timestamp);
+  return due - now < window / 4 ? 'due_soon' : 'on_track';
+};
+
+export interface AlertFilters {
+  status?: AlertStatus;
+  tokenId?: string;
+  jurisdiction?: string;
+}
+
+export interface AuditTrailEntry {
+  id: string;
+  timestamp: string;
+  action: 'TRANSFER_EXECUTED' | 'TRANSFER_CHECKED';
+  from: string;
+  to: string;
+  amount: number;
+  allowed: boolean;
+  violations: string[];
 }
 
 export interface TokenCompliance {
@@ -44,6 +130,26 @@ export interface IdentityRecord {
   status: 'active' | 'revoked' | 'expired';
 }
 
+export interface ComplianceStats {
+  totalTokens: number;
+  compliantTokens: number;
+  pendingTokens: number;
+  restrictedCountries: string[];
+}
+
+export interface ComplianceRisk {
+  tokenId: string;
+  jurisdiction: string;
+  riskScore: number;
+  issues: string[];
+}
+
+export interface ComplianceSystemHealth {
+  status: 'UP' | 'DEGRADED' | 'DOWN';
+  /** Component name to its status */
+  components: Record<string, 'UP' | 'DEGRADED' | 'DOWN'>;
+}
+
 export interface TransferComplianceRequest {
   tokenId: string;
   from: string;
@@ -51,10 +157,79 @@ export interface TransferComplianceRequest {
   amount: number;
 }
 
+export type ComplianceRule =
+  | 'identity'
+  | 'identity_expiry'
+  | 'kyc_level'
+  | 'country_restriction'
+  | 'certification'
+  | 'sender_balance'
+  | 'holding_limit'
+  | 'transfer_limit';
+
+/** Outcome of one transfer rule, explained whether it passed or failed */
+export interface ComplianceRuleResult {
+  rule: ComplianceRule;
+  /** Party the rule was checked for; token-wide rules have none */
+  party?: 'sender' | 'recipient';
+  passed: boolean;
+  detail: string;
+}
+
 export interface TransferComplianceResponse {
   allowed: boolean;
   violations: string[];
   reason?: string;
+  /** Every rule evaluated, in evaluation order */
+  rules?: ComplianceRuleResult[];
+}
+
+export interface TokenCertification {
+  id: string;
+  name: string;
+  issuer: string;
+  expiryDate: string;
+}
+
+/** Transfer rules configured for one token */
+export interface TokenTransferRules {
+  tokenId: string;
+  /** Lowest KYC level both parties need */
+  minKycLevel: KycLevel;
+  /** Most one investor may hold of the token */
+  maxHolding: number;
+  /** Largest single transfer allowed without manual review */
+  transferLimit: number;
+  certifications: TokenCertification[];
+}
+
+/** A checked or executed transfer as the compliance service recorded it */
+export interface ComplianceTransferRecord extends TransferComplianceRequest {
+  id: string;
+  timestamp: string;
+  executed: boolean;
+  result: TransferComplianceResponse;
+}
+
+export interface TransferReport {
+  tokenId: string;
+  total: number;
+  approved: number;
+  rejected: number;
+  /** Percentage of transfers approved */
+  approvalRate: number;
+  transfers: ComplianceTransferRecord[];
+}
+
+export interface KycAmlReport {
+  reportDate: string;
+  total: number;
+  active: number;
+  revoked: number;
+  verified: number;
+  /** KYC level to identities at it */
+  byKycLevel: Record<string, number>;
+  restrictedCountryIdentities: number;
 }
 
 export interface ComplianceReport {
@@ -82,18 +257,12 @@ export interface ComplianceReport {
 }
 
 class ComplianceApiService {
-  private apiClient: AxiosInstance;
+  private apiClient: APIClient;
   private baseURL: string;
 
   constructor(baseURL: string = 'http://localhost:9003/api/v11') {
     this.baseURL = baseURL;
-    this.apiClient = axios.create({
-      baseURL: this.baseURL,
-      timeout: 30000,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
+    this.apiClient = new APIClient(this.baseURL, { timeout: 'longOperation' });
   }
 
   // Identity Management
@@ -107,13 +276,22 @@ class ComplianceApiService {
     return response.data;
   }
 
+  async listIdentities(): Promise<IdentityRecord[]> {
+    const response = await this.apiClient.get<IdentityRecord[]>('/compliance/erc3643/identities');
+    return response.data;
+  }
+
   async getIdentity(address: string): Promise<IdentityRecord> {
-    const response = await this.apiClient.get(`/compliance/erc3643/identities/${address}`);
+    const response = await this.apiClient.get<IdentityRecord>(
+      `/compliance/erc3643/identities/${address}`
+    );
     return response.data;
   }
 
   async validateIdentity(address: string): Promise<boolean> {
-    const response = await this.apiClient.get(`/compliance/erc3643/identities/${address}/valid`);
+    const response = await this.apiClient.get<{ valid: boolean }>(
+      `/compliance/erc3643/identities/${address}/valid`
+    );
     return response.data.valid;
   }
 
@@ -130,8 +308,27 @@ class ComplianceApiService {
   }
 
   // Transfer Compliance
-  async checkTransferCompliance(request: TransferComplianceRequest): Promise<TransferComplianceResponse> {
-    const response = await this.apiClient.post('/compliance/erc3643/transfers/check', request);
+  async checkTransferCompliance(
+    request: TransferComplianceRequest
+  ): Promise<TransferComplianceResponse> {
+    const response = await this.apiClient.post<TransferComplianceResponse>(
+      '/compliance/erc3643/transfers/check',
+      request
+    );
+    return response.data;
+  }
+
+  /**
+   * Evaluate transfers against the compliance rules without recording or
+   * executing them
+   */
+  async simulateTransfers(
+    transfers: TransferComplianceRequest[]
+  ): Promise<TransferComplianceResponse[]> {
+    const response = await this.apiClient.post<TransferComplianceResponse[]>(
+      '/compliance/erc3643/transfers/simulate',
+      { transfers }
+    );
     return response.data;
   }
 
@@ -164,8 +361,22 @@ class ComplianceApiService {
     return response.data;
   }
 
+  async listTokenCompliance(): Promise<TokenCompliance[]> {
+    const response = await this.apiClient.get<TokenCompliance[]>('/compliance/erc3643/tokens');
+    return response.data;
+  }
+
+  async getTokenTransferRules(tokenId: string): Promise<TokenTransferRules> {
+    const response = await this.apiClient.get<TokenTransferRules>(
+      `/compliance/erc3643/tokens/${tokenId}/rules`
+    );
+    return response.data;
+  }
+
   async checkTokenCompliance(tokenId: string): Promise<TokenCompliance> {
-    const response = await this.apiClient.post(`/compliance/erc3643/tokens/${tokenId}/compliance/check`);
+    const response = await this.apiClient.post<TokenCompliance>(
+      `/compliance/erc3643/tokens/${tokenId}/compliance/check`
+    );
     return response.data;
   }
 
@@ -179,8 +390,10 @@ class ComplianceApiService {
     return response.data;
   }
 
-  async getComplianceStats() {
-    const response = await this.apiClient.get('/compliance/erc3643/compliance/stats');
+  async getComplianceStats(): Promise<ComplianceStats> {
+    const response = await this.apiClient.get<ComplianceStats>(
+      '/compliance/erc3643/compliance/stats'
+    );
     return response.data;
   }
 
@@ -201,35 +414,45 @@ class ComplianceApiService {
     if (startDate) params.append('startDate', startDate);
     if (endDate) params.append('endDate', endDate);
 
-    const response = await this.apiClient.get(
+    const response = await this.apiClient.get<ComplianceReport>(
       `/compliance/reports/token/${tokenId}?${params.toString()}`
     );
     return response.data;
   }
 
-  async getTransferReport(tokenId: string) {
-    const response = await this.apiClient.get(`/compliance/reports/transfers/${tokenId}`);
+  async getTransferReport(
+    tokenId: string,
+    startDate?: string,
+    endDate?: string
+  ): Promise<TransferReport> {
+    const params = new URLSearchParams();
+    if (startDate) params.append('startDate', startDate);
+    if (endDate) params.append('endDate', endDate);
+
+    const response = await this.apiClient.get<TransferReport>(
+      `/compliance/reports/transfers/${tokenId}?${params.toString()}`
+    );
     return response.data;
   }
 
-  async getKYCAMLReport() {
-    const response = await this.apiClient.get('/compliance/reports/kyc-aml');
+  async getKYCAMLReport(): Promise<KycAmlReport> {
+    const response = await this.apiClient.get<KycAmlReport>('/compliance/reports/kyc-aml');
     return response.data;
   }
 
-  async getAuditTrailReport(tokenId: string, limit: number = 100) {
-    const response = await this.apiClient.get(
+  async getAuditTrailReport(tokenId: string, limit: number = 100): Promise<AuditTrailEntry[]> {
+    const response = await this.apiClient.get<AuditTrailEntry[]>(
       `/compliance/reports/audit-trail/${tokenId}?limit=${limit}`
     );
     return response.data;
   }
 
-  async exportTokenReport(tokenId: string, startDate?: string, endDate?: string) {
+  async exportTokenReport(tokenId: string, startDate?: string, endDate?: string): Promise<Blob> {
     const params = new URLSearchParams();
     if (startDate) params.append('startDate', startDate);
     if (endDate) params.append('endDate', endDate);
 
-    const response = await this.apiClient.get(
+    const response = await this.apiClient.get<Blob>(
       `/compliance/reports/export/token/${tokenId}?${params.toString()}`,
       { responseType: 'blob' }
     );
@@ -237,13 +460,67 @@ class ComplianceApiService {
   }
 
   // Dashboard
-  async getDashboardMetrics() {
-    const response = await this.apiClient.get('/compliance/dashboard/metrics');
+  async getDashboardMetrics(): Promise<ComplianceMetrics> {
+    const response = await this.apiClient.get<ComplianceMetrics>('/compliance/dashboard/metrics');
     return response.data;
   }
 
-  async getAlerts() {
-    const response = await this.apiClient.get('/compliance/dashboard/alerts');
+  async getAlerts(filters: AlertFilters = {}): Promise<ComplianceAlert[]> {
+    const params = new URLSearchParams();
+    if (filters.status) params.append('status', filters.status);
+    if (filters.tokenId) params.append('tokenId', filters.tokenId);
+    if (filters.jurisdiction) params.append('jurisdiction', filters.jurisdiction);
+
+    const response = await this.apiClient.get<ComplianceAlert[]>(
+      `/compliance/dashboard/alerts?${params.toString()}`
+    );
+    return response.data;
+  }
+
+  // Alert workflow
+  async getAlert(alertId: string): Promise<ComplianceAlert> {
+    const response = await this.apiClient.get<ComplianceAlert>(`/compliance/alerts/${alertId}`);
+    return response.data;
+  }
+
+  async updateAlertStatus(
+    alertId: string,
+    status: AlertStatus,
+    note?: string
+  ): Promise<ComplianceAlert> {
+    const response = await this.apiClient.post<ComplianceAlert>(
+      `/compliance/alerts/${alertId}/status`,
+      {
+        status,
+        note,
+      }
+    );
+    return response.data;
+  }
+
+  async assignAlert(alertId: string, assignee: string | null): Promise<ComplianceAlert> {
+    const response = await this.apiClient.post<ComplianceAlert>(
+      `/compliance/alerts/${alertId}/assign`,
+      {
+        assignee,
+      }
+    );
+    return response.data;
+  }
+
+  async commentOnAlert(alertId: string, comment: string): Promise<ComplianceAlert> {
+    const response = await this.apiClient.post<ComplianceAlert>(
+      `/compliance/alerts/${alertId}/comments`,
+      {
+        comment,
+      }
+    );
+    return response.data;
+  }
+
+  /** Usernames alerts can be assigned to */
+  async getAlertAssignees(): Promise<string[]> {
+    const response = await this.apiClient.get<string[]>('/compliance/alerts/assignees');
     return response.data;
   }
 
@@ -252,13 +529,17 @@ class ComplianceApiService {
     return response.data;
   }
 
-  async getTopRisks(limit: number = 10) {
-    const response = await this.apiClient.get(`/compliance/dashboard/risks?limit=${limit}`);
+  async getTopRisks(limit: number = 10): Promise<ComplianceRisk[]> {
+    const response = await this.apiClient.get<ComplianceRisk[]>(
+      `/compliance/dashboard/risks?limit=${limit}`
+    );
     return response.data;
   }
 
-  async getSystemHealth() {
-    const response = await this.apiClient.get('/compliance/dashboard/health');
+  async getSystemHealth(): Promise<ComplianceSystemHealth> {
+    const response = await this.apiClient.get<ComplianceSystemHealth>(
+      '/compliance/dashboard/health'
+    );
     return response.data;
   }
 
@@ -5,6 +5,7 @@
  */
 
 import { API_BASE_URL } from '../utils/constants';
+import APIClient from './apiClient';
 
 export interface Contract {
   id: string;
@@ -55,12 +56,11 @@ export interface ContractsListResponse {
 }
 
 class ContractsApiService {
-  private baseUrl: string;
+  private client: APIClient;
   private demoMode: boolean;
-  private abortControllers: AbortController[] = [];
 
   constructor(baseUrl: string = API_BASE_URL, demoMode: boolean = false) {
-    this.baseUrl = baseUrl;
+    this.client = new APIClient(baseUrl);
     this.demoMode = demoMode;
   }
 
@@ -71,58 +71,11 @@ class ContractsApiService {
     this.demoMode = enabled;
   }
 
-  /**
-   * Fetch with retry logic and abort support
-   */
-  private async fetchWithRetry<T>(
-    endpoint: string,
-    options: RequestInit = {},
-    maxRetries: number = 3
-  ): Promise<T> {
-    const controller = new AbortController();
-    this.abortControllers.push(controller);
-
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        const response = await fetch(`${this.baseUrl}${endpoint}`, {
-          ...options,
-          signal: controller.signal,
-          headers: {
-            'Content-Type': 'application/json',
-            ...options.headers,
-          },
-        });
-
-        if (response.ok) {
-          const result = await response.json();
-          // Remove controller after successful fetch
-          this.abortControllers = this.abortControllers.filter((c) => c !== controller);
-          return result;
-        }
-
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      } catch (error: any) {
-        if (error.name === 'AbortError') {
-          throw error;
-        }
-        if (attempt < maxRetries - 1) {
-          await new Promise((resolve) => setTimeout(resolve, Math.pow(2, attempt) * 1000));
-        } else {
-          // Remove controller after all retries failed
-          this.abortControllers = this.abortControllers.filter((c) => c !== controller);
-          throw error;
-        }
-      }
-    }
-    throw new Error('Max retries exceeded');
-  }
-
   /**
    * Cancel all pending requests
    */
   cancelAll() {
-    this.abortControllers.forEach((controller) => controller.abort());
-    this.abortControllers = [];
+    this.client.cancelAll();
   }
 
   /**
@@ -140,7 +93,7 @@ class ContractsApiService {
       const endpoint = channelId
         ? `/api/v11/contracts?channelId=${channelId}`
         : '/api/v11/contracts';
-      return await this.fetchWithRetry<ContractsListResponse>(endpoint);
+      return await this.client.requestData<ContractsListResponse>(endpoint);
     } catch (error) {
       console.error('Failed to fetch contracts:', error);
       // Return empty list on error - NO FALLBACK DATA in production
@@ -158,7 +111,7 @@ class ContractsApiService {
     }
 
     try {
-      return await this.fetchWithRetry<Contract>(`/api/v11/contracts/${contractId}`);
+      return await this.client.requestData<Contract>(`/api/v11/contracts/${contractId}`);
     } catch (error) {
       console.error(`Failed to fetch contract ${contractId}:`, error);
       return null;
@@ -178,10 +131,14 @@ class ContractsApiService {
     }
 
     try {
-      const response = await this.fetchWithRetry<ContractResponse>('/api/v11/contracts/deploy', {
-        method: 'POST',
-        body: JSON.stringify(request),
-      });
+      const response = await this.client.requestData<ContractResponse>(
+        '/api/v11/contracts/deploy',
+        {
+          method: 'POST',
+          body: JSON.stringify(request),
+          timeout: 'longOperation',
+        }
+      );
       return response;
     } catch (error: any) {
       console.error('Failed to deploy contract:', error);
@@ -204,11 +161,12 @@ class ContractsApiService {
     }
 
     try {
-      return await this.fetchWithRetry<{ success: boolean; verified: boolean }>(
+      return await this.client.requestData<{ success: boolean; verified: boolean }>(
         `/api/v11/contracts/${contractId}/verify`,
         {
           method: 'POST',
           body: JSON.stringify({ sourceCode }),
+          timeout: 'longOperation',
         }
       );
     } catch (error) {
@@ -234,10 +192,11 @@ class ContractsApiService {
     }
 
     try {
-      return await this.fetchWithRetry<{ success: boolean; auditReport: any }>(
+      return await this.client.requestData<{ success: boolean; auditReport: any }>(
         `/api/v11/contracts/${contractId}/audit`,
         {
           method: 'POST',
+          timeout: 'longOperation',
         }
       );
     } catch (error) {
@@ -260,7 +219,7 @@ class ContractsApiService {
     }
 
     try {
-      return await this.fetchWithRetry<any>(`/api/v11/contracts/${contractId}/metrics`);
+      return await this.client.requestData(`/api/v11/contracts/${contractId}/metrics`);
     } catch (error) {
       console.error(`Failed to fetch metrics for contract ${contractId}:`, error);
       return null;
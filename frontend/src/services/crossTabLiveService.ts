@@ -0,0 +1,585 @@
+/**
+ * Cross-Tab Live Data Service
+ *
+ * Shares one set of WebSocket connections and gRPC streams across every
+ * open portal tab:
+ * - A leader tab, elected through the Web Locks API, owns the sockets and
+ *   the grpcStreamService subscriptions
+ * - Follower tabs announce the channels and streams they need over a
+ *   BroadcastChannel
+ * - The leader rebroadcasts each WebSocketEvent, which every tab applies to
+ *   its own liveDataSlice, and each stream update, which every tab hands to
+ *   its own stream subscribers
+ * - When the leader tab closes its lock is released and the next waiting
+ *   tab takes over, re-collecting channel interest from the others
+ * - Gaps in the transaction stream (e.g. after a reconnect) are backfilled
+ *   once by the leader and rebroadcast as a 'backfill' event
+ *
+ * Browsers without BroadcastChannel or Web Locks fall back to per-tab
+ * connections (every tab is its own leader).
+ */
+
+import type { AnyAction, Dispatch } from '@reduxjs/toolkit';
+import {
+  websocketService,
+  WebSocketChannel,
+  WebSocketEvent,
+  WebSocketGap,
+} from './websocketService';
+import { fetchGapBackfill, GapBackfill } from './liveDataBackfill';
+import {
+  grpcStreamService,
+  StreamConfig,
+  StreamSubscription,
+  StreamTransportKind,
+  StreamType,
+} from './grpcStreamService';
+import {
+  updateTransaction,
+  backfillTransactions,
+  updateValidator,
+  setValidators,
+  updateConsensusState,
+  updateNetworkMetrics,
+  updatePerformanceMetrics,
+  updateChannelMetrics,
+  setConnectionState,
+  setError,
+} from '../store/liveDataSlice';
+import {
+  backfillTransactions as backfillPortalTransactions,
+  backfillBlocks,
+} from '../store/comprehensivePortalSlice';
+import type {
+  Transaction,
+  Validator,
+  ConsensusState,
+  NetworkMetrics,
+  PerformanceMetrics,
+  ChannelMetrics,
+  LiveDataState,
+} from '../store/liveDataSlice';
+
+type ConnectionKey = keyof LiveDataState['connectionStates'];
+type ErrorKey = Exclude<ConnectionKey, 'liveStream'>;
+
+/**
+ * Stream options a tab can ask the leader for; the leader subscribes at
+ * the shortest interval any tab asked for
+ */
+export type SharedStreamConfig = Pick<StreamConfig, 'updateIntervalMs' | 'onTransportChange'>;
+
+interface StreamInterest {
+  streamType: StreamType;
+  updateIntervalMs?: number;
+}
+
+interface StreamListener {
+  callback: (data: unknown) => void;
+  config: SharedStreamConfig;
+}
+
+/** A stream update, or only a transport change when data is absent */
+interface StreamMessage {
+  kind: 'stream';
+  streamType: StreamType;
+  transport: StreamTransportKind | null;
+  data?: unknown;
+}
+
+type CrossTabMessage =
+  | { kind: 'interest'; tabId: string; channels: WebSocketChannel[]; streams: StreamInterest[] }
+  | { kind: 'leave'; tabId: string }
+  | { kind: 'leader-changed'; tabId: string }
+  | { kind: 'event'; event: WebSocketEvent }
+  | StreamMessage;
+
+const BROADCAST_CHANNEL_NAME = 'aurigraph-live-data';
+const LEADER_LOCK_NAME = 'aurigraph-live-data-leader';
+
+const shortestInterval = (intervals: (number | undefined)[]): number | undefined => {
+  const requested = intervals.filter((intervalMs): intervalMs is number => !!intervalMs);
+  return requested.length > 0 ? Math.min(...requested) : undefined;
+};
+
+/**
+ * Map a WebSocket channel to its liveDataSlice connection-state key
+ */
+export const toConnectionKey = (channel: WebSocketChannel): ConnectionKey =>
+  channel === 'live-stream' ? 'liveStream' : channel;
+
+/**
+ * Translate a WebSocketEvent into the liveDataSlice action it represents
+ */
+export const toLiveDataAction = (event: WebSocketEvent): AnyAction | null => {
+  const connectionKey = toConnectionKey(event.channel);
+
+  if (event.type === 'connected' || event.type === 'disconnected') {
+    return setConnectionState({
+      channel: connectionKey,
+      connected: event.type === 'connected',
+    });
+  }
+
+  if (event.type === 'error') {
+    if (connectionKey === 'liveStream') return null;
+    const message = (event.data as { message?: string } | undefined)?.message;
+    return setError({ channel: connectionKey as ErrorKey, error: message || 'Stream error' });
+  }
+
+  // Gaps and backfills are handled by the service itself
+  if (event.type === 'gap' || event.type === 'backfill' || !event.data) return null;
+
+  switch (event.channel) {
+    case 'transactions': {
+      const data = event.data as Partial<Transaction>;
+      if (!data.id) return null;
+      return updateTransaction({
+        id: data.id,
+        from: data.from || 'Unknown',
+        to: data.to || 'Unknown',
+        amount: data.amount || 0,
+        hash: data.hash || '',
+        blockHeight: data.blockHeight || 0,
+        timestamp: data.timestamp || new Date().toISOString(),
+        status: data.status || 'pending',
+        fee: data.fee || 0,
+        gasUsed: data.gasUsed,
+      });
+    }
+    case 'validators':
+      if (Array.isArray(event.data)) {
+        return setValidators(event.data as Validator[]);
+      }
+      return (event.data as Partial<Validator>).nodeId
+        ? updateValidator(event.data as Validator)
+        : null;
+    case 'consensus':
+      return (event.data as Partial<ConsensusState>).term !== undefined
+        ? updateConsensusState(event.data as ConsensusState)
+        : null;
+    case 'network':
+      return (event.data as Partial<NetworkMetrics>).totalNodes !== undefined
+        ? updateNetworkMetrics(event.data as NetworkMetrics)
+        : null;
+    case 'metrics': {
+      const data = event.data as Partial<PerformanceMetrics>;
+      if (data.tps === undefined) return null;
+      return updatePerformanceMetrics({
+        tps: data.tps,
+        avgTps: data.avgTps || data.tps,
+        peakTps: data.peakTps || data.tps,
+        totalTransactions: data.totalTransactions || 0,
+        activeTransactions: data.activeTransactions || 0,
+        pendingTransactions: data.pendingTransactions || 0,
+        avgLatencyMs: data.avgLatencyMs || 0,
+        p95LatencyMs: data.p95LatencyMs || 0,
+        p99LatencyMs: data.p99LatencyMs || 0,
+        memoryUsageMb: data.memoryUsageMb || 0,
+        cpuUsagePercent: data.cpuUsagePercent || 0,
+        timestamp: data.timestamp || new Date().toISOString(),
+      });
+    }
+    case 'channels':
+      return (event.data as Partial<ChannelMetrics>).totalChannels !== undefined
+        ? updateChannelMetrics(event.data as ChannelMetrics)
+        : null;
+    default:
+      // Unified stream messages are already routed to their own channel
+      return null;
+  }
+};
+
+class CrossTabLiveService {
+  private tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  private broadcast: BroadcastChannel | null = null;
+  private dispatch: Dispatch<AnyAction> | null = null;
+  private started = false;
+  private leader = false;
+  private localInterest: Map<WebSocketChannel, number> = new Map();
+  private remoteInterest: Map<string, Set<WebSocketChannel>> = new Map();
+  private socketSubscriptions: Map<WebSocketChannel, () => void> = new Map();
+  private localStreams: Map<StreamType, Set<StreamListener>> = new Map();
+  private remoteStreams: Map<string, StreamInterest[]> = new Map();
+  private streamSubscriptions: Map<
+    StreamType,
+    { intervalMs?: number; subscription: StreamSubscription }
+  > = new Map();
+  private streamTransports: Map<StreamType, StreamTransportKind | null> = new Map();
+  private leadershipListeners: Set<(isLeader: boolean) => void> = new Set();
+  private backfillQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Register interest in a channel for this tab.
+   * Returns a release function; the channel is dropped once no tab needs it.
+   */
+  acquire(channel: WebSocketChannel, dispatch: Dispatch<AnyAction>): () => void {
+    this.dispatch = dispatch;
+    this.start();
+
+    const count = (this.localInterest.get(channel) || 0) + 1;
+    this.localInterest.set(channel, count);
+    if (count === 1) {
+      this.announceInterest();
+    }
+    if (this.leader) {
+      this.replayConnectionState([channel], false);
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+
+      const remaining = (this.localInterest.get(channel) || 1) - 1;
+      if (remaining > 0) {
+        this.localInterest.set(channel, remaining);
+        return;
+      }
+      this.localInterest.delete(channel);
+      this.announceInterest();
+    };
+  }
+
+  /**
+   * Subscribe this tab to a gRPC stream relayed by the leader tab.
+   * Returns an unsubscribe function; the leader drops the stream once no
+   * tab needs it.
+   */
+  subscribeToStream<T>(
+    streamType: StreamType,
+    callback: (data: T) => void,
+    config: SharedStreamConfig = {}
+  ): () => void {
+    this.start();
+
+    const listener: StreamListener = { callback: callback as (data: unknown) => void, config };
+    const listeners = this.localStreams.get(streamType) ?? new Set<StreamListener>();
+    listeners.add(listener);
+    this.localStreams.set(streamType, listeners);
+    this.announceInterest();
+
+    let unsubscribed = false;
+    return () => {
+      if (unsubscribed) return;
+      unsubscribed = true;
+
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.localStreams.delete(streamType);
+        this.streamTransports.delete(streamType);
+      }
+      this.announceInterest();
+    };
+  }
+
+  /**
+   * Whether this tab currently owns the shared connections
+   */
+  isLeaderTab(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Listen for this tab gaining or losing leadership, joining the election
+   * if this tab hasn't yet
+   */
+  onLeadershipChange(listener: (isLeader: boolean) => void): () => void {
+    this.leadershipListeners.add(listener);
+    this.start();
+    return () => {
+      this.leadershipListeners.delete(listener);
+    };
+  }
+
+  // ========================================================================
+  // Private Helper Methods
+  // ========================================================================
+
+  /**
+   * Join the broadcast channel and queue for leadership
+   */
+  private start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    if (typeof BroadcastChannel === 'undefined' || !navigator.locks) {
+      this.becomeLeader();
+      return;
+    }
+
+    this.broadcast = new BroadcastChannel(BROADCAST_CHANNEL_NAME);
+    this.broadcast.onmessage = (event: MessageEvent<CrossTabMessage>) => {
+      this.handleMessage(event.data);
+    };
+
+    window.addEventListener('pagehide', () => {
+      this.post({ kind: 'leave', tabId: this.tabId });
+    });
+
+    // The lock is held for the lifetime of the tab and released by the
+    // browser when it closes, handing leadership to the next tab in line
+    navigator.locks
+      .request(LEADER_LOCK_NAME, () => {
+        this.becomeLeader();
+        return new Promise<void>(() => {});
+      })
+      .catch((error) => {
+        console.error('Leader election failed, using per-tab connections:', error);
+        this.becomeLeader();
+      });
+  }
+
+  private becomeLeader(): void {
+    if (this.leader) return;
+    this.leader = true;
+    console.log(`👑 Tab ${this.tabId} owns live data connections`);
+
+    // Followers re-announce their channels and streams to the new leader
+    this.remoteInterest.clear();
+    this.remoteStreams.clear();
+    this.post({ kind: 'leader-changed', tabId: this.tabId });
+    this.reconcileSubscriptions();
+
+    this.leadershipListeners.forEach((listener) => listener(true));
+  }
+
+  private handleMessage(message: CrossTabMessage): void {
+    switch (message.kind) {
+      case 'event':
+        if (!this.leader) this.apply(message.event);
+        break;
+      case 'stream':
+        if (!this.leader) this.applyStream(message);
+        break;
+      case 'leader-changed':
+        if (this.leader) break;
+        // Connection state is unknown until the new leader reports it
+        this.localInterest.forEach((_count, channel) => {
+          this.apply({
+            type: 'disconnected',
+            channel,
+            data: { channel },
+            timestamp: new Date().toISOString(),
+          });
+        });
+        this.localStreams.forEach((_listeners, streamType) => {
+          this.applyStream({ kind: 'stream', streamType, transport: null });
+        });
+        this.announceInterest();
+        break;
+      case 'interest':
+        if (!this.leader) break;
+        this.remoteInterest.set(message.tabId, new Set(message.channels));
+        this.remoteStreams.set(message.tabId, message.streams);
+        this.reconcileSubscriptions();
+        this.replayConnectionState(message.channels, true);
+        break;
+      case 'leave':
+        if (!this.leader) break;
+        this.remoteInterest.delete(message.tabId);
+        this.remoteStreams.delete(message.tabId);
+        this.reconcileSubscriptions();
+        break;
+    }
+  }
+
+  private announceInterest(): void {
+    if (this.leader) {
+      this.reconcileSubscriptions();
+      return;
+    }
+    this.post({
+      kind: 'interest',
+      tabId: this.tabId,
+      channels: Array.from(this.localInterest.keys()),
+      streams: this.localStreamInterest(),
+    });
+  }
+
+  private localStreamInterest(): StreamInterest[] {
+    return Array.from(this.localStreams, ([streamType, listeners]) => ({
+      streamType,
+      updateIntervalMs: shortestInterval(
+        Array.from(listeners, (listener) => listener.config.updateIntervalMs)
+      ),
+    }));
+  }
+
+  /**
+   * Leader only: hold exactly one socket subscription per channel and one
+   * stream subscription per stream type any tab needs
+   */
+  private reconcileSubscriptions(): void {
+    if (!this.leader) return;
+
+    const needed = new Set<WebSocketChannel>(this.localInterest.keys());
+    this.remoteInterest.forEach((channels) => channels.forEach((channel) => needed.add(channel)));
+
+    needed.forEach((channel) => {
+      if (this.socketSubscriptions.has(channel)) return;
+      const unsubscribe = websocketService.subscribe(channel, (event) =>
+        this.handleSocketEvent(event)
+      );
+      this.socketSubscriptions.set(channel, unsubscribe);
+    });
+
+    this.socketSubscriptions.forEach((unsubscribe, channel) => {
+      if (needed.has(channel)) return;
+      unsubscribe();
+      this.socketSubscriptions.delete(channel);
+    });
+
+    this.reconcileStreams();
+  }
+
+  private reconcileStreams(): void {
+    const intervals = new Map<StreamType, (number | undefined)[]>();
+    [this.localStreamInterest(), ...this.remoteStreams.values()].forEach((streams) =>
+      streams.forEach(({ streamType, updateIntervalMs }) => {
+        intervals.set(streamType, [...(intervals.get(streamType) ?? []), updateIntervalMs]);
+      })
+    );
+
+    intervals.forEach((requested, streamType) => {
+      const intervalMs = shortestInterval(requested);
+      const current = this.streamSubscriptions.get(streamType);
+      if (current?.subscription.isActive && current.intervalMs === intervalMs) return;
+
+      // Subscribe before unsubscribing so the upstream stays open
+      const subscription = grpcStreamService.subscribe(
+        streamType,
+        (data) =>
+          this.publishStream({
+            kind: 'stream',
+            streamType,
+            transport: grpcStreamService.getStreamTransport(streamType),
+            data,
+          }),
+        {
+          updateIntervalMs: intervalMs,
+          onTransportChange: (transport) =>
+            this.publishStream({ kind: 'stream', streamType, transport }),
+        }
+      );
+      current?.subscription.unsubscribe();
+      this.streamSubscriptions.set(streamType, { intervalMs, subscription });
+    });
+
+    this.streamSubscriptions.forEach(({ subscription }, streamType) => {
+      if (intervals.has(streamType)) return;
+      subscription.unsubscribe();
+      this.streamSubscriptions.delete(streamType);
+    });
+  }
+
+  /**
+   * Tell tabs that joined late about sockets that are already open
+   */
+  private replayConnectionState(channels: WebSocketChannel[], rebroadcast: boolean): void {
+    channels.forEach((channel) => {
+      if (websocketService.getConnectionState(channel) !== 'connected') return;
+      const event: WebSocketEvent = {
+        type: 'connected',
+        channel,
+        data: { channel },
+        timestamp: new Date().toISOString(),
+      };
+      if (rebroadcast) {
+        this.post({ kind: 'event', event });
+      } else {
+        this.apply(event);
+      }
+    });
+  }
+
+  private handleSocketEvent(event: WebSocketEvent): void {
+    if (event.type === 'gap') {
+      // Blocks are recovered alongside transactions
+      if (event.channel === 'transactions') {
+        this.backfill(event.data as WebSocketGap);
+      }
+      return;
+    }
+    this.publish(event);
+  }
+
+  /**
+   * Leader only: fetch what a gap missed and rebroadcast it to every tab.
+   * Backfills run one at a time so overlapping gaps don't race.
+   */
+  private backfill(gap: WebSocketGap): void {
+    this.backfillQueue = this.backfillQueue
+      .then(() => fetchGapBackfill(gap))
+      .then((result) => {
+        console.log(
+          `🔁 Backfilled ${result.liveTransactions.length} transactions and ${result.blocks.length} blocks on ${gap.channel}`
+        );
+        this.publish({
+          type: 'backfill',
+          channel: gap.channel,
+          data: result,
+          timestamp: new Date().toISOString(),
+        });
+      })
+      .catch((error) => {
+        console.error(`Backfill failed for ${gap.channel} gap since ${gap.since}:`, error);
+      });
+  }
+
+  private publish(event: WebSocketEvent): void {
+    this.apply(event);
+    this.post({ kind: 'event', event });
+  }
+
+  private publishStream(message: StreamMessage): void {
+    this.applyStream(message);
+    this.post(message);
+  }
+
+  /**
+   * Hand a stream update to this tab's subscribers, telling them first if
+   * the leader's transport changed
+   */
+  private applyStream(message: StreamMessage): void {
+    const listeners = this.localStreams.get(message.streamType);
+    if (!listeners) return;
+
+    if (this.streamTransports.get(message.streamType) !== message.transport) {
+      this.streamTransports.set(message.streamType, message.transport);
+      listeners.forEach((listener) => listener.config.onTransportChange?.(message.transport));
+    }
+    if ('data' in message) {
+      listeners.forEach((listener) => listener.callback(message.data));
+    }
+  }
+
+  private apply(event: WebSocketEvent): void {
+    if (!this.localInterest.has(event.channel) || !this.dispatch) return;
+
+    if (event.type === 'backfill') {
+      const result = event.data as GapBackfill;
+      this.dispatch(backfillTransactions(result.liveTransactions));
+      this.dispatch(backfillPortalTransactions(result.portalTransactions));
+      this.dispatch(backfillBlocks(result.blocks));
+      return;
+    }
+
+    const action = toLiveDataAction(event);
+    if (action) {
+      this.dispatch(action);
+    }
+  }
+
+  private post(message: CrossTabMessage): void {
+    try {
+      this.broadcast?.postMessage(message);
+    } catch (error) {
+      console.error('Failed to broadcast live data message:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const crossTabLiveService = new CrossTabLiveService();
+export default CrossTabLiveService;
@@ -0,0 +1,230 @@
+/**
+ * Feature Flag Service
+ *
+ * Resolves feature flags at runtime, in three layers (later wins):
+ * - defaultFeatureFlags from config/featureFlags
+ * - Rules served by GET /feature-flags, already merged with the overrides
+ *   of the caller's tenant. A rule may roll a flag out to a percentage of
+ *   users, bucketed by a stable hash of the user id
+ * - Local overrides kept in localStorage, set from the admin page
+ *
+ * Listeners are notified whenever the resolved flags change (rules loaded,
+ * override toggled here or in another tab, or a different user signed in).
+ */
+
+import { apiClient } from './apiClient';
+import { authService } from './authService';
+import { defaultFeatureFlags, FeatureFlags } from '../config/featureFlags';
+
+export type FeatureFlag = keyof FeatureFlags;
+
+export interface FeatureFlagRule {
+  enabled: boolean;
+  /** Share of users (0-100) the flag is on for; omitted means everyone */
+  rolloutPercentage?: number;
+}
+
+export interface FeatureFlagsResponse {
+  tenantId: string;
+  flags: Partial<Record<FeatureFlag, FeatureFlagRule>>;
+}
+
+export interface FeatureFlagState {
+  flag: FeatureFlag;
+  enabled: boolean;
+  defaultValue: boolean;
+  rule?: FeatureFlagRule;
+  override?: boolean;
+  source: 'default' | 'server' | 'override';
+}
+
+const OVERRIDES_KEY = 'feature_flag_overrides';
+
+const flagNames = Object.keys(defaultFeatureFlags) as FeatureFlag[];
+
+/**
+ * Stable 0-99 bucket for a user, salted with the flag name so each
+ * rollout picks a different slice of users (FNV-1a)
+ */
+export const rolloutBucket = (flag: FeatureFlag, userId: string): number => {
+  let hash = 0x811c9dc5;
+  for (const char of `${flag}:${userId}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % 100;
+};
+
+const readOverrides = (): Partial<FeatureFlags> => {
+  try {
+    const stored = localStorage.getItem(OVERRIDES_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : {};
+    if (!parsed || typeof parsed !== 'object') return {};
+
+    const overrides: Partial<FeatureFlags> = {};
+    for (const flag of flagNames) {
+      const value = (parsed as Record<string, unknown>)[flag];
+      if (typeof value === 'boolean') overrides[flag] = value;
+    }
+    return overrides;
+  } catch {
+    return {};
+  }
+};
+
+class FeatureFlagService {
+  private rules: FeatureFlagsResponse['flags'] = {};
+  private overrides: Partial<FeatureFlags> = readOverrides();
+  private userId: string | null = authService.getStoredUser()?.id ?? null;
+  private tenantId: string | null = null;
+  private resolved: FeatureFlags = { ...defaultFeatureFlags };
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.resolve();
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', (event) => {
+        if (event.key !== OVERRIDES_KEY) return;
+        this.overrides = readOverrides();
+        this.update();
+      });
+    }
+  }
+
+  /**
+   * Fetch the rules for the current tenant. Keeps the previous rules (or
+   * the defaults) when the endpoint is unavailable; resolves to whether
+   * the rules were loaded.
+   */
+  async load(): Promise<boolean> {
+    try {
+      const response = await apiClient.get<FeatureFlagsResponse>('/feature-flags');
+      this.rules = response.data.flags ?? {};
+      this.tenantId = response.data.tenantId ?? null;
+      this.update();
+      return true;
+    } catch (error) {
+      console.warn('Failed to load feature flags, using defaults:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Set the user that percentage rollouts are bucketed by
+   */
+  setUserId(userId: string | null): void {
+    if (userId === this.userId) return;
+    this.userId = userId;
+    this.update();
+  }
+
+  getTenantId(): string | null {
+    return this.tenantId;
+  }
+
+  isEnabled(flag: FeatureFlag): boolean {
+    return this.resolved[flag];
+  }
+
+  /**
+   * Resolved value of every flag. The same object is returned until a flag
+   * changes, so it can back useSyncExternalStore.
+   */
+  getAll(): FeatureFlags {
+    return this.resolved;
+  }
+
+  getState(flag: FeatureFlag): FeatureFlagState {
+    const rule = this.rules[flag];
+    const override = this.overrides[flag];
+    return {
+      flag,
+      enabled: this.resolved[flag],
+      defaultValue: defaultFeatureFlags[flag],
+      rule,
+      override,
+      source: override !== undefined ? 'override' : rule ? 'server' : 'default',
+    };
+  }
+
+  /**
+   * Override a flag in this browser; null removes the override
+   */
+  setOverride(flag: FeatureFlag, enabled: boolean | null): void {
+    if (enabled === null) {
+      delete this.overrides[flag];
+    } else {
+      this.overrides[flag] = enabled;
+    }
+    this.saveOverrides();
+    this.update();
+  }
+
+  clearOverrides(): void {
+    this.overrides = {};
+    this.saveOverrides();
+    this.update();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private evaluate(flag: FeatureFlag): boolean {
+    const override = this.overrides[flag];
+    if (override !== undefined) return override;
+
+    const rule = this.rules[flag];
+    if (!rule) return defaultFeatureFlags[flag];
+    if (!rule.enabled) return false;
+    if (rule.rolloutPercentage === undefined || rule.rolloutPercentage >= 100) return true;
+    if (!this.userId) return false;
+    return rolloutBucket(flag, this.userId) < rule.rolloutPercentage;
+  }
+
+  /**
+   * Recompute the resolved flags, keeping the same object if none changed
+   */
+  private resolve(): void {
+    const next = {} as FeatureFlags;
+    for (const flag of flagNames) {
+      next[flag] = this.evaluate(flag);
+    }
+    if (flagNames.some((flag) => next[flag] !== this.resolved[flag])) {
+      this.resolved = next;
+    }
+  }
+
+  private update(): void {
+    this.resolve();
+    // Admin views also show rules and overrides, so notify even when the
+    // resolved values are unchanged
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private saveOverrides(): void {
+    try {
+      localStorage.setItem(OVERRIDES_KEY, JSON.stringify(this.overrides));
+    } catch (error) {
+      console.error('Failed to store feature flag overrides:', error);
+    }
+  }
+}
+
+export const featureFlagService = new FeatureFlagService();
+
+/**
+ * Current value of a flag, for code outside React. Components should use
+ * useFeatureFlag so they re-render when the flag changes.
+ */
+export const isFeatureEnabled = (flag: FeatureFlag): boolean => featureFlagService.isEnabled(flag);
+
+/**
+ * Resolved value of every flag, including server rules and local overrides
+ */
+export const getAllFeatureFlags = (): FeatureFlags => ({ ...featureFlagService.getAll() });
+
+export default FeatureFlagService;
@@ -10,10 +10,21 @@
  * - Built-in flow control and backpressure
  * - HTTP/2 multiplexing (multiple streams, one connection)
  *
+ * Transport negotiation per stream type:
+ * 1. gRPC-Web server streaming (fetch + ReadableStream)
+ * 2. Server-Sent Events
+ * 3. REST polling (last resort)
+ *
+ * Each StreamType has a single shared upstream; all subscribers to that
+ * stream are fanned out from it. A streaming transport that keeps failing
+ * after its retries falls through to the next one.
+ *
  * @author Enterprise Portal Team
  * @since V5.1.0
  */
 
+import { RETRY_CONFIG } from '../utils/constants';
+
 // Types for stream data (will be replaced with generated Protobuf types)
 export interface MetricsUpdate {
   timestamp: string;
@@ -42,6 +53,12 @@ export interface ConsensusUpdate {
   blockHeight: number;
   consensusLatency: number;
   participationRate: number;
+  /** Vote collection for the current round, when the node reports it */
+  votesReceived?: number;
+  votesRequired?: number;
+  /** Height of the last committed block */
+  commitIndex?: number;
+  timestamp?: string;
 }
 
 export interface NetworkUpdate {
@@ -94,27 +111,109 @@ export interface StreamSubscription {
 
 /**
  * Configuration for stream subscription
+ *
+ * - updateIntervalMs: requested server push interval; the shared upstream runs
+ *   at the shortest interval any of its subscribers asked for
+ * - bufferSize: number of most recent updates replayed to this subscriber when
+ *   it joins an upstream that is already running (default 1)
+ * - filters: field/value pairs; array payloads are narrowed to matching items,
+ *   object payloads that don't match are skipped
+ * - onTransportChange: called when the upstream falls back to another
+ *   transport, or with null when every transport has failed and the
+ *   subscription has ended
  */
 export interface StreamConfig {
   updateIntervalMs?: number;
   bufferSize?: number;
   filters?: Record<string, string>;
+  onTransportChange?: (transport: StreamTransportKind | null) => void;
+}
+
+/**
+ * Transport used by a shared upstream, in order of preference
+ */
+export type StreamTransportKind = 'grpc-web' | 'sse' | 'polling';
+
+/**
+ * A transport opens one upstream connection for a stream type and pushes
+ * decoded payloads to onMessage. The returned function closes it.
+ */
+interface StreamTransport {
+  kind: StreamTransportKind;
+  isSupported: () => boolean;
+  open: (
+    streamType: StreamType,
+    intervalMs: number,
+    onMessage: (data: unknown) => void,
+    onError: (error: Error) => void
+  ) => () => void;
+}
+
+interface StreamListener {
+  callback: (data: unknown) => void;
+  bufferSize: number;
+  updateIntervalMs?: number;
+  filters?: Record<string, string>;
+  onTransportChange?: (transport: StreamTransportKind | null) => void;
 }
 
+/**
+ * One upstream connection per stream type, fanned out to all listeners
+ */
+interface SharedUpstream {
+  streamType: StreamType;
+  listeners: Set<StreamListener>;
+  buffer: unknown[];
+  transportIndex: number;
+  intervalMs: number;
+  /** Whether the current transport has delivered anything since it was chosen */
+  receivedData: boolean;
+  reconnectAttempts: number;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+  close: (() => void) | null;
+}
+
+// gRPC-Web frame flags (https://github.com/grpc/grpc/blob/master/doc/PROTOCOL-WEB.md)
+const GRPC_FRAME_HEADER_LENGTH = 5;
+const GRPC_TRAILER_FLAG = 0x80;
+
 /**
  * gRPC Stream Service
  *
  * Manages connections to all gRPC streaming endpoints.
- * Uses EventSource for SSE fallback when gRPC-Web is not available.
+ * Negotiates gRPC-Web first, falls back to Server-Sent Events, and only
+ * polls the REST API when neither streaming transport is available.
  */
 class GrpcStreamService {
   private baseUrl: string;
   private activeStreams: Map<string, StreamSubscription> = new Map();
-  private eventListeners: Map<StreamType, Set<(data: unknown) => void>> = new Map();
+  private upstreams: Map<StreamType, SharedUpstream> = new Map();
+  private transports: StreamTransport[];
+  private subscriptionCounter = 0;
 
   constructor() {
     // Use environment variable or default to production URL
     this.baseUrl = import.meta.env.VITE_API_BASE_URL || 'https://dlt.aurigraph.io';
+    this.transports = [
+      {
+        kind: 'grpc-web',
+        isSupported: () => typeof fetch === 'function' && typeof ReadableStream !== 'undefined',
+        open: (streamType, intervalMs, onMessage, onError) =>
+          this.openGrpcWebStream(streamType, intervalMs, onMessage, onError),
+      },
+      {
+        kind: 'sse',
+        isSupported: () => typeof EventSource !== 'undefined',
+        open: (streamType, intervalMs, onMessage, onError) =>
+          this.openEventSourceStream(streamType, intervalMs, onMessage, onError),
+      },
+      {
+        kind: 'polling',
+        isSupported: () => typeof fetch === 'function',
+        open: (streamType, intervalMs, onMessage, onError) =>
+          this.openPollingStream(streamType, intervalMs, onMessage, onError),
+      },
+    ];
   }
 
   /**
@@ -177,45 +276,77 @@ class GrpcStreamService {
     return this.createSubscription('analytics', callback, config);
   }
 
+  /**
+   * Subscribe to a stream by type, for callers that relay any stream
+   */
+  subscribe<T = unknown>(
+    streamType: StreamType,
+    callback: (data: T) => void,
+    config?: StreamConfig
+  ): StreamSubscription {
+    return this.createSubscription(streamType, callback, config);
+  }
+
   /**
    * Create a stream subscription
-   * Currently uses polling as fallback until gRPC-Web is fully integrated
+   * Attaches the callback to the shared upstream for the stream type,
+   * opening the upstream if this is its first listener
    */
   private createSubscription<T>(
     streamType: StreamType,
     callback: (data: T) => void,
     config?: StreamConfig
   ): StreamSubscription {
-    const subscriptionId = `${streamType}-${Date.now()}`;
-    const intervalMs = config?.updateIntervalMs || this.getDefaultInterval(streamType);
+    const subscriptionId = `${streamType}-${++this.subscriptionCounter}`;
+    const listener: StreamListener = {
+      callback: callback as (data: unknown) => void,
+      bufferSize: Math.max(1, config?.bufferSize ?? 1),
+      updateIntervalMs: config?.updateIntervalMs,
+      filters: config?.filters,
+      onTransportChange: config?.onTransportChange,
+    };
 
-    // Add callback to listeners
-    if (!this.eventListeners.has(streamType)) {
-      this.eventListeners.set(streamType, new Set());
+    let upstream = this.upstreams.get(streamType);
+    if (!upstream) {
+      upstream = {
+        streamType,
+        listeners: new Set(),
+        buffer: [],
+        transportIndex: this.nextSupportedTransport(0),
+        intervalMs: 0,
+        receivedData: false,
+        reconnectAttempts: 0,
+        reconnectTimer: null,
+        close: null,
+      };
+      this.upstreams.set(streamType, upstream);
+      upstream.listeners.add(listener);
+      upstream.intervalMs = this.upstreamInterval(upstream);
+      this.openUpstream(upstream);
+    } else {
+      upstream.listeners.add(listener);
+      this.retuneUpstream(upstream);
+      // Replay the most recent updates so late subscribers render immediately
+      upstream.buffer.slice(-listener.bufferSize).forEach((data) => this.deliver(listener, data));
     }
-    this.eventListeners.get(streamType)!.add(callback as (data: unknown) => void);
-
-    // Start polling (will be replaced with gRPC-Web streaming)
-    const intervalId = setInterval(async () => {
-      try {
-        const data = await this.fetchStreamData<T>(streamType);
-        callback(data);
-      } catch (error) {
-        console.error(`Error fetching ${streamType} data:`, error);
-      }
-    }, intervalMs);
-
-    // Initial fetch
-    this.fetchStreamData<T>(streamType).then(callback).catch(console.error);
 
+    const shared = upstream;
     const subscription: StreamSubscription = {
       streamType,
       isActive: true,
       unsubscribe: () => {
-        clearInterval(intervalId);
-        this.eventListeners.get(streamType)?.delete(callback as (data: unknown) => void);
-        this.activeStreams.delete(subscriptionId);
+        if (!subscription.isActive) return;
         subscription.isActive = false;
+        this.activeStreams.delete(subscriptionId);
+
+        if (this.upstreams.get(streamType) !== shared) return;
+        shared.listeners.delete(listener);
+        if (shared.listeners.size === 0) {
+          this.closeUpstream(shared);
+          this.upstreams.delete(streamType);
+        } else {
+          this.retuneUpstream(shared);
+        }
       },
     };
 
@@ -224,7 +355,339 @@ class GrpcStreamService {
   }
 
   /**
-   * Fetch stream data from REST API (fallback until gRPC-Web is available)
+   * Open the upstream on its current transport
+   */
+  private openUpstream(upstream: SharedUpstream): void {
+    const transport = this.transports[upstream.transportIndex];
+    if (!transport) {
+      console.error(`No supported stream transport for ${upstream.streamType}`);
+      return;
+    }
+
+    upstream.close = transport.open(
+      upstream.streamType,
+      upstream.intervalMs,
+      (data) => this.handleUpstreamMessage(upstream, data),
+      (error) => this.handleUpstreamError(upstream, error)
+    );
+  }
+
+  /**
+   * Shortest interval any listener asked for, or the stream type's default
+   */
+  private upstreamInterval(upstream: SharedUpstream): number {
+    const requested = Array.from(upstream.listeners)
+      .map((listener) => listener.updateIntervalMs)
+      .filter((intervalMs): intervalMs is number => !!intervalMs && intervalMs > 0);
+    return requested.length > 0
+      ? Math.min(...requested)
+      : this.getDefaultInterval(upstream.streamType);
+  }
+
+  /**
+   * Reopen the upstream when a listener joining or leaving changes its interval.
+   * A pending reconnect picks up the new interval when it fires.
+   */
+  private retuneUpstream(upstream: SharedUpstream): void {
+    const intervalMs = this.upstreamInterval(upstream);
+    if (intervalMs === upstream.intervalMs) return;
+
+    upstream.intervalMs = intervalMs;
+    if (upstream.close) {
+      upstream.close();
+      upstream.close = null;
+      this.openUpstream(upstream);
+    }
+  }
+
+  /**
+   * Close the upstream connection and cancel any pending reconnect
+   */
+  private closeUpstream(upstream: SharedUpstream): void {
+    if (upstream.reconnectTimer) {
+      clearTimeout(upstream.reconnectTimer);
+      upstream.reconnectTimer = null;
+    }
+    upstream.close?.();
+    upstream.close = null;
+  }
+
+  /**
+   * Buffer an update and fan it out to every listener
+   */
+  private handleUpstreamMessage(upstream: SharedUpstream, data: unknown): void {
+    upstream.receivedData = true;
+    upstream.reconnectAttempts = 0;
+
+    const maxBuffer = Math.max(
+      1,
+      ...Array.from(upstream.listeners).map((listener) => listener.bufferSize)
+    );
+    upstream.buffer.push(data);
+    if (upstream.buffer.length > maxBuffer) {
+      upstream.buffer.splice(0, upstream.buffer.length - maxBuffer);
+    }
+
+    upstream.listeners.forEach((listener) => this.deliver(listener, data));
+  }
+
+  /**
+   * A transport that was streaming is reconnected with backoff. One that fails
+   * before delivering anything, or keeps failing after RETRY_CONFIG.maxRetries
+   * reconnects, is dropped for the next transport. When none is left the
+   * upstream is removed and its subscriptions end.
+   */
+  private handleUpstreamError(upstream: SharedUpstream, error: Error): void {
+    if (this.upstreams.get(upstream.streamType) !== upstream) return;
+
+    const transport = this.transports[upstream.transportIndex];
+    upstream.close?.();
+    upstream.close = null;
+
+    if (upstream.receivedData && upstream.reconnectAttempts < RETRY_CONFIG.maxRetries) {
+      this.scheduleReconnect(upstream);
+      return;
+    }
+
+    const next = this.nextSupportedTransport(upstream.transportIndex + 1);
+    const fallback = this.transports[next];
+    if (!fallback) {
+      console.error(`Giving up on ${upstream.streamType} stream:`, error);
+      this.endUpstream(upstream);
+      return;
+    }
+
+    console.warn(
+      `${transport?.kind} ${upstream.receivedData ? 'lost' : 'unavailable'} for ${upstream.streamType} stream, falling back to ${fallback.kind}:`,
+      error.message
+    );
+    upstream.transportIndex = next;
+    upstream.receivedData = false;
+    upstream.reconnectAttempts = 0;
+    this.notifyTransportChange(upstream, fallback.kind);
+    this.openUpstream(upstream);
+  }
+
+  private scheduleReconnect(upstream: SharedUpstream): void {
+    const delay = Math.min(
+      RETRY_CONFIG.initialDelay *
+        Math.pow(RETRY_CONFIG.backoffMultiplier, upstream.reconnectAttempts),
+      RETRY_CONFIG.maxDelay
+    );
+    upstream.reconnectAttempts++;
+    upstream.reconnectTimer = setTimeout(() => {
+      upstream.reconnectTimer = null;
+      this.openUpstream(upstream);
+    }, delay);
+  }
+
+  /**
+   * Drop an upstream that has no transport left and end its subscriptions
+   */
+  private endUpstream(upstream: SharedUpstream): void {
+    this.closeUpstream(upstream);
+    this.upstreams.delete(upstream.streamType);
+    this.activeStreams.forEach((subscription, subscriptionId) => {
+      if (subscription.streamType !== upstream.streamType) return;
+      subscription.isActive = false;
+      this.activeStreams.delete(subscriptionId);
+    });
+    this.notifyTransportChange(upstream, null);
+  }
+
+  private notifyTransportChange(
+    upstream: SharedUpstream,
+    transport: StreamTransportKind | null
+  ): void {
+    upstream.listeners.forEach((listener) => {
+      try {
+        listener.onTransportChange?.(transport);
+      } catch (error) {
+        console.error('Error in stream listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Apply listener filters and invoke its callback
+   */
+  private deliver(listener: StreamListener, data: unknown): void {
+    let payload: unknown = data;
+
+    if (listener.filters && Object.keys(listener.filters).length > 0) {
+      if (Array.isArray(data)) {
+        payload = data.filter((item) => this.matchesFilters(item, listener.filters!));
+      } else if (!this.matchesFilters(data, listener.filters)) {
+        return;
+      }
+    }
+
+    try {
+      listener.callback(payload);
+    } catch (error) {
+      console.error('Error in stream listener:', error);
+    }
+  }
+
+  private matchesFilters(item: unknown, filters: Record<string, string>): boolean {
+    if (typeof item !== 'object' || item === null) return false;
+    const record = item as Record<string, unknown>;
+    return Object.entries(filters).every(([key, value]) => String(record[key]) === value);
+  }
+
+  /**
+   * Index of the first supported transport from fromIndex, or -1 if none is
+   */
+  private nextSupportedTransport(fromIndex: number): number {
+    for (let i = fromIndex; i < this.transports.length; i++) {
+      if (this.transports[i]?.isSupported()) return i;
+    }
+    return -1;
+  }
+
+  // ==========================================================================
+  // Transports
+  // ==========================================================================
+
+  /**
+   * gRPC-Web server streaming over fetch, JSON-encoded messages
+   */
+  private openGrpcWebStream(
+    streamType: StreamType,
+    intervalMs: number,
+    onMessage: (data: unknown) => void,
+    onError: (error: Error) => void
+  ): () => void {
+    const controller = new AbortController();
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+
+    const request = encoder.encode(JSON.stringify({ updateIntervalMs: intervalMs }));
+    const body = new Uint8Array(GRPC_FRAME_HEADER_LENGTH + request.length);
+    new DataView(body.buffer).setUint32(1, request.length);
+    body.set(request, GRPC_FRAME_HEADER_LENGTH);
+
+    const run = async () => {
+      const response = await fetch(`${this.baseUrl}${this.getGrpcMethod(streamType)}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/grpc-web+json',
+          Accept: 'application/grpc-web+json',
+          'X-Grpc-Web': '1',
+        },
+        body,
+        signal: controller.signal,
+      });
+
+      const contentType = response.headers.get('content-type') || '';
+      if (!response.ok || !contentType.startsWith('application/grpc-web') || !response.body) {
+        throw new Error(`HTTP ${response.status}: gRPC-Web endpoint not available`);
+      }
+
+      const reader = response.body.getReader();
+      let pending = new Uint8Array(0);
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        const merged = new Uint8Array(pending.length + value.length);
+        merged.set(pending);
+        merged.set(value, pending.length);
+        pending = merged;
+
+        while (pending.length >= GRPC_FRAME_HEADER_LENGTH) {
+          const view = new DataView(pending.buffer, pending.byteOffset, pending.byteLength);
+          const flag = view.getUint8(0);
+          const length = view.getUint32(1);
+          if (pending.length < GRPC_FRAME_HEADER_LENGTH + length) break;
+
+          const payload = decoder.decode(
+            pending.subarray(GRPC_FRAME_HEADER_LENGTH, GRPC_FRAME_HEADER_LENGTH + length)
+          );
+          pending = pending.slice(GRPC_FRAME_HEADER_LENGTH + length);
+
+          if (flag & GRPC_TRAILER_FLAG) {
+            const status = payload.match(/grpc-status:\s*(\d+)/i)?.[1];
+            if (status && status !== '0') {
+              const grpcMessage = payload.match(/grpc-message:\s*(.*)/i)?.[1]?.trim();
+              throw new Error(`gRPC status ${status}: ${grpcMessage || 'stream failed'}`);
+            }
+          } else {
+            onMessage(JSON.parse(payload));
+          }
+        }
+      }
+
+      throw new Error('gRPC-Web stream ended');
+    };
+
+    run().catch((error: Error) => {
+      if (!controller.signal.aborted) onError(error);
+    });
+
+    return () => controller.abort();
+  }
+
+  /**
+   * Server-Sent Events stream
+   */
+  private openEventSourceStream(
+    streamType: StreamType,
+    intervalMs: number,
+    onMessage: (data: unknown) => void,
+    onError: (error: Error) => void
+  ): () => void {
+    const source = new EventSource(
+      `${this.baseUrl}/api/v12/stream/${streamType}?intervalMs=${intervalMs}`
+    );
+    let opened = false;
+
+    source.onopen = () => {
+      opened = true;
+    };
+
+    source.onmessage = (event: MessageEvent<string>) => {
+      try {
+        onMessage(JSON.parse(event.data));
+      } catch (error) {
+        console.error(`Error parsing ${streamType} event:`, error);
+      }
+    };
+
+    // EventSource retries on its own once open; only surface terminal failures
+    source.onerror = () => {
+      if (!opened || source.readyState === EventSource.CLOSED) {
+        source.close();
+        onError(new Error(`SSE stream for ${streamType} not available`));
+      }
+    };
+
+    return () => source.close();
+  }
+
+  /**
+   * Poll the REST API (last-resort fallback)
+   */
+  private openPollingStream(
+    streamType: StreamType,
+    intervalMs: number,
+    onMessage: (data: unknown) => void,
+    _onError: (error: Error) => void
+  ): () => void {
+    const poll = () =>
+      this.fetchStreamData<unknown>(streamType)
+        .then(onMessage)
+        .catch((error) => console.error(`Error fetching ${streamType} data:`, error));
+
+    const intervalId = setInterval(poll, intervalMs);
+    poll();
+
+    return () => clearInterval(intervalId);
+  }
+
+  /**
+   * Fetch stream data from REST API (polling fallback)
    */
   private async fetchStreamData<T>(streamType: StreamType): Promise<T> {
     const endpoint = this.getEndpoint(streamType);
@@ -237,6 +700,21 @@ class GrpcStreamService {
     return response.json();
   }
 
+  /**
+   * Get gRPC-Web method path for stream type
+   */
+  private getGrpcMethod(streamType: StreamType): string {
+    const methods: Record<StreamType, string> = {
+      metrics: 'StreamMetrics',
+      validators: 'StreamValidators',
+      consensus: 'StreamConsensus',
+      network: 'StreamNetwork',
+      channels: 'StreamChannels',
+      analytics: 'StreamAnalytics',
+    };
+    return `/grpc/io.aurigraph.v12.LiveStreamService/${methods[streamType]}`;
+  }
+
   /**
    * Get REST API endpoint for stream type
    */
@@ -253,7 +731,7 @@ class GrpcStreamService {
   }
 
   /**
-   * Get default polling interval for stream type
+   * Get default update interval for stream type
    */
   private getDefaultInterval(streamType: StreamType): number {
     const intervals: Record<StreamType, number> = {
@@ -275,7 +753,8 @@ class GrpcStreamService {
       subscription.unsubscribe();
     });
     this.activeStreams.clear();
-    this.eventListeners.clear();
+    this.upstreams.forEach((upstream) => this.closeUpstream(upstream));
+    this.upstreams.clear();
   }
 
   /**
@@ -293,6 +772,15 @@ class GrpcStreamService {
       (sub) => sub.streamType === streamType && sub.isActive
     );
   }
+
+  /**
+   * Get the transport currently serving a stream type, if it is open
+   */
+  getStreamTransport(streamType: StreamType): StreamTransportKind | null {
+    const upstream = this.upstreams.get(streamType);
+    if (!upstream) return null;
+    return this.transports[upstream.transportIndex]?.kind ?? null;
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,2511 @@
+/**
+ * Aurigraph DLT V11 REST API client (v11.3.1)
+ *
+ * GENERATED FILE - DO NOT EDIT.
+ * Source: openapi/aurigraph-v11.yaml
+ * Regenerate with `npm run generate:api`.
+ */
+
+import { z } from 'zod';
+import type APIClient from '../apiClient';
+import type { FetchOptions } from '../apiClient';
+import { callOperation } from './runtime';
+
+// ===== Models =====
+
+export type UpDown = 'UP' | 'DOWN';
+
+export const UpDownSchema: z.ZodType<UpDown> = z.enum(['UP', 'DOWN']);
+
+export interface StatusResult {
+  status: string;
+}
+
+export const StatusResultSchema: z.ZodType<StatusResult> = z.object({
+  status: z.string(),
+});
+
+export interface ApiErrorBody {
+  code: string;
+  message: string;
+  details?: unknown;
+}
+
+export const ApiErrorBodySchema: z.ZodType<ApiErrorBody> = z.object({
+  code: z.string(),
+  message: z.string(),
+  details: z.unknown().optional(),
+});
+
+export interface HealthStatus {
+  status: UpDown;
+  checks: {
+    consensus: UpDown;
+    database: UpDown;
+    network: UpDown;
+  };
+  version: string;
+  timestamp: string;
+  uptime: number;
+}
+
+export const HealthStatusSchema: z.ZodType<HealthStatus> = z.object({
+  status: UpDownSchema,
+  checks: z.object({
+    consensus: UpDownSchema,
+    database: UpDownSchema,
+    network: UpDownSchema,
+  }),
+  version: z.string(),
+  timestamp: z.string(),
+  uptime: z.number(),
+});
+
+export interface SystemInfo {
+  platform: string;
+  version: string;
+  javaVersion: string;
+  quarkusVersion: string;
+  buildTime: string;
+  commitHash: string;
+  features: string[];
+}
+
+export const SystemInfoSchema: z.ZodType<SystemInfo> = z.object({
+  platform: z.string(),
+  version: z.string(),
+  javaVersion: z.string(),
+  quarkusVersion: z.string(),
+  buildTime: z.string(),
+  commitHash: z.string(),
+  features: z.array(z.string()),
+});
+
+export interface BlockchainMetrics {
+  /** Transactions per second */
+  tps: number;
+  totalTransactions: number;
+  totalBlocks: number;
+  activationValidators: number;
+  /** 0-100 */
+  networkHealth: number;
+  /** Milliseconds */
+  averageBlockTime: number;
+  /** Milliseconds */
+  averageLatency: number;
+  /** Milliseconds */
+  finality: number;
+  /** Percentage */
+  uptime: number;
+}
+
+export const BlockchainMetricsSchema: z.ZodType<BlockchainMetrics> = z.object({
+  tps: z.number(),
+  totalTransactions: z.number(),
+  totalBlocks: z.number(),
+  activationValidators: z.number(),
+  networkHealth: z.number(),
+  averageBlockTime: z.number(),
+  averageLatency: z.number(),
+  finality: z.number(),
+  uptime: z.number(),
+});
+
+export interface LedgerBlock {
+  hash: string;
+  height: number;
+  timestamp: string;
+  proposer: string;
+  transactionCount: number;
+  gasUsed: number;
+  gasLimit: number;
+  stateRoot: string;
+  previousHash: string;
+  consensusRound: number;
+}
+
+export const LedgerBlockSchema: z.ZodType<LedgerBlock> = z.object({
+  hash: z.string(),
+  height: z.number(),
+  timestamp: z.string(),
+  proposer: z.string(),
+  transactionCount: z.number(),
+  gasUsed: z.number(),
+  gasLimit: z.number(),
+  stateRoot: z.string(),
+  previousHash: z.string(),
+  consensusRound: z.number(),
+});
+
+export type LedgerTransactionStatus = 'PENDING' | 'CONFIRMED' | 'FAILED';
+
+export const LedgerTransactionStatusSchema: z.ZodType<LedgerTransactionStatus> = z.enum([
+  'PENDING',
+  'CONFIRMED',
+  'FAILED',
+]);
+
+export interface LedgerTransaction {
+  hash: string;
+  from: string;
+  to: string;
+  /** Decimal string */
+  amount: string;
+  /** Decimal string */
+  fee: string;
+  gasPrice: string;
+  gasUsed: number;
+  nonce: number;
+  timestamp: string;
+  status: LedgerTransactionStatus;
+  blockHeight: number;
+  contractAddress?: string;
+  data?: string;
+}
+
+export const LedgerTransactionSchema: z.ZodType<LedgerTransaction> = z.object({
+  hash: z.string(),
+  from: z.string(),
+  to: z.string(),
+  amount: z.string(),
+  fee: z.string(),
+  gasPrice: z.string(),
+  gasUsed: z.number(),
+  nonce: z.number(),
+  timestamp: z.string(),
+  status: LedgerTransactionStatusSchema,
+  blockHeight: z.number(),
+  contractAddress: z.string().optional(),
+  data: z.string().optional(),
+});
+
+export interface TransactionSubmission {
+  from: string;
+  to: string;
+  amount: string;
+  fee: string;
+  gasPrice: string;
+  gasUsed: number;
+  nonce: number;
+  contractAddress?: string;
+  data?: string;
+}
+
+export const TransactionSubmissionSchema: z.ZodType<TransactionSubmission> = z.object({
+  from: z.string(),
+  to: z.string(),
+  amount: z.string(),
+  fee: z.string(),
+  gasPrice: z.string(),
+  gasUsed: z.number(),
+  nonce: z.number(),
+  contractAddress: z.string().optional(),
+  data: z.string().optional(),
+});
+
+export type ExplorerTransactionType =
+  | 'transfer'
+  | 'mint'
+  | 'burn'
+  | 'stake'
+  | 'unstake'
+  | 'contract';
+
+export const ExplorerTransactionTypeSchema: z.ZodType<ExplorerTransactionType> = z.enum([
+  'transfer',
+  'mint',
+  'burn',
+  'stake',
+  'unstake',
+  'contract',
+]);
+
+export type ExplorerTransactionStatus = 'pending' | 'confirmed' | 'failed';
+
+export const ExplorerTransactionStatusSchema: z.ZodType<ExplorerTransactionStatus> = z.enum([
+  'pending',
+  'confirmed',
+  'failed',
+]);
+
+export interface ExplorerTransaction {
+  id: string;
+  hash: string;
+  blockHeight: number;
+  timestamp: string;
+  type: ExplorerTransactionType;
+  status: ExplorerTransactionStatus;
+  from: string;
+  to: string;
+  amount: number;
+  fee: number;
+  gasUsed?: number;
+  gasLimit?: number;
+  signature: string;
+  size: number;
+  confirmations: number;
+  data?: string;
+}
+
+export const ExplorerTransactionSchema: z.ZodType<ExplorerTransaction> = z.object({
+  id: z.string(),
+  hash: z.string(),
+  blockHeight: z.number(),
+  timestamp: z.string(),
+  type: ExplorerTransactionTypeSchema,
+  status: ExplorerTransactionStatusSchema,
+  from: z.string(),
+  to: z.string(),
+  amount: z.number(),
+  fee: z.number(),
+  gasUsed: z.number().optional(),
+  gasLimit: z.number().optional(),
+  signature: z.string(),
+  size: z.number(),
+  confirmations: z.number(),
+  data: z.string().optional(),
+});
+
+export interface ExplorerTransactionPage {
+  data: ExplorerTransaction[];
+  total: number;
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+}
+
+export const ExplorerTransactionPageSchema: z.ZodType<ExplorerTransactionPage> = z.object({
+  data: z.array(ExplorerTransactionSchema),
+  total: z.number(),
+  page: z.number(),
+  pageSize: z.number(),
+  hasMore: z.boolean(),
+});
+
+export interface ExplorerTransactionEnvelope {
+  success: boolean;
+  data?: ExplorerTransaction;
+  error?: ApiErrorBody;
+  timestamp: string;
+}
+
+export const ExplorerTransactionEnvelopeSchema: z.ZodType<ExplorerTransactionEnvelope> = z.object({
+  success: z.boolean(),
+  data: ExplorerTransactionSchema.optional(),
+  error: ApiErrorBodySchema.optional(),
+  timestamp: z.string(),
+});
+
+export interface ExplorerBlock {
+  height: number;
+  hash: string;
+  previousHash: string;
+  timestamp: string;
+  transactionCount: number;
+  validatorId: string;
+  merkleRoot: string;
+  stateRoot: string;
+  size: number;
+  gasUsed: number;
+  gasLimit: number;
+  consensusTerm: number;
+  finalityMs: number;
+  difficulty?: number;
+  nonce?: string;
+}
+
+export const ExplorerBlockSchema: z.ZodType<ExplorerBlock> = z.object({
+  height: z.number(),
+  hash: z.string(),
+  previousHash: z.string(),
+  timestamp: z.string(),
+  transactionCount: z.number(),
+  validatorId: z.string(),
+  merkleRoot: z.string(),
+  stateRoot: z.string(),
+  size: z.number(),
+  gasUsed: z.number(),
+  gasLimit: z.number(),
+  consensusTerm: z.number(),
+  finalityMs: z.number(),
+  difficulty: z.number().optional(),
+  nonce: z.string().optional(),
+});
+
+export interface ExplorerBlockEnvelope {
+  success: boolean;
+  data?: ExplorerBlock;
+  error?: ApiErrorBody;
+  timestamp: string;
+}
+
+export const ExplorerBlockEnvelopeSchema: z.ZodType<ExplorerBlockEnvelope> = z.object({
+  success: z.boolean(),
+  data: ExplorerBlockSchema.optional(),
+  error: ApiErrorBodySchema.optional(),
+  timestamp: z.string(),
+});
+
+export interface ChainInfo {
+  currentHeight: number;
+  totalBlocks: number;
+  totalTransactions: number;
+  avgBlockTime: number;
+  avgBlockSize: number;
+  avgTransactionsPerBlock: number;
+  chainStartTime: string;
+  lastBlockTime: string;
+  syncStatus: 'synced' | 'syncing' | 'stalled';
+}
+
+export const ChainInfoSchema: z.ZodType<ChainInfo> = z.object({
+  currentHeight: z.number(),
+  totalBlocks: z.number(),
+  totalTransactions: z.number(),
+  avgBlockTime: z.number(),
+  avgBlockSize: z.number(),
+  avgTransactionsPerBlock: z.number(),
+  chainStartTime: z.string(),
+  lastBlockTime: z.string(),
+  syncStatus: z.enum(['synced', 'syncing', 'stalled']),
+});
+
+export type ValidatorStatus = 'active' | 'inactive' | 'jailed' | 'unbonding';
+
+export const ValidatorStatusSchema: z.ZodType<ValidatorStatus> = z.enum([
+  'active',
+  'inactive',
+  'jailed',
+  'unbonding',
+]);
+
+export interface Validator {
+  id: string;
+  address: string;
+  name: string;
+  status: ValidatorStatus;
+  votingPower: number;
+  commission: number;
+  totalStake: number;
+  selfStake: number;
+  delegatorCount: number;
+  uptime: number;
+  blocksProposed: number;
+  blocksSigned: number;
+  missedBlocks: number;
+  slashingEvents: number;
+  joinedAt: string;
+  lastActiveAt: string;
+  apr: number;
+  rank: number;
+}
+
+export const ValidatorSchema: z.ZodType<Validator> = z.object({
+  id: z.string(),
+  address: z.string(),
+  name: z.string(),
+  status: ValidatorStatusSchema,
+  votingPower: z.number(),
+  commission: z.number(),
+  totalStake: z.number(),
+  selfStake: z.number(),
+  delegatorCount: z.number(),
+  uptime: z.number(),
+  blocksProposed: z.number(),
+  blocksSigned: z.number(),
+  missedBlocks: z.number(),
+  slashingEvents: z.number(),
+  joinedAt: z.string(),
+  lastActiveAt: z.string(),
+  apr: z.number(),
+  rank: z.number(),
+});
+
+export interface ValidatorEnvelope {
+  success: boolean;
+  data?: Validator;
+  error?: ApiErrorBody;
+  timestamp: string;
+}
+
+export const ValidatorEnvelopeSchema: z.ZodType<ValidatorEnvelope> = z.object({
+  success: z.boolean(),
+  data: ValidatorSchema.optional(),
+  error: ApiErrorBodySchema.optional(),
+  timestamp: z.string(),
+});
+
+export interface ValidatorStakingInfo {
+  totalStaked: number;
+  totalValidators: number;
+  activeValidators: number;
+  minStakeRequired: number;
+  unbondingPeriod: number;
+  averageApr: number;
+  stakingRatio: number;
+}
+
+export const ValidatorStakingInfoSchema: z.ZodType<ValidatorStakingInfo> = z.object({
+  totalStaked: z.number(),
+  totalValidators: z.number(),
+  activeValidators: z.number(),
+  minStakeRequired: z.number(),
+  unbondingPeriod: z.number(),
+  averageApr: z.number(),
+  stakingRatio: z.number(),
+});
+
+export interface ConsensusStatus {
+  algorithm: 'HyperRAFT++';
+  currentTerm: number;
+  leader: string;
+  totalValidators: number;
+  activeValidators: number;
+  blockHeight: number;
+  finality: string;
+  consensusRound: number;
+  /** Milliseconds */
+  timeUntilNextRound: number;
+  faultToleranceLevel: number;
+}
+
+export const ConsensusStatusSchema: z.ZodType<ConsensusStatus> = z.object({
+  algorithm: z.enum(['HyperRAFT++']),
+  currentTerm: z.number(),
+  leader: z.string(),
+  totalValidators: z.number(),
+  activeValidators: z.number(),
+  blockHeight: z.number(),
+  finality: z.string(),
+  consensusRound: z.number(),
+  timeUntilNextRound: z.number(),
+  faultToleranceLevel: z.number(),
+});
+
+export interface Token {
+  id: string;
+  symbol: string;
+  name: string;
+  totalSupply: string;
+  decimals: number;
+  contractAddress: string;
+  createdAt: string;
+  creator: string;
+  holders: number;
+  transfers: number;
+}
+
+export const TokenSchema: z.ZodType<Token> = z.object({
+  id: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  totalSupply: z.string(),
+  decimals: z.number(),
+  contractAddress: z.string(),
+  createdAt: z.string(),
+  creator: z.string(),
+  holders: z.number(),
+  transfers: z.number(),
+});
+
+export interface TokenDraft {
+  symbol: string;
+  name: string;
+  totalSupply: string;
+  decimals: number;
+  contractAddress: string;
+  creator: string;
+  holders: number;
+  transfers: number;
+}
+
+export const TokenDraftSchema: z.ZodType<TokenDraft> = z.object({
+  symbol: z.string(),
+  name: z.string(),
+  totalSupply: z.string(),
+  decimals: z.number(),
+  contractAddress: z.string(),
+  creator: z.string(),
+  holders: z.number(),
+  transfers: z.number(),
+});
+
+export type RealWorldAssetStatus = 'ACTIVE' | 'RETIRED' | 'UNDER_REVIEW';
+
+export const RealWorldAssetStatusSchema: z.ZodType<RealWorldAssetStatus> = z.enum([
+  'ACTIVE',
+  'RETIRED',
+  'UNDER_REVIEW',
+]);
+
+export interface RealWorldAsset {
+  id: string;
+  name: string;
+  type: string;
+  value: string;
+  currency: string;
+  tokenAddress: string;
+  status: RealWorldAssetStatus;
+  createdAt: string;
+  issuer: string;
+  custodian: string;
+  kycRequired: boolean;
+  holders: number;
+}
+
+export const RealWorldAssetSchema: z.ZodType<RealWorldAsset> = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.string(),
+  value: z.string(),
+  currency: z.string(),
+  tokenAddress: z.string(),
+  status: RealWorldAssetStatusSchema,
+  createdAt: z.string(),
+  issuer: z.string(),
+  custodian: z.string(),
+  kycRequired: z.boolean(),
+  holders: z.number(),
+});
+
+export interface RealWorldAssetDraft {
+  name: string;
+  type: string;
+  value: string;
+  currency: string;
+  status: RealWorldAssetStatus;
+  issuer: string;
+  custodian: string;
+  kycRequired: boolean;
+  holders: number;
+}
+
+export const RealWorldAssetDraftSchema: z.ZodType<RealWorldAssetDraft> = z.object({
+  name: z.string(),
+  type: z.string(),
+  value: z.string(),
+  currency: z.string(),
+  status: RealWorldAssetStatusSchema,
+  issuer: z.string(),
+  custodian: z.string(),
+  kycRequired: z.boolean(),
+  holders: z.number(),
+});
+
+export type SmartContractStatus = 'ACTIVE' | 'PAUSED' | 'TERMINATED';
+
+export const SmartContractStatusSchema: z.ZodType<SmartContractStatus> = z.enum([
+  'ACTIVE',
+  'PAUSED',
+  'TERMINATED',
+]);
+
+export interface SmartContract {
+  id: string;
+  name: string;
+  address: string;
+  creator: string;
+  status: SmartContractStatus;
+  bytecode: string;
+  abi: unknown[];
+  createdAt: string;
+  lastUpdated: string;
+  executions: number;
+  balance: string;
+}
+
+export const SmartContractSchema: z.ZodType<SmartContract> = z.object({
+  id: z.string(),
+  name: z.string(),
+  address: z.string(),
+  creator: z.string(),
+  status: SmartContractStatusSchema,
+  bytecode: z.string(),
+  abi: z.array(z.unknown()),
+  createdAt: z.string(),
+  lastUpdated: z.string(),
+  executions: z.number(),
+  balance: z.string(),
+});
+
+export interface SmartContractDraft {
+  name: string;
+  creator: string;
+  status: SmartContractStatus;
+  bytecode: string;
+  abi: unknown[];
+}
+
+export const SmartContractDraftSchema: z.ZodType<SmartContractDraft> = z.object({
+  name: z.string(),
+  creator: z.string(),
+  status: SmartContractStatusSchema,
+  bytecode: z.string(),
+  abi: z.array(z.unknown()),
+});
+
+export interface NetworkHealth {
+  status: 'HEALTHY' | 'DEGRADED' | 'CRITICAL';
+  activeNodes: number;
+  totalNodes: number;
+  averageLatency: number;
+  /** Percentage */
+  packetLoss: number;
+  bandwidth: string;
+  peersConnected: number;
+}
+
+export const NetworkHealthSchema: z.ZodType<NetworkHealth> = z.object({
+  status: z.enum(['HEALTHY', 'DEGRADED', 'CRITICAL']),
+  activeNodes: z.number(),
+  totalNodes: z.number(),
+  averageLatency: z.number(),
+  packetLoss: z.number(),
+  bandwidth: z.string(),
+  peersConnected: z.number(),
+});
+
+export interface AnalyticsDashboard {
+  timestamp: string;
+  tps: number;
+  totalTransactions: number;
+  totalBlocks: number;
+  activeUsers: number;
+  networkHealth: number;
+  topAccounts: {
+    address: string;
+    balance: string;
+  }[];
+  recentBlocks: LedgerBlock[];
+  recentTransactions: LedgerTransaction[];
+}
+
+export const AnalyticsDashboardSchema: z.ZodType<AnalyticsDashboard> = z.object({
+  timestamp: z.string(),
+  tps: z.number(),
+  totalTransactions: z.number(),
+  totalBlocks: z.number(),
+  activeUsers: z.number(),
+  networkHealth: z.number(),
+  topAccounts: z.array(
+    z.object({
+      address: z.string(),
+      balance: z.string(),
+    })
+  ),
+  recentBlocks: z.array(LedgerBlockSchema),
+  recentTransactions: z.array(LedgerTransactionSchema),
+});
+
+export interface StakingOverview {
+  totalStaked: string;
+  totalValidators: number;
+  minimumStake: string;
+  maximumStake: string;
+  averageCommission: number;
+  annualRewardRate: number;
+  circulatingSupply: string;
+}
+
+export const StakingOverviewSchema: z.ZodType<StakingOverview> = z.object({
+  totalStaked: z.string(),
+  totalValidators: z.number(),
+  minimumStake: z.string(),
+  maximumStake: z.string(),
+  averageCommission: z.number(),
+  annualRewardRate: z.number(),
+  circulatingSupply: z.string(),
+});
+
+export interface StakeRequest {
+  amount: string;
+  validatorId: string;
+}
+
+export const StakeRequestSchema: z.ZodType<StakeRequest> = z.object({
+  amount: z.string(),
+  validatorId: z.string(),
+});
+
+export interface StakingReceipt {
+  transactionHash: string;
+  status: string;
+}
+
+export const StakingReceiptSchema: z.ZodType<StakingReceipt> = z.object({
+  transactionHash: z.string(),
+  status: z.string(),
+});
+
+export interface RedelegateRequest {
+  amount: string;
+  /** Validator the tokens are currently delegated to */
+  validatorId: string;
+  toValidatorId: string;
+}
+
+export const RedelegateRequestSchema: z.ZodType<RedelegateRequest> = z.object({
+  amount: z.string(),
+  validatorId: z.string(),
+  toValidatorId: z.string(),
+});
+
+export interface RewardClaimReceipt {
+  transactionHash: string;
+  status: string;
+  amount: string;
+}
+
+export const RewardClaimReceiptSchema: z.ZodType<RewardClaimReceipt> = z.object({
+  transactionHash: z.string(),
+  status: z.string(),
+  amount: z.string(),
+});
+
+export interface DelegationPosition {
+  validatorId: string;
+  amount: string;
+  /** Rewards accrued and not yet claimed, after commission */
+  rewards: string;
+  claimedRewards: string;
+  delegatedAt: string;
+}
+
+export const DelegationPositionSchema: z.ZodType<DelegationPosition> = z.object({
+  validatorId: z.string(),
+  amount: z.string(),
+  rewards: z.string(),
+  claimedRewards: z.string(),
+  delegatedAt: z.string(),
+});
+
+export interface UnbondingEntry {
+  id: string;
+  validatorId: string;
+  amount: string;
+  startedAt: string;
+}
+
+export const UnbondingEntrySchema: z.ZodType<UnbondingEntry> = z.object({
+  id: z.string(),
+  validatorId: z.string(),
+  amount: z.string(),
+  startedAt: z.string(),
+});
+
+export interface DelegatorPositions {
+  delegator: string;
+  positions: DelegationPosition[];
+  unbonding: UnbondingEntry[];
+}
+
+export const DelegatorPositionsSchema: z.ZodType<DelegatorPositions> = z.object({
+  delegator: z.string(),
+  positions: z.array(DelegationPositionSchema),
+  unbonding: z.array(UnbondingEntrySchema),
+});
+
+export type SlashingReason = 'downtime' | 'double_sign';
+
+export const SlashingReasonSchema: z.ZodType<SlashingReason> = z.enum(['downtime', 'double_sign']);
+
+export interface SlashingEvent {
+  validatorId: string;
+  height: number;
+  reason: SlashingReason;
+  /** Share of bonded stake burned, e.g. 0.0001 */
+  fraction: number;
+  occurredAt: string;
+}
+
+export const SlashingEventSchema: z.ZodType<SlashingEvent> = z.object({
+  validatorId: z.string(),
+  height: z.number(),
+  reason: SlashingReasonSchema,
+  fraction: z.number(),
+  occurredAt: z.string(),
+});
+
+export type ValidatorPerformancePeriod = '1h' | '24h' | '7d' | '30d';
+
+export const ValidatorPerformancePeriodSchema: z.ZodType<ValidatorPerformancePeriod> = z.enum([
+  '1h',
+  '24h',
+  '7d',
+  '30d',
+]);
+
+export interface ValidatorPerformance {
+  validatorId: string;
+  period: ValidatorPerformancePeriod;
+  blocksProposed: number;
+  blocksSigned: number;
+  missedBlocks: number;
+  /** Milliseconds */
+  averageLatency: number;
+  uptimePercentage: number;
+  slashingEvents: number;
+  /** AUR earned by the validator over the period */
+  rewards: number;
+}
+
+export const ValidatorPerformanceSchema: z.ZodType<ValidatorPerformance> = z.object({
+  validatorId: z.string(),
+  period: ValidatorPerformancePeriodSchema,
+  blocksProposed: z.number(),
+  blocksSigned: z.number(),
+  missedBlocks: z.number(),
+  averageLatency: z.number(),
+  uptimePercentage: z.number(),
+  slashingEvents: z.number(),
+  rewards: z.number(),
+});
+
+export interface ValidatorPerformanceBucket {
+  start: string;
+  blocksProposed: number;
+  blocksSigned: number;
+  missedBlocks: number;
+  uptimePercentage: number;
+  /** Milliseconds */
+  averageLatency: number;
+  /** Percentage of the network's blocks in the bucket proposed by this validator */
+  proposerShare: number;
+}
+
+export const ValidatorPerformanceBucketSchema: z.ZodType<ValidatorPerformanceBucket> = z.object({
+  start: z.string(),
+  blocksProposed: z.number(),
+  blocksSigned: z.number(),
+  missedBlocks: z.number(),
+  uptimePercentage: z.number(),
+  averageLatency: z.number(),
+  proposerShare: z.number(),
+});
+
+export interface ValidatorPerformanceHistory {
+  validatorId: string;
+  period: ValidatorPerformancePeriod;
+  bucketMinutes: number;
+  summary: ValidatorPerformance;
+  buckets: ValidatorPerformanceBucket[];
+}
+
+export const ValidatorPerformanceHistorySchema: z.ZodType<ValidatorPerformanceHistory> = z.object({
+  validatorId: z.string(),
+  period: ValidatorPerformancePeriodSchema,
+  bucketMinutes: z.number(),
+  summary: ValidatorPerformanceSchema,
+  buckets: z.array(ValidatorPerformanceBucketSchema),
+});
+
+export interface AIOptimization {
+  enabled: boolean;
+  /** Percentage */
+  tpsImprovement: number;
+  /** Percentage */
+  orderingOptimization: number;
+  /** Percentage */
+  predictiveAccuracy: number;
+  /** 0-100 */
+  anomalyDetectionScore: number;
+  lastOptimizationTime: string;
+  optimizationsApplied: number;
+}
+
+export const AIOptimizationSchema: z.ZodType<AIOptimization> = z.object({
+  enabled: z.boolean(),
+  tpsImprovement: z.number(),
+  orderingOptimization: z.number(),
+  predictiveAccuracy: z.number(),
+  anomalyDetectionScore: z.number(),
+  lastOptimizationTime: z.string(),
+  optimizationsApplied: z.number(),
+});
+
+export interface AIModel {
+  id: string;
+  name: string;
+  type: 'consensus' | 'transaction-ordering' | 'anomaly-detection' | 'load-balancing';
+  status: 'active' | 'training' | 'disabled';
+  accuracy: number;
+  lastTrainedAt: string;
+  version: string;
+  parameters: Record<string, number>;
+}
+
+export const AIModelSchema: z.ZodType<AIModel> = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.enum(['consensus', 'transaction-ordering', 'anomaly-detection', 'load-balancing']),
+  status: z.enum(['active', 'training', 'disabled']),
+  accuracy: z.number(),
+  lastTrainedAt: z.string(),
+  version: z.string(),
+  parameters: z.record(z.number()),
+});
+
+export interface AIOptimizationMetrics {
+  consensusOptimization: {
+    predictedTps: number;
+    optimizationGain: number;
+    leaderSelectionAccuracy: number;
+    consensusLatencyReduction: number;
+  };
+  transactionOrdering: {
+    throughputIncrease: number;
+    latencyReduction: number;
+    orderingAccuracy: number;
+  };
+  anomalyDetection: {
+    anomaliesDetected: number;
+    falsePositiveRate: number;
+    detectionLatency: number;
+    threatsBlocked: number;
+  };
+  loadBalancing: {
+    nodeUtilization: number;
+    distributionEfficiency: number;
+    rebalanceEvents: number;
+  };
+}
+
+export const AIOptimizationMetricsSchema: z.ZodType<AIOptimizationMetrics> = z.object({
+  consensusOptimization: z.object({
+    predictedTps: z.number(),
+    optimizationGain: z.number(),
+    leaderSelectionAccuracy: z.number(),
+    consensusLatencyReduction: z.number(),
+  }),
+  transactionOrdering: z.object({
+    throughputIncrease: z.number(),
+    latencyReduction: z.number(),
+    orderingAccuracy: z.number(),
+  }),
+  anomalyDetection: z.object({
+    anomaliesDetected: z.number(),
+    falsePositiveRate: z.number(),
+    detectionLatency: z.number(),
+    threatsBlocked: z.number(),
+  }),
+  loadBalancing: z.object({
+    nodeUtilization: z.number(),
+    distributionEfficiency: z.number(),
+    rebalanceEvents: z.number(),
+  }),
+});
+
+export interface PredictiveAnalytics {
+  timestamp: string;
+  predictions: {
+    nextHourTps: number;
+    nextHourLatency: number;
+    networkLoad: 'low' | 'medium' | 'high' | 'critical';
+    consensusStability: number;
+    suggestedActions: string[];
+  };
+}
+
+export const PredictiveAnalyticsSchema: z.ZodType<PredictiveAnalytics> = z.object({
+  timestamp: z.string(),
+  predictions: z.object({
+    nextHourTps: z.number(),
+    nextHourLatency: z.number(),
+    networkLoad: z.enum(['low', 'medium', 'high', 'critical']),
+    consensusStability: z.number(),
+    suggestedActions: z.array(z.string()),
+  }),
+});
+
+export interface QuantumSecurityStatus {
+  algorithm: 'CRYSTALS-Dilithium' | 'CRYSTALS-Kyber' | 'SPHINCS+';
+  securityLevel: 1 | 2 | 3 | 4 | 5;
+  keyStrength: number;
+  quantumResistant: boolean;
+  lastAudit: string;
+  vulnerabilities: number;
+  status: 'secure' | 'warning' | 'critical';
+}
+
+export const QuantumSecurityStatusSchema: z.ZodType<QuantumSecurityStatus> = z.object({
+  algorithm: z.enum(['CRYSTALS-Dilithium', 'CRYSTALS-Kyber', 'SPHINCS+']),
+  securityLevel: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(5)]),
+  keyStrength: z.number(),
+  quantumResistant: z.boolean(),
+  lastAudit: z.string(),
+  vulnerabilities: z.number(),
+  status: z.enum(['secure', 'warning', 'critical']),
+});
+
+export interface CryptoKey {
+  id: string;
+  type: 'signing' | 'encryption' | 'hybrid';
+  algorithm: string;
+  publicKey: string;
+  createdAt: string;
+  expiresAt?: string;
+  status: 'active' | 'expired' | 'revoked';
+  usageCount: number;
+  lastUsed?: string;
+}
+
+export const CryptoKeySchema: z.ZodType<CryptoKey> = z.object({
+  id: z.string(),
+  type: z.enum(['signing', 'encryption', 'hybrid']),
+  algorithm: z.string(),
+  publicKey: z.string(),
+  createdAt: z.string(),
+  expiresAt: z.string().optional(),
+  status: z.enum(['active', 'expired', 'revoked']),
+  usageCount: z.number(),
+  lastUsed: z.string().optional(),
+});
+
+export interface SecurityMetrics {
+  totalSignatures: number;
+  totalEncryptions: number;
+  avgSignatureTime: number;
+  avgEncryptionTime: number;
+  avgVerificationTime: number;
+  avgDecryptionTime: number;
+  failedVerifications: number;
+  quantumAttemptsBlocked: number;
+}
+
+export const SecurityMetricsSchema: z.ZodType<SecurityMetrics> = z.object({
+  totalSignatures: z.number(),
+  totalEncryptions: z.number(),
+  avgSignatureTime: z.number(),
+  avgEncryptionTime: z.number(),
+  avgVerificationTime: z.number(),
+  avgDecryptionTime: z.number(),
+  failedVerifications: z.number(),
+  quantumAttemptsBlocked: z.number(),
+});
+
+export interface SecurityAudit {
+  id: string;
+  timestamp: string;
+  type: 'key-rotation' | 'vulnerability-scan' | 'penetration-test' | 'compliance';
+  status: 'passed' | 'failed' | 'warning';
+  findings: {
+    critical: number;
+    high: number;
+    medium: number;
+    low: number;
+  };
+  recommendations: string[];
+}
+
+export const SecurityAuditSchema: z.ZodType<SecurityAudit> = z.object({
+  id: z.string(),
+  timestamp: z.string(),
+  type: z.enum(['key-rotation', 'vulnerability-scan', 'penetration-test', 'compliance']),
+  status: z.enum(['passed', 'failed', 'warning']),
+  findings: z.object({
+    critical: z.number(),
+    high: z.number(),
+    medium: z.number(),
+    low: z.number(),
+  }),
+  recommendations: z.array(z.string()),
+});
+
+export interface BridgeStatus {
+  bridgeId: string;
+  name: string;
+  status: 'active' | 'paused' | 'maintenance' | 'offline';
+  sourceChain: string;
+  targetChain: string;
+  totalValueLocked: number;
+  totalTransfers: number;
+  averageTransferTime: number;
+  successRate: number;
+  lastTransferAt?: string;
+}
+
+export const BridgeStatusSchema: z.ZodType<BridgeStatus> = z.object({
+  bridgeId: z.string(),
+  name: z.string(),
+  status: z.enum(['active', 'paused', 'maintenance', 'offline']),
+  sourceChain: z.string(),
+  targetChain: z.string(),
+  totalValueLocked: z.number(),
+  totalTransfers: z.number(),
+  averageTransferTime: z.number(),
+  successRate: z.number(),
+  lastTransferAt: z.string().optional(),
+});
+
+export type CrossChainTransferStatus =
+  | 'initiated'
+  | 'locked'
+  | 'verified'
+  | 'completed'
+  | 'failed'
+  | 'refunded';
+
+export const CrossChainTransferStatusSchema: z.ZodType<CrossChainTransferStatus> = z.enum([
+  'initiated',
+  'locked',
+  'verified',
+  'completed',
+  'failed',
+  'refunded',
+]);
+
+export interface CrossChainTransfer {
+  id: string;
+  bridgeId: string;
+  sourceChain: string;
+  targetChain: string;
+  sourceTransaction: string;
+  targetTransaction?: string;
+  status: CrossChainTransferStatus;
+  token: string;
+  amount: number;
+  sender: string;
+  recipient: string;
+  fee: number;
+  initiatedAt: string;
+  completedAt?: string;
+  estimatedCompletionTime?: string;
+  confirmations: number;
+  requiredConfirmations: number;
+}
+
+export const CrossChainTransferSchema: z.ZodType<CrossChainTransfer> = z.object({
+  id: z.string(),
+  bridgeId: z.string(),
+  sourceChain: z.string(),
+  targetChain: z.string(),
+  sourceTransaction: z.string(),
+  targetTransaction: z.string().optional(),
+  status: CrossChainTransferStatusSchema,
+  token: z.string(),
+  amount: z.number(),
+  sender: z.string(),
+  recipient: z.string(),
+  fee: z.number(),
+  initiatedAt: z.string(),
+  completedAt: z.string().optional(),
+  estimatedCompletionTime: z.string().optional(),
+  confirmations: z.number(),
+  requiredConfirmations: z.number(),
+});
+
+export interface CrossChainTransferEnvelope {
+  success: boolean;
+  data?: CrossChainTransfer;
+  error?: ApiErrorBody;
+  timestamp: string;
+}
+
+export const CrossChainTransferEnvelopeSchema: z.ZodType<CrossChainTransferEnvelope> = z.object({
+  success: z.boolean(),
+  data: CrossChainTransferSchema.optional(),
+  error: ApiErrorBodySchema.optional(),
+  timestamp: z.string(),
+});
+
+export interface TransferRequest {
+  sourceChain: string;
+  targetChain: string;
+  token: string;
+  amount: number;
+  recipient: string;
+}
+
+export const TransferRequestSchema: z.ZodType<TransferRequest> = z.object({
+  sourceChain: z.string(),
+  targetChain: z.string(),
+  token: z.string(),
+  amount: z.number(),
+  recipient: z.string(),
+});
+
+export interface SupportedChain {
+  chainId: string;
+  name: string;
+  network: string;
+  status: 'connected' | 'disconnected' | 'syncing';
+  blockHeight: number;
+  avgBlockTime: number;
+  nativeToken: string;
+  supportedTokens: string[];
+  bridgeFee: number;
+  minTransferAmount: number;
+  maxTransferAmount: number;
+}
+
+export const SupportedChainSchema: z.ZodType<SupportedChain> = z.object({
+  chainId: z.string(),
+  name: z.string(),
+  network: z.string(),
+  status: z.enum(['connected', 'disconnected', 'syncing']),
+  blockHeight: z.number(),
+  avgBlockTime: z.number(),
+  nativeToken: z.string(),
+  supportedTokens: z.array(z.string()),
+  bridgeFee: z.number(),
+  minTransferAmount: z.number(),
+  maxTransferAmount: z.number(),
+});
+
+export interface BridgeLiquidity {
+  bridgeId: string;
+  targetChain: string;
+  availableLiquidity: number;
+  lockedAmount: number;
+  pendingTransfers: number;
+  utilization: number;
+}
+
+export const BridgeLiquiditySchema: z.ZodType<BridgeLiquidity> = z.object({
+  bridgeId: z.string(),
+  targetChain: z.string(),
+  availableLiquidity: z.number(),
+  lockedAmount: z.number(),
+  pendingTransfers: z.number(),
+  utilization: z.number(),
+});
+
+export interface BridgeMetrics {
+  totalBridges: number;
+  activeBridges: number;
+  totalValueLocked: number;
+  totalTransfers24h: number;
+  totalVolume24h: number;
+  averageTransferTime: number;
+  successRate: number;
+  failedTransfers24h: number;
+  liquidity?: BridgeLiquidity[];
+}
+
+export const BridgeMetricsSchema: z.ZodType<BridgeMetrics> = z.object({
+  totalBridges: z.number(),
+  activeBridges: z.number(),
+  totalValueLocked: z.number(),
+  totalTransfers24h: z.number(),
+  totalVolume24h: z.number(),
+  averageTransferTime: z.number(),
+  successRate: z.number(),
+  failedTransfers24h: z.number(),
+  liquidity: z.array(BridgeLiquiditySchema).optional(),
+});
+
+// ===== Operations =====
+
+/** Get system health status (GET /health) */
+export const getHealth = (client: APIClient, options?: FetchOptions): Promise<HealthStatus> =>
+  callOperation(client, { method: 'GET', path: '/health' }, HealthStatusSchema, options);
+
+/** Get system information (GET /info) */
+export const getSystemInfo = (client: APIClient, options?: FetchOptions): Promise<SystemInfo> =>
+  callOperation(client, { method: 'GET', path: '/info' }, SystemInfoSchema, options);
+
+/** Get real-time blockchain metrics (GET /blockchain/metrics) */
+export const getBlockchainMetrics = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<BlockchainMetrics> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/blockchain/metrics' },
+    BlockchainMetricsSchema,
+    options
+  );
+
+export type GetBlockchainStatsResponse = unknown;
+
+export const GetBlockchainStatsResponseSchema: z.ZodType<GetBlockchainStatsResponse> = z.unknown();
+
+/** Get detailed blockchain statistics (GET /blockchain/stats) */
+export const getBlockchainStats = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<GetBlockchainStatsResponse> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/blockchain/stats' },
+    GetBlockchainStatsResponseSchema,
+    options
+  );
+
+export interface GetBlocksParams {
+  limit?: number;
+  offset?: number;
+}
+
+export type GetBlocksResponse = LedgerBlock[];
+
+export const GetBlocksResponseSchema: z.ZodType<GetBlocksResponse> = z.array(LedgerBlockSchema);
+
+/** Get list of recent blocks (GET /blocks) */
+export const getBlocks = (
+  client: APIClient,
+  params: GetBlocksParams = {},
+  options?: FetchOptions
+): Promise<GetBlocksResponse> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/blocks', query: { limit: params.limit, offset: params.offset } },
+    GetBlocksResponseSchema,
+    options
+  );
+
+export interface GetBlockParams {
+  hashOrHeight: string | number;
+}
+
+/** Get specific block by hash or height (GET /blocks/{hashOrHeight}) */
+export const getBlock = (
+  client: APIClient,
+  params: GetBlockParams,
+  options?: FetchOptions
+): Promise<LedgerBlock> =>
+  callOperation(
+    client,
+    {
+      method: 'GET',
+      path: '/blocks/{hashOrHeight}',
+      pathParams: { hashOrHeight: params.hashOrHeight },
+    },
+    LedgerBlockSchema,
+    options
+  );
+
+export interface GetTransactionsParams {
+  limit?: number;
+  offset?: number;
+}
+
+export type GetTransactionsResponse = LedgerTransaction[];
+
+export const GetTransactionsResponseSchema: z.ZodType<GetTransactionsResponse> =
+  z.array(LedgerTransactionSchema);
+
+/** Get list of recent transactions (GET /transactions) */
+export const getTransactions = (
+  client: APIClient,
+  params: GetTransactionsParams = {},
+  options?: FetchOptions
+): Promise<GetTransactionsResponse> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/transactions', query: { limit: params.limit, offset: params.offset } },
+    GetTransactionsResponseSchema,
+    options
+  );
+
+export interface GetTransactionParams {
+  hash: string;
+}
+
+/** Get specific transaction by hash (GET /transactions/{hash}) */
+export const getTransaction = (
+  client: APIClient,
+  params: GetTransactionParams,
+  options?: FetchOptions
+): Promise<LedgerTransaction> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/transactions/{hash}', pathParams: { hash: params.hash } },
+    LedgerTransactionSchema,
+    options
+  );
+
+export interface SubmitTransactionParams {
+  body: TransactionSubmission;
+}
+
+export interface SubmitTransactionResponse {
+  txHash: string;
+  status: string;
+}
+
+export const SubmitTransactionResponseSchema: z.ZodType<SubmitTransactionResponse> = z.object({
+  txHash: z.string(),
+  status: z.string(),
+});
+
+/** Submit a new transaction (POST /transactions/submit) */
+export const submitTransaction = (
+  client: APIClient,
+  params: SubmitTransactionParams,
+  options?: FetchOptions
+): Promise<SubmitTransactionResponse> =>
+  callOperation(
+    client,
+    { method: 'POST', path: '/transactions/submit', body: params.body },
+    SubmitTransactionResponseSchema,
+    options
+  );
+
+export interface SubmitBatchTransactionsParams {
+  body: {
+    transactions: unknown[];
+  };
+}
+
+export interface SubmitBatchTransactionsResponse {
+  acceptedCount: number;
+  rejectedCount: number;
+  batchId: string;
+}
+
+export const SubmitBatchTransactionsResponseSchema: z.ZodType<SubmitBatchTransactionsResponse> =
+  z.object({
+    acceptedCount: z.number(),
+    rejectedCount: z.number(),
+    batchId: z.string(),
+  });
+
+/** Submit batch transactions (POST /transactions/batch) */
+export const submitBatchTransactions = (
+  client: APIClient,
+  params: SubmitBatchTransactionsParams,
+  options?: FetchOptions
+): Promise<SubmitBatchTransactionsResponse> =>
+  callOperation(
+    client,
+    { method: 'POST', path: '/transactions/batch', body: params.body },
+    SubmitBatchTransactionsResponseSchema,
+    options
+  );
+
+export interface ListExplorerTransactionsParams {
+  page?: number;
+  pageSize?: number;
+  type?: ExplorerTransactionType;
+  status?: ExplorerTransactionStatus;
+  fromAddress?: string;
+  toAddress?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  startDate?: string;
+  endDate?: string;
+  blockHeight?: number;
+}
+
+/** Get transactions with pagination and filters (GET /blockchain/transactions) */
+export const listExplorerTransactions = (
+  client: APIClient,
+  params: ListExplorerTransactionsParams = {},
+  options?: FetchOptions
+): Promise<ExplorerTransactionPage> =>
+  callOperation(
+    client,
+    {
+      method: 'GET',
+      path: '/blockchain/transactions',
+      query: {
+        page: params.page,
+        pageSize: params.pageSize,
+        type: params.type,
+        status: params.status,
+        fromAddress: params.fromAddress,
+        toAddress: params.toAddress,
+        minAmount: params.minAmount,
+        maxAmount: params.maxAmount,
+        startDate: params.startDate,
+        endDate: params.endDate,
+        blockHeight: params.blockHeight,
+      },
+    },
+    ExplorerTransactionPageSchema,
+    options
+  );
+
+export interface GetExplorerTransactionParams {
+  hash: string;
+}
+
+/** Get transaction by hash (GET /blockchain/transactions/{hash}) */
+export const getExplorerTransaction = (
+  client: APIClient,
+  params: GetExplorerTransactionParams,
+  options?: FetchOptions
+): Promise<ExplorerTransactionEnvelope> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/blockchain/transactions/{hash}', pathParams: { hash: params.hash } },
+    ExplorerTransactionEnvelopeSchema,
+    options
+  );
+
+export type GetExplorerTransactionStatsResponse = unknown;
+
+export const GetExplorerTransactionStatsResponseSchema: z.ZodType<GetExplorerTransactionStatsResponse> =
+  z.unknown();
+
+/** Get transaction statistics (GET /blockchain/transactions/stats) */
+export const getExplorerTransactionStats = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<GetExplorerTransactionStatsResponse> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/blockchain/transactions/stats' },
+    GetExplorerTransactionStatsResponseSchema,
+    options
+  );
+
+export interface ListExplorerBlocksParams {
+  limit?: number;
+}
+
+export type ListExplorerBlocksResponse = ExplorerBlock[];
+
+export const ListExplorerBlocksResponseSchema: z.ZodType<ListExplorerBlocksResponse> =
+  z.array(ExplorerBlockSchema);
+
+/** Get recent blocks (GET /blockchain/blocks) */
+export const listExplorerBlocks = (
+  client: APIClient,
+  params: ListExplorerBlocksParams = {},
+  options?: FetchOptions
+): Promise<ListExplorerBlocksResponse> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/blockchain/blocks', query: { limit: params.limit } },
+    ListExplorerBlocksResponseSchema,
+    options
+  );
+
+export interface GetExplorerBlockParams {
+  height: number;
+}
+
+/** Get block by height (GET /blockchain/blocks/{height}) */
+export const getExplorerBlock = (
+  client: APIClient,
+  params: GetExplorerBlockParams,
+  options?: FetchOptions
+): Promise<ExplorerBlockEnvelope> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/blockchain/blocks/{height}', pathParams: { height: params.height } },
+    ExplorerBlockEnvelopeSchema,
+    options
+  );
+
+/** Get chain information (GET /blockchain/chain/info) */
+export const getChainInfo = (client: APIClient, options?: FetchOptions): Promise<ChainInfo> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/blockchain/chain/info' },
+    ChainInfoSchema,
+    options
+  );
+
+export type GetValidatorsResponse = Validator[];
+
+export const GetValidatorsResponseSchema: z.ZodType<GetValidatorsResponse> =
+  z.array(ValidatorSchema);
+
+/** Get all validators (GET /validators) */
+export const getValidators = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<GetValidatorsResponse> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/validators' },
+    GetValidatorsResponseSchema,
+    options
+  );
+
+export interface GetValidatorParams {
+  id: string;
+}
+
+/** Get validator by ID (GET /validators/{id}) */
+export const getValidator = (
+  client: APIClient,
+  params: GetValidatorParams,
+  options?: FetchOptions
+): Promise<ValidatorEnvelope> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/validators/{id}', pathParams: { id: params.id } },
+    ValidatorEnvelopeSchema,
+    options
+  );
+
+/** Get staking information for the validator set (GET /validators/staking/info) */
+export const getValidatorStakingInfo = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<ValidatorStakingInfo> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/validators/staking/info' },
+    ValidatorStakingInfoSchema,
+    options
+  );
+
+export interface GetValidatorSlashingHistoryParams {
+  validatorId: string;
+}
+
+export type GetValidatorSlashingHistoryResponse = SlashingEvent[];
+
+export const GetValidatorSlashingHistoryResponseSchema: z.ZodType<GetValidatorSlashingHistoryResponse> =
+  z.array(SlashingEventSchema);
+
+/** Get the slashing events recorded against a validator (GET /validators/{validatorId}/slashing) */
+export const getValidatorSlashingHistory = (
+  client: APIClient,
+  params: GetValidatorSlashingHistoryParams,
+  options?: FetchOptions
+): Promise<GetValidatorSlashingHistoryResponse> =>
+  callOperation(
+    client,
+    {
+      method: 'GET',
+      path: '/validators/{validatorId}/slashing',
+      pathParams: { validatorId: params.validatorId },
+    },
+    GetValidatorSlashingHistoryResponseSchema,
+    options
+  );
+
+export interface GetValidatorPerformanceParams {
+  validatorId: string;
+  period?: ValidatorPerformancePeriod;
+}
+
+/** Get a validator's performance over a period, in time buckets (GET /validators/{validatorId}/performance) */
+export const getValidatorPerformance = (
+  client: APIClient,
+  params: GetValidatorPerformanceParams,
+  options?: FetchOptions
+): Promise<ValidatorPerformanceHistory> =>
+  callOperation(
+    client,
+    {
+      method: 'GET',
+      path: '/validators/{validatorId}/performance',
+      pathParams: { validatorId: params.validatorId },
+      query: { period: params.period },
+    },
+    ValidatorPerformanceHistorySchema,
+    options
+  );
+
+export interface StakeToValidatorParams {
+  validatorId: string;
+  body: {
+    amount: number;
+    lockPeriod?: string;
+  };
+}
+
+export type StakeToValidatorResponse = unknown;
+
+export const StakeToValidatorResponseSchema: z.ZodType<StakeToValidatorResponse> = z.unknown();
+
+/** Stake tokens to a validator (POST /validators/{validatorId}/stake) */
+export const stakeToValidator = (
+  client: APIClient,
+  params: StakeToValidatorParams,
+  options?: FetchOptions
+): Promise<StakeToValidatorResponse> =>
+  callOperation(
+    client,
+    {
+      method: 'POST',
+      path: '/validators/{validatorId}/stake',
+      pathParams: { validatorId: params.validatorId },
+      body: params.body,
+    },
+    StakeToValidatorResponseSchema,
+    options
+  );
+
+/** Get HyperRAFT++ consensus status (GET /consensus/status) */
+export const getConsensusStatus = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<ConsensusStatus> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/consensus/status' },
+    ConsensusStatusSchema,
+    options
+  );
+
+export type GetConsensusMetricsResponse = unknown;
+
+export const GetConsensusMetricsResponseSchema: z.ZodType<GetConsensusMetricsResponse> =
+  z.unknown();
+
+/** Get consensus performance metrics (GET /consensus/metrics) */
+export const getConsensusMetrics = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<GetConsensusMetricsResponse> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/consensus/metrics' },
+    GetConsensusMetricsResponseSchema,
+    options
+  );
+
+export type GetConsensusNodesResponse = unknown[];
+
+export const GetConsensusNodesResponseSchema: z.ZodType<GetConsensusNodesResponse> = z.array(
+  z.unknown()
+);
+
+/** Get cluster node information (GET /consensus/nodes) */
+export const getConsensusNodes = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<GetConsensusNodesResponse> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/consensus/nodes' },
+    GetConsensusNodesResponseSchema,
+    options
+  );
+
+export type GetTokensResponse = Token[];
+
+export const GetTokensResponseSchema: z.ZodType<GetTokensResponse> = z.array(TokenSchema);
+
+/** Get list of all tokens (GET /tokens) */
+export const getTokens = (client: APIClient, options?: FetchOptions): Promise<GetTokensResponse> =>
+  callOperation(client, { method: 'GET', path: '/tokens' }, GetTokensResponseSchema, options);
+
+export interface CreateTokenParams {
+  body: TokenDraft;
+}
+
+/** Create a new token (POST /tokens) */
+export const createToken = (
+  client: APIClient,
+  params: CreateTokenParams,
+  options?: FetchOptions
+): Promise<Token> =>
+  callOperation(
+    client,
+    { method: 'POST', path: '/tokens', body: params.body },
+    TokenSchema,
+    options
+  );
+
+export interface GetTokenParams {
+  id: string;
+}
+
+/** Get specific token details (GET /tokens/{id}) */
+export const getToken = (
+  client: APIClient,
+  params: GetTokenParams,
+  options?: FetchOptions
+): Promise<Token> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/tokens/{id}', pathParams: { id: params.id } },
+    TokenSchema,
+    options
+  );
+
+export interface GetTokenBalanceParams {
+  tokenId: string;
+  address: string;
+}
+
+export interface GetTokenBalanceResponse {
+  balance: string;
+  decimals: number;
+}
+
+export const GetTokenBalanceResponseSchema: z.ZodType<GetTokenBalanceResponse> = z.object({
+  balance: z.string(),
+  decimals: z.number(),
+});
+
+/** Get token balance for an address (GET /tokens/{tokenId}/balance/{address}) */
+export const getTokenBalance = (
+  client: APIClient,
+  params: GetTokenBalanceParams,
+  options?: FetchOptions
+): Promise<GetTokenBalanceResponse> =>
+  callOperation(
+    client,
+    {
+      method: 'GET',
+      path: '/tokens/{tokenId}/balance/{address}',
+      pathParams: { tokenId: params.tokenId, address: params.address },
+    },
+    GetTokenBalanceResponseSchema,
+    options
+  );
+
+export type GetRWAStatusResponse = unknown;
+
+export const GetRWAStatusResponseSchema: z.ZodType<GetRWAStatusResponse> = z.unknown();
+
+/** Get RWA system status (GET /rwa/status) */
+export const getRWAStatus = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<GetRWAStatusResponse> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/rwa/status' },
+    GetRWAStatusResponseSchema,
+    options
+  );
+
+export type GetRWAAssetsResponse = RealWorldAsset[];
+
+export const GetRWAAssetsResponseSchema: z.ZodType<GetRWAAssetsResponse> =
+  z.array(RealWorldAssetSchema);
+
+/** Get list of tokenized assets (GET /rwa/assets) */
+export const getRWAAssets = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<GetRWAAssetsResponse> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/rwa/assets' },
+    GetRWAAssetsResponseSchema,
+    options
+  );
+
+export interface TokenizeRWAParams {
+  body: RealWorldAssetDraft;
+}
+
+/** Tokenize a real-world asset (POST /rwa/tokenize) */
+export const tokenizeRWA = (
+  client: APIClient,
+  params: TokenizeRWAParams,
+  options?: FetchOptions
+): Promise<RealWorldAsset> =>
+  callOperation(
+    client,
+    { method: 'POST', path: '/rwa/tokenize', body: params.body },
+    RealWorldAssetSchema,
+    options
+  );
+
+export interface GetRWAPortfolioResponse {
+  totalValue: string;
+  assets: RealWorldAsset[];
+}
+
+export const GetRWAPortfolioResponseSchema: z.ZodType<GetRWAPortfolioResponse> = z.object({
+  totalValue: z.string(),
+  assets: z.array(RealWorldAssetSchema),
+});
+
+/** Get RWA portfolio (GET /rwa/portfolio) */
+export const getRWAPortfolio = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<GetRWAPortfolioResponse> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/rwa/portfolio' },
+    GetRWAPortfolioResponseSchema,
+    options
+  );
+
+export type GetContractsResponse = SmartContract[];
+
+export const GetContractsResponseSchema: z.ZodType<GetContractsResponse> =
+  z.array(SmartContractSchema);
+
+/** Get list of smart contracts (GET /contracts) */
+export const getContracts = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<GetContractsResponse> =>
+  callOperation(client, { method: 'GET', path: '/contracts' }, GetContractsResponseSchema, options);
+
+export interface GetContractParams {
+  id: string;
+}
+
+/** Get specific smart contract details (GET /contracts/{id}) */
+export const getContract = (
+  client: APIClient,
+  params: GetContractParams,
+  options?: FetchOptions
+): Promise<SmartContract> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/contracts/{id}', pathParams: { id: params.id } },
+    SmartContractSchema,
+    options
+  );
+
+export interface DeployContractParams {
+  body: SmartContractDraft;
+}
+
+/** Deploy a new smart contract (POST /contracts/deploy) */
+export const deployContract = (
+  client: APIClient,
+  params: DeployContractParams,
+  options?: FetchOptions
+): Promise<SmartContract> =>
+  callOperation(
+    client,
+    { method: 'POST', path: '/contracts/deploy', body: params.body },
+    SmartContractSchema,
+    options
+  );
+
+export interface ExecuteContractParams {
+  id: string;
+  body: {
+    functionName: string;
+    parameters: unknown[];
+  };
+}
+
+export type ExecuteContractResponse = unknown;
+
+export const ExecuteContractResponseSchema: z.ZodType<ExecuteContractResponse> = z.unknown();
+
+/** Execute a smart contract function (POST /contracts/{id}/execute) */
+export const executeContract = (
+  client: APIClient,
+  params: ExecuteContractParams,
+  options?: FetchOptions
+): Promise<ExecuteContractResponse> =>
+  callOperation(
+    client,
+    {
+      method: 'POST',
+      path: '/contracts/{id}/execute',
+      pathParams: { id: params.id },
+      body: params.body,
+    },
+    ExecuteContractResponseSchema,
+    options
+  );
+
+/** Get network health status (GET /network/health) */
+export const getNetworkHealth = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<NetworkHealth> =>
+  callOperation(client, { method: 'GET', path: '/network/health' }, NetworkHealthSchema, options);
+
+export type GetNetworkNodesResponse = unknown[];
+
+export const GetNetworkNodesResponseSchema: z.ZodType<GetNetworkNodesResponse> = z.array(
+  z.unknown()
+);
+
+/** Get network topology (GET /network/nodes) */
+export const getNetworkNodes = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<GetNetworkNodesResponse> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/network/nodes' },
+    GetNetworkNodesResponseSchema,
+    options
+  );
+
+export interface GetNetworkLatencyResponse {
+  averageLatency: number;
+  maxLatency: number;
+  minLatency: number;
+}
+
+export const GetNetworkLatencyResponseSchema: z.ZodType<GetNetworkLatencyResponse> = z.object({
+  averageLatency: z.number(),
+  maxLatency: z.number(),
+  minLatency: z.number(),
+});
+
+/** Get network latency metrics (GET /network/latency) */
+export const getNetworkLatency = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<GetNetworkLatencyResponse> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/network/latency' },
+    GetNetworkLatencyResponseSchema,
+    options
+  );
+
+/** Get dashboard analytics data (GET /analytics/dashboard) */
+export const getAnalyticsDashboard = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<AnalyticsDashboard> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/analytics/dashboard' },
+    AnalyticsDashboardSchema,
+    options
+  );
+
+export type GetAnalyticsMetricsResponse = unknown;
+
+export const GetAnalyticsMetricsResponseSchema: z.ZodType<GetAnalyticsMetricsResponse> =
+  z.unknown();
+
+/** Get performance metrics (GET /analytics/metrics) */
+export const getAnalyticsMetrics = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<GetAnalyticsMetricsResponse> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/analytics/metrics' },
+    GetAnalyticsMetricsResponseSchema,
+    options
+  );
+
+export interface GetAnalyticsTrendsParams {
+  period?: 'hour' | 'day' | 'week' | 'month';
+}
+
+export type GetAnalyticsTrendsResponse = unknown;
+
+export const GetAnalyticsTrendsResponseSchema: z.ZodType<GetAnalyticsTrendsResponse> = z.unknown();
+
+/** Get historical trends (GET /analytics/trends) */
+export const getAnalyticsTrends = (
+  client: APIClient,
+  params: GetAnalyticsTrendsParams = {},
+  options?: FetchOptions
+): Promise<GetAnalyticsTrendsResponse> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/analytics/trends', query: { period: params.period } },
+    GetAnalyticsTrendsResponseSchema,
+    options
+  );
+
+/** Get staking information (GET /staking/info) */
+export const getStakingInfo = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<StakingOverview> =>
+  callOperation(client, { method: 'GET', path: '/staking/info' }, StakingOverviewSchema, options);
+
+export interface StakeTokensParams {
+  body: StakeRequest;
+}
+
+/** Stake tokens (POST /staking/stake) */
+export const stakeTokens = (
+  client: APIClient,
+  params: StakeTokensParams,
+  options?: FetchOptions
+): Promise<StakingReceipt> =>
+  callOperation(
+    client,
+    { method: 'POST', path: '/staking/stake', body: params.body },
+    StakingReceiptSchema,
+    options
+  );
+
+export interface UnstakeTokensParams {
+  body: StakeRequest;
+}
+
+/** Unstake tokens (POST /staking/unstake) */
+export const unstakeTokens = (
+  client: APIClient,
+  params: UnstakeTokensParams,
+  options?: FetchOptions
+): Promise<StakingReceipt> =>
+  callOperation(
+    client,
+    { method: 'POST', path: '/staking/unstake', body: params.body },
+    StakingReceiptSchema,
+    options
+  );
+
+export interface GetStakingRewardsParams {
+  validatorId: string;
+}
+
+export interface GetStakingRewardsResponse {
+  rewards: string;
+  claimableRewards: string;
+}
+
+export const GetStakingRewardsResponseSchema: z.ZodType<GetStakingRewardsResponse> = z.object({
+  rewards: z.string(),
+  claimableRewards: z.string(),
+});
+
+/** Get staking rewards (GET /staking/rewards) */
+export const getStakingRewards = (
+  client: APIClient,
+  params: GetStakingRewardsParams,
+  options?: FetchOptions
+): Promise<GetStakingRewardsResponse> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/staking/rewards', query: { validatorId: params.validatorId } },
+    GetStakingRewardsResponseSchema,
+    options
+  );
+
+/** Get the signed-in delegator's positions and unbonding entries (GET /staking/delegations) */
+export const getDelegations = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<DelegatorPositions> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/staking/delegations' },
+    DelegatorPositionsSchema,
+    options
+  );
+
+export interface RedelegateTokensParams {
+  body: RedelegateRequest;
+}
+
+/** Move delegated tokens to another validator without unbonding (POST /staking/redelegate) */
+export const redelegateTokens = (
+  client: APIClient,
+  params: RedelegateTokensParams,
+  options?: FetchOptions
+): Promise<StakingReceipt> =>
+  callOperation(
+    client,
+    { method: 'POST', path: '/staking/redelegate', body: params.body },
+    StakingReceiptSchema,
+    options
+  );
+
+export interface ClaimStakingRewardsParams {
+  body: {
+    validatorId: string;
+  };
+}
+
+/** Withdraw the rewards accrued on a delegation (POST /staking/rewards/claim) */
+export const claimStakingRewards = (
+  client: APIClient,
+  params: ClaimStakingRewardsParams,
+  options?: FetchOptions
+): Promise<RewardClaimReceipt> =>
+  callOperation(
+    client,
+    { method: 'POST', path: '/staking/rewards/claim', body: params.body },
+    RewardClaimReceiptSchema,
+    options
+  );
+
+/** Get AI optimization metrics (GET /ai/optimization) */
+export const getAIOptimization = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<AIOptimization> =>
+  callOperation(client, { method: 'GET', path: '/ai/optimization' }, AIOptimizationSchema, options);
+
+/** Enable AI optimization (POST /ai/optimization/enable) */
+export const enableAIOptimization = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<StatusResult> =>
+  callOperation(
+    client,
+    { method: 'POST', path: '/ai/optimization/enable' },
+    StatusResultSchema,
+    options
+  );
+
+/** Disable AI optimization (POST /ai/optimization/disable) */
+export const disableAIOptimization = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<StatusResult> =>
+  callOperation(
+    client,
+    { method: 'POST', path: '/ai/optimization/disable' },
+    StatusResultSchema,
+    options
+  );
+
+export type GetAIModelsResponse = AIModel[];
+
+export const GetAIModelsResponseSchema: z.ZodType<GetAIModelsResponse> = z.array(AIModelSchema);
+
+/** Get AI models (GET /ai/models) */
+export const getAIModels = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<GetAIModelsResponse> =>
+  callOperation(client, { method: 'GET', path: '/ai/models' }, GetAIModelsResponseSchema, options);
+
+/** Get AI optimization metrics by area (GET /ai/metrics) */
+export const getAIMetrics = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<AIOptimizationMetrics> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/ai/metrics' },
+    AIOptimizationMetricsSchema,
+    options
+  );
+
+/** Get predictive analytics (GET /ai/predictions) */
+export const getPredictiveAnalytics = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<PredictiveAnalytics> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/ai/predictions' },
+    PredictiveAnalyticsSchema,
+    options
+  );
+
+export interface RetrainModelParams {
+  modelId: string;
+}
+
+export type RetrainModelResponse = unknown;
+
+export const RetrainModelResponseSchema: z.ZodType<RetrainModelResponse> = z.unknown();
+
+/** Retrain AI model (POST /ai/models/{modelId}/retrain) */
+export const retrainModel = (
+  client: APIClient,
+  params: RetrainModelParams,
+  options?: FetchOptions
+): Promise<RetrainModelResponse> =>
+  callOperation(
+    client,
+    {
+      method: 'POST',
+      path: '/ai/models/{modelId}/retrain',
+      pathParams: { modelId: params.modelId },
+    },
+    RetrainModelResponseSchema,
+    options
+  );
+
+/** Get security status (GET /security/status) */
+export const getSecurityStatus = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<QuantumSecurityStatus> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/security/status' },
+    QuantumSecurityStatusSchema,
+    options
+  );
+
+export type GetCryptoKeysResponse = CryptoKey[];
+
+export const GetCryptoKeysResponseSchema: z.ZodType<GetCryptoKeysResponse> =
+  z.array(CryptoKeySchema);
+
+/** Get cryptographic keys (GET /security/keys) */
+export const getCryptoKeys = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<GetCryptoKeysResponse> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/security/keys' },
+    GetCryptoKeysResponseSchema,
+    options
+  );
+
+export type RotateKeysResponse = unknown;
+
+export const RotateKeysResponseSchema: z.ZodType<RotateKeysResponse> = z.unknown();
+
+/** Rotate cryptographic keys (POST /security/keys/rotate) */
+export const rotateKeys = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<RotateKeysResponse> =>
+  callOperation(
+    client,
+    { method: 'POST', path: '/security/keys/rotate' },
+    RotateKeysResponseSchema,
+    options
+  );
+
+/** Get security metrics (GET /security/metrics) */
+export const getSecurityMetrics = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<SecurityMetrics> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/security/metrics' },
+    SecurityMetricsSchema,
+    options
+  );
+
+export type GetSecurityAuditsResponse = SecurityAudit[];
+
+export const GetSecurityAuditsResponseSchema: z.ZodType<GetSecurityAuditsResponse> =
+  z.array(SecurityAuditSchema);
+
+/** Get security audits (GET /security/audits) */
+export const getSecurityAudits = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<GetSecurityAuditsResponse> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/security/audits' },
+    GetSecurityAuditsResponseSchema,
+    options
+  );
+
+export type GetBridgesResponse = BridgeStatus[];
+
+export const GetBridgesResponseSchema: z.ZodType<GetBridgesResponse> = z.array(BridgeStatusSchema);
+
+/** Get bridge statuses (GET /bridge/bridges) */
+export const getBridges = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<GetBridgesResponse> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/bridge/bridges' },
+    GetBridgesResponseSchema,
+    options
+  );
+
+export interface GetTransfersParams {
+  page?: number;
+  pageSize?: number;
+}
+
+export type GetTransfersResponse = CrossChainTransfer[];
+
+export const GetTransfersResponseSchema: z.ZodType<GetTransfersResponse> =
+  z.array(CrossChainTransferSchema);
+
+/** Get cross-chain transfers (GET /bridge/transfers) */
+export const getTransfers = (
+  client: APIClient,
+  params: GetTransfersParams = {},
+  options?: FetchOptions
+): Promise<GetTransfersResponse> =>
+  callOperation(
+    client,
+    {
+      method: 'GET',
+      path: '/bridge/transfers',
+      query: { page: params.page, pageSize: params.pageSize },
+    },
+    GetTransfersResponseSchema,
+    options
+  );
+
+export interface CreateTransferParams {
+  body: TransferRequest;
+}
+
+/** Create cross-chain transfer (POST /bridge/transfers) */
+export const createTransfer = (
+  client: APIClient,
+  params: CreateTransferParams,
+  options?: FetchOptions
+): Promise<CrossChainTransferEnvelope> =>
+  callOperation(
+    client,
+    { method: 'POST', path: '/bridge/transfers', body: params.body },
+    CrossChainTransferEnvelopeSchema,
+    options
+  );
+
+export interface GetTransferParams {
+  id: string;
+}
+
+/** Get transfer by ID (GET /bridge/transfers/{id}) */
+export const getTransfer = (
+  client: APIClient,
+  params: GetTransferParams,
+  options?: FetchOptions
+): Promise<CrossChainTransferEnvelope> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/bridge/transfers/{id}', pathParams: { id: params.id } },
+    CrossChainTransferEnvelopeSchema,
+    options
+  );
+
+export interface RetryTransferParams {
+  id: string;
+}
+
+/** Retry a failed or stuck transfer (POST /bridge/transfers/{id}/retry) */
+export const retryTransfer = (
+  client: APIClient,
+  params: RetryTransferParams,
+  options?: FetchOptions
+): Promise<CrossChainTransferEnvelope> =>
+  callOperation(
+    client,
+    { method: 'POST', path: '/bridge/transfers/{id}/retry', pathParams: { id: params.id } },
+    CrossChainTransferEnvelopeSchema,
+    options
+  );
+
+export interface RefundTransferParams {
+  id: string;
+}
+
+/** Refund a failed or stuck transfer to the sender (POST /bridge/transfers/{id}/refund) */
+export const refundTransfer = (
+  client: APIClient,
+  params: RefundTransferParams,
+  options?: FetchOptions
+): Promise<CrossChainTransferEnvelope> =>
+  callOperation(
+    client,
+    { method: 'POST', path: '/bridge/transfers/{id}/refund', pathParams: { id: params.id } },
+    CrossChainTransferEnvelopeSchema,
+    options
+  );
+
+export type GetSupportedChainsResponse = SupportedChain[];
+
+export const GetSupportedChainsResponseSchema: z.ZodType<GetSupportedChainsResponse> =
+  z.array(SupportedChainSchema);
+
+/** Get supported chains (GET /bridge/chains) */
+export const getSupportedChains = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<GetSupportedChainsResponse> =>
+  callOperation(
+    client,
+    { method: 'GET', path: '/bridge/chains' },
+    GetSupportedChainsResponseSchema,
+    options
+  );
+
+/** Get bridge metrics (GET /bridge/metrics) */
+export const getBridgeMetrics = (
+  client: APIClient,
+  options?: FetchOptions
+): Promise<BridgeMetrics> =>
+  callOperation(client, { method: 'GET', path: '/bridge/metrics' }, BridgeMetricsSchema, options);
+
+export const SERVER_PATH = '/api/v11';
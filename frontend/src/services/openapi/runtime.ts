@@ -0,0 +1,69 @@
+/**
+ * Runtime for the generated OpenAPI clients
+ *
+ * Generated operations describe their request (method, templated path, query,
+ * body) and hand it to callOperation, which sends it through a shared
+ * APIClient. In dev builds the response is checked against the operation's
+ * zod schema so backend drift shows up in the console instead of as a broken
+ * component further down; production builds skip the check.
+ */
+
+import type { z } from 'zod';
+import type APIClient from '../apiClient';
+import type { FetchOptions } from '../apiClient';
+
+export interface OperationRequest {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  /** Path relative to the client base URL, with {name} placeholders */
+  path: string;
+  pathParams?: Record<string, string | number>;
+  query?: Record<string, unknown>;
+  body?: unknown;
+}
+
+const VALIDATE_RESPONSES = import.meta.env.DEV;
+
+const fillPath = (path: string, pathParams: Record<string, string | number> = {}): string =>
+  path.replace(/\{(\w+)\}/g, (_match, name: string) => {
+    const value = pathParams[name];
+    if (value === undefined) {
+      throw new Error(`Missing path parameter "${name}" for ${path}`);
+    }
+    return encodeURIComponent(String(value));
+  });
+
+/**
+ * Warn about a response that doesn't match its schema; the data is still returned
+ */
+const validateResponse = <T>(request: OperationRequest, schema: z.ZodType<T>, data: T): void => {
+  const result = schema.safeParse(data);
+  if (result.success) return;
+
+  const issues = result.error.issues
+    .slice(0, 5)
+    .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  console.warn(
+    `[openapi] ${request.method} ${request.path} response does not match the spec`,
+    issues
+  );
+};
+
+export const callOperation = async <T>(
+  client: APIClient,
+  request: OperationRequest,
+  schema: z.ZodType<T>,
+  options: FetchOptions = {}
+): Promise<T> => {
+  const data = await client.requestData<T>(fillPath(request.path, request.pathParams), {
+    ...options,
+    method: request.method,
+    params: request.query,
+    body: request.body === undefined ? undefined : JSON.stringify(request.body),
+  });
+
+  if (VALIDATE_RESPONSES) {
+    validateResponse(request, schema, data);
+  }
+
+  return data;
+};
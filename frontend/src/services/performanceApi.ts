@@ -1,6 +1,5 @@
-import axios from 'axios';
-
-const API_BASE_URL = process.env.REACT_APP_API_URL || 'https://dlt.aurigraph.io/api/v12';
+import APIClient from './apiClient';
+import { ACCOUNT_API_BASE_URL } from '../utils/constants';
 
 export interface PerformanceMetrics {
   timestamp: string;
@@ -32,39 +31,13 @@ interface MetricsParams {
   appId?: string;
 }
 
-const apiClient = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-});
-
-// Add authorization
-apiClient.interceptors.request.use((config) => {
-  const token = localStorage.getItem('authToken');
-  if (token) {
-    config.headers.Authorization = `Bearer ${token}`;
-  }
-  return config;
-});
-
-// Handle errors
-apiClient.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('authToken');
-      window.location.href = '/login';
-    }
-    return Promise.reject(error);
-  }
-);
+const apiClient = new APIClient(ACCOUNT_API_BASE_URL);
 
 export const performanceApi = {
   // Get performance metrics
   async getMetrics(params?: MetricsParams): Promise<PerformanceMetrics[]> {
     try {
-      const response = await apiClient.get('/performance/metrics', {
+      const response = await apiClient.get<PerformanceMetrics[]>('/performance/metrics', {
         params,
       });
       return response.data;
@@ -80,7 +53,7 @@ export const performanceApi = {
   // Get performance summary
   async getSummary(params?: MetricsParams): Promise<PerformanceSummary> {
     try {
-      const response = await apiClient.get('/performance/summary', {
+      const response = await apiClient.get<PerformanceSummary>('/performance/summary', {
         params,
       });
       return response.data;
@@ -96,7 +69,7 @@ export const performanceApi = {
   // Get TPS metrics
   async getTPS(params?: MetricsParams): Promise<PerformanceMetrics[]> {
     try {
-      const response = await apiClient.get('/performance/tps', { params });
+      const response = await apiClient.get<PerformanceMetrics[]>('/performance/tps', { params });
       return response.data;
     } catch (error) {
       throw new Error(
@@ -108,7 +81,7 @@ export const performanceApi = {
   // Get latency metrics
   async getLatency(params?: MetricsParams): Promise<PerformanceMetrics[]> {
     try {
-      const response = await apiClient.get('/performance/latency', {
+      const response = await apiClient.get<PerformanceMetrics[]>('/performance/latency', {
         params,
       });
       return response.data;
@@ -140,7 +113,7 @@ export const performanceApi = {
   // Get finality metrics
   async getFinality(params?: MetricsParams): Promise<PerformanceMetrics[]> {
     try {
-      const response = await apiClient.get('/performance/finality', {
+      const response = await apiClient.get<PerformanceMetrics[]>('/performance/finality', {
         params,
       });
       return response.data;
@@ -156,7 +129,7 @@ export const performanceApi = {
   // Get validator performance
   async getValidatorPerformance(params?: MetricsParams): Promise<any[]> {
     try {
-      const response = await apiClient.get('/performance/validators', {
+      const response = await apiClient.get<unknown[]>('/performance/validators', {
         params,
       });
       return response.data;
@@ -172,7 +145,7 @@ export const performanceApi = {
   // Get real-time metrics
   async getRealTimeMetrics(): Promise<PerformanceSummary> {
     try {
-      const response = await apiClient.get('/performance/realtime');
+      const response = await apiClient.get<PerformanceSummary>('/performance/realtime');
       return response.data;
     } catch (error) {
       throw new Error(
@@ -189,9 +162,10 @@ export const performanceApi = {
     params?: MetricsParams
   ): Promise<Blob> {
     try {
-      const response = await apiClient.get('/performance/export', {
+      const response = await apiClient.get<Blob>('/performance/export', {
         params: { format, ...params },
         responseType: 'blob',
+        timeout: 'longOperation',
       });
       return response.data;
     } catch (error) {
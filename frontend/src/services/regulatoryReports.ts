@@ -0,0 +1,324 @@
+/**
+ * Regulatory Reports
+ *
+ * Builds regulatory reports from the compliance service's token, transfer,
+ * audit trail and KYC/AML reports. Each report is a flat table plus summary
+ * figures, so the builder can preview it and export it in any format.
+ */
+
+import complianceApi, { type TokenCompliance } from './complianceApi';
+import type {
+  GeneratedReport,
+  RegulatoryReportType,
+  ReportColumn,
+  ReportHistoryEntry,
+  ReportParameters,
+  ReportRow,
+} from '../types/state';
+
+const DAY_MS = 86_400_000;
+
+/** Audit entries fetched per token before filtering to the period */
+const AUDIT_TRAIL_LIMIT = 1000;
+
+export const REPORT_TYPES: Record<
+  RegulatoryReportType,
+  { label: string; description: string; perToken: boolean }
+> = {
+  token_compliance: {
+    label: 'Token Compliance',
+    description: 'Compliance status, transfer outcomes and risk score per token',
+    perToken: true,
+  },
+  transfers: {
+    label: 'Transfer Register',
+    description: 'Every checked or executed transfer with its compliance outcome',
+    perToken: true,
+  },
+  audit_trail: {
+    label: 'Audit Trail',
+    description: 'Audit trail entries recorded for each token',
+    perToken: true,
+  },
+  kyc_aml: {
+    label: 'KYC / AML',
+    description: 'Investor identities by KYC level and status, across all tokens',
+    perToken: false,
+  },
+};
+
+interface ReportContent {
+  columns: ReportColumn[];
+  rows: ReportRow[];
+  entityColumn: string;
+  summary: GeneratedReport['summary'];
+}
+
+/**
+ * Parameters with a rolling period turned into fixed dates ending now
+ */
+export const resolvePeriod = (
+  parameters: ReportParameters,
+  now: number = Date.now()
+): ReportParameters =>
+  parameters.lookbackDays
+    ? {
+        ...parameters,
+        startDate: new Date(now - parameters.lookbackDays * DAY_MS).toISOString(),
+        endDate: new Date(now).toISOString(),
+      }
+    : parameters;
+
+const inPeriod = (timestamp: string, { startDate, endDate }: ReportParameters) =>
+  (!startDate || timestamp >= startDate) && (!endDate || timestamp <= endDate);
+
+const outcome = (allowed: boolean) => (allowed ? 'Approved' : 'Rejected');
+
+/** Tokens the report covers: the chosen ones, or all, within the jurisdiction */
+const tokensInScope = (tokens: TokenCompliance[], parameters: ReportParameters) => {
+  const scoped = tokens.filter(
+    (token) =>
+      (!parameters.jurisdiction || token.jurisdiction === parameters.jurisdiction) &&
+      (parameters.tokenIds.length === 0 || parameters.tokenIds.includes(token.tokenId))
+  );
+  if (scoped.length === 0) {
+    throw new Error('No tokens match the chosen tokens and jurisdiction');
+  }
+  return scoped;
+};
+
+const tokenComplianceContent = async (
+  tokens: TokenCompliance[],
+  parameters: ReportParameters
+): Promise<ReportContent> => {
+  const reports = await Promise.all(
+    tokens.map((token) =>
+      complianceApi.getTokenComplianceReport(
+        token.tokenId,
+        parameters.startDate ?? undefined,
+        parameters.endDate ?? undefined
+      )
+    )
+  );
+  const transfers = reports.reduce((sum, report) => sum + report.transferStats.total, 0);
+  const rejected = reports.reduce((sum, report) => sum + report.transferStats.rejected, 0);
+  const riskScores = reports.map((report) => report.riskAssessment.riskScore);
+
+  return {
+    entityColumn: 'tokenId',
+    columns: [
+      { key: 'tokenId', title: 'Token' },
+      { key: 'jurisdiction', title: 'Jurisdiction' },
+      { key: 'complianceStatus', title: 'Status' },
+      { key: 'transfers', title: 'Transfers', numeric: true },
+      { key: 'approved', title: 'Approved', numeric: true },
+      { key: 'rejected', title: 'Rejected', numeric: true },
+      { key: 'approvalRate', title: 'Approval Rate' },
+      { key: 'riskScore', title: 'Risk Score', numeric: true },
+      { key: 'flaggedTransactions', title: 'Flagged', numeric: true },
+      { key: 'issues', title: 'Open Issues' },
+    ],
+    rows: reports.map((report) => ({
+      tokenId: report.tokenId,
+      jurisdiction: report.jurisdiction,
+      complianceStatus: report.complianceStatus,
+      transfers: report.transferStats.total,
+      approved: report.transferStats.approved,
+      rejected: report.transferStats.rejected,
+      approvalRate: report.transferStats.approvalRate,
+      riskScore: report.riskAssessment.riskScore,
+      flaggedTransactions: report.riskAssessment.flaggedTransactions,
+      issues: report.riskAssessment.issues.join('; '),
+    })),
+    summary: [
+      { label: 'Tokens', value: reports.length },
+      { label: 'Transfers', value: transfers },
+      { label: 'Rejected', value: rejected },
+      {
+        label: 'Highest risk score',
+        value: riskScores.length ? Math.max(...riskScores) : 0,
+      },
+    ],
+  };
+};
+
+const transferContent = async (
+  tokens: TokenCompliance[],
+  parameters: ReportParameters
+): Promise<ReportContent> => {
+  const reports = await Promise.all(
+    tokens.map((token) =>
+      complianceApi.getTransferReport(
+        token.tokenId,
+        parameters.startDate ?? undefined,
+        parameters.endDate ?? undefined
+      )
+    )
+  );
+  const transfers = reports
+    .flatMap((report) => report.transfers)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  const approved = transfers.filter((transfer) => transfer.result.allowed).length;
+
+  return {
+    entityColumn: 'id',
+    columns: [
+      { key: 'id', title: 'Transfer' },
+      { key: 'tokenId', title: 'Token' },
+      { key: 'timestamp', title: 'Time' },
+      { key: 'from', title: 'From' },
+      { key: 'to', title: 'To' },
+      { key: 'amount', title: 'Amount', numeric: true },
+      { key: 'executed', title: 'Executed' },
+      { key: 'outcome', title: 'Outcome' },
+      { key: 'violations', title: 'Violations' },
+    ],
+    rows: transfers.map((transfer) => ({
+      id: transfer.id,
+      tokenId: transfer.tokenId,
+      timestamp: transfer.timestamp,
+      from: transfer.from,
+      to: transfer.to,
+      amount: transfer.amount,
+      executed: transfer.executed ? 'Yes' : 'No',
+      outcome: outcome(transfer.result.allowed),
+      violations: transfer.result.violations.join('; '),
+    })),
+    summary: [
+      { label: 'Transfers', value: transfers.length },
+      { label: 'Approved', value: approved },
+      { label: 'Rejected', value: transfers.length - approved },
+      {
+        label: 'Approval rate',
+        value: `${(transfers.length ? (approved / transfers.length) * 100 : 100).toFixed(1)}%`,
+      },
+    ],
+  };
+};
+
+const auditTrailContent = async (
+  tokens: TokenCompliance[],
+  parameters: ReportParameters
+): Promise<ReportContent> => {
+  const trails = await Promise.all(
+    tokens.map(async (token) =>
+      (await complianceApi.getAuditTrailReport(token.tokenId, AUDIT_TRAIL_LIMIT)).map((entry) => ({
+        ...entry,
+        tokenId: token.tokenId,
+      }))
+    )
+  );
+  const entries = trails
+    .flat()
+    .filter((entry) => inPeriod(entry.timestamp, parameters))
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+  return {
+    entityColumn: 'id',
+    columns: [
+      { key: 'id', title: 'Entry' },
+      { key: 'tokenId', title: 'Token' },
+      { key: 'timestamp', title: 'Time' },
+      { key: 'action', title: 'Action' },
+      { key: 'from', title: 'From' },
+      { key: 'to', title: 'To' },
+      { key: 'amount', title: 'Amount', numeric: true },
+      { key: 'outcome', title: 'Outcome' },
+      { key: 'violations', title: 'Violations' },
+    ],
+    rows: entries.map((entry) => ({
+      id: entry.id,
+      tokenId: entry.tokenId,
+      timestamp: entry.timestamp,
+      action: entry.action,
+      from: entry.from,
+      to: entry.to,
+      amount: entry.amount,
+      outcome: outcome(entry.allowed),
+      violations: entry.violations.join('; '),
+    })),
+    summary: [
+      { label: 'Entries', value: entries.length },
+      {
+        label: 'Executed',
+        value: entries.filter((entry) => entry.action === 'TRANSFER_EXECUTED').length,
+      },
+      { label: 'Rejected', value: entries.filter((entry) => !entry.allowed).length },
+    ],
+  };
+};
+
+const kycAmlContent = async (): Promise<ReportContent> => {
+  const report = await complianceApi.getKYCAMLReport();
+  return {
+    entityColumn: 'kycLevel',
+    columns: [
+      { key: 'kycLevel', title: 'KYC Level' },
+      { key: 'identities', title: 'Identities', numeric: true },
+    ],
+    rows: Object.entries(report.byKycLevel).map(([kycLevel, identities]) => ({
+      kycLevel,
+      identities,
+    })),
+    summary: [
+      { label: 'Identities', value: report.total },
+      { label: 'Active', value: report.active },
+      { label: 'Revoked', value: report.revoked },
+      { label: 'Verified', value: report.verified },
+      { label: 'In restricted countries', value: report.restrictedCountryIdentities },
+    ],
+  };
+};
+
+/**
+ * Run a report against the compliance service
+ */
+export const generateRegulatoryReport = async (
+  parameters: ReportParameters,
+  options: {
+    title: string;
+    definitionId?: string | null;
+    trigger?: GeneratedReport['trigger'];
+    now?: number;
+  }
+): Promise<GeneratedReport> => {
+  const now = options.now ?? Date.now();
+  const resolved = resolvePeriod(parameters, now);
+
+  let content: ReportContent;
+  if (resolved.type === 'kyc_aml') {
+    content = await kycAmlContent();
+  } else {
+    const tokens = tokensInScope(await complianceApi.listTokenCompliance(), resolved);
+    content =
+      resolved.type === 'token_compliance'
+        ? await tokenComplianceContent(tokens, resolved)
+        : resolved.type === 'transfers'
+          ? await transferContent(tokens, resolved)
+          : await auditTrailContent(tokens, resolved);
+  }
+
+  return {
+    id: `report-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    definitionId: options.definitionId ?? null,
+    title: options.title,
+    trigger: options.trigger ?? 'manual',
+    generatedAt: new Date(now).toISOString(),
+    parameters: resolved,
+    ...content,
+  };
+};
+
+/**
+ * Rebuild a report from its history entry. Its period was resolved when it
+ * was first generated, so the rows cover the same window.
+ */
+export const regenerateReport = async (entry: ReportHistoryEntry): Promise<GeneratedReport> => ({
+  ...(await generateRegulatoryReport(entry.parameters, {
+    title: entry.title,
+    definitionId: entry.definitionId,
+    trigger: entry.trigger,
+    now: Date.parse(entry.generatedAt),
+  })),
+  id: entry.id,
+});
@@ -0,0 +1,124 @@
+/**
+ * Ricardian Contracts API Service
+ *
+ * REST API client for the /contracts/ricardian registry: document
+ * conversion, contract registration, signatures, activation and amendments
+ */
+
+import { API_BASE_URL } from '../utils/constants';
+import APIClient from './apiClient';
+import type {
+  AmendmentRequest,
+  ContractSignature,
+  RicardianContract,
+  RicardianContractDraft,
+} from '../types/ricardian';
+
+const RICARDIAN_PATH = '/api/v11/contracts/ricardian';
+
+class RicardianApiService {
+  private client: APIClient;
+
+  constructor(baseUrl: string = API_BASE_URL) {
+    this.client = new APIClient(baseUrl);
+  }
+
+  /**
+   * Get all registered contracts
+   */
+  async getContracts(): Promise<RicardianContract[]> {
+    return this.client.requestData<RicardianContract[]>(RICARDIAN_PATH);
+  }
+
+  /**
+   * Convert an uploaded legal document into a contract draft
+   */
+  async convertDocument(
+    file: File,
+    contractType: string,
+    jurisdiction: string
+  ): Promise<RicardianContractDraft> {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('contractType', contractType);
+    formData.append('jurisdiction', jurisdiction);
+
+    return this.client.requestData<RicardianContractDraft>(`${RICARDIAN_PATH}/upload`, {
+      method: 'POST',
+      body: formData,
+      timeout: 'longOperation',
+    });
+  }
+
+  /**
+   * Register a draft, pinned to the hash of its legal text and code
+   */
+  async createContract(
+    draft: RicardianContractDraft,
+    documentHash: string
+  ): Promise<RicardianContract> {
+    const { data } = await this.client.post<RicardianContract>(RICARDIAN_PATH, {
+      ...draft,
+      documentHash,
+    });
+    return data;
+  }
+
+  /**
+   * Record a party's signature; rejected if it was made over another document hash
+   */
+  async addSignature(contractId: string, signature: ContractSignature): Promise<RicardianContract> {
+    const { data } = await this.client.post<RicardianContract>(
+      `${RICARDIAN_PATH}/${contractId}/signatures`,
+      signature
+    );
+    return data;
+  }
+
+  /**
+   * Move a fully signed contract to active, once its signatures verified
+   */
+  async activateContract(contractId: string): Promise<RicardianContract> {
+    const { data } = await this.client.post<RicardianContract>(
+      `${RICARDIAN_PATH}/${contractId}/activate`
+    );
+    return data;
+  }
+
+  /**
+   * Propose new legal text and code against the contract's current version
+   */
+  async proposeAmendment(
+    contractId: string,
+    amendment: AmendmentRequest
+  ): Promise<RicardianContract> {
+    const { data } = await this.client.post<RicardianContract>(
+      `${RICARDIAN_PATH}/${contractId}/amendments`,
+      amendment
+    );
+    return data;
+  }
+
+  /**
+   * Accept a proposal: it becomes the next version and affected signatures are reset
+   */
+  async acceptAmendment(contractId: string, amendmentId: string): Promise<RicardianContract> {
+    const { data } = await this.client.post<RicardianContract>(
+      `${RICARDIAN_PATH}/${contractId}/amendments/${amendmentId}/accept`
+    );
+    return data;
+  }
+
+  /**
+   * Reject a proposal, leaving the current version in force
+   */
+  async rejectAmendment(contractId: string, amendmentId: string): Promise<RicardianContract> {
+    const { data } = await this.client.post<RicardianContract>(
+      `${RICARDIAN_PATH}/${contractId}/amendments/${amendmentId}/reject`
+    );
+    return data;
+  }
+}
+
+export const ricardianApi = new RicardianApiService();
+export default RicardianApiService;
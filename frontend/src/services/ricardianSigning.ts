@@ -0,0 +1,329 @@
+/**
+ * Ricardian Contract Signing
+ *
+ * Hashes a contract's canonical legal text and executable code, signs it on
+ * behalf of a party through a pluggable ContractSigner, and verifies the
+ * collected signatures with Web Crypto before a contract may go active.
+ * Each party's public key is enrolled when the party is added to a contract,
+ * and a signature only verifies against that key and the party's address.
+ *
+ * The local key signer keeps one ECDSA P-256 key pair per wallet address in
+ * localStorage and is meant for development only. Wallet or HSM adapters
+ * implement ContractSigner and are added with registerSigner().
+ */
+
+import type {
+  ContractParty,
+  ContractSignature,
+  RicardianContract,
+  SignatureAlgorithm,
+  SignatureVerification,
+} from '../types/ricardian';
+import { sha256, toHex, utf8 } from '../utils/hash';
+
+const LOCAL_KEYS_KEY = 'ricardian_signing_keys';
+const ECDSA_KEY = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const ECDSA_SIGN = { name: 'ECDSA', hash: 'SHA-256' } as const;
+
+export interface SignerOutput {
+  algorithm: SignatureAlgorithm;
+  publicKey: string;
+  signature: string;
+}
+
+/**
+ * Produces a party's signature over a signing payload
+ */
+export interface ContractSigner {
+  readonly id: string;
+  readonly label: string;
+  /** Base64 SPKI public key the signer will sign with for this party */
+  publicKey(party: ContractParty): Promise<string>;
+  sign(party: ContractParty, payload: string): Promise<SignerOutput>;
+}
+
+// ===== Encoding =====
+
+const toBase64 = (buffer: ArrayBuffer): string =>
+  btoa(String.fromCharCode(...new Uint8Array(buffer)));
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const encode = (value: string) => new TextEncoder().encode(value);
+
+// ===== Hashing =====
+
+/** Line endings and trailing whitespace don't change what a party agreed to */
+const normalizeText = (text: string): string =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .trim();
+
+/**
+ * The exact text a document hash covers
+ */
+export const canonicalDocument = (
+  contract: Pick<RicardianContract, 'legalText' | 'executableCode'>
+): string =>
+  JSON.stringify({
+    legalText: normalizeText(contract.legalText),
+    executableCode: normalizeText(contract.executableCode),
+  });
+
+/**
+ * SHA-256 of the canonical document, as hex
+ */
+export const hashDocument = (
+  contract: Pick<RicardianContract, 'legalText' | 'executableCode'>
+): string => toHex(sha256(utf8(canonicalDocument(contract))));
+
+/**
+ * What a party signs: the document hash bound to the contract, party and time
+ */
+export const signingPayload = (
+  contractId: string,
+  signature: Pick<ContractSignature, 'partyId' | 'signerAddress' | 'documentHash' | 'signedAt'>
+): string =>
+  JSON.stringify({
+    contractId,
+    documentHash: signature.documentHash,
+    partyId: signature.partyId,
+    signerAddress: signature.signerAddress,
+    signedAt: signature.signedAt,
+  });
+
+// ===== Signers =====
+
+interface StoredKeyPair {
+  privateKey: JsonWebKey;
+  publicKey: JsonWebKey;
+}
+
+/**
+ * Development signer holding a key pair per wallet address in localStorage
+ */
+export class LocalKeySigner implements ContractSigner {
+  readonly id = 'local-key';
+  readonly label = 'Local development key';
+
+  async publicKey(party: ContractParty): Promise<string> {
+    const { publicKey } = await this.keyPairFor(party.address);
+    return toBase64(await crypto.subtle.exportKey('spki', publicKey));
+  }
+
+  async sign(party: ContractParty, payload: string): Promise<SignerOutput> {
+    const { privateKey, publicKey } = await this.keyPairFor(party.address);
+    const signature = await crypto.subtle.sign(ECDSA_SIGN, privateKey, encode(payload));
+
+    return {
+      algorithm: 'ECDSA-P256-SHA256',
+      publicKey: toBase64(await crypto.subtle.exportKey('spki', publicKey)),
+      signature: toBase64(signature),
+    };
+  }
+
+  private async keyPairFor(address: string): Promise<CryptoKeyPair> {
+    const stored = this.readKeys();
+    const existing = stored[address.toLowerCase()];
+    if (existing) {
+      return {
+        privateKey: await crypto.subtle.importKey('jwk', existing.privateKey, ECDSA_KEY, true, [
+          'sign',
+        ]),
+        publicKey: await crypto.subtle.importKey('jwk', existing.publicKey, ECDSA_KEY, true, [
+          'verify',
+        ]),
+      };
+    }
+
+    const pair = await crypto.subtle.generateKey(ECDSA_KEY, true, ['sign', 'verify']);
+    const entry = {
+      privateKey: await crypto.subtle.exportKey('jwk', pair.privateKey),
+      publicKey: await crypto.subtle.exportKey('jwk', pair.publicKey),
+    };
+    // Re-read so keys generated for other addresses meanwhile aren't overwritten
+    localStorage.setItem(
+      LOCAL_KEYS_KEY,
+      JSON.stringify({ ...this.readKeys(), [address.toLowerCase()]: entry })
+    );
+    return pair;
+  }
+
+  private readKeys(): Record<string, StoredKeyPair> {
+    try {
+      return JSON.parse(localStorage.getItem(LOCAL_KEYS_KEY) ?? '{}');
+    } catch {
+      return {};
+    }
+  }
+}
+
+const signers = new Map<string, ContractSigner>();
+
+export const registerSigner = (signer: ContractSigner): void => {
+  signers.set(signer.id, signer);
+};
+
+export const getSigners = (): ContractSigner[] => [...signers.values()];
+
+registerSigner(new LocalKeySigner());
+
+// ===== Signing & Verification =====
+
+/**
+ * Record the public key the party will sign with, so signatures made with
+ * any other key are rejected
+ */
+export const enrollParty = async (
+  party: ContractParty,
+  signer: ContractSigner
+): Promise<ContractParty> => ({ ...party, publicKey: await signer.publicKey(party) });
+
+/**
+ * Sign the contract's current document hash as the given party
+ */
+export const signContract = async (
+  contract: RicardianContract,
+  party: ContractParty,
+  signer: ContractSigner
+): Promise<ContractSignature> => {
+  const unsigned = {
+    partyId: party.id,
+    signerAddress: party.address,
+    documentHash: hashDocument(contract),
+    signedAt: new Date().toISOString(),
+  };
+  const output = await signer.sign(party, signingPayload(contract.id, unsigned));
+
+  return { ...unsigned, ...output, signer: signer.id };
+};
+
+/**
+ * Check a signature against the contract's current text and the public key
+ * enrolled for the signing party
+ */
+export const verifySignature = async (
+  contract: RicardianContract,
+  signature: ContractSignature
+): Promise<SignatureVerification> => {
+  const fail = (reason: string) => ({ partyId: signature.partyId, valid: false, reason });
+  const party = contract.parties.find((candidate) => candidate.id === signature.partyId);
+
+  if (!party) {
+    return fail('Signer is not a party to the contract');
+  }
+  if (signature.signerAddress.toLowerCase() !== party.address.toLowerCase()) {
+    return fail("Signed from an address other than the party's");
+  }
+  if (!party.publicKey) {
+    return fail('Party has no enrolled public key');
+  }
+  if (signature.publicKey !== party.publicKey) {
+    return fail("Signed with a key other than the party's enrolled key");
+  }
+  if (signature.algorithm !== 'ECDSA-P256-SHA256') {
+    return fail(`Unsupported algorithm ${signature.algorithm}`);
+  }
+  if (signature.documentHash !== hashDocument(contract)) {
+    return fail('Document changed after signing');
+  }
+
+  try {
+    const publicKey = await crypto.subtle.importKey(
+      'spki',
+      fromBase64(party.publicKey),
+      ECDSA_KEY,
+      false,
+      ['verify']
+    );
+    const valid = await crypto.subtle.verify(
+      ECDSA_SIGN,
+      publicKey,
+      fromBase64(signature.signature),
+      encode(signingPayload(contract.id, signature))
+    );
+    return valid ? { partyId: signature.partyId, valid } : fail('Signature does not match');
+  } catch {
+    return fail('Malformed public key or signature');
+  }
+};
+
+/**
+ * Verify the latest signature of every party that must sign; a party
+ * without one fails verification
+ */
+export const verifyContractSignatures = (
+  contract: RicardianContract
+): Promise<SignatureVerification[]> =>
+  Promise.all(
+    contract.parties
+      .filter((party) => party.signatureRequired)
+      .map((party) => {
+        const signature = [...contract.signatures]
+          .reverse()
+          .find((candidate) => candidate.partyId === party.id);
+        return signature
+          ? verifySignature(contract, signature)
+          : { partyId: party.id, valid: false, reason: 'Not signed' };
+      })
+  );
+
+// ===== Certificate =====
+
+export interface SignatureCertificate {
+  contractId: string;
+  contractName: string;
+  jurisdiction: string;
+  status: RicardianContract['status'];
+  documentHash: string;
+  issuedAt: string;
+  signatures: Array<
+    ContractSignature & { partyName: string; role: string; valid: boolean; reason?: string }
+  >;
+}
+
+export const signatureCertificate = (
+  contract: RicardianContract,
+  verifications: SignatureVerification[]
+): SignatureCertificate => ({
+  contractId: contract.id,
+  contractName: contract.name,
+  jurisdiction: contract.jurisdiction,
+  status: contract.status,
+  documentHash: contract.documentHash,
+  issuedAt: new Date().toISOString(),
+  signatures: contract.signatures.map((signature) => {
+    const party = contract.parties.find((candidate) => candidate.id === signature.partyId);
+    const verification = verifications.find((entry) => entry.partyId === signature.partyId);
+    return {
+      ...signature,
+      partyName: party?.name ?? signature.partyId,
+      role: party?.role ?? 'UNKNOWN',
+      valid: verification?.valid ?? false,
+      reason: verification?.reason,
+    };
+  }),
+});
+
+/**
+ * Certificate as plain text lines, for the PDF export
+ */
+export const certificateLines = (certificate: SignatureCertificate): string[] => [
+  `Contract: ${certificate.contractName} (${certificate.contractId})`,
+  `Jurisdiction: ${certificate.jurisdiction}`,
+  `Status: ${certificate.status}`,
+  `Document SHA-256: ${certificate.documentHash}`,
+  `Issued: ${certificate.issuedAt}`,
+  '',
+  ...certificate.signatures.flatMap((signature) => [
+    `${signature.partyName} (${signature.role}) - ${signature.valid ? 'VALID' : `INVALID: ${signature.reason}`}`,
+    `  Address: ${signature.signerAddress}`,
+    `  Signed: ${signature.signedAt} with ${signature.algorithm} (${signature.signer})`,
+    `  Public key: ${signature.publicKey}`,
+    `  Signature: ${signature.signature}`,
+    '',
+  ]),
+];
@@ -0,0 +1,97 @@
+/**
+ * Ricardian Contract Versioning
+ *
+ * Term extraction, the version hash chain and term-level comparison of two
+ * versions. The registry builds the chain when an amendment is accepted; the
+ * portal recomputes it to show whether a contract's lineage still holds.
+ */
+
+import type { LineageCheck, RicardianContract, RicardianContractVersion } from '../types/ricardian';
+import { sha256, toHex, utf8 } from '../utils/hash';
+import { hashDocument } from './ricardianSigning';
+
+/** Numbered lines and "Section"/"Clause" headings count as terms */
+const TERM_PATTERN = /^\s*(\d+(\.\d+)*[.)]|(section|clause)\s+[\w.]+)/i;
+
+export interface TermChange {
+  /** Term number or heading, e.g. "3." or "Section 4" */
+  key: string;
+  type: 'added' | 'removed' | 'modified';
+  before?: string;
+  after?: string;
+}
+
+/**
+ * The terms of a legal text, one per numbered line or section heading
+ */
+export const extractTerms = (legalText: string): string[] =>
+  legalText
+    .split('\n')
+    .filter((line) => TERM_PATTERN.test(line))
+    .map((line) => line.trim());
+
+const termKey = (term: string): string => term.match(TERM_PATTERN)?.[1] ?? term;
+
+/**
+ * Hash linking a version to the one before it
+ */
+export const versionHash = (
+  version: Pick<RicardianContractVersion, 'version' | 'documentHash' | 'previousHash'>
+): string =>
+  toHex(
+    sha256(
+      utf8(
+        JSON.stringify({
+          version: version.version,
+          documentHash: version.documentHash,
+          previousHash: version.previousHash,
+        })
+      )
+    )
+  );
+
+/**
+ * Recompute every version's document hash and chain link
+ */
+export const verifyLineage = (contract: RicardianContract): LineageCheck[] => {
+  const checks: LineageCheck[] = [];
+  let previousHash: string | null = null;
+
+  for (const entry of contract.versions) {
+    const fail = (reason: string) => checks.push({ version: entry.version, valid: false, reason });
+
+    if (entry.documentHash !== hashDocument(entry)) {
+      fail('Text does not match its document hash');
+    } else if (entry.previousHash !== previousHash) {
+      fail('Not linked to the previous version');
+    } else if (entry.versionHash !== versionHash(entry)) {
+      fail('Version hash does not match');
+    } else {
+      checks.push({ version: entry.version, valid: true });
+    }
+    previousHash = entry.versionHash;
+  }
+  return checks;
+};
+
+/**
+ * Terms added, removed or reworded between two versions, matched by term number
+ */
+export const diffTerms = (before: string[], after: string[]): TermChange[] => {
+  const previous = new Map(before.map((term) => [termKey(term), term]));
+  const next = new Map(after.map((term) => [termKey(term), term]));
+  const changes: TermChange[] = [];
+
+  previous.forEach((term, key) => {
+    const replacement = next.get(key);
+    if (replacement === undefined) {
+      changes.push({ key, type: 'removed', before: term });
+    } else if (replacement !== term) {
+      changes.push({ key, type: 'modified', before: term, after: replacement });
+    }
+  });
+  next.forEach((term, key) => {
+    if (!previous.has(key)) changes.push({ key, type: 'added', after: term });
+  });
+  return changes;
+};
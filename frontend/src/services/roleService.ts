@@ -0,0 +1,107 @@
+/**
+ * Role Service
+ *
+ * Owns the roles and permission matrix edited in RoleManagement (kept in
+ * localStorage) and answers "may these roles do X in module Y":
+ * - A user's roles are matched to role definitions by name or id, ignoring
+ *   case, so session roles such as 'ADMIN' resolve to the 'Admin' role
+ * - A user holds an action if any of their roles grants it
+ * - Users with no matching role, and visitors who have not signed in, get
+ *   DEFAULT_PERMISSIONS
+ *
+ * Listeners are notified when the roles change, in this tab or another.
+ */
+
+import {
+  DEFAULT_PERMISSIONS,
+  DEFAULT_ROLES,
+  Permission,
+  PermissionAction,
+  Role,
+} from '../types/user';
+
+const ROLES_KEY = 'aurigraph_roles';
+
+const readRoles = (): Role[] => {
+  try {
+    const stored = localStorage.getItem(ROLES_KEY);
+    return stored ? (JSON.parse(stored) as Role[]) : DEFAULT_ROLES;
+  } catch {
+    return DEFAULT_ROLES;
+  }
+};
+
+/**
+ * Permission matrices of the role definitions matching the given user roles
+ */
+export const resolvePermissions = (
+  roles: Role[],
+  userRoles: string[] | null | undefined
+): Permission[][] => {
+  const wanted = new Set((userRoles ?? []).map((role) => role.toLowerCase()));
+  const matrices = roles
+    .filter((role) => wanted.has(role.name.toLowerCase()) || wanted.has(role.id.toLowerCase()))
+    .map((role) => role.permissions);
+  return matrices.length ? matrices : [DEFAULT_PERMISSIONS];
+};
+
+export const hasPermission = (
+  roles: Role[],
+  userRoles: string[] | null | undefined,
+  module: string,
+  action: PermissionAction
+): boolean =>
+  resolvePermissions(roles, userRoles).some((permissions) =>
+    permissions.some((permission) => permission.module === module && permission.actions[action])
+  );
+
+class RoleService {
+  private roles: Role[] = readRoles();
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', (event) => {
+        if (event.key !== ROLES_KEY) return;
+        this.roles = readRoles();
+        this.notify();
+      });
+    }
+  }
+
+  /**
+   * Current role definitions. The same array is returned until they change,
+   * so it can back useSyncExternalStore.
+   */
+  getRoles(): Role[] {
+    return this.roles;
+  }
+
+  saveRoles(roles: Role[]): void {
+    this.roles = roles;
+    try {
+      localStorage.setItem(ROLES_KEY, JSON.stringify(roles));
+    } catch (error) {
+      console.error('Failed to store roles:', error);
+    }
+    this.notify();
+  }
+
+  can(userRoles: string[] | null | undefined, module: string, action: PermissionAction): boolean {
+    return hasPermission(this.roles, userRoles, module, action);
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const roleService = new RoleService();
+export default RoleService;
@@ -1,6 +1,5 @@
-import axios from 'axios';
-
-const API_BASE_URL = process.env.REACT_APP_API_URL || 'https://dlt.aurigraph.io/api/v12';
+import APIClient from './apiClient';
+import { ACCOUNT_API_BASE_URL } from '../utils/constants';
 
 export interface Subscription {
   id: string;
@@ -22,39 +21,34 @@ export interface Plan {
   features: string[];
 }
 
-const apiClient = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-});
+export type PlanChangeDirection = 'upgrade' | 'downgrade';
 
-// Add authorization
-apiClient.interceptors.request.use((config) => {
-  const token = localStorage.getItem('authToken');
-  if (token) {
-    config.headers.Authorization = `Bearer ${token}`;
-  }
-  return config;
-});
+/**
+ * What switching plans now would cost, for the days left in the current period
+ */
+export interface ProrationPreview {
+  planId: string;
+  planName: string;
+  direction: PlanChangeDirection;
+  currentPrice: number;
+  newPrice: number;
+  daysRemaining: number;
+  periodDays: number;
+  unusedCredit: number; // refund for the unused part of the current plan
+  proratedCharge: number; // new plan's price for the rest of the period
+  amountDueToday: number;
+  creditBalance: number; // left over after a downgrade, applied to the next invoice
+  nextInvoiceAmount: number;
+  renewalDate: string;
+}
 
-// Handle errors
-apiClient.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('authToken');
-      window.location.href = '/login';
-    }
-    return Promise.reject(error);
-  }
-);
+const apiClient = new APIClient(ACCOUNT_API_BASE_URL);
 
 export const subscriptionApi = {
   // Get current subscription
   async getCurrentSubscription(): Promise<Subscription> {
     try {
-      const response = await apiClient.get('/subscription');
+      const response = await apiClient.get<Subscription>('/subscription');
       return response.data;
     } catch (error) {
       throw new Error(
@@ -68,7 +62,7 @@ export const subscriptionApi = {
   // Get available plans
   async getPlans(): Promise<Plan[]> {
     try {
-      const response = await apiClient.get('/plans');
+      const response = await apiClient.get<Plan[]>('/plans');
       return response.data;
     } catch (error) {
       throw new Error(
@@ -77,10 +71,22 @@ export const subscriptionApi = {
     }
   },
 
+  // Preview the proration of switching to another plan
+  async previewPlanChange(planId: string): Promise<ProrationPreview> {
+    try {
+      const response = await apiClient.get<ProrationPreview>('/subscription/preview', {
+        params: { planId },
+      });
+      return response.data;
+    } catch (error) {
+      throw new Error(error instanceof Error ? error.message : 'Failed to preview plan change');
+    }
+  },
+
   // Upgrade subscription
   async upgradeSubscription(planId: string): Promise<Subscription> {
     try {
-      const response = await apiClient.post('/subscription/upgrade', {
+      const response = await apiClient.post<Subscription>('/subscription/upgrade', {
         planId,
       });
       return response.data;
@@ -96,7 +102,7 @@ export const subscriptionApi = {
   // Downgrade subscription
   async downgradeSubscription(planId: string): Promise<Subscription> {
     try {
-      const response = await apiClient.post('/subscription/downgrade', {
+      const response = await apiClient.post<Subscription>('/subscription/downgrade', {
         planId,
       });
       return response.data;
@@ -112,7 +118,7 @@ export const subscriptionApi = {
   // Cancel subscription
   async cancelSubscription(reason?: string): Promise<Subscription> {
     try {
-      const response = await apiClient.post('/subscription/cancel', {
+      const response = await apiClient.post<Subscription>('/subscription/cancel', {
         reason,
       });
       return response.data;
@@ -128,7 +134,7 @@ export const subscriptionApi = {
   // Pause subscription
   async pauseSubscription(): Promise<Subscription> {
     try {
-      const response = await apiClient.post('/subscription/pause');
+      const response = await apiClient.post<Subscription>('/subscription/pause');
       return response.data;
     } catch (error) {
       throw new Error(
@@ -142,7 +148,7 @@ export const subscriptionApi = {
   // Resume subscription
   async resumeSubscription(): Promise<Subscription> {
     try {
-      const response = await apiClient.post('/subscription/resume');
+      const response = await apiClient.post<Subscription>('/subscription/resume');
       return response.data;
     } catch (error) {
       throw new Error(
@@ -156,7 +162,7 @@ export const subscriptionApi = {
   // Get billing history
   async getBillingHistory(limit: number = 50): Promise<any[]> {
     try {
-      const response = await apiClient.get('/billing/history', {
+      const response = await apiClient.get<unknown[]>('/billing/history', {
         params: { limit },
       });
       return response.data;
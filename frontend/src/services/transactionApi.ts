@@ -1,17 +1,14 @@
-import axios from 'axios';
+import APIClient from './apiClient';
+import { ACCOUNT_API_BASE_URL } from '../utils/constants';
+import type { ExplorerTransaction } from './openapi/aurigraphV11';
 
-const API_BASE_URL = process.env.REACT_APP_API_URL || 'https://dlt.aurigraph.io/api/v12';
-
-export interface Transaction {
-  id: string;
-  timestamp: string;
-  sender: string;
-  receiver: string;
-  amount: number;
-  fee: number;
-  status: 'confirmed' | 'pending' | 'failed';
-  blockNumber: number;
-  gasUsed: number;
+// The V12 history endpoint returns the V11 explorer transaction under its own field names
+export interface Transaction
+  extends Pick<ExplorerTransaction, 'id' | 'timestamp' | 'amount' | 'fee' | 'status'> {
+  sender: ExplorerTransaction['from'];
+  receiver: ExplorerTransaction['to'];
+  blockNumber: ExplorerTransaction['blockHeight'];
+  gasUsed: NonNullable<ExplorerTransaction['gasUsed']>;
 }
 
 interface QueryParams {
@@ -24,39 +21,13 @@ interface QueryParams {
   offset?: number;
 }
 
-const apiClient = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-});
-
-// Add authorization
-apiClient.interceptors.request.use((config) => {
-  const token = localStorage.getItem('authToken');
-  if (token) {
-    config.headers.Authorization = `Bearer ${token}`;
-  }
-  return config;
-});
-
-// Handle errors
-apiClient.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('authToken');
-      window.location.href = '/login';
-    }
-    return Promise.reject(error);
-  }
-);
+const apiClient = new APIClient(ACCOUNT_API_BASE_URL);
 
 export const transactionApi = {
   // Get transactions with filters
   async getTransactions(params?: QueryParams): Promise<Transaction[]> {
     try {
-      const response = await apiClient.get('/transactions', { params });
+      const response = await apiClient.get<Transaction[]>('/transactions', { params });
       return response.data;
     } catch (error) {
       throw new Error(
@@ -70,7 +41,7 @@ export const transactionApi = {
   // Get single transaction
   async getTransaction(txId: string): Promise<Transaction> {
     try {
-      const response = await apiClient.get(`/transactions/${txId}`);
+      const response = await apiClient.get<Transaction>(`/transactions/${txId}`);
       return response.data;
     } catch (error) {
       throw new Error(
@@ -84,7 +55,7 @@ export const transactionApi = {
   // Submit transaction
   async submitTransaction(txData: any): Promise<Transaction> {
     try {
-      const response = await apiClient.post('/transactions/submit', txData);
+      const response = await apiClient.post<Transaction>('/transactions/submit', txData);
       return response.data;
     } catch (error) {
       throw new Error(
@@ -98,7 +69,7 @@ export const transactionApi = {
   // Get transaction history for user
   async getUserTransactions(userId: string, params?: QueryParams): Promise<Transaction[]> {
     try {
-      const response = await apiClient.get(`/users/${userId}/transactions`, {
+      const response = await apiClient.get<Transaction[]>(`/users/${userId}/transactions`, {
         params,
       });
       return response.data;
@@ -114,7 +85,7 @@ export const transactionApi = {
   // Search transactions
   async searchTransactions(query: string, params?: any): Promise<Transaction[]> {
     try {
-      const response = await apiClient.get('/transactions/search', {
+      const response = await apiClient.get<Transaction[]>('/transactions/search', {
         params: { q: query, ...params },
       });
       return response.data;
@@ -156,9 +127,10 @@ export const transactionApi = {
   // Export transactions
   async exportTransactions(format: 'csv' | 'json' = 'csv', params?: QueryParams): Promise<Blob> {
     try {
-      const response = await apiClient.get('/transactions/export', {
+      const response = await apiClient.get<Blob>('/transactions/export', {
         params: { format, ...params },
         responseType: 'blob',
+        timeout: 'longOperation',
       });
       return response.data;
     } catch (error) {
@@ -10,15 +10,28 @@
  * - /ws/channels - Multi-channel updates
  * - /api/v11/live/stream - Unified live data stream
  *
+ * Modes:
+ * - Per-channel: one socket per channel (default)
+ * - Multiplexed: a single socket to /api/v11/live/stream; channels are
+ *   selected with subscribe/unsubscribe frames and messages are routed by
+ *   their `channel` field
+ *
  * Features:
  * - Auto-reconnection with exponential backoff
+ * - Per-channel sequence/messageId tracking with duplicate suppression and
+ *   gap events after reconnects or skipped sequence numbers
  * - Message type routing
  * - Subscription-based event handling
  * - Connection state tracking
  * - Graceful error handling
  */
 
-import { WS_URL, WS_RECONNECT_INTERVAL, WS_MAX_RECONNECT_ATTEMPTS } from '../utils/constants';
+import {
+  WS_URL,
+  WS_RECONNECT_INTERVAL,
+  WS_MAX_RECONNECT_ATTEMPTS,
+  WS_MULTIPLEXED,
+} from '../utils/constants';
 
 export type WebSocketChannel =
   | 'transactions'
@@ -38,7 +51,9 @@ export type WebSocketMessageType =
   | 'channel'
   | 'error'
   | 'connected'
-  | 'disconnected';
+  | 'disconnected'
+  | 'gap'
+  | 'backfill';
 
 export interface WebSocketMessage {
   type: WebSocketMessageType;
@@ -46,6 +61,24 @@ export interface WebSocketMessage {
   data: any;
   timestamp: string;
   messageId?: string;
+  sequence?: number;
+}
+
+/**
+ * Range of messages a channel missed, delivered as the data of a 'gap' event.
+ * Sequence bounds are present when the server numbers its messages and
+ * block height bounds when its messages carry a `blockHeight`;
+ * the time window is always present.
+ */
+export interface WebSocketGap {
+  channel: WebSocketChannel;
+  reason: 'reconnect' | 'sequence';
+  fromSequence?: number;
+  toSequence?: number;
+  fromBlockHeight?: number;
+  toBlockHeight?: number;
+  since: string;
+  until: string;
 }
 
 export interface WebSocketEvent {
@@ -55,8 +88,34 @@ export interface WebSocketEvent {
   timestamp: string;
 }
 
+/**
+ * Control frame sent over the multiplexed socket
+ */
+export interface WebSocketControlFrame {
+  action: 'subscribe' | 'unsubscribe';
+  channel: WebSocketChannel;
+  timestamp: string;
+}
+
+export interface WebSocketServiceOptions {
+  multiplexed?: boolean;
+}
+
 type MessageListener = (message: WebSocketEvent) => void;
 
+interface ChannelCursor {
+  sequence?: number;
+  blockHeight?: number;
+  lastMessageAt?: string;
+  recentMessageIds: Set<string>;
+}
+
+// In multiplexed mode the unified stream socket is stored under this key
+const MULTIPLEX_CHANNEL: WebSocketChannel = 'live-stream';
+
+// Message IDs remembered per channel to drop server replays after reconnect
+const RECENT_MESSAGE_ID_LIMIT = 500;
+
 class WebSocketService {
   private wsUrl: string;
   private connections: Map<WebSocketChannel, WebSocket> = new Map();
@@ -64,12 +123,45 @@ class WebSocketService {
   private reconnectAttempts: Map<WebSocketChannel, number> = new Map();
   private reconnectTimers: Map<WebSocketChannel, NodeJS.Timeout> = new Map();
   private connectionStates: Map<WebSocketChannel, 'connecting' | 'connected' | 'disconnected'> = new Map();
+  private multiplexed: boolean;
+  private channelRefCounts: Map<WebSocketChannel, number> = new Map();
+  private pendingConnections: Map<WebSocketChannel, Promise<void>> = new Map();
+  private cursors: Map<WebSocketChannel, ChannelCursor> = new Map();
+  private resyncPending: Set<WebSocketChannel> = new Set();
 
-  constructor(baseUrl: string = WS_URL) {
+  constructor(baseUrl: string = WS_URL, options: WebSocketServiceOptions = {}) {
     this.wsUrl = baseUrl;
+    this.multiplexed = options.multiplexed ?? WS_MULTIPLEXED;
     this.initializeChannels();
   }
 
+  /**
+   * Whether channels share the unified live stream socket
+   */
+  isMultiplexed(): boolean {
+    return this.multiplexed;
+  }
+
+  /**
+   * Switch between per-channel and multiplexed sockets.
+   * Open sockets are closed and re-opened in the new mode for every
+   * channel that still has subscribers.
+   */
+  setMultiplexed(enabled: boolean): void {
+    if (enabled === this.multiplexed) return;
+
+    const activeChannels = this.getSubscribedChannels();
+
+    this.disconnectAll();
+    this.multiplexed = enabled;
+
+    activeChannels.forEach((channel) => {
+      this.connect(channel).catch((error) => {
+        console.error(`Failed to reconnect ${channel} after mode switch:`, error);
+      });
+    });
+  }
+
   /**
    * Initialize all channel listeners maps
    */
@@ -95,6 +187,33 @@ class WebSocketService {
    * Connect to a WebSocket channel
    */
   async connect(channel: WebSocketChannel): Promise<void> {
+    if (this.multiplexed) {
+      await this.openSocket(MULTIPLEX_CHANNEL);
+      this.connectionStates.set(channel, 'connected');
+      return;
+    }
+
+    return this.openSocket(channel);
+  }
+
+  /**
+   * Open the socket stored under the given key
+   */
+  private openSocket(channel: WebSocketChannel): Promise<void> {
+    // Share an in-flight handshake instead of opening a second socket
+    const pending = this.pendingConnections.get(channel);
+    if (pending) {
+      return pending;
+    }
+
+    const connection = this.createSocket(channel).finally(() => {
+      this.pendingConnections.delete(channel);
+    });
+    this.pendingConnections.set(channel, connection);
+    return connection;
+  }
+
+  private createSocket(channel: WebSocketChannel): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
         // Check if already connected
@@ -119,12 +238,17 @@ class WebSocketService {
           console.log(`✅ WebSocket connected: ${channel}`);
           this.connectionStates.set(channel, 'connected');
           this.reconnectAttempts.set(channel, 0);
-          this.notifyListeners(channel, {
-            type: 'connected',
-            channel: channel,
-            data: { channel, timestamp: new Date().toISOString() },
-            timestamp: new Date().toISOString(),
-          });
+
+          if (this.multiplexed) {
+            // (Re-)establish every channel subscription on the shared socket
+            this.getSubscribedChannels().forEach((subscribed) => {
+              this.sendControlFrame('subscribe', subscribed);
+              this.connectionStates.set(subscribed, 'connected');
+              this.notifyConnectionChange(subscribed, 'connected');
+            });
+          } else {
+            this.notifyConnectionChange(channel, 'connected');
+          }
           resolve();
         };
 
@@ -145,17 +269,28 @@ class WebSocketService {
 
         ws.onclose = () => {
           console.log(`🔌 WebSocket closed: ${channel}`);
+          // Sockets closed via disconnect() are already removed from the map
+          const closedByClient = this.connections.get(channel) !== ws;
           this.connectionStates.set(channel, 'disconnected');
-          this.connections.delete(channel);
-          this.notifyListeners(channel, {
-            type: 'disconnected',
-            channel: channel,
-            data: { channel, timestamp: new Date().toISOString() },
-            timestamp: new Date().toISOString(),
-          });
+          if (!closedByClient) {
+            this.connections.delete(channel);
+          }
+
+          if (this.multiplexed) {
+            this.getSubscribedChannels().forEach((subscribed) => {
+              this.connectionStates.set(subscribed, 'disconnected');
+              this.notifyConnectionChange(subscribed, 'disconnected');
+              if (!closedByClient) this.resyncPending.add(subscribed);
+            });
+          } else {
+            this.notifyConnectionChange(channel, 'disconnected');
+            if (!closedByClient) this.resyncPending.add(channel);
+          }
 
           // Attempt to reconnect
-          this.attemptReconnect(channel);
+          if (!closedByClient) {
+            this.attemptReconnect(channel);
+          }
         };
 
         this.connections.set(channel, ws);
@@ -168,8 +303,28 @@ class WebSocketService {
 
   /**
    * Disconnect from a WebSocket channel
+   *
+   * In multiplexed mode the shared socket stays open while other channels
+   * are subscribed; the channel itself is released by its reference count.
    */
   disconnect(channel: WebSocketChannel): void {
+    if (this.multiplexed) {
+      if ((this.channelRefCounts.get(channel) || 0) === 0) {
+        this.connectionStates.set(channel, 'disconnected');
+      }
+      if (this.getSubscribedChannels().length === 0) {
+        this.closeSocket(MULTIPLEX_CHANNEL);
+      }
+      return;
+    }
+
+    this.closeSocket(channel);
+  }
+
+  /**
+   * Close the socket stored under the given key and stop reconnecting it
+   */
+  private closeSocket(channel: WebSocketChannel): void {
     const ws = this.connections.get(channel);
     if (ws) {
       ws.close();
@@ -191,7 +346,10 @@ class WebSocketService {
    */
   disconnectAll(): void {
     const channels: WebSocketChannel[] = Array.from(this.connections.keys());
-    channels.forEach((channel) => this.disconnect(channel));
+    channels.forEach((channel) => this.closeSocket(channel));
+    this.connectionStates.forEach((_state, channel) => {
+      this.connectionStates.set(channel, 'disconnected');
+    });
   }
 
   /**
@@ -202,16 +360,33 @@ class WebSocketService {
     if (listeners) {
       listeners.add(listener);
 
-      // Auto-connect if not already connected
-      if (!this.connections.has(channel)) {
+      const refCount = (this.channelRefCounts.get(channel) || 0) + 1;
+      this.channelRefCounts.set(channel, refCount);
+
+      if (this.multiplexed) {
+        // First subscriber for this channel: ask the server to start routing it
+        if (refCount === 1) {
+          this.sendControlFrame('subscribe', channel);
+        }
+        if (!this.connections.has(MULTIPLEX_CHANNEL)) {
+          this.connect(channel).catch((error) => {
+            console.error(`Failed to auto-connect to ${channel}:`, error);
+          });
+        }
+      } else if (!this.connections.has(channel)) {
+        // Auto-connect if not already connected
         this.connect(channel).catch((error) => {
           console.error(`Failed to auto-connect to ${channel}:`, error);
         });
       }
 
       // Return unsubscribe function
+      let subscribed = true;
       return () => {
+        if (!subscribed) return;
+        subscribed = false;
         listeners.delete(listener);
+        this.releaseChannel(channel);
       };
     }
 
@@ -240,7 +415,7 @@ class WebSocketService {
    * Send a message to a channel (if connected)
    */
   send(channel: WebSocketChannel, data: any): boolean {
-    const ws = this.connections.get(channel);
+    const ws = this.connections.get(this.multiplexed ? MULTIPLEX_CHANNEL : channel);
     if (ws && ws.readyState === WebSocket.OPEN) {
       ws.send(JSON.stringify({ channel, data, timestamp: new Date().toISOString() }));
       return true;
@@ -277,17 +452,163 @@ class WebSocketService {
     }
   }
 
+  /**
+   * Channels that currently have at least one subscriber
+   */
+  private getSubscribedChannels(): WebSocketChannel[] {
+    return Array.from(this.channelRefCounts.entries())
+      .filter(([, count]) => count > 0)
+      .map(([channel]) => channel);
+  }
+
+  /**
+   * Drop one reference to a channel; the last one tears the subscription down
+   */
+  private releaseChannel(channel: WebSocketChannel): void {
+    const refCount = Math.max(0, (this.channelRefCounts.get(channel) || 0) - 1);
+    this.channelRefCounts.set(channel, refCount);
+
+    if (refCount > 0 || !this.multiplexed) return;
+
+    this.sendControlFrame('unsubscribe', channel);
+    this.connectionStates.set(channel, 'disconnected');
+
+    if (this.getSubscribedChannels().length === 0) {
+      this.closeSocket(MULTIPLEX_CHANNEL);
+    }
+  }
+
+  /**
+   * Send a subscribe/unsubscribe frame on the multiplexed socket.
+   * Frames are skipped while the socket is closed; subscriptions are
+   * replayed when it opens.
+   */
+  private sendControlFrame(
+    action: WebSocketControlFrame['action'],
+    channel: WebSocketChannel
+  ): void {
+    const ws = this.connections.get(MULTIPLEX_CHANNEL);
+    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+
+    const frame: WebSocketControlFrame = {
+      action,
+      channel,
+      timestamp: new Date().toISOString(),
+    };
+    ws.send(JSON.stringify(frame));
+  }
+
+  /**
+   * Emit a connected/disconnected event to a channel's listeners
+   */
+  private notifyConnectionChange(
+    channel: WebSocketChannel,
+    type: 'connected' | 'disconnected'
+  ): void {
+    this.notifyListeners(channel, {
+      type,
+      channel,
+      data: { channel, timestamp: new Date().toISOString() },
+      timestamp: new Date().toISOString(),
+    });
+  }
+
   /**
    * Handle incoming WebSocket message
    */
   private handleMessage(channel: WebSocketChannel, message: WebSocketMessage): void {
+    const routedChannel = message.channel || channel;
+    if (!this.trackMessage(routedChannel, message)) {
+      return; // Duplicate of a message already delivered
+    }
+
     const event: WebSocketEvent = {
-      channel: message.channel || channel,
+      type: message.type,
+      channel: routedChannel,
       data: message.data,
       timestamp: message.timestamp || new Date().toISOString(),
     };
 
-    this.notifyListeners(message.channel || channel, event);
+    this.notifyListeners(routedChannel, event);
+  }
+
+  /**
+   * Record a message's sequence/messageId for its channel and emit a 'gap'
+   * event when messages were missed. Returns false for duplicates.
+   */
+  private trackMessage(channel: WebSocketChannel, message: WebSocketMessage): boolean {
+    let cursor = this.cursors.get(channel);
+    if (!cursor) {
+      cursor = { recentMessageIds: new Set() };
+      this.cursors.set(channel, cursor);
+    }
+
+    if (message.messageId) {
+      if (cursor.recentMessageIds.has(message.messageId)) {
+        return false;
+      }
+      cursor.recentMessageIds.add(message.messageId);
+      if (cursor.recentMessageIds.size > RECENT_MESSAGE_ID_LIMIT) {
+        const oldest = cursor.recentMessageIds.values().next().value;
+        if (oldest !== undefined) cursor.recentMessageIds.delete(oldest);
+      }
+    }
+
+    const receivedAt = message.timestamp || new Date().toISOString();
+    const resync = this.resyncPending.delete(channel);
+    const previous = cursor.sequence;
+    const sequence = typeof message.sequence === 'number' ? message.sequence : undefined;
+    const blockHeight =
+      typeof message.data?.blockHeight === 'number' ? message.data.blockHeight : undefined;
+    // The missed messages lie between the last block seen and this message's block
+    const blockHeights =
+      blockHeight !== undefined && cursor.blockHeight !== undefined
+        ? { fromBlockHeight: cursor.blockHeight, toBlockHeight: blockHeight }
+        : {};
+
+    if (sequence !== undefined && previous !== undefined && sequence > previous + 1) {
+      this.emitGap({
+        channel,
+        reason: resync ? 'reconnect' : 'sequence',
+        fromSequence: previous + 1,
+        toSequence: sequence - 1,
+        ...blockHeights,
+        since: cursor.lastMessageAt || receivedAt,
+        until: receivedAt,
+      });
+    } else if (
+      resync &&
+      (sequence === undefined || previous === undefined) &&
+      cursor.lastMessageAt
+    ) {
+      // No sequence numbers to compare: assume the whole outage was missed
+      this.emitGap({
+        channel,
+        reason: 'reconnect',
+        ...blockHeights,
+        since: cursor.lastMessageAt,
+        until: receivedAt,
+      });
+    }
+
+    if (sequence !== undefined) {
+      cursor.sequence = sequence;
+    }
+    if (blockHeight !== undefined) {
+      cursor.blockHeight = blockHeight;
+    }
+    cursor.lastMessageAt = receivedAt;
+    return true;
+  }
+
+  private emitGap(gap: WebSocketGap): void {
+    console.warn(`⚠️ Gap detected on ${gap.channel} (${gap.reason}) since ${gap.since}`);
+    this.notifyListeners(gap.channel, {
+      type: 'gap',
+      channel: gap.channel,
+      data: gap,
+      timestamp: new Date().toISOString(),
+    });
   }
 
   /**
@@ -320,9 +641,15 @@ class WebSocketService {
     }
 
     // Check if there are any listeners for this channel
-    const listeners = this.listeners.get(channel);
-    if (!listeners || listeners.size === 0) {
-      return; // No listeners, don't reconnect
+    if (this.multiplexed) {
+      if (this.getSubscribedChannels().length === 0) {
+        return; // No channel subscriptions, don't reconnect
+      }
+    } else {
+      const listeners = this.listeners.get(channel);
+      if (!listeners || listeners.size === 0) {
+        return; // No listeners, don't reconnect
+      }
     }
 
     // Calculate backoff delay
@@ -337,7 +664,7 @@ class WebSocketService {
 
     const timer = setTimeout(() => {
       this.reconnectAttempts.set(channel, attempts + 1);
-      this.connect(channel).catch((error) => {
+      this.openSocket(channel).catch((error) => {
         console.error(`Reconnection failed for ${channel}:`, error);
       });
     }, delay);
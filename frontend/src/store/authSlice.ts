@@ -137,6 +137,7 @@ const authSlice = createSlice({
         state.isAuthenticated = false;
         state.user = null;
         state.sessionId = null;
+        state.lastCheckTime = Date.now();
         state.error = null; // Don't show error for initial session check
       });
 
@@ -194,6 +194,16 @@ export const comprehensivePortalSlice = createSlice({
       }
     },
 
+    backfillTransactions: (state, action: PayloadAction<Transaction[]>) => {
+      const known = new Set(state.transactions.map((t) => t.hash));
+      const missing = action.payload.filter((t) => !known.has(t.hash));
+      if (missing.length === 0) return;
+
+      state.transactions = [...state.transactions, ...missing]
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+        .slice(0, 100);
+    },
+
     // ========================================================================
     // Block Explorer Actions
     // ========================================================================
@@ -222,6 +232,18 @@ export const comprehensivePortalSlice = createSlice({
       state.chainInfo.currentHeight = action.payload.height;
     },
 
+    backfillBlocks: (state, action: PayloadAction<Block[]>) => {
+      const known = new Set(state.blocks.map((b) => b.height));
+      const missing = action.payload.filter((b) => !known.has(b.height));
+      if (missing.length === 0) return;
+
+      state.blocks = [...state.blocks, ...missing].sort((a, b) => b.height - a.height).slice(0, 50);
+      state.chainInfo.currentHeight = Math.max(
+        state.chainInfo.currentHeight,
+        ...missing.map((b) => b.height)
+      );
+    },
+
     // ========================================================================
     // Validator Actions
     // ========================================================================
@@ -378,6 +400,7 @@ export const {
   setTransactionsError,
   setTransactionStats,
   addTransaction,
+  backfillTransactions,
 
   // Blocks
   setBlocks,
@@ -385,6 +408,7 @@ export const {
   setBlocksError,
   setChainInfo,
   addBlock,
+  backfillBlocks,
 
   // Validators
   setValidators,
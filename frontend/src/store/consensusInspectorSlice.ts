@@ -0,0 +1,233 @@
+/**
+ * Consensus Inspector Redux Slice
+ *
+ * Session history of HyperRAFT++ consensus built from the consensus stream:
+ * - Terms and the leader elected in each
+ * - PREPARE → COMMIT → FINALIZE timeline and vote collection per block height
+ * - Anomalies: election storms and stalled commits
+ */
+
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { ConsensusUpdate } from '../services/grpcStreamService';
+import type {
+  ConsensusAnomaly,
+  ConsensusInspectorState,
+  ConsensusRoundRecord,
+} from '../types/state';
+import { DEFAULT_CONSENSUS_INSPECTOR_STATE } from '../types/state';
+
+const MAX_ROUNDS = 500;
+const MAX_TERMS = 200;
+const MAX_ANOMALIES = 100;
+
+/** Elections within the window that make a storm */
+const ELECTION_STORM_ELECTIONS = 3;
+const ELECTION_STORM_WINDOW_MS = 60_000;
+/** A round not finalized this long after it started has stalled */
+const STALLED_COMMIT_MS = 5_000;
+/** Only the newest rounds can still be in flight */
+const STALL_CHECK_ROUNDS = 20;
+
+const addAnomaly = (state: ConsensusInspectorState, anomaly: Omit<ConsensusAnomaly, 'id'>) => {
+  state.anomalies.unshift({
+    ...anomaly,
+    id: `${anomaly.kind}-${anomaly.term}-${anomaly.blockHeight}-${anomaly.detectedAt}`,
+  });
+  if (state.anomalies.length > MAX_ANOMALIES) state.anomalies.length = MAX_ANOMALIES;
+};
+
+const flagStalledCommits = (state: ConsensusInspectorState, now: string) => {
+  const nowMs = Date.parse(now);
+  state.rounds.slice(0, STALL_CHECK_ROUNDS).forEach((round) => {
+    if (round.finalizedAt || round.stalled || round.interrupted) return;
+    const elapsedMs = nowMs - Date.parse(round.startedAt);
+    if (elapsedMs < STALLED_COMMIT_MS) return;
+
+    round.stalled = true;
+    const phase = round.phases[round.phases.length - 1]?.phase ?? 'PREPARE';
+    const votes =
+      round.votesReceived !== null && round.votesRequired !== null
+        ? ` with ${round.votesReceived}/${round.votesRequired} votes`
+        : '';
+    addAnomaly(state, {
+      kind: 'stalled_commit',
+      detectedAt: now,
+      term: round.term,
+      blockHeight: round.blockHeight,
+      message: `Block #${round.blockHeight} not finalized after ${(elapsedMs / 1000).toFixed(1)}s, stuck in ${phase}${votes}`,
+    });
+  });
+};
+
+/**
+ * Start a new term record when the term changes. After a gap in recording
+ * the term is noted without a previous leader: no election was seen.
+ */
+const recordTerm = (
+  state: ConsensusInspectorState,
+  update: ConsensusUpdate,
+  at: string,
+  resumed: boolean
+) => {
+  const latest = state.terms[0];
+  if (latest && !resumed && update.currentTerm === latest.term) return;
+  if (latest && resumed && update.currentTerm === latest.term) {
+    latest.leaderId = update.leaderId;
+    return;
+  }
+
+  state.terms.unshift({
+    term: update.currentTerm,
+    leaderId: update.leaderId,
+    previousLeaderId: latest && !resumed ? latest.leaderId : null,
+    startedAt: at,
+    rounds: 0,
+  });
+  if (state.terms.length > MAX_TERMS) state.terms.length = MAX_TERMS;
+
+  const windowStart = Date.parse(at) - ELECTION_STORM_WINDOW_MS;
+  const elections = state.terms.filter(
+    (term) => term.previousLeaderId !== null && Date.parse(term.startedAt) >= windowStart
+  );
+  const alreadyFlagged = state.anomalies.some(
+    (anomaly) => anomaly.kind === 'election_storm' && Date.parse(anomaly.detectedAt) >= windowStart
+  );
+  if (elections.length >= ELECTION_STORM_ELECTIONS && !alreadyFlagged) {
+    addAnomaly(state, {
+      kind: 'election_storm',
+      detectedAt: at,
+      term: update.currentTerm,
+      blockHeight: update.blockHeight,
+      message: `${elections.length} leader elections within ${ELECTION_STORM_WINDOW_MS / 1000}s (terms ${elections[elections.length - 1]?.term}–${update.currentTerm})`,
+    });
+  }
+};
+
+const recordRound = (state: ConsensusInspectorState, update: ConsensusUpdate, at: string) => {
+  const mark = {
+    phase: update.phase,
+    at,
+    votesReceived: update.votesReceived ?? null,
+    votesRequired: update.votesRequired ?? null,
+  };
+  const round = state.rounds.find(
+    (candidate) =>
+      candidate.blockHeight === update.blockHeight &&
+      state.recordingSince !== null &&
+      candidate.startedAt >= state.recordingSince
+  );
+
+  if (!round) {
+    const created: ConsensusRoundRecord = {
+      blockHeight: update.blockHeight,
+      term: update.currentTerm,
+      leaderId: update.leaderId,
+      phases: [mark],
+      votesReceived: mark.votesReceived,
+      votesRequired: mark.votesRequired,
+      participationRate: update.participationRate,
+      consensusLatencyMs: update.consensusLatency,
+      startedAt: at,
+      finalizedAt: update.phase === 'FINALIZE' ? at : null,
+      stalled: false,
+      interrupted: false,
+    };
+    state.rounds.unshift(created);
+    if (state.rounds.length > MAX_ROUNDS) state.rounds.length = MAX_ROUNDS;
+    const term = state.terms[0];
+    if (term?.term === update.currentTerm) term.rounds += 1;
+    return;
+  }
+
+  round.term = update.currentTerm;
+  round.leaderId = update.leaderId;
+  round.votesReceived = mark.votesReceived;
+  round.votesRequired = mark.votesRequired;
+  round.participationRate = update.participationRate;
+  round.consensusLatencyMs = update.consensusLatency;
+
+  const last = round.phases[round.phases.length - 1];
+  if (last?.phase === update.phase) {
+    // Same phase: keep when it started, track the latest vote count
+    last.votesReceived = mark.votesReceived;
+    last.votesRequired = mark.votesRequired;
+  } else {
+    round.phases.push(mark);
+  }
+  if (update.phase === 'FINALIZE' && !round.finalizedAt) round.finalizedAt = at;
+};
+
+/**
+ * Close rounds the update shows were committed: heights at or below the
+ * commit index, or older than the height now in progress. Their FINALIZE can
+ * fall between two samples, so it is taken to have happened by this update.
+ */
+const closeCommittedRounds = (
+  state: ConsensusInspectorState,
+  update: ConsensusUpdate,
+  at: string
+) => {
+  state.rounds.slice(0, STALL_CHECK_ROUNDS).forEach((round) => {
+    if (round.finalizedAt || round.stalled || round.interrupted) return;
+    const committed =
+      (update.commitIndex !== undefined && round.blockHeight <= update.commitIndex) ||
+      round.blockHeight < update.blockHeight;
+    if (committed) round.finalizedAt = at;
+  });
+};
+
+const initialState: ConsensusInspectorState = DEFAULT_CONSENSUS_INSPECTOR_STATE;
+
+const consensusInspectorSlice = createSlice({
+  name: 'consensusInspector',
+  initialState,
+  reducers: {
+    /**
+     * Record one consensus stream update, stamped with when it arrived
+     */
+    recordConsensusUpdate: {
+      reducer: (state, action: PayloadAction<{ update: ConsensusUpdate; receivedAt: string }>) => {
+        const { update, receivedAt } = action.payload;
+
+        // Nothing was recorded for a while (the inspector was closed or the
+        // page reloaded): rounds left open then were not watched to the end,
+        // and the stream may have moved to a different node or chain
+        const resumed =
+          !state.lastUpdateAt ||
+          Date.parse(receivedAt) - Date.parse(state.lastUpdateAt) > STALLED_COMMIT_MS;
+        if (resumed) {
+          state.rounds.forEach((round) => {
+            if (!round.finalizedAt && !round.stalled) round.interrupted = true;
+          });
+          state.recordingSince = receivedAt;
+        }
+
+        recordTerm(state, update, receivedAt, resumed);
+        recordRound(state, update, receivedAt);
+        closeCommittedRounds(state, update, receivedAt);
+        flagStalledCommits(state, receivedAt);
+        state.lastUpdateAt = receivedAt;
+      },
+      prepare: (update: ConsensusUpdate) => ({
+        payload: { update, receivedAt: new Date().toISOString() },
+      }),
+    },
+
+    /**
+     * Flag rounds that stalled while no updates were arriving
+     */
+    checkStalledCommits: {
+      reducer: (state, action: PayloadAction<string>) => {
+        flagStalledCommits(state, action.payload);
+      },
+      prepare: () => ({ payload: new Date().toISOString() }),
+    },
+
+    clearConsensusHistory: () => DEFAULT_CONSENSUS_INSPECTOR_STATE,
+  },
+});
+
+export const { recordConsensusUpdate, checkStalledCommits, clearConsensusHistory } =
+  consensusInspectorSlice.actions;
+
+export default consensusInspectorSlice.reducer;
@@ -20,6 +20,7 @@ import type {
 } from '../types/state';
 import type { NodeConfig } from '../types/nodes';
 import { DEFAULT_DEMO_APP_STATE } from '../types/state';
+import { appendToSeries } from '../utils/chartSeries';
 
 const initialState: DemoAppState = DEFAULT_DEMO_APP_STATE;
 
@@ -157,19 +158,19 @@ export const demoAppSlice = createSlice({
     // ========================================================================
 
     /**
-     * Append a new data point to a chart (with sliding window)
+     * Append a new data point to a chart, downsampling the history once it
+     * exceeds the point limit
      */
     appendChartData: (state, action: PayloadAction<AppendChartDataPayload>) => {
-      const { type, dataPoint } = action.payload;
-      const maxDataPoints = 60; // 60-point sliding window
-
-      // Add new data point
-      state.chartData[type].push(dataPoint);
+      const { type, dataPoint, maxDataPoints = 60 } = action.payload;
+      state.chartData[type] = appendToSeries(state.chartData[type], dataPoint, maxDataPoints);
+    },
 
-      // Remove oldest data point if exceeds max
-      if (state.chartData[type].length > maxDataPoints) {
-        state.chartData[type].shift();
-      }
+    /**
+     * Pause or resume live chart streaming
+     */
+    setChartsPaused: (state, action: PayloadAction<boolean>) => {
+      state.chartsPaused = action.payload;
     },
 
     /**
@@ -411,6 +412,7 @@ export const {
   appendChartData,
   clearChartData,
   clearChartDataByType,
+  setChartsPaused,
 
   // Dashboard state
   setActiveDashboard,
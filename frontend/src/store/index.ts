@@ -4,6 +4,8 @@
  * Configures Redux Toolkit store with:
  * - Demo app slice (nodes, metrics, charts, WebSocket state)
  * - Settings slice (theme, notifications, performance, external feeds)
+ * - Consensus inspector slice (session history of consensus rounds)
+ * - Report builder slice (saved regulatory reports and their history)
  * - Redux DevTools integration
  * - Redux Persist for state persistence
  * - TypeScript support
@@ -11,8 +13,10 @@
 
 import { configureStore, combineReducers } from '@reduxjs/toolkit';
 import {
+  createMigrate,
   persistStore,
   persistReducer,
+  type PersistedState,
   FLUSH,
   REHYDRATE,
   PAUSE,
@@ -21,13 +25,16 @@ import {
   REGISTER,
 } from 'redux-persist';
 import storage from 'redux-persist/lib/storage'; // defaults to localStorage
+import storageSession from 'redux-persist/lib/storage/session';
 
 import demoAppReducer from './demoAppSlice';
 import settingsReducer from './settingsSlice';
 import comprehensivePortalReducer from './comprehensivePortalSlice';
 import authReducer from './authSlice';
 import liveDataReducer from './liveDataSlice';
-import type { RootState } from '../types/state';
+import consensusInspectorReducer from './consensusInspectorSlice';
+import reportBuilderReducer, { toHistoryEntry } from './reportBuilderSlice';
+import type { GeneratedReport, RootState } from '../types/state';
 
 // ============================================================================
 // Redux Persist Configuration
@@ -74,6 +81,35 @@ const authPersistConfig = {
   whitelist: [], // Don't persist any auth state - verify session instead
 };
 
+/**
+ * Persist configuration for the consensus inspector
+ * - Keeps recorded rounds, terms and anomalies for the browser session
+ * - Uses sessionStorage so the history is gone once the tab is closed
+ */
+const consensusInspectorPersistConfig = {
+  key: 'consensusInspector',
+  storage: storageSession,
+};
+
+/**
+ * Persist configuration for the report builder
+ * - Keeps saved report definitions and the report history across visits
+ * - Generated rows stay in memory; they can outgrow the localStorage quota
+ */
+const reportBuilderPersistConfig = {
+  key: 'reportBuilder',
+  storage,
+  version: 1,
+  whitelist: ['definitions', 'history'],
+  migrate: createMigrate({
+    // Version 0 kept every generated report in full
+    1: (state) => {
+      const persisted = state as (PersistedState & { history?: GeneratedReport[] }) | undefined;
+      return persisted && { ...persisted, history: (persisted.history ?? []).map(toHistoryEntry) };
+    },
+  }),
+};
+
 // ============================================================================
 // Root Reducer
 // ============================================================================
@@ -84,6 +120,8 @@ const rootReducer = combineReducers({
   settings: persistReducer(settingsPersistConfig, settingsReducer),
   comprehensivePortal: comprehensivePortalReducer,
   liveData: liveDataReducer, // Real-time data - NOT persisted
+  consensusInspector: persistReducer(consensusInspectorPersistConfig, consensusInspectorReducer),
+  reportBuilder: persistReducer(reportBuilderPersistConfig, reportBuilderReducer),
 });
 
 // ============================================================================
@@ -12,19 +12,9 @@
  */
 
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { Transaction } from '../types/state';
 
-export interface Transaction {
-  id: string;
-  from: string;
-  to: string;
-  amount: number;
-  hash: string;
-  blockHeight: number;
-  timestamp: string;
-  status: 'pending' | 'confirmed' | 'failed';
-  fee: number;
-  gasUsed?: number;
-}
+export type { Transaction };
 
 export interface Validator {
   nodeId: string;
@@ -168,6 +158,17 @@ const liveDataSlice = createSlice({
       state.transactions = [];
     },
 
+    // Merge transactions recovered after a stream gap, newest first
+    backfillTransactions: (state, action: PayloadAction<Transaction[]>) => {
+      const known = new Set(state.transactions.flatMap((t) => [t.id, t.hash]));
+      const missing = action.payload.filter((t) => !known.has(t.id) && !known.has(t.hash));
+      if (missing.length === 0) return;
+
+      state.transactions = [...state.transactions, ...missing]
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+        .slice(0, state.maxTransactionsHistory);
+    },
+
     // Validator updates
     updateValidator: (state, action: PayloadAction<Validator>) => {
       const index = state.validators.findIndex((v) => v.nodeId === action.payload.nodeId);
@@ -253,6 +254,7 @@ export const {
   updateTransaction,
   addTransaction,
   clearTransactions,
+  backfillTransactions,
   updateValidator,
   setValidators,
   updateConsensusState,
@@ -0,0 +1,100 @@
+/**
+ * Report Builder Redux Slice
+ *
+ * Saved regulatory report definitions and the history of reports generated
+ * from them, whether run by hand or on their schedule. The history keeps
+ * metadata only; full reports stay in memory for the session.
+ */
+
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type {
+  GeneratedReport,
+  ReportBuilderState,
+  ReportDefinition,
+  ReportHistoryEntry,
+} from '../types/state';
+import { DEFAULT_REPORT_BUILDER_STATE } from '../types/state';
+
+/** Generated reports kept, oldest dropped first */
+const MAX_HISTORY = 50;
+
+export const toHistoryEntry = (report: GeneratedReport): ReportHistoryEntry => ({
+  id: report.id,
+  definitionId: report.definitionId,
+  title: report.title,
+  trigger: report.trigger,
+  generatedAt: report.generatedAt,
+  parameters: report.parameters,
+  entityColumn: report.entityColumn,
+  rowCount: report.rows.length,
+});
+
+const initialState: ReportBuilderState = DEFAULT_REPORT_BUILDER_STATE;
+
+const reportBuilderSlice = createSlice({
+  name: 'reportBuilder',
+  initialState,
+  reducers: {
+    /**
+     * Add a definition, or replace the saved one with the same id
+     */
+    saveReportDefinition: (state, action: PayloadAction<ReportDefinition>) => {
+      const index = state.definitions.findIndex(
+        (definition) => definition.id === action.payload.id
+      );
+      if (index >= 0) {
+        state.definitions[index] = action.payload;
+      } else {
+        state.definitions.push(action.payload);
+      }
+    },
+
+    deleteReportDefinition: (state, action: PayloadAction<string>) => {
+      state.definitions = state.definitions.filter(
+        (definition) => definition.id !== action.payload
+      );
+    },
+
+    /**
+     * Add a generated report to the history and stamp its definition's last run
+     */
+    recordGeneratedReport: (state, action: PayloadAction<GeneratedReport>) => {
+      const report = action.payload;
+      state.history.unshift(toHistoryEntry(report));
+      state.reports[report.id] = report;
+      state.history.splice(MAX_HISTORY).forEach((dropped) => delete state.reports[dropped.id]);
+      const definition = state.definitions.find((saved) => saved.id === report.definitionId);
+      if (definition) definition.lastRunAt = report.generatedAt;
+    },
+
+    /**
+     * Keep a report regenerated from its history entry for the rest of the session
+     */
+    cacheGeneratedReport: (state, action: PayloadAction<GeneratedReport>) => {
+      if (state.history.some((entry) => entry.id === action.payload.id)) {
+        state.reports[action.payload.id] = action.payload;
+      }
+    },
+
+    removeGeneratedReport: (state, action: PayloadAction<string>) => {
+      state.history = state.history.filter((report) => report.id !== action.payload);
+      delete state.reports[action.payload];
+    },
+
+    clearReportHistory: (state) => {
+      state.history = [];
+      state.reports = {};
+    },
+  },
+});
+
+export const {
+  saveReportDefinition,
+  deleteReportDefinition,
+  recordGeneratedReport,
+  cacheGeneratedReport,
+  removeGeneratedReport,
+  clearReportHistory,
+} = reportBuilderSlice.actions;
+
+export default reportBuilderSlice.reducer;
@@ -25,6 +25,7 @@ export const selectNodes = (state: RootState) => state.demoApp.nodes;
 export const selectSelectedNodeId = (state: RootState) => state.demoApp.selectedNodeId;
 export const selectSystemMetrics = (state: RootState) => state.demoApp.systemMetrics;
 export const selectChartData = (state: RootState) => state.demoApp.chartData;
+export const selectChartsPaused = (state: RootState) => state.demoApp.chartsPaused;
 export const selectActiveDashboard = (state: RootState) => state.demoApp.activeDashboard;
 export const selectSpatialViewMode = (state: RootState) => state.demoApp.spatialViewMode;
 export const selectIsLoadingNodes = (state: RootState) => state.demoApp.isLoadingNodes;
@@ -44,6 +45,18 @@ export const selectExternalFeeds = (state: RootState) => state.settings.external
 export const selectApiBaseUrl = (state: RootState) => state.settings.apiBaseUrl;
 export const selectWsUrl = (state: RootState) => state.settings.wsUrl;
 
+// Consensus Inspector State
+export const selectConsensusRounds = (state: RootState) => state.consensusInspector.rounds;
+export const selectConsensusTerms = (state: RootState) => state.consensusInspector.terms;
+export const selectConsensusAnomalies = (state: RootState) => state.consensusInspector.anomalies;
+export const selectConsensusLastUpdate = (state: RootState) =>
+  state.consensusInspector.lastUpdateAt;
+
+// Report Builder State
+export const selectReportDefinitions = (state: RootState) => state.reportBuilder.definitions;
+export const selectReportHistory = (state: RootState) => state.reportBuilder.history;
+export const selectGeneratedReports = (state: RootState) => state.reportBuilder.reports;
+
 // ============================================================================
 // Memoized Selectors (Derived state with caching)
 // ============================================================================
@@ -0,0 +1,39 @@
+import '@testing-library/jest-dom';
+import { afterAll, afterEach, beforeAll, vi } from 'vitest';
+import { mockDb } from '../mocks/db';
+import { stopLiveTicker } from '../mocks/handlers';
+import { server } from '../mocks/node';
+
+// jsdom has no matchMedia, which antd's responsive components subscribe to
+Object.defineProperty(window, 'matchMedia', {
+  writable: true,
+  value: vi.fn((query: string) => ({
+    matches: false,
+    media: query,
+    onchange: null,
+    addListener: vi.fn(),
+    removeListener: vi.fn(),
+    addEventListener: vi.fn(),
+    removeEventListener: vi.fn(),
+    dispatchEvent: vi.fn(),
+  })),
+});
+
+// Nor ResizeObserver, which the charts measure their containers with
+globalThis.ResizeObserver ??= class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+};
+
+// Every test runs against the mock backend; state written by one test is
+// dropped before the next
+beforeAll(() => server.listen({ onUnhandledRequest: 'bypass' }));
+afterEach(() => {
+  server.resetHandlers();
+  mockDb.reset();
+});
+afterAll(() => {
+  stopLiveTicker();
+  server.close();
+});
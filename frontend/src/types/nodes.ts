@@ -8,6 +8,12 @@
  * - Slim Node: External API integration
  */
 
+import type {
+  ExplorerTransaction,
+  ExplorerTransactionStatus,
+  ExplorerTransactionType,
+} from '../services/openapi/aurigraphV11';
+
 // ============================================================================
 // Core Node Types
 // ============================================================================
@@ -99,19 +105,15 @@ export interface ValidatorNodeConfig extends BaseNodeConfig {
 // Business Node
 // ============================================================================
 
-export type TransactionType = 'transfer' | 'mint' | 'burn' | 'stake' | 'unstake' | 'contract';
-export type TransactionStatus = 'pending' | 'processing' | 'confirmed' | 'failed';
+// Generated from openapi/aurigraph-v11.yaml (see services/openapi/aurigraphV11.ts)
+export type TransactionType = ExplorerTransactionType;
+// Business nodes also track transactions they are still processing locally
+export type TransactionStatus = ExplorerTransactionStatus | 'processing';
 
-export interface Transaction {
-  id: string;
-  type: TransactionType;
+export interface Transaction
+  extends Pick<ExplorerTransaction, 'id' | 'type' | 'from' | 'to' | 'amount' | 'fee' | 'timestamp'>,
+    Partial<Pick<ExplorerTransaction, 'blockHeight'>> {
   status: TransactionStatus;
-  from: string;
-  to: string;
-  amount: number;
-  fee: number;
-  timestamp: string;
-  blockHeight?: number;
 }
 
 export interface BusinessNodeConfig extends BaseNodeConfig {
@@ -0,0 +1,16 @@
+/**
+ * Registry Type Definitions
+ *
+ * Types for the Merkle tree registry
+ */
+
+export interface MerkleNode {
+  id: string;
+  hash: string;
+  value?: string;
+  type: 'root' | 'branch' | 'leaf';
+  children?: MerkleNode[];
+  verified: boolean;
+  timestamp?: string;
+  metadata?: Record<string, unknown>;
+}
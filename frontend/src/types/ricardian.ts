@@ -0,0 +1,145 @@
+/**
+ * Type Definitions for Ricardian Contracts
+ *
+ * Legal documents converted into executable contracts, the parties who sign
+ * them, the signatures collected against the document hash, and the
+ * hash-chained versions and amendments a contract goes through
+ */
+
+export type RicardianContractStatus =
+  | 'draft'
+  | 'pending_signatures'
+  | 'active'
+  | 'executed'
+  | 'terminated';
+
+export interface ContractParty {
+  id: string;
+  name: string;
+  role: string; // BUYER, SELLER, VALIDATOR, WITNESS
+  address: string;
+  email?: string;
+  kycVerified: boolean;
+  signatureRequired: boolean;
+  signed: boolean;
+  signedAt?: string;
+  /** Base64 SPKI public key enrolled for the party; only signatures made with it verify */
+  publicKey?: string;
+}
+
+/** Algorithms a signature can be verified with in the browser */
+export type SignatureAlgorithm = 'ECDSA-P256-SHA256';
+
+export interface ContractSignature {
+  partyId: string;
+  signerAddress: string;
+  /** Signer that produced it, e.g. 'local-key' */
+  signer: string;
+  algorithm: SignatureAlgorithm;
+  /** Base64 SPKI public key */
+  publicKey: string;
+  /** SHA-256 of the canonical legal text and executable code at signing time */
+  documentHash: string;
+  /** Base64 signature over the signing payload */
+  signature: string;
+  signedAt: string;
+}
+
+/**
+ * One revision of a contract's text. versionHash covers the version number,
+ * its document hash and the previous version's versionHash, so the versions
+ * form a chain back to the original upload.
+ */
+export interface RicardianContractVersion {
+  version: number;
+  legalText: string;
+  executableCode: string;
+  terms: string[];
+  documentHash: string;
+  /** versionHash of the version this one amends; null for the first version */
+  previousHash: string | null;
+  versionHash: string;
+  /** Amendment that produced this version */
+  amendmentId?: string;
+  summary: string;
+  /** Signatures collected while this version was current */
+  signatures: ContractSignature[];
+  createdAt: string;
+}
+
+export type AmendmentStatus = 'proposed' | 'accepted' | 'rejected' | 'superseded';
+
+export interface AmendmentProposal {
+  id: string;
+  /** Version the proposal edits; it can only be accepted while that version is current */
+  baseVersion: number;
+  proposedBy: string; // party id
+  summary: string;
+  legalText: string;
+  executableCode: string;
+  status: AmendmentStatus;
+  /** Parties whose signatures accepting the amendment resets */
+  affectedParties: string[];
+  createdAt: string;
+  resolvedAt?: string;
+}
+
+export interface RicardianContract {
+  id: string;
+  name: string;
+  type: string;
+  status: RicardianContractStatus;
+  legalText: string;
+  executableCode: string;
+  jurisdiction: string;
+  parties: ContractParty[];
+  terms: string[];
+  documentHash: string;
+  signatures: ContractSignature[];
+  /** Current version number, the last entry of versions */
+  version: number;
+  versions: RicardianContractVersion[];
+  amendments: AmendmentProposal[];
+  uploadedDocument?: {
+    fileName: string;
+    fileSize: number;
+    uploadedAt: string;
+  };
+  enforceabilityScore: number;
+  riskAssessment: string;
+  createdAt: string;
+  activatedAt?: string;
+}
+
+/** Result of converting an uploaded document, before it is registered */
+export type RicardianContractDraft = Omit<
+  RicardianContract,
+  | 'id'
+  | 'status'
+  | 'documentHash'
+  | 'signatures'
+  | 'version'
+  | 'versions'
+  | 'amendments'
+  | 'createdAt'
+  | 'activatedAt'
+>;
+
+export interface AmendmentRequest {
+  proposedBy: string;
+  summary: string;
+  legalText: string;
+  executableCode: string;
+}
+
+export interface LineageCheck {
+  version: number;
+  valid: boolean;
+  reason?: string;
+}
+
+export interface SignatureVerification {
+  partyId: string;
+  valid: boolean;
+  reason?: string;
+}
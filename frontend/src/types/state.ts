@@ -13,6 +13,8 @@ import type {
   NetworkStats,
 } from './api';
 import type { NetworkConfig } from './dataSources';
+import type { ConsensusUpdate } from '../services/grpcStreamService';
+import type { ExplorerTransaction } from '../services/openapi/aurigraphV11';
 
 // ============================================================================
 // Demo App State (demoAppSlice)
@@ -50,8 +52,9 @@ export interface DemoAppState {
   // System Metrics
   systemMetrics: SystemMetrics;
 
-  // Chart Data (60-point sliding window)
+  // Chart Data (downsampled once it exceeds the point limit)
   chartData: ChartData;
+  chartsPaused: boolean;
 
   // Dashboard State
   activeDashboard: 'config' | 'spatial' | 'vizor';
@@ -152,18 +155,20 @@ export interface AuthState {
 // Live Data State (liveDataSlice)
 // ============================================================================
 
-export interface Transaction {
-  id: string;
-  from: string;
-  to: string;
-  amount: number;
-  hash: string;
-  blockHeight: number;
-  timestamp: string;
-  status: 'pending' | 'confirmed' | 'failed';
-  fee: number;
-  gasUsed?: number;
-}
+// Generated from openapi/aurigraph-v11.yaml (see services/openapi/aurigraphV11.ts)
+export type Transaction = Pick<
+  ExplorerTransaction,
+  | 'id'
+  | 'from'
+  | 'to'
+  | 'amount'
+  | 'hash'
+  | 'blockHeight'
+  | 'timestamp'
+  | 'status'
+  | 'fee'
+  | 'gasUsed'
+>;
 
 export interface Validator {
   nodeId: string;
@@ -246,6 +251,143 @@ export interface LiveDataState {
   lastUpdate: string;
 }
 
+// ============================================================================
+// Consensus Inspector State (consensusInspectorSlice)
+// ============================================================================
+
+export type ConsensusPhase = ConsensusUpdate['phase'];
+
+export interface ConsensusPhaseMark {
+  phase: ConsensusPhase;
+  /** ISO 8601, when the phase was first seen */
+  at: string;
+  votesReceived: number | null;
+  votesRequired: number | null;
+}
+
+/** One block height's pass through PREPARE, COMMIT and FINALIZE */
+export interface ConsensusRoundRecord {
+  blockHeight: number;
+  term: number;
+  leaderId: string;
+  phases: ConsensusPhaseMark[];
+  votesReceived: number | null;
+  votesRequired: number | null;
+  participationRate: number;
+  consensusLatencyMs: number;
+  startedAt: string;
+  finalizedAt: string | null;
+  /** Flagged as a stalled commit */
+  stalled: boolean;
+  /** Recording stopped before the round finalized */
+  interrupted: boolean;
+}
+
+export interface ConsensusTermRecord {
+  term: number;
+  leaderId: string;
+  previousLeaderId: string | null;
+  startedAt: string;
+  /** Block heights that started under this term */
+  rounds: number;
+}
+
+export type ConsensusAnomalyKind = 'election_storm' | 'stalled_commit';
+
+export interface ConsensusAnomaly {
+  id: string;
+  kind: ConsensusAnomalyKind;
+  detectedAt: string;
+  term: number;
+  blockHeight: number;
+  message: string;
+}
+
+export interface ConsensusInspectorState {
+  /** Newest first */
+  rounds: ConsensusRoundRecord[];
+  /** Newest first */
+  terms: ConsensusTermRecord[];
+  /** Newest first */
+  anomalies: ConsensusAnomaly[];
+  lastUpdateAt: string | null;
+  /** Start of the current unbroken stretch of updates */
+  recordingSince: string | null;
+}
+
+// ============================================================================
+// Report Builder State (reportBuilderSlice)
+// ============================================================================
+
+export type RegulatoryReportType = 'token_compliance' | 'transfers' | 'audit_trail' | 'kyc_aml';
+
+export type ReportFormat = 'pdf' | 'csv' | 'xbrl' | 'json';
+
+/** What a report covers; empty token ids means every token in scope */
+export interface ReportParameters {
+  type: RegulatoryReportType;
+  tokenIds: string[];
+  jurisdiction: string | null;
+  /** Fixed period, ISO 8601 */
+  startDate: string | null;
+  endDate: string | null;
+  /** Rolling period ending at each run; used instead of the fixed dates when set */
+  lookbackDays: number | null;
+}
+
+export interface ReportSchedule {
+  intervalMinutes: number;
+  /** Downloaded automatically after each scheduled run */
+  format: ReportFormat | null;
+}
+
+export interface ReportDefinition extends ReportParameters {
+  id: string;
+  name: string;
+  schedule: ReportSchedule | null;
+  createdAt: string;
+  lastRunAt: string | null;
+}
+
+export interface ReportColumn {
+  key: string;
+  title: string;
+  numeric?: boolean;
+}
+
+export type ReportRow = Record<string, string | number>;
+
+export interface GeneratedReport {
+  id: string;
+  definitionId: string | null;
+  title: string;
+  trigger: 'manual' | 'scheduled';
+  generatedAt: string;
+  /** Parameters with the period resolved to fixed dates */
+  parameters: ReportParameters;
+  columns: ReportColumn[];
+  rows: ReportRow[];
+  /** Column identifying what each row reports on (token, entry, KYC level) */
+  entityColumn: string;
+  summary: { label: string; value: string | number }[];
+}
+
+/**
+ * What the history keeps of a generated report. Rows are held in memory for
+ * the session only and regenerated from the parameters after a reload.
+ */
+export type ReportHistoryEntry = Omit<GeneratedReport, 'columns' | 'rows' | 'summary'> & {
+  rowCount: number;
+};
+
+export interface ReportBuilderState {
+  definitions: ReportDefinition[];
+  /** Newest first */
+  history: ReportHistoryEntry[];
+  /** Full reports generated this session, by id; not persisted */
+  reports: Record<string, GeneratedReport>;
+}
+
 // ============================================================================
 // Root State
 // ============================================================================
@@ -255,6 +397,8 @@ export interface RootState {
   demoApp: DemoAppState;
   settings: SettingsState;
   liveData: LiveDataState;
+  consensusInspector: ConsensusInspectorState;
+  reportBuilder: ReportBuilderState;
 }
 
 // ============================================================================
@@ -293,6 +437,8 @@ export interface UpdateSystemMetricsPayload {
 export interface AppendChartDataPayload {
   type: 'tps' | 'latency' | 'consensus' | 'transactions';
   dataPoint: ChartDataPoint;
+  /** Point limit before the series is downsampled (defaults to 60) */
+  maxDataPoints?: number;
 }
 
 // ============================================================================
@@ -426,6 +572,7 @@ export const DEFAULT_DEMO_APP_STATE: DemoAppState = {
     consensus: [],
     transactions: [],
   },
+  chartsPaused: false,
   activeDashboard: 'config',
   spatialViewMode: '2d',
   isLoadingNodes: false,
@@ -438,6 +585,20 @@ export const DEFAULT_DEMO_APP_STATE: DemoAppState = {
   demoMode: true,
 };
 
+export const DEFAULT_CONSENSUS_INSPECTOR_STATE: ConsensusInspectorState = {
+  rounds: [],
+  terms: [],
+  anomalies: [],
+  lastUpdateAt: null,
+  recordingSince: null,
+};
+
+export const DEFAULT_REPORT_BUILDER_STATE: ReportBuilderState = {
+  definitions: [],
+  history: [],
+  reports: {},
+};
+
 export const DEFAULT_SETTINGS_STATE: SettingsState = {
   theme: {
     mode: 'dark',
@@ -0,0 +1,40 @@
+/**
+ * External API Tokenization Type Definitions
+ *
+ * Types for external API sources and the data they tokenize into channels
+ */
+
+export interface APISource {
+  id: string;
+  name: string;
+  url: string;
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  headers: Record<string, string>;
+  channel: string;
+  status: 'active' | 'paused' | 'error';
+  pollInterval: number; // seconds
+  lastFetch?: string;
+  totalTokenized: number;
+  errorCount: number;
+}
+
+export interface TokenizedTransaction {
+  id: string;
+  sourceId: string;
+  sourceName: string;
+  channel: string;
+  timestamp: string;
+  dataHash: string;
+  size: number;
+  status: 'pending' | 'stored' | 'failed';
+  leveldbPath?: string;
+}
+
+export interface TokenizationChannelStats {
+  channelId: string;
+  name: string;
+  transactionCount: number;
+  totalSize: number;
+  lastUpdated: string;
+  status: 'active' | 'inactive';
+}
@@ -39,6 +39,32 @@ export interface Permission {
   };
 }
 
+export type PermissionAction = keyof Permission['actions'];
+
+export type PermissionModule =
+  | 'Dashboard'
+  | 'Transactions'
+  | 'Blocks'
+  | 'Validators'
+  | 'Smart Contracts'
+  | 'Tokenization'
+  | 'Bridge'
+  | 'Security'
+  | 'Monitoring'
+  | 'DevOps';
+
+/**
+ * A single module/action pair from the permission matrix
+ */
+export interface RequiredPermission {
+  module: PermissionModule;
+  action: PermissionAction;
+}
+
+/**
+ * Matrix used when no role grants anything more, including for visitors who
+ * have not signed in: read-only access to everything but DevOps
+ */
 export const DEFAULT_PERMISSIONS: Permission[] = [
   {
     module: 'Dashboard',
@@ -82,61 +108,11 @@ export const DEFAULT_PERMISSIONS: Permission[] = [
   },
 ];
 
-// Mock data for development
-export const mockUsers: User[] = [
-  {
-    id: '1',
-    username: 'admin',
-    email: 'admin@aurigraph.io',
-    role: 'Admin',
-    status: 'active',
-    createdAt: '2025-10-01',
-    lastLogin: '2025-10-16 09:30:00',
-    department: 'Engineering',
-  },
-  {
-    id: '2',
-    username: 'john.doe',
-    email: 'john.doe@aurigraph.io',
-    role: 'User',
-    status: 'active',
-    createdAt: '2025-10-05',
-    lastLogin: '2025-10-15 14:22:00',
-    department: 'Operations',
-  },
-  {
-    id: '3',
-    username: 'jane.smith',
-    email: 'jane.smith@aurigraph.io',
-    role: 'DevOps',
-    status: 'active',
-    createdAt: '2025-10-08',
-    lastLogin: '2025-10-16 08:15:00',
-    department: 'DevOps',
-  },
-  {
-    id: '4',
-    username: 'bob.wilson',
-    email: 'bob.wilson@aurigraph.io',
-    role: 'User',
-    status: 'active',
-    createdAt: '2025-10-10',
-    lastLogin: '2025-10-14 16:45:00',
-    department: 'Finance',
-  },
-  {
-    id: '5',
-    username: 'alice.johnson',
-    email: 'alice.johnson@aurigraph.io',
-    role: 'User',
-    status: 'inactive',
-    createdAt: '2025-10-03',
-    lastLogin: '2025-10-10 11:20:00',
-    department: 'Legal',
-  },
-];
-
-export const mockRoles: Role[] = [
+/**
+ * Built-in roles and their permission matrices, used until roles are edited
+ * in Role Management
+ */
+export const DEFAULT_ROLES: Role[] = [
   {
     id: '1',
     name: 'Admin',
@@ -15,10 +15,56 @@ export interface ApiError {
   type: 'network' | 'server' | 'client' | 'not-found' | 'timeout' | 'unknown';
 }
 
+/**
+ * Error thrown by the shared API client
+ *
+ * Carries the parsed ApiError in `info` and the decoded response body, if any,
+ * so callers can branch on status or type without re-parsing the message.
+ */
+export class ApiRequestError extends Error {
+  readonly info: ApiError;
+  readonly body?: unknown;
+
+  constructor(message: string, info: ApiError, body?: unknown) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.info = info;
+    this.body = body;
+  }
+
+  get status(): number {
+    return this.info.status;
+  }
+
+  /**
+   * Wrap a raw fetch failure, preferring the server's own message for client errors
+   */
+  static from(error: unknown, body?: unknown): ApiRequestError {
+    if (error instanceof ApiRequestError) return error;
+
+    const info = parseApiError(error);
+    const serverMessage =
+      body && typeof body === 'object' && 'message' in body && typeof body.message === 'string'
+        ? body.message
+        : undefined;
+    if (serverMessage && info.type === 'client') {
+      info.details = serverMessage;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    return new ApiRequestError(message, info, body);
+  }
+}
+
 /**
  * Parse API error and return structured error information
  */
 export const parseApiError = (error: unknown): ApiError => {
+  // Already parsed by the API client
+  if (error instanceof ApiRequestError) {
+    return error.info;
+  }
+
   // Network error
   if (error instanceof TypeError && error.message.includes('fetch')) {
     return {
@@ -36,6 +82,18 @@ export const parseApiError = (error: unknown): ApiError => {
 
     // Parse HTTP status from error message
     const statusMatch = errorMessage.match(/HTTP (\d+):/);
+
+    // Timeout (checked before the status fallback, which would report it as a 500)
+    if (!statusMatch && /timeout/i.test(errorMessage)) {
+      return {
+        status: 408,
+        message: 'Request timeout',
+        details: 'The request took too long to complete. Please try again.',
+        retryable: true,
+        type: 'timeout',
+      };
+    }
+
     const status = statusMatch && statusMatch[1] ? parseInt(statusMatch[1], 10) : 500;
 
     // 404 - Not Found
@@ -70,17 +128,6 @@ export const parseApiError = (error: unknown): ApiError => {
         type: 'client',
       };
     }
-
-    // Timeout
-    if (errorMessage.includes('timeout') || errorMessage.includes('Timeout')) {
-      return {
-        status: 408,
-        message: 'Request timeout',
-        details: 'The request took too long to complete. Please try again.',
-        retryable: true,
-        type: 'timeout',
-      };
-    }
   }
 
   // Unknown error
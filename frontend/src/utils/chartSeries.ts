@@ -0,0 +1,69 @@
+/**
+ * Chart Series Helpers
+ *
+ * Downsampling and summary statistics for time-series chart data.
+ */
+
+import type { ChartDataPoint } from '../types/state';
+
+export interface SeriesStats {
+  min: number;
+  avg: number;
+  max: number;
+}
+
+// Points merged into each bucket; its lowest and highest points are kept
+const DOWNSAMPLE_BUCKET_SIZE = 4;
+
+/**
+ * Halve the resolution of a series by keeping the lowest and highest point
+ * of every bucket, in time order, so spikes and dips survive repeated
+ * downsampling. Trailing points that don't fill a bucket are kept as-is, so
+ * the series still ends on the latest sample.
+ */
+export const downsampleSeries = (points: ChartDataPoint[]): ChartDataPoint[] => {
+  const kept: ChartDataPoint[] = [];
+  const buckets = Math.floor(points.length / DOWNSAMPLE_BUCKET_SIZE);
+  for (let bucket = 0; bucket < buckets; bucket++) {
+    const start = bucket * DOWNSAMPLE_BUCKET_SIZE;
+    const end = start + DOWNSAMPLE_BUCKET_SIZE - 1;
+    let low = start;
+    let high = start;
+    for (let index = start + 1; index <= end; index++) {
+      const value = (points[index] as ChartDataPoint).value;
+      if (value < (points[low] as ChartDataPoint).value) low = index;
+      if (value > (points[high] as ChartDataPoint).value) high = index;
+    }
+    // A flat bucket has no extremes; keep its ends
+    if (low === high) high = end;
+    kept.push(points[Math.min(low, high)] as ChartDataPoint);
+    kept.push(points[Math.max(low, high)] as ChartDataPoint);
+  }
+  kept.push(...points.slice(buckets * DOWNSAMPLE_BUCKET_SIZE));
+  return kept;
+};
+
+/**
+ * Append a point, downsampling the history whenever it grows past
+ * `maxPoints` so the series keeps its full time span
+ */
+export const appendToSeries = (
+  points: ChartDataPoint[],
+  point: ChartDataPoint,
+  maxPoints: number
+): ChartDataPoint[] => {
+  const next = [...points, point];
+  return next.length > maxPoints ? downsampleSeries(next) : next;
+};
+
+export const seriesStats = (values: number[]): SeriesStats | null => {
+  if (values.length === 0) return null;
+  return {
+    min: Math.min(...values),
+    avg: values.reduce((sum, value) => sum + value, 0) / values.length,
+    max: Math.max(...values),
+  };
+};
+
+/** Axis and tooltip label for an epoch-millisecond time */
+export const formatChartTime = (time: number): string => new Date(time).toLocaleTimeString();
@@ -7,6 +7,9 @@
 // Backend API is proxied through NGINX at /api/v11/
 // Uses relative paths - works on both production and development
 export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
+// Account platform API (apps, subscriptions, billing, analytics) - V12
+export const ACCOUNT_API_BASE_URL =
+  import.meta.env.VITE_ACCOUNT_API_URL || 'https://dlt.aurigraph.io/api/v12';
 export const WS_URL = import.meta.env.VITE_WS_URL || `wss://${window.location.host}`;
 
 // Performance Settings
@@ -17,6 +20,8 @@ export const MAX_CHART_DATA_POINTS = 60;
 // WebSocket Settings
 export const WS_RECONNECT_INTERVAL = 5000; // ms
 export const WS_MAX_RECONNECT_ATTEMPTS = 10;
+// Share one socket (/api/v11/live/stream) across all channels
+export const WS_MULTIPLEXED = import.meta.env.VITE_WS_MULTIPLEX === 'true';
 
 // External Feed Settings
 export const ALPACA_UPDATE_INTERVAL = 5000; // ms
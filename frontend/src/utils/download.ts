@@ -0,0 +1,15 @@
+/**
+ * File Download
+ *
+ * Saves a Blob generated in the browser (exports, certificates, reports)
+ * through a temporary object URL.
+ */
+
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
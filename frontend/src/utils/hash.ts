@@ -0,0 +1,213 @@
+/**
+ * Synchronous Hash Functions
+ *
+ * SHA-256 and Keccak-256 (the pre-standard padding Ethereum uses) over byte
+ * arrays. Web Crypto only offers SHA-256, and only asynchronously, so these
+ * back anything that has to hash inside a render or a fixture.
+ */
+
+// ===== Bytes =====
+
+export const utf8 = (value: string): Uint8Array => new TextEncoder().encode(value);
+
+export const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+export const fromHex = (hex: string): Uint8Array => {
+  const digits = hex.startsWith('0x') ? hex.slice(2) : hex;
+  if (digits.length % 2 !== 0 || /[^0-9a-f]/i.test(digits)) {
+    throw new Error(`Invalid hex string: ${hex}`);
+  }
+  return Uint8Array.from({ length: digits.length / 2 }, (_, index) =>
+    parseInt(digits.slice(index * 2, index * 2 + 2), 16)
+  );
+};
+
+export const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+// ===== SHA-256 =====
+
+const SHA256_K = Uint32Array.from([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const SHA256_INIT = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+];
+
+const rotr = (value: number, bits: number) => (value >>> bits) | (value << (32 - bits));
+
+export const sha256 = (message: Uint8Array): Uint8Array => {
+  // Pad to a multiple of 64 bytes: 0x80, zeros, then the bit length
+  const padded = new Uint8Array(Math.ceil((message.length + 9) / 64) * 64);
+  padded.set(message);
+  padded[message.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(message.length / 0x20000000));
+  view.setUint32(padded.length - 4, (message.length * 8) >>> 0);
+
+  const state = Uint32Array.from(SHA256_INIT);
+  const w = new Uint32Array(64);
+  for (let block = 0; block < padded.length; block += 64) {
+    for (let t = 0; t < 16; t++) w[t] = view.getUint32(block + t * 4);
+    for (let t = 16; t < 64; t++) {
+      const w15 = w[t - 15] as number;
+      const w2 = w[t - 2] as number;
+      const s0 = rotr(w15, 7) ^ rotr(w15, 18) ^ (w15 >>> 3);
+      const s1 = rotr(w2, 17) ^ rotr(w2, 19) ^ (w2 >>> 10);
+      w[t] = (w[t - 16] as number) + s0 + (w[t - 7] as number) + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = Array.from(state) as [
+      number,
+      number,
+      number,
+      number,
+      number,
+      number,
+      number,
+      number,
+    ];
+    for (let t = 0; t < 64; t++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const t1 = (h + s1 + ((e & f) ^ (~e & g)) + (SHA256_K[t] as number) + (w[t] as number)) >>> 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const t2 = (s0 + ((a & b) ^ (a & c) ^ (b & c))) >>> 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+    [a, b, c, d, e, f, g, h].forEach((value, index) => {
+      state[index] = (state[index] as number) + value;
+    });
+  }
+
+  const digest = new Uint8Array(32);
+  const out = new DataView(digest.buffer);
+  state.forEach((value, index) => out.setUint32(index * 4, value));
+  return digest;
+};
+
+// ===== Keccak-256 =====
+
+const MASK_64 = (BigInt(1) << BigInt(64)) - BigInt(1);
+const KECCAK_RATE = 136;
+
+const KECCAK_RC = [
+  '0000000000000001',
+  '0000000000008082',
+  '800000000000808a',
+  '8000000080008000',
+  '000000000000808b',
+  '0000000080000001',
+  '8000000080008081',
+  '8000000000008009',
+  '000000000000008a',
+  '0000000000000088',
+  '0000000080008009',
+  '000000008000000a',
+  '000000008000808b',
+  '800000000000008b',
+  '8000000000008089',
+  '8000000000008003',
+  '8000000000008002',
+  '8000000000000080',
+  '000000000000800a',
+  '800000008000000a',
+  '8000000080008081',
+  '8000000000008080',
+  '0000000080000001',
+  '8000000080008008',
+].map((constant) => BigInt(`0x${constant}`));
+
+// Rotation offsets and lane order of the combined rho and pi steps
+const KECCAK_ROTC = [
+  1, 3, 6, 10, 15, 21, 28, 36, 45, 55, 2, 14, 27, 41, 56, 8, 25, 43, 62, 18, 39, 61, 20, 44,
+];
+const KECCAK_PILN = [
+  10, 7, 11, 17, 18, 3, 5, 16, 8, 21, 24, 4, 15, 23, 19, 13, 12, 2, 20, 14, 22, 9, 6, 1,
+];
+
+const rotl64 = (value: bigint, bits: number) =>
+  ((value << BigInt(bits)) | (value >> BigInt(64 - bits))) & MASK_64;
+
+const keccakF = (state: bigint[]) => {
+  const bc = new Array<bigint>(5);
+  for (let round = 0; round < 24; round++) {
+    // Theta
+    for (let i = 0; i < 5; i++) {
+      bc[i] = state[i]! ^ state[i + 5]! ^ state[i + 10]! ^ state[i + 15]! ^ state[i + 20]!;
+    }
+    for (let i = 0; i < 5; i++) {
+      const t = bc[(i + 4) % 5]! ^ rotl64(bc[(i + 1) % 5]!, 1);
+      for (let j = 0; j < 25; j += 5) state[j + i] = state[j + i]! ^ t;
+    }
+
+    // Rho and pi
+    let carried = state[1]!;
+    for (let i = 0; i < 24; i++) {
+      const lane = KECCAK_PILN[i]!;
+      const next = state[lane]!;
+      state[lane] = rotl64(carried, KECCAK_ROTC[i]!);
+      carried = next;
+    }
+
+    // Chi
+    for (let j = 0; j < 25; j += 5) {
+      for (let i = 0; i < 5; i++) bc[i] = state[j + i]!;
+      for (let i = 0; i < 5; i++) {
+        state[j + i] = state[j + i]! ^ (~bc[(i + 1) % 5]! & MASK_64 & bc[(i + 2) % 5]!);
+      }
+    }
+
+    // Iota
+    state[0] = state[0]! ^ KECCAK_RC[round]!;
+  }
+};
+
+export const keccak256 = (message: Uint8Array): Uint8Array => {
+  const padded = new Uint8Array(Math.floor(message.length / KECCAK_RATE + 1) * KECCAK_RATE);
+  padded.set(message);
+  padded[message.length] = (padded[message.length] as number) | 0x01;
+  padded[padded.length - 1] = (padded[padded.length - 1] as number) | 0x80;
+
+  const state = new Array<bigint>(25).fill(BigInt(0));
+  for (let block = 0; block < padded.length; block += KECCAK_RATE) {
+    // Lanes are little-endian 64-bit words
+    for (let lane = 0; lane < KECCAK_RATE / 8; lane++) {
+      let word = BigInt(0);
+      for (let byte = 7; byte >= 0; byte--) {
+        word = (word << BigInt(8)) | BigInt(padded[block + lane * 8 + byte] as number);
+      }
+      state[lane] = state[lane]! ^ word;
+    }
+    keccakF(state);
+  }
+
+  const digest = new Uint8Array(32);
+  for (let index = 0; index < 32; index++) {
+    const lane = state[Math.floor(index / 8)]!;
+    digest[index] = Number((lane >> BigInt((index % 8) * 8)) & BigInt(0xff));
+  }
+  return digest;
+};
@@ -0,0 +1,278 @@
+/**
+ * Merkle Trees and Inclusion Proofs
+ *
+ * Builds a binary Merkle tree over registry leaves, produces an inclusion
+ * proof for any leaf and checks a proof against a root, all in the browser.
+ *
+ * Leaves hash as H(0x00 || canonical JSON) and inner nodes as
+ * H(0x01 || left || right), so a leaf can never pass for an inner node. An
+ * unpaired node at the end of a level moves up unchanged rather than being
+ * paired with itself.
+ */
+
+import type { MerkleNode } from '../types/registry';
+import { concatBytes, fromHex, keccak256, sha256, toHex, utf8 } from './hash';
+
+export type MerkleHashAlgorithm = 'sha256' | 'keccak256';
+
+export const MERKLE_ALGORITHMS: Record<MerkleHashAlgorithm, string> = {
+  sha256: 'SHA-256',
+  keccak256: 'Keccak-256',
+};
+
+export const MERKLE_PROOF_FORMAT = 'aurigraph-merkle-proof/v1';
+
+/** A token or asset committed to the tree */
+export interface MerkleLeaf {
+  id: string;
+  value: string;
+  data?: Record<string, unknown>;
+}
+
+export interface MerkleTree {
+  algorithm: MerkleHashAlgorithm;
+  leaves: MerkleLeaf[];
+  /** Node hashes per level, leaves first; the last level holds the root */
+  levels: string[][];
+  root: string;
+}
+
+export interface MerkleProofStep {
+  hash: string;
+  position: 'left' | 'right';
+}
+
+export interface MerkleProof {
+  format: typeof MERKLE_PROOF_FORMAT;
+  algorithm: MerkleHashAlgorithm;
+  root: string;
+  leaf: MerkleLeaf;
+  leafIndex: number;
+  leafCount: number;
+  siblings: MerkleProofStep[];
+  generatedAt: string;
+}
+
+export interface ProofVerification {
+  valid: boolean;
+  computedRoot: string;
+  /** The proof reaches its own root, but there was no trusted root to check that against */
+  untrusted?: boolean;
+  reason?: string;
+}
+
+const LEAF_PREFIX = Uint8Array.of(0);
+const NODE_PREFIX = Uint8Array.of(1);
+
+const HASHERS: Record<MerkleHashAlgorithm, (data: Uint8Array) => Uint8Array> = {
+  sha256,
+  keccak256,
+};
+
+const prefixed = (bytes: Uint8Array) => `0x${toHex(bytes)}`;
+
+/** JSON with object keys sorted, so equal leaves always hash the same */
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        (key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`
+      )
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const hashLeaf = (algorithm: MerkleHashAlgorithm, leaf: MerkleLeaf): string =>
+  prefixed(
+    HASHERS[algorithm](
+      concatBytes(
+        LEAF_PREFIX,
+        utf8(canonicalJson({ id: leaf.id, value: leaf.value, data: leaf.data ?? {} }))
+      )
+    )
+  );
+
+const hashPair = (algorithm: MerkleHashAlgorithm, left: string, right: string): string =>
+  prefixed(HASHERS[algorithm](concatBytes(NODE_PREFIX, fromHex(left), fromHex(right))));
+
+/**
+ * Build a tree over the leaves in the given order
+ */
+export const buildMerkleTree = (
+  leaves: MerkleLeaf[],
+  algorithm: MerkleHashAlgorithm = 'sha256'
+): MerkleTree => {
+  if (leaves.length === 0) throw new Error('A Merkle tree needs at least one leaf');
+
+  const levels = [leaves.map((leaf) => hashLeaf(algorithm, leaf))];
+  for (let level = levels[0] as string[]; level.length > 1; ) {
+    const next: string[] = [];
+    for (let index = 0; index < level.length; index += 2) {
+      const left = level[index] as string;
+      const right = level[index + 1];
+      next.push(right === undefined ? left : hashPair(algorithm, left, right));
+    }
+    levels.push(next);
+    level = next;
+  }
+
+  return { algorithm, leaves, levels, root: levels[levels.length - 1]?.[0] as string };
+};
+
+/**
+ * Inclusion proof for the leaf with the given id
+ */
+export const generateProof = (tree: MerkleTree, leafId: string): MerkleProof => {
+  const leafIndex = tree.leaves.findIndex((leaf) => leaf.id === leafId);
+  const leaf = tree.leaves[leafIndex];
+  if (!leaf) throw new Error(`Leaf ${leafId} is not in the tree`);
+
+  const siblings: MerkleProofStep[] = [];
+  let index = leafIndex;
+  tree.levels.slice(0, -1).forEach((level) => {
+    const isRight = index % 2 === 1;
+    const sibling = level[isRight ? index - 1 : index + 1];
+    // A node without a sibling moves up unchanged and adds no step
+    if (sibling !== undefined) {
+      siblings.push({ hash: sibling, position: isRight ? 'left' : 'right' });
+    }
+    index = Math.floor(index / 2);
+  });
+
+  return {
+    format: MERKLE_PROOF_FORMAT,
+    algorithm: tree.algorithm,
+    root: tree.root,
+    leaf,
+    leafIndex,
+    leafCount: tree.leaves.length,
+    siblings,
+    generatedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Recompute the root from the leaf data and sibling path. The proof is valid
+ * when it reaches its own root and the root the caller trusts. Anyone can
+ * build a proof that reaches its own root, so without a trusted root the
+ * proof is never valid, only untrusted.
+ */
+export const verifyProof = (proof: MerkleProof, trustedRoot?: string): ProofVerification => {
+  let computedRoot: string;
+  try {
+    computedRoot = proof.siblings.reduce(
+      (hash, step) =>
+        step.position === 'left'
+          ? hashPair(proof.algorithm, step.hash, hash)
+          : hashPair(proof.algorithm, hash, step.hash),
+      hashLeaf(proof.algorithm, proof.leaf)
+    );
+  } catch (error) {
+    return {
+      valid: false,
+      computedRoot: '',
+      reason: error instanceof Error ? error.message : 'Malformed proof',
+    };
+  }
+
+  if (computedRoot !== proof.root.toLowerCase()) {
+    return { valid: false, computedRoot, reason: 'Leaf and path do not lead to the proof root' };
+  }
+  if (!trustedRoot) {
+    return {
+      valid: false,
+      untrusted: true,
+      computedRoot,
+      reason: 'The proof only reaches its own root; enter a root you trust to check it',
+    };
+  }
+  if (computedRoot !== trustedRoot.toLowerCase()) {
+    return { valid: false, computedRoot, reason: 'Proof root differs from the trusted root' };
+  }
+  return { valid: true, computedRoot };
+};
+
+/**
+ * Read a proof exported by generateProof, rejecting anything of another shape
+ */
+export const parseProof = (json: string): MerkleProof => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Proof file is not valid JSON');
+  }
+
+  const proof = parsed as Partial<MerkleProof> | null;
+  if (!proof || proof.format !== MERKLE_PROOF_FORMAT) {
+    throw new Error(`Expected a ${MERKLE_PROOF_FORMAT} document`);
+  }
+  if (!proof.algorithm || !(proof.algorithm in HASHERS)) {
+    throw new Error(`Unsupported hash algorithm: ${String(proof.algorithm)}`);
+  }
+  if (
+    typeof proof.root !== 'string' ||
+    typeof proof.leaf?.id !== 'string' ||
+    typeof proof.leaf.value !== 'string' ||
+    !Array.isArray(proof.siblings) ||
+    !proof.siblings.every(
+      (step) =>
+        typeof step?.hash === 'string' && (step.position === 'left' || step.position === 'right')
+    )
+  ) {
+    throw new Error('Proof is missing its root, leaf or sibling path');
+  }
+  return proof as MerkleProof;
+};
+
+/**
+ * The tree as registry nodes, for display
+ */
+export const toMerkleNode = (tree: MerkleTree, timestamp?: string): MerkleNode => {
+  const nodeAt = (level: number, index: number): MerkleNode => {
+    const hash = tree.levels[level]?.[index] as string;
+    if (level === 0) {
+      const leaf = tree.leaves[index] as MerkleLeaf;
+      return {
+        id: leaf.id,
+        hash,
+        value: leaf.value,
+        type: 'leaf',
+        verified: true,
+        metadata: leaf.data,
+      };
+    }
+
+    // An unpaired child was carried up; show it in place of its parent
+    const below = tree.levels[level - 1] ?? [];
+    if (below[index * 2 + 1] === undefined) return nodeAt(level - 1, index * 2);
+    return {
+      id: `branch-${level}-${index}`,
+      hash,
+      type: 'branch',
+      verified: true,
+      children: [nodeAt(level - 1, index * 2), nodeAt(level - 1, index * 2 + 1)],
+    };
+  };
+
+  const top = tree.levels.length - 1;
+  return {
+    ...(top === 0 ? { hash: tree.root, verified: true, children: [nodeAt(0, 0)] } : nodeAt(top, 0)),
+    id: 'root',
+    type: 'root',
+    timestamp,
+    metadata: { algorithm: tree.algorithm, leafCount: tree.leaves.length },
+  };
+};
+
+/**
+ * The leaves of a registry tree, left to right
+ */
+export const collectLeaves = (node: MerkleNode): MerkleLeaf[] =>
+  node.type === 'leaf'
+    ? [{ id: node.id, value: node.value ?? '', data: node.metadata }]
+    : (node.children ?? []).flatMap(collectLeaves);
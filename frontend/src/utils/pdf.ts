@@ -0,0 +1,93 @@
+/**
+ * Plain-text PDF Writer
+ *
+ * Lays out lines of text in Courier on A4 pages, wrapping long lines, and
+ * returns the document as a Blob. Enough for certificates and reports
+ * without pulling in a PDF library. Characters outside Latin-1 are replaced.
+ */
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const FONT_SIZE = 9;
+const TITLE_SIZE = 14;
+const LINE_HEIGHT = 12;
+// Courier glyphs are 0.6em wide
+const CHARS_PER_LINE = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (FONT_SIZE * 0.6));
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN - 2 * LINE_HEIGHT) / LINE_HEIGHT);
+
+const escapeText = (text: string): string =>
+  text
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+
+const wrap = (line: string): string[] => {
+  const chunks = [line.slice(0, CHARS_PER_LINE)];
+  for (let rest = line.slice(CHARS_PER_LINE); rest; rest = rest.slice(CHARS_PER_LINE - 2)) {
+    chunks.push(`  ${rest.slice(0, CHARS_PER_LINE - 2)}`);
+  }
+  return chunks;
+};
+
+const pageContent = (title: string, lines: string[]): string => {
+  const top = PAGE_HEIGHT - MARGIN;
+  const body = lines.map((line) => `(${escapeText(line)}) Tj T*`).join('\n');
+  return [
+    'BT',
+    `/F1 ${TITLE_SIZE} Tf`,
+    `${MARGIN} ${top} Td`,
+    `(${escapeText(title)}) Tj`,
+    `/F1 ${FONT_SIZE} Tf`,
+    `${LINE_HEIGHT} TL`,
+    `0 ${-2 * LINE_HEIGHT} Td`,
+    body,
+    'ET',
+  ].join('\n');
+};
+
+/**
+ * Build a PDF with a title on every page and the given lines below it
+ */
+export const createTextPdf = (title: string, lines: string[]): Blob => {
+  const wrapped = lines.flatMap(wrap);
+  const pages: string[][] = [];
+  for (let start = 0; start < wrapped.length || pages.length === 0; start += LINES_PER_PAGE) {
+    pages.push(wrapped.slice(start, start + LINES_PER_PAGE));
+  }
+
+  // Objects: 1 catalog, 2 page tree, 3 font, then a page and its content stream per page
+  const pageIds = pages.map((_, index) => 4 + index * 2);
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+  ];
+  pages.forEach((pageLines, index) => {
+    const content = pageContent(
+      pages.length > 1 ? `${title} (${index + 1}/${pages.length})` : title,
+      pageLines
+    );
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + index * 2} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+
+  // One byte per character, so the xref offsets above hold
+  return new Blob([Uint8Array.from(pdf, (char) => char.charCodeAt(0))], {
+    type: 'application/pdf',
+  });
+};
@@ -0,0 +1,187 @@
+/**
+ * Report Export
+ *
+ * Writes a generated regulatory report as PDF, CSV, an XBRL instance or
+ * xBRL-JSON. In the XBRL formats each row is reported for its own entity
+ * (token, transfer or KYC level) over the report period, one fact per column.
+ */
+
+import type { GeneratedReport, ReportColumn, ReportFormat } from '../types/state';
+import { createTextPdf } from './pdf';
+import { toCsv } from './transferCsv';
+
+const XBRL_NAMESPACE = 'https://aurigraph.io/xbrl/compliance/2025';
+const XBRL_SCHEMA = `${XBRL_NAMESPACE}/aurigraph-compliance.xsd`;
+const ENTITY_SCHEME = 'https://aurigraph.io/entity';
+
+export const REPORT_FORMATS: Record<
+  ReportFormat,
+  { label: string; extension: string; type: string }
+> = {
+  pdf: { label: 'PDF', extension: 'pdf', type: 'application/pdf' },
+  csv: { label: 'CSV', extension: 'csv', type: 'text/csv' },
+  xbrl: { label: 'XBRL', extension: 'xbrl', type: 'application/xml' },
+  json: { label: 'xBRL-JSON', extension: 'json', type: 'application/json' },
+};
+
+/** "approvalRate" becomes the concept "ApprovalRate" */
+const conceptName = (column: ReportColumn) =>
+  column.key.charAt(0).toUpperCase() + column.key.slice(1);
+
+const escapeXml = (value: string | number) =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const reportPeriod = (report: GeneratedReport) => ({
+  startDate: report.parameters.startDate?.slice(0, 10) ?? null,
+  endDate: (report.parameters.endDate ?? report.generatedAt).slice(0, 10),
+});
+
+/** Columns reported as facts; the entity column identifies the context instead */
+const factColumns = (report: GeneratedReport) =>
+  report.columns.filter((column) => column.key !== report.entityColumn);
+
+const describeParameters = (report: GeneratedReport): string[] => {
+  const { tokenIds, jurisdiction } = report.parameters;
+  const { startDate, endDate } = reportPeriod(report);
+  return [
+    `Generated: ${new Date(report.generatedAt).toLocaleString()} (${report.trigger})`,
+    `Tokens: ${tokenIds.length > 0 ? tokenIds.join(', ') : 'all'}`,
+    `Jurisdiction: ${jurisdiction ?? 'all'}`,
+    `Period: ${startDate ?? 'inception'} to ${endDate}`,
+  ];
+};
+
+const toPdf = (report: GeneratedReport): Blob => {
+  const lines = [
+    ...describeParameters(report),
+    '',
+    'Summary',
+    ...report.summary.map((item) => `  ${item.label}: ${item.value}`),
+    '',
+    `Details (${report.rows.length} rows)`,
+  ];
+  report.rows.forEach((row) => {
+    lines.push('');
+    report.columns.forEach((column) => {
+      const value = row[column.key];
+      if (value !== undefined && value !== '') lines.push(`  ${column.title}: ${value}`);
+    });
+  });
+  return createTextPdf(report.title, lines);
+};
+
+const toReportCsv = (report: GeneratedReport): string =>
+  toCsv([
+    report.columns.map((column) => column.title),
+    ...report.rows.map((row) => report.columns.map((column) => row[column.key] ?? '')),
+  ]);
+
+const toXbrl = (report: GeneratedReport): string => {
+  const { startDate, endDate } = reportPeriod(report);
+  const period = startDate
+    ? `<xbrli:startDate>${startDate}</xbrli:startDate><xbrli:endDate>${endDate}</xbrli:endDate>`
+    : `<xbrli:instant>${endDate}</xbrli:instant>`;
+  const columns = factColumns(report);
+
+  const contexts = report.rows.map(
+    (row, index) =>
+      `  <xbrli:context id="c${index + 1}">
+    <xbrli:entity><xbrli:identifier scheme="${ENTITY_SCHEME}">${escapeXml(row[report.entityColumn] ?? '')}</xbrli:identifier></xbrli:entity>
+    <xbrli:period>${period}</xbrli:period>
+  </xbrli:context>`
+  );
+  const facts = report.rows.flatMap((row, index) =>
+    columns
+      .filter((column) => row[column.key] !== undefined && row[column.key] !== '')
+      .map((column) => {
+        const concept = `aur:${conceptName(column)}`;
+        const units = column.numeric ? ' unitRef="pure" decimals="INF"' : '';
+        return `  <${concept} contextRef="c${index + 1}"${units}>${escapeXml(row[column.key] ?? '')}</${concept}>`;
+      })
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<!-- ${escapeXml(report.title)}, generated ${report.generatedAt} -->`,
+    '<xbrli:xbrl xmlns:xbrli="http://www.xbrl.org/2003/instance" xmlns:link="http://www.xbrl.org/2003/linkbase" xmlns:xlink="http://www.w3.org/1999/xlink"',
+    `  xmlns:aur="${XBRL_NAMESPACE}">`,
+    `  <link:schemaRef xlink:type="simple" xlink:href="${XBRL_SCHEMA}"/>`,
+    ...contexts,
+    '  <xbrli:unit id="pure"><xbrli:measure>xbrli:pure</xbrli:measure></xbrli:unit>',
+    ...facts,
+    '</xbrli:xbrl>',
+  ].join('\n');
+};
+
+const toXbrlJson = (report: GeneratedReport): string => {
+  const { startDate, endDate } = reportPeriod(report);
+  const period = startDate ? `${startDate}T00:00:00/${endDate}T23:59:59` : `${endDate}T23:59:59`;
+  const facts: Record<string, object> = {};
+  report.rows.forEach((row, rowIndex) => {
+    factColumns(report).forEach((column, columnIndex) => {
+      const value = row[column.key];
+      if (value === undefined || value === '') return;
+      facts[`f${rowIndex + 1}-${columnIndex + 1}`] = {
+        value: String(value),
+        ...(column.numeric && { decimals: 0 }),
+        dimensions: {
+          concept: `aur:${conceptName(column)}`,
+          entity: `aur-entity:${row[report.entityColumn] ?? ''}`,
+          period,
+          ...(column.numeric && { unit: 'xbrli:pure' }),
+        },
+      };
+    });
+  });
+
+  return JSON.stringify(
+    {
+      documentInfo: {
+        documentType: 'https://xbrl.org/2021/xbrl-json',
+        namespaces: {
+          aur: XBRL_NAMESPACE,
+          'aur-entity': ENTITY_SCHEME,
+          xbrli: 'http://www.xbrl.org/2003/instance',
+        },
+        taxonomy: [XBRL_SCHEMA],
+      },
+      report: {
+        title: report.title,
+        generatedAt: report.generatedAt,
+        parameters: report.parameters,
+        summary: report.summary,
+      },
+      facts,
+    },
+    null,
+    2
+  );
+};
+
+/**
+ * The report as a file in the given format
+ */
+export const exportReport = (
+  report: GeneratedReport,
+  format: ReportFormat
+): { blob: Blob; fileName: string } => {
+  const { extension, type } = REPORT_FORMATS[format];
+  const slug = report.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  const fileName = `${slug || 'report'}-${report.generatedAt.slice(0, 10)}.${extension}`;
+
+  if (format === 'pdf') return { blob: toPdf(report), fileName };
+  const content =
+    format === 'csv'
+      ? toReportCsv(report)
+      : format === 'xbrl'
+        ? toXbrl(report)
+        : toXbrlJson(report);
+  return { blob: new Blob([content], { type }), fileName };
+};
@@ -0,0 +1,92 @@
+/**
+ * Staking Calculations
+ *
+ * Projected delegation rewards and unbonding countdowns for the validator
+ * staking flows.
+ */
+
+import type { SlashingEvent } from '../services/openapi/aurigraphV11';
+
+const DAY_MS = 86_400_000;
+const YEAR_DAYS = 365;
+
+export interface RewardProjectionInput {
+  amount: number;
+  /** Validator APR before commission, in percent */
+  apr: number;
+  /** Validator commission, in percent */
+  commission: number;
+  slashingHistory: SlashingEvent[];
+  days: number;
+  now?: number;
+}
+
+export interface RewardProjection {
+  /** APR left to the delegator after commission, in percent */
+  netApr: number;
+  /** Stake lost to slashing over the last year, as a yearly rate in percent */
+  slashingRate: number;
+  /** netApr less slashingRate, in percent */
+  effectiveApr: number;
+  grossRewards: number;
+  expectedSlashingLoss: number;
+  projectedRewards: number;
+}
+
+/**
+ * Simple-interest projection of delegation rewards: claimed rewards are not
+ * re-delegated, so nothing compounds. The validator's trailing twelve months
+ * of slashing is treated as the expected loss rate going forward. Durations
+ * of zero days or less project nothing.
+ */
+export const projectRewards = ({
+  amount,
+  apr,
+  commission,
+  slashingHistory,
+  days,
+  now = Date.now(),
+}: RewardProjectionInput): RewardProjection => {
+  const netApr = apr * (1 - commission / 100);
+  const yearAgo = now - YEAR_DAYS * DAY_MS;
+  const slashingRate =
+    100 *
+    slashingHistory
+      .filter((event) => Date.parse(event.occurredAt) >= yearAgo)
+      .reduce((sum, event) => sum + event.fraction, 0);
+  const years = Math.max(0, days) / YEAR_DAYS;
+  const grossRewards = amount * (netApr / 100) * years;
+  const expectedSlashingLoss = amount * (slashingRate / 100) * years;
+
+  return {
+    netApr,
+    slashingRate,
+    effectiveApr: netApr - slashingRate,
+    grossRewards,
+    expectedSlashingLoss,
+    projectedRewards: grossRewards - expectedSlashingLoss,
+  };
+};
+
+/**
+ * When tokens undelegated at `startedAt` can be withdrawn
+ */
+export const unbondingCompletesAt = (startedAt: string, unbondingPeriodDays: number): number =>
+  Date.parse(startedAt) + unbondingPeriodDays * DAY_MS;
+
+/**
+ * Remaining time as "3d 04:12:09", or null once it has elapsed
+ */
+export const formatCountdown = (remainingMs: number): string | null => {
+  if (remainingMs <= 0) return null;
+  const totalSeconds = Math.floor(remainingMs / 1000);
+  const days = Math.floor(totalSeconds / 86_400);
+  const clock = [
+    Math.floor((totalSeconds % 86_400) / 3600),
+    Math.floor((totalSeconds % 3600) / 60),
+    totalSeconds % 60,
+  ]
+    .map((part) => String(part).padStart(2, '0'))
+    .join(':');
+  return days > 0 ? `${days}d ${clock}` : clock;
+};
@@ -0,0 +1,145 @@
+/**
+ * Text Diff
+ *
+ * Shortest-edit-script diff over lines or words, shaped for a side-by-side
+ * view: a removed line directly followed by an added one is reported as a
+ * single changed row.
+ */
+
+export type DiffOp<T> =
+  | { type: 'same'; value: T }
+  | { type: 'removed'; value: T }
+  | { type: 'added'; value: T };
+
+export interface DiffRow {
+  type: 'unchanged' | 'added' | 'removed' | 'changed';
+  left?: string;
+  right?: string;
+}
+
+export interface WordChange {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Myers' shortest edit script between two sequences with no common prefix or
+ * suffix. Time and memory grow with the number of edits D as O((n + m)·D) and
+ * O(D²), rather than with n·m.
+ */
+const shortestEdit = <T>(before: T[], after: T[]): DiffOp<T>[] => {
+  const max = before.length + after.length;
+  // furthest[k + offset]: furthest index into `before` reached on diagonal k (x - y)
+  const offset = max + 1;
+  const furthest = new Array<number>(2 * offset + 1).fill(0);
+  // trace[d]: diagonals -d - 1..d + 1 of `furthest` as they stood before pass d
+  const trace: number[][] = [];
+
+  const down = (at: (k: number) => number, k: number, d: number) =>
+    k === -d || (k !== d && at(k - 1) < at(k + 1));
+
+  search: for (let d = 0; d <= max; d++) {
+    trace.push(furthest.slice(offset - d - 1, offset + d + 2));
+    const at = (k: number) => furthest[k + offset] ?? 0;
+    for (let k = -d; k <= d; k += 2) {
+      let x = down(at, k, d) ? at(k + 1) : at(k - 1) + 1;
+      let y = x - k;
+      while (x < before.length && y < after.length && before[x] === after[y]) {
+        x++;
+        y++;
+      }
+      furthest[k + offset] = x;
+      if (x >= before.length && y >= after.length) break search;
+    }
+  }
+
+  // Walk back from the end through the recorded passes
+  const ops: DiffOp<T>[] = [];
+  let x = before.length;
+  let y = after.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d] as number[];
+    const at = (k: number) => snapshot[k + d + 1] ?? 0;
+    const k = x - y;
+    const previousK = down(at, k, d) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+    while (x > previousX && y > previousY) {
+      ops.push({ type: 'same', value: before[--x] as T });
+      y--;
+    }
+    if (d > 0) {
+      if (x === previousX) ops.push({ type: 'added', value: after[--y] as T });
+      else ops.push({ type: 'removed', value: before[--x] as T });
+    }
+  }
+  return ops.reverse();
+};
+
+/**
+ * Edit script turning `before` into `after`
+ */
+export const diffSequence = <T>(before: T[], after: T[]): DiffOp<T>[] => {
+  // Unchanged runs at either end need no search
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+  let beforeEnd = before.length;
+  let afterEnd = after.length;
+  while (beforeEnd > start && afterEnd > start && before[beforeEnd - 1] === after[afterEnd - 1]) {
+    beforeEnd--;
+    afterEnd--;
+  }
+
+  const same = (value: T): DiffOp<T> => ({ type: 'same', value });
+  return [
+    ...before.slice(0, start).map(same),
+    ...shortestEdit(before.slice(start, beforeEnd), after.slice(start, afterEnd)),
+    ...before.slice(beforeEnd).map(same),
+  ];
+};
+
+/**
+ * Line diff for a side-by-side view
+ */
+export const diffLines = (before: string, after: string): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  // Pair up a run of removed lines with the added lines that replace them
+  const flush = () => {
+    for (let index = 0; index < Math.max(removed.length, added.length); index++) {
+      const left = removed[index];
+      const right = added[index];
+      rows.push({
+        type: left === undefined ? 'added' : right === undefined ? 'removed' : 'changed',
+        left,
+        right,
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  diffSequence(before.split('\n'), after.split('\n')).forEach((op) => {
+    if (op.type === 'removed') removed.push(op.value);
+    else if (op.type === 'added') added.push(op.value);
+    else {
+      flush();
+      rows.push({ type: 'unchanged', left: op.value, right: op.value });
+    }
+  });
+  flush();
+  return rows;
+};
+
+/**
+ * Word-level changes between two versions of a line, whitespace kept
+ */
+export const diffWords = (before: string, after: string): WordChange[] =>
+  diffSequence(before.split(/(\s+)/), after.split(/(\s+)/)).map((op) => ({
+    type: op.type,
+    text: op.value,
+  }));
@@ -0,0 +1,117 @@
+/**
+ * Transfer CSV
+ *
+ * Reads proposed token transfers from CSV for batch compliance checks, and
+ * writes the pass/fail report back out. Columns are tokenId, from, to and
+ * amount, in any order when the file has a header row and in that order
+ * when it doesn't.
+ */
+
+import type { TransferComplianceRequest } from '../services/complianceApi';
+
+export const TRANSFER_CSV_COLUMNS = ['tokenId', 'from', 'to', 'amount'] as const;
+
+type TransferColumn = (typeof TRANSFER_CSV_COLUMNS)[number];
+
+export interface ParsedTransfer {
+  /** 1-based line in the file */
+  line: number;
+  transfer: TransferComplianceRequest;
+}
+
+export interface TransferCsvError {
+  line: number;
+  message: string;
+}
+
+/**
+ * Split one CSV line, honouring double-quoted fields and "" escapes
+ */
+const splitLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i += 1) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+};
+
+const escapeField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number)[][]): string =>
+  rows.map((row) => row.map(escapeField).join(',')).join('\n');
+
+export const parseTransferCsv = (
+  text: string
+): { transfers: ParsedTransfer[]; errors: TransferCsvError[] } => {
+  const lines = text
+    .split(/\r?\n/)
+    .map((content, index) => ({ line: index + 1, content }))
+    .filter(({ content }) => content.trim() !== '' && !content.trim().startsWith('#'));
+
+  const header = lines[0] ? splitLine(lines[0].content).map((name) => name.toLowerCase()) : [];
+  const hasHeader = TRANSFER_CSV_COLUMNS.some((column) => header.includes(column.toLowerCase()));
+  const positions = Object.fromEntries(
+    TRANSFER_CSV_COLUMNS.map((column, index) => [
+      column,
+      hasHeader ? header.indexOf(column.toLowerCase()) : index,
+    ])
+  ) as Record<TransferColumn, number>;
+
+  const errors: TransferCsvError[] = [];
+  const missing = TRANSFER_CSV_COLUMNS.filter((column) => positions[column] < 0);
+  if (missing.length > 0) {
+    return {
+      transfers: [],
+      errors: [{ line: lines[0]?.line ?? 1, message: `Missing column: ${missing.join(', ')}` }],
+    };
+  }
+
+  const transfers: ParsedTransfer[] = [];
+  (hasHeader ? lines.slice(1) : lines).forEach(({ line, content }) => {
+    const fields = splitLine(content);
+    const value = (column: TransferColumn) => fields[positions[column]] ?? '';
+    const empty = TRANSFER_CSV_COLUMNS.filter((column) => !value(column));
+    if (empty.length > 0) {
+      errors.push({ line, message: `Missing ${empty.join(', ')}` });
+      return;
+    }
+    const amount = Number(value('amount').replace(/_/g, ''));
+    if (!Number.isFinite(amount)) {
+      errors.push({ line, message: `"${value('amount')}" is not a number` });
+      return;
+    }
+    if (amount <= 0) {
+      errors.push({ line, message: `Amount must be greater than zero, got ${value('amount')}` });
+      return;
+    }
+    transfers.push({
+      line,
+      transfer: { tokenId: value('tokenId'), from: value('from'), to: value('to'), amount },
+    });
+  });
+
+  return { transfers, errors };
+};
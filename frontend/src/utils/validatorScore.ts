@@ -0,0 +1,75 @@
+/**
+ * Validator Scoring
+ *
+ * Composite 0-100 score used to rank validators on the dashboard and in
+ * side-by-side comparisons.
+ */
+
+import type { Validator } from '../services/openapi/aurigraphV11';
+
+/** Share of the score each factor contributes; sums to 1 */
+const SCORE_WEIGHTS = {
+  uptime: 0.4,
+  signing: 0.3,
+  slashing: 0.2,
+  commission: 0.1,
+};
+
+/** Commission at or above which a validator gets no credit for it, in percent */
+const MAX_CREDITED_COMMISSION = 20;
+
+export interface ValidatorScoreBreakdown {
+  uptime: number;
+  signing: number;
+  slashing: number;
+  commission: number;
+  /** Weighted sum of the factors above, 0-100 */
+  total: number;
+}
+
+/** The metrics the score is built from; the backend may leave any of them out */
+export type ScoredValidatorMetrics = Partial<
+  Pick<Validator, 'uptime' | 'blocksSigned' | 'missedBlocks' | 'slashingEvents' | 'commission'>
+>;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/** The metric as a number, or undefined when it is missing or not finite */
+const reported = (value: number | undefined): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+/** Share of blocks signed rather than missed; a validator with no blocks yet gets full credit */
+const signingRatio = (signed: number, missed: number) => {
+  const signedAndMissed = Math.max(0, signed) + Math.max(0, missed);
+  return signedAndMissed > 0 ? clamp01(signed / signedAndMissed) : 1;
+};
+
+/**
+ * Each factor is normalised to 0-100 before weighting: uptime as reported,
+ * signing as the share of blocks signed rather than missed, slashing halving
+ * with every recorded event, and commission scaled down to zero at 20%.
+ * A metric that wasn't reported earns no credit.
+ */
+export const scoreBreakdown = (validator: ScoredValidatorMetrics): ValidatorScoreBreakdown => {
+  const uptime = reported(validator.uptime);
+  const signed = reported(validator.blocksSigned);
+  const missed = reported(validator.missedBlocks);
+  const slashingEvents = reported(validator.slashingEvents);
+  const commission = reported(validator.commission);
+
+  const factors = {
+    uptime: uptime === undefined ? 0 : clamp01(uptime / 100) * 100,
+    signing: signed === undefined || missed === undefined ? 0 : signingRatio(signed, missed) * 100,
+    slashing: slashingEvents === undefined ? 0 : 100 / 2 ** Math.max(0, slashingEvents),
+    commission:
+      commission === undefined ? 0 : clamp01(1 - commission / MAX_CREDITED_COMMISSION) * 100,
+  };
+  const total = (Object.keys(SCORE_WEIGHTS) as (keyof typeof SCORE_WEIGHTS)[]).reduce(
+    (sum, factor) => sum + factors[factor] * SCORE_WEIGHTS[factor],
+    0
+  );
+  return { ...factors, total };
+};
+
+export const compositeScore = (validator: ScoredValidatorMetrics): number =>
+  scoreBreakdown(validator).total;
@@ -3,6 +3,10 @@
 interface ImportMetaEnv {
   readonly VITE_API_BASE_URL: string;
   readonly VITE_WS_URL: string;
+  readonly VITE_ACCOUNT_API_URL?: string;
+  readonly VITE_WS_MULTIPLEX?: string;
+  readonly VITE_MOCK_BACKEND?: string;
+  readonly VITE_MOCK_SEED?: string;
 }
 
 interface ImportMeta {